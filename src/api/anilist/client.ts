@@ -11,10 +11,15 @@ import {
   UserMediaList,
   ApiProvider,
   MediaListStatus,
+  FuzzyDate,
+  MangaRelation,
+  MangaRelationType,
 } from "./types";
 import {
   SEARCH_MANGA,
   GET_MANGA_BY_IDS,
+  GET_MANGA_IDS_BY_MAL_IDS,
+  GET_MANGA_RELATIONS_BY_IDS,
   GET_USER_MANGA_LIST,
   GET_VIEWER,
 } from "./queries";
@@ -269,7 +274,8 @@ async function handleElectronRequest<T>(
       // Map error onto Error object with additional properties for handling
       interface ElectronApiError extends Error {
         status?: number;
-        errors?: Array<{ message: string }>;
+        errors?: Array<{ message: string; path?: Array<string | number> }>;
+        data?: Record<string, unknown>;
       }
 
       const err = new Error(
@@ -277,6 +283,8 @@ async function handleElectronRequest<T>(
       ) as ElectronApiError;
       err.status = envelope.error?.status;
       err.errors = envelope.error?.errors;
+      // Partial data from a request that failed only in part (e.g. one alias of a batched mutation)
+      err.data = envelope.data;
       throw err;
     }
 
@@ -1438,6 +1446,174 @@ export async function getMangaByIds(
   );
 }
 
+/**
+ * Resolve MyAnimeList manga IDs to AniList media IDs.
+ * IDs without an AniList entry are omitted from the result.
+ * @param malIds - MyAnimeList manga IDs (up to 50).
+ * @param token - Optional access token for authenticated requests.
+ * @param abortSignal - Optional AbortSignal to cancel the request.
+ * @param noRetry - Disable automatic retry logic (default: false).
+ * @returns Promise resolving to a map of MyAnimeList ID to AniList ID.
+ * @source
+ */
+export async function getAniListIdsByMalIds(
+  malIds: number[],
+  token?: string,
+  abortSignal?: AbortSignal,
+  noRetry?: boolean,
+): Promise<Map<number, number>> {
+  return withGroupAsync(
+    `[AniListClient] Resolve MAL IDs (${malIds.length} IDs)`,
+    async () => {
+      const resolved = new Map<number, number>();
+      if (!malIds.length) {
+        return resolved;
+      }
+
+      try {
+        const response = await request<{
+          data?: { Page: { media: { id: number; idMal: number | null }[] } };
+          Page?: { media: { id: number; idMal: number | null }[] };
+        }>(
+          GET_MANGA_IDS_BY_MAL_IDS,
+          { malIds },
+          token,
+          abortSignal,
+          undefined,
+          noRetry,
+        );
+
+        if (!response?.data) {
+          console.error(
+            `[AniListClient] ❌ Invalid API response when resolving MAL IDs:`,
+            response,
+          );
+          return resolved;
+        }
+
+        // Check for nested data structure
+        const responseData = response.data.data ?? response.data;
+
+        for (const media of responseData.Page?.media || []) {
+          // Keep the first AniList entry if several share a MAL ID
+          if (media.idMal && !resolved.has(media.idMal)) {
+            resolved.set(media.idMal, media.id);
+          }
+        }
+        return resolved;
+      } catch (error) {
+        console.error(
+          `[AniListClient] ❌ Error resolving MAL IDs [${malIds.join(", ")}]:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
+
+/**
+ * Relation types kept from AniList relation edges.
+ * @source
+ */
+const KEPT_RELATION_TYPES = new Set<string>([
+  "PREQUEL",
+  "SEQUEL",
+  "PARENT",
+  "SIDE_STORY",
+  "SPIN_OFF",
+  "ALTERNATIVE",
+]);
+
+/**
+ * Relation edge as returned by GET_MANGA_RELATIONS_BY_IDS.
+ * @source
+ */
+interface RelationEdgeResponse {
+  relationType: string;
+  node: Omit<AniListManga, "description" | "genres" | "tags"> & {
+    type: string;
+  };
+}
+
+/**
+ * Fetch the related manga entries of multiple AniList manga in a single request.
+ * Only manga relations of the kept types are returned, and light novels are dropped.
+ * @param ids - AniList manga media IDs (up to 50).
+ * @param token - Optional access token for authenticated requests.
+ * @param abortSignal - Optional AbortSignal to cancel the request.
+ * @returns Promise resolving to a map of media ID to its related entries.
+ * @source
+ */
+export async function getMangaRelations(
+  ids: number[],
+  token?: string,
+  abortSignal?: AbortSignal,
+): Promise<Map<number, MangaRelation[]>> {
+  return withGroupAsync(
+    `[AniListClient] Get Relations (${ids.length} IDs)`,
+    async () => {
+      const relationsById = new Map<number, MangaRelation[]>();
+      if (!ids.length) {
+        return relationsById;
+      }
+
+      try {
+        type RelationsPage = {
+          Page: {
+            media: {
+              id: number;
+              relations?: { edges: RelationEdgeResponse[] } | null;
+            }[];
+          };
+        };
+        const response = await request<{
+          data?: RelationsPage;
+          Page?: RelationsPage["Page"];
+        }>(GET_MANGA_RELATIONS_BY_IDS, { ids }, token, abortSignal);
+
+        if (!response?.data) {
+          console.error(
+            `[AniListClient] ❌ Invalid API response when fetching relations:`,
+            response,
+          );
+          return relationsById;
+        }
+
+        // Check for nested data structure
+        const responseData = response.data.data ?? response.data;
+
+        for (const media of responseData.Page?.media || []) {
+          const relations: MangaRelation[] = [];
+          for (const edge of media.relations?.edges || []) {
+            if (!edge.node) continue;
+            const { type, ...node } = edge.node;
+            if (
+              type !== "MANGA" ||
+              node.format === "NOVEL" ||
+              !KEPT_RELATION_TYPES.has(edge.relationType)
+            ) {
+              continue;
+            }
+            relations.push({
+              relationType: edge.relationType as MangaRelationType,
+              manga: { ...node, description: null, genres: [], tags: [] },
+            });
+          }
+          relationsById.set(media.id, relations);
+        }
+        return relationsById;
+      } catch (error) {
+        console.error(
+          `[AniListClient] ❌ Error fetching relations for [${ids.join(", ")}]:`,
+          error,
+        );
+        throw error;
+      }
+    },
+  );
+}
+
 /**
  * Constructs a RateLimitError with retry metadata.
  * Used internally to standardize rate limit error creation.
@@ -1720,6 +1896,14 @@ interface MediaListEntry {
   progress: number;
   score: number;
   private: boolean;
+  progressVolumes?: number;
+  notes?: string | null;
+  startedAt?: FuzzyDate | null;
+  completedAt?: FuzzyDate | null;
+  customLists?: Array<{ name: string; enabled: boolean }> | null;
+  hiddenFromStatusLists?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
   media: AniListManga;
 }
 
@@ -2036,7 +2220,23 @@ function processMediaListCollectionChunk(
         progress: entry.progress,
         score: entry.score,
         private: entry.private,
+        progressVolumes: entry.progressVolumes,
+        notes: entry.notes,
+        startedAt: entry.startedAt,
+        completedAt: entry.completedAt,
+        customLists: (entry.customLists ?? [])
+          .filter((list) => list.enabled)
+          .map((list) => list.name),
+        hiddenFromStatusLists: entry.hiddenFromStatusLists ?? false,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
         title: entry.media.title,
+        media: {
+          synonyms: entry.media.synonyms ?? [],
+          chapters: entry.media.chapters,
+          volumes: entry.media.volumes,
+          coverImage: entry.media.coverImage,
+        },
       };
     }
   }
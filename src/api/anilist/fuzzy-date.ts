@@ -0,0 +1,79 @@
+/**
+ * @packageDocumentation
+ * @module anilist-fuzzy-date
+ * @description Helpers for converting, comparing, and formatting AniList fuzzy dates.
+ */
+
+import type { FuzzyDate } from "./types";
+
+/**
+ * Converts an ISO 8601 timestamp into an AniList fuzzy date.
+ * Uses the local calendar date so the result matches what the user saw in Kenmei.
+ * @param timestamp - ISO 8601 timestamp string.
+ * @returns Fuzzy date with year, month, and day, or null if the timestamp is missing or invalid.
+ * @source
+ */
+export function toFuzzyDate(timestamp?: string | null): FuzzyDate | null {
+  if (!timestamp) return null;
+
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return null;
+
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+  };
+}
+
+/**
+ * Checks whether a fuzzy date carries any date information.
+ * AniList returns `{ year: null, month: null, day: null }` for unset dates.
+ * @param date - Fuzzy date to check.
+ * @returns True if at least the year is set.
+ * @source
+ */
+export function isFuzzyDateSet(
+  date: FuzzyDate | null | undefined,
+): date is FuzzyDate {
+  return typeof date?.year === "number" && date.year > 0;
+}
+
+/**
+ * Compares two fuzzy dates component by component, treating unset dates as equal.
+ * @param a - First fuzzy date.
+ * @param b - Second fuzzy date.
+ * @returns True if both dates describe the same day (or are both unset).
+ * @source
+ */
+export function fuzzyDatesEqual(
+  a: FuzzyDate | null | undefined,
+  b: FuzzyDate | null | undefined,
+): boolean {
+  const aSet = isFuzzyDateSet(a);
+  const bSet = isFuzzyDateSet(b);
+  if (!aSet || !bSet) return aSet === bSet;
+
+  return (
+    a.year === b.year &&
+    (a.month ?? null) === (b.month ?? null) &&
+    (a.day ?? null) === (b.day ?? null)
+  );
+}
+
+/**
+ * Formats a fuzzy date as `YYYY-MM-DD`, omitting unknown trailing components.
+ * @param date - Fuzzy date to format.
+ * @returns Formatted date string, or "None" if the date is unset.
+ * @source
+ */
+export function formatFuzzyDate(date: FuzzyDate | null | undefined): string {
+  if (!isFuzzyDateSet(date)) return "None";
+
+  const parts = [String(date.year)];
+  if (date.month) {
+    parts.push(String(date.month).padStart(2, "0"));
+    if (date.day) parts.push(String(date.day).padStart(2, "0"));
+  }
+  return parts.join("-");
+}
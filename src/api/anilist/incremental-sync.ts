@@ -1,4 +1,5 @@
 import type { AniListMediaEntry } from "./types";
+import { fuzzyDatesEqual, isFuzzyDateSet } from "./fuzzy-date";
 
 function progressStepsForDelta(delta: number): number[] {
   if (delta === 1) return [1];
@@ -20,7 +21,8 @@ export function determineIncrementalSteps(
       (mediaEntry.status && mediaEntry.status !== "PLANNING") ||
       (typeof mediaEntry.score === "number" && mediaEntry.score > 0) ||
       mediaEntry.private !== undefined ||
-      !!mediaEntry.syncMetadata?.updatedPrivate
+      !!mediaEntry.syncMetadata?.updatedPrivate ||
+      hasListDetailChanges(mediaEntry)
     );
   }
 
@@ -32,10 +34,12 @@ export function determineIncrementalSteps(
       mediaEntry.status !== previousValues.status ||
       mediaEntry.score !== previousValues.score ||
       mediaEntry.private !== previousValues.private ||
+      hasListDetailChanges(mediaEntry) ||
       !!(
         mediaEntry.syncMetadata?.updatedStatus ||
         mediaEntry.syncMetadata?.updatedScore ||
-        mediaEntry.syncMetadata?.updatedPrivate
+        mediaEntry.syncMetadata?.updatedPrivate ||
+        mediaEntry.syncMetadata?.updatedDetails
       )
     );
   }
@@ -81,6 +85,78 @@ export function determineIncrementalSteps(
     : determineStepsForNewEntry(mediaEntry);
 }
 
+/**
+ * Collect the extended list entry fields (volumes, notes, reading dates) that need to be written.
+ * New entries include every populated field; existing entries only include fields that differ
+ * from previousValues. Kenmei never clears a value on AniList, so empty fields are skipped.
+ * @param mediaEntry - The AniList media entry.
+ * Custom lists are only ever added to, since AniList replaces the whole set on save.
+ * @returns Variables for progressVolumes, notes, startedAt, completedAt, customLists and hiddenFromStatusLists that should be sent.
+ */
+export function buildListDetailVariables(
+  mediaEntry: AniListMediaEntry,
+): Record<string, unknown> {
+  const previousValues = mediaEntry.previousValues;
+  const variables: Record<string, unknown> = {};
+
+  if (
+    typeof mediaEntry.progressVolumes === "number" &&
+    mediaEntry.progressVolumes > 0 &&
+    mediaEntry.progressVolumes !== (previousValues?.progressVolumes ?? 0)
+  ) {
+    variables.progressVolumes = mediaEntry.progressVolumes;
+  }
+
+  if (
+    typeof mediaEntry.notes === "string" &&
+    mediaEntry.notes.trim() !== "" &&
+    mediaEntry.notes !== (previousValues?.notes ?? "")
+  ) {
+    variables.notes = mediaEntry.notes;
+  }
+
+  if (
+    isFuzzyDateSet(mediaEntry.startedAt) &&
+    !fuzzyDatesEqual(mediaEntry.startedAt, previousValues?.startedAt)
+  ) {
+    variables.startedAt = { ...mediaEntry.startedAt };
+  }
+
+  if (
+    isFuzzyDateSet(mediaEntry.completedAt) &&
+    !fuzzyDatesEqual(mediaEntry.completedAt, previousValues?.completedAt)
+  ) {
+    variables.completedAt = { ...mediaEntry.completedAt };
+  }
+
+  if (mediaEntry.customLists?.length) {
+    const previousLists = new Set(previousValues?.customLists ?? []);
+    if (mediaEntry.customLists.some((list) => !previousLists.has(list))) {
+      variables.customLists = Array.from(
+        new Set([...previousLists, ...mediaEntry.customLists]),
+      );
+    }
+  }
+
+  if (
+    mediaEntry.hiddenFromStatusLists === true &&
+    previousValues?.hiddenFromStatusLists !== true
+  ) {
+    variables.hiddenFromStatusLists = true;
+  }
+
+  return variables;
+}
+
+/**
+ * Determine whether any extended list entry field (volumes, notes, reading dates, custom lists) will change.
+ * @param mediaEntry - The AniList media entry.
+ * @returns True if at least one extended field needs to be written.
+ */
+export function hasListDetailChanges(mediaEntry: AniListMediaEntry): boolean {
+  return Object.keys(buildListDetailVariables(mediaEntry)).length > 0;
+}
+
 /**
  * Build GraphQL variables for a given incremental sync step using sync-service rules.
  * This helper centralizes mapping logic so workers and the sync service use a single source of truth.
@@ -130,7 +206,7 @@ function buildStep3Variables(
       mutationVariables.score = mediaEntry.score;
     if (mediaEntry.private !== undefined)
       mutationVariables.private = mediaEntry.private;
-    return mutationVariables;
+    return { ...mutationVariables, ...buildListDetailVariables(mediaEntry) };
   }
   if (mediaEntry.status !== previousValues.status)
     mutationVariables.status = mediaEntry.status;
@@ -148,5 +224,5 @@ function buildStep3Variables(
   ) {
     mutationVariables.private = mediaEntry.private;
   }
-  return mutationVariables;
+  return { ...mutationVariables, ...buildListDetailVariables(mediaEntry) };
 }
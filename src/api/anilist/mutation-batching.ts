@@ -0,0 +1,118 @@
+/**
+ * @packageDocumentation
+ * @module anilist-mutation-batching
+ * @description Packs pending list entry updates into aliased SaveMediaListEntry batches and sizes those batches adaptively. Free of browser APIs so the batch sync worker can share it.
+ */
+
+import type { AniListMediaEntry } from "./types";
+import { MUTATION_BATCH_CONFIG } from "../../config/anilist";
+
+/**
+ * One entry update placed in an aliased mutation batch.
+ * @source
+ */
+export interface MutationBatchSlot {
+  /** GraphQL alias the entry's SaveMediaListEntry field is sent under. */
+  alias: string;
+  entry: AniListMediaEntry;
+}
+
+/**
+ * Returns the GraphQL alias for the entry at a position in a batch.
+ * @param position - Zero-based position in the batch.
+ * @returns Alias such as "m0".
+ * @source
+ */
+export function getMutationAlias(position: number): string {
+  return `m${position}`;
+}
+
+/**
+ * Takes the next pending update of up to `size` media IDs, in processing order.
+ *
+ * Each media ID contributes only the head of its queue, so its incremental steps are
+ * sent in order across batches. Queues are not modified; callers remove a head once it
+ * has been saved, which leaves failed or rate-limited updates in place for retry.
+ *
+ * @param queues - Pending updates per media ID, each sorted by step.
+ * @param order - Media IDs in processing order.
+ * @param size - Maximum entries in the batch.
+ * @returns The batch, empty when nothing is pending.
+ * @source
+ */
+export function takeMutationBatch(
+  queues: Map<number, AniListMediaEntry[]>,
+  order: number[],
+  size: number,
+): MutationBatchSlot[] {
+  const slots: MutationBatchSlot[] = [];
+  const included = new Set<number>();
+
+  for (const mediaId of order) {
+    if (slots.length >= size) break;
+    const entry = queues.get(mediaId)?.[0];
+    if (entry && !included.has(mediaId)) {
+      included.add(mediaId);
+      slots.push({ alias: getMutationAlias(slots.length), entry });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Packs step-expanded entries into batches the way a sync does when every request succeeds,
+ * growing the batch size after each batch.
+ * @param entriesByMediaId - Step-expanded entries per media ID, each sorted by step.
+ * @param order - Media IDs in processing order.
+ * @param size - Size of the first batch.
+ * @returns Batches in the order they are sent.
+ * @source
+ */
+export function packMutationBatches(
+  entriesByMediaId: Record<number, AniListMediaEntry[]>,
+  order: number[],
+  size: number = MUTATION_BATCH_CONFIG.initialSize,
+): MutationBatchSlot[][] {
+  const queues = new Map<number, AniListMediaEntry[]>();
+  for (const mediaId of order) {
+    const entries = entriesByMediaId[mediaId];
+    if (entries?.length) queues.set(mediaId, [...entries]);
+  }
+
+  const batches: MutationBatchSlot[][] = [];
+  let batchSize = size;
+  let slots = takeMutationBatch(queues, order, batchSize);
+  while (slots.length > 0) {
+    batches.push(slots);
+    for (const { entry } of slots) {
+      const queue = queues.get(entry.mediaId)!;
+      queue.shift();
+      if (queue.length === 0) queues.delete(entry.mediaId);
+    }
+    batchSize = getNextMutationBatchSize(batchSize, true);
+    slots = takeMutationBatch(queues, order, batchSize);
+  }
+
+  return batches;
+}
+
+/**
+ * Adjusts the batch size after a request.
+ * Grows steadily while requests succeed and halves when a whole request fails,
+ * so oversized or rejected documents are split until they go through.
+ * @param currentSize - Size of the batch that was sent.
+ * @param requestSucceeded - Whether AniList accepted the request as a whole.
+ * @returns Size for the next batch.
+ * @source
+ */
+export function getNextMutationBatchSize(
+  currentSize: number,
+  requestSucceeded: boolean,
+): number {
+  const { minSize, maxSize, growthStep } = MUTATION_BATCH_CONFIG;
+  const nextSize = requestSucceeded
+    ? currentSize + growthStep
+    : Math.floor(currentSize / 2);
+  return Math.min(maxSize, Math.max(minSize, nextSize));
+}
@@ -1,57 +1,133 @@
 /**
  * @packageDocumentation
  * @module anilist-mutations
- * @description GraphQL mutations for AniList API, including dynamic update and delete mutations for manga entries.
+ * @description GraphQL mutations for AniList API, including dynamic update, aliased batch update, and delete mutations for manga entries.
  */
 
+/**
+ * Optional SaveMediaListEntry arguments and their GraphQL types, in declaration order.
+ * @source
+ */
+const UPDATE_ENTRY_ARGUMENTS: ReadonlyArray<readonly [string, string]> = [
+  ["status", "MediaListStatus"],
+  ["progress", "Int"],
+  ["private", "Boolean"],
+  ["score", "Float"],
+  ["progressVolumes", "Int"],
+  ["notes", "String"],
+  ["startedAt", "FuzzyDateInput"],
+  ["completedAt", "FuzzyDateInput"],
+  ["customLists", "[String]"],
+  ["hiddenFromStatusLists", "Boolean"],
+];
+
+/**
+ * Fields selected from a saved list entry.
+ * @source
+ */
+const SAVED_ENTRY_SELECTION = `{
+    id
+    status
+    progress
+    private
+    score
+    progressVolumes
+    notes
+    startedAt {
+      year
+      month
+      day
+    }
+    completedAt {
+      year
+      month
+      day
+    }
+    customLists(asArray: true)
+    hiddenFromStatusLists
+  }`;
+
+/**
+ * Builds variable definitions and arguments for one SaveMediaListEntry field.
+ * Always includes mediaId; optional arguments are included only if present in `variables`.
+ * @param variables - Variables for the entry.
+ * @param prefix - Prefix for variable names, used to keep aliased fields apart.
+ * @returns Variable definitions and field arguments.
+ * @source
+ */
+function buildUpdateEntryArguments(
+  variables: Record<string, unknown>,
+  prefix = "",
+): { definitions: string[]; parameters: string[] } {
+  // Always include mediaId as it's required
+  const definitions = [`$${prefix}mediaId: Int!`];
+  const parameters = [`mediaId: $${prefix}mediaId`];
+
+  for (const [name, type] of UPDATE_ENTRY_ARGUMENTS) {
+    if (name in variables) {
+      definitions.push(`$${prefix}${name}: ${type}`);
+      parameters.push(`${name}: $${prefix}${name}`);
+    }
+  }
+
+  return { definitions, parameters };
+}
+
 /**
  * Generates a dynamic UPDATE_MANGA_ENTRY mutation with only required variables.
  * Only includes variable declarations for fields present in the variables object.
  * Always includes mediaId as it's a required field.
- * @param variables - Object indicating which optional fields to include (status, progress, score, private).
+ * @param variables - Object indicating which optional fields to include (status, progress, score, private, progressVolumes, notes, startedAt, completedAt, customLists, hiddenFromStatusLists).
  * @returns GraphQL mutation string for updating a manga entry.
  * @source
  */
 export function generateUpdateMangaEntryMutation(
-  variables: Record<string, string | number | boolean>,
+  variables: Record<string, unknown>,
 ): string {
-  // Always include mediaId as it's required
-  const variableDefinitions = ["$mediaId: Int!"];
-  const parameters = ["mediaId: $mediaId"];
-
-  // Add optional variables only if present in the variables object
-  if ("status" in variables) {
-    variableDefinitions.push("$status: MediaListStatus");
-    parameters.push("status: $status");
-  }
+  const { definitions, parameters } = buildUpdateEntryArguments(variables);
 
-  if ("progress" in variables) {
-    variableDefinitions.push("$progress: Int");
-    parameters.push("progress: $progress");
-  }
+  // Generate the mutation with only necessary variables
+  return `
+mutation (${definitions.join(", ")}) {
+  SaveMediaListEntry(${parameters.join(", ")}) ${SAVED_ENTRY_SELECTION}
+}
+`;
+}
 
-  if ("private" in variables) {
-    variableDefinitions.push("$private: Boolean");
-    parameters.push("private: $private");
-  }
+/**
+ * Generates one mutation that saves several list entries through aliased SaveMediaListEntry fields.
+ * Each entry's variables are prefixed with its alias (e.g. `$m0_progress`) so they cannot collide.
+ * @param operations - Entries to save, each with a unique alias and its update variables.
+ * @returns GraphQL mutation string and the merged variables to send with it.
+ * @source
+ */
+export function generateBatchedUpdateMangaEntryMutation(
+  operations: { alias: string; variables: Record<string, unknown> }[],
+): { mutation: string; variables: Record<string, unknown> } {
+  const definitions: string[] = [];
+  const fields: string[] = [];
+  const mergedVariables: Record<string, unknown> = {};
 
-  if ("score" in variables) {
-    variableDefinitions.push("$score: Float");
-    parameters.push("score: $score");
+  for (const { alias, variables } of operations) {
+    const prefix = `${alias}_`;
+    const entryArguments = buildUpdateEntryArguments(variables, prefix);
+    definitions.push(...entryArguments.definitions);
+    fields.push(
+      `  ${alias}: SaveMediaListEntry(${entryArguments.parameters.join(", ")}) ${SAVED_ENTRY_SELECTION}`,
+    );
+    for (const [name, value] of Object.entries(variables)) {
+      mergedVariables[`${prefix}${name}`] = value;
+    }
   }
 
-  // Generate the mutation with only necessary variables
-  return `
-mutation (${variableDefinitions.join(", ")}) {
-  SaveMediaListEntry(${parameters.join(", ")}) {
-    id
-    status
-    progress
-    private
-    score
-  }
+  return {
+    mutation: `
+mutation (${definitions.join(", ")}) {
+${fields.join("\n")}
 }
-`;
+`,
+    variables: mergedVariables,
+  };
 }
 
 /**
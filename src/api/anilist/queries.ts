@@ -5,7 +5,8 @@
  */
 
 /**
- * Query to fetch the authenticated AniList user's profile information (Viewer).
+ * Query to fetch the authenticated AniList user's profile information (Viewer),
+ * including the score format used for their list entries.
  * @source
  */
 export const GET_VIEWER = `
@@ -17,6 +18,9 @@ query {
       large
       medium
     }
+    mediaListOptions {
+      scoreFormat
+    }
   }
 }
 `;
@@ -38,6 +42,22 @@ query ($userId: Int, $chunk: Int, $perChunk: Int) {
         progress
         score
         private
+        progressVolumes
+        notes
+        startedAt {
+          year
+          month
+          day
+        }
+        completedAt {
+          year
+          month
+          day
+        }
+        customLists(asArray: true)
+        hiddenFromStatusLists
+        createdAt
+        updatedAt
         media {
           id
           title {
@@ -45,6 +65,12 @@ query ($userId: Int, $chunk: Int, $perChunk: Int) {
             english
             native
           }
+          synonyms
+          chapters
+          volumes
+          coverImage {
+            large
+          }
         }
       }
     }
@@ -169,6 +195,29 @@ query ($id: Int) {
 }
 `;
 
+/**
+ * Query to resolve MyAnimeList manga IDs to AniList media IDs in a single request.
+ * Can resolve up to 50 IDs at once; only the ID pair is returned so entries can be fetched later with GET_MANGA_BY_IDS.
+ * @source
+ */
+export const GET_MANGA_IDS_BY_MAL_IDS = `
+query ($malIds: [Int]) {
+  Page(perPage: 50) {
+    pageInfo {
+      total
+      currentPage
+      lastPage
+      hasNextPage
+      perPage
+    }
+    media(idMal_in: $malIds, type: MANGA) {
+      id
+      idMal
+    }
+  }
+}
+`;
+
 /**
  * Query to fetch multiple manga entries by their AniList media IDs in a single request.
  * Can fetch up to 50 manga at once. Excludes light novels from results.
@@ -231,3 +280,50 @@ query ($ids: [Int]) {
   }
 }
 `;
+
+/**
+ * Query to fetch the related entries of multiple manga by their AniList media IDs.
+ * Used for the top search candidates only, so relation-aware ranking does not weigh down every search page.
+ * @source
+ */
+export const GET_MANGA_RELATIONS_BY_IDS = `
+query ($ids: [Int]) {
+  Page(perPage: 50) {
+    media(id_in: $ids, type: MANGA) {
+      id
+      relations {
+        edges {
+          relationType(version: 2)
+          node {
+            id
+            type
+            title {
+              romaji
+              english
+              native
+            }
+            synonyms
+            format
+            status
+            chapters
+            volumes
+            countryOfOrigin
+            coverImage {
+              large
+              medium
+            }
+            mediaListEntry {
+              id
+              status
+              progress
+              score
+              private
+            }
+            isAdult
+          }
+        }
+      }
+    }
+  }
+}
+`;
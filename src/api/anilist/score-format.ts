@@ -0,0 +1,195 @@
+/**
+ * @packageDocumentation
+ * @module anilist-score-format
+ * @description Converts scores between Kenmei's 10-point scale and each AniList score format.
+ */
+
+import type { ScoreFormat } from "./types";
+
+/**
+ * Score format assumed when the viewer's preference is unknown (AniList's default).
+ * @source
+ */
+export const DEFAULT_SCORE_FORMAT: ScoreFormat = "POINT_10";
+
+/**
+ * Maximum score on Kenmei's rating scale.
+ * @source
+ */
+export const KENMEI_SCORE_MAX = 10;
+
+/**
+ * Maximum score and step size for each AniList score format.
+ * @source
+ */
+const SCORE_FORMAT_SCALES: Record<ScoreFormat, { max: number; step: number }> =
+  {
+    POINT_100: { max: 100, step: 1 },
+    POINT_10_DECIMAL: { max: 10, step: 0.1 },
+    POINT_10: { max: 10, step: 1 },
+    POINT_5: { max: 5, step: 1 },
+    POINT_3: { max: 3, step: 1 },
+  };
+
+/**
+ * Upper bounds (on a 100-point scale) for each POINT_3 smiley, matching AniList's own mapping.
+ * @source
+ */
+const POINT_3_THRESHOLDS = [35, 60, 100];
+
+/**
+ * Representative 100-point values used when converting POINT_3 smileys back.
+ * @source
+ */
+const POINT_3_RAW_VALUES = [35, 60, 85];
+
+/**
+ * Checks whether a value is a known AniList score format.
+ * @param value - Value to check.
+ * @returns True if the value is a valid ScoreFormat.
+ * @source
+ */
+export function isScoreFormat(value: unknown): value is ScoreFormat {
+  return typeof value === "string" && value in SCORE_FORMAT_SCALES;
+}
+
+/**
+ * Resolves an optional score format to a concrete one, falling back to the default.
+ * @param format - Score format from the viewer profile, if known.
+ * @returns The provided format, or DEFAULT_SCORE_FORMAT if missing or invalid.
+ * @source
+ */
+export function resolveScoreFormat(format?: string | null): ScoreFormat {
+  return isScoreFormat(format) ? format : DEFAULT_SCORE_FORMAT;
+}
+
+/**
+ * Rounds a score to the resolution of the given AniList score format.
+ * @param score - Score already expressed in the target format.
+ * @param format - AniList score format.
+ * @returns Score clamped to the format's range and rounded to its step size.
+ * @source
+ */
+export function normalizeAniListScore(
+  score: number,
+  format: ScoreFormat,
+): number {
+  const { max, step } = SCORE_FORMAT_SCALES[format];
+  if (!Number.isFinite(score) || score <= 0) return 0;
+
+  const clamped = Math.min(score, max);
+  // Round via the inverse step to avoid floating point artifacts (e.g. 7.300000001)
+  return Math.round(clamped / step) / Math.round(1 / step);
+}
+
+/**
+ * Converts a Kenmei score (0-10) into the viewer's AniList score format.
+ * A score of 0 means "unscored" and is preserved as 0.
+ * @param score - Kenmei score.
+ * @param format - AniList score format to convert into.
+ * @returns Score in the AniList format.
+ * @source
+ */
+export function kenmeiScoreToAniList(
+  score: number | null | undefined,
+  format: ScoreFormat,
+): number {
+  const value = Number(score || 0);
+  if (!Number.isFinite(value) || value <= 0) return 0;
+
+  const ratio = Math.min(value, KENMEI_SCORE_MAX) / KENMEI_SCORE_MAX;
+
+  if (format === "POINT_3") {
+    const raw = ratio * 100;
+    return POINT_3_THRESHOLDS.findIndex((limit) => raw <= limit) + 1;
+  }
+
+  const { max, step } = SCORE_FORMAT_SCALES[format];
+  // Never round a real rating down to "unscored"
+  return Math.max(normalizeAniListScore(ratio * max, format), step);
+}
+
+/**
+ * Converts a score in the viewer's AniList score format back to Kenmei's 0-10 scale.
+ * @param score - AniList score.
+ * @param format - AniList score format the score is expressed in.
+ * @returns Score on Kenmei's scale, rounded to one decimal place.
+ * @source
+ */
+export function aniListScoreToKenmei(
+  score: number | null | undefined,
+  format: ScoreFormat,
+): number {
+  const value = Number(score || 0);
+  if (!Number.isFinite(value) || value <= 0) return 0;
+
+  let ratio: number;
+  if (format === "POINT_3") {
+    const index = Math.min(Math.max(Math.round(value), 1), 3) - 1;
+    ratio = POINT_3_RAW_VALUES[index] / 100;
+  } else {
+    const { max } = SCORE_FORMAT_SCALES[format];
+    ratio = Math.min(value, max) / max;
+  }
+
+  return Math.round(ratio * KENMEI_SCORE_MAX * 10) / 10;
+}
+
+/**
+ * Checks whether two AniList scores are the same once rounded to the format's resolution.
+ * @param a - First score in the AniList format.
+ * @param b - Second score in the AniList format.
+ * @param format - AniList score format.
+ * @returns True if the scores are equivalent.
+ * @source
+ */
+export function areScoresEquivalent(
+  a: number | null | undefined,
+  b: number | null | undefined,
+  format: ScoreFormat,
+): boolean {
+  return (
+    normalizeAniListScore(Number(a || 0), format) ===
+    normalizeAniListScore(Number(b || 0), format)
+  );
+}
+
+/**
+ * Determines whether a Kenmei score should overwrite an AniList score.
+ * Only meaningful Kenmei scores that differ after conversion count as changes.
+ * @param kenmeiScore - Kenmei score (0-10).
+ * @param aniListScore - Current AniList score in the viewer's format.
+ * @param format - Viewer's AniList score format.
+ * @returns True if syncing would change the AniList score.
+ * @source
+ */
+export function kenmeiScoreDiffers(
+  kenmeiScore: number | null | undefined,
+  aniListScore: number | null | undefined,
+  format: ScoreFormat,
+): boolean {
+  const converted = kenmeiScoreToAniList(kenmeiScore, format);
+  if (converted <= 0) return false;
+  return !areScoresEquivalent(converted, aniListScore, format);
+}
+
+/**
+ * Formats an AniList score for display in the viewer's score format.
+ * @param score - Score in the AniList format.
+ * @param format - AniList score format.
+ * @returns Display string such as "85/100", "7.5/10", "4/5" or a smiley, or "None" if unscored.
+ * @source
+ */
+export function formatAniListScore(
+  score: number | null | undefined,
+  format: ScoreFormat,
+): string {
+  const value = normalizeAniListScore(Number(score || 0), format);
+  if (value <= 0) return "None";
+
+  if (format === "POINT_3") {
+    return [":(", ":|", ":)"][Math.min(Math.round(value), 3) - 1];
+  }
+
+  return `${value}/${SCORE_FORMAT_SCALES[format].max}`;
+}
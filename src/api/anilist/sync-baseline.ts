@@ -0,0 +1,365 @@
+/**
+ * @packageDocumentation
+ * @module anilist-sync-baseline
+ * @description Persists a per-media snapshot of the last sync and reconciles Kenmei and AniList against it with a three-way merge.
+ */
+
+import type {
+  AniListMediaEntry,
+  ScoreFormat,
+  SyncConflict,
+  SyncFieldValues,
+  SyncMergeField,
+} from "./types";
+import { fuzzyDatesEqual, isFuzzyDateSet } from "./fuzzy-date";
+import { areScoresEquivalent } from "./score-format";
+import { hasListDetailChanges } from "./incremental-sync";
+import { storage, STORAGE_KEYS } from "../../utils/storage";
+
+/**
+ * Both sides of a media entry as they stood after its last successful sync.
+ * @property kenmei - Kenmei-derived values at the time of the sync.
+ * @property anilist - Values AniList held once the sync was written.
+ * @property syncedAt - ISO 8601 timestamp of the sync.
+ * @source
+ */
+export interface SyncBaseline {
+  kenmei: SyncFieldValues;
+  anilist: SyncFieldValues;
+  syncedAt: string;
+}
+
+/**
+ * Stored baselines keyed by AniList media ID.
+ * @source
+ */
+export type SyncBaselineStore = Record<number, SyncBaseline>;
+
+/**
+ * Result of a three-way merge for one entry.
+ * @property values - Field values to write; conflicting fields keep the AniList value.
+ * @property conflicts - Fields changed on both sides to different values.
+ * @source
+ */
+export interface ThreeWayMergeResult {
+  values: SyncFieldValues;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Which side wins a conflict when the user resolves it.
+ * @source
+ */
+export type ConflictResolution = "kenmei" | "anilist";
+
+/**
+ * Fields reconciled by the three-way merge, in display order.
+ * @source
+ */
+export const SYNC_MERGE_FIELDS: readonly SyncMergeField[] = [
+  "status",
+  "progress",
+  "score",
+  "progressVolumes",
+  "notes",
+  "startedAt",
+  "completedAt",
+];
+
+/**
+ * Loads stored sync baselines.
+ * @returns Baselines keyed by media ID (empty if none are stored or the data is invalid).
+ * @source
+ */
+export function getSyncBaselines(): SyncBaselineStore {
+  try {
+    const stored = storage.getItem(STORAGE_KEYS.SYNC_BASELINES);
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      console.warn("[SyncBaseline] ⚠️ Invalid baseline structure, ignoring");
+      return {};
+    }
+    return parsed as SyncBaselineStore;
+  } catch (error) {
+    console.error("[SyncBaseline] ❌ Failed to load sync baselines:", error);
+    return {};
+  }
+}
+
+/**
+ * Persists sync baselines.
+ * @param baselines - Baselines keyed by media ID.
+ * @source
+ */
+function saveSyncBaselines(baselines: SyncBaselineStore): void {
+  try {
+    storage.setItem(STORAGE_KEYS.SYNC_BASELINES, JSON.stringify(baselines));
+  } catch (error) {
+    console.error("[SyncBaseline] ❌ Failed to save sync baselines:", error);
+  }
+}
+
+/**
+ * Extracts the mergeable field values from an entry or AniList list entry.
+ * @param source - Object carrying list entry fields.
+ * @returns Snapshot of the mergeable fields.
+ * @source
+ */
+export function pickSyncFieldValues(source: SyncFieldValues): SyncFieldValues {
+  return {
+    status: source.status,
+    progress: source.progress || 0,
+    score: source.score || 0,
+    progressVolumes: source.progressVolumes ?? undefined,
+    notes: source.notes ?? null,
+    startedAt: source.startedAt ?? null,
+    completedAt: source.completedAt ?? null,
+  };
+}
+
+/**
+ * Compares two values of a field at the field's resolution.
+ * @param field - Field being compared.
+ * @param a - First value.
+ * @param b - Second value.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns True if the values are equivalent.
+ * @source
+ */
+function fieldValuesEqual(
+  field: SyncMergeField,
+  a: unknown,
+  b: unknown,
+  scoreFormat: ScoreFormat,
+): boolean {
+  switch (field) {
+    case "score":
+      return areScoresEquivalent(a as number, b as number, scoreFormat);
+    case "startedAt":
+    case "completedAt":
+      return fuzzyDatesEqual(
+        a as SyncFieldValues["startedAt"],
+        b as SyncFieldValues["startedAt"],
+      );
+    case "notes":
+      return (
+        ((a as string | null) ?? "").trim() ===
+        ((b as string | null) ?? "").trim()
+      );
+    case "progressVolumes":
+      return (
+        ((a as number | undefined) ?? 0) === ((b as number | undefined) ?? 0)
+      );
+    default:
+      return a === b;
+  }
+}
+
+/**
+ * Checks whether a Kenmei value is empty. Empty Kenmei values never clear AniList values.
+ * @param field - Field being checked.
+ * @param value - Kenmei value.
+ * @returns True if the value carries no information.
+ * @source
+ */
+function isEmptyKenmeiValue(field: SyncMergeField, value: unknown): boolean {
+  switch (field) {
+    case "score":
+    case "progressVolumes":
+      return !((value as number | undefined) && (value as number) > 0);
+    case "notes":
+      return !(value as string | null | undefined)?.trim();
+    case "startedAt":
+    case "completedAt":
+      return !isFuzzyDateSet(value as SyncFieldValues["startedAt"]);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Sets a single field on a values snapshot.
+ * @param values - Snapshot to update.
+ * @param field - Field to set.
+ * @param value - New value.
+ * @source
+ */
+function assignField(
+  values: SyncFieldValues,
+  field: SyncMergeField,
+  value: unknown,
+): void {
+  (values as unknown as Record<SyncMergeField, unknown>)[field] = value;
+}
+
+/**
+ * Three-way merges Kenmei and AniList against the last-synced baseline.
+ * A field is only pushed when it changed on the Kenmei side; AniList-only edits are kept.
+ * When both sides changed to different values the field is reported as a conflict.
+ * @param kenmei - Current Kenmei-derived values.
+ * @param anilist - Current AniList values.
+ * @param baseline - Baseline recorded by the last sync.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns Merged values and any conflicts.
+ * @source
+ */
+export function mergeWithBaseline(
+  kenmei: SyncFieldValues,
+  anilist: SyncFieldValues,
+  baseline: SyncBaseline,
+  scoreFormat: ScoreFormat,
+): ThreeWayMergeResult {
+  const values = pickSyncFieldValues(anilist);
+  const conflicts: SyncConflict[] = [];
+
+  for (const field of SYNC_MERGE_FIELDS) {
+    const kenmeiValue = kenmei[field];
+    const aniListValue = anilist[field];
+
+    const kenmeiChanged =
+      !isEmptyKenmeiValue(field, kenmeiValue) &&
+      !fieldValuesEqual(
+        field,
+        kenmeiValue,
+        baseline.kenmei[field],
+        scoreFormat,
+      );
+    if (!kenmeiChanged) continue;
+
+    const aniListChanged = !fieldValuesEqual(
+      field,
+      aniListValue,
+      baseline.anilist[field],
+      scoreFormat,
+    );
+    if (
+      !aniListChanged ||
+      fieldValuesEqual(field, kenmeiValue, aniListValue, scoreFormat)
+    ) {
+      assignField(values, field, kenmeiValue);
+      continue;
+    }
+
+    conflicts.push({
+      field,
+      baseline: baseline.anilist[field],
+      kenmei: kenmeiValue,
+      anilist: aniListValue,
+    });
+  }
+
+  return { values, conflicts };
+}
+
+/**
+ * Checks whether a baseline-merged entry would change anything on AniList.
+ * @param entry - Entry produced by the three-way merge.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns True if any field differs from the current AniList entry.
+ * @source
+ */
+export function hasMergedChanges(
+  entry: AniListMediaEntry,
+  scoreFormat: ScoreFormat,
+): boolean {
+  const previous = entry.previousValues;
+  if (!previous) return true;
+
+  return (
+    entry.status !== previous.status ||
+    entry.progress !== previous.progress ||
+    !areScoresEquivalent(entry.score, previous.score, scoreFormat) ||
+    entry.private !== previous.private ||
+    hasListDetailChanges(entry)
+  );
+}
+
+/**
+ * Resolves one conflict on an entry.
+ * Choosing Kenmei writes the Kenmei value; choosing AniList keeps the current value.
+ * Either way the conflict is cleared, so the next baseline records the decision.
+ * @param entry - Entry with the conflict.
+ * @param field - Conflicting field.
+ * @param resolution - Side that wins.
+ * @returns A new entry with the conflict resolved.
+ * @source
+ */
+export function resolveSyncConflict(
+  entry: AniListMediaEntry,
+  field: SyncMergeField,
+  resolution: ConflictResolution,
+): AniListMediaEntry {
+  const conflict = entry.conflicts?.find((c) => c.field === field);
+  if (!conflict) return entry;
+
+  const resolved: AniListMediaEntry = {
+    ...entry,
+    conflicts: entry.conflicts?.filter((c) => c.field !== field),
+  };
+  if (resolution === "kenmei") {
+    assignField(resolved, field, conflict.kenmei ?? undefined);
+  }
+  return resolved;
+}
+
+/**
+ * Records baselines for entries that are now in sync with AniList.
+ * Unresolved conflict fields keep their previous baseline so the conflict resurfaces next run.
+ * @param entries - Entries that were synced (or confirmed unchanged).
+ * @source
+ */
+export function recordSyncBaselines(entries: AniListMediaEntry[]): void {
+  const tracked = entries.filter((entry) => entry.kenmeiValues);
+  if (tracked.length === 0) return;
+
+  const baselines = getSyncBaselines();
+  const syncedAt = new Date().toISOString();
+
+  for (const entry of tracked) {
+    const kenmei = pickSyncFieldValues(entry.kenmeiValues!);
+    const anilist = pickSyncFieldValues(entry);
+    const previous = baselines[entry.mediaId];
+
+    for (const conflict of entry.conflicts ?? []) {
+      if (!previous) continue;
+      assignField(kenmei, conflict.field, previous.kenmei[conflict.field]);
+      assignField(anilist, conflict.field, previous.anilist[conflict.field]);
+    }
+
+    baselines[entry.mediaId] = { kenmei, anilist, syncedAt };
+  }
+
+  saveSyncBaselines(baselines);
+  console.debug(
+    `[SyncBaseline] 💾 Recorded baselines for ${tracked.length} entries`,
+  );
+}
+
+/**
+ * Puts previously captured baselines back, removing those that did not exist.
+ * @param previous - Baselines keyed by media ID; null removes the stored baseline.
+ * @source
+ */
+export function restoreSyncBaselines(
+  previous: Record<number, SyncBaseline | null>,
+): void {
+  const mediaIds = Object.keys(previous).map(Number);
+  if (mediaIds.length === 0) return;
+
+  const baselines = getSyncBaselines();
+  for (const mediaId of mediaIds) {
+    const baseline = previous[mediaId];
+    if (baseline) {
+      baselines[mediaId] = baseline;
+    } else {
+      delete baselines[mediaId];
+    }
+  }
+
+  saveSyncBaselines(baselines);
+  console.debug(
+    `[SyncBaseline] ⏪ Restored baselines for ${mediaIds.length} entries`,
+  );
+}
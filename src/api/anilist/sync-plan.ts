@@ -0,0 +1,281 @@
+/**
+ * @packageDocumentation
+ * @module anilist-sync-plan
+ * @description Dry-run sync plans. A plan records every aliased SaveMediaListEntry request a sync would send, in order, along with the update each entry contributes to it step by step, so it can be reviewed, exported and executed later exactly as recorded.
+ */
+
+import type { AniListMediaEntry } from "./types";
+import { createError, ErrorType } from "../../utils/error-handling";
+
+/**
+ * Current sync plan file version.
+ * @source
+ */
+export const SYNC_PLAN_VERSION = 2;
+
+/**
+ * A single recorded entry update.
+ * @property step - Incremental sync step (1-3), or null for a single-request update.
+ * @property variables - SaveMediaListEntry variables for this update, before alias prefixing.
+ * @property request - Index in `SyncPlan.requests` of the request that carries this update.
+ * @property alias - GraphQL alias the update is sent under in that request.
+ * @source
+ */
+export interface SyncPlanOperation {
+  step: number | null;
+  variables: Record<string, unknown>;
+  request: number;
+  alias: string;
+}
+
+/**
+ * A recorded aliased mutation request, as it would be sent to AniList.
+ * @property mutation - GraphQL mutation document.
+ * @property variables - Merged, alias-prefixed variables.
+ * @source
+ */
+export interface SyncPlanRequest {
+  mutation: string;
+  variables: Record<string, unknown>;
+}
+
+/**
+ * All recorded mutations for one media entry.
+ * @property mediaId - AniList media ID.
+ * @property title - Entry title for display.
+ * @property entry - The entry as it was prepared for sync.
+ * @property operations - Updates in the order they are sent.
+ * @source
+ */
+export interface SyncPlanEntry {
+  mediaId: number;
+  title: string;
+  entry: AniListMediaEntry;
+  operations: SyncPlanOperation[];
+}
+
+/**
+ * A recorded sync plan.
+ * @property version - Plan file version.
+ * @property createdAt - ISO 8601 timestamp of the dry run.
+ * @property entries - Planned entries in processing order.
+ * @property requests - Recorded requests in the order they are sent.
+ * @source
+ */
+export interface SyncPlan {
+  version: number;
+  createdAt: string;
+  entries: SyncPlanEntry[];
+  requests: SyncPlanRequest[];
+}
+
+/**
+ * How a sync run interacts with a plan.
+ * "record" captures mutations without sending them; "execute" sends exactly the recorded mutations.
+ * @source
+ */
+export interface SyncPlanContext {
+  mode: "record" | "execute";
+  plan: SyncPlan;
+}
+
+/**
+ * Creates an empty sync plan.
+ * @returns A plan with no entries.
+ * @source
+ */
+export function createSyncPlan(): SyncPlan {
+  return {
+    version: SYNC_PLAN_VERSION,
+    createdAt: new Date().toISOString(),
+    entries: [],
+    requests: [],
+  };
+}
+
+/**
+ * Records a request against a plan.
+ * @param plan - Plan being recorded.
+ * @param mutation - GraphQL mutation document.
+ * @param variables - Merged mutation variables.
+ * @returns Index of the recorded request.
+ * @source
+ */
+export function recordPlannedRequest(
+  plan: SyncPlan,
+  mutation: string,
+  variables: Record<string, unknown>,
+): number {
+  plan.requests.push({ mutation, variables: { ...variables } });
+  return plan.requests.length - 1;
+}
+
+/**
+ * Records an entry update against a plan, appending the entry the first time its media ID is seen.
+ * @param plan - Plan being recorded.
+ * @param mediaEntry - Entry (or incremental step entry) the update belongs to.
+ * @param variables - Update variables.
+ * @param request - Index of the recorded request carrying the update.
+ * @param alias - Alias the update is sent under in that request.
+ * @source
+ */
+export function recordPlannedOperation(
+  plan: SyncPlan,
+  mediaEntry: AniListMediaEntry,
+  variables: Record<string, unknown>,
+  request: number,
+  alias: string,
+): void {
+  let planEntry = plan.entries.find((e) => e.mediaId === mediaEntry.mediaId);
+  if (!planEntry) {
+    planEntry = {
+      mediaId: mediaEntry.mediaId,
+      title: mediaEntry.title || `Manga #${mediaEntry.mediaId}`,
+      entry: {
+        ...mediaEntry,
+        syncMetadata: mediaEntry.syncMetadata && {
+          ...mediaEntry.syncMetadata,
+          step: undefined,
+        },
+      },
+      operations: [],
+    };
+    plan.entries.push(planEntry);
+  }
+
+  planEntry.operations.push({
+    step: mediaEntry.syncMetadata?.step ?? null,
+    variables: { ...variables },
+    request,
+    alias,
+  });
+}
+
+/**
+ * Finds the recorded update for an entry step.
+ * @param plan - Plan to search.
+ * @param mediaId - AniList media ID.
+ * @param step - Incremental step, or null/undefined for a single-request update.
+ * @returns The recorded operation, or undefined if the plan has none.
+ * @source
+ */
+export function findPlannedOperation(
+  plan: SyncPlan,
+  mediaId: number,
+  step: number | null | undefined,
+): SyncPlanOperation | undefined {
+  return plan.entries
+    .find((e) => e.mediaId === mediaId)
+    ?.operations.find((op) => op.step === (step ?? null));
+}
+
+/**
+ * Counts the entry updates in a plan.
+ * @param plan - Plan to count.
+ * @returns Total number of recorded updates.
+ * @source
+ */
+export function countPlannedOperations(plan: SyncPlan): number {
+  return plan.entries.reduce((sum, e) => sum + e.operations.length, 0);
+}
+
+/**
+ * Checks whether a value looks like a recorded request.
+ * @param value - Value to check.
+ * @returns True if the value has a mutation string and variables object.
+ * @source
+ */
+function isSyncPlanRequest(value: unknown): value is SyncPlanRequest {
+  if (!value || typeof value !== "object") return false;
+  const request = value as Record<string, unknown>;
+  return (
+    typeof request.mutation === "string" &&
+    !!request.variables &&
+    typeof request.variables === "object"
+  );
+}
+
+/**
+ * Checks whether a value looks like a recorded operation.
+ * @param value - Value to check.
+ * @param requestCount - Number of requests in the plan.
+ * @returns True if the value has a variables object, step, alias and a valid request index.
+ * @source
+ */
+function isSyncPlanOperation(
+  value: unknown,
+  requestCount: number,
+): value is SyncPlanOperation {
+  if (!value || typeof value !== "object") return false;
+  const op = value as Record<string, unknown>;
+  return (
+    !!op.variables &&
+    typeof op.variables === "object" &&
+    (op.step === null || typeof op.step === "number") &&
+    typeof op.alias === "string" &&
+    Number.isInteger(op.request) &&
+    (op.request as number) >= 0 &&
+    (op.request as number) < requestCount
+  );
+}
+
+/**
+ * Validates parsed JSON as a sync plan.
+ * @param data - Parsed plan file contents.
+ * @returns The validated plan.
+ * @throws AppError (VALIDATION) if the data is not a supported sync plan.
+ * @source
+ */
+export function parseSyncPlan(data: unknown): SyncPlan {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw createError(ErrorType.VALIDATION, "Sync plan must be a JSON object");
+  }
+
+  const plan = data as Partial<SyncPlan>;
+  if (plan.version !== SYNC_PLAN_VERSION) {
+    throw createError(
+      ErrorType.VALIDATION,
+      typeof plan.version === "number" && plan.version < SYNC_PLAN_VERSION
+        ? `Sync plan version ${plan.version} predates batched updates; run a new dry run`
+        : `Unsupported sync plan version: ${String(plan.version)}`,
+    );
+  }
+  if (!Array.isArray(plan.entries) || plan.entries.length === 0) {
+    throw createError(ErrorType.VALIDATION, "Sync plan contains no entries");
+  }
+  const requests = plan.requests;
+  if (!Array.isArray(requests) || !requests.every(isSyncPlanRequest)) {
+    throw createError(
+      ErrorType.VALIDATION,
+      "Sync plan requests are missing or malformed",
+    );
+  }
+
+  plan.entries.forEach((entry, index) => {
+    const valid =
+      !!entry &&
+      typeof entry.mediaId === "number" &&
+      !!entry.entry &&
+      entry.entry.mediaId === entry.mediaId &&
+      Array.isArray(entry.operations) &&
+      entry.operations.length > 0 &&
+      entry.operations.every(
+        (op) =>
+          isSyncPlanOperation(op, requests.length) &&
+          op.variables.mediaId === entry.mediaId,
+      );
+    if (!valid) {
+      throw createError(
+        ErrorType.VALIDATION,
+        `Sync plan entry ${index + 1} is malformed`,
+      );
+    }
+  });
+
+  return {
+    version: plan.version,
+    createdAt: plan.createdAt ?? new Date().toISOString(),
+    entries: plan.entries,
+    requests,
+  };
+}
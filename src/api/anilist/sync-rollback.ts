@@ -0,0 +1,371 @@
+/**
+ * @packageDocumentation
+ * @module anilist-sync-rollback
+ * @description Sync rollback. Captures the pre-sync AniList values of every entry a sync touches and restores them afterwards, deleting entries the sync created.
+ */
+
+import { getUserMangaList } from "./client";
+import { generateBatchedUpdateMangaEntryMutation } from "./mutations";
+import { packMutationBatches } from "./mutation-batching";
+import type { AniListMediaEntry, FuzzyDate, UserMediaList } from "./types";
+import { fuzzyDatesEqual } from "./fuzzy-date";
+import { toCurrentValues } from "./sync-verification";
+import {
+  getSyncBaselines,
+  restoreSyncBaselines,
+  type SyncBaseline,
+} from "./sync-baseline";
+import {
+  createSyncPlan,
+  recordPlannedOperation,
+  recordPlannedRequest,
+  type SyncPlan,
+} from "./sync-plan";
+import {
+  deleteMangaEntriesBatch,
+  syncMangaBatch,
+  type SyncProgress,
+  type SyncReport,
+} from "./sync-service";
+
+/**
+ * Pre-sync state of one entry touched by a sync.
+ * @property mediaId - AniList media ID.
+ * @property title - Entry title for display.
+ * @property coverImage - Cover image URL for progress display.
+ * @property previous - AniList values before the sync, or null if the entry did not exist.
+ * @source
+ */
+export interface SyncRollbackEntry {
+  mediaId: number;
+  title: string;
+  coverImage?: string;
+  previous: AniListMediaEntry["previousValues"];
+}
+
+/**
+ * Outcome of rolling back a sync.
+ * @property rolledBackAt - ISO 8601 timestamp of the rollback.
+ * @property restored - Entries whose pre-sync values were written back.
+ * @property deleted - Entries created by the sync that were deleted.
+ * @property unchanged - Entries already holding their pre-sync values.
+ * @property failed - Entries that could not be rolled back.
+ * @property errors - Per-entry rollback errors.
+ * @source
+ */
+export interface SyncRollbackResult {
+  rolledBackAt: string;
+  restored: number;
+  deleted: number;
+  unchanged: number;
+  failed: number;
+  errors: { mediaId: number; error: string }[];
+}
+
+/**
+ * Snapshot taken before a sync, attached to its report so the sync can be rolled back.
+ * @property capturedAt - ISO 8601 timestamp of the snapshot.
+ * @property entries - Pre-sync state of every touched entry.
+ * @property baselines - Three-way merge baselines before the sync (null where none existed).
+ * @property result - Set once the sync has been rolled back.
+ * @source
+ */
+export interface SyncRollbackSnapshot {
+  capturedAt: string;
+  entries: SyncRollbackEntry[];
+  baselines: Record<number, SyncBaseline | null>;
+  result?: SyncRollbackResult;
+}
+
+/**
+ * An entry created by the sync that must be deleted to roll it back.
+ * @property mediaId - AniList media ID.
+ * @property entryId - AniList list entry ID.
+ * @property title - Entry title for display.
+ * @property coverImage - Cover image URL for progress display.
+ * @source
+ */
+export interface SyncRollbackDeletion {
+  mediaId: number;
+  entryId: number;
+  title: string;
+  coverImage?: string;
+}
+
+/**
+ * Work needed to roll back a sync against AniList's current state.
+ * @property restorePlan - Mutations that write pre-sync values back.
+ * @property deletions - Entries to delete.
+ * @property unchanged - Media IDs already at their pre-sync values.
+ * @source
+ */
+export interface SyncRollbackPlan {
+  restorePlan: SyncPlan;
+  deletions: SyncRollbackDeletion[];
+  unchanged: number[];
+}
+
+/**
+ * Fuzzy date value that clears a date on AniList.
+ * @source
+ */
+const EMPTY_FUZZY_DATE: FuzzyDate = { year: null, month: null, day: null };
+
+/**
+ * Captures the pre-sync values of the entries a sync is about to write.
+ * @param entries - Entries passed to the sync (incremental step entries are deduplicated).
+ * @returns Snapshot to attach to the sync report.
+ * @source
+ */
+export function createSyncRollbackSnapshot(
+  entries: AniListMediaEntry[],
+): SyncRollbackSnapshot {
+  const storedBaselines = getSyncBaselines();
+  const byMediaId = new Map<number, SyncRollbackEntry>();
+
+  for (const entry of entries) {
+    if (byMediaId.has(entry.mediaId)) continue;
+    byMediaId.set(entry.mediaId, {
+      mediaId: entry.mediaId,
+      title: entry.title || `Manga #${entry.mediaId}`,
+      coverImage: entry.coverImage,
+      previous: entry.previousValues ? { ...entry.previousValues } : null,
+    });
+  }
+
+  const baselines: Record<number, SyncBaseline | null> = {};
+  for (const mediaId of byMediaId.keys()) {
+    baselines[mediaId] = storedBaselines[mediaId] ?? null;
+  }
+
+  return {
+    capturedAt: new Date().toISOString(),
+    entries: Array.from(byMediaId.values()),
+    baselines,
+  };
+}
+
+/**
+ * Builds variables that write pre-sync values back over the current ones.
+ * Unlike a normal sync, a rollback clears values the sync added (notes, dates, custom lists).
+ * @param mediaId - AniList media ID.
+ * @param previous - Pre-sync values.
+ * @param current - Current AniList values, or null to recreate the entry.
+ * @returns Variables for the changed fields (only mediaId when nothing differs).
+ * @source
+ */
+function buildRestoreVariables(
+  mediaId: number,
+  previous: NonNullable<AniListMediaEntry["previousValues"]>,
+  current: NonNullable<AniListMediaEntry["previousValues"]> | null,
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = { mediaId };
+
+  if (previous.status !== current?.status) variables.status = previous.status;
+  if (previous.progress !== current?.progress)
+    variables.progress = previous.progress;
+  if (previous.score !== current?.score) variables.score = previous.score;
+  if (previous.private !== current?.private)
+    variables.private = previous.private;
+
+  if ((previous.progressVolumes ?? 0) !== (current?.progressVolumes ?? 0))
+    variables.progressVolumes = previous.progressVolumes ?? 0;
+  if ((previous.notes ?? "") !== (current?.notes ?? ""))
+    variables.notes = previous.notes ?? "";
+
+  for (const field of ["startedAt", "completedAt"] as const) {
+    if (!fuzzyDatesEqual(previous[field], current?.[field])) {
+      variables[field] = previous[field]
+        ? { ...previous[field] }
+        : EMPTY_FUZZY_DATE;
+    }
+  }
+
+  const previousLists = [...(previous.customLists ?? [])].sort();
+  const currentLists = [...(current?.customLists ?? [])].sort();
+  if (previousLists.join("\n") !== currentLists.join("\n"))
+    variables.customLists = previousLists;
+
+  if (
+    (previous.hiddenFromStatusLists ?? false) !==
+    (current?.hiddenFromStatusLists ?? false)
+  ) {
+    variables.hiddenFromStatusLists = previous.hiddenFromStatusLists ?? false;
+  }
+
+  return variables;
+}
+
+/**
+ * Works out what a rollback has to send, given AniList's current state.
+ * @param snapshot - Snapshot captured before the sync.
+ * @param library - The user's current AniList list.
+ * @returns Restore mutations, deletions and entries that need nothing.
+ * @source
+ */
+export function buildSyncRollbackPlan(
+  snapshot: SyncRollbackSnapshot,
+  library: UserMediaList,
+): SyncRollbackPlan {
+  const restorePlan = createSyncPlan();
+  const restores: Record<number, AniListMediaEntry[]> = {};
+  const restoreVariables = new Map<number, Record<string, unknown>>();
+  const deletions: SyncRollbackDeletion[] = [];
+  const unchanged: number[] = [];
+
+  for (const snapshotEntry of snapshot.entries) {
+    const { mediaId, title, coverImage, previous } = snapshotEntry;
+    const listEntry = library[mediaId];
+
+    if (!previous) {
+      if (listEntry) {
+        deletions.push({ mediaId, entryId: listEntry.id, title, coverImage });
+      } else {
+        unchanged.push(mediaId);
+      }
+      continue;
+    }
+
+    const current = listEntry ? toCurrentValues(listEntry) : null;
+    const variables = buildRestoreVariables(mediaId, previous, current);
+    if (Object.keys(variables).length === 1) {
+      unchanged.push(mediaId);
+      continue;
+    }
+
+    restores[mediaId] = [
+      {
+        mediaId,
+        title,
+        coverImage,
+        ...previous,
+        notes: previous.notes ?? undefined,
+        previousValues: current,
+      },
+    ];
+    restoreVariables.set(mediaId, variables);
+  }
+
+  // Record the restores as the batched requests the sync will send
+  const order = snapshot.entries
+    .map((entry) => entry.mediaId)
+    .filter((mediaId) => restores[mediaId]);
+  for (const batch of packMutationBatches(restores, order)) {
+    const operations = batch.map(({ alias, entry }) => ({
+      alias,
+      variables: restoreVariables.get(entry.mediaId)!,
+    }));
+    const { mutation, variables } =
+      generateBatchedUpdateMangaEntryMutation(operations);
+    const request = recordPlannedRequest(restorePlan, mutation, variables);
+    for (const [index, { alias, entry }] of batch.entries()) {
+      recordPlannedOperation(
+        restorePlan,
+        entry,
+        operations[index].variables,
+        request,
+        alias,
+      );
+    }
+  }
+
+  return { restorePlan, deletions, unchanged };
+}
+
+/**
+ * Rolls back a sync: re-reads AniList, restores every touched entry to its pre-sync values,
+ * deletes entries the sync created, and restores the merge baselines of rolled-back entries.
+ * Restores and deletions go through the normal batch path, so progress and rate limits behave like a sync.
+ * @param snapshot - Snapshot captured before the sync.
+ * @param token - The user's authentication token.
+ * @param onProgress - Optional callback for progress across both phases.
+ * @param abortSignal - Optional signal to cancel the rollback.
+ * @returns Rollback outcome.
+ * @throws If the user's AniList list cannot be read.
+ * @source
+ */
+export async function rollbackSync(
+  snapshot: SyncRollbackSnapshot,
+  token: string,
+  onProgress?: (progress: SyncProgress) => void,
+  abortSignal?: AbortSignal,
+): Promise<SyncRollbackResult> {
+  const library = await getUserMangaList(token, abortSignal);
+  const { restorePlan, deletions, unchanged } = buildSyncRollbackPlan(
+    snapshot,
+    library,
+  );
+
+  console.info(
+    `[SyncRollback] ⏪ Rolling back sync: ${restorePlan.entries.length} to restore, ${deletions.length} to delete, ${unchanged.length} unchanged`,
+  );
+
+  const total = restorePlan.entries.length + deletions.length;
+  const errors: SyncReport["errors"] = [];
+  const rolledBackIds = new Set(unchanged);
+  const trackRolledBack = (
+    _progress: SyncProgress,
+    batchResult: { mediaId: number; success: boolean },
+  ) => {
+    if (batchResult.success) rolledBackIds.add(batchResult.mediaId);
+  };
+  let restored = 0;
+  let deleted = 0;
+
+  if (restorePlan.entries.length > 0) {
+    const report = await syncMangaBatch(
+      restorePlan.entries.map((e) => e.entry),
+      token,
+      onProgress && ((progress) => onProgress({ ...progress, total })),
+      abortSignal,
+      undefined,
+      trackRolledBack,
+      { mode: "execute", plan: restorePlan },
+      { persistStats: false },
+    );
+    restored = report.successfulUpdates;
+    errors.push(...report.errors);
+  }
+
+  if (deletions.length > 0 && !abortSignal?.aborted) {
+    const offset = restorePlan.entries.length;
+    const restoreFailed = offset - restored;
+    const report = await deleteMangaEntriesBatch(
+      deletions,
+      token,
+      onProgress &&
+        ((progress) =>
+          onProgress({
+            ...progress,
+            total,
+            completed: progress.completed + offset,
+            successful: progress.successful + restored,
+            failed: progress.failed + restoreFailed,
+          })),
+      abortSignal,
+      trackRolledBack,
+    );
+    deleted = report.successfulUpdates;
+    errors.push(...report.errors);
+  }
+
+  // Entries that are back at their pre-sync values get their pre-sync baselines back
+  restoreSyncBaselines(
+    Object.fromEntries(
+      Object.entries(snapshot.baselines).filter(([mediaId]) =>
+        rolledBackIds.has(Number(mediaId)),
+      ),
+    ),
+  );
+
+  const result: SyncRollbackResult = {
+    rolledBackAt: new Date().toISOString(),
+    restored,
+    deleted,
+    unchanged: unchanged.length,
+    failed: total - restored - deleted,
+    errors,
+  };
+  console.info("[SyncRollback] ✅ Rollback completed:", result);
+  return result;
+}
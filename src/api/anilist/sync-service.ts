@@ -7,14 +7,32 @@
 import { request } from "./client";
 import {
   DELETE_MANGA_ENTRY,
+  generateBatchedUpdateMangaEntryMutation,
   generateUpdateMangaEntryMutation,
 } from "./mutations";
+import {
+  getNextMutationBatchSize,
+  takeMutationBatch,
+  type MutationBatchSlot,
+} from "./mutation-batching";
 import {
   determineIncrementalSteps,
   buildVariablesForStep,
+  buildListDetailVariables,
 } from "./incremental-sync";
-import { AniListMediaEntry } from "./types";
-import { RATE_LIMIT_CONFIG } from "../../config/anilist";
+import { AniListMediaEntry, FuzzyDate } from "./types";
+import { recordSyncBaselines } from "./sync-baseline";
+import type { SyncVerificationReport } from "./sync-verification";
+import type { SyncRollbackSnapshot } from "./sync-rollback";
+import {
+  createSyncPlan,
+  findPlannedOperation,
+  recordPlannedOperation,
+  recordPlannedRequest,
+  type SyncPlan,
+  type SyncPlanContext,
+} from "./sync-plan";
+import { MUTATION_BATCH_CONFIG, RATE_LIMIT_CONFIG } from "../../config/anilist";
 import { storage, STORAGE_KEYS } from "../../utils/storage";
 import { withGroupAsync } from "../../utils/logging";
 import { BatchSyncWorkerPool } from "@/workers";
@@ -23,7 +41,10 @@ import { BatchSyncWorkerPool } from "@/workers";
  * Type alias for GraphQL mutation variables mapping.
  * @source
  */
-type GraphQLVariables = Record<string, string | number | boolean>;
+type GraphQLVariables = Record<
+  string,
+  string | number | boolean | FuzzyDate | string[]
+>;
 
 /**
  * Builds GraphQL variables for updating an existing entry, including only changed fields.
@@ -65,6 +86,9 @@ function buildVariablesForExistingEntry(
     variables.private = mediaEntry.private;
   }
 
+  // Volumes, notes and reading dates are only sent when they differ
+  Object.assign(variables, buildListDetailVariables(mediaEntry));
+
   return variables;
 }
 
@@ -90,6 +114,8 @@ function buildVariablesForNewEntry(
 
   if (mediaEntry.private !== undefined) variables.private = mediaEntry.private;
 
+  Object.assign(variables, buildListDetailVariables(mediaEntry));
+
   return variables;
 }
 
@@ -134,7 +160,7 @@ function handleIncrementalStep2(
 }
 
 /**
- * Handles incremental sync step 3: updates status, score, and private flag.
+ * Handles incremental sync step 3: updates status, score, private flag, volumes, notes, reading dates, and custom lists.
  * @param mediaEntry - The entry being synced.
  * @param operationId - Unique operation identifier for logging.
  * @returns GraphQL variables with metadata changes.
@@ -151,6 +177,14 @@ function handleIncrementalStep3(
     changes.push(`score to ${variables.score}`);
   if (variables.private !== undefined)
     changes.push(`private to ${variables.private}`);
+  if (variables.progressVolumes !== undefined)
+    changes.push(`volumes to ${variables.progressVolumes}`);
+  if (variables.notes !== undefined) changes.push("notes");
+  if (variables.startedAt !== undefined) changes.push("start date");
+  if (variables.completedAt !== undefined) changes.push("completion date");
+  if (variables.customLists !== undefined) changes.push("custom lists");
+  if (variables.hiddenFromStatusLists !== undefined)
+    changes.push("hidden from status lists");
 
   const updateInfo =
     changes.length > 0 ? changes.join(", ") : "no additional fields";
@@ -190,6 +224,52 @@ function applyIncrementalSyncStep(
   }
 }
 
+/**
+ * Resolves the update variables to send for an entry.
+ * Builds them from the entry unless a plan is being executed, in which case the recorded variables are used verbatim.
+ * @param mediaEntry - The entry (or incremental step entry) being synced.
+ * @param operationId - Unique operation identifier for logging.
+ * @param planContext - Optional dry-run plan being recorded or executed.
+ * @returns Variables, or null if an executed plan has no update for this step.
+ * @source
+ */
+function resolveEntryVariables(
+  mediaEntry: AniListMediaEntry,
+  operationId: string,
+  planContext?: SyncPlanContext,
+): GraphQLVariables | null {
+  if (planContext?.mode === "execute") {
+    const planned = findPlannedOperation(
+      planContext.plan,
+      mediaEntry.mediaId,
+      mediaEntry.syncMetadata?.step,
+    );
+    return planned ? (planned.variables as GraphQLVariables) : null;
+  }
+
+  return buildEntryVariables(mediaEntry, operationId);
+}
+
+/**
+ * Builds the update variables for an entry, applying its incremental sync step if it has one.
+ * @param mediaEntry - The entry (or incremental step entry) being synced.
+ * @param operationId - Unique operation identifier for logging.
+ * @returns GraphQL variables for the entry's SaveMediaListEntry call.
+ * @source
+ */
+function buildEntryVariables(
+  mediaEntry: AniListMediaEntry,
+  operationId: string,
+): GraphQLVariables {
+  // Build variables based on entry type (existing vs new)
+  const variables = mediaEntry.previousValues
+    ? buildVariablesForExistingEntry(mediaEntry)
+    : buildVariablesForNewEntry(mediaEntry);
+
+  // Apply incremental sync modifications if needed
+  return applyIncrementalSyncStep(mediaEntry, variables, operationId);
+}
+
 /**
  * Extracts the retry-after delay in milliseconds from GraphQL error extensions or error message.
  * @param errors - Array of GraphQL error objects with optional extensions and message.
@@ -315,6 +395,84 @@ function handleResponseData(
   };
 }
 
+/**
+ * GraphQL error as returned for an aliased mutation, with the path of the field it belongs to.
+ * @source
+ */
+type BatchedMutationError = {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: { retryAfter?: number };
+};
+
+/**
+ * Maps the response to an aliased mutation batch back to one SyncResult per entry.
+ * Errors are matched to entries by the alias at the start of their path; errors without
+ * a path apply to every entry that has no saved data. Entries saved before a rate limit
+ * hit are still successes; only the unsaved ones are marked for retry.
+ * @param slots - Entries sent in the batch, with their aliases.
+ * @param data - Saved entries keyed by alias, possibly partial.
+ * @param errors - GraphQL errors returned with the response.
+ * @param operationId - Unique operation identifier for logging.
+ * @returns SyncResults in the same order as `slots`.
+ * @source
+ */
+function mapBatchedMutationResponse(
+  slots: MutationBatchSlot[],
+  data: Record<string, { id: number } | null> | undefined,
+  errors: BatchedMutationError[] | undefined,
+  operationId: string,
+): SyncResult[] {
+  const rateLimited =
+    errors && errors.length > 0 && isRateLimitError(errors)
+      ? handleGraphQLErrors(errors, 0, operationId)
+      : null;
+
+  const errorsByAlias = new Map<string, BatchedMutationError[]>();
+  const unscopedErrors: BatchedMutationError[] = [];
+  for (const error of errors ?? []) {
+    const alias = error.path?.[0];
+    if (typeof alias === "string") {
+      errorsByAlias.set(alias, [...(errorsByAlias.get(alias) ?? []), error]);
+    } else {
+      unscopedErrors.push(error);
+    }
+  }
+
+  return slots.map(({ alias, entry }) => {
+    const saved = data?.[alias];
+    if (saved?.id) {
+      return {
+        success: true,
+        mediaId: entry.mediaId,
+        entryId: saved.id,
+        rateLimited: false,
+        retryAfter: null,
+      };
+    }
+
+    if (rateLimited) {
+      return { ...rateLimited, mediaId: entry.mediaId };
+    }
+
+    const entryErrors = errorsByAlias.get(alias) ?? unscopedErrors;
+    if (entryErrors.length > 0) {
+      return handleGraphQLErrors(entryErrors, entry.mediaId, operationId);
+    }
+
+    console.error(
+      `[AniListSync] ❌ [${operationId}] Missing ${alias} in batched response for media ${entry.mediaId}`,
+    );
+    return {
+      success: false,
+      mediaId: entry.mediaId,
+      error: "Update failed: No entry ID returned in response",
+      rateLimited: false,
+      retryAfter: null,
+    };
+  });
+}
+
 /**
  * Detects if error is a 500 Internal Server Error from various error formats.
  * @param error - The error object to check.
@@ -595,6 +753,10 @@ export interface SyncReport {
   }[];
   /** ISO 8601 timestamp string of when the sync was performed */
   timestamp: string;
+  /** Post-sync verification results, present when verification ran */
+  verification?: SyncVerificationReport;
+  /** Pre-sync AniList snapshot used to roll the sync back */
+  rollback?: SyncRollbackSnapshot;
 }
 
 /**
@@ -629,17 +791,7 @@ export async function updateMangaEntry(
       }
 
       try {
-        // Build variables based on entry type (existing vs new)
-        let variables = mediaEntry.previousValues
-          ? buildVariablesForExistingEntry(mediaEntry)
-          : buildVariablesForNewEntry(mediaEntry);
-
-        // Apply incremental sync modifications if needed
-        variables = applyIncrementalSyncStep(
-          mediaEntry,
-          variables,
-          operationId,
-        );
+        const variables = buildEntryVariables(mediaEntry, operationId);
 
         // Generate a dynamic mutation with only the needed variables
         const mutation = generateUpdateMangaEntryMutation(variables);
@@ -652,6 +804,10 @@ export async function updateMangaEntry(
             progress: number;
             private: boolean;
             score: number;
+            progressVolumes?: number;
+            notes?: string | null;
+            startedAt?: FuzzyDate | null;
+            completedAt?: FuzzyDate | null;
           };
           data?: {
             SaveMediaListEntry?: {
@@ -660,6 +816,10 @@ export async function updateMangaEntry(
               progress: number;
               private: boolean;
               score: number;
+              progressVolumes?: number;
+              notes?: string | null;
+              startedAt?: FuzzyDate | null;
+              completedAt?: FuzzyDate | null;
             };
           };
         }
@@ -690,17 +850,185 @@ export async function updateMangaEntry(
   );
 }
 
+/**
+ * Saves several list entries in one request through an aliased SaveMediaListEntry mutation.
+ * With a dry-run plan the request is recorded instead of sent; an executed plan sends the
+ * recorded variables, so its requests match the dry run's when every request goes through.
+ *
+ * @param slots - Entries to save, with their aliases.
+ * @param token - The user's authentication token.
+ * @param planContext - Optional dry-run plan being recorded or executed.
+ * @returns One SyncResult per entry, and whether the request failed as a whole
+ *   (no per-entry data), in which case a smaller batch may succeed.
+ * @source
+ */
+async function sendMutationBatch(
+  slots: MutationBatchSlot[],
+  token: string,
+  planContext?: SyncPlanContext,
+): Promise<{ results: SyncResult[]; requestFailed: boolean }> {
+  const operationId = `batch-${Date.now().toString(36).substring(4, 10)}`;
+
+  return withGroupAsync(
+    `[AniListSync] Update Batch [${operationId}] - ${slots.length} entries`,
+    async () => {
+      const results: SyncResult[] = new Array(slots.length);
+      const sendable: { position: number; slot: MutationBatchSlot }[] = [];
+      const operations: { alias: string; variables: GraphQLVariables }[] = [];
+
+      for (const [position, slot] of slots.entries()) {
+        const variables = resolveEntryVariables(
+          slot.entry,
+          `${operationId}-${slot.alias}`,
+          planContext,
+        );
+        if (!variables) {
+          console.error(
+            `[AniListSync] ❌ [${operationId}] Sync plan has no update for media ${slot.entry.mediaId} step ${slot.entry.syncMetadata?.step ?? "-"}`,
+          );
+          results[position] = {
+            success: false,
+            mediaId: slot.entry.mediaId,
+            error: "Update not found in sync plan",
+            rateLimited: false,
+            retryAfter: null,
+          };
+          continue;
+        }
+        sendable.push({ position, slot });
+        operations.push({ alias: slot.alias, variables });
+      }
+      if (sendable.length === 0) return { results, requestFailed: false };
+
+      const sentSlots = sendable.map(({ slot }) => slot);
+      const fillResults = (batchResults: SyncResult[]) => {
+        for (const [index, { position }] of sendable.entries()) {
+          results[position] = batchResults[index];
+        }
+        return results;
+      };
+
+      const { mutation, variables } =
+        generateBatchedUpdateMangaEntryMutation(operations);
+
+      if (planContext?.mode === "record") {
+        const requestIndex = recordPlannedRequest(
+          planContext.plan,
+          mutation,
+          variables,
+        );
+        for (const [index, slot] of sentSlots.entries()) {
+          recordPlannedOperation(
+            planContext.plan,
+            slot.entry,
+            operations[index].variables,
+            requestIndex,
+            slot.alias,
+          );
+        }
+        console.debug(
+          `[AniListSync] 📝 [${operationId}] Dry run: recorded request ${requestIndex + 1} with ${sentSlots.length} updates`,
+        );
+        return {
+          results: fillResults(
+            sentSlots.map(({ entry }) => ({
+              success: true,
+              mediaId: entry.mediaId,
+              rateLimited: false,
+              retryAfter: null,
+            })),
+          ),
+          requestFailed: false,
+        };
+      }
+
+      try {
+        const response = await request<
+          Record<string, { id: number } | null> & {
+            data?: Record<string, { id: number } | null>;
+          }
+        >(mutation, variables, token);
+        const data = (response.data?.data ?? response.data) as
+          | Record<string, { id: number } | null>
+          | undefined;
+
+        return {
+          results: fillResults(
+            mapBatchedMutationResponse(
+              sentSlots,
+              data,
+              response.errors as BatchedMutationError[] | undefined,
+              operationId,
+            ),
+          ),
+          requestFailed: false,
+        };
+      } catch (error) {
+        // Requests that failed in part still carry data and errors for each alias
+        const partial = error as {
+          data?: Record<string, { id: number } | null>;
+          errors?: BatchedMutationError[];
+        };
+        if (partial.data) {
+          return {
+            results: fillResults(
+              mapBatchedMutationResponse(
+                sentSlots,
+                partial.data,
+                partial.errors,
+                operationId,
+              ),
+            ),
+            requestFailed: false,
+          };
+        }
+
+        const errorMessage =
+          error instanceof Error
+            ? `${error.name}: ${error.message}`
+            : String(error);
+        console.error(
+          `[AniListSync] ❌ [${operationId}] Batch of ${sentSlots.length} entries failed:`,
+          error,
+        );
+
+        // Server errors are retried after a short wait, like single-entry updates
+        const isServerError = is500ServerError(error, errorMessage);
+        return {
+          results: fillResults(
+            sentSlots.map(({ entry }) => ({
+              success: false,
+              mediaId: entry.mediaId,
+              error: isServerError
+                ? `Server Error (500): ${errorMessage}. Automatic retry scheduled.`
+                : errorMessage,
+              rateLimited: isServerError,
+              retryAfter: isServerError ? 3000 : null,
+            })),
+          ),
+          requestFailed: true,
+        };
+      }
+    },
+  );
+}
+
 /**
  * Deletes a manga entry from the user's AniList collection by entry ID.
  * @param entryId - The AniList entry ID to delete.
  * @param token - User's access token.
- * @returns Promise resolving to result with success flag and optional error message.
+ * @returns Promise resolving to result with success flag, optional error message and rate limit info.
  * @source
  */
 export async function deleteMangaEntry(
   entryId: number,
   token: string,
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{
+  success: boolean;
+  error?: string;
+  rateLimited?: boolean;
+  retryAfter?: number | null;
+}> {
   // Generate an operation ID for tracking in logs
   const operationId = `del-${entryId}-${Date.now().toString(36).substring(4, 10)}`;
 
@@ -753,6 +1081,14 @@ export async function deleteMangaEntry(
             `❌ [${operationId}] GraphQL errors for delete operation:`,
             response.errors,
           );
+          if (isRateLimitError(response.errors)) {
+            return {
+              success: false,
+              error: `Rate limited: ${errorMessages}`,
+              rateLimited: true,
+              retryAfter: extractRetryAfterTime(response.errors),
+            };
+          }
           return {
             success: false,
             error: `GraphQL error: ${errorMessages}`,
@@ -801,6 +1137,16 @@ export async function deleteMangaEntry(
           );
         }
 
+        const errorDetails = [{ message: errorMessage }];
+        if (isRateLimitError(errorDetails)) {
+          return {
+            success: false,
+            error: errorMessage,
+            rateLimited: true,
+            retryAfter: extractRetryAfterTime(errorDetails),
+          };
+        }
+
         return {
           success: false,
           error: errorMessage,
@@ -926,6 +1272,38 @@ function organizeEntriesByMediaId(
   return entriesGroupedByMediaId;
 }
 
+/**
+ * Organizes a recorded plan by media ID, producing one step entry per recorded mutation.
+ * @param plan - Plan being executed.
+ * @returns Object mapping mediaId to its step entries.
+ * @source
+ */
+function organizePlannedEntries(
+  plan: SyncPlan,
+): Record<number, AniListMediaEntry[]> {
+  const entriesGroupedByMediaId: Record<number, AniListMediaEntry[]> = {};
+
+  for (const planEntry of plan.entries) {
+    entriesGroupedByMediaId[planEntry.mediaId] = planEntry.operations.map(
+      (operation) =>
+        operation.step === null
+          ? planEntry.entry
+          : {
+              ...planEntry.entry,
+              syncMetadata: {
+                useIncrementalSync: true,
+                targetProgress: planEntry.entry.progress,
+                progress: planEntry.entry.progress,
+                ...planEntry.entry.syncMetadata,
+                step: operation.step,
+              },
+            },
+    );
+  }
+
+  return entriesGroupedByMediaId;
+}
+
 /**
  * Determines the order of media IDs to process, respecting user-specified order if provided.
  * @param displayOrderMediaIds - Optional user-specified processing order.
@@ -942,242 +1320,12 @@ function determineProcessingOrder(
     : Object.keys(entriesGroupedByMediaId).map(Number);
 }
 
-/**
- * Initializes progress tracking for a specific media entry or batch.
- * Sets up currentEntry info and step tracking if incremental sync.
- * @param mediaId - Current media ID being processed.
- * @param entriesForMediaId - Entries for this media ID.
- * @param progress - Sync progress object to update.
- * @returns Object indicating if incremental sync is active.
- * @source
- */
-function setupProgressForMedia(
-  mediaId: number,
-  entriesForMediaId: AniListMediaEntry[],
-  progress: SyncProgress,
-): { isIncremental: boolean } {
-  const mediaIdStr = String(mediaId);
-  const firstEntry = entriesForMediaId[0];
-  const isIncremental =
-    entriesForMediaId.length > 1 && firstEntry.syncMetadata?.useIncrementalSync;
-
-  progress.currentEntry = {
-    mediaId: Number(mediaIdStr),
-    title: firstEntry.title || `Manga #${mediaIdStr}`,
-    coverImage: firstEntry.coverImage || "",
-  };
-
-  if (isIncremental) {
-    progress.totalSteps = entriesForMediaId.length;
-  } else {
-    progress.currentStep = null;
-    progress.totalSteps = null;
-  }
-
-  return { isIncremental: !!isIncremental };
-}
-
-/**
- * Context object for processing entry steps with shared state.
- * @source
- */
-interface EntryProcessingContext {
-  token: string;
-  apiCallsCompleted: { count: number };
-  progress: SyncProgress;
-  onProgress: ((progress: SyncProgress) => void) | undefined;
-  abortSignal: AbortSignal | undefined;
-  mediaIdStr: string;
-  entriesForMediaId: AniListMediaEntry[];
-}
-
-/**
- * Processes a single entry step with rate limiting, error handling, and progress tracking.
- * Handles retries automatically if rate-limited and logs detailed errors.
- * @param mediaEntry - Current entry to process.
- * @param entryIndex - Index in the entries array.
- * @param isIncremental - Whether this is incremental sync (affects error handling).
- * @param context - Processing context with shared state and callbacks.
- * @returns Promise resolving to result with success flag and retry guidance.
- * @source
- */
-async function processEntryStep(
-  mediaEntry: AniListMediaEntry,
-  entryIndex: number,
-  isIncremental: boolean,
-  context: EntryProcessingContext,
-): Promise<{ success: boolean; error?: string; shouldRetry: boolean }> {
-  // Update progress step
-  if (isIncremental)
-    context.progress.currentStep =
-      mediaEntry.syncMetadata?.step || entryIndex + 1;
-
-  if (context.onProgress) {
-    console.debug(
-      `[AniListSync] 📊 Progress update: completed=${context.progress.completed}/${context.progress.total}, mediaId=${context.mediaIdStr}, step=${context.progress.currentStep}, incremental=${isIncremental}`,
-    );
-    context.onProgress({ ...context.progress });
-  }
-
-  try {
-    // Rate limiting delay
-    if (context.apiCallsCompleted.count > 0)
-      await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL));
-
-    const result = await updateMangaEntry(mediaEntry, context.token);
-    context.apiCallsCompleted.count++;
-
-    // Handle rate limiting
-    if (result.rateLimited && result.retryAfter) {
-      await handleRateLimitRetry(
-        context.progress,
-        result,
-        context.onProgress,
-        context.abortSignal,
-      );
-      return { success: true, shouldRetry: true };
-    }
-
-    // Handle unsuccessful result
-    if (!result.success)
-      return {
-        success: false,
-        error: result.error,
-        shouldRetry: false,
-      };
-
-    return { success: true, shouldRetry: false };
-  } catch (error) {
-    context.apiCallsCompleted.count++;
-    const entryError = error instanceof Error ? error.message : String(error);
-    const errorOpId = `err-${context.mediaIdStr}-${mediaEntry.syncMetadata?.step || 0}-${Date.now().toString(36).substring(4, 10)}`;
-
-    console.error(
-      `[AniListSync] ❌ [${errorOpId}] Error updating entry ${context.mediaIdStr}:`,
-      error,
-    );
-    console.error(`[AniListSync]    [${errorOpId}] Entry details:`, {
-      mediaId: mediaEntry.mediaId,
-      title: mediaEntry.title,
-      status: mediaEntry.status,
-      progress: mediaEntry.progress,
-      score: mediaEntry.score,
-      incremental: isIncremental,
-      step: mediaEntry.syncMetadata?.step || "N/A",
-    });
-
-    return {
-      success: false,
-      error: entryError,
-      shouldRetry: false,
-    };
-  }
-}
-
-/**
- * Processes all entries for a single media ID, handling incremental sync and retries.
- * @param mediaId - Media ID to process.
- * @param entriesGroupedByMediaId - All organized entries by media ID.
- * @param token - User's access token.
- * @param apiCallsCompleted - Reference object tracking total API calls.
- * @param progress - Current sync progress to update.
- * @param onProgress - Optional progress callback.
- * @param abortSignal - Optional signal to abort processing.
- * @returns Promise resolving to result with success flag and optional error.
- * @source
- */
-async function processMediaEntries(
-  mediaId: number,
-  entriesGroupedByMediaId: Record<number, AniListMediaEntry[]>,
-  token: string,
-  apiCallsCompleted: { count: number },
-  progress: SyncProgress,
-  onProgress: ((progress: SyncProgress) => void) | undefined,
-  abortSignal: AbortSignal | undefined,
-): Promise<{ success: boolean; error?: string }> {
-  return withGroupAsync(
-    `[AniListSync] Process Media ${mediaId} (${progress.completed + 1}/${progress.total})`,
-    async () => {
-      const entriesForMediaId = entriesGroupedByMediaId[mediaId];
-      const mediaIdStr = String(mediaId);
-
-      if (!entriesForMediaId) return { success: true }; // Skip if not present
-
-      console.debug(
-        `[AniListSync] 📚 Starting sync for manga ${mediaId} (${progress.completed + 1}/${progress.total})`,
-      );
-
-      if (abortSignal?.aborted) {
-        console.info("[AniListSync] ⏹️ Sync operation aborted by user");
-        return { success: false, error: "Aborted by user" };
-      }
-
-      // Sort entries by step for proper incremental sync order
-      entriesForMediaId.sort((a: AniListMediaEntry, b: AniListMediaEntry) => {
-        const stepA = a.syncMetadata?.step || 0;
-        const stepB = b.syncMetadata?.step || 0;
-        return stepA - stepB;
-      });
-
-      const { isIncremental } = setupProgressForMedia(
-        mediaId,
-        entriesForMediaId,
-        progress,
-      );
-
-      let entrySuccess = true;
-      let entryError: string | undefined;
-
-      // Process all entries for this media ID
-      let entryIndex = 0;
-      while (entryIndex < entriesForMediaId.length) {
-        if (abortSignal?.aborted) {
-          console.info("[AniListSync] ⏹️ Sync operation aborted by user");
-          break;
-        }
-
-        const mediaEntry = entriesForMediaId[entryIndex];
-        const context: EntryProcessingContext = {
-          token,
-          apiCallsCompleted,
-          progress,
-          onProgress,
-          abortSignal,
-          mediaIdStr,
-          entriesForMediaId,
-        };
-
-        const result = await processEntryStep(
-          mediaEntry,
-          entryIndex,
-          isIncremental,
-          context,
-        );
-
-        if (result.shouldRetry) {
-          // Don't increment entryIndex - retry the same entry
-          continue;
-        }
-
-        if (!result.success) {
-          entrySuccess = false;
-          entryError = result.error;
-          if (isIncremental) break; // Stop processing this media on error in incremental mode
-        }
-
-        entryIndex++;
-      }
-
-      return { success: entrySuccess, error: entryError };
-    },
-  );
-}
-
 /**
  * Generates final sync report and persists sync statistics to storage.
  * @param entries - Original entries array (for statistics).
  * @param progress - Final sync progress state.
  * @param errors - Array of errors that occurred during sync.
+ * @param persistStats - Whether to update stored sync statistics (false for dry runs).
  * @returns Completed SyncReport object with summary and error details.
  * @source
  */
@@ -1185,6 +1333,7 @@ function generateSyncReport(
   entries: AniListMediaEntry[],
   progress: SyncProgress,
   errors: { mediaId: number; error: string }[],
+  persistStats = true,
 ): SyncReport {
   const attemptedEntries =
     progress.successful + progress.failed + progress.skipped;
@@ -1198,6 +1347,8 @@ function generateSyncReport(
     timestamp: new Date().toISOString(),
   };
 
+  if (!persistStats) return report;
+
   // Save sync statistics
   try {
     const prevStats = JSON.parse(
@@ -1222,58 +1373,46 @@ function generateSyncReport(
 }
 
 /**
- * Processes a single media ID within a batch sync operation.
- * Updates progress, handles errors, and invokes batch completion callbacks.
- * @param mediaId - Media ID to process from the batch.
- * @param context - Processing context with shared state, callbacks, and configuration.
- * @returns Promise that resolves when processing completes.
+ * Shared state and callbacks for processing the media IDs of a batch sync.
  * @source
  */
-async function processMediaIdInBatch(
-  mediaId: number,
-  context: {
-    entriesGroupedByMediaId: Record<number, AniListMediaEntry[]>;
-    token: string;
-    apiCallsCompleted: { count: number };
-    progress: SyncProgress;
-    onProgress?: (progress: SyncProgress) => void;
-    abortSignal?: AbortSignal;
-    onBatchComplete?: (
-      progress: SyncProgress,
-      batchResult: { mediaId: number; success: boolean; error?: string },
-    ) => void;
-    errors?: { mediaId: number; error: string }[];
-  },
-): Promise<void> {
-  const mediaEntries = context.entriesGroupedByMediaId[mediaId];
-
-  if (!mediaEntries || mediaEntries.length === 0) {
-    console.debug(
-      `[AniListSync] ⏭️ Skipping media ${mediaId} — no entries in current batch`,
-    );
-    return;
-  }
-
-  if (context.abortSignal?.aborted) {
-    console.info("[AniListSync] ⏹️ Sync operation aborted by user");
-    return;
-  }
-
-  const result = await processMediaEntries(
-    mediaId,
-    context.entriesGroupedByMediaId,
-    context.token,
-    context.apiCallsCompleted,
-    context.progress,
-    context.onProgress,
-    context.abortSignal,
-  );
+interface BatchSyncContext {
+  entriesGroupedByMediaId: Record<number, AniListMediaEntry[]>;
+  token: string;
+  apiCallsCompleted: { count: number };
+  progress: SyncProgress;
+  onProgress?: (progress: SyncProgress) => void;
+  abortSignal?: AbortSignal;
+  onBatchComplete?: (
+    progress: SyncProgress,
+    batchResult: { mediaId: number; success: boolean; error?: string },
+  ) => void;
+  errors?: { mediaId: number; error: string }[];
+  syncedEntries?: AniListMediaEntry[];
+  planContext?: SyncPlanContext;
+}
 
+/**
+ * Records the outcome of a media ID once all of its entries have been processed.
+ * Updates progress counters and errors, and invokes batch completion callbacks.
+ * @param mediaId - Media ID that finished processing.
+ * @param mediaEntries - Entries processed for the media ID.
+ * @param result - Whether every entry succeeded, with the last error if not.
+ * @param context - Processing context with shared state and callbacks.
+ * @source
+ */
+function recordMediaOutcome(
+  mediaId: number,
+  mediaEntries: AniListMediaEntry[],
+  result: { success: boolean; error?: string },
+  context: BatchSyncContext,
+): void {
   // Update progress counters
   context.progress.completed++;
 
   if (result.success) {
     context.progress.successful++;
+    context.syncedEntries?.push(mediaEntries[0]);
   } else {
     context.progress.failed++;
     if (result.error && context.errors) {
@@ -1309,6 +1448,131 @@ async function processMediaIdInBatch(
     );
 }
 
+/**
+ * Processes media IDs by packing their updates into aliased mutation batches.
+ *
+ * Each batch holds the next pending step of up to the current batch size of media IDs,
+ * so a media ID's incremental steps are still sent in order, one batch after another.
+ * The batch size grows while requests succeed and halves when a request fails as a whole.
+ * Rate-limited entries stay queued and are retried after the wait; a failed incremental
+ * step drops that media ID's remaining steps, as in sequential processing.
+ *
+ * @param userOrderMediaIds - Media IDs in processing order.
+ * @param context - Processing context with shared state, callbacks, and configuration.
+ * @returns Promise that resolves when every media ID has finished or the sync is aborted.
+ * @source
+ */
+async function processMediaIdsInMutationBatches(
+  userOrderMediaIds: number[],
+  context: BatchSyncContext,
+): Promise<void> {
+  const queues = new Map<number, AniListMediaEntry[]>();
+  for (const mediaId of userOrderMediaIds) {
+    const mediaEntries = context.entriesGroupedByMediaId[mediaId];
+    if (!mediaEntries || mediaEntries.length === 0) continue;
+    queues.set(
+      mediaId,
+      [...mediaEntries].sort(
+        (a, b) => (a.syncMetadata?.step || 0) - (b.syncMetadata?.step || 0),
+      ),
+    );
+  }
+  const outcomes = new Map<number, { success: boolean; error?: string }>();
+  let batchSize: number = MUTATION_BATCH_CONFIG.initialSize;
+
+  while (queues.size > 0) {
+    if (context.abortSignal?.aborted) {
+      console.info("[AniListSync] ⏹️ Sync operation aborted by user");
+      break;
+    }
+
+    const slots = takeMutationBatch(queues, userOrderMediaIds, batchSize);
+    if (slots.length === 0) break;
+    const firstEntry = slots[0].entry;
+    context.progress.currentEntry = {
+      mediaId: firstEntry.mediaId,
+      title: firstEntry.title || `Manga #${firstEntry.mediaId}`,
+      coverImage: firstEntry.coverImage || "",
+    };
+    context.progress.currentStep = null;
+    context.progress.totalSteps = null;
+    if (context.onProgress) context.onProgress({ ...context.progress });
+
+    // Rate limiting delay (dry runs never reach AniList)
+    if (
+      context.apiCallsCompleted.count > 0 &&
+      context.planContext?.mode !== "record"
+    )
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL));
+
+    console.debug(
+      `[AniListSync] 📦 Sending ${slots.length} updates in one request (batch size ${batchSize})`,
+    );
+    const { results, requestFailed } = await sendMutationBatch(
+      slots,
+      context.token,
+      context.planContext,
+    );
+    context.apiCallsCompleted.count++;
+
+    const rateLimited = results.find(
+      (result) => result.rateLimited && result.retryAfter,
+    );
+
+    // A rejected document may just be too large; retry it in smaller pieces
+    if (requestFailed && slots.length > MUTATION_BATCH_CONFIG.minSize) {
+      batchSize = getNextMutationBatchSize(slots.length, false);
+      console.warn(
+        `[AniListSync] ⚠️ Batch request failed, retrying with batch size ${batchSize}`,
+      );
+      if (rateLimited) {
+        await handleRateLimitRetry(
+          context.progress,
+          rateLimited,
+          context.onProgress,
+          context.abortSignal,
+        );
+      }
+      continue;
+    }
+    if (!requestFailed) {
+      batchSize = getNextMutationBatchSize(batchSize, true);
+    }
+
+    for (const [position, { entry }] of slots.entries()) {
+      const result = results[position];
+      if (result.rateLimited && result.retryAfter) continue; // Retried after the wait
+
+      const queue = queues.get(entry.mediaId)!;
+      queue.shift();
+      if (!result.success) {
+        outcomes.set(entry.mediaId, { success: false, error: result.error });
+        // Later steps build on this one, so stop processing this media
+        if (entry.syncMetadata?.useIncrementalSync) queue.length = 0;
+      }
+
+      if (queue.length === 0) {
+        queues.delete(entry.mediaId);
+        recordMediaOutcome(
+          entry.mediaId,
+          context.entriesGroupedByMediaId[entry.mediaId],
+          outcomes.get(entry.mediaId) ?? { success: true },
+          context,
+        );
+      }
+    }
+
+    if (rateLimited) {
+      await handleRateLimitRetry(
+        context.progress,
+        rateLimited,
+        context.onProgress,
+        context.abortSignal,
+      );
+    }
+  }
+}
+
 /**
  * Process a batch of manga updates with rate limiting and progress tracking.
  *
@@ -1319,6 +1583,11 @@ async function processMediaIdInBatch(
  * @param displayOrderMediaIds - Optional array of media IDs to control sync order.
  * @param onBatchComplete - Optional callback fired after each media ID completes (batch boundary).
  *   Called with current progress state and last batch result to enable checkpoint persistence.
+ * @param planContext - Optional dry-run plan. "record" captures the batched requests without sending them;
+ *   "execute" sends exactly the updates recorded in the plan.
+ * @param options - Optional run settings.
+ * @param options.persistStats - Save sync statistics and merge baselines for the run (default true).
+ *   Rollbacks pass false, since restoring values is not a sync and they restore their own baselines.
  * @returns A promise resolving to a SyncReport object.
  * @source
  */
@@ -1332,9 +1601,14 @@ export async function syncMangaBatch(
     progress: SyncProgress,
     batchResult: { mediaId: number; success: boolean; error?: string },
   ) => void,
+  planContext?: SyncPlanContext,
+  options: { persistStats?: boolean } = {},
 ): Promise<SyncReport> {
+  const isDryRun = planContext?.mode === "record";
+  const persistStats = options.persistStats ?? true;
+
   return withGroupAsync(
-    `[AniListSync] Batch Sync (${mediaEntries.length} entries)`,
+    `[AniListSync] ${isDryRun ? "Dry Run" : "Batch Sync"} (${mediaEntries.length} entries)`,
     async () => {
       const errors: { mediaId: number; error: string }[] = [];
 
@@ -1396,8 +1670,12 @@ export async function syncMangaBatch(
         // Pre-processing failure is not fatal - continue with direct sync
       }
 
-      // Organize entries by media ID for handling incremental sync properly
-      const entriesGroupedByMediaId = organizeEntriesByMediaId(mediaEntries);
+      // Organize entries by media ID for handling incremental sync properly;
+      // an executed plan replays exactly the steps it recorded
+      const entriesGroupedByMediaId =
+        planContext?.mode === "execute"
+          ? organizePlannedEntries(planContext.plan)
+          : organizeEntriesByMediaId(mediaEntries);
 
       // Determine processing order and unique entry count
       const userOrderMediaIds = determineProcessingOrder(
@@ -1423,29 +1701,158 @@ export async function syncMangaBatch(
       if (onProgress) onProgress({ ...progress });
 
       const apiCallsCompleted = { count: 0 };
+      const syncedEntries: AniListMediaEntry[] = [];
 
-      // Process each media ID in order
-      for (const mediaId of userOrderMediaIds) {
-        await processMediaIdInBatch(mediaId, {
-          entriesGroupedByMediaId,
-          token,
-          apiCallsCompleted,
-          progress,
-          onProgress,
-          abortSignal,
-          onBatchComplete,
-          errors,
-        });
-
-        // If the caller aborted during processing, exit early
-        if (abortSignal?.aborted) break;
+      const batchContext: BatchSyncContext = {
+        entriesGroupedByMediaId,
+        token,
+        apiCallsCompleted,
+        progress,
+        onProgress,
+        abortSignal,
+        onBatchComplete,
+        errors,
+        syncedEntries,
+        planContext,
+      };
+
+      // Dry runs record the same batched requests a sync sends
+      await processMediaIdsInMutationBatches(userOrderMediaIds, batchContext);
+
+      if (isDryRun || !persistStats) {
+        return generateSyncReport(mediaEntries, progress, errors, false);
       }
 
+      // Remember what was written so the next sync can three-way merge against it
+      recordSyncBaselines(syncedEntries);
+
       return generateSyncReport(mediaEntries, progress, errors);
     },
   );
 }
 
+/**
+ * Delete a batch of manga entries with rate limiting and progress tracking.
+ *
+ * @param targets - Entries to delete, with the list entry ID to delete by.
+ * @param token - The user's authentication token.
+ * @param onProgress - Optional callback for progress updates.
+ * @param abortSignal - Optional abort signal to cancel the deletions.
+ * @param onBatchComplete - Optional callback fired after each entry is deleted or fails.
+ * @returns A promise resolving to a SyncReport object.
+ * @source
+ */
+export async function deleteMangaEntriesBatch(
+  targets: {
+    mediaId: number;
+    entryId: number;
+    title?: string;
+    coverImage?: string;
+  }[],
+  token: string,
+  onProgress?: (progress: SyncProgress) => void,
+  abortSignal?: AbortSignal,
+  onBatchComplete?: (
+    progress: SyncProgress,
+    batchResult: { mediaId: number; success: boolean; error?: string },
+  ) => void,
+): Promise<SyncReport> {
+  return withGroupAsync(
+    `[AniListSync] Batch Delete (${targets.length} entries)`,
+    async () => {
+      const errors: { mediaId: number; error: string }[] = [];
+      const progress: SyncProgress = {
+        total: targets.length,
+        completed: 0,
+        successful: 0,
+        failed: 0,
+        skipped: 0,
+        currentEntry: null,
+        currentStep: null,
+        totalSteps: null,
+        rateLimited: false,
+        retryAfter: null,
+      };
+
+      if (onProgress) onProgress({ ...progress });
+
+      let apiCallsCompleted = 0;
+      for (const target of targets) {
+        if (abortSignal?.aborted) {
+          console.info("[AniListSync] ⏹️ Delete operation aborted by user");
+          break;
+        }
+
+        progress.currentEntry = {
+          mediaId: target.mediaId,
+          title: target.title || `Manga #${target.mediaId}`,
+          coverImage: target.coverImage || "",
+        };
+        if (onProgress) onProgress({ ...progress });
+
+        let result: Awaited<ReturnType<typeof deleteMangaEntry>>;
+        do {
+          if (apiCallsCompleted > 0)
+            await new Promise((resolve) =>
+              setTimeout(resolve, REQUEST_INTERVAL),
+            );
+          result = await deleteMangaEntry(target.entryId, token);
+          apiCallsCompleted++;
+
+          if (result.rateLimited && result.retryAfter) {
+            await handleRateLimitRetry(
+              progress,
+              {
+                success: false,
+                mediaId: target.mediaId,
+                error: result.error,
+                rateLimited: true,
+                retryAfter: result.retryAfter,
+              },
+              onProgress,
+              abortSignal,
+            );
+          }
+        } while (result.rateLimited && !abortSignal?.aborted);
+
+        progress.completed++;
+        if (result.success) {
+          progress.successful++;
+        } else {
+          progress.failed++;
+          errors.push({
+            mediaId: target.mediaId,
+            error: result.error || "Delete failed",
+          });
+        }
+
+        progress.currentEntry = null;
+        if (onProgress) onProgress({ ...progress });
+        if (onBatchComplete)
+          onBatchComplete(
+            { ...progress },
+            {
+              mediaId: target.mediaId,
+              success: result.success,
+              error: result.error,
+            },
+          );
+      }
+
+      const report: SyncReport = {
+        totalEntries: progress.successful + progress.failed,
+        successfulUpdates: progress.successful,
+        failedUpdates: progress.failed,
+        skippedEntries: 0,
+        errors,
+        timestamp: new Date().toISOString(),
+      };
+      console.info("[AniListSync] ✅ Batch delete completed:", report);
+      return report;
+    },
+  );
+}
+
 /**
  * Retry failed updates from a previous sync.
  *
@@ -1511,3 +1918,33 @@ export async function retryFailedUpdates(
     onBatchComplete,
   );
 }
+
+/**
+ * Dry-runs a sync: walks the same batch path as syncMangaBatch but records each batched request instead of sending it.
+ *
+ * @param mediaEntries - Entries prepared for sync (including incremental sync metadata).
+ * @param displayOrderMediaIds - Optional array of media IDs to control sync order.
+ * @returns A promise resolving to the recorded plan.
+ * @source
+ */
+export async function buildSyncPlan(
+  mediaEntries: AniListMediaEntry[],
+  displayOrderMediaIds?: number[],
+): Promise<SyncPlan> {
+  const plan = createSyncPlan();
+
+  await syncMangaBatch(
+    mediaEntries,
+    "",
+    undefined,
+    undefined,
+    displayOrderMediaIds,
+    undefined,
+    { mode: "record", plan },
+  );
+
+  console.info(
+    `[AniListSync] 📝 Dry run recorded ${plan.requests.length} requests for ${plan.entries.length} entries`,
+  );
+  return plan;
+}
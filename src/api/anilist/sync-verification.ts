@@ -0,0 +1,284 @@
+/**
+ * @packageDocumentation
+ * @module anilist-sync-verification
+ * @description Post-sync verification. Re-reads the user's AniList list after a sync, compares each touched entry with what was intended, and re-queues entries whose changes did not land.
+ */
+
+import { getUserMangaList } from "./client";
+import type {
+  AniListMediaEntry,
+  FuzzyDate,
+  ScoreFormat,
+  UserMediaEntry,
+} from "./types";
+import { areScoresEquivalent } from "./score-format";
+import { fuzzyDatesEqual, isFuzzyDateSet } from "./fuzzy-date";
+import { addFailedSyncOperation } from "../../utils/storage";
+
+/**
+ * Fields checked by the verification pass.
+ * @source
+ */
+export type SyncVerificationField =
+  | "entry"
+  | "status"
+  | "progress"
+  | "score"
+  | "private"
+  | "progressVolumes"
+  | "notes"
+  | "startedAt"
+  | "completedAt";
+
+/**
+ * One field that did not match after sync.
+ * @property field - Field that drifted ("entry" when the list entry is missing entirely).
+ * @property expected - Value the sync intended to write.
+ * @property actual - Value AniList holds now.
+ * @source
+ */
+export interface SyncDriftField {
+  field: SyncVerificationField;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * An entry whose AniList state differs from what the sync wrote.
+ * @property mediaId - AniList media ID.
+ * @property title - Entry title for display.
+ * @property fields - Drifted fields.
+ * @property entry - The intended entry, kept so it can be re-queued.
+ * @property actual - AniList's current values, or null if the entry is missing.
+ * @source
+ */
+export interface SyncDriftEntry {
+  mediaId: number;
+  title: string;
+  fields: SyncDriftField[];
+  entry: AniListMediaEntry;
+  actual: AniListMediaEntry["previousValues"];
+}
+
+/**
+ * Verified/drifted section appended to a sync report.
+ * @property verifiedAt - ISO 8601 timestamp of the verification pass.
+ * @property verified - Media IDs whose AniList state matches the intended values.
+ * @property drifted - Entries whose AniList state differs.
+ * @property error - Set when AniList could not be re-read; nothing was verified.
+ * @property requeued - Whether drifted entries were added to the failed-operations queue.
+ * @source
+ */
+export interface SyncVerificationReport {
+  verifiedAt: string;
+  verified: number[];
+  drifted: SyncDriftEntry[];
+  error?: string;
+  requeued?: boolean;
+}
+
+/**
+ * Converts an AniList list entry into the previousValues shape used for sync.
+ * Shared by verification and rollback; missing volumes read as 0, as in sync preparation.
+ * @param listEntry - Entry fetched from AniList.
+ * @returns Snapshot of the entry's current values.
+ * @source
+ */
+export function toCurrentValues(
+  listEntry: UserMediaEntry,
+): NonNullable<AniListMediaEntry["previousValues"]> {
+  return {
+    status: listEntry.status,
+    progress: listEntry.progress || 0,
+    score: listEntry.score || 0,
+    private: listEntry.private || false,
+    progressVolumes: listEntry.progressVolumes ?? 0,
+    notes: listEntry.notes ?? null,
+    startedAt: listEntry.startedAt ?? null,
+    completedAt: listEntry.completedAt ?? null,
+    customLists: listEntry.customLists ?? [],
+    hiddenFromStatusLists: listEntry.hiddenFromStatusLists ?? false,
+  };
+}
+
+/**
+ * Compares an intended entry with the values AniList holds.
+ * Volumes, notes and reading dates are only checked when the sync had a value to write,
+ * since an empty Kenmei value never clears AniList.
+ * @param intended - Entry as it was sent to AniList.
+ * @param actual - AniList's current values.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns Fields that differ.
+ * @source
+ */
+export function compareWithAniList(
+  intended: AniListMediaEntry,
+  actual: NonNullable<AniListMediaEntry["previousValues"]>,
+  scoreFormat: ScoreFormat,
+): SyncDriftField[] {
+  const drift: SyncDriftField[] = [];
+  const check = (
+    field: SyncVerificationField,
+    expected: unknown,
+    current: unknown,
+    equal: boolean,
+  ) => {
+    if (!equal) drift.push({ field, expected, actual: current });
+  };
+
+  check(
+    "status",
+    intended.status,
+    actual.status,
+    intended.status === actual.status,
+  );
+  check(
+    "progress",
+    intended.progress,
+    actual.progress,
+    intended.progress === actual.progress,
+  );
+  check(
+    "score",
+    intended.score,
+    actual.score,
+    areScoresEquivalent(intended.score || 0, actual.score, scoreFormat),
+  );
+  check(
+    "private",
+    intended.private,
+    actual.private,
+    intended.private === actual.private,
+  );
+
+  if (intended.progressVolumes && intended.progressVolumes > 0) {
+    check(
+      "progressVolumes",
+      intended.progressVolumes,
+      actual.progressVolumes ?? 0,
+      intended.progressVolumes === (actual.progressVolumes ?? 0),
+    );
+  }
+  if (intended.notes?.trim()) {
+    check(
+      "notes",
+      intended.notes,
+      actual.notes ?? null,
+      intended.notes.trim() === (actual.notes ?? "").trim(),
+    );
+  }
+  for (const field of ["startedAt", "completedAt"] as const) {
+    const expected: FuzzyDate | null | undefined = intended[field];
+    if (isFuzzyDateSet(expected)) {
+      check(
+        field,
+        expected,
+        actual[field] ?? null,
+        fuzzyDatesEqual(expected, actual[field]),
+      );
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Re-reads the user's AniList list and checks every synced entry against its intended values.
+ * Fetch failures are reported on the result rather than thrown, so a sync report is never lost.
+ * @param entries - Entries that were synced successfully.
+ * @param token - The user's authentication token.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @param abortSignal - Optional signal to cancel the fetch.
+ * @returns Verification section for the sync report.
+ * @source
+ */
+export async function verifySyncedEntries(
+  entries: AniListMediaEntry[],
+  token: string,
+  scoreFormat: ScoreFormat,
+  abortSignal?: AbortSignal,
+): Promise<SyncVerificationReport> {
+  const verifiedAt = new Date().toISOString();
+
+  let library: Awaited<ReturnType<typeof getUserMangaList>>;
+  try {
+    library = await getUserMangaList(token, abortSignal);
+  } catch (error) {
+    console.error("[SyncVerification] ❌ Failed to re-read AniList:", error);
+    return {
+      verifiedAt,
+      verified: [],
+      drifted: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const verified: number[] = [];
+  const drifted: SyncDriftEntry[] = [];
+
+  for (const entry of entries) {
+    const listEntry = library[entry.mediaId];
+    const title = entry.title || `Manga #${entry.mediaId}`;
+
+    if (!listEntry) {
+      drifted.push({
+        mediaId: entry.mediaId,
+        title,
+        fields: [{ field: "entry", expected: "present", actual: "missing" }],
+        entry,
+        actual: null,
+      });
+      continue;
+    }
+
+    const actual = toCurrentValues(listEntry);
+    const fields = compareWithAniList(entry, actual, scoreFormat);
+    if (fields.length === 0) {
+      verified.push(entry.mediaId);
+    } else {
+      drifted.push({ mediaId: entry.mediaId, title, fields, entry, actual });
+    }
+  }
+
+  console.info(
+    `[SyncVerification] 🔎 Verified ${verified.length} entries, ${drifted.length} drifted`,
+  );
+  return { verifiedAt, verified, drifted };
+}
+
+/**
+ * Adds drifted entries to the failed-operations queue so they can be retried.
+ * Each operation diffs the intended values against AniList's current values, so only drifted fields are resent.
+ * @param verification - Verification section with drifted entries.
+ * @returns Number of entries queued.
+ * @source
+ */
+export function requeueDriftedEntries(
+  verification: SyncVerificationReport,
+): number {
+  for (const drift of verification.drifted) {
+    const { entry } = drift;
+    addFailedSyncOperation({
+      mediaId: entry.mediaId,
+      title: drift.title,
+      status: entry.status,
+      progress: entry.progress,
+      score: entry.score,
+      private: entry.private,
+      coverImage: entry.coverImage ?? null,
+      progressVolumes: entry.progressVolumes,
+      notes: entry.notes,
+      startedAt: entry.startedAt,
+      completedAt: entry.completedAt,
+      error: `Drifted after sync: ${drift.fields.map((f) => f.field).join(", ")}`,
+      errorCode: "SYNC_DRIFT",
+      previousValues: drift.actual,
+      syncMetadata: null,
+    });
+  }
+
+  console.info(
+    `[SyncVerification] 🔁 Re-queued ${verification.drifted.length} drifted entries`,
+  );
+  return verification.drifted.length;
+}
@@ -5,6 +5,7 @@
  */
 
 import { KenmeiManga } from "../kenmei/types";
+import type { MatchScoreBreakdown } from "../matching/scoring/confidence-mapper";
 
 /**
  * API provider identifiers for telemetry and performance monitoring.
@@ -27,6 +28,18 @@ export type MediaListStatus =
   | "PAUSED"
   | "REPEATING";
 
+/**
+ * Score formats an AniList user can choose for their manga list.
+ * Scores read from and written to list entries use the viewer's format.
+ * @source
+ */
+export type ScoreFormat =
+  | "POINT_100"
+  | "POINT_10_DECIMAL"
+  | "POINT_10"
+  | "POINT_5"
+  | "POINT_3";
+
 /**
  * Valid AniList media (title) status values (not to be confused with MediaListStatus which is the user's list status).
  * See docs/guides/API_REFERENCE.md for source and explanation.
@@ -38,6 +51,17 @@ export type MediaStatus =
   | "CANCELLED"
   | "HIATUS";
 
+/**
+ * AniList fuzzy date where any component may be missing (e.g. only a year is known).
+ * Mirrors the `FuzzyDate`/`FuzzyDateInput` GraphQL types.
+ * @source
+ */
+export interface FuzzyDate {
+  year?: number | null;
+  month?: number | null;
+  day?: number | null;
+}
+
 /**
  * Complete AniList manga entry with metadata, staff, and user list information.
  * @source
@@ -91,6 +115,73 @@ export interface AniListManga {
     private: boolean;
   } | null;
   isAdult?: boolean;
+  /** Related manga entries. Only fetched for the top candidates of a search. */
+  relations?: MangaRelation[];
+}
+
+/**
+ * AniList relation types kept for candidate ranking and related-entry suggestions.
+ * @source
+ */
+export type MangaRelationType =
+  | "PREQUEL"
+  | "SEQUEL"
+  | "PARENT"
+  | "SIDE_STORY"
+  | "SPIN_OFF"
+  | "ALTERNATIVE";
+
+/**
+ * A manga related to an AniList entry, such as its sequel or a side story.
+ * The related entry carries the list fields needed to select it as a match, without description, genres or tags.
+ * @source
+ */
+export interface MangaRelation {
+  relationType: MangaRelationType;
+  manga: AniListManga;
+}
+
+/**
+ * List entry fields reconciled by the three-way merge.
+ * @source
+ */
+export type SyncMergeField =
+  | "status"
+  | "progress"
+  | "score"
+  | "progressVolumes"
+  | "notes"
+  | "startedAt"
+  | "completedAt";
+
+/**
+ * Snapshot of the mergeable list entry fields on one side of a sync.
+ * Scores are expressed in the viewer's AniList score format.
+ * @source
+ */
+export interface SyncFieldValues {
+  status: MediaListStatus;
+  progress: number;
+  score: number;
+  progressVolumes?: number;
+  notes?: string | null;
+  startedAt?: FuzzyDate | null;
+  completedAt?: FuzzyDate | null;
+}
+
+/**
+ * A field changed on both Kenmei and AniList since the last sync, to different values.
+ * @property field - The conflicting field.
+ * @property baseline - Value AniList held after the last sync.
+ * @property kenmei - Current value derived from Kenmei.
+ * @property anilist - Current value on AniList.
+ * @source
+ */
+export interface SyncConflict<F extends SyncMergeField = SyncMergeField> {
+  field: F;
+  baseline: SyncFieldValues[F];
+  kenmei: SyncFieldValues[F];
+  anilist: SyncFieldValues[F];
 }
 
 /**
@@ -104,12 +195,30 @@ export interface AniListMediaEntry {
   progress: number;
   private: boolean;
   score: number;
+  progressVolumes?: number;
+  notes?: string;
+  startedAt?: FuzzyDate | null;
+  completedAt?: FuzzyDate | null;
+  customLists?: string[];
+  hiddenFromStatusLists?: boolean;
   previousValues: {
     status: MediaListStatus;
     progress: number;
     score: number;
     private: boolean;
+    progressVolumes?: number;
+    notes?: string | null;
+    startedAt?: FuzzyDate | null;
+    completedAt?: FuzzyDate | null;
+    customLists?: string[];
+    hiddenFromStatusLists?: boolean;
   } | null;
+  // Kenmei-derived field values, recorded as the Kenmei side of the sync baseline
+  kenmeiValues?: SyncFieldValues;
+  // Set when fields were reconciled against a stored baseline instead of priority settings
+  mergedFromBaseline?: boolean;
+  // Unresolved three-way merge conflicts; conflicting fields keep their AniList value
+  conflicts?: SyncConflict[];
   title?: string;
   coverImage?: string;
   // Metadata for incremental sync process
@@ -121,6 +230,7 @@ export interface AniListMediaEntry {
     updatedStatus?: boolean;
     updatedScore?: boolean;
     updatedPrivate?: boolean;
+    updatedDetails?: boolean;
     isRetry?: boolean;
     retryTimestamp?: number;
     retryCount?: number;
@@ -202,6 +312,8 @@ export interface MangaMatch {
   id?: number;
   manga: AniListManga;
   confidence: number;
+  // How the confidence was reached: matched title, check, penalties and boosts
+  scoreBreakdown?: MatchScoreBreakdown;
   // Optional source information for matches found via alternative methods
   sourceInfo?: {
     title: string;
@@ -240,6 +352,17 @@ export interface MangaSearchResponse {
  */
 export type MatchStatus = "pending" | "matched" | "manual" | "skipped";
 
+/**
+ * Record of a match accepted by the auto-accept policy rather than by the user.
+ * @source
+ */
+export interface AutoAcceptRecord {
+  /** Why the policy accepted the top candidate. */
+  reason: string;
+  /** ISO 8601 string timestamp of when the policy accepted it. */
+  acceptedAt: string;
+}
+
 /**
  * Result of a manga matching operation linking Kenmei to AniList entry.
  * @source
@@ -251,6 +374,8 @@ export interface MangaMatchResult {
   status: MatchStatus;
   /** ISO 8601 string timestamp of when match was created or updated. */
   matchDate?: string;
+  /** Set while the current match is one the auto-accept policy made. */
+  autoAccept?: AutoAcceptRecord;
 }
 
 /**
@@ -264,11 +389,23 @@ export interface UserMediaEntry {
   progress: number;
   score: number;
   private: boolean;
+  progressVolumes?: number;
+  notes?: string | null;
+  startedAt?: FuzzyDate | null;
+  completedAt?: FuzzyDate | null;
+  customLists?: string[];
+  hiddenFromStatusLists?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
   title: {
     romaji: string;
     english: string | null;
     native: string | null;
   };
+  media?: Pick<
+    AniListManga,
+    "synonyms" | "chapters" | "volumes" | "coverImage"
+  >;
 }
 
 /**
@@ -0,0 +1,379 @@
+/**
+ * @packageDocumentation
+ * @module csv-mapping
+ * @description Applies user-defined column mappings to arbitrary CSV files, producing Kenmei manga entries with per-row validation errors.
+ */
+
+import type {
+  KenmeiManga,
+  KenmeiParseOptions,
+  KenmeiStatus,
+} from "../../kenmei/types";
+import {
+  KENMEI_CSV_COLUMN_ALIASES,
+  matchKenmeiStatus,
+  normalizeKenmeiManga,
+} from "../../kenmei/parser";
+import type {
+  CsvColumnMapping,
+  CsvMappableField,
+  CsvMappingResult,
+  CsvRowError,
+} from "./types";
+
+/**
+ * Mappable fields in display order, with labels for the mapping wizard.
+ * @source
+ */
+export const CSV_MAPPABLE_FIELDS: ReadonlyArray<{
+  field: CsvMappableField;
+  label: string;
+  required?: boolean;
+}> = [
+  { field: "title", label: "Title", required: true },
+  { field: "status", label: "Status" },
+  { field: "chaptersRead", label: "Chapters read" },
+  { field: "volumesRead", label: "Volumes read" },
+  { field: "score", label: "Score" },
+  { field: "url", label: "Series URL" },
+  { field: "notes", label: "Notes" },
+  { field: "lastReadAt", label: "Last read date" },
+  { field: "createdAt", label: "Date added" },
+  { field: "updatedAt", label: "Last updated" },
+  { field: "totalChapters", label: "Total chapters" },
+  { field: "totalVolumes", label: "Total volumes" },
+  { field: "author", label: "Author" },
+  { field: "alternativeTitles", label: "Alternative titles (; separated)" },
+  { field: "coverUrl", label: "Cover URL" },
+  { field: "anilistId", label: "AniList ID" },
+  { field: "malId", label: "MyAnimeList ID" },
+];
+
+/** Header aliases for fields the Kenmei parser does not read. */
+const ID_COLUMN_ALIASES: Partial<Record<CsvMappableField, readonly string[]>> =
+  {
+    anilistId: ["anilist_id", "anilist id", "anilistid", "anilist"],
+    malId: ["mal_id", "mal id", "malid", "myanimelist id"],
+  };
+
+/** Fields parsed as non-negative integers. */
+const INTEGER_FIELDS = new Set<CsvMappableField>([
+  "chaptersRead",
+  "volumesRead",
+  "totalChapters",
+  "totalVolumes",
+]);
+
+/** Fields parsed as positive integer IDs. */
+const ID_FIELDS = new Set<CsvMappableField>(["anilistId", "malId"]);
+
+/** Fields parsed as dates and stored as ISO 8601. */
+const DATE_FIELDS = new Set<CsvMappableField>([
+  "lastReadAt",
+  "createdAt",
+  "updatedAt",
+]);
+
+/** Maximum number of distinct status values offered for mapping. */
+const MAX_STATUS_VALUES = 50;
+
+/**
+ * Normalizes a header name for case-insensitive comparison.
+ * @param header - Raw header.
+ * @returns Trimmed, lower-case header.
+ * @source
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/**
+ * Finds the index of a mapped column in the header row.
+ * @param headers - Header row.
+ * @param column - Mapped header name, if any.
+ * @returns Column index, or -1 if unmapped or missing.
+ * @source
+ */
+function findColumnIndex(
+  headers: string[],
+  column: string | undefined,
+): number {
+  if (!column) return -1;
+  const target = normalizeHeader(column);
+  return headers.findIndex((header) => normalizeHeader(header) === target);
+}
+
+/**
+ * Returns the header aliases the parser recognizes for a field.
+ * @param field - Mappable field.
+ * @returns Lower-case aliases.
+ * @source
+ */
+function aliasesFor(field: CsvMappableField): readonly string[] {
+  return (
+    ID_COLUMN_ALIASES[field] ??
+    (KENMEI_CSV_COLUMN_ALIASES as Record<string, readonly string[]>)[field] ??
+    []
+  );
+}
+
+/**
+ * Pre-fills a column mapping from headers the Kenmei parser already recognizes.
+ * @param headers - Header row.
+ * @returns Suggested mapping with no status values.
+ * @source
+ */
+export function suggestCsvColumnMapping(headers: string[]): CsvColumnMapping {
+  const columns: CsvColumnMapping["columns"] = {};
+  for (const { field } of CSV_MAPPABLE_FIELDS) {
+    const header = aliasesFor(field)
+      .map((alias) =>
+        headers.find((candidate) => normalizeHeader(candidate) === alias),
+      )
+      .find((candidate) => candidate !== undefined);
+    if (header !== undefined) columns[field] = header.trim();
+  }
+  return { columns, statusValues: {} };
+}
+
+/**
+ * Returns true if the Kenmei parser cannot make sense of a CSV on its own:
+ * there is no `title` column, or `title` is the only column it recognizes.
+ * @param headers - Header row.
+ * @returns Whether the file should go through the mapping wizard.
+ * @source
+ */
+export function needsCsvColumnMapping(headers: string[]): boolean {
+  const { columns } = suggestCsvColumnMapping(headers);
+  if (!columns.title) return true;
+  return Object.keys(columns).length === 1;
+}
+
+/**
+ * Returns true if every column a mapping uses exists in the header row.
+ * @param mapping - Column mapping.
+ * @param headers - Header row.
+ * @returns Whether the mapping fits the file.
+ * @source
+ */
+export function mappingFitsHeaders(
+  mapping: CsvColumnMapping,
+  headers: string[],
+): boolean {
+  return Object.values(mapping.columns).every(
+    (column) => findColumnIndex(headers, column) >= 0,
+  );
+}
+
+/**
+ * Collects the distinct values of the mapped status column.
+ * @param rows - CSV rows, header first.
+ * @param mapping - Column mapping.
+ * @returns Distinct trimmed values in first-seen order (at most 50).
+ * @source
+ */
+export function collectStatusValues(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+): string[] {
+  const [headers = [], ...dataRows] = rows;
+  const statusIndex = findColumnIndex(headers, mapping.columns.status);
+  if (statusIndex < 0) return [];
+
+  const seen = new Map<string, string>();
+  for (const row of dataRows) {
+    const value = row[statusIndex]?.trim();
+    if (!value || seen.has(value.toLowerCase())) continue;
+    seen.set(value.toLowerCase(), value);
+    if (seen.size >= MAX_STATUS_VALUES) break;
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Suggests Kenmei statuses for raw status strings the parser recognizes.
+ * @param values - Raw status strings.
+ * @returns Lower-case values mapped to their recognized status.
+ * @source
+ */
+export function suggestStatusValues(
+  values: string[],
+): Record<string, KenmeiStatus> {
+  const suggestions: Record<string, KenmeiStatus> = {};
+  for (const value of values) {
+    const status = matchKenmeiStatus(value);
+    if (status) suggestions[value.toLowerCase()] = status;
+  }
+  return suggestions;
+}
+
+/**
+ * Parses a numeric cell, ignoring formatting characters such as "Ch." or "%".
+ * @param value - Raw cell value.
+ * @returns Parsed number, or undefined if no number is present.
+ * @source
+ */
+function parseNumber(value: string): number | undefined {
+  const cleaned = value.replaceAll(/[^\d.-]/g, "");
+  if (!cleaned) return undefined;
+  const parsed = Number.parseFloat(cleaned);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parses one mapped cell into the value stored on the entry.
+ * @param field - Target field.
+ * @param value - Trimmed, non-empty cell value.
+ * @param statusValues - Status string mapping.
+ * @returns The parsed value, or an error message.
+ * @source
+ */
+function parseField(
+  field: CsvMappableField,
+  value: string,
+  statusValues: Record<string, KenmeiStatus>,
+): { value: unknown } | { error: string } {
+  if (field === "status") {
+    const status =
+      statusValues[value.toLowerCase()] ?? matchKenmeiStatus(value);
+    return status
+      ? { value: status }
+      : { error: `Status "${value}" is not mapped to a Kenmei status` };
+  }
+
+  if (field === "alternativeTitles") {
+    const titles = value
+      .split(";")
+      .map((title) => title.trim())
+      .filter(Boolean);
+    return { value: titles };
+  }
+
+  if (DATE_FIELDS.has(field)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time)
+      ? { error: "Expected a date" }
+      : { value: new Date(time).toISOString() };
+  }
+
+  if (field === "score") {
+    const score = parseNumber(value);
+    if (score === undefined) return { error: "Expected a number" };
+    return score < 0 ? { error: "Score cannot be negative" } : { value: score };
+  }
+
+  if (INTEGER_FIELDS.has(field)) {
+    const count = parseNumber(value);
+    if (count === undefined) return { error: "Expected a number" };
+    return count < 0
+      ? { error: "Value cannot be negative" }
+      : { value: Math.floor(count) };
+  }
+
+  if (ID_FIELDS.has(field)) {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0
+      ? { value: id }
+      : { error: "Expected a positive whole number" };
+  }
+
+  return { value };
+}
+
+/**
+ * Builds Kenmei manga entries from CSV rows using a column mapping.
+ *
+ * Rows without a title are skipped. Other invalid cells are reported and the
+ * field falls back to its default, so one bad value does not drop the entry.
+ *
+ * @param rows - CSV rows, header first.
+ * @param mapping - Column mapping to apply.
+ * @param options - Default status for rows without a mapped status, and the number of data rows already processed (for row numbers in streamed segments).
+ * @returns Entries, per-row errors, and the number of data rows read.
+ * @source
+ */
+export function applyCsvColumnMapping(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  options: Partial<Pick<KenmeiParseOptions, "defaultStatus">> & {
+    rowOffset?: number;
+  } = {},
+): CsvMappingResult {
+  const { defaultStatus = "plan_to_read", rowOffset = 0 } = options;
+  const [headers = [], ...dataRows] = rows;
+
+  const mapped = CSV_MAPPABLE_FIELDS.map(({ field }) => ({
+    field,
+    index: findColumnIndex(headers, mapping.columns[field]),
+  })).filter(({ index }) => index >= 0);
+
+  const manga: KenmeiManga[] = [];
+  const errors: CsvRowError[] = [];
+
+  dataRows.forEach((cells, index) => {
+    const row = rowOffset + index + 1;
+    // Blank lines are not rows
+    if (cells.every((cell) => !cell.trim())) return;
+
+    const entry: Record<string, unknown> = { id: row };
+    const rowErrors: CsvRowError[] = [];
+
+    for (const { field, index: column } of mapped) {
+      const value = cells[column]?.trim() ?? "";
+      if (!value) continue;
+      const parsed = parseField(field, value, mapping.statusValues);
+      if ("error" in parsed) {
+        rowErrors.push({
+          row,
+          field,
+          value,
+          message: parsed.error,
+          skipped: false,
+        });
+      } else {
+        entry[field] = parsed.value;
+      }
+    }
+
+    if (!entry.title) {
+      errors.push(
+        {
+          row,
+          field: "title",
+          value: "",
+          message: "Title is empty",
+          skipped: true,
+        },
+        ...rowErrors.map((error) => ({ ...error, skipped: true })),
+      );
+      return;
+    }
+
+    errors.push(...rowErrors);
+    manga.push(
+      normalizeKenmeiManga(entry as Partial<KenmeiManga>, { defaultStatus }),
+    );
+  });
+
+  return { manga, errors, rowCount: dataRows.length };
+}
+
+/**
+ * Quotes a CSV cell if it contains separators, quotes, or line breaks.
+ * @param cell - Cell value.
+ * @returns CSV-safe cell text.
+ * @source
+ */
+function quoteCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replaceAll('"', '""')}"` : cell;
+}
+
+/**
+ * Serializes parsed rows back to CSV text, e.g. to send a preview slice to the CSV worker.
+ * @param rows - Rows to serialize.
+ * @returns CSV text with Unix line breaks.
+ * @source
+ */
+export function serializeCsvRows(rows: string[][]): string {
+  return rows.map((row) => row.map(quoteCsvCell).join(",")).join("\n");
+}
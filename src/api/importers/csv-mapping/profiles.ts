@@ -0,0 +1,121 @@
+/**
+ * @packageDocumentation
+ * @module csv-mapping-profiles
+ * @description Persists named CSV column-mapping profiles so a mapping can be reused for later exports from the same source.
+ */
+
+import { storage, STORAGE_KEYS } from "../../../utils/storage";
+import { mappingFitsHeaders } from "./mapping";
+import type { CsvColumnMapping, CsvMappingProfile } from "./types";
+
+/**
+ * Loads saved CSV mapping profiles.
+ * @returns Saved profiles, empty if none are stored or the data is invalid.
+ * @source
+ */
+export function getCsvMappingProfiles(): CsvMappingProfile[] {
+  try {
+    const saved = storage.getItem(STORAGE_KEYS.CSV_MAPPING_PROFILES);
+    if (!saved) return [];
+
+    const parsed = JSON.parse(saved) as unknown;
+    if (!Array.isArray(parsed)) {
+      console.warn("[CsvMapping] ⚠️ Invalid mapping profile structure");
+      return [];
+    }
+
+    return parsed.filter(
+      (profile): profile is CsvMappingProfile =>
+        typeof profile === "object" &&
+        typeof profile.id === "string" &&
+        typeof profile.name === "string" &&
+        typeof profile.mapping?.columns === "object" &&
+        typeof profile.mapping?.statusValues === "object",
+    );
+  } catch (error) {
+    console.error("[CsvMapping] ❌ Failed to load mapping profiles:", error);
+    return [];
+  }
+}
+
+/**
+ * Persists CSV mapping profiles.
+ * @param profiles - Profiles to save.
+ * @source
+ */
+function saveCsvMappingProfiles(profiles: CsvMappingProfile[]): void {
+  try {
+    storage.setItem(
+      STORAGE_KEYS.CSV_MAPPING_PROFILES,
+      JSON.stringify(profiles),
+    );
+  } catch (error) {
+    console.error("[CsvMapping] ❌ Failed to save mapping profiles:", error);
+  }
+}
+
+/**
+ * Saves a mapping under a name, replacing any profile with the same name (case-insensitive).
+ * @param name - Profile name.
+ * @param mapping - Mapping to save.
+ * @returns The saved profile.
+ * @source
+ */
+export function saveCsvMappingProfile(
+  name: string,
+  mapping: CsvColumnMapping,
+): CsvMappingProfile {
+  const profiles = getCsvMappingProfiles();
+  const trimmedName = name.trim();
+  const now = new Date().toISOString();
+  const existing = profiles.find(
+    (profile) => profile.name.toLowerCase() === trimmedName.toLowerCase(),
+  );
+
+  const profile: CsvMappingProfile = existing
+    ? { ...existing, name: trimmedName, mapping, updatedAt: now }
+    : {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        name: trimmedName,
+        mapping,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+  saveCsvMappingProfiles([
+    ...profiles.filter((candidate) => candidate.id !== profile.id),
+    profile,
+  ]);
+  console.info(`[CsvMapping] 💾 Saved mapping profile "${trimmedName}"`);
+  return profile;
+}
+
+/**
+ * Deletes a saved mapping profile.
+ * @param profileId - ID of the profile to delete.
+ * @returns True if a profile was deleted.
+ * @source
+ */
+export function deleteCsvMappingProfile(profileId: string): boolean {
+  const profiles = getCsvMappingProfiles();
+  const remaining = profiles.filter((profile) => profile.id !== profileId);
+  if (remaining.length === profiles.length) return false;
+
+  saveCsvMappingProfiles(remaining);
+  console.info(`[CsvMapping] 🗑️ Deleted mapping profile ${profileId}`);
+  return true;
+}
+
+/**
+ * Finds the most recently updated profile whose columns all exist in a header row.
+ * @param headers - Header row of the file being imported.
+ * @returns Matching profile, if any.
+ * @source
+ */
+export function findCsvMappingProfileForHeaders(
+  headers: string[],
+): CsvMappingProfile | undefined {
+  return getCsvMappingProfiles()
+    .filter((profile) => mappingFitsHeaders(profile.mapping, headers))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
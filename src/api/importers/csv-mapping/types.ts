@@ -0,0 +1,88 @@
+/**
+ * @packageDocumentation
+ * @module csv-mapping-types
+ * @description Types for mapping arbitrary CSV columns and status strings onto Kenmei manga fields.
+ */
+
+import type { KenmeiManga, KenmeiStatus } from "../../kenmei/types";
+
+/**
+ * KenmeiManga fields a CSV column can be mapped to.
+ * @source
+ */
+export type CsvMappableField =
+  | "title"
+  | "status"
+  | "score"
+  | "url"
+  | "coverUrl"
+  | "chaptersRead"
+  | "totalChapters"
+  | "volumesRead"
+  | "totalVolumes"
+  | "notes"
+  | "lastReadAt"
+  | "createdAt"
+  | "updatedAt"
+  | "author"
+  | "alternativeTitles"
+  | "anilistId"
+  | "malId";
+
+/**
+ * How a CSV file's columns and status values map onto Kenmei fields.
+ * @property columns - Header name (as it appears in the file) for each mapped field.
+ * @property statusValues - Lower-case raw status strings mapped to Kenmei statuses.
+ * @source
+ */
+export interface CsvColumnMapping {
+  columns: Partial<Record<CsvMappableField, string>>;
+  statusValues: Record<string, KenmeiStatus>;
+}
+
+/**
+ * A validation problem found while applying a column mapping to one row.
+ * @property row - 1-based data row number (the header is row 0).
+ * @property field - Field whose value was rejected.
+ * @property value - Raw cell value.
+ * @property message - Human-readable description.
+ * @property skipped - Whether the row was left out of the import.
+ * @source
+ */
+export interface CsvRowError {
+  row: number;
+  field: CsvMappableField;
+  value: string;
+  message: string;
+  skipped: boolean;
+}
+
+/**
+ * Result of applying a column mapping to CSV rows.
+ * @property manga - Entries built from the valid rows.
+ * @property errors - Per-row validation errors.
+ * @property rowCount - Number of data rows read, including skipped ones.
+ * @source
+ */
+export interface CsvMappingResult {
+  manga: KenmeiManga[];
+  errors: CsvRowError[];
+  rowCount: number;
+}
+
+/**
+ * A column mapping saved under a name for reuse with later files.
+ * @property id - Unique identifier.
+ * @property name - User-provided name.
+ * @property mapping - The saved mapping.
+ * @property createdAt - ISO timestamp of creation.
+ * @property updatedAt - ISO timestamp of last update.
+ * @source
+ */
+export interface CsvMappingProfile {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
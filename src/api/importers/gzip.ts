@@ -0,0 +1,28 @@
+/**
+ * @packageDocumentation
+ * @module importers-gzip
+ * @description Gzip detection and decompression shared by importers whose exports may be compressed.
+ */
+
+/**
+ * Returns true if the bytes start with the gzip magic number.
+ * @param bytes - File contents.
+ * @returns Whether the data is gzip-compressed.
+ * @source
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Decompresses gzip data with the platform DecompressionStream.
+ * @param bytes - Gzip-compressed data.
+ * @returns Decompressed bytes.
+ * @source
+ */
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
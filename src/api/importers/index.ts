@@ -0,0 +1,56 @@
+/**
+ * @packageDocumentation
+ * @module importers
+ * @description Main entry point for the pluggable library importer layer.
+ */
+
+export type {
+  ImporterId,
+  ImportSourceFile,
+  ImportParseContext,
+  LibraryImporter,
+} from "./types";
+
+export { libraryImporterRegistry, LibraryImporterRegistry } from "./registry";
+
+export { kenmeiCsvImporter, kenmeiJsonImporter } from "./kenmei";
+export { mihonBackupImporter, mapMihonBackup } from "./mihon/importer";
+export { decodeMihonBackup } from "./mihon/backup";
+export { malXmlImporter } from "./myanimelist/importer";
+export { MAL_STATUS_MAPPING, parseMalXmlExport } from "./myanimelist/parser";
+export { resolveMalIdsToAniList } from "./myanimelist/id-resolution";
+export { mangaUpdatesImporter } from "./mangaupdates/importer";
+export {
+  MANGAUPDATES_LIST_MAPPING,
+  parseMangaUpdatesExport,
+} from "./mangaupdates/parser";
+export type {
+  MihonBackup,
+  MihonCategory,
+  MihonChapter,
+  MihonManga,
+  MihonTracking,
+} from "./mihon/types";
+export {
+  CSV_MAPPABLE_FIELDS,
+  applyCsvColumnMapping,
+  collectStatusValues,
+  mappingFitsHeaders,
+  needsCsvColumnMapping,
+  serializeCsvRows,
+  suggestCsvColumnMapping,
+  suggestStatusValues,
+} from "./csv-mapping/mapping";
+export {
+  deleteCsvMappingProfile,
+  findCsvMappingProfileForHeaders,
+  getCsvMappingProfiles,
+  saveCsvMappingProfile,
+} from "./csv-mapping/profiles";
+export type {
+  CsvColumnMapping,
+  CsvMappableField,
+  CsvMappingProfile,
+  CsvMappingResult,
+  CsvRowError,
+} from "./csv-mapping/types";
@@ -0,0 +1,127 @@
+/**
+ * @packageDocumentation
+ * @module kenmei-importers
+ * @description Library importers for Kenmei CSV and JSON exports.
+ */
+
+import type { KenmeiData, KenmeiMangaItem } from "../../types/kenmei";
+import { getCSVWorkerPool } from "@/workers";
+import { parseKenmeiExport } from "../kenmei/parser";
+import type { ImportSourceFile, LibraryImporter } from "./types";
+
+const KENMEI_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Decodes a file's bytes as UTF-8 text.
+ * @param file - File to decode.
+ * @returns File contents as text.
+ * @source
+ */
+export function decodeText(file: ImportSourceFile): string {
+  return new TextDecoder("utf-8").decode(file.bytes);
+}
+
+/**
+ * Returns true if the file name ends with one of the extensions.
+ * @param file - File to check.
+ * @param extensions - Lower-case extensions with leading dot.
+ * @returns Whether the file has a matching extension.
+ * @source
+ */
+export function hasExtension(
+  file: ImportSourceFile,
+  extensions: string[],
+): boolean {
+  const name = file.name.toLowerCase();
+  return extensions.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Maps a parsed KenmeiManga entry (camelCase or snake_case) to the import item shape.
+ * @param item - Parsed entry from the CSV worker or an export parser.
+ * @returns Manga item for the import flow.
+ * @source
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function toMangaItem(item: any): KenmeiMangaItem {
+  return {
+    title: item.title,
+    status: item.status,
+    score: item.score,
+    chaptersRead: item.chaptersRead ?? item.chapters_read,
+    volumesRead: item.volumesRead ?? item.volumes_read,
+    createdAt: item.createdAt ?? item.created_at,
+    updatedAt: item.updatedAt ?? item.updated_at,
+    lastReadAt: item.lastReadAt ?? item.last_read_at,
+    notes: item.notes,
+    url: item.url,
+    anilistId: item.anilistId,
+    malId: item.malId,
+    categories: item.categories,
+  };
+}
+
+/**
+ * Kenmei CSV export importer. Parses in the CSV worker pool with progress and cancellation.
+ * @source
+ */
+export const kenmeiCsvImporter: LibraryImporter = {
+  id: "kenmei-csv",
+  label: "Kenmei CSV export",
+  extensions: [".csv"],
+  maxFileSize: KENMEI_MAX_FILE_SIZE,
+  canImport: (file) => hasExtension(file, [".csv"]),
+  parse: async (file, context) => {
+    const workerPool = getCSVWorkerPool({
+      enableWorkers: true,
+      fallbackToMainThread: true,
+    });
+
+    const { taskId, promise } = workerPool.startParsing(
+      decodeText(file),
+      { defaultStatus: "plan_to_read" as const },
+      (progress: {
+        payload: { processedBytes?: number; totalBytes?: number };
+      }) => {
+        // Report byte-based progress from the worker
+        if (progress.payload.processedBytes && progress.payload.totalBytes) {
+          const byteProgress =
+            (progress.payload.processedBytes / progress.payload.totalBytes) *
+            100;
+          context?.onProgress?.(Math.min(100, Math.max(0, byteProgress)));
+        }
+      },
+    );
+    context?.onCancellable?.(() => workerPool.cancelTask(taskId));
+
+    const { manga } = await promise;
+    const data: KenmeiData = {
+      version: "1.0.0",
+      exportedAt: new Date().toISOString(),
+      manga: (manga ?? []).map(toMangaItem),
+    };
+    return data;
+  },
+};
+
+/**
+ * Kenmei JSON export importer.
+ * @source
+ */
+export const kenmeiJsonImporter: LibraryImporter = {
+  id: "kenmei-json",
+  label: "Kenmei JSON export",
+  extensions: [".json"],
+  maxFileSize: KENMEI_MAX_FILE_SIZE,
+  canImport: (file) => hasExtension(file, [".json"]),
+  parse: async (file) => {
+    const parsed = parseKenmeiExport(decodeText(file), {
+      defaultStatus: "plan_to_read",
+    });
+    return {
+      version: "1.0.0",
+      exportedAt: parsed.exportDate || new Date().toISOString(),
+      manga: parsed.manga.map(toMangaItem),
+    };
+  },
+};
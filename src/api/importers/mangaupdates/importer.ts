@@ -0,0 +1,50 @@
+/**
+ * @packageDocumentation
+ * @module mangaupdates-importer
+ * @description Library importer for MangaUpdates reading-list exports (CSV or API JSON).
+ */
+
+import { decodeText, hasExtension, toMangaItem } from "../kenmei";
+import type { ImportSourceFile, LibraryImporter } from "../types";
+import { isMangaUpdatesCsvHeader, parseMangaUpdatesExport } from "./parser";
+
+/**
+ * Returns true if the file's content looks like a MangaUpdates list.
+ * CSV exports are recognised by their header; JSON exports by the API's list fields.
+ * @param file - File to inspect.
+ * @returns Whether the file is a MangaUpdates export.
+ * @source
+ */
+function looksLikeMangaUpdates(file: ImportSourceFile): boolean {
+  const head = decodeText({ ...file, bytes: file.bytes.subarray(0, 4096) });
+  if (hasExtension(file, [".csv"])) {
+    return isMangaUpdatesCsvHeader(head.split(/\r?\n/, 1)[0] ?? "");
+  }
+  if (hasExtension(file, [".json"])) {
+    return head.includes('"list_id"') && head.includes('"series"');
+  }
+  return false;
+}
+
+/**
+ * MangaUpdates reading-list importer.
+ * Registered ahead of the Kenmei importers so its content checks run before their extension checks.
+ * @source
+ */
+export const mangaUpdatesImporter: LibraryImporter = {
+  id: "mangaupdates",
+  label: "MangaUpdates reading list",
+  extensions: [".csv", ".json"],
+  maxFileSize: 10 * 1024 * 1024,
+  canImport: looksLikeMangaUpdates,
+  parse: async (file) => {
+    const parsed = parseMangaUpdatesExport(decodeText(file), {
+      defaultStatus: "plan_to_read",
+    });
+    return {
+      version: "1.0.0",
+      exportedAt: parsed.exportDate,
+      manga: parsed.manga.map(toMangaItem),
+    };
+  },
+};
@@ -0,0 +1,237 @@
+/**
+ * @packageDocumentation
+ * @module mangaupdates-parser
+ * @description Parser for MangaUpdates reading-list exports (CSV or API JSON), producing the same KenmeiExport shape as parseKenmeiExport.
+ */
+
+import {
+  DEFAULT_PARSE_OPTIONS,
+  type KenmeiExport,
+  type KenmeiManga,
+  type KenmeiParseOptions,
+  type KenmeiStatus,
+} from "../../kenmei/types";
+import { normalizeKenmeiManga, parseCSVRows } from "../../kenmei/parser";
+
+/**
+ * MangaUpdates list names and list IDs mapped to Kenmei statuses.
+ * Keys are lower-case list names (with and without the "list" suffix) and numeric list IDs.
+ * @source
+ */
+export const MANGAUPDATES_LIST_MAPPING: Record<string, KenmeiStatus> = {
+  read: "reading",
+  reading: "reading",
+  "reading list": "reading",
+  wish: "plan_to_read",
+  "wish list": "plan_to_read",
+  complete: "completed",
+  "complete list": "completed",
+  unfinished: "dropped",
+  "unfinished list": "dropped",
+  hold: "on_hold",
+  "on hold": "on_hold",
+  "on hold list": "on_hold",
+  "0": "reading",
+  "1": "plan_to_read",
+  "2": "completed",
+  "3": "dropped",
+  "4": "on_hold",
+};
+
+/** CSV header names accepted for each field, lower-case. */
+const CSV_COLUMNS = {
+  title: ["title", "series", "series title", "series name", "name"],
+  list: ["list", "list name", "list type", "list_type"],
+  chapter: ["chapter", "chapters", "ch", "latest chapter read"],
+  volume: ["volume", "volumes", "vol"],
+  url: ["url", "series url", "link"],
+  rating: ["rating", "user rating", "score"],
+  added: ["date added", "added", "time added"],
+} as const;
+
+/**
+ * Maps a MangaUpdates list name or ID to a Kenmei status.
+ * @param list - List name or numeric list ID.
+ * @param defaultStatus - Status for unrecognised lists.
+ * @returns Kenmei status.
+ * @source
+ */
+function mapListStatus(
+  list: string | number | undefined,
+  defaultStatus: KenmeiStatus,
+): KenmeiStatus {
+  if (list === undefined) return defaultStatus;
+  return (
+    MANGAUPDATES_LIST_MAPPING[String(list).trim().toLowerCase()] ??
+    defaultStatus
+  );
+}
+
+/**
+ * Parses a number, returning undefined for blanks and invalid values.
+ * @param value - Raw value.
+ * @returns Parsed number or undefined.
+ * @source
+ */
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number.parseFloat(String(value));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Returns true if a CSV header row looks like a MangaUpdates list export.
+ * Requires a title column and a list column, which Kenmei CSV exports do not have.
+ * @param headerLine - First line of the CSV file.
+ * @returns Whether the header matches.
+ * @source
+ */
+export function isMangaUpdatesCsvHeader(headerLine: string): boolean {
+  const headers = headerLine
+    .split(",")
+    .map((h) => h.replaceAll('"', "").trim().toLowerCase());
+  return (
+    CSV_COLUMNS.title.some((name) => headers.includes(name)) &&
+    CSV_COLUMNS.list.some((name) => headers.includes(name))
+  );
+}
+
+/**
+ * Parses a MangaUpdates list export in CSV form.
+ * @param csvContent - Raw CSV content.
+ * @param defaultStatus - Status for unrecognised lists.
+ * @returns Parsed entries.
+ * @throws {Error} If the CSV has no title column.
+ * @source
+ */
+function parseCsvList(
+  csvContent: string,
+  defaultStatus: KenmeiStatus,
+): KenmeiManga[] {
+  const [headerRow, ...rows] = parseCSVRows(csvContent);
+  const headers = (headerRow ?? []).map((h) => h.trim().toLowerCase());
+  const column = (names: readonly string[]) =>
+    headers.findIndex((header) => names.includes(header));
+
+  const titleIndex = column(CSV_COLUMNS.title);
+  if (titleIndex < 0) {
+    throw new Error("MangaUpdates export is missing a title column");
+  }
+  const listIndex = column(CSV_COLUMNS.list);
+  const chapterIndex = column(CSV_COLUMNS.chapter);
+  const volumeIndex = column(CSV_COLUMNS.volume);
+  const urlIndex = column(CSV_COLUMNS.url);
+  const ratingIndex = column(CSV_COLUMNS.rating);
+  const addedIndex = column(CSV_COLUMNS.added);
+
+  return rows
+    .filter((row) => row[titleIndex]?.trim())
+    .map((row, index) =>
+      normalizeKenmeiManga(
+        {
+          id: index + 1,
+          title: row[titleIndex].trim(),
+          status: mapListStatus(row[listIndex], defaultStatus),
+          score: toNumber(row[ratingIndex]) ?? 0,
+          url: row[urlIndex]?.trim() ?? "",
+          chaptersRead: Math.floor(toNumber(row[chapterIndex]) ?? 0),
+          volumesRead: toNumber(row[volumeIndex]),
+          createdAt: row[addedIndex]?.trim() || undefined,
+        },
+        { defaultStatus },
+      ),
+    );
+}
+
+/**
+ * A list entry as returned by the MangaUpdates API list search.
+ * @source
+ */
+interface MangaUpdatesApiEntry {
+  record?: {
+    series?: { id?: number; title?: string; url?: string };
+    list_id?: number;
+    status?: { volume?: number; chapter?: number };
+    time_added?: { as_rfc3339?: string };
+  };
+  metadata?: { user_rating?: number | null };
+}
+
+/**
+ * Parses a MangaUpdates list export in API JSON form.
+ * Accepts the list search response (`{ results: [...] }`) or a bare array of results.
+ * @param data - Parsed JSON.
+ * @param defaultStatus - Status for unrecognised lists.
+ * @returns Parsed entries.
+ * @throws {Error} If the JSON is not a MangaUpdates list.
+ * @source
+ */
+function parseApiList(
+  data: unknown,
+  defaultStatus: KenmeiStatus,
+): KenmeiManga[] {
+  const results = Array.isArray(data)
+    ? data
+    : (data as { results?: unknown })?.results;
+  if (!Array.isArray(results)) {
+    throw new Error("Invalid MangaUpdates export: missing results array");
+  }
+
+  return (results as MangaUpdatesApiEntry[])
+    .filter((entry) => entry.record?.series?.title)
+    .map((entry, index) => {
+      const record = entry.record!;
+      return normalizeKenmeiManga(
+        {
+          id: record.series?.id ?? index + 1,
+          title: record.series!.title,
+          status: mapListStatus(record.list_id, defaultStatus),
+          score: toNumber(entry.metadata?.user_rating) ?? 0,
+          url: record.series?.url ?? "",
+          chaptersRead: Math.floor(record.status?.chapter ?? 0),
+          volumesRead: record.status?.volume,
+          createdAt: record.time_added?.as_rfc3339,
+        },
+        { defaultStatus },
+      );
+    });
+}
+
+/**
+ * Parse a MangaUpdates reading-list export (CSV or API JSON).
+ * @param content - Raw export content.
+ * @param options - Parsing configuration.
+ * @returns Parsed export in the Kenmei shape.
+ * @throws {Error} If the content is not a MangaUpdates list export.
+ * @source
+ */
+export function parseMangaUpdatesExport(
+  content: string,
+  options: Partial<KenmeiParseOptions> = {},
+): KenmeiExport {
+  const { defaultStatus } = { ...DEFAULT_PARSE_OPTIONS, ...options };
+  const trimmed = content.trimStart();
+
+  let manga: KenmeiManga[];
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      manga = parseApiList(JSON.parse(trimmed), defaultStatus);
+    } catch (error) {
+      if (error instanceof SyntaxError)
+        throw new Error("Invalid JSON format in MangaUpdates export");
+      throw error;
+    }
+  } else {
+    manga = parseCsvList(content, defaultStatus);
+  }
+
+  console.info(
+    `[MangaUpdatesParser] ✅ Parsed ${manga.length} manga from MangaUpdates export`,
+  );
+
+  return {
+    exportDate: new Date().toISOString(),
+    user: { username: "", id: 0 },
+    manga,
+  };
+}
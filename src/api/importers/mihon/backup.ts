@@ -0,0 +1,109 @@
+/**
+ * @packageDocumentation
+ * @module mihon-backup
+ * @description Decodes gzip-compressed protobuf Mihon/Tachiyomi backups (.tachibk, .proto.gz).
+ */
+
+import { gunzip, isGzip } from "../gzip";
+import { ProtoMessage } from "./protobuf";
+import type {
+  MihonBackup,
+  MihonCategory,
+  MihonChapter,
+  MihonManga,
+  MihonTracking,
+} from "./types";
+
+/**
+ * Decodes a BackupChapter message.
+ * @param message - Encoded chapter.
+ * @returns Read state and chapter number.
+ * @source
+ */
+function decodeChapter(message: ProtoMessage): MihonChapter {
+  return {
+    read: message.bool(4),
+    chapterNumber: message.float(9) ?? 0,
+  };
+}
+
+/**
+ * Decodes a BackupTracking message.
+ * Prefers the 64-bit media ID (field 100) over the deprecated 32-bit one.
+ * @param message - Encoded tracking entry.
+ * @returns Tracker binding.
+ * @source
+ */
+function decodeTracking(message: ProtoMessage): MihonTracking {
+  return {
+    syncId: message.number(1) ?? 0,
+    mediaId: message.number(100) ?? message.number(3) ?? 0,
+    status: message.number(9) ?? 0,
+    lastChapterRead: message.float(6) ?? 0,
+    trackingUrl: message.string(4),
+  };
+}
+
+/**
+ * Decodes a BackupManga message.
+ * Fields omitted by the encoder take the schema defaults (favorite defaults to true).
+ * @param message - Encoded manga.
+ * @returns Manga entry.
+ * @source
+ */
+function decodeManga(message: ProtoMessage): MihonManga {
+  const favorite = message.bigint(100);
+  return {
+    source: (message.bigint(1) ?? 0n).toString(),
+    url: message.string(2) ?? "",
+    title: message.string(3) ?? "",
+    author: message.string(5),
+    status: message.number(8) ?? 0,
+    dateAdded: message.number(13) ?? 0,
+    lastModifiedAt: message.number(106) ?? 0,
+    favorite: favorite === undefined ? true : favorite !== 0n,
+    notes: message.string(110),
+    chapters: message.messages(16).map(decodeChapter),
+    categories: message.bigints(17).map((order) => Number(order)),
+    tracking: message.messages(18).map(decodeTracking),
+  };
+}
+
+/**
+ * Decodes a BackupCategory message.
+ * @param message - Encoded category.
+ * @returns Category name and order.
+ * @source
+ */
+function decodeCategory(message: ProtoMessage): MihonCategory {
+  return {
+    name: message.string(1) ?? "",
+    order: message.number(2) ?? 0,
+  };
+}
+
+/**
+ * Decodes a Mihon/Tachiyomi backup, decompressing it first if needed.
+ * @param bytes - Backup file contents.
+ * @returns Decoded backup.
+ * @throws {Error} If the data is not a valid backup.
+ * @source
+ */
+export async function decodeMihonBackup(
+  bytes: Uint8Array,
+): Promise<MihonBackup> {
+  const raw = isGzip(bytes) ? await gunzip(bytes) : bytes;
+  const backup = new ProtoMessage(raw);
+
+  const sources = new Map<string, string>();
+  for (const source of backup.messages(101)) {
+    const id = source.bigint(2);
+    if (id !== undefined) sources.set(id.toString(), source.string(1) ?? "");
+  }
+
+  return {
+    manga: backup.messages(1).map(decodeManga),
+    categories: backup.messages(2).map(decodeCategory),
+    sources,
+  };
+}
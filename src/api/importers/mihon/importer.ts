@@ -0,0 +1,189 @@
+/**
+ * @packageDocumentation
+ * @module mihon-importer
+ * @description Library importer for Mihon/Tachiyomi backups, mapping backup entries into Kenmei-shaped manga items.
+ */
+
+import type { KenmeiMangaItem } from "../../../types/kenmei";
+import type { KenmeiStatus } from "../../kenmei/types";
+import { hasExtension } from "../kenmei";
+import type { LibraryImporter } from "../types";
+import { isGzip } from "../gzip";
+import { decodeMihonBackup } from "./backup";
+import type { MihonBackup, MihonManga, MihonTracking } from "./types";
+
+const MIHON_EXTENSIONS = [".tachibk", ".proto.gz"];
+
+/** Tracker sync ID Mihon/Tachiyomi uses for AniList. */
+const ANILIST_SYNC_ID = 2;
+
+/** Publication status code for completed series. */
+const SERIES_COMPLETED = 2;
+
+/**
+ * AniList tracker status codes mapped to Kenmei statuses.
+ * Re-reading (6) counts as reading.
+ * @source
+ */
+const ANILIST_TRACKER_STATUS: Record<number, KenmeiStatus> = {
+  1: "reading",
+  2: "completed",
+  3: "on_hold",
+  4: "dropped",
+  5: "plan_to_read",
+  6: "reading",
+};
+
+/**
+ * Converts a backup timestamp to ISO 8601.
+ * Backups mix millisecond and second precision, so small values are treated as seconds.
+ * @param value - Timestamp from the backup.
+ * @returns ISO date string, or undefined if unset.
+ * @source
+ */
+function toIsoDate(value: number): string | undefined {
+  if (!value || value <= 0) return undefined;
+  const ms = value < 1e11 ? value * 1000 : value;
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Builds an absolute series URL for sources the matcher can resolve.
+ * Backups store source-relative paths, so only known sources can be expanded.
+ * @param manga - Backup manga entry.
+ * @param sourceName - Name of the manga's source, if listed in the backup.
+ * @returns Absolute URL, or undefined if the source is unknown.
+ * @source
+ */
+function toSeriesUrl(
+  manga: MihonManga,
+  sourceName: string | undefined,
+): string | undefined {
+  if (/^https?:\/\//i.test(manga.url)) return manga.url;
+
+  const name = sourceName?.toLowerCase() ?? "";
+  if (name.startsWith("mangadex")) {
+    const uuid = /(?:manga|title)\/([0-9a-f-]{36})/i.exec(manga.url)?.[1];
+    return uuid ? `https://mangadex.org/title/${uuid}` : undefined;
+  }
+  if (name.startsWith("comick")) {
+    const slug = /comic\/([^/?#]+)/i.exec(manga.url)?.[1];
+    return slug ? `https://comick.io/comic/${slug}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Counts read chapters, preferring the highest read chapter number.
+ * @param manga - Backup manga entry.
+ * @param anilistTracking - AniList binding, whose progress wins if it is further along.
+ * @returns Chapters read.
+ * @source
+ */
+function countChaptersRead(
+  manga: MihonManga,
+  anilistTracking: MihonTracking | undefined,
+): number {
+  const read = manga.chapters.filter((chapter) => chapter.read);
+  const highestNumber = Math.max(
+    0,
+    ...read.map((chapter) => chapter.chapterNumber),
+  );
+  const fromChapters = highestNumber > 0 ? highestNumber : read.length;
+  return Math.floor(
+    Math.max(fromChapters, anilistTracking?.lastChapterRead ?? 0),
+  );
+}
+
+/**
+ * Derives a Kenmei status, preferring the AniList tracker's status.
+ * @param manga - Backup manga entry.
+ * @param chaptersRead - Chapters read.
+ * @param anilistTracking - AniList binding, if any.
+ * @returns Kenmei status.
+ * @source
+ */
+function deriveStatus(
+  manga: MihonManga,
+  chaptersRead: number,
+  anilistTracking: MihonTracking | undefined,
+): KenmeiStatus {
+  const trackerStatus =
+    anilistTracking && ANILIST_TRACKER_STATUS[anilistTracking.status];
+  if (trackerStatus) return trackerStatus;
+
+  const allRead =
+    manga.chapters.length > 0 && manga.chapters.every((c) => c.read);
+  if (allRead && manga.status === SERIES_COMPLETED) return "completed";
+  return chaptersRead > 0 ? "reading" : "plan_to_read";
+}
+
+/**
+ * Maps a decoded backup to import items.
+ * Only library (favorited) entries are imported; AniList tracker bindings become `anilistId`.
+ * @param backup - Decoded backup.
+ * @returns Manga items for the import flow.
+ * @source
+ */
+export function mapMihonBackup(backup: MihonBackup): KenmeiMangaItem[] {
+  const categoryNames = new Map(
+    backup.categories.map((category) => [category.order, category.name]),
+  );
+
+  return backup.manga
+    .filter((manga) => manga.favorite && manga.title.trim())
+    .map((manga) => {
+      const anilistTracking = manga.tracking.find(
+        (tracking) => tracking.syncId === ANILIST_SYNC_ID,
+      );
+      const chaptersRead = countChaptersRead(manga, anilistTracking);
+      const categories = manga.categories
+        .map((order) => categoryNames.get(order))
+        .filter((name): name is string => !!name);
+
+      return {
+        title: manga.title.trim(),
+        status: deriveStatus(manga, chaptersRead, anilistTracking),
+        chaptersRead,
+        url: toSeriesUrl(manga, backup.sources.get(manga.source)),
+        source: backup.sources.get(manga.source),
+        notes: manga.notes,
+        createdAt: toIsoDate(manga.dateAdded),
+        updatedAt: toIsoDate(manga.lastModifiedAt || manga.dateAdded),
+        anilistId:
+          anilistTracking && anilistTracking.mediaId > 0
+            ? anilistTracking.mediaId
+            : undefined,
+        categories: categories.length > 0 ? categories : undefined,
+      };
+    });
+}
+
+/**
+ * Mihon/Tachiyomi backup importer (.tachibk and legacy .proto.gz).
+ * @source
+ */
+export const mihonBackupImporter: LibraryImporter = {
+  id: "mihon-backup",
+  label: "Mihon/Tachiyomi backup",
+  extensions: MIHON_EXTENSIONS,
+  maxFileSize: 50 * 1024 * 1024,
+  canImport: (file) =>
+    hasExtension(file, MIHON_EXTENSIONS) ||
+    (isGzip(file.bytes) && !hasExtension(file, [".csv", ".json", ".xml.gz"])),
+  parse: async (file, context) => {
+    context?.onProgress?.(10);
+    const backup = await decodeMihonBackup(file.bytes);
+    context?.onProgress?.(80);
+
+    console.info(
+      `[MihonImporter] 📦 Decoded backup with ${backup.manga.length} entries and ${backup.categories.length} categories`,
+    );
+
+    return {
+      version: "1.0.0",
+      exportedAt: new Date().toISOString(),
+      manga: mapMihonBackup(backup),
+    };
+  },
+};
@@ -0,0 +1,243 @@
+/**
+ * @packageDocumentation
+ * @module mihon-protobuf
+ * @description Minimal protobuf wire-format reader for decoding Mihon/Tachiyomi backups without a generated schema.
+ */
+
+/**
+ * Protobuf wire types used by the backup schema.
+ * @source
+ */
+enum WireType {
+  Varint = 0,
+  Fixed64 = 1,
+  LengthDelimited = 2,
+  Fixed32 = 5,
+}
+
+/**
+ * A single encoded field value.
+ * Varints are kept as bigint so 64-bit IDs survive decoding.
+ * @source
+ */
+type ProtoValue =
+  | { wireType: WireType.Varint; value: bigint }
+  | { wireType: WireType.Fixed64; value: Uint8Array }
+  | { wireType: WireType.LengthDelimited; value: Uint8Array }
+  | { wireType: WireType.Fixed32; value: Uint8Array };
+
+/**
+ * Decoded message: every occurrence of each field number, in order.
+ * @source
+ */
+export class ProtoMessage {
+  private readonly fields = new Map<number, ProtoValue[]>();
+
+  /**
+   * Decodes one message from its encoded bytes.
+   * @param bytes - Encoded message.
+   * @throws {Error} If the message is truncated or uses an unsupported wire type.
+   * @source
+   */
+  constructor(bytes: Uint8Array) {
+    let offset = 0;
+    while (offset < bytes.length) {
+      const [key, keyEnd] = readVarint(bytes, offset);
+      offset = keyEnd;
+      const fieldNumber = Number(key >> 3n);
+      const wireType = Number(key & 7n) as WireType;
+
+      let value: ProtoValue;
+      switch (wireType) {
+        case WireType.Varint: {
+          const [varint, end] = readVarint(bytes, offset);
+          value = { wireType, value: varint };
+          offset = end;
+          break;
+        }
+        case WireType.Fixed64:
+          value = { wireType, value: readBytes(bytes, offset, 8) };
+          offset += 8;
+          break;
+        case WireType.LengthDelimited: {
+          const [length, start] = readVarint(bytes, offset);
+          value = { wireType, value: readBytes(bytes, start, Number(length)) };
+          offset = start + Number(length);
+          break;
+        }
+        case WireType.Fixed32:
+          value = { wireType, value: readBytes(bytes, offset, 4) };
+          offset += 4;
+          break;
+        default:
+          throw new Error(
+            `Unsupported protobuf wire type ${wireType} for field ${fieldNumber}`,
+          );
+      }
+
+      const existing = this.fields.get(fieldNumber);
+      if (existing) existing.push(value);
+      else this.fields.set(fieldNumber, [value]);
+    }
+  }
+
+  /**
+   * Reads a string field (last occurrence wins).
+   * @param field - Field number.
+   * @returns Decoded string, or undefined if absent.
+   * @source
+   */
+  string(field: number): string | undefined {
+    const value = this.last(field);
+    return value?.wireType === WireType.LengthDelimited
+      ? textDecoder.decode(value.value)
+      : undefined;
+  }
+
+  /**
+   * Reads all occurrences of a repeated string field.
+   * @param field - Field number.
+   * @returns Decoded strings.
+   * @source
+   */
+  strings(field: number): string[] {
+    return this.all(field)
+      .filter((value) => value.wireType === WireType.LengthDelimited)
+      .map((value) => textDecoder.decode(value.value));
+  }
+
+  /**
+   * Reads an integer field as bigint (last occurrence wins).
+   * @param field - Field number.
+   * @returns Decoded integer, or undefined if absent.
+   * @source
+   */
+  bigint(field: number): bigint | undefined {
+    const value = this.last(field);
+    return value?.wireType === WireType.Varint ? value.value : undefined;
+  }
+
+  /**
+   * Reads an integer field as a number; use for values that fit in 53 bits.
+   * @param field - Field number.
+   * @returns Decoded integer, or undefined if absent.
+   * @source
+   */
+  number(field: number): number | undefined {
+    const value = this.bigint(field);
+    return value === undefined ? undefined : Number(BigInt.asIntN(64, value));
+  }
+
+  /**
+   * Reads all occurrences of a repeated integer field, packed or unpacked.
+   * @param field - Field number.
+   * @returns Decoded integers as bigint.
+   * @source
+   */
+  bigints(field: number): bigint[] {
+    const result: bigint[] = [];
+    for (const value of this.all(field)) {
+      if (value.wireType === WireType.Varint) {
+        result.push(value.value);
+      } else if (value.wireType === WireType.LengthDelimited) {
+        let offset = 0;
+        while (offset < value.value.length) {
+          const [varint, end] = readVarint(value.value, offset);
+          result.push(varint);
+          offset = end;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Reads a boolean field (last occurrence wins).
+   * @param field - Field number.
+   * @returns Decoded boolean, or false if absent.
+   * @source
+   */
+  bool(field: number): boolean {
+    return (this.bigint(field) ?? 0n) !== 0n;
+  }
+
+  /**
+   * Reads a 32-bit float field (last occurrence wins).
+   * @param field - Field number.
+   * @returns Decoded float, or undefined if absent.
+   * @source
+   */
+  float(field: number): number | undefined {
+    const value = this.last(field);
+    if (value?.wireType !== WireType.Fixed32) return undefined;
+    return new DataView(
+      value.value.buffer,
+      value.value.byteOffset,
+      value.value.byteLength,
+    ).getFloat32(0, true);
+  }
+
+  /**
+   * Decodes all occurrences of a repeated embedded message field.
+   * @param field - Field number.
+   * @returns Decoded messages.
+   * @source
+   */
+  messages(field: number): ProtoMessage[] {
+    return this.all(field)
+      .filter((value) => value.wireType === WireType.LengthDelimited)
+      .map((value) => new ProtoMessage(value.value));
+  }
+
+  private all(field: number): ProtoValue[] {
+    return this.fields.get(field) ?? [];
+  }
+
+  private last(field: number): ProtoValue | undefined {
+    const values = this.all(field);
+    return values.at(-1);
+  }
+}
+
+const textDecoder = new TextDecoder("utf-8");
+
+/**
+ * Reads a base-128 varint.
+ * @param bytes - Buffer to read from.
+ * @param offset - Start offset.
+ * @returns The decoded value and the offset after it.
+ * @throws {Error} If the varint runs past the end of the buffer.
+ * @source
+ */
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  let position = offset;
+  while (position < bytes.length) {
+    const byte = bytes[position++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return [result, position];
+    shift += 7n;
+  }
+  throw new Error("Truncated protobuf varint");
+}
+
+/**
+ * Returns a view of `length` bytes at `offset`.
+ * @param bytes - Buffer to read from.
+ * @param offset - Start offset.
+ * @param length - Number of bytes.
+ * @returns Sub-view of the buffer.
+ * @throws {Error} If the range runs past the end of the buffer.
+ * @source
+ */
+function readBytes(
+  bytes: Uint8Array,
+  offset: number,
+  length: number,
+): Uint8Array {
+  if (offset + length > bytes.length) {
+    throw new Error("Truncated protobuf field");
+  }
+  return bytes.subarray(offset, offset + length);
+}
@@ -0,0 +1,75 @@
+/**
+ * @packageDocumentation
+ * @module mihon-types
+ * @description Types for the subset of the Mihon/Tachiyomi backup schema used by the importer.
+ */
+
+/**
+ * A library category from the backup.
+ * @source
+ */
+export interface MihonCategory {
+  name: string;
+  order: number;
+}
+
+/**
+ * A chapter from the backup.
+ * @property chapterNumber - Parsed chapter number; negative if the source could not parse one.
+ * @source
+ */
+export interface MihonChapter {
+  read: boolean;
+  chapterNumber: number;
+}
+
+/**
+ * A tracker binding from the backup.
+ * @property syncId - Tracker identifier (2 is AniList).
+ * @property mediaId - Media ID on the tracker.
+ * @property status - Tracker-specific status code.
+ * @property lastChapterRead - Last chapter recorded on the tracker.
+ * @source
+ */
+export interface MihonTracking {
+  syncId: number;
+  mediaId: number;
+  status: number;
+  lastChapterRead: number;
+  trackingUrl?: string;
+}
+
+/**
+ * A manga entry from the backup.
+ * @property source - Source ID as a decimal string (64-bit).
+ * @property url - Source-relative or absolute series URL.
+ * @property categories - Category order values the manga belongs to.
+ * @property status - Publication status code (2 is completed).
+ * @property dateAdded - Milliseconds since epoch the manga was added to the library.
+ * @source
+ */
+export interface MihonManga {
+  source: string;
+  url: string;
+  title: string;
+  author?: string;
+  status: number;
+  dateAdded: number;
+  lastModifiedAt: number;
+  favorite: boolean;
+  notes?: string;
+  chapters: MihonChapter[];
+  categories: number[];
+  tracking: MihonTracking[];
+}
+
+/**
+ * A decoded Mihon/Tachiyomi backup.
+ * @property sources - Source names by source ID.
+ * @source
+ */
+export interface MihonBackup {
+  manga: MihonManga[];
+  categories: MihonCategory[];
+  sources: Map<string, string>;
+}
@@ -0,0 +1,76 @@
+/**
+ * @packageDocumentation
+ * @module myanimelist-id-resolution
+ * @description Resolves MyAnimeList manga IDs to AniList IDs in bulk through AniList's idMal field.
+ */
+
+import type { KenmeiManga } from "../../kenmei/types";
+import { getAniListIdsByMalIds } from "../../anilist/client";
+import { captureError, ErrorType } from "../../../utils/error-handling";
+
+/** MAL IDs resolved per AniList request. */
+const MAL_ID_BATCH_SIZE = 25;
+
+/**
+ * Sets `anilistId` on entries whose `malId` has an AniList counterpart.
+ *
+ * Resolves IDs in batches of 25. A failed batch is reported and skipped so the
+ * rest of the import continues; its entries fall back to title matching.
+ *
+ * @param manga - Parsed entries; updated in place.
+ * @param token - Optional AniList access token.
+ * @param onProgress - Optional callback with the fraction (0-1) of batches done.
+ * @returns Number of entries that received an AniList ID.
+ * @source
+ */
+export async function resolveMalIdsToAniList(
+  manga: KenmeiManga[],
+  token?: string,
+  onProgress?: (fraction: number) => void,
+): Promise<number> {
+  const pending = manga.filter((entry) => entry.malId && !entry.anilistId);
+  const malIds = Array.from(new Set(pending.map((entry) => entry.malId!)));
+  if (malIds.length === 0) return 0;
+
+  console.info(
+    `[MALImporter] 🔗 Resolving ${malIds.length} MyAnimeList IDs to AniList IDs...`,
+  );
+
+  const resolved = new Map<number, number>();
+  for (let i = 0; i < malIds.length; i += MAL_ID_BATCH_SIZE) {
+    const batchIds = malIds.slice(i, i + MAL_ID_BATCH_SIZE);
+    try {
+      const batchResults = await getAniListIdsByMalIds(batchIds, token);
+      for (const [malId, anilistId] of batchResults) {
+        resolved.set(malId, anilistId);
+      }
+    } catch (error) {
+      console.error(
+        `[MALImporter] ❌ Error resolving MAL ID batch ${i} to ${i + MAL_ID_BATCH_SIZE}:`,
+        error,
+      );
+      captureError(ErrorType.UNKNOWN, "Failed to resolve MAL ID batch", error, {
+        batchNumber: Math.floor(i / MAL_ID_BATCH_SIZE),
+        batchSize: batchIds.length,
+        totalIds: malIds.length,
+        stage: "mal_id_resolution",
+      });
+      // Continue with next batch even if one fails
+    }
+    onProgress?.(Math.min(1, (i + MAL_ID_BATCH_SIZE) / malIds.length));
+  }
+
+  let resolvedCount = 0;
+  for (const entry of pending) {
+    const anilistId = resolved.get(entry.malId!);
+    if (anilistId) {
+      entry.anilistId = anilistId;
+      resolvedCount++;
+    }
+  }
+
+  console.info(
+    `[MALImporter] ✅ Resolved ${resolvedCount} of ${pending.length} entries to AniList IDs`,
+  );
+  return resolvedCount;
+}
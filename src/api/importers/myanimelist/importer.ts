@@ -0,0 +1,47 @@
+/**
+ * @packageDocumentation
+ * @module myanimelist-importer
+ * @description Library importer for MyAnimeList XML manga list exports (.xml and gzip-compressed .xml.gz).
+ */
+
+import { decodeText, hasExtension, toMangaItem } from "../kenmei";
+import { gunzip, isGzip } from "../gzip";
+import type { LibraryImporter } from "../types";
+import { resolveMalIdsToAniList } from "./id-resolution";
+import { parseMalXmlExport } from "./parser";
+
+const MAL_EXTENSIONS = [".xml", ".xml.gz"];
+
+/**
+ * MyAnimeList XML export importer.
+ * MAL IDs are resolved to AniList IDs after parsing so entries can be matched by ID.
+ * @source
+ */
+export const malXmlImporter: LibraryImporter = {
+  id: "mal-xml",
+  label: "MyAnimeList XML export",
+  extensions: MAL_EXTENSIONS,
+  maxFileSize: 20 * 1024 * 1024,
+  canImport: (file) =>
+    hasExtension(file, MAL_EXTENSIONS) ||
+    decodeText({ ...file, bytes: file.bytes.subarray(0, 512) }).includes(
+      "<myanimelist",
+    ),
+  parse: async (file, context) => {
+    const bytes = isGzip(file.bytes) ? await gunzip(file.bytes) : file.bytes;
+    const parsed = parseMalXmlExport(decodeText({ ...file, bytes }), {
+      defaultStatus: "plan_to_read",
+    });
+    context?.onProgress?.(30);
+
+    await resolveMalIdsToAniList(parsed.manga, undefined, (fraction) =>
+      context?.onProgress?.(30 + fraction * 60),
+    );
+
+    return {
+      version: "1.0.0",
+      exportedAt: parsed.exportDate,
+      manga: parsed.manga.map(toMangaItem),
+    };
+  },
+};
@@ -0,0 +1,154 @@
+/**
+ * @packageDocumentation
+ * @module myanimelist-parser
+ * @description Parser for MyAnimeList XML manga list exports, producing the same KenmeiExport shape as parseKenmeiExport.
+ */
+
+import {
+  DEFAULT_PARSE_OPTIONS,
+  type KenmeiExport,
+  type KenmeiManga,
+  type KenmeiParseOptions,
+  type KenmeiStatus,
+} from "../../kenmei/types";
+import { normalizeKenmeiManga } from "../../kenmei/parser";
+
+/**
+ * MyAnimeList status values mapped to Kenmei statuses.
+ * Keys are lower-case status strings, plus the numeric codes older exports use.
+ * @source
+ */
+export const MAL_STATUS_MAPPING: Record<string, KenmeiStatus> = {
+  reading: "reading",
+  completed: "completed",
+  "on-hold": "on_hold",
+  dropped: "dropped",
+  "plan to read": "plan_to_read",
+  "1": "reading",
+  "2": "completed",
+  "3": "on_hold",
+  "4": "dropped",
+  "6": "plan_to_read",
+};
+
+/**
+ * Reads the trimmed text of a child element.
+ * @param parent - Parent element.
+ * @param tag - Child tag name.
+ * @returns Text content, or undefined if missing or empty.
+ * @source
+ */
+function childText(parent: Element, tag: string): string | undefined {
+  const text = parent.getElementsByTagName(tag)[0]?.textContent?.trim();
+  return text || undefined;
+}
+
+/**
+ * Reads a non-negative integer child element.
+ * @param parent - Parent element.
+ * @param tag - Child tag name.
+ * @returns Parsed integer, or undefined if missing or invalid.
+ * @source
+ */
+function childInt(parent: Element, tag: string): number | undefined {
+  const value = Number.parseInt(childText(parent, tag) ?? "", 10);
+  return Number.isNaN(value) || value < 0 ? undefined : value;
+}
+
+/**
+ * Converts a MAL date (YYYY-MM-DD, zeros when unset) to ISO 8601.
+ * @param value - Date string from the export.
+ * @returns ISO date string, or undefined if unset.
+ * @source
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value || value.startsWith("0000")) return undefined;
+  const date = new Date(value.replaceAll("-00", "-01"));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Maps one `<manga>` element to a KenmeiManga entry.
+ * @param element - Manga element.
+ * @param index - Position in the export, used as the entry ID.
+ * @param defaultStatus - Status for unrecognised values.
+ * @returns Normalized manga entry.
+ * @source
+ */
+function mapMalManga(
+  element: Element,
+  index: number,
+  defaultStatus: KenmeiStatus,
+): KenmeiManga {
+  const malId = childInt(element, "manga_mangadb_id");
+  const rawStatus = childText(element, "my_status")?.toLowerCase();
+  const isRereading =
+    childText(element, "my_rereading")?.toUpperCase() === "YES";
+  const startDate = toIsoDate(childText(element, "my_start_date"));
+  const finishDate = toIsoDate(childText(element, "my_finish_date"));
+
+  return normalizeKenmeiManga(
+    {
+      id: index + 1,
+      title: childText(element, "manga_title"),
+      status: isRereading
+        ? "reading"
+        : (rawStatus && MAL_STATUS_MAPPING[rawStatus]) || defaultStatus,
+      score: childInt(element, "my_score") ?? 0,
+      url: malId ? `https://myanimelist.net/manga/${malId}` : "",
+      chaptersRead: childInt(element, "my_read_chapters") ?? 0,
+      totalChapters: childInt(element, "manga_chapters") || undefined,
+      volumesRead: childInt(element, "my_read_volumes"),
+      totalVolumes: childInt(element, "manga_volumes") || undefined,
+      notes: childText(element, "my_comments"),
+      createdAt: startDate,
+      updatedAt: finishDate ?? startDate,
+      malId,
+    },
+    { defaultStatus },
+  );
+}
+
+/**
+ * Parse a MyAnimeList XML manga list export.
+ * @param xmlContent - Raw XML export content.
+ * @param options - Parsing configuration.
+ * @returns Parsed export in the Kenmei shape, with `malId` set on each entry.
+ * @throws {Error} If the XML is malformed or is not a MyAnimeList export.
+ * @source
+ */
+export function parseMalXmlExport(
+  xmlContent: string,
+  options: Partial<KenmeiParseOptions> = {},
+): KenmeiExport {
+  const parseOptions = { ...DEFAULT_PARSE_OPTIONS, ...options };
+  const doc = new DOMParser().parseFromString(xmlContent, "application/xml");
+
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid XML format in MyAnimeList export");
+  }
+  const root = doc.documentElement;
+  if (root?.tagName !== "myanimelist") {
+    throw new Error("Invalid MyAnimeList export: missing <myanimelist> root");
+  }
+
+  const myInfo = root.getElementsByTagName("myinfo")[0];
+  const manga = Array.from(root.getElementsByTagName("manga"))
+    .filter((element) => childText(element, "manga_title"))
+    .map((element, index) =>
+      mapMalManga(element, index, parseOptions.defaultStatus),
+    );
+
+  console.info(
+    `[MALParser] ✅ Parsed ${manga.length} manga from MyAnimeList export`,
+  );
+
+  return {
+    exportDate: new Date().toISOString(),
+    user: {
+      username: (myInfo && childText(myInfo, "user_name")) ?? "",
+      id: (myInfo && childInt(myInfo, "user_id")) ?? 0,
+    },
+    manga,
+  };
+}
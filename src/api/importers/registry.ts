@@ -0,0 +1,85 @@
+/**
+ * @packageDocumentation
+ * @module importer-registry
+ * @description Registry of library importers with automatic format detection.
+ */
+
+import { kenmeiCsvImporter, kenmeiJsonImporter } from "./kenmei";
+import { mangaUpdatesImporter } from "./mangaupdates/importer";
+import { mihonBackupImporter } from "./mihon/importer";
+import { malXmlImporter } from "./myanimelist/importer";
+import type { ImporterId, ImportSourceFile, LibraryImporter } from "./types";
+
+/**
+ * Registry for library importers.
+ * Importers are checked in registration order; the first whose `canImport` accepts a file handles it.
+ * @source
+ */
+class LibraryImporterRegistry {
+  private readonly importers = new Map<ImporterId, LibraryImporter>();
+
+  /**
+   * Register a library importer, replacing any importer with the same ID.
+   * @param importer - Importer to register.
+   * @source
+   */
+  public register(importer: LibraryImporter): void {
+    this.importers.set(importer.id, importer);
+  }
+
+  /**
+   * Get a registered importer by ID.
+   * @param id - Importer identifier.
+   * @returns The importer, or null if not registered.
+   * @source
+   */
+  public get(id: ImporterId): LibraryImporter | null {
+    return this.importers.get(id) ?? null;
+  }
+
+  /**
+   * Get all registered importers in registration order.
+   * @returns Registered importers.
+   * @source
+   */
+  public getAll(): LibraryImporter[] {
+    return Array.from(this.importers.values());
+  }
+
+  /**
+   * Get every file extension accepted by a registered importer.
+   * @returns Extensions with leading dot, suitable for a file input `accept` attribute.
+   * @source
+   */
+  public getAcceptedExtensions(): string[] {
+    return Array.from(new Set(this.getAll().flatMap((i) => i.extensions)));
+  }
+
+  /**
+   * Detect which importer handles a file.
+   * @param file - File to inspect.
+   * @returns The matching importer, or null if no importer recognises the file.
+   * @source
+   */
+  public detect(file: ImportSourceFile): LibraryImporter | null {
+    return this.getAll().find((importer) => importer.canImport(file)) ?? null;
+  }
+}
+
+/**
+ * Singleton registry with the built-in importers registered.
+ * @source
+ */
+export const libraryImporterRegistry = new LibraryImporterRegistry();
+// Content-sniffing importers go first; Kenmei importers accept any file with their extension
+libraryImporterRegistry.register(mangaUpdatesImporter);
+libraryImporterRegistry.register(malXmlImporter);
+libraryImporterRegistry.register(kenmeiCsvImporter);
+libraryImporterRegistry.register(kenmeiJsonImporter);
+libraryImporterRegistry.register(mihonBackupImporter);
+
+/**
+ * LibraryImporterRegistry class export for custom registry instances.
+ * @source
+ */
+export { LibraryImporterRegistry };
@@ -0,0 +1,65 @@
+/**
+ * @packageDocumentation
+ * @module importers-types
+ * @description Types for the pluggable library importer layer that turns tracker exports into Kenmei-shaped data.
+ */
+
+import type { KenmeiData } from "../../types/kenmei";
+
+/**
+ * Identifiers of the built-in library importers.
+ * @source
+ */
+export type ImporterId =
+  | "kenmei-csv"
+  | "kenmei-json"
+  | "mihon-backup"
+  | "mal-xml"
+  | "mangaupdates";
+
+/**
+ * A file offered to the importer layer.
+ * @property name - Original file name, used for extension checks.
+ * @property size - File size in bytes.
+ * @property bytes - Raw file contents.
+ * @source
+ */
+export interface ImportSourceFile {
+  name: string;
+  size: number;
+  bytes: Uint8Array;
+}
+
+/**
+ * Hooks an importer can use to report progress and expose cancellation.
+ * @property onProgress - Called with a 0-100 progress value.
+ * @property onCancellable - Called with a function that cancels the running parse.
+ * @source
+ */
+export interface ImportParseContext {
+  onProgress?: (percent: number) => void;
+  onCancellable?: (cancel: () => void) => void;
+}
+
+/**
+ * A library importer for one export format.
+ * Importers map their format into KenmeiData so the rest of the import flow stays format-agnostic.
+ * @property id - Stable importer identifier.
+ * @property label - Human-readable format name.
+ * @property extensions - Lower-case file extensions (with leading dot) the importer handles.
+ * @property maxFileSize - Largest accepted file in bytes.
+ * @property canImport - Returns true if the file looks like this importer's format.
+ * @property parse - Parses the file into Kenmei-shaped data.
+ * @source
+ */
+export interface LibraryImporter {
+  id: ImporterId;
+  label: string;
+  extensions: string[];
+  maxFileSize: number;
+  canImport: (file: ImportSourceFile) => boolean;
+  parse: (
+    file: ImportSourceFile,
+    context?: ImportParseContext,
+  ) => Promise<KenmeiData>;
+}
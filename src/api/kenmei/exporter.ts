@@ -0,0 +1,205 @@
+/**
+ * @packageDocumentation
+ * @module kenmei-exporter
+ * @description Reverse mapping from an AniList manga list to Kenmei export data, producing CSV rows and JSON that the Kenmei parser can read back.
+ */
+
+import { KenmeiExport, KenmeiManga, StatusMappingConfig } from "./types";
+import { mapAniListToKenmeiStatus } from "./status-mapper";
+import { aniListScoreToKenmei } from "../anilist/score-format";
+import type {
+  ScoreFormat,
+  UserMediaEntry,
+  UserMediaList,
+} from "../anilist/types";
+
+/**
+ * Output formats supported by the Kenmei exporter.
+ * @source
+ */
+export type KenmeiExportFileFormat = "csv" | "json";
+
+/**
+ * Options controlling how AniList entries are converted to Kenmei entries.
+ * @property scoreFormat - The viewer's AniList score format, used to convert scores to Kenmei's 10-point scale.
+ * @property statusMapping - Optional custom Kenmei-to-AniList status mapping to reverse.
+ * @property username - AniList username recorded in the export header.
+ * @property userId - AniList user ID recorded in the export header.
+ * @source
+ */
+export interface KenmeiExportOptions {
+  scoreFormat: ScoreFormat;
+  statusMapping?: Partial<StatusMappingConfig>;
+  username?: string;
+  userId?: number;
+}
+
+/**
+ * CSV column order for Kenmei exports.
+ * Every column name is one that parseKenmeiCsvExport recognises.
+ * @source
+ */
+export const KENMEI_CSV_COLUMNS = [
+  "title",
+  "status",
+  "score",
+  "series_url",
+  "last_chapter_read",
+  "last_volume_read",
+  "total_chapters",
+  "total_volumes",
+  "notes",
+  "cover_url",
+  "alternative_titles",
+  "last_read_at",
+  "created_at",
+  "updated_at",
+] as const;
+
+/**
+ * A single CSV row keyed by Kenmei column name.
+ * @source
+ */
+export type KenmeiCsvRow = Record<(typeof KENMEI_CSV_COLUMNS)[number], string>;
+
+/**
+ * Builds the AniList URL for a manga.
+ * @param mediaId - AniList media ID.
+ * @returns Public AniList manga URL.
+ * @source
+ */
+function buildAniListUrl(mediaId: number): string {
+  return `https://anilist.co/manga/${mediaId}`;
+}
+
+/**
+ * Converts an AniList unix timestamp (seconds) to an ISO string.
+ * @param timestamp - Unix timestamp in seconds.
+ * @returns ISO 8601 string, or undefined if the timestamp is missing or zero.
+ * @source
+ */
+function timestampToIso(timestamp: number | undefined): string | undefined {
+  if (!timestamp) return undefined;
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Picks the primary title and the remaining alternative titles for an entry.
+ * English is preferred, matching how Kenmei usually names series.
+ * @param entry - AniList user media entry.
+ * @returns Primary title and de-duplicated alternative titles.
+ * @source
+ */
+function resolveTitles(entry: UserMediaEntry): {
+  title: string;
+  alternativeTitles: string[];
+} {
+  const title = entry.title.english || entry.title.romaji;
+  const candidates = [
+    entry.title.romaji,
+    entry.title.english,
+    entry.title.native,
+    ...(entry.media?.synonyms ?? []),
+  ];
+
+  const seen = new Set([title.toLowerCase()]);
+  const alternativeTitles: string[] = [];
+  for (const candidate of candidates) {
+    const trimmed = candidate?.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    alternativeTitles.push(trimmed);
+  }
+
+  return { title, alternativeTitles };
+}
+
+/**
+ * Converts an AniList list entry into a Kenmei manga entry.
+ * @param entry - AniList user media entry.
+ * @param options - Conversion options.
+ * @returns Kenmei manga entry carrying the AniList media ID for direct matching.
+ * @source
+ */
+export function mapAniListEntryToKenmeiManga(
+  entry: UserMediaEntry,
+  options: KenmeiExportOptions,
+): KenmeiManga {
+  const { title, alternativeTitles } = resolveTitles(entry);
+  const now = new Date().toISOString();
+  const updatedAt = timestampToIso(entry.updatedAt);
+
+  return {
+    id: entry.id,
+    title,
+    status: mapAniListToKenmeiStatus(entry.status, options.statusMapping),
+    score: aniListScoreToKenmei(entry.score, options.scoreFormat),
+    url: buildAniListUrl(entry.mediaId),
+    coverUrl: entry.media?.coverImage?.large,
+    chaptersRead: entry.progress || 0,
+    totalChapters: entry.media?.chapters ?? undefined,
+    volumesRead: entry.progressVolumes ?? undefined,
+    totalVolumes: entry.media?.volumes ?? undefined,
+    notes: entry.notes ?? undefined,
+    lastReadAt: updatedAt,
+    createdAt: timestampToIso(entry.createdAt) ?? updatedAt ?? now,
+    updatedAt: updatedAt ?? now,
+    alternativeTitles: alternativeTitles.length ? alternativeTitles : undefined,
+    anilistId: entry.mediaId,
+  };
+}
+
+/**
+ * Builds a Kenmei export object from the user's AniList manga list.
+ * Entries are sorted by title so repeated exports diff cleanly.
+ * @param library - AniList manga list keyed by media ID.
+ * @param options - Conversion options.
+ * @returns Kenmei export data that parseKenmeiExport accepts.
+ * @source
+ */
+export function buildKenmeiExport(
+  library: UserMediaList,
+  options: KenmeiExportOptions,
+): KenmeiExport {
+  const manga = Object.values(library)
+    .map((entry) => mapAniListEntryToKenmeiManga(entry, options))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return {
+    exportDate: new Date().toISOString(),
+    user: {
+      username: options.username ?? "AniList User",
+      id: options.userId ?? 0,
+    },
+    manga,
+  };
+}
+
+/**
+ * Converts a Kenmei manga entry into a CSV row using Kenmei column names.
+ * Alternative titles are joined with ";" as the CSV parser expects.
+ * @param manga - Kenmei manga entry.
+ * @returns CSV row keyed by column name.
+ * @source
+ */
+export function toKenmeiCsvRow(manga: KenmeiManga): KenmeiCsvRow {
+  const optional = (value: string | number | undefined) =>
+    value === undefined ? "" : String(value);
+
+  return {
+    title: manga.title,
+    status: manga.status,
+    score: manga.score > 0 ? String(manga.score) : "",
+    series_url: manga.url,
+    last_chapter_read: String(manga.chaptersRead),
+    last_volume_read: optional(manga.volumesRead),
+    total_chapters: optional(manga.totalChapters),
+    total_volumes: optional(manga.totalVolumes),
+    notes: manga.notes ?? "",
+    cover_url: manga.coverUrl ?? "",
+    alternative_titles: manga.alternativeTitles?.join(";") ?? "",
+    last_read_at: manga.lastReadAt ?? "",
+    created_at: manga.createdAt,
+    updated_at: manga.updatedAt,
+  };
+}
@@ -503,9 +503,6 @@ function parseIntSafe(value: string | undefined): number | undefined {
   return Number.isNaN(parsed) ? undefined : parsed;
 }
 
-/**
- * Find a value using flexible column mappings
- */
 /**
  * Find a value from an entry using multiple possible column name mappings.
  * @param entry - Object mapping field names to cell values.
@@ -515,12 +512,47 @@ function parseIntSafe(value: string | undefined): number | undefined {
  */
 function findValue(
   entry: Record<string, string>,
-  mappings: string[],
+  mappings: readonly string[],
 ): string | undefined {
   const key = mappings.find((m) => entry[m] !== undefined);
   return key ? entry[key] : undefined;
 }
 
+/**
+ * Lower-case CSV header names recognized for each Kenmei field, in priority order.
+ * Used by the CSV parser and to pre-fill the column-mapping wizard.
+ * @source
+ */
+export const KENMEI_CSV_COLUMN_ALIASES = {
+  title: ["title"],
+  chaptersRead: [
+    "last_chapter_read",
+    "chapters_read",
+    "chapter",
+    "current_chapter",
+  ],
+  volumesRead: ["last_volume_read", "volumes_read", "volume", "current_volume"],
+  status: ["status", "reading_status"],
+  score: ["score", "rating"],
+  url: ["series_url", "url", "link"],
+  notes: ["notes", "comments"],
+  date: ["last_read_at", "updated_at", "date"],
+  lastReadAt: [
+    "last_read_at",
+    "last read at",
+    "lastreadat",
+    "last_read",
+    "date_last_read",
+  ],
+  coverUrl: ["cover_url"],
+  totalChapters: ["total_chapters"],
+  totalVolumes: ["total_volumes"],
+  createdAt: ["created_at"],
+  updatedAt: ["updated_at"],
+  author: ["author"],
+  alternativeTitles: ["alternative_titles"],
+} as const;
+
 /**
  * Extract field values from a CSV entry using flexible column name mappings.
  * @param entry - Object mapping field names to cell values.
@@ -528,36 +560,15 @@ function findValue(
  * @source
  */
 function extractFieldValues(entry: Record<string, string>) {
-  const columnMappings = {
-    chapter: [
-      "last_chapter_read",
-      "chapters_read",
-      "chapter",
-      "current_chapter",
-    ],
-    volume: ["last_volume_read", "volumes_read", "volume", "current_volume"],
-    status: ["status", "reading_status"],
-    score: ["score", "rating"],
-    url: ["series_url", "url", "link"],
-    notes: ["notes", "comments"],
-    date: ["last_read_at", "updated_at", "date"],
-  };
-
   return {
-    chapterValue: findValue(entry, columnMappings.chapter),
-    volumeValue: findValue(entry, columnMappings.volume),
-    statusValue: findValue(entry, columnMappings.status),
-    scoreValue: findValue(entry, columnMappings.score),
-    urlValue: findValue(entry, columnMappings.url),
-    notesValue: findValue(entry, columnMappings.notes),
-    dateValue: findValue(entry, columnMappings.date),
-    lastReadAt: findValue(entry, [
-      "last_read_at",
-      "last read at",
-      "lastreadat",
-      "last_read",
-      "date_last_read",
-    ]),
+    chapterValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.chaptersRead),
+    volumeValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.volumesRead),
+    statusValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.status),
+    scoreValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.score),
+    urlValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.url),
+    notesValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.notes),
+    dateValue: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.date),
+    lastReadAt: findValue(entry, KENMEI_CSV_COLUMN_ALIASES.lastReadAt),
   };
 }
 
@@ -850,7 +861,7 @@ function handleCSVCharacter(
  * @returns Array of arrays where each inner array contains row cell values.
  * @source
  */
-function parseCSVRows(csvContent: string): string[][] {
+export function parseCSVRows(csvContent: string): string[][] {
   return withGroup(`[KenmeiParser] Parse CSV Rows`, () => {
     // Initialize state object directly
     const state = {
@@ -915,9 +926,16 @@ function validateStatus(
   status: string | undefined,
   defaultStatus: KenmeiStatus = "reading",
 ): KenmeiStatus {
-  // Handle undefined or empty status
-  if (!status) return defaultStatus;
+  return (status && matchKenmeiStatus(status)) || defaultStatus;
+}
 
+/**
+ * Match a status string to a KenmeiStatus, handling common variations ("Paused", "Finished", "Plan to read", ...).
+ * @param status - Input status string.
+ * @returns Matched KenmeiStatus, or undefined if the string is not recognized.
+ * @source
+ */
+export function matchKenmeiStatus(status: string): KenmeiStatus | undefined {
   const normalized = status.trim().toLowerCase().replaceAll(" ", "_");
   const valid = new Set<KenmeiStatus>([
     "reading",
@@ -942,7 +960,7 @@ function validateStatus(
     case "current":
       return "reading";
     default:
-      return defaultStatus;
+      return undefined;
   }
 }
 
@@ -1000,6 +1018,7 @@ export function normalizeKenmeiManga(
     author: entry.author,
     alternativeTitles: entry.alternativeTitles,
     anilistId: entry.anilistId,
+    malId: entry.malId,
   };
 }
 
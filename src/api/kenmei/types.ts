@@ -39,6 +39,7 @@ export interface KenmeiManga {
   author?: string;
   alternativeTitles?: string[];
   anilistId?: number; // Optional AniList ID for direct matching
+  malId?: number; // Optional MyAnimeList ID, resolved to anilistId on import
 }
 
 /**
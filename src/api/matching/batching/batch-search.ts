@@ -20,6 +20,7 @@ import { executeComickFallback, executeMangaDexFallback } from "../sources";
 import type { SearchServiceConfig as OrchestratorSearchServiceConfig } from "../orchestration/types";
 import { performExtraSearches } from "../orchestration/search-orchestrator";
 import { filterOutBlacklistedManga } from "../filtering/blacklist";
+import { attachCandidateRelations } from "../orchestration/relations";
 
 /**
  * Batch size for parallel manga searches (10 = AniList 30 req/min official limit; tuned to safe parallelism)
@@ -393,6 +394,34 @@ type BatchProcessingContext = {
   hasMoreBatches: boolean;
 };
 
+/**
+ * Attach series relations to the top candidates of every item in a batch.
+ * @param batch - Items with manga and indices.
+ * @param context - Processing context with token, abort signal and storage.
+ * @returns Number of relation requests made.
+ * @source
+ */
+async function attachBatchRelations(
+  batch: BatchItem[],
+  context: Pick<BatchProcessingContext, "token" | "abortSignal" | "storage">,
+): Promise<number> {
+  const { token, abortSignal, storage } = context;
+  const indices = batch
+    .map(({ index }) => index)
+    .filter((index) => storage.cachedResults[index]?.length > 0);
+
+  const { resultLists, requestCount } = await attachCandidateRelations(
+    indices.map((index) => storage.cachedResults[index]),
+    token,
+    abortSignal,
+  );
+  for (const [position, index] of indices.entries()) {
+    storage.cachedResults[index] = resultLists[position];
+  }
+
+  return requestCount;
+}
+
 /**
  * Process single batch via batched GraphQL queries with fallback support.
  * @param batch - Items with manga and indices.
@@ -470,14 +499,17 @@ async function processBatch(
           updateProgress,
         });
 
+        const relationRequests = await attachBatchRelations(batch, context);
+
         console.info(
           `[MangaSearchService] ✅ Batch ${batchNumber}/${totalBatches} processed`,
         );
         console.debug(fallbackCandidates);
 
         if (hasMoreBatches) {
-          // Track requests in this batch: 1 main batched query + fallback searches
-          const requestsInBatch = 1 + fallbackCandidates.length;
+          // Track requests in this batch: 1 main batched query + fallback searches + relations
+          const requestsInBatch =
+            1 + fallbackCandidates.length + relationRequests;
 
           // Calculate adaptive delay based on request count and rate limit budget
           const delayMs = calculateAdaptiveBatchDelay(requestsInBatch);
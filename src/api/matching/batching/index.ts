@@ -3,6 +3,7 @@
  *
  * Exports batch processing functionality for manga matching:
  * - Categorization: Separate manga into cached/known/uncached
+ * - URL resolution: Resolve series URLs to AniList IDs via source sites
  * - Known IDs: Efficiently fetch manga with known AniList IDs
  * - Uncached: Search uncached manga with concurrency control
  * - Results: Compile and filter final match results
@@ -23,11 +24,23 @@ export type {
   BatchCategorizationResult,
   ComickSourceStorage,
   MangaDexSourceStorage,
+  ParsedSourceUrl,
+  UrlResolvedManga,
+  UrlResolutionData,
 } from "./types";
 
 // Categorization
 export { categorizeMangaForBatching } from "./categorization";
 
+// Series URL resolution
+export {
+  URL_RESOLVED_CONFIDENCE,
+  parseSourceUrl,
+  resolveMangaSourceUrls,
+  recordUrlResolvedSources,
+  applyUrlResolvedConfidence,
+} from "./url-resolution";
+
 // Known IDs processing
 export { processKnownMangaIds } from "./known-ids";
 
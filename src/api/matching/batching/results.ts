@@ -11,16 +11,17 @@ import type {
   MangaDexSourceStorage,
 } from "./types";
 import type { CustomRule, MatchConfig } from "@/utils/storage";
-import { calculateConfidence } from "../scoring";
+import { calculateConfidenceBreakdown } from "../scoring";
 import { getSourceInfo } from "../sources";
+import { applyRelationPreference } from "../orchestration/ranking";
 import { getMatchConfig, getSavedMatchResults } from "@/utils/storage";
 import {
   shouldAcceptByCustomRules,
-  ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT,
-  ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR,
+  applyAcceptRuleConfidenceFloor,
 } from "../filtering/custom-rules";
 import { applySystemContentFilters } from "../filtering/system-filters";
 import { filterOutBlacklistedManga } from "../filtering/blacklist";
+import { applyUrlResolvedConfidence } from "./url-resolution";
 
 /**
  * Filter matches based on configuration rules (one-shots, adult content, custom rules).
@@ -134,39 +135,47 @@ export function createMangaMatchResult(
       mangaDexSourceMap,
     );
 
-    let confidence = calculateConfidence(manga.title, match);
+    let { confidence, breakdown: scoreBreakdown } =
+      calculateConfidenceBreakdown(manga.title, match);
 
     // Apply confidence floor boost if accept rule matched
     if (match.matchedAcceptRule) {
       const isExactMatch =
         manga.title.toLowerCase() === match.title?.romaji?.toLowerCase() ||
         manga.title.toLowerCase() === match.title?.english?.toLowerCase();
-      const minConfidence = isExactMatch
-        ? ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT
-        : ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR;
+      const boosted = applyAcceptRuleConfidenceFloor(
+        confidence,
+        isExactMatch,
+        scoreBreakdown,
+        match.matchedAcceptRule.description,
+      );
 
-      if (confidence < minConfidence) {
+      if (boosted.confidence !== confidence) {
         console.debug(
-          `[MangaSearchService] ⭐ Boosting confidence from ${(confidence * 100).toFixed(0)}% to ${(minConfidence * 100).toFixed(0)}% for "${match.title?.romaji || match.title?.english}" (accept rule match)`,
+          `[MangaSearchService] ⭐ Boosting confidence from ${confidence}% to ${boosted.confidence}% for "${match.title?.romaji || match.title?.english}" (accept rule match)`,
         );
-        confidence = minConfidence;
+        confidence = boosted.confidence;
+        scoreBreakdown = boosted.scoreBreakdown ?? scoreBreakdown;
       }
     }
 
     return {
       manga: match,
       confidence,
+      scoreBreakdown,
       comickSource: comickSourceMap.get(match.id),
       mangaDexSource: mangaDexSourceMap.get(match.id),
       sourceInfo,
     };
   });
 
+  const rankedMatches = applyRelationPreference(normalizedMatches, manga.title);
+
   return {
     kenmeiManga: manga,
-    anilistMatches: normalizedMatches,
+    anilistMatches: rankedMatches,
     selectedMatch:
-      normalizedMatches.length > 0 ? normalizedMatches[0].manga : undefined,
+      rankedMatches.length > 0 ? rankedMatches[0].manga : undefined,
     status: "pending",
   };
 }
@@ -286,17 +295,19 @@ function applyAcceptRuleConfidenceBoost(
       const isExactMatch =
         normalizedTitle === match.manga?.title?.romaji?.toLowerCase() ||
         normalizedTitle === match.manga?.title?.english?.toLowerCase();
-      const minConfidence = isExactMatch
-        ? ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT
-        : ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR;
+      const boosted = applyAcceptRuleConfidenceFloor(
+        match.confidence,
+        isExactMatch,
+        match.scoreBreakdown,
+      );
 
-      if (match.confidence < minConfidence) {
+      if (boosted.confidence !== match.confidence) {
         console.debug(
-          `[ProcessWithWorkers] ⭐ Boosting confidence from ${(match.confidence * 100).toFixed(0)}% to ${(minConfidence * 100).toFixed(0)}% for "${match.manga?.title?.romaji || match.manga?.title?.english}" (accept rule match)`,
+          `[ProcessWithWorkers] ⭐ Boosting confidence from ${match.confidence}% to ${boosted.confidence}% for "${match.manga?.title?.romaji || match.manga?.title?.english}" (accept rule match)`,
         );
         return {
           ...match,
-          confidence: minConfidence,
+          ...boosted,
         };
       }
     }
@@ -407,6 +418,7 @@ async function processWithWorkers(
  * Compile final match results from cached data with confidence scores.
  *
  * Applies filtering, creates match results with confidence scores, and includes source info.
+ * Matches resolved from a series URL are raised to high confidence.
  *
  * @param mangaList - Full list of Kenmei manga.
  * @param cachedResults - Cached/fetched AniList matches by index.
@@ -467,6 +479,7 @@ export async function compileMatchResults(
     cachedComickSources,
     cachedMangaDexSources,
     cachedFallbackIndices,
+    cachedUrlResolvedIds,
   } = storage;
   const fallbackIndices = cachedFallbackIndices;
 
@@ -505,7 +518,10 @@ export async function compileMatchResults(
     );
 
     if (workerResults) {
-      return workerResults.filter((result) => result !== null);
+      return applyUrlResolvedConfidence(
+        workerResults,
+        cachedUrlResolvedIds,
+      ).filter((result) => result !== null);
     }
     // Fall through to synchronous processing if workers failed
   }
@@ -550,7 +566,9 @@ export async function compileMatchResults(
   }
 
   // Filter out any null entries (though there shouldn't be any)
-  return results.filter((result) => result !== null);
+  return applyUrlResolvedConfidence(results, cachedUrlResolvedIds).filter(
+    (result) => result !== null,
+  );
 }
 
 /**
@@ -603,10 +621,13 @@ export function handleCancellationResults(
   for (let i = 0; i < mangaList.length; i++) {
     if (cachedResults[i]) {
       const manga = mangaList[i];
-      const potentialMatches = cachedResults[i].map((anilistManga) => ({
-        manga: anilistManga,
-        confidence: calculateConfidence(manga.title, anilistManga),
-      }));
+      const potentialMatches = cachedResults[i].map((anilistManga) => {
+        const { confidence, breakdown } = calculateConfidenceBreakdown(
+          manga.title,
+          anilistManga,
+        );
+        return { manga: anilistManga, confidence, scoreBreakdown: breakdown };
+      });
 
       const newResult: MangaMatchResult = {
         kenmeiManga: manga,
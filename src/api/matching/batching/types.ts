@@ -5,6 +5,7 @@
 
 import type { AniListManga } from "@/api/anilist/types";
 import type { KenmeiManga } from "@/api/kenmei/types";
+import type { MangaSource } from "@/api/manga-sources/types";
 import type { SearchServiceConfig as OrchestratorSearchServiceConfig } from "../orchestration/types";
 
 /**
@@ -54,6 +55,8 @@ export interface CachedResultsStorage {
   cachedMangaDexSources: MangaDexSourceStorage;
   /** Tracks manga indices whose results came from fallback sources. */
   cachedFallbackIndices: Set<number>;
+  /** AniList IDs resolved from series URLs, keyed by manga position. */
+  cachedUrlResolvedIds: Map<number, number>;
 }
 
 /**
@@ -164,3 +167,38 @@ export interface BatchCategorizationResult {
   /** Manga with known IDs for batch fetch. */
   knownMangaIds: { index: number; id: number }[];
 }
+
+/**
+ * Source site and identifier parsed from a Kenmei series URL.
+ * @source
+ */
+export interface ParsedSourceUrl {
+  /** Source site the URL points to. */
+  source: MangaSource;
+  /** Identifier the source client expects (MangaDex UUID or Comick slug). */
+  slug: string;
+}
+
+/**
+ * Manga whose series URL resolved to an AniList ID through its source site.
+ * @source
+ */
+export interface UrlResolvedManga extends ParsedSourceUrl {
+  /** Index of the manga in the batch. */
+  index: number;
+  /** AniList ID linked from the source site. */
+  id: number;
+  /** Title of the series on the source site. */
+  title: string;
+}
+
+/**
+ * Data structure for resolving series URLs to AniList IDs.
+ * @source
+ */
+export interface UrlResolutionData {
+  /** Uncached manga; resolved entries are removed from this list. */
+  uncachedManga: { index: number; manga: KenmeiManga }[];
+  /** Known IDs; resolved entries are appended to this list. */
+  knownMangaIds: { index: number; id: number }[];
+}
@@ -0,0 +1,256 @@
+/**
+ * Resolve Kenmei series URLs to AniList IDs through their source sites
+ * @module matching/batching/url-resolution
+ */
+
+import type { MangaMatchResult } from "@/api/anilist/types";
+import { MangaSource, mangaSourceRegistry } from "../../manga-sources";
+import type {
+  CachedResultsStorage,
+  KnownMangaControl,
+  ParsedSourceUrl,
+  SearchServiceConfig,
+  UrlResolutionData,
+  UrlResolvedManga,
+} from "./types";
+
+/**
+ * Confidence given to matches whose AniList ID came from the source site's own link.
+ * @source
+ */
+export const URL_RESOLVED_CONFIDENCE = 99;
+
+const MANGADEX_HOSTS = new Set(["mangadex.org", "www.mangadex.org"]);
+const COMICK_HOSTS = new Set([
+  "comick.io",
+  "comick.app",
+  "comick.fun",
+  "comick.cc",
+]);
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a Kenmei series URL into the source site and its identifier.
+ *
+ * Recognises MangaDex title URLs (`mangadex.org/title/<uuid>`) and Comick comic URLs
+ * (`comick.io/comic/<slug>` and its mirror domains). Other sites return null.
+ *
+ * @param url - Series URL from the Kenmei export.
+ * @returns Parsed source and identifier, or null if the URL is not from a supported source.
+ * @source
+ */
+export function parseSourceUrl(
+  url: string | undefined,
+): ParsedSourceUrl | null {
+  if (!url) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  const [section, identifier] = parsed.pathname.split("/").filter(Boolean);
+  if (!identifier) return null;
+
+  if (MANGADEX_HOSTS.has(host) && section === "title") {
+    return UUID_PATTERN.test(identifier)
+      ? { source: MangaSource.MangaDex, slug: identifier.toLowerCase() }
+      : null;
+  }
+
+  const comickHost = host.startsWith("www.") ? host.slice(4) : host;
+  if (COMICK_HOSTS.has(comickHost) && section === "comic") {
+    return { source: MangaSource.Comick, slug: decodeURIComponent(identifier) };
+  }
+
+  return null;
+}
+
+/**
+ * Look up the AniList ID a source site links to for one series.
+ * @param parsed - Parsed source URL.
+ * @returns AniList ID and source title, or null if the source has no AniList link.
+ * @source
+ */
+async function fetchLinkedAniListId(
+  parsed: ParsedSourceUrl,
+): Promise<{ id: number; title: string } | null> {
+  const detail = await mangaSourceRegistry.getMangaDetail(
+    parsed.source,
+    parsed.slug,
+  );
+  const anilistLink = detail?.externalLinks?.anilist;
+  if (!detail || !anilistLink) return null;
+
+  const id = Number.parseInt(anilistLink, 10);
+  return Number.isInteger(id) && id > 0 ? { id, title: detail.title } : null;
+}
+
+/**
+ * Resolve series URLs of uncached manga to AniList IDs before title search.
+ *
+ * For each uncached manga with a MangaDex or Comick URL, fetches the series from
+ * the source site and reads its AniList link. Resolved manga are moved from
+ * `uncachedManga` into `knownMangaIds` so processKnownMangaIds fetches them by ID;
+ * anything unresolved stays in the title search queue. Lookups run one at a time
+ * to stay within the source sites' rate limits.
+ *
+ * @param data - Uncached manga and known IDs; both lists are updated in place.
+ * @param searchConfig - Search configuration; resolution is skipped on fresh searches.
+ * @param control - Abort signal and cancellation checks.
+ * @returns Manga that resolved to an AniList ID.
+ * @source
+ */
+export async function resolveMangaSourceUrls(
+  data: UrlResolutionData,
+  searchConfig: SearchServiceConfig,
+  control: KnownMangaControl,
+): Promise<UrlResolvedManga[]> {
+  const { uncachedManga, knownMangaIds } = data;
+  const { shouldCancel, abortSignal } = control;
+
+  // Fresh searches skip known-ID fetching, so resolved entries would be dropped
+  if (searchConfig.bypassCache) return [];
+
+  const candidates = uncachedManga
+    .map((item) => ({ ...item, parsed: parseSourceUrl(item.manga.url) }))
+    .filter(
+      (item): item is typeof item & { parsed: ParsedSourceUrl } =>
+        item.parsed !== null,
+    );
+  if (candidates.length === 0) return [];
+
+  console.info(
+    `[MangaSearchService] 🔗 Resolving ${candidates.length} series URLs to AniList IDs...`,
+  );
+
+  const resolved: UrlResolvedManga[] = [];
+  for (const { index, manga, parsed } of candidates) {
+    if (shouldCancel?.() || abortSignal?.aborted) break;
+
+    try {
+      const linked = await fetchLinkedAniListId(parsed);
+      if (!linked) {
+        console.debug(
+          `[MangaSearchService] No AniList link on ${parsed.source} for "${manga.title}"`,
+        );
+        continue;
+      }
+
+      resolved.push({ index, ...parsed, ...linked });
+      console.debug(
+        `[MangaSearchService] 🔗 Resolved "${manga.title}" to AniList ${linked.id} via ${parsed.source}`,
+      );
+    } catch (error) {
+      console.warn(
+        `[MangaSearchService] ⚠️ Failed to resolve ${parsed.source} URL for "${manga.title}":`,
+        error,
+      );
+    }
+  }
+
+  const resolvedIndices = new Set(resolved.map((item) => item.index));
+  const remaining = uncachedManga.filter(
+    (item) => !resolvedIndices.has(item.index),
+  );
+  uncachedManga.splice(0, uncachedManga.length, ...remaining);
+  for (const item of resolved) {
+    knownMangaIds.push({ index: item.index, id: item.id });
+  }
+
+  console.info(
+    `[MangaSearchService] 🔗 Resolved ${resolved.length} of ${candidates.length} series URLs`,
+  );
+
+  return resolved;
+}
+
+/**
+ * Record source information for manga whose URL-resolved ID was fetched.
+ *
+ * Runs after processKnownMangaIds. Entries whose ID was not found on AniList
+ * have fallen back to title search and are left untouched.
+ *
+ * @param resolved - Manga resolved by resolveMangaSourceUrls.
+ * @param storage - Storage for results and source maps.
+ * @source
+ */
+export function recordUrlResolvedSources(
+  resolved: UrlResolvedManga[],
+  storage: CachedResultsStorage,
+): void {
+  const {
+    cachedResults,
+    cachedComickSources,
+    cachedMangaDexSources,
+    cachedUrlResolvedIds,
+  } = storage;
+
+  for (const item of resolved) {
+    if (!cachedResults[item.index]?.some((manga) => manga.id === item.id)) {
+      continue;
+    }
+
+    cachedUrlResolvedIds.set(item.index, item.id);
+    if (item.source === MangaSource.Comick) {
+      cachedComickSources[item.index] = new Map([
+        [
+          item.id,
+          {
+            title: item.title,
+            slug: item.slug,
+            comickId: item.slug,
+            isFoundViaComick: true,
+          },
+        ],
+      ]);
+    } else {
+      cachedMangaDexSources[item.index] = new Map([
+        [
+          item.id,
+          {
+            title: item.title,
+            slug: item.slug,
+            mangaDexId: item.slug,
+            isFoundViaMangaDex: true,
+          },
+        ],
+      ]);
+    }
+  }
+}
+
+/**
+ * Raise the confidence of matches whose AniList ID came from the series URL.
+ * @param results - Compiled match results indexed like the manga list.
+ * @param urlResolvedIds - AniList IDs resolved from series URLs, keyed by position.
+ * @returns Results with URL-resolved matches set to high confidence.
+ * @source
+ */
+export function applyUrlResolvedConfidence(
+  results: MangaMatchResult[],
+  urlResolvedIds: Map<number, number>,
+): MangaMatchResult[] {
+  if (urlResolvedIds.size === 0) return results;
+
+  return results.map((result, index) => {
+    const resolvedId = urlResolvedIds.get(index);
+    if (resolvedId === undefined) return result;
+
+    return {
+      ...result,
+      anilistMatches: result.anilistMatches?.map((match) =>
+        match.manga?.id === resolvedId
+          ? {
+              ...match,
+              confidence: Math.max(match.confidence, URL_RESOLVED_CONFIDENCE),
+            }
+          : match,
+      ),
+    };
+  });
+}
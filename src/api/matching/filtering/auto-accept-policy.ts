@@ -0,0 +1,180 @@
+/**
+ * Auto-accept policy for sending high-confidence matches straight to `matched`.
+ * @module matching/filtering/auto-accept-policy
+ */
+
+import type { MangaMatch, MangaMatchResult } from "@/api/anilist/types";
+import {
+  DEFAULT_AUTO_ACCEPT_POLICY,
+  getMatchConfig,
+  type AutoAcceptPolicyConfig,
+} from "@/utils/storage";
+
+/**
+ * Outcome of evaluating the policy against one match result.
+ * @source
+ */
+export interface AutoAcceptDecision {
+  accepted: boolean;
+  /** Why the top candidate was accepted, or why it was left for review. */
+  reason: string;
+}
+
+/**
+ * A match result the policy accepted, with its state before and after.
+ * @source
+ */
+export interface AutoAcceptOutcome {
+  index: number;
+  before: MangaMatchResult;
+  after: MangaMatchResult;
+}
+
+/**
+ * Reads the saved auto-accept policy, filling fields added after it was saved.
+ * @returns The auto-accept policy.
+ * @source
+ */
+export function getAutoAcceptPolicy(): AutoAcceptPolicyConfig {
+  return {
+    ...DEFAULT_AUTO_ACCEPT_POLICY,
+    ...getMatchConfig().autoAcceptPolicy,
+  };
+}
+
+/**
+ * @returns True if the candidate was found through a MangaDex entry's AniList link.
+ * @source
+ */
+export function isFoundViaMangaDexLink(match: MangaMatch): boolean {
+  return (
+    match.sourceInfo?.source === "mangadex" ||
+    match.mangaDexSource?.isFoundViaMangaDex === true
+  );
+}
+
+const reject = (reason: string): AutoAcceptDecision => ({
+  accepted: false,
+  reason,
+});
+
+/**
+ * Evaluates the auto-accept policy against the top candidate of a pending match result.
+ * The margin is measured against the next candidate with a different AniList ID;
+ * a lone candidate has no competitor and always satisfies it.
+ * @param result - Match result to evaluate.
+ * @param policy - Auto-accept policy to apply.
+ * @returns Whether the top candidate is accepted, with the reason.
+ * @source
+ */
+export function evaluateAutoAcceptPolicy(
+  result: MangaMatchResult,
+  policy: AutoAcceptPolicyConfig,
+): AutoAcceptDecision {
+  if (!policy.enabled) return reject("Auto-accept is disabled");
+  if (result.status !== "pending") return reject("Already reviewed");
+
+  const [top, ...others] = result.anilistMatches ?? [];
+  if (!top?.manga) return reject("No candidates");
+
+  const { format, countryOfOrigin } = top.manga;
+  if (
+    policy.allowedFormats.length > 0 &&
+    !policy.allowedFormats.includes(format)
+  ) {
+    return reject(`Format ${format || "unknown"} is not allowed`);
+  }
+  if (
+    policy.allowedCountries.length > 0 &&
+    (!countryOfOrigin || !policy.allowedCountries.includes(countryOfOrigin))
+  ) {
+    return reject(`Country ${countryOfOrigin || "unknown"} is not allowed`);
+  }
+
+  const viaMangaDex = isFoundViaMangaDexLink(top);
+  if (policy.mangaDexLink === "require" && !viaMangaDex) {
+    return reject("Not found through a MangaDex AniList link");
+  }
+
+  const confidence = Math.round(top.confidence);
+  const runnerUp = others.find((match) => match.manga?.id !== top.manga.id);
+  const margin = runnerUp
+    ? Math.round(top.confidence - runnerUp.confidence)
+    : null;
+  const marginText =
+    margin === null
+      ? "the only candidate"
+      : `${margin} points ahead of the next candidate`;
+
+  const meetsThresholds =
+    confidence >= policy.minConfidence &&
+    (margin === null || margin >= policy.minMargin);
+
+  if (!meetsThresholds) {
+    if (policy.mangaDexLink === "trust" && viaMangaDex) {
+      return {
+        accepted: true,
+        reason: `Found through a MangaDex AniList link (${confidence}% confidence, ${marginText})`,
+      };
+    }
+    return reject(
+      confidence < policy.minConfidence
+        ? `${confidence}% confidence is below the ${policy.minConfidence}% minimum`
+        : `Only ${margin} points ahead of the next candidate (needs ${policy.minMargin})`,
+    );
+  }
+
+  const provenance = viaMangaDex
+    ? ", found through a MangaDex AniList link"
+    : "";
+  return {
+    accepted: true,
+    reason: `${confidence}% confidence, ${marginText}${provenance}`,
+  };
+}
+
+/**
+ * Applies the auto-accept policy to pending match results.
+ * Accepted results move to `matched` with their top candidate selected and the reason recorded.
+ * @param results - Match results to evaluate.
+ * @param policy - Auto-accept policy to apply.
+ * @param isInScope - Optional filter limiting which results are considered, e.g. those from the latest run.
+ * @returns The accepted results with their index and before/after states.
+ * @source
+ */
+export function applyAutoAcceptPolicy(
+  results: MangaMatchResult[],
+  policy: AutoAcceptPolicyConfig,
+  isInScope: (result: MangaMatchResult) => boolean = () => true,
+): AutoAcceptOutcome[] {
+  if (!policy.enabled) return [];
+
+  const acceptedAt = new Date().toISOString();
+  const outcomes: AutoAcceptOutcome[] = [];
+
+  for (const [index, result] of results.entries()) {
+    if (!isInScope(result)) continue;
+    const decision = evaluateAutoAcceptPolicy(result, policy);
+    if (!decision.accepted) continue;
+
+    outcomes.push({
+      index,
+      before: result,
+      after: {
+        ...result,
+        status: "matched",
+        selectedMatch: result.anilistMatches![0].manga,
+        matchDate: acceptedAt,
+        autoAccept: { reason: decision.reason, acceptedAt },
+      },
+    });
+  }
+
+  if (outcomes.length > 0) {
+    console.info(
+      `[AutoAccept] ✅ Policy accepted ${outcomes.length} of ${results.length} match results`,
+    );
+  }
+
+  return outcomes;
+}
@@ -13,6 +13,7 @@
 import type { AniListManga } from "@/api/anilist/types";
 import type { KenmeiManga } from "@/api/kenmei/types";
 import type { CustomRule, CustomRuleTarget } from "@/utils/storage";
+import type { MatchScoreBreakdown } from "../scoring";
 import { getMatchConfig } from "@/utils/storage";
 
 /**
@@ -27,6 +28,50 @@ export const ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT = 0.85;
  */
 export const ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR = 0.75;
 
+/**
+ * Raises a candidate's confidence to the accept rule floor and records the boost in its score breakdown.
+ * The floors are match score fractions, so they are scaled to confidence percentages here.
+ *
+ * @param confidence - Confidence percentage (0-100) before the boost.
+ * @param isExactMatch - Whether the Kenmei title equals the candidate's romaji or English title.
+ * @param scoreBreakdown - The candidate's score breakdown, if it has one.
+ * @param ruleDescription - Description of the accept rule that matched.
+ * @returns Boosted confidence and breakdown (unchanged if already above the floor).
+ * @source
+ */
+export function applyAcceptRuleConfidenceFloor(
+  confidence: number,
+  isExactMatch: boolean,
+  scoreBreakdown?: MatchScoreBreakdown,
+  ruleDescription?: string,
+): { confidence: number; scoreBreakdown?: MatchScoreBreakdown } {
+  const floor = Math.round(
+    (isExactMatch
+      ? ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT
+      : ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR) * 100,
+  );
+  if (confidence >= floor) {
+    return { confidence, scoreBreakdown };
+  }
+
+  const ruleName = ruleDescription ? ` "${ruleDescription}"` : "";
+  return {
+    confidence: floor,
+    scoreBreakdown: scoreBreakdown && {
+      ...scoreBreakdown,
+      adjustments: [
+        ...scoreBreakdown.adjustments,
+        {
+          kind: "accept-rule-boost",
+          label: `Accept rule${ruleName} raised confidence to its ${floor}% floor`,
+          delta: floor - confidence,
+          unit: "confidence",
+        },
+      ],
+    },
+  };
+}
+
 /**
  * Cache for compiled regex patterns to avoid repeated compilation.
  * Keys: `${ruleId}:${pattern}:${flags}`. Size capped at 1000 entries with FIFO eviction.
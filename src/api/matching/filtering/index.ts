@@ -29,3 +29,12 @@ export {
   applySystemContentFilters,
   type SystemFilterConfig,
 } from "./system-filters";
+
+export {
+  applyAutoAcceptPolicy,
+  evaluateAutoAcceptPolicy,
+  getAutoAcceptPolicy,
+  isFoundViaMangaDexLink,
+  type AutoAcceptDecision,
+  type AutoAcceptOutcome,
+} from "./auto-accept-policy";
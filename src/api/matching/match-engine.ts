@@ -10,7 +10,7 @@
 import { KenmeiManga } from "../kenmei/types";
 import { AniListManga, MangaMatchResult } from "../anilist/types";
 import { calculateEnhancedSimilarity } from "../../utils/enhanced-similarity";
-import { calculateConfidence } from "./scoring";
+import { calculateConfidenceBreakdown, type ConfidenceCurve } from "./scoring";
 
 /**
  * Configuration options for manga matching behavior.
@@ -38,6 +38,9 @@ export interface MatchEngineConfig {
 
   /** Maximum number of candidate matches to return per search. */
   maxMatches: number;
+
+  /** Score-to-confidence curve; defaults to the active (possibly calibrated) curve. Set it for work sent to workers. */
+  confidenceCurve?: ConfidenceCurve;
 }
 
 /**
@@ -370,10 +373,28 @@ export function findBestMatches(
   const matchResults = anilistMangaList
     .map((manga) => {
       const matchScore = scoreMatch(kenmeiManga, manga, matchConfig);
-      const confidence = calculateConfidence(kenmeiManga.title, manga);
+      const { confidence, breakdown: scoreBreakdown } =
+        calculateConfidenceBreakdown(
+          kenmeiManga.title,
+          manga,
+          matchConfig.confidenceCurve,
+        );
+      if (
+        matchScore.matchedField === "english" &&
+        matchConfig.shouldPreferEnglishTitles
+      ) {
+        scoreBreakdown.adjustments.push({
+          kind: "english-preference",
+          label:
+            "English title preferred: its similarity is weighted 5% higher when checking for an exact match",
+          delta: 0,
+          unit: "confidence",
+        });
+      }
       return {
         manga,
         confidence,
+        scoreBreakdown,
         isExactMatch: matchScore.isExactMatch,
         matchedField: matchScore.matchedField,
       } as const;
@@ -398,11 +419,14 @@ export function findBestMatches(
   if (topMatches[0].isExactMatch) {
     return {
       kenmeiManga,
-      anilistMatches: topMatches.map(({ manga, confidence }) => ({
-        id: manga.id,
-        manga,
-        confidence,
-      })),
+      anilistMatches: topMatches.map(
+        ({ manga, confidence, scoreBreakdown }) => ({
+          id: manga.id,
+          manga,
+          confidence,
+          scoreBreakdown,
+        }),
+      ),
       status: "matched",
       selectedMatch: topMatches[0].manga,
       matchDate: new Date().toISOString(),
@@ -417,11 +441,14 @@ export function findBestMatches(
   if (hasHighConfidence) {
     return {
       kenmeiManga,
-      anilistMatches: topMatches.map(({ manga, confidence }) => ({
-        id: manga.id,
-        manga,
-        confidence,
-      })),
+      anilistMatches: topMatches.map(
+        ({ manga, confidence, scoreBreakdown }) => ({
+          id: manga.id,
+          manga,
+          confidence,
+          scoreBreakdown,
+        }),
+      ),
       status: "matched",
       selectedMatch: topMatches[0].manga,
       matchDate: new Date().toISOString(),
@@ -431,10 +458,11 @@ export function findBestMatches(
   // Multiple potential matches or low confidence => pending
   return {
     kenmeiManga,
-    anilistMatches: topMatches.map(({ manga, confidence }) => ({
+    anilistMatches: topMatches.map(({ manga, confidence, scoreBreakdown }) => ({
       id: manga.id,
       manga,
       confidence,
+      scoreBreakdown,
     })),
     status: "pending",
     selectedMatch: undefined,
@@ -8,6 +8,7 @@ import type { KenmeiManga } from "@/api/kenmei/types";
 import type { MangaSearchResponse, SearchServiceConfig } from "./types";
 import type { ComickSourceMap, MangaDexSourceMap } from "../sources/types";
 import { getSourceInfo } from "../sources";
+import { applyRelationPreference } from "./ranking";
 import type { MangaCacheSourceMetadata } from "../cache/types";
 import {
   generateCacheKey,
@@ -15,12 +16,15 @@ import {
   mangaCache,
   saveCache,
 } from "../cache";
-import { calculateConfidence, calculateTitleTypePriority } from "../scoring";
+import {
+  calculateConfidenceBreakdown,
+  calculateTitleTypePriority,
+  getEnglishPreferenceAdjustment,
+} from "../scoring";
 import { getMatchConfig } from "@/utils/storage";
 import {
   shouldAcceptByCustomRules,
-  ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT,
-  ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR,
+  applyAcceptRuleConfidenceFloor,
 } from "../filtering/custom-rules";
 import { applySystemContentFilters } from "../filtering/system-filters";
 import { filterOutBlacklistedManga } from "../filtering/blacklist";
@@ -121,7 +125,8 @@ export function processCachedResults(
   );
 
   const matches = filteredResults.map((manga) => {
-    let confidence = calculateConfidence(title, manga);
+    let { confidence, breakdown: scoreBreakdown } =
+      calculateConfidenceBreakdown(title, manga);
     const titleTypePriority = calculateTitleTypePriority(manga, title);
 
     // Apply custom accept rule boost if kenmeiManga provided
@@ -135,41 +140,55 @@ export function processCachedResults(
         const isExactMatch =
           title.toLowerCase() === manga.title?.romaji?.toLowerCase() ||
           title.toLowerCase() === manga.title?.english?.toLowerCase();
-        const minConfidence = isExactMatch
-          ? ACCEPT_RULE_CONFIDENCE_FLOOR_EXACT
-          : ACCEPT_RULE_CONFIDENCE_FLOOR_REGULAR;
-
-        if (confidence < minConfidence) {
+        const boosted = applyAcceptRuleConfidenceFloor(
+          confidence,
+          isExactMatch,
+          scoreBreakdown,
+          matchedRule.description,
+        );
+
+        if (boosted.confidence !== confidence) {
           console.debug(
-            `[MangaSearchService] ⭐ Boosting cached result confidence from ${(confidence * 100).toFixed(0)}% to ${(minConfidence * 100).toFixed(0)}% for "${manga.title?.romaji || manga.title?.english}" (custom accept rule: "${matchedRule.description}")`,
+            `[MangaSearchService] ⭐ Boosting cached result confidence from ${confidence}% to ${boosted.confidence}% for "${manga.title?.romaji || manga.title?.english}" (custom accept rule: "${matchedRule.description}")`,
           );
-          confidence = minConfidence;
+          confidence = boosted.confidence;
+          scoreBreakdown = boosted.scoreBreakdown ?? scoreBreakdown;
         }
       }
     }
 
+    const englishPreference = getEnglishPreferenceAdjustment(titleTypePriority);
+    if (englishPreference) {
+      scoreBreakdown.adjustments.push(englishPreference);
+    }
+
     console.debug(
-      `[MangaSearchService] ⚖️ Cached match confidence for "${manga.title?.english || manga.title?.romaji}": ${(confidence * 100).toFixed(0)}% (priority: ${titleTypePriority})`,
+      `[MangaSearchService] ⚖️ Cached match confidence for "${manga.title?.english || manga.title?.romaji}": ${confidence}% (priority: ${titleTypePriority})`,
     );
 
-    return { manga, confidence, titleTypePriority };
+    return { manga, confidence, scoreBreakdown, titleTypePriority };
   });
 
+  const rankedMatches = applyRelationPreference(matches, title);
+
   // Sort by confidence and priority
-  matches.sort((a, b) => {
+  rankedMatches.sort((a, b) => {
     if (a.confidence !== b.confidence) {
       return b.confidence - a.confidence;
     }
     return b.titleTypePriority - a.titleTypePriority;
   });
 
-  const finalMatches = matches.map(({ manga, confidence }) => ({
-    manga,
-    confidence,
-    comickSource: comickSourceMap.get(manga.id),
-    mangaDexSource: mangaDexSourceMap.get(manga.id),
-    sourceInfo: getSourceInfo(manga.id, comickSourceMap, mangaDexSourceMap),
-  }));
+  const finalMatches = rankedMatches.map(
+    ({ manga, confidence, scoreBreakdown }) => ({
+      manga,
+      confidence,
+      scoreBreakdown,
+      comickSource: comickSourceMap.get(manga.id),
+      mangaDexSource: mangaDexSourceMap.get(manga.id),
+      sourceInfo: getSourceInfo(manga.id, comickSourceMap, mangaDexSourceMap),
+    }),
+  );
 
   return {
     matches: finalMatches,
@@ -5,7 +5,7 @@
  * Coordinates all manga search operations including:
  * - Cache management (check, bypass, save)
  * - Search execution (API calls, pagination)
- * - Result processing (ranking, filtering)
+ * - Result processing (ranking, filtering, relation-aware preferences)
  * - Fallback sources (Comick, MangaDex)
  * - Response building (confidence scores, source info)
  *
@@ -22,7 +22,19 @@ export type {
 export { DEFAULT_SEARCH_CONFIG } from "./types";
 
 // Ranking utilities
-export { rankMangaResults } from "./ranking";
+export {
+  rankMangaResults,
+  applyRelationPreference,
+  getRelationPreferenceAdjustment,
+  RELATION_PREFERENCE_PENALTY,
+} from "./ranking";
+
+// Candidate relations
+export {
+  attachCandidateRelations,
+  cacheCandidateRelations,
+  RELATION_CANDIDATE_LIMIT,
+} from "./relations";
 
 // Cache handlers
 export {
@@ -5,7 +5,12 @@
 
 import type { AniListManga } from "@/api/anilist/types";
 import type { KenmeiManga } from "@/api/kenmei/types";
-import { calculateMatchScore } from "../scoring";
+import {
+  calculateMatchScore,
+  detectSeasonMarker,
+  type MatchScoreBreakdown,
+  type ScoreAdjustment,
+} from "../scoring";
 import {
   shouldIncludeMangaExact,
   shouldIncludeMangaRegular,
@@ -13,11 +18,157 @@ import {
 } from "../filtering/inclusion-rules";
 import { shouldSkipManga as shouldSkipMangaByRules } from "../filtering/skip-rules";
 
+/**
+ * Confidence points taken from a candidate that relation-aware ranking does not prefer.
+ * @source
+ */
+export const RELATION_PREFERENCE_PENALTY = 8;
+
+/**
+ * How a candidate relates to another candidate in the same result set.
+ * @source
+ */
+type CandidateRole = "sequel" | "side-story" | "prequel";
+
+/**
+ * Finds how `manga` relates to `other`, reading the relations of both entries.
+ * Relations are only fetched for top candidates, so either side may be missing them.
+ * @source
+ */
+function getCandidateRole(
+  manga: AniListManga,
+  other: AniListManga,
+): CandidateRole | null {
+  const ownRelation = manga.relations?.find(
+    (relation) => relation.manga.id === other.id,
+  )?.relationType;
+  const otherRelation = other.relations?.find(
+    (relation) => relation.manga.id === manga.id,
+  )?.relationType;
+
+  if (ownRelation === "PREQUEL" || otherRelation === "SEQUEL") return "sequel";
+  if (
+    ownRelation === "PARENT" ||
+    otherRelation === "SIDE_STORY" ||
+    otherRelation === "SPIN_OFF"
+  ) {
+    return "side-story";
+  }
+  if (ownRelation === "SEQUEL" || otherRelation === "PREQUEL") {
+    return "prequel";
+  }
+  return null;
+}
+
+/**
+ * Returns a displayable title for relation labels.
+ * @source
+ */
+const getDisplayTitle = (manga: AniListManga) =>
+  manga.title?.english || manga.title?.romaji || `#${manga.id}`;
+
+/**
+ * Decides whether relation data argues against a candidate.
+ *
+ * Without a season marker in the Kenmei title the main entry is preferred, so sequels,
+ * side stories and spin-offs of another candidate are penalized. With a marker past the
+ * first season the sequel is preferred, so entries that another candidate continues are penalized.
+ *
+ * @param manga - Candidate to evaluate
+ * @param candidates - All candidates for the same Kenmei title
+ * @param searchTitle - Kenmei title being matched
+ * @returns Penalty adjustment, or null if the candidate is not penalized
+ * @source
+ */
+export function getRelationPreferenceAdjustment(
+  manga: AniListManga,
+  candidates: AniListManga[],
+  searchTitle: string,
+): ScoreAdjustment | null {
+  const marker = detectSeasonMarker(searchTitle);
+  const wantsSequel = marker !== null && marker !== "1";
+
+  for (const other of candidates) {
+    if (other.id === manga.id) continue;
+    const role = getCandidateRole(manga, other);
+    if (!role) continue;
+
+    if (!wantsSequel && role !== "prequel") {
+      const relationText = role === "sequel" ? "Sequel" : "Side story";
+      return {
+        kind: "relation-preference",
+        label: `${relationText} of candidate "${getDisplayTitle(other)}" while the Kenmei title names no season`,
+        delta: -RELATION_PREFERENCE_PENALTY,
+        unit: "confidence",
+      };
+    }
+
+    if (wantsSequel && role === "prequel") {
+      return {
+        kind: "relation-preference",
+        label: `Continued by candidate "${getDisplayTitle(other)}" while the Kenmei title names season ${marker}`,
+        delta: -RELATION_PREFERENCE_PENALTY,
+        unit: "confidence",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Applies relation-aware preferences to scored matches and re-sorts them by confidence.
+ * Matches are returned unchanged when no candidate carries relation data.
+ *
+ * @param matches - Scored matches for one Kenmei title
+ * @param searchTitle - Kenmei title being matched
+ * @returns Matches with relation penalties applied and recorded in their breakdowns
+ * @source
+ */
+export function applyRelationPreference<
+  T extends {
+    manga: AniListManga;
+    confidence: number;
+    scoreBreakdown?: MatchScoreBreakdown;
+  },
+>(matches: T[], searchTitle: string): T[] {
+  if (!matches.some((match) => match.manga.relations?.length)) {
+    return matches;
+  }
+
+  const candidates = matches.map((match) => match.manga);
+  let adjusted = false;
+  const result = matches.map((match) => {
+    const adjustment = getRelationPreferenceAdjustment(
+      match.manga,
+      candidates,
+      searchTitle,
+    );
+    if (!adjustment) return match;
+
+    adjusted = true;
+    console.debug(
+      `[MangaSearchService] 🔗 ${adjustment.label} (${getDisplayTitle(match.manga)})`,
+    );
+    return {
+      ...match,
+      confidence: Math.max(0, match.confidence + adjustment.delta),
+      scoreBreakdown: match.scoreBreakdown && {
+        ...match.scoreBreakdown,
+        adjustments: [...match.scoreBreakdown.adjustments, adjustment],
+      },
+    };
+  });
+
+  // Array.prototype.sort is stable, so equal confidences keep their prior order
+  return adjusted ? result.sort((a, b) => b.confidence - a.confidence) : result;
+}
+
 /**
  * Core ranking logic applied with custom inclusion predicate.
  *
- * Scores results, filters by inclusion predicate, and sorts by confidence.
- * Always includes at least one result even with low score.
+ * Scores results, filters by inclusion predicate, applies relation preferences,
+ * and sorts by confidence. Always includes at least one result even with low score.
  *
  * @param results - Manga results to rank
  * @param searchTitle - Original search title
@@ -60,6 +211,18 @@ function rankMangaCore(
     }
   }
 
+  // Apply relation preferences on the same 0-100 scale used for confidence
+  for (const item of scoredResults) {
+    const relationAdjustment = getRelationPreferenceAdjustment(
+      item.manga,
+      results,
+      searchTitle,
+    );
+    if (relationAdjustment) {
+      item.score += relationAdjustment.delta / 100;
+    }
+  }
+
   // Sort by score (descending)
   scoredResults.sort((a, b) => b.score - a.score);
 
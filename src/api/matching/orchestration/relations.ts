@@ -0,0 +1,137 @@
+/**
+ * Relation data for top search candidates
+ * @module matching/orchestration/relations
+ */
+
+import type { AniListManga, MangaRelation } from "@/api/anilist/types";
+import { getMangaRelations } from "@/api/anilist/client";
+import { generateCacheKey, mangaCache, saveCache } from "../cache";
+
+/**
+ * Number of leading candidates per title whose relations are fetched.
+ * @source
+ */
+export const RELATION_CANDIDATE_LIMIT = 3;
+
+/**
+ * Maximum media IDs per relations request (AniList page size).
+ * @source
+ */
+const RELATION_REQUEST_ID_LIMIT = 50;
+
+/**
+ * Returns the list with relations attached to the entries that have them.
+ * @source
+ */
+const withRelations = (
+  results: AniListManga[],
+  relationsById: Map<number, MangaRelation[]>,
+): AniListManga[] =>
+  results.map((manga) =>
+    relationsById.has(manga.id)
+      ? { ...manga, relations: relationsById.get(manga.id) }
+      : manga,
+  );
+
+/**
+ * Fetch and attach relations for the top candidates of one or more result lists.
+ *
+ * Candidates that already carry relations are skipped, and IDs from every list share
+ * as few requests as possible. Failures are logged and leave the lists unchanged,
+ * since relations only refine ranking.
+ *
+ * @param resultLists - Candidate lists, one per Kenmei title, in ranked order
+ * @param token - Optional authentication token
+ * @param abortSignal - Optional abort signal
+ * @param beforeRequest - Optional hook awaited before each request, e.g. to acquire the rate limit
+ * @returns Candidate lists with relations attached, and the number of requests made
+ *
+ * @source
+ */
+export async function attachCandidateRelations(
+  resultLists: AniListManga[][],
+  token?: string,
+  abortSignal?: AbortSignal,
+  beforeRequest?: () => Promise<void>,
+): Promise<{ resultLists: AniListManga[][]; requestCount: number }> {
+  const ids = [
+    ...new Set(
+      resultLists.flatMap((results) =>
+        results
+          .slice(0, RELATION_CANDIDATE_LIMIT)
+          .filter((manga) => !manga.relations)
+          .map((manga) => manga.id),
+      ),
+    ),
+  ];
+  if (ids.length === 0) {
+    return { resultLists, requestCount: 0 };
+  }
+
+  const relationsById = new Map<number, MangaRelation[]>();
+  let requestCount = 0;
+  try {
+    for (
+      let start = 0;
+      start < ids.length;
+      start += RELATION_REQUEST_ID_LIMIT
+    ) {
+      await beforeRequest?.();
+      requestCount++;
+      const chunk = await getMangaRelations(
+        ids.slice(start, start + RELATION_REQUEST_ID_LIMIT),
+        token,
+        abortSignal,
+      );
+      for (const [id, relations] of chunk) {
+        relationsById.set(id, relations);
+      }
+    }
+  } catch (error) {
+    if (abortSignal?.aborted) throw error;
+    console.warn(
+      `[MangaSearchService] ⚠️ Could not fetch relations for ${ids.length} candidates; ranking without them`,
+      error,
+    );
+  }
+
+  if (relationsById.size === 0) {
+    return { resultLists, requestCount };
+  }
+
+  console.debug(
+    `[MangaSearchService] 🔗 Fetched relations for ${relationsById.size} candidates`,
+  );
+
+  return {
+    resultLists: resultLists.map((results) =>
+      withRelations(results, relationsById),
+    ),
+    requestCount,
+  };
+}
+
+/**
+ * Copy fetched relations into the cached results for a title, so cache hits rank the same way.
+ *
+ * @param title - Manga title the results were cached under
+ * @param results - Candidates carrying relations
+ *
+ * @source
+ */
+export function cacheCandidateRelations(
+  title: string,
+  results: AniListManga[],
+): void {
+  const cacheEntry = mangaCache[generateCacheKey(title)];
+  if (!cacheEntry) return;
+
+  const relationsById = new Map<number, MangaRelation[]>();
+  for (const manga of results) {
+    if (manga.relations) relationsById.set(manga.id, manga.relations);
+  }
+  if (relationsById.size === 0) return;
+
+  cacheEntry.manga = withRelations(cacheEntry.manga, relationsById);
+  saveCache();
+}
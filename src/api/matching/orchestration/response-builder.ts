@@ -5,8 +5,13 @@
 
 import type { AniListManga, PageInfo } from "@/api/anilist/types";
 import type { MangaSearchResponse } from "./types";
-import { calculateConfidence, calculateTitleTypePriority } from "../scoring";
+import {
+  calculateConfidenceBreakdown,
+  calculateTitleTypePriority,
+  getEnglishPreferenceAdjustment,
+} from "../scoring";
 import { getSourceInfo } from "../sources";
+import { applyRelationPreference } from "./ranking";
 
 /**
  * Build final search response with confidence scores and source information.
@@ -50,15 +55,20 @@ export function buildFinalResponse(
   );
 
   const matches = finalResults.map((manga) => {
-    const confidence = calculateConfidence(
-      typeof title === "string" ? title : "",
-      manga,
-    );
+    const { confidence, breakdown: scoreBreakdown } =
+      calculateConfidenceBreakdown(
+        typeof title === "string" ? title : "",
+        manga,
+      );
 
     const titleTypePriority = calculateTitleTypePriority(
       manga,
       typeof title === "string" ? title : "",
     );
+    const englishPreference = getEnglishPreferenceAdjustment(titleTypePriority);
+    if (englishPreference) {
+      scoreBreakdown.adjustments.push(englishPreference);
+    }
 
     console.debug(
       `[MangaSearchService] ⚖️ Confidence for "${manga.title?.english || manga.title?.romaji}": ${confidence}% (priority: ${titleTypePriority})`,
@@ -67,6 +77,7 @@ export function buildFinalResponse(
     return {
       manga,
       confidence,
+      scoreBreakdown,
       titleTypePriority,
       comickSource: comickSourceMap.has(manga.id)
         ? comickSourceMap.get(manga.id)
@@ -78,17 +89,27 @@ export function buildFinalResponse(
     };
   });
 
-  matches.sort((a, b) => {
+  const rankedMatches = applyRelationPreference(matches, title);
+
+  rankedMatches.sort((a, b) => {
     if (a.confidence !== b.confidence) {
       return b.confidence - a.confidence;
     }
     return b.titleTypePriority - a.titleTypePriority;
   });
 
-  const finalMatches = matches.map(
-    ({ manga, confidence, comickSource, mangaDexSource, sourceInfo }) => ({
+  const finalMatches = rankedMatches.map(
+    ({
+      manga,
+      confidence,
+      scoreBreakdown,
+      comickSource,
+      mangaDexSource,
+      sourceInfo,
+    }) => ({
       manga,
       confidence,
+      scoreBreakdown,
       comickSource,
       mangaDexSource,
       sourceInfo,
@@ -20,6 +20,7 @@ import {
   handleNoResultsFallback,
 } from "./result-processing";
 import { buildFinalResponse } from "./response-builder";
+import { attachCandidateRelations, cacheCandidateRelations } from "./relations";
 import { acquireRateLimit } from "../rate-limiting";
 import { generateCacheKey } from "../cache";
 import {
@@ -449,9 +450,22 @@ export async function searchMangaByTitle(
     searchConfig,
   );
 
+  // Fetch relations for the top candidates so ranking can tell main entries from sequels
+  const {
+    resultLists: [relatedResults],
+  } = await attachCandidateRelations(
+    [finalResults],
+    token,
+    abortSignal,
+    acquireRateLimit,
+  );
+  if (!searchConfig.bypassCache) {
+    cacheCandidateRelations(title, relatedResults);
+  }
+
   // Build and return final response
   return buildFinalResponse(
-    finalResults,
+    relatedResults,
     title,
     comickSourceMap,
     mangaDexSourceMap,
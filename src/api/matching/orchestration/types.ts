@@ -6,6 +6,7 @@
 
 import type { AniListManga, PageInfo } from "@/api/anilist/types";
 import type { MatchEngineConfig } from "@/api/matching/match-engine";
+import type { MatchScoreBreakdown } from "@/api/matching/scoring";
 
 /**
  * Configuration for the search service.
@@ -59,6 +60,8 @@ export interface MangaMatch {
   manga: AniListManga;
   /** Confidence score (0-100) */
   confidence: number;
+  /** How the confidence was reached: matched title, check, penalties and boosts */
+  scoreBreakdown?: MatchScoreBreakdown;
   /** Comick source information if found via Comick */
   comickSource?: {
     title: string;
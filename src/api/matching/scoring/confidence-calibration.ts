@@ -0,0 +1,537 @@
+/**
+ * @packageDocumentation
+ * @module Matching/Scoring/ConfidenceCalibration
+ * @description Logs the user's accept, reject, and alternative decisions with their match score details, and refits the confidence curve to them per account.
+ */
+
+import type { AniListManga, MangaMatchResult } from "../../anilist/types";
+import { storage, STORAGE_KEYS } from "../../../utils/storage";
+import { calculateMatchScoreDetails } from "./match-scorer";
+import type { MatchScoreDetails } from "./match-scorer";
+import {
+  DEFAULT_CONFIDENCE_CURVE,
+  mapScoreToConfidence,
+  setActiveConfidenceCurve,
+  type ConfidenceCurve,
+} from "./confidence-mapper";
+
+/**
+ * What the user did with a match suggestion.
+ * @source
+ */
+export type MatchDecisionKind = "accept" | "reject" | "alternative";
+
+/**
+ * One candidate judged by a user decision.
+ * @property decision - Decision that produced the record.
+ * @property kenmeiTitle - Title that was searched for.
+ * @property anilistId - AniList ID of the judged candidate.
+ * @property isCorrect - Whether the user treated the candidate as the right match.
+ * @property details - Match score details of the candidate against the title.
+ * @property decidedAt - ISO 8601 timestamp of the decision.
+ * @source
+ */
+export interface MatchDecisionRecord {
+  decision: MatchDecisionKind;
+  kenmeiTitle: string;
+  anilistId: number;
+  isCorrect: boolean;
+  details: MatchScoreDetails;
+  decidedAt: string;
+}
+
+/**
+ * A confidence curve fitted to the user's decisions.
+ * @property curve - Fitted mapping parameters.
+ * @property sampleCount - Number of decisions the curve was fitted to.
+ * @property correctCount - Number of those decisions that marked the candidate correct.
+ * @property logLoss - Log loss of the fitted curve on those decisions (lower is better).
+ * @property defaultLogLoss - Log loss of the default curve on the same decisions.
+ * @property calibratedAt - ISO 8601 timestamp of the fit.
+ * @source
+ */
+export interface ConfidenceCalibration {
+  curve: ConfidenceCurve;
+  sampleCount: number;
+  correctCount: number;
+  logLoss: number;
+  defaultLogLoss: number;
+  calibratedAt: string;
+}
+
+/**
+ * Observed share of correct candidates within a match score range.
+ * @source
+ */
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  correctRate: number;
+}
+
+/** Decisions needed before the curve is fitted. @source */
+export const MIN_CALIBRATION_SAMPLES = 30;
+
+/** Oldest decisions are dropped past this many. */
+const MAX_MATCH_DECISIONS = 1000;
+
+/** Decisions of each kind (correct/incorrect) needed before fitting. */
+const MIN_CLASS_SAMPLES = 5;
+
+/** New decisions between automatic refits. */
+const RECALIBRATION_INTERVAL = 10;
+
+/** Pull of the default curve on the fit, in decisions' worth of evidence. */
+const CURVE_PRIOR_STRENGTH = 1;
+
+/** Pull of the default match type bias, in decisions' worth of evidence. */
+const BIAS_PRIOR_WEIGHT = 20;
+
+/** Largest confidence adjustment a match type can receive. */
+const MAX_TYPE_BIAS = 15;
+
+const STEEPNESS_RANGE = { min: 1, max: 30 };
+const MIDPOINT_RANGE = { min: 0.2, max: 0.95 };
+
+/** Newton iterations for the logistic fit. */
+const MAX_FIT_ITERATIONS = 50;
+
+const MATCH_TYPES: ReadonlyArray<MatchScoreDetails["matchType"]> = [
+  "direct",
+  "word",
+  "legacy",
+  "none",
+];
+
+/**
+ * Clamps a value to a range.
+ * @source
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Returns true if a stored value looks like a decision record.
+ * @source
+ */
+function isMatchDecisionRecord(value: unknown): value is MatchDecisionRecord {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Partial<MatchDecisionRecord>;
+  return (
+    typeof record.anilistId === "number" &&
+    typeof record.isCorrect === "boolean" &&
+    typeof record.details?.score === "number" &&
+    MATCH_TYPES.includes(record.details.matchType)
+  );
+}
+
+/**
+ * Loads logged match decisions for the active account.
+ * @returns Decisions, oldest first (empty if none are stored or the data is invalid).
+ * @source
+ */
+export function getMatchDecisions(): MatchDecisionRecord[] {
+  try {
+    const stored = storage.getItem(STORAGE_KEYS.MATCH_DECISIONS);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isMatchDecisionRecord) : [];
+  } catch (error) {
+    console.error(
+      "[ConfidenceCalibration] Error reading match decisions",
+      error,
+    );
+    return [];
+  }
+}
+
+/**
+ * Loads the stored calibration for the active account.
+ * @returns The calibration, or null if the default curve is in use.
+ * @source
+ */
+export function getConfidenceCalibration(): ConfidenceCalibration | null {
+  try {
+    const stored = storage.getItem(STORAGE_KEYS.CONFIDENCE_CALIBRATION);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<ConfidenceCalibration>;
+    const curve = parsed.curve;
+    if (
+      typeof curve?.steepness !== "number" ||
+      typeof curve.midpoint !== "number" ||
+      !curve.matchTypeBias
+    ) {
+      return null;
+    }
+    return {
+      ...(parsed as ConfidenceCalibration),
+      curve: {
+        ...curve,
+        matchTypeBias: {
+          ...DEFAULT_CONFIDENCE_CURVE.matchTypeBias,
+          ...curve.matchTypeBias,
+        },
+      },
+    };
+  } catch (error) {
+    console.error("[ConfidenceCalibration] Error reading calibration", error);
+    return null;
+  }
+}
+
+/**
+ * Makes the active account's calibration (or the default curve) the one used for new confidence scores.
+ * Call at startup and whenever the active account changes.
+ * @returns The applied calibration, or null if the default curve is in use.
+ * @source
+ */
+export function applyStoredConfidenceCalibration(): ConfidenceCalibration | null {
+  const calibration = getConfidenceCalibration();
+  setActiveConfidenceCurve(calibration?.curve ?? null);
+  return calibration;
+}
+
+/**
+ * Builds a record for one judged candidate.
+ * @source
+ */
+function createDecisionRecord(
+  match: MangaMatchResult,
+  manga: AniListManga,
+  decision: MatchDecisionKind,
+  isCorrect: boolean,
+  decidedAt: string,
+): MatchDecisionRecord {
+  return {
+    decision,
+    kenmeiTitle: match.kenmeiManga.title,
+    anilistId: manga.id,
+    isCorrect,
+    details: calculateMatchScoreDetails(manga, match.kenmeiManga.title),
+    decidedAt,
+  };
+}
+
+/**
+ * Turns a user decision on a match into decision records.
+ *
+ * - `accept`: the top suggestion is correct.
+ * - `reject`: the top suggestion is wrong.
+ * - `alternative`: the chosen alternative is correct and the suggestion it replaced is wrong.
+ *
+ * @param match - Match result as it was before the decision.
+ * @param decision - What the user did.
+ * @param chosen - Candidate picked for `alternative` decisions.
+ * @returns Records for the judged candidates (empty if there was nothing to judge).
+ * @source
+ */
+export function buildMatchDecisionRecords(
+  match: MangaMatchResult,
+  decision: MatchDecisionKind,
+  chosen?: AniListManga,
+): MatchDecisionRecord[] {
+  const decidedAt = new Date().toISOString();
+  const suggested = match.selectedMatch ?? match.anilistMatches?.[0]?.manga;
+
+  if (decision === "alternative") {
+    if (!chosen) return [];
+    const records = [
+      createDecisionRecord(match, chosen, decision, true, decidedAt),
+    ];
+    if (suggested && suggested.id !== chosen.id) {
+      records.push(
+        createDecisionRecord(match, suggested, decision, false, decidedAt),
+      );
+    }
+    return records;
+  }
+
+  const topSuggestion = match.anilistMatches?.[0]?.manga;
+  if (!topSuggestion) return [];
+  return [
+    createDecisionRecord(
+      match,
+      topSuggestion,
+      decision,
+      decision === "accept",
+      decidedAt,
+    ),
+  ];
+}
+
+/**
+ * Returns the decisions the curve can learn from: both classes present in
+ * sufficient numbers, and a positive score (non-positive scores always map to 0).
+ * @source
+ */
+function getUsableDecisions(
+  records: MatchDecisionRecord[],
+): MatchDecisionRecord[] | null {
+  const usable = records.filter((record) => record.details.score > 0);
+  const correctCount = usable.filter((record) => record.isCorrect).length;
+  if (
+    usable.length < MIN_CALIBRATION_SAMPLES ||
+    correctCount < MIN_CLASS_SAMPLES ||
+    usable.length - correctCount < MIN_CLASS_SAMPLES
+  ) {
+    return null;
+  }
+  return usable;
+}
+
+/**
+ * Mean log loss of a curve's confidence, read as the probability the candidate is correct.
+ * @source
+ */
+function calculateLogLoss(
+  records: MatchDecisionRecord[],
+  curve: ConfidenceCurve,
+): number {
+  if (records.length === 0) return 0;
+  const total = records.reduce((sum, record) => {
+    const probability = clamp(
+      mapScoreToConfidence(
+        record.details.score,
+        record.details.matchType,
+        curve,
+      ) / 100,
+      0.01,
+      0.99,
+    );
+    return sum - Math.log(record.isCorrect ? probability : 1 - probability);
+  }, 0);
+  return total / records.length;
+}
+
+/**
+ * Fits the logistic curve's steepness and midpoint with Newton's method,
+ * regularized towards the default curve so small logs cannot bend it far.
+ * @source
+ */
+function fitLogisticShape(
+  records: MatchDecisionRecord[],
+): Pick<ConfidenceCurve, "steepness" | "midpoint"> {
+  // Fit p = sigmoid(slope * score + intercept), the curve in slope/intercept form
+  const priorSlope = DEFAULT_CONFIDENCE_CURVE.steepness;
+  const priorIntercept =
+    -DEFAULT_CONFIDENCE_CURVE.steepness * DEFAULT_CONFIDENCE_CURVE.midpoint;
+  let slope = priorSlope;
+  let intercept = priorIntercept;
+
+  for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+    let gradSlope = CURVE_PRIOR_STRENGTH * (slope - priorSlope);
+    let gradIntercept = CURVE_PRIOR_STRENGTH * (intercept - priorIntercept);
+    let hessSlope = CURVE_PRIOR_STRENGTH;
+    let hessCross = 0;
+    let hessIntercept = CURVE_PRIOR_STRENGTH;
+
+    for (const record of records) {
+      const score = record.details.score;
+      const probability = 1 / (1 + Math.exp(-(slope * score + intercept)));
+      const residual = probability - (record.isCorrect ? 1 : 0);
+      const weight = probability * (1 - probability);
+      gradSlope += residual * score;
+      gradIntercept += residual;
+      hessSlope += weight * score * score;
+      hessCross += weight * score;
+      hessIntercept += weight;
+    }
+
+    const determinant = hessSlope * hessIntercept - hessCross * hessCross;
+    if (determinant <= 1e-12) break;
+    const stepSlope =
+      (hessIntercept * gradSlope - hessCross * gradIntercept) / determinant;
+    const stepIntercept =
+      (hessSlope * gradIntercept - hessCross * gradSlope) / determinant;
+    slope -= stepSlope;
+    intercept -= stepIntercept;
+    if (Math.abs(stepSlope) + Math.abs(stepIntercept) < 1e-6) break;
+  }
+
+  // A flat or inverted fit means the scores don't separate the user's decisions
+  if (!Number.isFinite(slope) || slope < STEEPNESS_RANGE.min) {
+    return {
+      steepness: DEFAULT_CONFIDENCE_CURVE.steepness,
+      midpoint: DEFAULT_CONFIDENCE_CURVE.midpoint,
+    };
+  }
+
+  return {
+    steepness: clamp(slope, STEEPNESS_RANGE.min, STEEPNESS_RANGE.max),
+    midpoint: clamp(-intercept / slope, MIDPOINT_RANGE.min, MIDPOINT_RANGE.max),
+  };
+}
+
+/**
+ * Sets each match type's bias so its mean confidence matches how often the
+ * user accepted candidates of that type, shrunk towards the default bias.
+ * @source
+ */
+function fitMatchTypeBias(
+  records: MatchDecisionRecord[],
+  shape: Pick<ConfidenceCurve, "steepness" | "midpoint">,
+): ConfidenceCurve["matchTypeBias"] {
+  const unbiasedCurve: ConfidenceCurve = {
+    ...shape,
+    matchTypeBias: { direct: 0, word: 0, legacy: 0, none: 0 },
+  };
+  const bias = { ...DEFAULT_CONFIDENCE_CURVE.matchTypeBias };
+
+  for (const matchType of MATCH_TYPES) {
+    const typed = records.filter(
+      (record) => record.details.matchType === matchType,
+    );
+    if (typed.length === 0) continue;
+
+    const observed =
+      (typed.filter((record) => record.isCorrect).length / typed.length) * 100;
+    const predicted =
+      typed.reduce(
+        (sum, record) =>
+          sum +
+          mapScoreToConfidence(record.details.score, matchType, unbiasedCurve),
+        0,
+      ) / typed.length;
+    const weight = typed.length / (typed.length + BIAS_PRIOR_WEIGHT);
+    bias[matchType] = Math.round(
+      clamp(
+        weight * (observed - predicted) + (1 - weight) * bias[matchType],
+        -MAX_TYPE_BIAS,
+        MAX_TYPE_BIAS,
+      ),
+    );
+  }
+
+  return bias;
+}
+
+/**
+ * Fits a confidence curve to decision records.
+ * @param records - Logged decisions.
+ * @returns The fitted calibration, or null if there are not enough usable decisions.
+ * @source
+ */
+export function fitConfidenceCalibration(
+  records: MatchDecisionRecord[],
+): ConfidenceCalibration | null {
+  const usable = getUsableDecisions(records);
+  if (!usable) return null;
+
+  const shape = fitLogisticShape(usable);
+  const curve: ConfidenceCurve = {
+    ...shape,
+    matchTypeBias: fitMatchTypeBias(usable, shape),
+  };
+
+  return {
+    curve,
+    sampleCount: usable.length,
+    correctCount: usable.filter((record) => record.isCorrect).length,
+    logLoss: calculateLogLoss(usable, curve),
+    defaultLogLoss: calculateLogLoss(usable, DEFAULT_CONFIDENCE_CURVE),
+    calibratedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Refits the curve to the active account's logged decisions, stores it, and applies it.
+ * @returns The new calibration, or null if there are not enough decisions yet.
+ * @source
+ */
+export function recalibrateConfidence(): ConfidenceCalibration | null {
+  const calibration = fitConfidenceCalibration(getMatchDecisions());
+  if (!calibration) return null;
+
+  storage.setItem(
+    STORAGE_KEYS.CONFIDENCE_CALIBRATION,
+    JSON.stringify(calibration),
+  );
+  setActiveConfidenceCurve(calibration.curve);
+  console.info(
+    `[ConfidenceCalibration] 🎯 Recalibrated from ${calibration.sampleCount} decisions: steepness ${calibration.curve.steepness.toFixed(2)}, midpoint ${calibration.curve.midpoint.toFixed(3)} (log loss ${calibration.defaultLogLoss.toFixed(3)} → ${calibration.logLoss.toFixed(3)})`,
+  );
+  return calibration;
+}
+
+/**
+ * Appends decision records to the log and refits the curve once enough new decisions have accumulated.
+ * @param records - Records to log.
+ * @source
+ */
+export function recordMatchDecisions(records: MatchDecisionRecord[]): void {
+  if (records.length === 0) return;
+
+  try {
+    const decisions = [...getMatchDecisions(), ...records].slice(
+      -MAX_MATCH_DECISIONS,
+    );
+    storage.setItem(STORAGE_KEYS.MATCH_DECISIONS, JSON.stringify(decisions));
+
+    const calibratedAt = getConfidenceCalibration()?.calibratedAt;
+    const newDecisions = calibratedAt
+      ? decisions.filter((record) => record.decidedAt > calibratedAt).length
+      : decisions.length;
+    if (
+      decisions.length >= MIN_CALIBRATION_SAMPLES &&
+      (!calibratedAt || newDecisions >= RECALIBRATION_INTERVAL)
+    ) {
+      recalibrateConfidence();
+    }
+  } catch (error) {
+    console.error(
+      "[ConfidenceCalibration] Error recording match decisions",
+      error,
+    );
+  }
+}
+
+/**
+ * Discards the calibration and the decision log, returning to the default curve.
+ * @source
+ */
+export function resetConfidenceCalibration(): void {
+  storage.removeItem(STORAGE_KEYS.CONFIDENCE_CALIBRATION);
+  storage.removeItem(STORAGE_KEYS.MATCH_DECISIONS);
+  setActiveConfidenceCurve(null);
+  console.info(
+    "[ConfidenceCalibration] 🔄 Calibration reset to the default curve",
+  );
+}
+
+/**
+ * Groups decisions by match score to compare observed accuracy with a curve.
+ * @param records - Logged decisions.
+ * @param binCount - Number of equal-width score ranges.
+ * @returns Bins with at least one decision.
+ * @source
+ */
+export function getCalibrationBins(
+  records: MatchDecisionRecord[],
+  binCount = 10,
+): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    from: index / binCount,
+    to: (index + 1) / binCount,
+    count: 0,
+    correct: 0,
+  }));
+
+  for (const record of records) {
+    const { score } = record.details;
+    if (score <= 0) continue;
+    const bin = bins[Math.min(binCount - 1, Math.floor(score * binCount))];
+    bin.count++;
+    if (record.isCorrect) bin.correct++;
+  }
+
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map(({ from, to, count, correct }) => ({
+      from,
+      to,
+      count,
+      correctRate: (correct / count) * 100,
+    }));
+}
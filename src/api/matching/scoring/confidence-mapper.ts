@@ -6,7 +6,11 @@
 
 import { AniListManga } from "../../anilist/types";
 import { calculateMatchScoreDetails } from "./match-scorer";
-import type { MatchScoreDetails } from "./match-scorer";
+import type {
+  MatchCheckId,
+  MatchScoreDetails,
+  ScoreAdjustment,
+} from "./match-scorer";
 
 const MAX_CONFIDENCE = 99;
 const CONFIDENCE_FLOOR = 15;
@@ -21,18 +25,146 @@ const MATCH_TYPE_BIAS: Record<MatchScoreDetails["matchType"], number> = {
   none: -4,
 };
 
+/**
+ * Parameters of the score-to-confidence mapping.
+ * @property steepness - Slope of the logistic curve.
+ * @property midpoint - Match score at the curve's midpoint.
+ * @property matchTypeBias - Confidence points added per match type.
+ * @source
+ */
+export interface ConfidenceCurve {
+  steepness: number;
+  midpoint: number;
+  matchTypeBias: Record<MatchScoreDetails["matchType"], number>;
+}
+
+/**
+ * Built-in mapping used until the curve is calibrated from the user's decisions.
+ * @source
+ */
+export const DEFAULT_CONFIDENCE_CURVE: Readonly<ConfidenceCurve> = {
+  steepness: LOGISTIC_STEEPNESS,
+  midpoint: LOGISTIC_MIDPOINT,
+  matchTypeBias: MATCH_TYPE_BIAS,
+};
+
+/** Fixed bounds of the confidence scale, shared with calibration. @source */
+export const CONFIDENCE_SCALE = {
+  floor: CONFIDENCE_FLOOR,
+  range: CONFIDENCE_RANGE,
+  max: MAX_CONFIDENCE,
+} as const;
+
+/**
+ * Explanation of how a candidate's confidence was reached, attached to each match.
+ * @property score - Raw match score (0-1) from the winning check.
+ * @property matchType - Scoring phase that produced the score.
+ * @property check - Check that produced the score, if any fired.
+ * @property matchedTitle - AniList title variant the check matched.
+ * @property matchedTitleSource - Variant type: "english", "romaji", "native", or "synonym_N".
+ * @property baseConfidence - Confidence from the curve before the match-type bias and boosts.
+ * @property isCalibrated - Whether the curve was calibrated from the user's decisions.
+ * @property adjustments - Penalties and boosts, in the order they applied.
+ * @source
+ */
+export interface MatchScoreBreakdown {
+  score: number;
+  matchType: MatchScoreDetails["matchType"];
+  check?: MatchCheckId;
+  matchedTitle?: string;
+  matchedTitleSource?: string;
+  baseConfidence: number;
+  isCalibrated: boolean;
+  adjustments: ScoreAdjustment[];
+}
+
+let activeConfidenceCurve: ConfidenceCurve = DEFAULT_CONFIDENCE_CURVE;
+
+/**
+ * Sets the curve used when no curve is passed to calculateConfidence.
+ * Workers keep the default unless a curve is sent with their task config.
+ * @param curve - Calibrated curve, or null to restore the default.
+ * @source
+ */
+export function setActiveConfidenceCurve(curve: ConfidenceCurve | null): void {
+  activeConfidenceCurve = curve ?? DEFAULT_CONFIDENCE_CURVE;
+}
+
+/**
+ * Returns the curve used when no curve is passed to calculateConfidence.
+ * @returns The active confidence curve.
+ * @source
+ */
+export function getActiveConfidenceCurve(): ConfidenceCurve {
+  return activeConfidenceCurve;
+}
+
+/**
+ * Compares by value, since curves sent to workers arrive as copies.
+ * @source
+ */
+function isDefaultCurve(curve: ConfidenceCurve): boolean {
+  return (
+    curve.steepness === DEFAULT_CONFIDENCE_CURVE.steepness &&
+    curve.midpoint === DEFAULT_CONFIDENCE_CURVE.midpoint &&
+    Object.entries(DEFAULT_CONFIDENCE_CURVE.matchTypeBias).every(
+      ([matchType, bias]) =>
+        curve.matchTypeBias[matchType as MatchScoreDetails["matchType"]] ===
+        bias,
+    )
+  );
+}
+
+/**
+ * Maps a positive match score onto the curve's logistic, before the match-type bias.
+ * @source
+ */
+function mapScoreToBaseConfidence(score: number, curve: ConfidenceCurve) {
+  const logisticValue =
+    1 / (1 + Math.exp(-curve.steepness * (score - curve.midpoint)));
+  return CONFIDENCE_FLOOR + logisticValue * CONFIDENCE_RANGE;
+}
+
+/**
+ * Maps a match score to a confidence percentage on the given curve.
+ * @param score - Normalized match score (0-1).
+ * @param matchType - Type of match that produced the score.
+ * @param curve - Mapping parameters (defaults to the active curve).
+ * @returns Confidence percentage between 0-99.
+ * @source
+ */
+export function mapScoreToConfidence(
+  score: number,
+  matchType: MatchScoreDetails["matchType"],
+  curve: ConfidenceCurve = activeConfidenceCurve,
+): number {
+  if (score <= 0) {
+    return 0;
+  }
+
+  const baseConfidence = mapScoreToBaseConfidence(score, curve);
+  const adjustment = curve.matchTypeBias[matchType] ?? 0;
+  const adjustedConfidence = Math.min(
+    MAX_CONFIDENCE,
+    Math.max(CONFIDENCE_FLOOR, baseConfidence + adjustment),
+  );
+  return Math.round(adjustedConfidence);
+}
+
 /**
  * Convert match score to confidence percentage using conservative adaptive scaling.
  * Applies different thresholds based on match score ranges to avoid overconfidence.
  *
  * @param searchTitle - The search title used for matching
  * @param manga - The manga to calculate confidence for
+ * @param curve - Mapping parameters (defaults to the active, possibly calibrated, curve)
  * @returns Confidence percentage between 0-100 (capped at 99% for near-perfect matches)
  * @source
  */
 export function calculateConfidence(
   searchTitle: string,
   manga: AniListManga,
+  curve: ConfidenceCurve = activeConfidenceCurve,
 ): number {
   const matchDetails = calculateMatchScoreDetails(manga, searchTitle);
   const { score, matchType } = matchDetails;
@@ -41,17 +173,53 @@ export function calculateConfidence(
     `[MangaSearchService] Calculating confidence for match score: ${score.toFixed(3)} (${matchType}) between "${searchTitle}" and "${manga.title.english || manga.title.romaji}"`,
   );
 
-  if (score <= 0) {
-    return 0;
-  }
+  return mapScoreToConfidence(score, matchType, curve);
+}
 
-  const logisticValue =
-    1 / (1 + Math.exp(-LOGISTIC_STEEPNESS * (score - LOGISTIC_MIDPOINT)));
-  const baseConfidence = CONFIDENCE_FLOOR + logisticValue * CONFIDENCE_RANGE;
-  const adjustment = MATCH_TYPE_BIAS[matchType] ?? 0;
-  const adjustedConfidence = Math.min(
-    MAX_CONFIDENCE,
-    Math.max(CONFIDENCE_FLOOR, baseConfidence + adjustment),
+/**
+ * Calculate confidence together with an explanation of how it was reached.
+ * Boosts applied later (accept rules, title preference) are appended to the breakdown's adjustments by their callers.
+ *
+ * @param searchTitle - The search title used for matching
+ * @param manga - The manga to calculate confidence for
+ * @param curve - Mapping parameters (defaults to the active, possibly calibrated, curve)
+ * @returns Confidence percentage (0-99) and its score breakdown
+ * @source
+ */
+export function calculateConfidenceBreakdown(
+  searchTitle: string,
+  manga: AniListManga,
+  curve: ConfidenceCurve = activeConfidenceCurve,
+): { confidence: number; breakdown: MatchScoreBreakdown } {
+  const { score, matchType, hit } = calculateMatchScoreDetails(
+    manga,
+    searchTitle,
   );
-  return Math.round(adjustedConfidence);
+  const confidence = mapScoreToConfidence(score, matchType, curve);
+  const baseConfidence =
+    score > 0 ? Math.round(mapScoreToBaseConfidence(score, curve)) : 0;
+
+  const adjustments: ScoreAdjustment[] = [...(hit?.adjustments ?? [])];
+  if (score > 0 && confidence !== baseConfidence) {
+    adjustments.push({
+      kind: "match-type-bias",
+      label: `${matchType} match bias`,
+      delta: confidence - baseConfidence,
+      unit: "confidence",
+    });
+  }
+
+  return {
+    confidence,
+    breakdown: {
+      score,
+      matchType,
+      check: hit?.check,
+      matchedTitle: hit?.title,
+      matchedTitleSource: hit?.source,
+      baseConfidence,
+      isCalibrated: !isDefaultCurve(curve),
+      adjustments,
+    },
+  };
 }
@@ -7,10 +7,29 @@
 // Core match scoring
 /** Calculates normalized match score (0-1) between a manga title and search query. @source */
 export { calculateMatchScore } from "./match-scorer";
+/** Detects a season, part, volume, chapter, or arc marker in a title. @source */
+export { detectSeasonMarker } from "./match-scorer";
 
 // Confidence mapping
 /** Converts match score to confidence percentage (0-100) with adaptive scaling. @source */
 export { calculateConfidence } from "./confidence-mapper";
+/** Calculates confidence with a breakdown of the check, title variant, and adjustments behind it. @source */
+export { calculateConfidenceBreakdown } from "./confidence-mapper";
+/** Explanation of how a candidate's confidence was reached. @source */
+export type { MatchScoreBreakdown } from "./confidence-mapper";
+/** Maps a match score to a confidence percentage on a given curve. @source */
+export { mapScoreToConfidence } from "./confidence-mapper";
+/** Default curve and accessors for the curve used by calculateConfidence. @source */
+export {
+  DEFAULT_CONFIDENCE_CURVE,
+  getActiveConfidenceCurve,
+  setActiveConfidenceCurve,
+} from "./confidence-mapper";
+/** Parameters of the score-to-confidence mapping. @source */
+export type { ConfidenceCurve } from "./confidence-mapper";
+
+/** Scoring checks and the penalties and boosts recorded in score breakdowns. @source */
+export type { MatchCheckId, ScoreAdjustment } from "./match-scorer";
 
 // Similarity calculations
 /** Calculates similarity based on word order preservation using longest common subsequence. @source */
@@ -23,3 +42,5 @@ export { calculateWordMatchScore } from "./similarity-calculator";
 // Title priority
 /** Calculates priority score for sorting matches by title type (English > Romaji > Native > Synonym). @source */
 export { calculateTitleTypePriority } from "./title-priority";
+/** Describes the English title tie-break preference for score breakdowns. @source */
+export { getEnglishPreferenceAdjustment } from "./title-priority";
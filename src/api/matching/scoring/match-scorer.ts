@@ -52,6 +52,69 @@ export interface MatchScoreOptions {
   shouldDisableMeaningfulOverlap?: boolean;
 }
 
+/**
+ * Identifier of the scoring check that produced a match score.
+ * Direct checks: `perfect-title`, `article-difference`, `search-in-title`, `title-in-search`.
+ * Word checks: `prefix`, `word-ratio`, `text-similarity`, `meaningful-overlap`, `initialism`.
+ * Legacy checks: `exact-title`, `partial-title`, `word-similarity`, `contained-title`,
+ * `enhanced-similarity`, `season-pattern`, `subset`.
+ * @source
+ */
+export type MatchCheckId =
+  | "perfect-title"
+  | "article-difference"
+  | "search-in-title"
+  | "title-in-search"
+  | "prefix"
+  | "word-ratio"
+  | "text-similarity"
+  | "meaningful-overlap"
+  | "initialism"
+  | "exact-title"
+  | "partial-title"
+  | "word-similarity"
+  | "contained-title"
+  | "enhanced-similarity"
+  | "season-pattern"
+  | "subset";
+
+/**
+ * A penalty or boost applied on top of a check's raw result.
+ * @source
+ */
+export interface ScoreAdjustment {
+  /** What applied the adjustment. */
+  kind:
+    | "overlap-density-penalty"
+    | "match-type-bias"
+    | "accept-rule-boost"
+    | "english-preference"
+    | "relation-preference";
+  /** Human-readable explanation of why it applied. */
+  label: string;
+  /** Signed change; 0 when the adjustment only affects ranking. */
+  delta: number;
+  /** Whether `delta` is in match score units (0-1) or confidence percentage points. */
+  unit: "score" | "confidence";
+}
+
+/**
+ * A scoring check that produced a positive score, with the title variant it matched.
+ * @source
+ */
+export interface MatchCheckHit {
+  /** Check that fired. */
+  check: MatchCheckId;
+  /** Score the check produced (0-1), after its own adjustments. */
+  score: number;
+  /** AniList title variant that matched. */
+  title?: string;
+  /** Variant type: "english", "romaji", "native", or "synonym_N". */
+  source?: string;
+  /** Penalties applied inside the check. */
+  adjustments?: ScoreAdjustment[];
+}
+
 /** Secondary/contextual words excluded from primary token matching (e.g., "season", "part", "episode"). @source */
 const SECONDARY_WORDS = new Set([
   "season",
@@ -190,6 +253,34 @@ const normalizeSeasonShorthand = (token: string): string | null => {
   return null;
 };
 
+/**
+ * Detect a season, part, volume, chapter, or arc marker in a title.
+ * Checks single tokens ("s2", "part3") and adjacent pairs ("Season 2", "Part 3").
+ *
+ * @param title - The title to inspect
+ * @returns The marker's number as a string, or null if the title has no marker
+ * @source
+ */
+export const detectSeasonMarker = (title: string): string | null => {
+  const tokens = title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+
+  for (let index = 0; index < tokens.length; index++) {
+    const single = normalizeSeasonShorthand(tokens[index]);
+    if (single) return single;
+
+    const next = tokens[index + 1];
+    if (next && /^\d+$/.test(next)) {
+      const paired = normalizeSeasonShorthand(tokens[index] + next);
+      if (paired) return paired;
+    }
+  }
+
+  return null;
+};
+
 /**
  * Convert Roman numerals to their decimal representation.
  * Handles standard Roman numeral notation with subtractive principle (IV=4, IX=9, etc.).
@@ -380,6 +471,7 @@ function isTitleMatch(title: string, searchName: string): boolean {
  * @param normalizedSearchTitle - The normalized search title
  * @param searchTitle - The original search title (for logging)
  * @param manga - The manga object being matched (for logging)
+ * @param hits - Optional list that receives the check that produced the score
  * @returns Match score (0.8-1) if found, -1 otherwise
  * @source
  */
@@ -388,13 +480,15 @@ function checkDirectMatches(
   normalizedSearchTitle: string,
   searchTitle: string,
   manga: AniListManga,
+  hits?: MatchCheckHit[],
 ): number {
-  for (const { text, source } of normalizedTitles) {
+  for (const { text, source, original } of normalizedTitles) {
     // Perfect match
     if (text === normalizedSearchTitle) {
       console.debug(
         `[MangaSearchService] 💯 Perfect match found for title: "${text}" (${source})`,
       );
+      hits?.push({ check: "perfect-title", score: 1, title: original, source });
       return 1;
     }
 
@@ -412,11 +506,23 @@ function checkDirectMatches(
         console.debug(
           `[MangaSearchService] ⭐ Article-only difference detected between "${normalizedSearchTitle}" and "${text}" (${source}) - very high score`,
         );
+        hits?.push({
+          check: "article-difference",
+          score: 0.97,
+          title: original,
+          source,
+        });
         return 0.97;
       }
       console.debug(
         `[MangaSearchService] ✅ Search title "${searchTitle}" is a substantial part of "${text}" (${source})`,
       );
+      hits?.push({
+        check: "search-in-title",
+        score: 0.85,
+        title: original,
+        source,
+      });
       return 0.85;
     }
 
@@ -431,11 +537,23 @@ function checkDirectMatches(
         console.debug(
           `[MangaSearchService] ⭐ Article-only difference detected between "${text}" and "${searchTitle}" (${source}) - very high score`,
         );
+        hits?.push({
+          check: "article-difference",
+          score: 0.97,
+          title: original,
+          source,
+        });
         return 0.97;
       }
       console.debug(
         `[MangaSearchService] ✅ Title "${text}" is a substantial part of search "${searchTitle}" (${source})`,
       );
+      hits?.push({
+        check: "title-in-search",
+        score: 0.8,
+        title: original,
+        source,
+      });
       return 0.8;
     }
   }
@@ -620,6 +738,7 @@ function calculateOverlapMetrics(
  * @param normalizedTitles - Normalized title entries to check
  * @param normalizedSearchTitle - The normalized search title
  * @param searchTitle - The original search title (for logging)
+ * @param hits - Optional list that receives each title's overlap score and density penalty
  * @returns Best overlap match score (0.6-0.98) or -1 if no match
  * @source
  */
@@ -627,6 +746,7 @@ function checkMeaningfulWordOverlap(
   normalizedTitles: NormalizedTitleEntry[],
   normalizedSearchTitle: string,
   searchTitle: string,
+  hits?: MatchCheckHit[],
 ): number {
   const searchMeaningfulWords = extractMeaningfulWords(searchTitle);
   if (searchMeaningfulWords.length === 0) return -1;
@@ -697,6 +817,23 @@ function checkMeaningfulWordOverlap(
       metrics.orderSimilarity,
     );
 
+    hits?.push({
+      check: "meaningful-overlap",
+      score: penalizedScore,
+      title: original,
+      source,
+      adjustments:
+        penalty > 0
+          ? [
+              {
+                kind: "overlap-density-penalty",
+                label: `Title has many words the search lacks (density ${density.toFixed(2)})`,
+                delta: -penalty,
+                unit: "score",
+              },
+            ]
+          : undefined,
+    });
     bestScore = Math.max(bestScore, penalizedScore);
   }
 
@@ -733,12 +870,14 @@ function calculateOverlapDensityPenalty(
  *
  * @param normalizedTitles - Normalized title entries to check
  * @param searchTitle - The search title to match as potential initialism
+ * @param hits - Optional list that receives each initialism match
  * @returns Initialism match score (0.8-0.92) or -1 if no match
  * @source
  */
 function checkInitialismMatch(
   normalizedTitles: NormalizedTitleEntry[],
   searchTitle: string,
+  hits?: MatchCheckHit[],
 ): number {
   const compactSearch = searchTitle.toLowerCase().replaceAll(/[^a-z0-9]/g, "");
 
@@ -762,6 +901,7 @@ function checkInitialismMatch(
       console.debug(
         `[MangaSearchService] 🔤 Initialism match detected: "${searchTitle}" ↔ "${original}" (${source})`,
       );
+      hits?.push({ check: "initialism", score: 0.92, title: original, source });
       return 0.92;
     }
 
@@ -773,6 +913,7 @@ function checkInitialismMatch(
       console.debug(
         `[MangaSearchService] 🔤 Initialism similarity (${(similarity * 100).toFixed(1)}%) for "${searchTitle}" against "${original}" (${source})`,
       );
+      hits?.push({ check: "initialism", score, title: original, source });
       bestScore = Math.max(bestScore, score);
     }
   }
@@ -788,6 +929,7 @@ function checkPrefixMatch(
   normalizedTitles: NormalizedTitleEntry[],
   normalizedSearchTitle: string,
   searchTitle: string,
+  hits?: MatchCheckHit[],
 ): number {
   const searchTokens = normalizedSearchTitle
     .split(/\s+/)
@@ -822,6 +964,12 @@ function checkPrefixMatch(
       `[MangaSearchService] 📌 Prefix match detected between "${searchTitle}" and "${original}" (${source}) - shared words: ${prefixMatchCount}, score: ${prefixScore.toFixed(2)}`,
     );
 
+    hits?.push({
+      check: "prefix",
+      score: prefixScore,
+      title: original,
+      source,
+    });
     bestScore = Math.max(bestScore, prefixScore);
     if (bestScore >= 0.9) {
       break;
@@ -839,6 +987,7 @@ function checkPrefixMatch(
  * @param normalizedSearchTitle - The normalized search title
  * @param searchTitle - The original search title
  * @param options - Matching options (e.g., to disable overlap heuristics)
+ * @param hits - Optional list that receives every check that produced a score
  * @returns Best word-based match score or -1 if no match
  * @source
  */
@@ -847,6 +996,7 @@ function checkWordMatching(
   normalizedSearchTitle: string,
   searchTitle: string,
   options?: MatchScoreOptions,
+  hits?: MatchCheckHit[],
 ): number {
   let bestScore = -1;
   const searchWords = normalizedSearchTitle
@@ -857,12 +1007,13 @@ function checkWordMatching(
     normalizedTitles,
     normalizedSearchTitle,
     searchTitle,
+    hits,
   );
   if (prefixScore > bestScore) {
     bestScore = prefixScore;
   }
 
-  for (const { text, source } of normalizedTitles) {
+  for (const { text, source, original } of normalizedTitles) {
     const titleWords = text.split(/\s+/);
 
     // Calculate word matching score
@@ -872,6 +1023,12 @@ function checkWordMatching(
       console.debug(
         `[MangaSearchService] ✅ High word match ratio (${adjustedDisplay}) between "${text}" and "${searchTitle}" (${source}) - score: ${wordMatchScore.toFixed(2)}`,
       );
+      hits?.push({
+        check: "word-ratio",
+        score: wordMatchScore,
+        title: original,
+        source,
+      });
 
       if (wordMatchScore > 0.9) {
         return wordMatchScore;
@@ -887,6 +1044,12 @@ function checkWordMatching(
       source,
     );
     if (similarityScore > 0) {
+      hits?.push({
+        check: "text-similarity",
+        score: similarityScore,
+        title: original,
+        source,
+      });
       bestScore = Math.max(bestScore, similarityScore);
     }
   }
@@ -896,12 +1059,17 @@ function checkWordMatching(
       normalizedTitles,
       normalizedSearchTitle,
       searchTitle,
+      hits,
     );
     if (overlapScore > 0) {
       bestScore = Math.max(bestScore, overlapScore);
     }
 
-    const initialismScore = checkInitialismMatch(normalizedTitles, searchTitle);
+    const initialismScore = checkInitialismMatch(
+      normalizedTitles,
+      searchTitle,
+      hits,
+    );
     if (initialismScore > 0) {
       bestScore = Math.max(bestScore, initialismScore);
     }
@@ -1158,6 +1326,7 @@ function checkSubsetMatch(
  * @param normalizedSearchTitle - The normalized search title
  * @param searchTitle - The original search title
  * @param importantWords - Important search words (length > 2) for subset matching
+ * @param hits - Optional list that receives every check that produced a score
  * @returns Best legacy match score or -1 if no match
  * @source
  */
@@ -1166,6 +1335,7 @@ function checkLegacyMatching(
   normalizedSearchTitle: string,
   searchTitle: string,
   importantWords: string[],
+  hits?: MatchCheckHit[],
 ): number {
   let bestScore = -1;
 
@@ -1191,59 +1361,81 @@ function checkLegacyMatching(
     }
 
     // Check various matching approaches
-    const approaches = [
-      () =>
-        checkExactTitleMatch(
-          normalizedTitle,
-          specialCharTitle,
-          normalizedSearchTitle,
-          specialCharSearchTitle,
-          title,
-        ),
-      () =>
-        checkPartialTitleMatch(
-          normalizedTitle,
-          specialCharTitle,
-          normalizedSearchTitle,
-          specialCharSearchTitle,
-          title,
-          searchTitle,
-        ),
-      () =>
-        checkWordSimilarity(
-          specialCharTitle,
-          specialCharSearchTitle,
-          title,
-          searchTitle,
-        ),
-      () =>
-        checkContainedTitle(
-          normalizedTitle,
-          normalizedSearchTitle,
-          title,
-          searchTitle,
-        ),
-      () =>
-        checkEnhancedSimilarity(
-          normalizedTitle,
-          normalizedSearchTitle,
-          title,
-          searchTitle,
-        ),
-      () => checkSeasonPatterns(normalizedTitle, normalizedSearchTitle),
-      () =>
-        checkSubsetMatch(
-          processedTitle,
-          searchTitle,
-          normalizedTitle,
-          normalizedSearchTitle,
-          importantWords,
-        ),
+    const approaches: Array<[MatchCheckId, () => number]> = [
+      [
+        "exact-title",
+        () =>
+          checkExactTitleMatch(
+            normalizedTitle,
+            specialCharTitle,
+            normalizedSearchTitle,
+            specialCharSearchTitle,
+            title,
+          ),
+      ],
+      [
+        "partial-title",
+        () =>
+          checkPartialTitleMatch(
+            normalizedTitle,
+            specialCharTitle,
+            normalizedSearchTitle,
+            specialCharSearchTitle,
+            title,
+            searchTitle,
+          ),
+      ],
+      [
+        "word-similarity",
+        () =>
+          checkWordSimilarity(
+            specialCharTitle,
+            specialCharSearchTitle,
+            title,
+            searchTitle,
+          ),
+      ],
+      [
+        "contained-title",
+        () =>
+          checkContainedTitle(
+            normalizedTitle,
+            normalizedSearchTitle,
+            title,
+            searchTitle,
+          ),
+      ],
+      [
+        "enhanced-similarity",
+        () =>
+          checkEnhancedSimilarity(
+            normalizedTitle,
+            normalizedSearchTitle,
+            title,
+            searchTitle,
+          ),
+      ],
+      [
+        "season-pattern",
+        () => checkSeasonPatterns(normalizedTitle, normalizedSearchTitle),
+      ],
+      [
+        "subset",
+        () =>
+          checkSubsetMatch(
+            processedTitle,
+            searchTitle,
+            normalizedTitle,
+            normalizedSearchTitle,
+            importantWords,
+          ),
+      ],
     ];
 
-    for (const approach of approaches) {
+    for (const [check, approach] of approaches) {
       const score = approach();
       if (score > 0) {
+        hits?.push({ check, score, title });
         bestScore = Math.max(bestScore, score);
         if (score >= 0.95) return score; // Early return for very high scores
       }
@@ -1267,6 +1459,37 @@ export interface MatchScoreDetails {
     wordMatch: number;
     legacyMatch: number;
   };
+  /** Check that produced the score and the title variant it matched. */
+  hit?: MatchCheckHit;
+}
+
+/**
+ * Pick the check that produced a phase's final score.
+ * Phases keep the first best score they see, so the first hit with that score is the winner.
+ *
+ * @param hits - Checks that fired during the phase, in order
+ * @param score - The phase's final score
+ * @param manga - The manga being matched, used to label legacy hits with their title variant
+ * @returns The winning hit, or undefined if no check produced the score
+ * @source
+ */
+function pickWinningHit(
+  hits: MatchCheckHit[],
+  score: number,
+  manga: AniListManga,
+): MatchCheckHit | undefined {
+  const hit = hits.find((entry) => entry.score === score);
+  if (!hit || hit.source || !hit.title) return hit;
+
+  // Legacy checks work on raw titles, so look up which variant the title was
+  const { english, romaji, native } = manga.title;
+  if (hit.title === english) return { ...hit, source: "english" };
+  if (hit.title === romaji) return { ...hit, source: "romaji" };
+  if (hit.title === native) return { ...hit, source: "native" };
+  const synonymIndex = manga.synonyms?.indexOf(hit.title) ?? -1;
+  return synonymIndex >= 0
+    ? { ...hit, source: `synonym_${synonymIndex}` }
+    : hit;
 }
 
 /**
@@ -1328,11 +1551,13 @@ export function calculateMatchScoreDetails(
   const importantWords = searchWords.filter((word) => word.length > 2);
 
   // Check for direct matches first (highest confidence)
+  const directHits: MatchCheckHit[] = [];
   const directMatch = checkDirectMatches(
     normalizedTitles,
     normalizedSearchTitle,
     searchTitle,
     manga,
+    directHits,
   );
 
   if (directMatch > 0) {
@@ -1340,15 +1565,18 @@ export function calculateMatchScoreDetails(
       score: directMatch,
       matchType: "direct",
       components: { directMatch, wordMatch: 0, legacyMatch: 0 },
+      hit: pickWinningHit(directHits, directMatch, manga),
     };
   }
 
   // Try word-based matching approaches
+  const wordHits: MatchCheckHit[] = [];
   const wordMatch = checkWordMatching(
     normalizedTitles,
     normalizedSearchTitle,
     searchTitle,
     options,
+    wordHits,
   );
 
   if (wordMatch > 0) {
@@ -1356,15 +1584,18 @@ export function calculateMatchScoreDetails(
       score: wordMatch,
       matchType: "word",
       components: { directMatch: 0, wordMatch, legacyMatch: 0 },
+      hit: pickWinningHit(wordHits, wordMatch, manga),
     };
   }
 
   // Finally try legacy matching approaches for comprehensive coverage
+  const legacyHits: MatchCheckHit[] = [];
   const legacyMatch = checkLegacyMatching(
     titles,
     normalizedSearchTitle,
     searchTitle,
     importantWords,
+    legacyHits,
   );
 
   console.debug(
@@ -1375,6 +1606,7 @@ export function calculateMatchScoreDetails(
     score: legacyMatch,
     matchType: "legacy",
     components: { directMatch: 0, wordMatch: 0, legacyMatch },
+    hit: pickWinningHit(legacyHits, legacyMatch, manga),
   };
 }
 
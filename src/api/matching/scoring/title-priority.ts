@@ -8,6 +8,15 @@
 import { AniListManga } from "../../anilist/types";
 import { normalizeForMatching } from "../normalization";
 import { calculateEnhancedSimilarity } from "../../../utils/enhanced-similarity";
+import type { ScoreAdjustment } from "./match-scorer";
+
+/** Priority score per closest title type. @source */
+const TITLE_TYPE_PRIORITY: Record<string, number> = {
+  english: 100,
+  romaji: 90,
+  native: 80,
+  synonym: 70,
+};
 
 /**
  * Calculate similarity score between a title and normalized search term.
@@ -84,12 +93,25 @@ export function calculateTitleTypePriority(
   }
 
   // Return priority score based on title type
-  const priorityMap: Record<string, number> = {
-    english: 100,
-    romaji: 90,
-    native: 80,
-    synonym: 70,
-  };
+  return TITLE_TYPE_PRIORITY[bestMatchType] ?? 60;
+}
 
-  return priorityMap[bestMatchType] ?? 60;
+/**
+ * Describe the English title preference for a score breakdown.
+ * It never changes confidence; it ranks the candidate ahead of others with equal confidence.
+ *
+ * @param titleTypePriority - Priority returned by calculateTitleTypePriority
+ * @returns The adjustment if the English title was the closest variant, otherwise undefined
+ * @source
+ */
+export function getEnglishPreferenceAdjustment(
+  titleTypePriority: number,
+): ScoreAdjustment | undefined {
+  if (titleTypePriority !== TITLE_TYPE_PRIORITY.english) return undefined;
+  return {
+    kind: "english-preference",
+    label: "English title is the closest variant, so it ranks first on ties",
+    delta: 0,
+    unit: "confidence",
+  };
 }
@@ -19,10 +19,13 @@ import type {
   UncachedMangaControl,
 } from "./batching/types";
 import { DEFAULT_SEARCH_CONFIG } from "./orchestration/types";
+import { getMatchConfig } from "@/utils/storage";
 import { searchMangaByTitle as orchestratedSearch } from "./orchestration";
 import { syncWithClientCache, generateCacheKey, isCacheValid } from "./cache";
 import {
   categorizeMangaForBatching,
+  resolveMangaSourceUrls,
+  recordUrlResolvedSources,
   processKnownMangaIds,
   processBatchedUncachedManga,
   compileMatchResults,
@@ -347,6 +350,29 @@ export async function matchSingleManga(
   );
 }
 
+/**
+ * Builds the options library matching passes to {@link batchMatchManga}, using the stored match settings.
+ * @param bypassCache - Skip cached results and search AniList again.
+ * @returns Search service configuration for a batch match.
+ * @source
+ */
+export function getBatchMatchOptions(
+  bypassCache = false,
+): Partial<SearchServiceConfig> {
+  return {
+    batchSize: 5,
+    searchPerPage: 50,
+    maxSearchResults: 20,
+    matchConfig: {
+      confidenceThreshold: 75,
+      shouldPreferEnglishTitles: true,
+      shouldUseAlternativeTitles: true,
+      enableExtraTitleSearches: getMatchConfig().enableExtraTitleSearches,
+    },
+    bypassCache,
+  };
+}
+
 /**
  * Matches multiple Kenmei manga entries efficiently using batch operations.
  *
@@ -413,6 +439,7 @@ export async function batchMatchManga(
           cachedComickSources: {},
           cachedMangaDexSources: {},
           cachedFallbackIndices: new Set<number>(),
+          cachedUrlResolvedIds: new Map<number, number>(),
         };
 
         // Categorize manga based on cache status
@@ -433,6 +460,16 @@ export async function batchMatchManga(
         // Check for cancellation
         checkCancellation();
 
+        // Resolve series URLs to AniList IDs before falling back to title search
+        const urlResolved = await resolveMangaSourceUrls(
+          { uncachedManga, knownMangaIds },
+          searchConfig,
+          { shouldCancel, abortSignal },
+        );
+
+        // Check for cancellation
+        checkCancellation();
+
         // Process manga with known IDs first
         await processKnownMangaIds(
           { knownMangaIds, mangaList, uncachedManga },
@@ -441,6 +478,7 @@ export async function batchMatchManga(
           { updateProgress },
           storage,
         );
+        recordUrlResolvedSources(urlResolved, storage);
 
         // Check for cancellation
         checkCancellation();
@@ -0,0 +1,345 @@
+/**
+ * @packageDocumentation
+ * @module ConfidenceCalibrationPanel
+ * @description Debug panel comparing the default and calibrated confidence curves against the user's logged match decisions.
+ */
+
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { RefreshCw, RotateCcw, Target } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/Card";
+import { Badge } from "../ui/Badge";
+import { Button } from "../ui/Button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "../ui/AlertDialog";
+import { useDebugActions } from "../../contexts/debug-context";
+import { cn } from "@/utils/tailwind";
+import {
+  DEFAULT_CONFIDENCE_CURVE,
+  mapScoreToConfidence,
+} from "@/api/matching/scoring";
+import type { MatchScoreDetails } from "@/api/matching/scoring/match-scorer";
+import {
+  getCalibrationBins,
+  getConfidenceCalibration,
+  getMatchDecisions,
+  MIN_CALIBRATION_SAMPLES,
+  recalibrateConfidence,
+  resetConfidenceCalibration,
+} from "@/api/matching/scoring/confidence-calibration";
+
+type MatchType = MatchScoreDetails["matchType"];
+
+/** Match types in the order they are offered for the curve view. */
+const MATCH_TYPE_OPTIONS: ReadonlyArray<{ value: MatchType; label: string }> = [
+  { value: "direct", label: "Direct" },
+  { value: "word", label: "Word" },
+  { value: "legacy", label: "Legacy" },
+  { value: "none", label: "None" },
+];
+
+/** Match score step between plotted curve points. */
+const CURVE_STEP = 0.02;
+
+/**
+ * Formats an ISO timestamp for display.
+ * @source
+ */
+const formatTimestamp = (value: string) => new Date(value).toLocaleString();
+
+/**
+ * Confidence calibration panel for the debug menu.
+ * Plots the default and calibrated score-to-confidence curves for a match type
+ * with the observed accept rate of logged decisions, and lets the user refit or reset the calibration.
+ * @returns JSX element rendering the calibration panel
+ * @source
+ */
+export function ConfidenceCalibrationPanel(): React.ReactElement {
+  const { recordEvent } = useDebugActions();
+  const [matchType, setMatchType] = useState<MatchType>("word");
+  // Bumped after recalibrating or resetting so stored data is re-read
+  const [revision, setRevision] = useState(0);
+
+  const decisions = useMemo(() => getMatchDecisions(), [revision]);
+  const calibration = useMemo(() => getConfidenceCalibration(), [revision]);
+
+  const curveData = useMemo(() => {
+    const points = [];
+    for (let score = CURVE_STEP; score <= 1.0001; score += CURVE_STEP) {
+      const roundedScore = Number(score.toFixed(2));
+      points.push({
+        score: roundedScore,
+        defaultConfidence: mapScoreToConfidence(
+          roundedScore,
+          matchType,
+          DEFAULT_CONFIDENCE_CURVE,
+        ),
+        calibratedConfidence: calibration
+          ? mapScoreToConfidence(roundedScore, matchType, calibration.curve)
+          : undefined,
+      });
+    }
+    return points;
+  }, [calibration, matchType]);
+
+  const observedData = useMemo(
+    () =>
+      getCalibrationBins(
+        decisions.filter((record) => record.details.matchType === matchType),
+      ).map((bin) => ({
+        score: Number(((bin.from + bin.to) / 2).toFixed(2)),
+        observed: Math.round(bin.correctRate),
+        count: bin.count,
+      })),
+    [decisions, matchType],
+  );
+
+  const handleRecalibrate = useCallback(() => {
+    const result = recalibrateConfidence();
+    setRevision((value) => value + 1);
+    if (!result) {
+      toast.info("Not enough decisions to calibrate yet", {
+        description: `Accept or reject at least ${MIN_CALIBRATION_SAMPLES} suggestions, including a few of each.`,
+      });
+      return;
+    }
+    recordEvent({
+      type: "matching.confidence-calibrated",
+      message: `Confidence recalibrated from ${result.sampleCount} decisions`,
+      level: "info",
+      metadata: { ...result.curve, sampleCount: result.sampleCount },
+    });
+    toast.success("Confidence curve recalibrated", {
+      description:
+        "New matches use it now. Recalculate confidence on the matching page to update existing ones.",
+    });
+  }, [recordEvent]);
+
+  const handleReset = useCallback(() => {
+    resetConfidenceCalibration();
+    setRevision((value) => value + 1);
+    recordEvent({
+      type: "matching.confidence-calibration-reset",
+      message: "Confidence calibration reset to defaults",
+      level: "warn",
+    });
+    toast.success("Confidence calibration reset to defaults");
+  }, [recordEvent]);
+
+  const parameterRows = [
+    {
+      label: "Steepness",
+      defaultValue: DEFAULT_CONFIDENCE_CURVE.steepness.toFixed(2),
+      calibratedValue: calibration?.curve.steepness.toFixed(2),
+    },
+    {
+      label: "Midpoint",
+      defaultValue: DEFAULT_CONFIDENCE_CURVE.midpoint.toFixed(3),
+      calibratedValue: calibration?.curve.midpoint.toFixed(3),
+    },
+    ...MATCH_TYPE_OPTIONS.map(({ value, label }) => ({
+      label: `${label} match bias`,
+      defaultValue: String(DEFAULT_CONFIDENCE_CURVE.matchTypeBias[value]),
+      calibratedValue: calibration
+        ? String(calibration.curve.matchTypeBias[value])
+        : undefined,
+    })),
+  ];
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <Card className="border-border/50">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
+          <div className="flex flex-col gap-1">
+            <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+              <Target className="h-4 w-4" />
+              Confidence calibration
+              <Badge
+                variant="outline"
+                className={cn(
+                  "rounded-full text-[0.65rem] uppercase tracking-wide",
+                  calibration
+                    ? "border-emerald-400/50 bg-emerald-500/10 text-emerald-600 dark:text-emerald-300"
+                    : "border-slate-400/50 text-slate-500",
+                )}
+              >
+                {calibration ? "Calibrated" : "Default curve"}
+              </Badge>
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {decisions.length} decision{decisions.length === 1 ? "" : "s"}{" "}
+              logged for this account.{" "}
+              {calibration
+                ? `Fitted to ${calibration.sampleCount} (${calibration.correctCount} correct) on ${formatTimestamp(calibration.calibratedAt)}. Log loss ${calibration.defaultLogLoss.toFixed(3)} → ${calibration.logLoss.toFixed(3)}.`
+                : `The curve is fitted once at least ${MIN_CALIBRATION_SAMPLES} decisions are logged.`}
+            </CardDescription>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button variant="outline" size="sm" onClick={handleRecalibrate}>
+              <RefreshCw className="mr-1 h-3.5 w-3.5" />
+              Recalibrate
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!calibration && decisions.length === 0}
+                >
+                  <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                  Reset
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    Reset confidence calibration
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This restores the default confidence curve and clears the
+                    logged decisions for this account, so calibration starts
+                    over. This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleReset}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Reset
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card className="border-border/50">
+        <CardHeader className="flex flex-row items-center justify-between gap-4 pb-2">
+          <div className="flex flex-col gap-1">
+            <CardTitle className="text-sm font-semibold">
+              Score to confidence
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Dots show how often you accepted candidates in each score range.
+            </CardDescription>
+          </div>
+          <div className="flex gap-1" role="group" aria-label="Match type">
+            {MATCH_TYPE_OPTIONS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={matchType === value ? "default" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setMatchType(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="score"
+                type="number"
+                domain={[0, 1]}
+                tickCount={6}
+                fontSize={11}
+              />
+              <YAxis domain={[0, 100]} unit="%" fontSize={11} />
+              <Tooltip
+                formatter={(value: number, name: string) => [`${value}%`, name]}
+                labelFormatter={(score: number) => `Score ${score}`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line
+                data={curveData}
+                dataKey="defaultConfidence"
+                name="Default"
+                stroke="#94a3b8"
+                strokeDasharray="4 4"
+                dot={false}
+                isAnimationActive={false}
+              />
+              {calibration && (
+                <Line
+                  data={curveData}
+                  dataKey="calibratedConfidence"
+                  name="Calibrated"
+                  stroke="#6366f1"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              <Scatter
+                data={observedData}
+                dataKey="observed"
+                name="Observed accept rate"
+                fill="#10b981"
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-semibold">Parameters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground text-left">
+              <tr>
+                <th className="pb-1 font-medium">Parameter</th>
+                <th className="pb-1 font-medium">Default</th>
+                <th className="pb-1 font-medium">Calibrated</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {parameterRows.map((row) => (
+                <tr key={row.label} className="border-border/40 border-t">
+                  <td className="py-1 font-sans">{row.label}</td>
+                  <td className="py-1">{row.defaultValue}</td>
+                  <td className="py-1">{row.calibratedValue ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import {
   Radio,
   ActivitySquare,
   Gauge,
+  Target,
 } from "lucide-react";
 import { StorageDebugger } from "./StorageDebugger";
 import { LogViewer } from "./LogViewer";
@@ -26,6 +27,7 @@ import { StateInspector } from "./StateInspector";
 import { IpcViewer } from "./IpcViewer";
 import { EventLogger } from "./EventLogger";
 import { PerformanceMonitor } from "./PerformanceMonitor";
+import { ConfidenceCalibrationPanel } from "./ConfidenceCalibrationPanel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/Tabs";
 import { Badge } from "../ui/Badge";
 import { useDebugState } from "../../contexts/debug-context";
@@ -56,7 +58,7 @@ export interface DebugMenuProps {
 
 /**
  * Debug command center for accessing development utilities.
- * Displays enabled debug panels (Storage Explorer, Log Viewer, State Inspector, IPC Traffic, Event Logger).
+ * Displays enabled debug panels (Storage Explorer, Log Viewer, State Inspector, IPC Traffic, Event Logger, Performance Monitor, Confidence Calibration).
  * Panels are toggled from Settings → Data → Debug Tools.
  * @param props - Component props
  * @returns JSX element rendering the debug menu dialog
@@ -70,6 +72,7 @@ export function DebugMenu({ isOpen, onClose }: Readonly<DebugMenuProps>) {
     isIpcViewerEnabled,
     isEventLoggerEnabled,
     isPerformanceMonitorEnabled,
+    isConfidenceCalibrationEnabled,
   } = useDebugState();
 
   const [activePanel, setActivePanel] = useState<string>("");
@@ -182,6 +185,21 @@ export function DebugMenu({ isOpen, onClose }: Readonly<DebugMenuProps>) {
       });
     }
 
+    if (isConfidenceCalibrationEnabled) {
+      entries.push({
+        id: "confidence-calibration",
+        label: "Confidence Calibration",
+        description:
+          "Compare the default and calibrated confidence curves against your match decisions.",
+        icon: (
+          <div className="grid h-10 w-10 place-items-center rounded-xl bg-indigo-500/10 text-indigo-500">
+            <Target className="h-5 w-5" />
+          </div>
+        ),
+        element: <ConfidenceCalibrationPanel />,
+      });
+    }
+
     return entries;
   }, [
     isIpcViewerEnabled,
@@ -190,6 +208,7 @@ export function DebugMenu({ isOpen, onClose }: Readonly<DebugMenuProps>) {
     isStateInspectorEnabled,
     isStorageDebuggerEnabled,
     isPerformanceMonitorEnabled,
+    isConfidenceCalibrationEnabled,
     setActivePanel,
   ]);
 
@@ -0,0 +1,651 @@
+/**
+ * @packageDocumentation
+ * @module CsvMappingWizard
+ * @description Column-mapping step for CSV files the Kenmei parser cannot read on its own. Lets the user map columns and status strings to Kenmei fields, previews the result through the CSV worker, reports row errors, and saves mappings as named profiles.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { AlertTriangle, Columns3, Save, Trash2 } from "lucide-react";
+import { Button } from "../ui/Button";
+import { Badge } from "../ui/Badge";
+import { Input } from "../ui/Input";
+import { Label } from "../ui/Label";
+import { Alert, AlertDescription } from "../ui/Alert";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "../ui/Card";
+import { KenmeiData } from "../../types/kenmei";
+import type { KenmeiManga, KenmeiStatus } from "../../api/kenmei/types";
+import {
+  AppError,
+  createError,
+  ErrorType,
+  ErrorRecoveryAction,
+} from "../../utils/error-handling";
+import { formatStatusLabel } from "../../utils/manga-status-utils";
+import { getCSVWorkerPool } from "@/workers";
+import {
+  CSV_MAPPABLE_FIELDS,
+  collectStatusValues,
+  deleteCsvMappingProfile,
+  findCsvMappingProfileForHeaders,
+  getCsvMappingProfiles,
+  resolveMalIdsToAniList,
+  saveCsvMappingProfile,
+  serializeCsvRows,
+  suggestCsvColumnMapping,
+  suggestStatusValues,
+  type CsvColumnMapping,
+  type CsvMappableField,
+  type CsvMappingProfile,
+  type CsvRowError,
+} from "@/api/importers";
+import { toMangaItem } from "@/api/importers/kenmei";
+
+/** Data rows sent to the worker for the live preview. */
+const PREVIEW_ROW_COUNT = 20;
+
+/** Delay before re-running the preview after a mapping change. */
+const PREVIEW_DEBOUNCE_MS = 300;
+
+/** Row errors listed after a full parse before the list is truncated. */
+const MAX_LISTED_ERRORS = 100;
+
+const KENMEI_STATUSES: KenmeiStatus[] = [
+  "reading",
+  "completed",
+  "on_hold",
+  "dropped",
+  "plan_to_read",
+];
+
+const SELECT_CLASS_NAME =
+  "border-input bg-background ring-offset-background focus:ring-ring flex h-9 w-full items-center justify-between rounded-md border px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-1 disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * A CSV file waiting for a column mapping.
+ * @property fileName - Original file name.
+ * @property content - Full CSV text.
+ * @property rows - Parsed rows, header first.
+ * @source
+ */
+export interface CsvMappingSource {
+  fileName: string;
+  content: string;
+  rows: string[][];
+}
+
+/**
+ * Props for the CsvMappingWizard component.
+ * @property source - CSV file to map.
+ * @property onComplete - Callback with the mapped data once the user confirms.
+ * @property onCancel - Callback when the user abandons the mapping.
+ * @property onError - Callback when parsing the mapped file fails.
+ * @internal
+ * @source
+ */
+interface CsvMappingWizardProps {
+  source: CsvMappingSource;
+  onComplete: (data: KenmeiData) => void;
+  onCancel: () => void;
+  onError: (error: AppError) => void;
+}
+
+/**
+ * Builds the starting mapping: the newest saved profile that fits the headers, or one suggested from known header names.
+ * @param rows - Parsed rows, header first.
+ * @returns Initial mapping and the profile it came from.
+ * @source
+ */
+function getInitialMapping(rows: string[][]): {
+  mapping: CsvColumnMapping;
+  profile?: CsvMappingProfile;
+} {
+  const headers = rows[0] ?? [];
+  const profile = findCsvMappingProfileForHeaders(headers);
+  if (profile) return { mapping: profile.mapping, profile };
+
+  const mapping = suggestCsvColumnMapping(headers);
+  mapping.statusValues = suggestStatusValues(
+    collectStatusValues(rows, mapping),
+  );
+  return { mapping };
+}
+
+/**
+ * Groups row errors by row number.
+ * @param errors - Row errors.
+ * @returns Errors keyed by row.
+ * @source
+ */
+function groupErrorsByRow(errors: CsvRowError[]): Map<number, CsvRowError[]> {
+  const grouped = new Map<number, CsvRowError[]>();
+  for (const error of errors) {
+    grouped.set(error.row, [...(grouped.get(error.row) ?? []), error]);
+  }
+  return grouped;
+}
+
+/**
+ * Column-mapping wizard for arbitrary CSV imports.
+ * @param props - Component props.
+ * @returns React element with column and status mapping, preview, and profile controls.
+ * @source
+ */
+export function CsvMappingWizard({
+  source,
+  onComplete,
+  onCancel,
+  onError,
+}: Readonly<CsvMappingWizardProps>) {
+  const initial = useMemo(() => getInitialMapping(source.rows), [source]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(initial.mapping);
+  const [profiles, setProfiles] = useState(getCsvMappingProfiles);
+  const [selectedProfileId, setSelectedProfileId] = useState(
+    initial.profile?.id ?? "",
+  );
+  const [profileName, setProfileName] = useState(initial.profile?.name ?? "");
+  const [preview, setPreview] = useState<{
+    manga: KenmeiManga[];
+    errors: CsvRowError[];
+  } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingResult, setPendingResult] = useState<{
+    manga: KenmeiManga[];
+    errors: CsvRowError[];
+  } | null>(null);
+
+  const headers = source.rows[0] ?? [];
+  const dataRowCount = Math.max(0, source.rows.length - 1);
+  const statusValues = useMemo(
+    () => collectStatusValues(source.rows, mapping),
+    [source.rows, mapping],
+  );
+  const previewErrorsByRow = useMemo(
+    () => groupErrorsByRow(preview?.errors ?? []),
+    [preview],
+  );
+
+  // Re-run the preview through the CSV worker whenever the mapping changes
+  useEffect(() => {
+    if (!mapping.columns.title) {
+      setPreview(null);
+      setIsPreviewing(false);
+      return;
+    }
+
+    const workerPool = getCSVWorkerPool({
+      enableWorkers: true,
+      fallbackToMainThread: true,
+    });
+    let taskId: string | null = null;
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      setIsPreviewing(true);
+      const task = workerPool.startParsing(
+        serializeCsvRows(source.rows.slice(0, PREVIEW_ROW_COUNT + 1)),
+        { mapping },
+      );
+      taskId = task.taskId;
+      task.promise
+        .then((result) => {
+          if (!cancelled) setPreview(result);
+        })
+        .catch((error) => {
+          console.error("[CsvMapping] ❌ Preview parsing failed:", error);
+          if (!cancelled) setPreview(null);
+        })
+        .finally(() => {
+          if (!cancelled) setIsPreviewing(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (taskId) workerPool.cancelTask(taskId);
+    };
+  }, [mapping, source.rows]);
+
+  /**
+   * Maps a field to a column, or clears it when the column is empty.
+   * Newly seen status strings get suggested statuses when the status column changes.
+   * @param field - Target field.
+   * @param column - Header name, or "" to unmap.
+   * @source
+   */
+  const handleColumnChange = (field: CsvMappableField, column: string) => {
+    setPendingResult(null);
+    setMapping((current) => {
+      const columns = { ...current.columns };
+      if (column) columns[field] = column;
+      else delete columns[field];
+
+      const next = { ...current, columns };
+      if (field === "status") {
+        next.statusValues = {
+          ...suggestStatusValues(collectStatusValues(source.rows, next)),
+          ...current.statusValues,
+        };
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Maps a raw status string to a Kenmei status.
+   * @param value - Raw status string.
+   * @param status - Kenmei status, or "" to unmap.
+   * @source
+   */
+  const handleStatusChange = (value: string, status: KenmeiStatus | "") => {
+    setPendingResult(null);
+    setMapping((current) => {
+      const next = { ...current.statusValues };
+      if (status) next[value.toLowerCase()] = status;
+      else delete next[value.toLowerCase()];
+      return { ...current, statusValues: next };
+    });
+  };
+
+  /**
+   * Applies a saved profile.
+   * @param profileId - Profile to apply, or "" to keep the current mapping.
+   * @source
+   */
+  const handleProfileSelect = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find((candidate) => candidate.id === profileId);
+    if (!profile) return;
+    setPendingResult(null);
+    setMapping(profile.mapping);
+    setProfileName(profile.name);
+  };
+
+  /**
+   * Saves the current mapping under the entered name.
+   * @source
+   */
+  const handleProfileSave = () => {
+    if (!profileName.trim()) return;
+    const profile = saveCsvMappingProfile(profileName, mapping);
+    setProfiles(getCsvMappingProfiles());
+    setSelectedProfileId(profile.id);
+  };
+
+  /**
+   * Deletes the selected profile.
+   * @source
+   */
+  const handleProfileDelete = () => {
+    if (!selectedProfileId) return;
+    deleteCsvMappingProfile(selectedProfileId);
+    setProfiles(getCsvMappingProfiles());
+    setSelectedProfileId("");
+  };
+
+  /**
+   * Hands the mapped entries to the import flow.
+   * @param manga - Mapped entries.
+   * @source
+   */
+  const completeImport = (manga: KenmeiManga[]) => {
+    onComplete({
+      version: "1.0.0",
+      exportedAt: new Date().toISOString(),
+      manga: manga.map(toMangaItem),
+    });
+  };
+
+  /**
+   * Parses the whole file with the current mapping.
+   * Imports directly when every row is valid; otherwise lists the row errors for confirmation.
+   * @source
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const workerPool = getCSVWorkerPool({
+        enableWorkers: true,
+        fallbackToMainThread: true,
+      });
+      const { manga, errors } = await workerPool.parseCSVFile(source.content, {
+        mapping,
+      });
+
+      if (manga.length === 0) {
+        onError(
+          createError(
+            ErrorType.VALIDATION,
+            "No rows could be imported with this column mapping.",
+            undefined,
+            "NO_ENTRIES",
+            ErrorRecoveryAction.NONE,
+            "Check that the title column is mapped to the column holding series names.",
+          ),
+        );
+        return;
+      }
+
+      // Mapped MyAnimeList IDs are resolved so entries can be matched by ID
+      await resolveMalIdsToAniList(manga);
+
+      console.info(
+        `[CsvMapping] ✅ Mapped ${manga.length} entries from ${source.fileName} (${errors.length} row errors)`,
+      );
+
+      if (errors.length === 0) {
+        completeImport(manga);
+      } else {
+        setPendingResult({ manga, errors });
+      }
+    } catch (error) {
+      console.error("[CsvMapping] ❌ Mapped CSV parsing failed:", error);
+      onError(
+        createError(
+          ErrorType.VALIDATION,
+          "Failed to parse the file with this column mapping.",
+          error,
+          "PARSE_FAILED",
+          ErrorRecoveryAction.NONE,
+          "Make sure the file is a comma-separated CSV with a header row.",
+        ),
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const skippedRowCount = pendingResult
+    ? new Set(
+        pendingResult.errors
+          .filter((error) => error.skipped)
+          .map((error) => error.row),
+      ).size
+    : 0;
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card className="shadow-lg">
+        <CardHeader className="flex flex-col gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary/10 text-primary flex h-11 w-11 items-center justify-center rounded-full">
+              <Columns3 className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-semibold">
+                Map your CSV columns
+              </CardTitle>
+              <CardDescription>
+                {source.fileName} has {dataRowCount.toLocaleString()} rows we
+                couldn’t read automatically. Tell us which column holds what.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-8">
+          {/* Saved profiles */}
+          <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="csv-mapping-profile">Saved mapping</Label>
+              <select
+                id="csv-mapping-profile"
+                value={selectedProfileId}
+                onChange={(e) => handleProfileSelect(e.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">None</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-mapping-profile-name">Profile name</Label>
+              <Input
+                id="csv-mapping-profile-name"
+                value={profileName}
+                placeholder="e.g. My spreadsheet"
+                onChange={(e) => setProfileName(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!profileName.trim()}
+              onClick={handleProfileSave}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={!selectedProfileId}
+              onClick={handleProfileDelete}
+              aria-label="Delete saved mapping"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Column mapping */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Columns</h3>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {CSV_MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`csv-mapping-${field}`} className="text-xs">
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <select
+                    id={`csv-mapping-${field}`}
+                    value={mapping.columns[field] ?? ""}
+                    onChange={(e) => handleColumnChange(field, e.target.value)}
+                    className={SELECT_CLASS_NAME}
+                  >
+                    <option value="">Not mapped</option>
+                    {headers.map((header, index) => (
+                      <option key={`${header}-${index}`} value={header.trim()}>
+                        {header.trim() || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Status mapping */}
+          {statusValues.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Status values</h3>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {statusValues.map((value) => (
+                  <div key={value} className="space-y-1">
+                    <Label
+                      htmlFor={`csv-status-${value}`}
+                      className="font-mono text-xs"
+                    >
+                      {value}
+                    </Label>
+                    <select
+                      id={`csv-status-${value}`}
+                      value={mapping.statusValues[value.toLowerCase()] ?? ""}
+                      onChange={(e) =>
+                        handleStatusChange(
+                          value,
+                          e.target.value as KenmeiStatus | "",
+                        )
+                      }
+                      className={SELECT_CLASS_NAME}
+                    >
+                      <option value="">Not mapped</option>
+                      {KENMEI_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {formatStatusLabel(status)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-semibold">Preview</h3>
+              <Badge variant="outline">
+                First {Math.min(PREVIEW_ROW_COUNT, dataRowCount)} rows
+              </Badge>
+              {isPreviewing && (
+                <span className="border-primary/30 border-t-primary h-4 w-4 animate-spin rounded-full border-2" />
+              )}
+            </div>
+            {mapping.columns.title ? (
+              <div className="border-border/60 overflow-x-auto rounded-lg border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-muted-foreground text-xs">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Row</th>
+                      <th className="px-3 py-2 text-left font-medium">Title</th>
+                      <th className="px-3 py-2 text-left font-medium">
+                        Status
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium">
+                        Chapters
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium">Score</th>
+                      <th className="px-3 py-2 text-left font-medium">
+                        Issues
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Array.from(
+                      { length: Math.min(PREVIEW_ROW_COUNT, dataRowCount) },
+                      (_, index) => index + 1,
+                    ).map((row) => {
+                      const entry = preview?.manga.find(
+                        (manga) => manga.id === row,
+                      );
+                      const rowErrors = previewErrorsByRow.get(row) ?? [];
+                      return (
+                        <tr
+                          key={row}
+                          className={`border-border/40 border-t ${
+                            rowErrors.length > 0 ? "bg-amber-500/5" : ""
+                          }`}
+                        >
+                          <td className="text-muted-foreground px-3 py-2 font-mono text-xs">
+                            {row}
+                          </td>
+                          <td className="px-3 py-2">
+                            {entry?.title ?? (
+                              <span className="text-muted-foreground italic">
+                                Skipped
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            {entry && formatStatusLabel(entry.status)}
+                          </td>
+                          <td className="px-3 py-2">{entry?.chaptersRead}</td>
+                          <td className="px-3 py-2">{entry?.score || ""}</td>
+                          <td className="px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+                            {rowErrors
+                              .map(
+                                (error) => `${error.field}: ${error.message}`,
+                              )
+                              .join("; ")}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-sm">
+                Map the title column to see a preview.
+              </p>
+            )}
+          </div>
+
+          {/* Row errors from the full parse */}
+          {pendingResult && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>
+                  {pendingResult.errors.length.toLocaleString()} problems found.{" "}
+                  {skippedRowCount.toLocaleString()} rows without a title will
+                  be skipped; other invalid values fall back to defaults.
+                </p>
+                <ul className="max-h-48 list-disc space-y-1 overflow-y-auto pl-5 text-xs">
+                  {pendingResult.errors
+                    .slice(0, MAX_LISTED_ERRORS)
+                    .map((error) => (
+                      <li key={`${error.row}-${error.field}`}>
+                        Row {error.row}, {error.field}
+                        {error.value && ` ("${error.value}")`}: {error.message}
+                      </li>
+                    ))}
+                </ul>
+                {pendingResult.errors.length > MAX_LISTED_ERRORS && (
+                  <p className="text-xs">
+                    and{" "}
+                    {(
+                      pendingResult.errors.length - MAX_LISTED_ERRORS
+                    ).toLocaleString()}{" "}
+                    more
+                  </p>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex flex-wrap justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Choose a different file
+          </Button>
+          {pendingResult ? (
+            <Button
+              type="button"
+              onClick={() => completeImport(pendingResult.manga)}
+            >
+              Import {pendingResult.manga.length.toLocaleString()} entries
+              anyway
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              disabled={!mapping.columns.title || isImporting}
+              onClick={handleImport}
+            >
+              {isImporting ? "Mapping rows..." : "Apply mapping"}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </motion.section>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * @packageDocumentation
  * @module FileDropZone
- * @description React component for uploading and parsing Kenmei CSV export files via drag-and-drop or file selection. Handles validation, progress, and error reporting.
+ * @description React component for uploading and parsing library exports (Kenmei, Mihon/Tachiyomi, MyAnimeList, MangaUpdates) via drag-and-drop or file selection. Detects the format automatically and handles validation, progress, and error reporting.
  */
 import React, { useState, useRef } from "react";
 import { UploadCloud, File, FileText } from "lucide-react";
@@ -14,24 +14,56 @@ import {
   AppError,
   CancelledError,
 } from "../../utils/error-handling";
-import { getCSVWorkerPool } from "@/workers";
+import {
+  libraryImporterRegistry,
+  needsCsvColumnMapping,
+} from "@/api/importers";
+import { decodeText } from "@/api/importers/kenmei";
+import { parseCSVRows } from "@/api/kenmei/parser";
 import { Progress } from "../ui/Progress";
+import type { CsvMappingSource } from "./CsvMappingWizard";
+
+const UNSUPPORTED_FORMAT_MESSAGE =
+  "Unsupported file format. Please upload a Kenmei, Mihon/Tachiyomi, MyAnimeList or MangaUpdates export.";
+const NO_ENTRIES_MESSAGE =
+  "No manga entries found in the file. Please check the file format.";
+const FILE_TOO_LARGE_PREFIX = "File is too large.";
 
 /**
  * Props for the FileDropZone component.
  * @property onFileLoaded - Callback invoked with parsed KenmeiData when file is successfully loaded and parsed.
  * @property onError - Callback invoked with an AppError if file loading or parsing fails.
+ * @property onMappingRequired - Callback invoked with a CSV whose columns the Kenmei parser does not recognize, so the user can map them.
  * @internal
  * @source
  */
 export interface FileDropZoneProps {
   onFileLoaded: (data: KenmeiData) => void;
   onError: (error: AppError) => void;
+  onMappingRequired?: (source: CsvMappingSource) => void;
 }
 
 /**
- * FileDropZone component for uploading and parsing Kenmei CSV export files.
- * Provides drag-and-drop and file selection UI, validates file type and size, parses CSV, and reports progress and errors.
+ * Reads a CSV that needs a column mapping, or returns null if the Kenmei parser can read it.
+ * Only the header line is parsed unless a mapping is needed.
+ * @param fileName - Original file name.
+ * @param content - CSV text.
+ * @returns Mapping source, or null.
+ * @source
+ */
+function getCsvMappingSource(
+  fileName: string,
+  content: string,
+): CsvMappingSource | null {
+  const normalized = content.replaceAll("\r\n", "\n").replaceAll("\r", "\n");
+  const [headers = []] = parseCSVRows(normalized.split("\n", 1)[0] + "\n");
+  if (!needsCsvColumnMapping(headers)) return null;
+  return { fileName, content: normalized, rows: parseCSVRows(normalized) };
+}
+
+/**
+ * FileDropZone component for uploading and parsing library exports.
+ * Provides drag-and-drop and file selection UI, detects the export format, validates size, parses the file with the matching importer, and reports progress and errors.
  * @param props - Component props.
  * @returns React element displaying file upload interface.
  * @source
@@ -39,13 +71,14 @@ export interface FileDropZoneProps {
 export function FileDropZone({
   onFileLoaded,
   onError,
+  onMappingRequired,
 }: Readonly<FileDropZoneProps>) {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [fileSize, setFileSize] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
+  const [cancelParse, setCancelParse] = useState<(() => void) | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const progressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(
     null,
@@ -99,10 +132,8 @@ export function FileDropZone({
   };
 
   /**
-   * Validates and processes a file for CSV parsing.
-   * Validates file type (.csv), size (max 10MB), and parses content using worker pool.
-   * Calls onFileLoaded or onError callback based on result.
-   * Falls back to main thread for small files.
+   * Detects the file's format and parses it with the matching importer.
+   * Validates the format and the importer's size limit, then calls onFileLoaded or onError.
    * @param file - File object to process.
    * @source
    */
@@ -127,84 +158,66 @@ export function FileDropZone({
     }, 500);
 
     try {
-      // Validate file type
-      if (!file.name.toLowerCase().endsWith(".csv")) {
-        throw new Error("Invalid file format. Please upload a CSV file.");
+      // Read file content and detect its format
+      const sourceFile = {
+        name: file.name,
+        size: file.size,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      };
+      const importer = libraryImporterRegistry.detect(sourceFile);
+      if (!importer) {
+        throw new Error(UNSUPPORTED_FORMAT_MESSAGE);
       }
 
-      // Check file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        throw new Error("File is too large. Maximum size is 10MB.");
+      // Check file size against the importer's limit
+      if (file.size > importer.maxFileSize) {
+        throw new Error(
+          `${FILE_TOO_LARGE_PREFIX} Maximum size is ${Math.round(importer.maxFileSize / (1024 * 1024))}MB.`,
+        );
       }
 
-      // Read file content
-      const content = await file.text();
+      // CSVs from spreadsheets or other trackers go through the mapping wizard
+      if (importer.id === "kenmei-csv" && onMappingRequired) {
+        const mappingSource = getCsvMappingSource(
+          file.name,
+          decodeText(sourceFile),
+        );
+        if (mappingSource) {
+          console.info(
+            `[FileDropZone] 🧭 ${file.name} has unrecognized columns, opening the mapping wizard`,
+          );
+          setIsLoading(false);
+          onMappingRequired(mappingSource);
+          return;
+        }
+      }
 
-      // Use CSV worker pool for parsing
-      const workerPool = getCSVWorkerPool({
-        enableWorkers: true,
-        fallbackToMainThread: true,
-      });
+      console.info(
+        `[FileDropZone] 📂 Importing ${file.name} as ${importer.label}`,
+      );
 
-      // Clear simulated progress, now use worker progress
+      // Clear simulated progress, now use importer progress
       if (progressIntervalRef.current) {
         clearInterval(progressIntervalRef.current);
         progressIntervalRef.current = null;
       }
       setLoadingProgress(90);
 
-      // Parse using worker pool with progress callback and store taskId for cancellation
-      const { taskId, promise } = workerPool.startParsing(
-        content,
-        { defaultStatus: "plan_to_read" as const },
-        (progress: {
-          payload: { processedBytes?: number; totalBytes?: number };
-        }) => {
-          // Update progress bar based on worker progress (byte-based)
-          if (progress.payload.processedBytes && progress.payload.totalBytes) {
-            const byteProgress =
-              (progress.payload.processedBytes / progress.payload.totalBytes) *
-              100;
-            const clampedProgress = Math.min(100, Math.max(0, byteProgress));
-            setLoadingProgress(clampedProgress);
-          }
-        },
-      );
-
-      // Store taskId for potential cancellation
-      setCurrentTaskId(taskId);
-
-      const { manga } = await promise;
+      // Store the cancel function so the parse can be cancelled from the UI
+      const kenmeiData = await importer.parse(sourceFile, {
+        onProgress: setLoadingProgress,
+        onCancellable: (cancel) => setCancelParse(() => cancel),
+      });
 
-      if (!manga || manga.length === 0) {
-        throw new Error(
-          "No manga entries found in the CSV file. Please check the file format.",
-        );
+      if (!kenmeiData.manga || kenmeiData.manga.length === 0) {
+        throw new Error(NO_ENTRIES_MESSAGE);
       }
 
-      const kenmeiData: KenmeiData = {
-        version: "1.0.0",
-        exportedAt: new Date().toISOString(),
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        manga: manga.map((item: any) => ({
-          title: item.title,
-          status: item.status,
-          score: item.score,
-          chaptersRead: item.chaptersRead ?? item.chapters_read,
-          volumesRead: item.volumesRead ?? item.volumes_read,
-          createdAt: item.createdAt ?? item.created_at,
-          updatedAt: item.updatedAt ?? item.updated_at,
-          lastReadAt: item.lastReadAt ?? item.last_read_at,
-          notes: item.notes,
-          url: item.url,
-        })),
-      };
-
       setLoadingProgress(100);
       setIsLoading(false);
       onFileLoaded(kenmeiData);
     } catch (error) {
-      console.error("CSV parsing error:", error);
+      console.error("[FileDropZone] ❌ Import parsing error:", error);
 
       // Handle cancellation silently without error callback
       if (error instanceof CancelledError) {
@@ -216,56 +229,53 @@ export function FileDropZone({
 
       // Build error based on error type
       let appError: AppError;
-      if (error instanceof Error) {
-        switch (error.message) {
-          case "Invalid file format. Please upload a CSV file.":
-            appError = createError(
-              ErrorType.VALIDATION,
-              error.message,
-              undefined,
-              "INVALID_FORMAT",
-              ErrorRecoveryAction.NONE,
-              "Please export a fresh CSV file from Kenmei and try again. Ensure you're using the latest Kenmei version.",
-            );
-            break;
-          case "File is too large. Maximum size is 10MB.":
-            appError = createError(
-              ErrorType.VALIDATION,
-              error.message,
-              undefined,
-              "FILE_TOO_LARGE",
-              ErrorRecoveryAction.NONE,
-              "Try exporting a smaller date range from Kenmei, or split your library into multiple imports.",
-            );
-            break;
-          case "No manga entries found in the CSV file. Please check the file format.":
-            appError = createError(
-              ErrorType.VALIDATION,
-              error.message,
-              undefined,
-              "NO_ENTRIES",
-              ErrorRecoveryAction.NONE,
-              "Verify your CSV contains manga data. Check the export settings in Kenmei.",
-            );
-            break;
-          default:
-            appError = createError(
-              ErrorType.VALIDATION,
-              "Failed to parse CSV file. Please ensure it's a valid Kenmei export file.",
-              error,
-              "PARSE_FAILED",
-              ErrorRecoveryAction.NONE,
-              "Ensure the file is UTF-8 encoded and hasn't been modified. Re-export from Kenmei if needed.",
-            );
-        }
+      if (
+        error instanceof Error &&
+        error.message === UNSUPPORTED_FORMAT_MESSAGE
+      ) {
+        appError = createError(
+          ErrorType.VALIDATION,
+          error.message,
+          undefined,
+          "INVALID_FORMAT",
+          ErrorRecoveryAction.NONE,
+          `Supported formats: ${libraryImporterRegistry
+            .getAll()
+            .map((importer) => importer.label)
+            .join(", ")}.`,
+        );
+      } else if (
+        error instanceof Error &&
+        error.message.startsWith(FILE_TOO_LARGE_PREFIX)
+      ) {
+        appError = createError(
+          ErrorType.VALIDATION,
+          error.message,
+          undefined,
+          "FILE_TOO_LARGE",
+          ErrorRecoveryAction.NONE,
+          "Try exporting a smaller date range, or split your library into multiple imports.",
+        );
+      } else if (
+        error instanceof Error &&
+        error.message === NO_ENTRIES_MESSAGE
+      ) {
+        appError = createError(
+          ErrorType.VALIDATION,
+          error.message,
+          undefined,
+          "NO_ENTRIES",
+          ErrorRecoveryAction.NONE,
+          "Verify the export contains manga. For Mihon/Tachiyomi, make sure library entries were included in the backup.",
+        );
       } else {
         appError = createError(
           ErrorType.VALIDATION,
-          "Failed to parse CSV file. Please ensure it's a valid Kenmei export file.",
+          "Failed to parse the file. Please ensure it's a valid, unmodified library export.",
           error,
           "PARSE_FAILED",
           ErrorRecoveryAction.NONE,
-          "Ensure the file is UTF-8 encoded and hasn't been modified. Re-export from Kenmei if needed.",
+          "Ensure the file hasn't been modified. Create a fresh export or backup if needed.",
         );
       }
 
@@ -276,8 +286,8 @@ export function FileDropZone({
         clearInterval(progressIntervalRef.current);
         progressIntervalRef.current = null;
       }
-      // Clear task ID as parsing is complete or failed
-      setCurrentTaskId(null);
+      // Clear cancel handler as parsing is complete or failed
+      setCancelParse(null);
     }
   };
 
@@ -303,7 +313,7 @@ export function FileDropZone({
     setFileSize(null);
     setIsLoading(false);
     setLoadingProgress(0);
-    setCurrentTaskId(null);
+    setCancelParse(null);
     // Clear any existing progress interval
     if (progressIntervalRef.current) {
       clearInterval(progressIntervalRef.current);
@@ -314,7 +324,7 @@ export function FileDropZone({
   return (
     <label
       htmlFor="file-input"
-      aria-label="Upload Kenmei CSV Export - Click to select file or drag and drop"
+      aria-label="Upload library export - Click to select file or drag and drop"
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
@@ -328,7 +338,7 @@ export function FileDropZone({
         id="file-input"
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept={libraryImporterRegistry.getAcceptedExtensions().join(",")}
         className="hidden"
         onChange={handleFileSelect}
         data-onboarding="file-input"
@@ -356,18 +366,14 @@ export function FileDropZone({
                   Processing file...
                 </p>
               </div>
-              {currentTaskId && (
+              {cancelParse && (
                 <Button
                   size="sm"
                   variant="outline"
                   type="button"
                   onClick={(clickEvent) => {
                     clickEvent.stopPropagation();
-                    const workerPool = getCSVWorkerPool({
-                      enableWorkers: true,
-                      fallbackToMainThread: true,
-                    });
-                    workerPool.cancelTask(currentTaskId);
+                    cancelParse();
                     // Clear loading state
                     if (progressIntervalRef.current) {
                       clearInterval(progressIntervalRef.current);
@@ -375,7 +381,7 @@ export function FileDropZone({
                     }
                     setIsLoading(false);
                     setLoadingProgress(0);
-                    setCurrentTaskId(null);
+                    setCancelParse(null);
                   }}
                 >
                   Cancel
@@ -413,9 +419,10 @@ export function FileDropZone({
           <div className="bg-primary/10 text-primary mb-2 rounded-full p-3">
             <UploadCloud className="h-8 w-8" />
           </div>
-          <h3 className="text-lg font-medium">Upload Kenmei CSV Export</h3>
+          <h3 className="text-lg font-medium">Upload Library Export</h3>
           <p className="text-muted-foreground max-w-md text-sm">
-            Drag and drop your Kenmei CSV export file here
+            Drag and drop a Kenmei export, Mihon/Tachiyomi backup (.tachibk),
+            MyAnimeList XML export, or MangaUpdates reading list
           </p>
 
           <div className="mt-2">
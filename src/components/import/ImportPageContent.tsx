@@ -9,7 +9,9 @@ import { motion } from "framer-motion";
 import { KenmeiData } from "../../types/kenmei";
 import { AppError } from "../../utils/error-handling";
 import { FileDropZone } from "./FileDropZone";
+import type { CsvMappingSource } from "./CsvMappingWizard";
 import { DataTable } from "./DataTable";
+import { ImportDiffSummary } from "./ImportSummary";
 import { Button } from "../ui/Button";
 import { Badge } from "../ui/Badge";
 import { Progress } from "../ui/Progress";
@@ -36,6 +38,7 @@ import {
   formatStatusLabel,
   type StatusCounts,
 } from "../../utils/manga-status-utils";
+import type { ImportDiff, RematchScope } from "../../utils/manga-import-utils";
 
 /**
  * Props for the ImportSuccessContent component.
@@ -96,12 +99,14 @@ export function ImportSuccessContent({
  * Props for the FileUploadContent component.
  * @property onFileLoaded - Callback invoked when CSV file is successfully loaded and parsed.
  * @property onError - Callback invoked if file loading or parsing fails.
+ * @property onMappingRequired - Callback invoked when a CSV needs its columns mapped.
  * @internal
  * @source
  */
 interface FileUploadProps {
   onFileLoaded: (data: KenmeiData) => void;
   onError: (error: AppError) => void;
+  onMappingRequired?: (source: CsvMappingSource) => void;
 }
 
 /**
@@ -113,6 +118,7 @@ interface FileUploadProps {
 export function FileUploadContent({
   onFileLoaded,
   onError,
+  onMappingRequired,
 }: Readonly<FileUploadProps>) {
   return (
     <motion.section
@@ -167,12 +173,17 @@ export function FileUploadContent({
                   files are supported.
                 </p>
                 <div className="mt-4">
-                  <FileDropZone onFileLoaded={onFileLoaded} onError={onError} />
+                  <FileDropZone
+                    onFileLoaded={onFileLoaded}
+                    onError={onError}
+                    onMappingRequired={onMappingRequired}
+                  />
                 </div>
               </div>
               <p className="text-muted-foreground text-xs">
                 We’ll keep your Kenmei metadata intact and flag any validation
-                issues immediately.
+                issues immediately. CSVs from spreadsheets or other trackers
+                open a column-mapping step.
               </p>
             </TabsContent>
 
@@ -201,6 +212,9 @@ export function FileUploadContent({
  * @property importData - KenmeiData ready for import processing.
  * @property statusCounts - Breakdown of manga count by status.
  * @property previousMatchCount - Number of previously matched entries.
+ * @property importDiff - Changes since the previous import, or null on a first import.
+ * @property rematchScope - Which titles to send back through matching.
+ * @property onRematchScopeChange - Callback to change the rematch scope.
  * @property isLoading - Whether import process is in progress.
  * @property onImport - Callback when user initiates import.
  * @property onReset - Callback to reset import state.
@@ -211,6 +225,9 @@ interface FileReadyProps {
   importData: KenmeiData;
   statusCounts: StatusCounts;
   previousMatchCount: number;
+  importDiff: ImportDiff | null;
+  rematchScope: RematchScope;
+  onRematchScopeChange: (scope: RematchScope) => void;
   isLoading: boolean;
   onImport: () => void;
   onReset: () => void;
@@ -226,6 +243,9 @@ export function FileReadyContent({
   importData,
   statusCounts,
   previousMatchCount,
+  importDiff,
+  rematchScope,
+  onRematchScopeChange,
   isLoading,
   onImport,
   onReset,
@@ -371,6 +391,16 @@ export function FileReadyContent({
             </div>
           )}
 
+          {importDiff && (
+            <div className="border-border/60 bg-muted/10 rounded-lg border p-4">
+              <ImportDiffSummary
+                diff={importDiff}
+                rematchScope={rematchScope}
+                onRematchScopeChange={onRematchScopeChange}
+              />
+            </div>
+          )}
+
           <div className="border-border/60 rounded-lg border">
             <DataTable
               data={importData.manga}
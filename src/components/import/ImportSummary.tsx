@@ -1,7 +1,7 @@
 /**
  * @packageDocumentation
  * @module ImportSummary
- * @description React component for displaying a summary of Kenmei import data, including status breakdown and actions to proceed or cancel.
+ * @description React component for displaying a summary of Kenmei import data, including status breakdown, changes since the previous import, and actions to proceed or cancel.
  */
 import React from "react";
 import { KenmeiExport, KenmeiStatus } from "../../api/kenmei/types";
@@ -14,7 +14,14 @@ import {
   BookOpenCheck,
   ArrowRight,
   FilePlus,
+  GitCompare,
+  Plus,
+  Minus,
+  RefreshCw,
+  TrendingUp,
 } from "lucide-react";
+import type { ImportDiff, RematchScope } from "../../utils/manga-import-utils";
+import { formatStatusLabel } from "../../utils/manga-status-utils";
 import { Button } from "../ui/Button";
 import {
   Card,
@@ -32,6 +39,9 @@ import { Separator } from "../ui/Separator";
  * @property data - KenmeiExport data to summarize.
  * @property onProceed - Callback invoked when user chooses to proceed with import.
  * @property onCancel - Callback invoked when user cancels import.
+ * @property diff - Optional changes since the previous import.
+ * @property rematchScope - Selected rematch scope when a diff is shown.
+ * @property onRematchScopeChange - Callback to change the rematch scope.
  * @internal
  * @source
  */
@@ -39,6 +49,211 @@ export interface ImportSummaryProps {
   data: KenmeiExport;
   onProceed: () => void;
   onCancel: () => void;
+  diff?: ImportDiff | null;
+  rematchScope?: RematchScope;
+  onRematchScopeChange?: (scope: RematchScope) => void;
+}
+
+/**
+ * Props for the ImportDiffSummary component.
+ * @property diff - Changes between the previous import and the new export.
+ * @property rematchScope - Selected rematch scope.
+ * @property onRematchScopeChange - Callback to change the rematch scope.
+ * @source
+ */
+export interface ImportDiffSummaryProps {
+  diff: ImportDiff;
+  rematchScope: RematchScope;
+  onRematchScopeChange: (scope: RematchScope) => void;
+}
+
+/** Number of titles listed per diff category before collapsing the rest. */
+const DIFF_PREVIEW_LIMIT = 8;
+
+/**
+ * Renders a capped list of diff rows with a "more" note.
+ * @param items - Rows to render.
+ * @param renderItem - Row renderer.
+ * @returns List element, or null if there are no rows.
+ * @source
+ */
+function DiffList<T>({
+  items,
+  renderItem,
+}: Readonly<{
+  items: T[];
+  renderItem: (item: T) => React.ReactNode;
+}>) {
+  if (items.length === 0) return null;
+  const remaining = items.length - DIFF_PREVIEW_LIMIT;
+  return (
+    <ul className="text-muted-foreground space-y-1 text-xs">
+      {items.slice(0, DIFF_PREVIEW_LIMIT).map(renderItem)}
+      {remaining > 0 && <li className="italic">…and {remaining} more</li>}
+    </ul>
+  );
+}
+
+/**
+ * Shows what changed since the previous import and lets the user pick what to re-match.
+ * @param props - Component props.
+ * @returns React element with the import diff.
+ * @source
+ */
+export function ImportDiffSummary({
+  diff,
+  rematchScope,
+  onRematchScopeChange,
+}: Readonly<ImportDiffSummaryProps>) {
+  const stats = [
+    {
+      key: "added",
+      label: "Added",
+      count: diff.added.length,
+      icon: <Plus className="h-4 w-4" />,
+      color: "text-emerald-600 dark:text-emerald-400",
+    },
+    {
+      key: "removed",
+      label: "Removed",
+      count: diff.removed.length,
+      icon: <Minus className="h-4 w-4" />,
+      color: "text-rose-600 dark:text-rose-400",
+    },
+    {
+      key: "status",
+      label: "Status changes",
+      count: diff.statusChanges.length,
+      icon: <RefreshCw className="h-4 w-4" />,
+      color: "text-amber-600 dark:text-amber-400",
+    },
+    {
+      key: "chapters",
+      label: "Chapter updates",
+      count: diff.chapterChanges.length,
+      icon: <TrendingUp className="h-4 w-4" />,
+      color: "text-blue-600 dark:text-blue-400",
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GitCompare className="text-primary h-4 w-4" />
+        <h3 className="text-sm font-medium">Changes since your last import</h3>
+        <Badge variant="outline" className="ml-auto font-mono">
+          {diff.unchangedCount} unchanged
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {stats.map((stat) => (
+          <div
+            key={stat.key}
+            className={`rounded-lg border px-3 py-2 ${stat.count > 0 ? "shadow-sm" : "opacity-50"}`}
+          >
+            <div className={`flex items-center gap-1.5 ${stat.color}`}>
+              {stat.icon}
+              <span className="text-xs font-medium">{stat.label}</span>
+            </div>
+            <span className="mt-1 block text-xl font-bold">{stat.count}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <DiffList
+          items={diff.added}
+          renderItem={(manga) => (
+            <li key={`added-${manga.title}`} className="truncate">
+              <span className="text-emerald-600 dark:text-emerald-400">+</span>{" "}
+              {manga.title}
+            </li>
+          )}
+        />
+        <DiffList
+          items={diff.removed}
+          renderItem={(manga) => (
+            <li key={`removed-${manga.title}`} className="truncate">
+              <span className="text-rose-600 dark:text-rose-400">−</span>{" "}
+              {manga.title}
+            </li>
+          )}
+        />
+        <DiffList
+          items={diff.statusChanges}
+          renderItem={(change) => (
+            <li key={`status-${change.title}`} className="truncate">
+              {change.title}: {formatStatusLabel(change.previousStatus)} →{" "}
+              <span className="text-foreground">
+                {formatStatusLabel(change.status)}
+              </span>
+            </li>
+          )}
+        />
+        <DiffList
+          items={diff.chapterChanges}
+          renderItem={(change) => (
+            <li key={`chapters-${change.title}`} className="truncate">
+              {change.title}: ch. {change.previousChapters} →{" "}
+              <span className="text-foreground">{change.chapters}</span>{" "}
+              <span
+                className={
+                  change.delta > 0
+                    ? "text-emerald-600 dark:text-emerald-400"
+                    : "text-rose-600 dark:text-rose-400"
+                }
+              >
+                ({change.delta > 0 ? "+" : ""}
+                {change.delta})
+              </span>
+            </li>
+          )}
+        />
+      </div>
+
+      {diff.removed.length > 0 && (
+        <p className="text-muted-foreground text-xs">
+          Removed titles stay in your library and keep their matches.
+        </p>
+      )}
+
+      <fieldset className="space-y-2 rounded-lg border p-3">
+        <legend className="px-1 text-xs font-medium">After import</legend>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="radio"
+            name="rematch-scope"
+            className="mt-1"
+            checked={rematchScope === "added"}
+            onChange={() => onRematchScopeChange("added")}
+          />
+          <span>
+            Match only the {diff.added.length} added titles
+            <span className="text-muted-foreground block text-xs">
+              Existing matches for unchanged titles are kept exactly as they
+              are.
+            </span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="radio"
+            name="rematch-scope"
+            className="mt-1"
+            checked={rematchScope === "all"}
+            onChange={() => onRematchScopeChange("all")}
+          />
+          <span>
+            Refresh every existing match
+            <span className="text-muted-foreground block text-xs">
+              All stored matches are updated with the new export data.
+            </span>
+          </span>
+        </label>
+      </fieldset>
+    </div>
+  );
 }
 
 /**
@@ -72,6 +287,9 @@ export function ImportSummary({
   data,
   onProceed,
   onCancel,
+  diff,
+  rematchScope = "added",
+  onRematchScopeChange,
 }: Readonly<ImportSummaryProps>) {
   const { manga } = data;
 
@@ -198,6 +416,17 @@ export function ImportSummary({
             ))}
           </div>
         </div>
+
+        {diff && onRematchScopeChange && (
+          <>
+            <Separator />
+            <ImportDiffSummary
+              diff={diff}
+              rematchScope={rematchScope}
+              onRematchScopeChange={onRematchScopeChange}
+            />
+          </>
+        )}
       </CardContent>
 
       <CardFooter className="flex justify-end gap-3 pb-6 pt-2">
@@ -0,0 +1,144 @@
+/**
+ * @packageDocumentation
+ * @module AccountSwitcher
+ * @description Header dropdown for switching between, adding, and removing saved AniList accounts.
+ */
+
+import React from "react";
+import { Check, LogOut, UserPlus, Users, X } from "lucide-react";
+import { useAuthActions, useAuthState } from "../../hooks/use-auth";
+import { DEFAULT_ANILIST_CONFIG } from "../../config/anilist";
+import type { ApiCredentials } from "../../types/auth";
+import { Button } from "../ui/Button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/DropdownMenu";
+
+/** Avatar shown for accounts without a profile picture. @source */
+const DEFAULT_AVATAR_URL =
+  "https://s4.anilist.co/file/anilistcdn/user/avatar/large/default.png";
+
+/**
+ * Account switcher shown in the header once at least one account is saved.
+ * Each account keeps its own imported library, matches, and sync history.
+ *
+ * @returns The switcher dropdown, or null if no account has signed in yet.
+ * @source
+ */
+export function AccountSwitcher() {
+  const { authState, accounts, activeAccountId, customCredentials, isLoading } =
+    useAuthState();
+  const { switchAccount, addAccount, removeAccount, logout } = useAuthActions();
+
+  if (accounts.length === 0) return null;
+
+  const activeAccount = accounts.find(
+    (account) => account.userId === activeAccountId,
+  );
+  const now = Date.now();
+
+  const handleAddAccount = () => {
+    const credentials: ApiCredentials =
+      authState.credentialSource === "custom" && customCredentials
+        ? customCredentials
+        : {
+            source: "default",
+            clientId: DEFAULT_ANILIST_CONFIG.clientId,
+            clientSecret: DEFAULT_ANILIST_CONFIG.clientSecret,
+            redirectUri: DEFAULT_ANILIST_CONFIG.redirectUri,
+          };
+    addAccount(credentials).catch((error) => {
+      console.error("[AccountSwitcher] ❌ Failed to add account:", error);
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-2 rounded-full px-2"
+          aria-label="Switch AniList account"
+          disabled={isLoading}
+        >
+          {activeAccount ? (
+            <img
+              src={activeAccount.avatarUrl || DEFAULT_AVATAR_URL}
+              alt=""
+              className="h-6 w-6 rounded-full object-cover"
+            />
+          ) : (
+            <Users className="h-4 w-4" />
+          )}
+          <span className="max-w-28 truncate text-xs font-medium max-lg:hidden">
+            {activeAccount?.username ?? "Accounts"}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>AniList accounts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {accounts.map((account) => {
+          const isActive = account.userId === activeAccountId;
+          const isExpired = !account.expiresAt || account.expiresAt <= now;
+          return (
+            <DropdownMenuItem
+              key={account.userId}
+              onSelect={() => switchAccount(account.userId)}
+              disabled={isActive}
+              className="group gap-2"
+            >
+              <img
+                src={account.avatarUrl || DEFAULT_AVATAR_URL}
+                alt=""
+                className="h-6 w-6 rounded-full object-cover"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm">
+                  {account.username ?? `User ${account.userId}`}
+                </p>
+                {isExpired && (
+                  <p className="text-muted-foreground text-xs">
+                    Session expired
+                  </p>
+                )}
+              </div>
+              {isActive ? (
+                <Check className="h-4 w-4 text-emerald-500" />
+              ) : (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-destructive rounded p-0.5 opacity-0 transition-opacity group-hover:opacity-100"
+                  aria-label={`Remove ${account.username ?? "account"}`}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    removeAccount(account.userId);
+                  }}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </DropdownMenuItem>
+          );
+        })}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleAddAccount} className="gap-2">
+          <UserPlus className="h-4 w-4" />
+          Add account
+        </DropdownMenuItem>
+        {activeAccount && (
+          <DropdownMenuItem onSelect={logout} className="gap-2">
+            <LogOut className="h-4 w-4" />
+            Sign out of {activeAccount.username ?? "this account"}
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -7,6 +7,7 @@ import React from "react";
 import { Header } from "./Header";
 import { Footer } from "./Footer";
 import { BackgroundMatchingIndicator } from "./BackgroundMatchingIndicator";
+import { useAuthState } from "../../hooks/use-auth";
 
 /**
  * Main application layout component providing header, footer, and content wrapper.
@@ -21,6 +22,8 @@ export default function BaseLayout({
   children: React.ReactNode;
   onOpenShortcutsPanel?: () => void;
 }>) {
+  const { activeAccountId } = useAuthState();
+
   return (
     <div className="from-background via-background to-background text-foreground bg-linear-to-br relative flex h-screen flex-col overflow-hidden">
       {/* Animated gradient background elements */}
@@ -41,7 +44,11 @@ export default function BaseLayout({
         className="z-1 relative flex-1 overflow-auto px-4 py-6 md:px-6"
         aria-label="Main content"
       >
-        <div className="container mx-auto">
+        {/* Remount pages on account switch so they reload account-scoped data */}
+        <div
+          key={activeAccountId ?? "signed-out"}
+          className="container mx-auto"
+        >
           <div className="bg-background/90 rounded-3xl border border-white/20 p-0 shadow-[0_20px_80px_-50px_rgba(59,130,246,0.6)] backdrop-blur-xl transition-colors dark:border-white/5 dark:bg-slate-950/80">
             {children}
           </div>
@@ -1,7 +1,7 @@
 /**
  * @packageDocumentation
  * @module Header
- * @description Application header component with logo, navigation, theme toggle, and window controls.
+ * @description Application header component with logo, navigation, account switcher, theme toggle, and window controls.
  */
 
 import React, { useRef, useState, useEffect } from "react";
@@ -43,6 +43,7 @@ import { motion } from "framer-motion";
 import appIcon from "../../assets/k2a-icon-512x512.png";
 import { useDebugState, useDebugActions } from "../../contexts/debug-context";
 import { DebugMenu } from "../debug/DebugMenu";
+import { AccountSwitcher } from "./AccountSwitcher";
 import type { LucideIcon } from "lucide-react";
 import { cn } from "@/utils/tailwind";
 
@@ -247,6 +248,9 @@ export function Header({
             </div>
 
             <div className="flex items-center gap-2">
+              <div className="non-draggable">
+                <AccountSwitcher />
+              </div>
               <div className="non-draggable">
                 <ToggleTheme />
               </div>
@@ -136,6 +136,7 @@ const getMatchCardStyles = (match: MangaMatchResult) => {
  * @property onAcceptMatch - Optional callback to accept a match result or batch.
  * @property onRejectMatch - Optional callback to reject a match result or batch.
  * @property onSelectAlternative - Optional callback to select an alternative match.
+ * @property onSelectRelatedEntry - Optional callback to select a related series entry of a candidate.
  * @property onResetToPending - Optional callback to reset a match to pending status.
  * @property searchQuery - Optional search query string to filter results.
  * @property onSetMatchedToPending - Optional callback to reset all matched to pending.
@@ -166,6 +167,7 @@ export interface MangaMatchingPanelProps {
     autoAccept?: boolean,
     directAccept?: boolean,
   ) => void;
+  onSelectRelatedEntry?: (match: MangaMatchResult, manga: AniListManga) => void;
   onResetToPending?: (
     match:
       | MangaMatchResult
@@ -194,6 +196,7 @@ export function MangaMatchingPanel({
   onAcceptMatch,
   onRejectMatch,
   onSelectAlternative,
+  onSelectRelatedEntry,
   onResetToPending,
   searchQuery,
   onSetMatchedToPending,
@@ -1389,6 +1392,7 @@ export function MangaMatchingPanel({
                       onAcceptMatch={wrappedOnAcceptMatch}
                       onRejectMatch={wrappedOnRejectMatch}
                       onSelectAlternative={onSelectAlternative}
+                      onSelectRelatedEntry={onSelectRelatedEntry}
                       onResetToPending={wrappedOnResetToPending}
                       isSelected={isMatchSelected(match.kenmeiManga.id)}
                       onToggleSelection={
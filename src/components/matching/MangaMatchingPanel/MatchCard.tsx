@@ -6,13 +6,22 @@ import type {
   MediaListStatus,
   AniListMediaEntry,
   UserMediaEntry,
+  MangaRelationType,
 } from "../../../api/anilist/types";
 import type { KenmeiManga } from "../../../api/kenmei/types";
-import { Check, ExternalLink, ChevronRight, Info } from "lucide-react";
+import {
+  Check,
+  CheckCheck,
+  ExternalLink,
+  ChevronRight,
+  Info,
+  GitBranch,
+} from "lucide-react";
 import { Badge } from "../../ui/Badge";
 import { Button } from "../../ui/Button";
 import { Separator } from "../../ui/Separator";
 import { ConfidenceBadge } from "./ConfidenceBadge";
+import { ScoreBreakdownPanel } from "./ScoreBreakdownPanel";
 import { createKenmeiUrl } from "./create-kenmei-url";
 import MatchActions from "./MatchActions";
 import { useDebug } from "../../../contexts/debug-context";
@@ -42,6 +51,7 @@ import {
  * @property onAcceptMatch - Callback for accept match action.
  * @property onRejectMatch - Callback for reject match action.
  * @property onSelectAlternative - Callback for alternative match selection.
+ * @property onSelectRelatedEntry - Callback for selecting a related series entry of the primary match.
  * @property onResetToPending - Callback for resetting to pending status.
  * @property isSelected - Whether the card is currently selected.
  * @property onToggleSelection - Callback for toggling selection state.
@@ -68,6 +78,7 @@ export interface MatchCardProps {
     autoAccept?: boolean,
     directAccept?: boolean,
   ) => void;
+  onSelectRelatedEntry?: (match: MangaMatchResult, manga: AniListManga) => void;
   onResetToPending?: (match: MangaMatchResult) => void;
   isSelected?: boolean;
   onToggleSelection?: () => void;
@@ -510,6 +521,109 @@ const renderConfidenceBadge = (match: MangaMatchResult) => {
   );
 };
 
+/**
+ * Renders the expandable score breakdown for the primary match's confidence.
+ * @source
+ */
+const renderScoreBreakdown = (match: MangaMatchResult) => {
+  const primaryMatch = match.anilistMatches?.[0];
+  if (primaryMatch?.confidence === undefined) {
+    return null;
+  }
+
+  return (
+    <ScoreBreakdownPanel
+      breakdown={primaryMatch.scoreBreakdown}
+      confidence={primaryMatch.confidence}
+      className="w-full self-stretch"
+    />
+  );
+};
+
+/**
+ * Renders the recorded reason when the auto-accept policy accepted the current match.
+ * @source
+ */
+const renderAutoAcceptNote = (match: MangaMatchResult) => {
+  if (match.status !== "matched" || !match.autoAccept) {
+    return null;
+  }
+
+  return (
+    <p className="flex w-full items-start gap-1.5 self-stretch rounded-2xl border border-emerald-200/70 bg-emerald-50/70 px-3 py-2 text-xs text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-100">
+      <CheckCheck className="mt-0.5 h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+      <span>
+        <span className="font-semibold">Auto-accepted:</span>{" "}
+        {match.autoAccept.reason}
+      </span>
+    </p>
+  );
+};
+
+/** Labels for a related entry, relative to the primary match. @source */
+const RELATION_LABELS: Record<MangaRelationType, string> = {
+  PREQUEL: "Prequel",
+  SEQUEL: "Sequel",
+  PARENT: "Main story",
+  SIDE_STORY: "Side story",
+  SPIN_OFF: "Spin-off",
+  ALTERNATIVE: "Alternative",
+};
+
+/**
+ * Renders the primary match's related series entries as one-click alternatives.
+ * @source
+ */
+const renderRelatedEntries = (
+  match: MangaMatchResult,
+  primaryManga: AniListManga | undefined,
+  onSelectRelatedEntry?: (match: MangaMatchResult, manga: AniListManga) => void,
+) => {
+  const relations =
+    primaryManga?.relations ??
+    match.anilistMatches?.find((entry) => entry.manga.id === primaryManga?.id)
+      ?.manga.relations;
+  if (!onSelectRelatedEntry || !relations || relations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="inline-flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.18em] text-gray-500 dark:text-gray-400">
+        <GitBranch className="h-3.5 w-3.5" aria-hidden="true" />
+        Related entries
+      </span>
+      <div className="flex flex-wrap gap-2">
+        {relations.map(({ relationType, manga }) => {
+          const title =
+            manga.title?.english || manga.title?.romaji || "Unknown Title";
+          return (
+            <Button
+              key={`${relationType}-${manga.id}`}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-auto max-w-full gap-1.5 rounded-full px-3 py-1 text-xs"
+              onClick={() => onSelectRelatedEntry(match, manga)}
+              title={`Use ${title} as the match`}
+            >
+              <span className="font-semibold text-indigo-600 dark:text-indigo-300">
+                {RELATION_LABELS[relationType]}
+              </span>
+              <span className="truncate">{title}</span>
+              {manga.format && (
+                <span className="text-muted-foreground">
+                  {manga.format.replace("_", " ")}
+                </span>
+              )}
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 /**
  * Renders Kenmei status details (status, chapters read, score).
  * @source
@@ -1278,6 +1392,7 @@ function MatchCard({
   onAcceptMatch,
   onRejectMatch,
   onSelectAlternative,
+  onSelectRelatedEntry,
   onResetToPending,
   isSelected = false,
   onToggleSelection,
@@ -1501,6 +1616,8 @@ function MatchCard({
                 <div className="flex w-full flex-col gap-2 sm:min-w-60 sm:max-w-[360px] sm:shrink-0 sm:items-end sm:self-start">
                   <div className="flex w-full flex-col items-end gap-2 self-stretch sm:w-auto sm:self-end">
                     {renderConfidenceBadge(match)}
+                    {renderScoreBreakdown(match)}
+                    {renderAutoAcceptNote(match)}
                     {isConfidenceTestExporterEnabled && (
                       <ConfidenceTestExporter match={match} />
                     )}
@@ -1551,6 +1668,11 @@ function MatchCard({
                   {renderKenmeiDetails(match, formatStatusText)}
                 </div>
               </div>
+              {renderRelatedEntries(
+                match,
+                primaryMatchCandidate,
+                onSelectRelatedEntry,
+              )}
               <Separator className="bg-foreground/10 dark:bg-white/10" />
               <div className="flex flex-wrap items-center justify-start gap-3">
                 <MatchActions
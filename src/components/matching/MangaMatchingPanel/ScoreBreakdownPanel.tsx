@@ -0,0 +1,200 @@
+import React from "react";
+import { ChevronDown, Info } from "lucide-react";
+import type {
+  MatchCheckId,
+  MatchScoreBreakdown,
+  ScoreAdjustment,
+} from "../../../api/matching/scoring";
+import { cn } from "@/utils/tailwind";
+
+/** Readable names for the scoring checks. @source */
+const CHECK_LABELS: Record<MatchCheckId, string> = {
+  "perfect-title": "Exact title match",
+  "article-difference": "Same title apart from articles",
+  "search-in-title": "Kenmei title found inside the AniList title",
+  "title-in-search": "AniList title found inside the Kenmei title",
+  prefix: "Shared opening words",
+  "word-ratio": "Most words match",
+  "text-similarity": "Close text similarity",
+  "meaningful-overlap": "Key word overlap",
+  initialism: "Initialism match",
+  "exact-title": "Exact match after removing suffixes",
+  "partial-title": "Kenmei title found inside the AniList title",
+  "word-similarity": "Most words match",
+  "contained-title": "Complete title contained",
+  "enhanced-similarity": "Close text similarity",
+  "season-pattern": "Same series with a season or part number",
+  subset: "Words appear in the same order",
+};
+
+/** Readable names for the scoring phases. @source */
+const MATCH_TYPE_LABELS: Record<MatchScoreBreakdown["matchType"], string> = {
+  direct: "Direct match",
+  word: "Word match",
+  legacy: "Fallback match",
+  none: "No match",
+};
+
+/**
+ * Props for the ScoreBreakdownPanel component.
+ *
+ * @property breakdown - Score breakdown of the candidate, if one was recorded.
+ * @property confidence - Final confidence percentage shown on the card.
+ * @property className - Additional Tailwind classes for styling.
+ * @source
+ */
+export interface ScoreBreakdownPanelProps {
+  breakdown?: MatchScoreBreakdown;
+  confidence: number;
+  className?: string;
+}
+
+/**
+ * Formats a breakdown title source such as "english" or "synonym_2".
+ * @source
+ */
+const formatTitleSource = (source: string | undefined) => {
+  if (!source) return undefined;
+  if (source.startsWith("synonym")) return "Synonym";
+  return source.charAt(0).toUpperCase() + source.slice(1);
+};
+
+/**
+ * Formats an adjustment's change for display.
+ * @source
+ */
+const formatAdjustmentDelta = (adjustment: ScoreAdjustment) => {
+  if (adjustment.delta === 0) return "Ranking only";
+  const sign = adjustment.delta > 0 ? "+" : "−";
+  const magnitude = Math.abs(adjustment.delta);
+  return adjustment.unit === "score"
+    ? `${sign}${magnitude.toFixed(2)} score`
+    : `${sign}${Math.round(magnitude)} pts`;
+};
+
+/**
+ * Expandable explanation of a match's confidence.
+ *
+ * Shows which AniList title variant matched, which scoring check fired with its raw score,
+ * the confidence the curve gave that score, and each penalty or boost applied afterwards.
+ *
+ * @param props - Panel configuration.
+ * @returns Collapsible score breakdown.
+ * @source
+ */
+export function ScoreBreakdownPanel({
+  breakdown,
+  confidence,
+  className,
+}: Readonly<ScoreBreakdownPanelProps>) {
+  const [isExpanded, setIsExpanded] = React.useState(false);
+  const panelId = React.useId();
+  const titleSource = formatTitleSource(breakdown?.matchedTitleSource);
+
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border border-slate-200/70 bg-white/70 text-xs text-slate-700 dark:border-slate-700/60 dark:bg-slate-900/60 dark:text-slate-200",
+        className,
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => setIsExpanded((value) => !value)}
+        aria-expanded={isExpanded}
+        aria-controls={panelId}
+        className="flex w-full items-center justify-between gap-2 rounded-2xl px-3 py-2 font-semibold text-slate-600 transition-colors hover:text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300 dark:text-slate-300 dark:hover:text-white"
+      >
+        <span className="inline-flex items-center gap-1.5">
+          <Info className="h-3.5 w-3.5" aria-hidden="true" />
+          Why {Math.round(confidence)}%?
+        </span>
+        <ChevronDown
+          className={cn(
+            "h-3.5 w-3.5 transition-transform duration-200",
+            isExpanded && "rotate-180",
+          )}
+          aria-hidden="true"
+        />
+      </button>
+      {isExpanded && (
+        <div id={panelId} className="space-y-3 px-3 pb-3">
+          {breakdown ? (
+            <>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+                <dt className="text-slate-500 dark:text-slate-400">Matched</dt>
+                <dd className="min-w-0 break-words font-medium">
+                  {breakdown.matchedTitle ? (
+                    <>
+                      “{breakdown.matchedTitle}”
+                      {titleSource && (
+                        <span className="ml-1 text-slate-500 dark:text-slate-400">
+                          ({titleSource})
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    "No title variant matched"
+                  )}
+                </dd>
+                <dt className="text-slate-500 dark:text-slate-400">Check</dt>
+                <dd className="font-medium">
+                  {breakdown.check
+                    ? CHECK_LABELS[breakdown.check]
+                    : MATCH_TYPE_LABELS[breakdown.matchType]}
+                  <span className="ml-1 text-slate-500 dark:text-slate-400">
+                    ({MATCH_TYPE_LABELS[breakdown.matchType].toLowerCase()},
+                    score {Math.max(0, breakdown.score).toFixed(2)})
+                  </span>
+                </dd>
+                <dt className="text-slate-500 dark:text-slate-400">Curve</dt>
+                <dd className="font-medium">
+                  {breakdown.baseConfidence}%
+                  <span className="ml-1 text-slate-500 dark:text-slate-400">
+                    ({breakdown.isCalibrated ? "calibrated" : "default"} curve)
+                  </span>
+                </dd>
+              </dl>
+              {breakdown.adjustments.length > 0 && (
+                <ul className="space-y-1 border-t border-slate-200/70 pt-2 dark:border-slate-700/60">
+                  {breakdown.adjustments.map((adjustment) => (
+                    <li
+                      key={`${adjustment.kind}-${adjustment.label}`}
+                      className="flex items-start justify-between gap-3"
+                    >
+                      <span>{adjustment.label}</span>
+                      <span
+                        className={cn(
+                          "shrink-0 font-mono",
+                          adjustment.delta > 0 &&
+                            "text-emerald-600 dark:text-emerald-400",
+                          adjustment.delta < 0 &&
+                            "text-rose-600 dark:text-rose-400",
+                          adjustment.delta === 0 &&
+                            "text-slate-500 dark:text-slate-400",
+                        )}
+                      >
+                        {formatAdjustmentDelta(adjustment)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex justify-between border-t border-slate-200/70 pt-2 font-semibold dark:border-slate-700/60">
+                <span>Confidence</span>
+                <span>{Math.round(confidence)}%</span>
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-500 dark:text-slate-400">
+              No breakdown was recorded for this match. Recalculate confidence
+              to generate one.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ScoreBreakdownPanel;
@@ -2,7 +2,7 @@ import React from "react";
 import { motion } from "framer-motion";
 import { Button } from "../ui/Button";
 import { MangaMatchingPanel } from "./MangaMatchingPanel";
-import type { MangaMatchResult } from "../../api/anilist/types";
+import type { AniListManga, MangaMatchResult } from "../../api/anilist/types";
 import type { KenmeiManga } from "../../api/kenmei/types";
 
 /**
@@ -12,6 +12,7 @@ import type { KenmeiManga } from "../../api/kenmei/types";
  * @property onAcceptMatch - Callback when a match is accepted.
  * @property onRejectMatch - Callback when a match is rejected.
  * @property onSelectAlternative - Callback to select an alternative match.
+ * @property onSelectRelatedEntry - Optional callback to select a related series entry of a candidate.
  * @property onResetToPending - Callback to reset a match to pending status.
  * @property searchQuery - Current search query to highlight or filter.
  * @property onProceedToSync - Callback to proceed to the sync stage.
@@ -43,6 +44,7 @@ interface MatchingPanelProps {
     autoAccept?: boolean,
     directAccept?: boolean,
   ) => void;
+  onSelectRelatedEntry?: (match: MangaMatchResult, manga: AniListManga) => void;
   onResetToPending: (
     match:
       | MangaMatchResult
@@ -72,6 +74,7 @@ export function MatchingPanel({
   onAcceptMatch,
   onRejectMatch,
   onSelectAlternative,
+  onSelectRelatedEntry,
   onResetToPending,
   searchQuery,
   onProceedToSync,
@@ -101,6 +104,7 @@ export function MatchingPanel({
             onAcceptMatch={onAcceptMatch}
             onRejectMatch={onRejectMatch}
             onSelectAlternative={onSelectAlternative}
+            onSelectRelatedEntry={onSelectRelatedEntry}
             onResetToPending={onResetToPending}
             searchQuery={searchQuery}
             onSetMatchedToPending={onSetMatchedToPending}
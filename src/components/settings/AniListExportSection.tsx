@@ -0,0 +1,144 @@
+/**
+ * @packageDocumentation
+ * @module AniListExportSection
+ * @description Reverse export section for the Data tab - downloads the AniList manga list as a Kenmei-importable file.
+ */
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { FileDown, FileJson, FileSpreadsheet, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { useAuthState } from "@/hooks/use-auth";
+import { getUserMangaList } from "@/api/anilist/client";
+import { resolveScoreFormat } from "@/api/anilist/score-format";
+import type { KenmeiExportFileFormat } from "@/api/kenmei/exporter";
+import { exportAniListLibraryToKenmei } from "@/utils/export-utils";
+import { highlightText, truncateToastMessage } from "@/utils/text-highlight";
+import { cn } from "@/utils/tailwind";
+
+/**
+ * Props for AniListExportSection component.
+ * @source
+ */
+interface AniListExportSectionProps {
+  /** Current search query. */
+  searchQuery: string;
+  /** Currently highlighted section ID. */
+  highlightedSectionId: string | null;
+}
+
+/**
+ * AniList to Kenmei export section.
+ * Fetches the authenticated user's AniList manga list and downloads it as Kenmei CSV or JSON.
+ * @param props - Component props.
+ * @returns The rendered export section.
+ * @source
+ */
+export function AniListExportSection({
+  searchQuery,
+  highlightedSectionId,
+}: Readonly<AniListExportSectionProps>) {
+  const { authState } = useAuthState();
+  const [exportingFormat, setExportingFormat] =
+    useState<KenmeiExportFileFormat | null>(null);
+
+  const isAuthenticated = authState.isAuthenticated && !!authState.accessToken;
+
+  /**
+   * Fetches the AniList library and downloads it in the requested format.
+   * @param format - Output file format.
+   * @source
+   */
+  const handleExport = async (format: KenmeiExportFileFormat) => {
+    if (!authState.accessToken) return;
+
+    setExportingFormat(format);
+    try {
+      const library = await getUserMangaList(authState.accessToken);
+      const filename = await exportAniListLibraryToKenmei(library, format, {
+        scoreFormat: resolveScoreFormat(authState.scoreFormat),
+        username: authState.username,
+        userId: authState.userId,
+      });
+      toast.success("AniList library exported", { description: filename });
+    } catch (error) {
+      console.error(
+        "[AniListExport] ❌ Failed to export AniList library:",
+        error,
+      );
+      toast.error("Failed to export AniList library", {
+        description: truncateToastMessage(
+          error instanceof Error ? error.message : "Unknown error",
+          200,
+        ).component,
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const renderText = (text: string) =>
+    searchQuery ? highlightText(text, searchQuery) : text;
+
+  return (
+    <motion.div
+      id="data-anilist-export"
+      className={cn(
+        "bg-muted/40 space-y-4 rounded-xl border p-6",
+        highlightedSectionId === "data-anilist-export" &&
+          "ring-2 ring-blue-500 ring-offset-2 ring-offset-white dark:ring-blue-400 dark:ring-offset-slate-950",
+      )}
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2, duration: 0.4 }}
+    >
+      <div>
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <FileDown className="h-4 w-4 text-blue-500" />
+          {renderText("Export AniList library to Kenmei")}
+        </h3>
+        <p className="text-muted-foreground mt-1 text-xs">
+          {renderText(
+            "Download your AniList manga list as a Kenmei-compatible CSV or JSON file to move back to Kenmei or onto another device.",
+          )}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!isAuthenticated || exportingFormat !== null}
+          onClick={() => handleExport("csv")}
+        >
+          {exportingFormat === "csv" ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <FileSpreadsheet className="mr-1 h-4 w-4" />
+          )}
+          Export CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!isAuthenticated || exportingFormat !== null}
+          onClick={() => handleExport("json")}
+        >
+          {exportingFormat === "json" ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <FileJson className="mr-1 h-4 w-4" />
+          )}
+          Export JSON
+        </Button>
+      </div>
+
+      <p className="text-muted-foreground text-xs">
+        {isAuthenticated
+          ? "Scores are converted to Kenmei's 10-point scale and statuses are mapped back to Kenmei statuses."
+          : "Sign in to AniList to export your library."}
+      </p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,311 @@
+/**
+ * @packageDocumentation
+ * @module AutoAcceptPolicyManager
+ * @description Settings editor for the policy that accepts high-confidence matches without review.
+ */
+
+import React, { useState, useCallback } from "react";
+import { toast } from "sonner";
+import { CheckCheck } from "lucide-react";
+import {
+  getMatchConfig,
+  saveMatchConfig,
+  type AutoAcceptPolicyConfig,
+  type AutoAcceptProvenanceMode,
+} from "@/utils/storage";
+import { getAutoAcceptPolicy } from "@/api/matching/filtering";
+import { useDebugActions } from "@/contexts/debug-context";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Switch } from "@/components/ui/Switch";
+import { Badge } from "@/components/ui/Badge";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Label } from "@/components/ui/Label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/RadioGroup";
+import { CollapsibleChevron } from "@/components/ui/CollapsibleChevron";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/Collapsible";
+
+/** AniList formats offered as auto-accept constraints. */
+const FORMAT_OPTIONS = [
+  { value: "MANGA", label: "Manga" },
+  { value: "ONE_SHOT", label: "One-shot" },
+  { value: "NOVEL", label: "Light novel" },
+];
+
+/** Countries of origin offered as auto-accept constraints. */
+const COUNTRY_OPTIONS = [
+  { value: "JP", label: "Japan" },
+  { value: "KR", label: "South Korea" },
+  { value: "CN", label: "China" },
+  { value: "TW", label: "Taiwan" },
+];
+
+/** Choices for how MangaDex provenance affects the policy. */
+const PROVENANCE_OPTIONS: ReadonlyArray<{
+  value: AutoAcceptProvenanceMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "ignore",
+    label: "Ignore",
+    description: "Where a candidate was found does not matter",
+  },
+  {
+    value: "trust",
+    label: "Trust",
+    description:
+      "Accept candidates found through a MangaDex AniList link even below the minimums",
+  },
+  {
+    value: "require",
+    label: "Require",
+    description: "Only accept candidates found through a MangaDex AniList link",
+  },
+];
+
+/**
+ * Clamps a number input to 0-100, falling back when it is not a number.
+ * @source
+ */
+const clampPercent = (value: string, fallback: number) => {
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed)) return fallback;
+  return Math.min(100, Math.max(0, parsed));
+};
+
+function AutoAcceptPolicyManagerComponent(): React.JSX.Element {
+  const { recordEvent } = useDebugActions();
+  const [isCollapsibleOpen, setIsCollapsibleOpen] = useState(false);
+  const [policy, setPolicy] =
+    useState<AutoAcceptPolicyConfig>(getAutoAcceptPolicy);
+
+  const updatePolicy = useCallback(
+    (changes: Partial<AutoAcceptPolicyConfig>, message: string) => {
+      const updatedPolicy = { ...policy, ...changes };
+      const matchConfig = getMatchConfig();
+      saveMatchConfig({ ...matchConfig, autoAcceptPolicy: updatedPolicy });
+      setPolicy(updatedPolicy);
+
+      recordEvent({
+        type: "settings.match-config-update",
+        message,
+        level: "info",
+        metadata: {
+          changed_field: "autoAcceptPolicy",
+          config: updatedPolicy,
+        },
+      });
+    },
+    [policy, recordEvent],
+  );
+
+  const handleToggleGlobal = useCallback(
+    (enabled: boolean) => {
+      updatePolicy(
+        { enabled },
+        enabled ? "Enabled auto-accept policy" : "Disabled auto-accept policy",
+      );
+      toast.success(
+        enabled ? "Auto-accept policy enabled" : "Auto-accept policy disabled",
+      );
+    },
+    [updatePolicy],
+  );
+
+  const toggleListValue = useCallback(
+    (
+      field: "allowedFormats" | "allowedCountries",
+      value: string,
+      checked: boolean,
+    ) => {
+      const current = policy[field];
+      const next = checked
+        ? [...current, value]
+        : current.filter((item) => item !== value);
+      updatePolicy({ [field]: next }, "Updated auto-accept constraints");
+    },
+    [policy, updatePolicy],
+  );
+
+  const renderConstraintGroup = (
+    field: "allowedFormats" | "allowedCountries",
+    title: string,
+    options: { value: string; label: string }[],
+  ) => (
+    <div className="space-y-2">
+      <div>
+        <h3 className="text-sm font-medium">{title}</h3>
+        <p className="text-muted-foreground text-xs">
+          Leave all unchecked to allow any.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-2 text-xs"
+            htmlFor={`auto-accept-${field}-${option.value}`}
+          >
+            <Checkbox
+              id={`auto-accept-${field}-${option.value}`}
+              checked={policy[field].includes(option.value)}
+              onCheckedChange={(checked) =>
+                toggleListValue(field, option.value, checked === true)
+              }
+              disabled={!policy.enabled}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Collapsible
+      open={isCollapsibleOpen}
+      onOpenChange={setIsCollapsibleOpen}
+      className="space-y-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-muted/40 hover:bg-muted/60 mb-0! w-full justify-between border-2"
+        >
+          <span className="flex items-center gap-2">
+            <CheckCheck className="h-5 w-5 text-emerald-500" />
+            <span className="text-base font-semibold">Auto-Accept Policy</span>
+            <Badge variant="secondary" className="ml-2">
+              {policy.enabled ? "On" : "Off"}
+            </Badge>
+          </span>
+          <CollapsibleChevron isExpanded={isCollapsibleOpen} />
+        </Button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="m-6 space-y-4">
+        <div className="bg-muted/40 space-y-6 rounded-xl border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">Auto-Accept Policy</h2>
+              <p className="text-muted-foreground text-sm">
+                Send matches that meet every condition below straight to matched
+                after each matching run. Each run&apos;s accepted matches can be
+                undone together on the review page.
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <span className="text-sm font-medium">Enable Auto-Accept</span>
+              <Switch
+                checked={policy.enabled}
+                onCheckedChange={handleToggleGlobal}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="auto-accept-min-confidence">
+                Minimum confidence (%)
+              </Label>
+              <Input
+                id="auto-accept-min-confidence"
+                type="number"
+                min={0}
+                max={100}
+                value={policy.minConfidence}
+                onChange={(e) =>
+                  updatePolicy(
+                    {
+                      minConfidence: clampPercent(
+                        e.target.value,
+                        policy.minConfidence,
+                      ),
+                    },
+                    "Updated auto-accept minimum confidence",
+                  )
+                }
+                disabled={!policy.enabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-accept-min-margin">
+                Lead over the next candidate (points)
+              </Label>
+              <Input
+                id="auto-accept-min-margin"
+                type="number"
+                min={0}
+                max={100}
+                value={policy.minMargin}
+                onChange={(e) =>
+                  updatePolicy(
+                    {
+                      minMargin: clampPercent(e.target.value, policy.minMargin),
+                    },
+                    "Updated auto-accept minimum margin",
+                  )
+                }
+                disabled={!policy.enabled}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {renderConstraintGroup(
+              "allowedFormats",
+              "Allowed formats",
+              FORMAT_OPTIONS,
+            )}
+            {renderConstraintGroup(
+              "allowedCountries",
+              "Allowed countries",
+              COUNTRY_OPTIONS,
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">MangaDex AniList links</h3>
+            <RadioGroup
+              value={policy.mangaDexLink}
+              onValueChange={(value) =>
+                updatePolicy(
+                  { mangaDexLink: value as AutoAcceptProvenanceMode },
+                  "Updated auto-accept MangaDex provenance",
+                )
+              }
+              disabled={!policy.enabled}
+            >
+              {PROVENANCE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={option.value}
+                    id={`auto-accept-provenance-${option.value}`}
+                  />
+                  <Label
+                    htmlFor={`auto-accept-provenance-${option.value}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    <span className="font-medium">{option.label}</span>
+                    <span className="text-muted-foreground ml-1 text-xs">
+                      - {option.description}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export const AutoAcceptPolicyManager = React.memo(
+  AutoAcceptPolicyManagerComponent,
+);
@@ -0,0 +1,121 @@
+/**
+ * @packageDocumentation
+ * @module BackupPassphraseDialog
+ * @description Dialog asking for the passphrase of an encrypted backup before it is restored.
+ */
+
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Lock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/AlertDialog";
+import { Alert, AlertDescription } from "../ui/Alert";
+import { Input } from "../ui/Input";
+
+/**
+ * Props for BackupPassphraseDialog component.
+ * @property fileName - Name of the encrypted backup, or null when the dialog is closed.
+ * @property isIncorrect - Whether the previous attempt used the wrong passphrase.
+ * @property isUnlocking - Whether the backup is being decrypted.
+ * @property onCancel - Callback when the user dismisses the dialog.
+ * @property onSubmit - Callback with the entered passphrase.
+ * @source
+ */
+export interface BackupPassphraseDialogProps {
+  fileName: string | null;
+  isIncorrect: boolean;
+  isUnlocking: boolean;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void;
+}
+
+/**
+ * Dialog asking for the passphrase of an encrypted backup.
+ * @param props - Component props.
+ * @returns BackupPassphraseDialog component.
+ * @source
+ */
+const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({
+  fileName,
+  isIncorrect,
+  isUnlocking,
+  onCancel,
+  onSubmit,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+
+  // Clear the field whenever the dialog opens or an attempt fails
+  useEffect(() => {
+    setPassphrase("");
+  }, [fileName, isIncorrect]);
+
+  const handleSubmit = (event: React.SyntheticEvent) => {
+    // Keep the dialog open while the backup is decrypted; the caller closes it
+    event.preventDefault();
+    if (passphrase) onSubmit(passphrase);
+  };
+
+  return (
+    <AlertDialog
+      open={fileName !== null}
+      onOpenChange={(open) => {
+        if (!open && !isUnlocking) onCancel();
+      }}
+    >
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit}>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Encrypted Backup
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {fileName} is encrypted. Enter the passphrase it was created with
+              to preview and restore it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-3 py-4">
+            <Input
+              type="password"
+              autoComplete="current-password"
+              placeholder="Backup passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              autoFocus
+            />
+            {isIncorrect && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Incorrect passphrase. Try again.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUnlocking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              type="submit"
+              onClick={handleSubmit}
+              disabled={!passphrase || isUnlocking}
+            >
+              {isUnlocking ? "Decrypting..." : "Unlock"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BackupPassphraseDialog;
@@ -18,6 +18,7 @@ import {
   History,
   Save,
   RefreshCw,
+  Lock,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/Button";
@@ -34,6 +35,10 @@ import { Input } from "@/components/ui/Input";
 import { highlightText, truncateToastMessage } from "@/utils/text-highlight";
 import { cn } from "@/utils/tailwind";
 import type { BackupScheduleConfig } from "@/utils/storage";
+import {
+  BACKUP_CATEGORIES,
+  type BackupCategory,
+} from "@/utils/backup-registry";
 
 // Helper functions
 function clampValue(value: number, min: number, max: number): number {
@@ -221,6 +226,212 @@ function BackupListContent({
   );
 }
 
+interface BackupFileFormatSettingsProps {
+  scheduleConfig: BackupScheduleConfig;
+  onScheduleConfigChange: (config: BackupScheduleConfig) => void;
+}
+
+/**
+ * Compression and encryption options for backup files, with the backup passphrase.
+ * The passphrase is sent to the main process, which keeps it encrypted with the OS keychain.
+ * @source
+ */
+function BackupFileFormatSettings({
+  scheduleConfig,
+  onScheduleConfigChange,
+}: Readonly<BackupFileFormatSettingsProps>) {
+  const [hasPassphrase, setHasPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [isSavingPassphrase, setIsSavingPassphrase] = useState(false);
+
+  useEffect(() => {
+    globalThis.electronBackup
+      ?.hasBackupPassphrase?.()
+      .then(setHasPassphrase)
+      .catch((error) =>
+        console.error(
+          "[BackupRestoreSection] Error checking backup passphrase:",
+          error,
+        ),
+      );
+  }, []);
+
+  const handleSavePassphrase = async (value: string | null) => {
+    setIsSavingPassphrase(true);
+    try {
+      const result =
+        await globalThis.electronBackup?.setBackupPassphrase?.(value);
+      if (result?.success) {
+        setHasPassphrase(value !== null);
+        setPassphrase("");
+        toast.success(
+          value ? "Backup passphrase saved" : "Backup passphrase cleared",
+        );
+      } else {
+        const errorMsg = result?.error || "Failed to save backup passphrase";
+        toast.error("Failed to save backup passphrase", {
+          description: truncateToastMessage(errorMsg, 200).component,
+        });
+      }
+    } catch (error) {
+      console.error(
+        "[BackupRestoreSection] Error saving backup passphrase:",
+        error,
+      );
+      toast.error("Error saving backup passphrase");
+    } finally {
+      setIsSavingPassphrase(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pl-1">
+      <div className="flex items-center gap-2">
+        <input
+          id="compress-backups"
+          type="checkbox"
+          className="border-primary text-primary focus:ring-ring h-4 w-4 rounded focus:ring-2"
+          checked={scheduleConfig.compressBackups}
+          onChange={(e) =>
+            onScheduleConfigChange({
+              ...scheduleConfig,
+              compressBackups: e.target.checked,
+            })
+          }
+        />
+        <Label htmlFor="compress-backups" className="text-sm font-normal">
+          Compress backup files
+        </Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="encrypt-backups"
+          type="checkbox"
+          className="border-primary text-primary focus:ring-ring h-4 w-4 rounded focus:ring-2"
+          checked={scheduleConfig.encryptBackups}
+          onChange={(e) =>
+            onScheduleConfigChange({
+              ...scheduleConfig,
+              encryptBackups: e.target.checked,
+            })
+          }
+        />
+        <Label htmlFor="encrypt-backups" className="text-sm font-normal">
+          Encrypt backup files with a passphrase
+        </Label>
+        {scheduleConfig.encryptBackups && (
+          <Badge variant={hasPassphrase ? "secondary" : "destructive"}>
+            {hasPassphrase ? "Passphrase set" : "No passphrase"}
+          </Badge>
+        )}
+      </div>
+
+      {scheduleConfig.encryptBackups && (
+        <div className="space-y-2 pl-6">
+          <div className="flex gap-2">
+            <Input
+              id="backup-passphrase"
+              type="password"
+              autoComplete="new-password"
+              placeholder={
+                hasPassphrase ? "Enter a new passphrase" : "Enter a passphrase"
+              }
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleSavePassphrase(passphrase)}
+              disabled={!passphrase || isSavingPassphrase}
+            >
+              <Lock className="mr-1 h-3.5 w-3.5" />
+              Save
+            </Button>
+            {hasPassphrase && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleSavePassphrase(null)}
+                disabled={isSavingPassphrase}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+          <p className="text-muted-foreground text-xs">
+            Encrypted backups can only be restored with this passphrase. Keep a
+            copy somewhere safe; it cannot be recovered.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BackupCategorySettingsProps {
+  scheduleConfig: BackupScheduleConfig;
+  onScheduleConfigChange: (config: BackupScheduleConfig) => void;
+}
+
+/**
+ * Checkboxes choosing which categories of data are written to backups.
+ * Required categories are always included and cannot be unchecked.
+ * @source
+ */
+function BackupCategorySettings({
+  scheduleConfig,
+  onScheduleConfigChange,
+}: Readonly<BackupCategorySettingsProps>) {
+  const handleToggle = (category: BackupCategory, checked: boolean) => {
+    const selected = new Set(scheduleConfig.backupCategories);
+    if (checked) selected.add(category);
+    else selected.delete(category);
+    onScheduleConfigChange({
+      ...scheduleConfig,
+      backupCategories: BACKUP_CATEGORIES.filter((info) =>
+        selected.has(info.id),
+      ).map((info) => info.id),
+    });
+  };
+
+  return (
+    <div className="space-y-2 pl-1">
+      <p className="text-sm font-medium">Include in backups</p>
+      {BACKUP_CATEGORIES.map((category) => (
+        <div key={category.id} className="flex items-start gap-2">
+          <input
+            id={`backup-category-${category.id}`}
+            type="checkbox"
+            className="border-primary text-primary focus:ring-ring mt-0.5 h-4 w-4 rounded focus:ring-2"
+            checked={
+              category.required ||
+              scheduleConfig.backupCategories.includes(category.id)
+            }
+            disabled={category.required}
+            onChange={(e) => handleToggle(category.id, e.target.checked)}
+          />
+          <div className="space-y-0.5">
+            <Label
+              htmlFor={`backup-category-${category.id}`}
+              className="text-sm font-normal"
+            >
+              {category.label}
+              {category.required && (
+                <span className="text-muted-foreground"> (always)</span>
+              )}
+            </Label>
+            <p className="text-muted-foreground text-xs">
+              {category.description}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface BackupScheduleCardProps {
   searchQuery: string;
   scheduleConfig: BackupScheduleConfig;
@@ -332,6 +543,16 @@ function BackupScheduleCard({
             </div>
           </div>
 
+          <BackupCategorySettings
+            scheduleConfig={scheduleConfig}
+            onScheduleConfigChange={onScheduleConfigChange}
+          />
+
+          <BackupFileFormatSettings
+            scheduleConfig={scheduleConfig}
+            onScheduleConfigChange={onScheduleConfigChange}
+          />
+
           {/* Interval Selector */}
           {scheduleConfig.enabled && (
             <div className="animate-in slide-in-from-top-2 space-y-4 rounded-lg border border-slate-200 bg-slate-50/50 p-4 duration-200 dark:border-slate-800 dark:bg-slate-900/20">
@@ -810,6 +1031,7 @@ export function BackupRestoreSection({
   onScheduleConfigChange,
   onTriggerBackup,
   onRestoreBackup,
+  onRestoreBackupFile,
   onFileSelect,
 }: Readonly<BackupRestoreSectionProps>) {
   const [localBackups, setLocalBackups] = useState<BackupFile[]>([]);
@@ -961,6 +1183,34 @@ export function BackupRestoreSection({
   };
 
   const handleRestoreFromList = async (backup: BackupFile) => {
+    if (onRestoreBackupFile) {
+      // Read the file and hand it to the restore preview, which confirms and applies it
+      setIsRestoringFromList(backup.name);
+      try {
+        const result = await globalThis.electronBackup?.readLocalBackupFile?.(
+          backup.name,
+        );
+        if (!result?.success || result.data === undefined) {
+          const errorMsg = result?.error || "Failed to read backup";
+          console.error(
+            "[BackupRestoreSection] Failed to read backup:",
+            result?.error,
+          );
+          toast.error(errorMsg);
+          return;
+        }
+        onRestoreBackupFile(
+          new File([result.data], backup.name, { type: "application/json" }),
+        );
+      } catch (error) {
+        console.error("[BackupRestoreSection] Error reading backup:", error);
+        toast.error("Error restoring backup");
+      } finally {
+        setIsRestoringFromList(null);
+      }
+      return;
+    }
+
     if (
       !confirm(
         `Restore from "${new Date(backup.timestamp).toLocaleString()}"?\n\nWarning: This will overwrite your current data. Make sure you have a backup first.`,
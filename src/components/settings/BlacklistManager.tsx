@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import { toast } from "sonner";
 import { Plus, Trash2, Edit2, Ban } from "lucide-react";
 import {
@@ -7,6 +7,7 @@ import {
   type BlacklistConfig,
 } from "@/utils/storage";
 import { useDebugActions } from "@/contexts/debug-context";
+import { RULE_PACK_APPLIED_EVENT } from "@/utils/rule-packs";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Switch } from "@/components/ui/Switch";
@@ -44,14 +45,27 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/Collapsible";
 
+function loadBlacklist(): BlacklistConfig {
+  const config = getMatchConfig();
+  return config.blacklist || { enabled: true, items: [] };
+}
+
 function BlacklistManagerComponent(): React.JSX.Element {
   const { recordEvent } = useDebugActions();
   const [isCollapsibleOpen, setIsCollapsibleOpen] = useState(false);
 
-  const [blacklist, setBlacklist] = useState<BlacklistConfig>(() => {
-    const config = getMatchConfig();
-    return config.blacklist || { enabled: true, items: [] };
-  });
+  const [blacklist, setBlacklist] = useState<BlacklistConfig>(loadBlacklist);
+
+  // Reload after a rule pack is imported elsewhere in settings
+  useEffect(() => {
+    const handleRulePackApplied = () => setBlacklist(loadBlacklist());
+    globalThis.addEventListener(RULE_PACK_APPLIED_EVENT, handleRulePackApplied);
+    return () =>
+      globalThis.removeEventListener(
+        RULE_PACK_APPLIED_EVENT,
+        handleRulePackApplied,
+      );
+  }, []);
 
   const [isAdding, setIsAdding] = useState(false);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
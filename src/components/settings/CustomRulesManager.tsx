@@ -35,6 +35,7 @@ import {
   getCustomRuleWarningMessage,
 } from "@/utils/customRuleMessages";
 import { clearRegexCache } from "@/api/matching/filtering";
+import { RULE_PACK_APPLIED_EVENT } from "@/utils/rule-packs";
 import { debounce } from "@/utils/debounce";
 import { useDebugActions } from "@/contexts/debug-context";
 import { truncateToastMessage } from "@/utils/text-highlight";
@@ -102,6 +103,25 @@ interface RuleFormData {
   targetFields: CustomRuleTarget[];
 }
 
+/**
+ * Loads custom rules from the match configuration, migrating rules missing newer fields.
+ * @returns Current custom rules.
+ * @source
+ */
+function loadCustomRules(): CustomRulesConfig {
+  const config = getMatchConfig();
+  const customRules = config.customRules || {
+    skipRules: [],
+    acceptRules: [],
+  };
+
+  // Migrate existing rules to include targetFields if missing
+  return {
+    skipRules: customRules.skipRules.map((rule) => migrateCustomRule(rule)),
+    acceptRules: customRules.acceptRules.map((rule) => migrateCustomRule(rule)),
+  };
+}
+
 /**
  * CustomRulesManager component for managing user-defined matching rules.
  *
@@ -113,21 +133,18 @@ interface RuleFormData {
 function CustomRulesManagerComponent(): React.JSX.Element {
   const { recordEvent } = useDebugActions();
 
-  const [rules, setRules] = useState<CustomRulesConfig>(() => {
-    const config = getMatchConfig();
-    const customRules = config.customRules || {
-      skipRules: [],
-      acceptRules: [],
-    };
+  const [rules, setRules] = useState<CustomRulesConfig>(loadCustomRules);
 
-    // Migrate existing rules to include targetFields if missing
-    return {
-      skipRules: customRules.skipRules.map((rule) => migrateCustomRule(rule)),
-      acceptRules: customRules.acceptRules.map((rule) =>
-        migrateCustomRule(rule),
-      ),
-    };
-  });
+  // Reload after a rule pack is imported elsewhere in settings
+  React.useEffect(() => {
+    const handleRulePackApplied = () => setRules(loadCustomRules());
+    globalThis.addEventListener(RULE_PACK_APPLIED_EVENT, handleRulePackApplied);
+    return () =>
+      globalThis.removeEventListener(
+        RULE_PACK_APPLIED_EVENT,
+        handleRulePackApplied,
+      );
+  }, []);
 
   const [isAddingRule, setIsAddingRule] = useState<"skip" | "accept" | null>(
     null,
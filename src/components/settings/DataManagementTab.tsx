@@ -21,6 +21,8 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/Alert";
 import { SettingsSectionShell } from "./SettingsSectionShell";
 import { CacheManagementSection } from "./CacheManagementSection";
 import { BackupRestoreSection } from "./BackupRestoreSection";
+import { AniListExportSection } from "./AniListExportSection";
+import { ExportWatcherSection } from "./ExportWatcherSection";
 import { DebugToolsSection } from "./DebugToolsSection";
 import type { DataManagementProps } from "./types";
 
@@ -244,6 +246,7 @@ export function DataManagementTab({
   isIpcViewerEnabled,
   isEventLoggerEnabled,
   isConfidenceTestExporterEnabled,
+  isConfidenceCalibrationEnabled,
   isPerformanceMonitorEnabled,
   searchQuery,
   highlightedSectionId,
@@ -267,6 +270,7 @@ export function DataManagementTab({
   onIpcViewerChange,
   onEventLoggerChange,
   onConfidenceTestExporterChange,
+  onConfidenceCalibrationChange,
   onPerformanceMonitorChange,
   collapsedSections,
   onToggleSection,
@@ -343,6 +347,7 @@ export function DataManagementTab({
     isStateInspectorEnabled,
     isIpcViewerEnabled,
     isEventLoggerEnabled,
+    isConfidenceCalibrationEnabled,
     isPerformanceMonitorEnabled,
   ];
 
@@ -547,6 +552,14 @@ export function DataManagementTab({
           onRestoreBackupFile={onRestoreBackupFile}
           onFileSelect={onFileSelect}
         />
+        <AniListExportSection
+          searchQuery={searchQuery}
+          highlightedSectionId={highlightedSectionId}
+        />
+        <ExportWatcherSection
+          searchQuery={searchQuery}
+          highlightedSectionId={highlightedSectionId}
+        />
       </SettingsSectionShell>
 
       <SettingsSectionShell
@@ -574,6 +587,7 @@ export function DataManagementTab({
           isIpcViewerEnabled={isIpcViewerEnabled}
           isEventLoggerEnabled={isEventLoggerEnabled}
           isConfidenceTestExporterEnabled={isConfidenceTestExporterEnabled}
+          isConfidenceCalibrationEnabled={isConfidenceCalibrationEnabled}
           isPerformanceMonitorEnabled={isPerformanceMonitorEnabled}
           searchQuery={searchQuery}
           highlightedSectionId={highlightedSectionId}
@@ -585,6 +599,7 @@ export function DataManagementTab({
           onIpcViewerChange={onIpcViewerChange}
           onEventLoggerChange={onEventLoggerChange}
           onConfidenceTestExporterChange={onConfidenceTestExporterChange}
+          onConfidenceCalibrationChange={onConfidenceCalibrationChange}
           onPerformanceMonitorChange={onPerformanceMonitorChange}
         />
       </SettingsSectionShell>
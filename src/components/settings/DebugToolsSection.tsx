@@ -14,6 +14,7 @@ import {
   FileText,
   Terminal,
   Eye,
+  Target,
 } from "lucide-react";
 import { Badge } from "@/components/ui/Badge";
 import { Switch } from "@/components/ui/Switch";
@@ -49,6 +50,8 @@ interface DebugToolsSectionProps {
   isEventLoggerEnabled: boolean;
   /** Whether confidence test exporter is enabled. */
   isConfidenceTestExporterEnabled: boolean;
+  /** Whether confidence calibration panel is enabled. */
+  isConfidenceCalibrationEnabled: boolean;
   /** Whether performance monitor is enabled. */
   isPerformanceMonitorEnabled: boolean;
   /** Current search query. */
@@ -71,6 +74,8 @@ interface DebugToolsSectionProps {
   onEventLoggerChange: (enabled: boolean) => void;
   /** Callback to toggle confidence test exporter. */
   onConfidenceTestExporterChange: (enabled: boolean) => void;
+  /** Callback to toggle confidence calibration panel. */
+  onConfidenceCalibrationChange: (enabled: boolean) => void;
   /** Callback to toggle performance monitor. */
   onPerformanceMonitorChange: (enabled: boolean) => void;
 }
@@ -105,6 +110,7 @@ export function DebugToolsSection({
   isIpcViewerEnabled,
   isEventLoggerEnabled,
   isConfidenceTestExporterEnabled,
+  isConfidenceCalibrationEnabled,
   isPerformanceMonitorEnabled,
   searchQuery,
   highlightedSectionId,
@@ -116,6 +122,7 @@ export function DebugToolsSection({
   onIpcViewerChange,
   onEventLoggerChange,
   onConfidenceTestExporterChange,
+  onConfidenceCalibrationChange,
   onPerformanceMonitorChange,
 }: Readonly<DebugToolsSectionProps>) {
   return (
@@ -433,6 +440,44 @@ export function DebugToolsSection({
                 </p>
               </CardFooter>
             </Card>
+
+            {/* Confidence Calibration */}
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Target className="h-4 w-4 text-slate-500" />
+                      {renderHighlightedText(
+                        "Confidence calibration",
+                        searchQuery,
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {renderHighlightedText(
+                        "View the confidence curve fitted to your accept and reject decisions, and reset it to defaults.",
+                        searchQuery,
+                      )}
+                    </CardDescription>
+                  </div>
+                  <Switch
+                    id="confidence-calibration-enabled"
+                    checked={isConfidenceCalibrationEnabled}
+                    onCheckedChange={(v) =>
+                      onConfidenceCalibrationChange(Boolean(v))
+                    }
+                  />
+                </div>
+              </CardHeader>
+              <CardFooter>
+                <p className="text-muted-foreground text-xs">
+                  {renderHighlightedText(
+                    "Calibration runs either way; this only adds the panel to the debug menu.",
+                    searchQuery,
+                  )}
+                </p>
+              </CardFooter>
+            </Card>
           </div>
         </div>
       )}
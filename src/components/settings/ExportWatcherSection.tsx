@@ -0,0 +1,337 @@
+/**
+ * @packageDocumentation
+ * @module ExportWatcherSection
+ * @description Watched export folder section for the Data tab - configures scheduled imports of Kenmei exports saved to a folder.
+ */
+
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { FolderOpen, FolderSync, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Label } from "@/components/ui/Label";
+import {
+  DEFAULT_EXPORT_WATCHER_CONFIG,
+  type ExportWatcherConfig,
+  type ExportWatchInterval,
+} from "@/utils/storage";
+import { highlightText, truncateToastMessage } from "@/utils/text-highlight";
+import { cn } from "@/utils/tailwind";
+
+/**
+ * Props for ExportWatcherSection component.
+ * @source
+ */
+interface ExportWatcherSectionProps {
+  /** Current search query. */
+  searchQuery: string;
+  /** Currently highlighted section ID. */
+  highlightedSectionId: string | null;
+}
+
+/**
+ * Clamps the auto-sync confidence threshold input to 50-100.
+ * @param value - Raw input value.
+ * @returns Clamped threshold.
+ * @source
+ */
+function parseThreshold(value: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed)) return 90;
+  return Math.max(50, Math.min(100, parsed));
+}
+
+/**
+ * Watched export folder section.
+ * Lets the user pick a folder that Kenmei exports are saved to; new exports are imported on a schedule,
+ * new titles are matched, and confident matches can be synced to AniList automatically.
+ * @param props - Component props.
+ * @returns The rendered watcher section.
+ * @source
+ */
+export function ExportWatcherSection({
+  searchQuery,
+  highlightedSectionId,
+}: Readonly<ExportWatcherSectionProps>) {
+  const [config, setConfig] = useState<ExportWatcherConfig>(
+    DEFAULT_EXPORT_WATCHER_CONFIG,
+  );
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastCheck, setLastCheck] = useState<number | null>(null);
+  const [nextCheck, setNextCheck] = useState<number | null>(null);
+
+  const isAvailable = !!globalThis.electronExportWatcher;
+
+  useEffect(() => {
+    const watcher = globalThis.electronExportWatcher;
+    if (!watcher) return;
+
+    watcher
+      .getConfig()
+      .then(setConfig)
+      .catch((error) => {
+        console.error(
+          "[ExportWatcherSection] ❌ Failed to load watcher config:",
+          error,
+        );
+      });
+    watcher
+      .getStatus()
+      .then((status) => {
+        setIsChecking(status.isChecking);
+        setLastCheck(status.lastCheck);
+        setNextCheck(status.nextCheck);
+      })
+      .catch((error) => {
+        console.error(
+          "[ExportWatcherSection] ❌ Failed to load watcher status:",
+          error,
+        );
+      });
+
+    return watcher.onStatusChanged((status) => {
+      setIsChecking(status.isChecking);
+      setLastCheck(status.lastCheck);
+      setNextCheck(status.nextCheck);
+    });
+  }, []);
+
+  /**
+   * Saves a new configuration, reverting the form if the main process rejects it.
+   * @param next - Configuration to save.
+   * @source
+   */
+  const handleConfigChange = async (next: ExportWatcherConfig) => {
+    const previous = config;
+    setConfig(next);
+    const result = await globalThis.electronExportWatcher?.setConfig(next);
+    if (result && !result.success) {
+      setConfig(previous);
+      toast.error("Couldn't update export watcher", {
+        description: truncateToastMessage(result.error ?? "Unknown error", 200)
+          .component,
+      });
+    }
+  };
+
+  /**
+   * Opens the folder picker and saves the chosen folder.
+   * @source
+   */
+  const handleSelectFolder = async () => {
+    const result = await globalThis.electronExportWatcher?.selectFolder();
+    if (result?.success && result.data) {
+      await handleConfigChange({ ...config, folderPath: result.data });
+    } else if (result?.error) {
+      toast.error("Couldn't open folder picker", { description: result.error });
+    }
+  };
+
+  /**
+   * Checks the watched folder outside the schedule.
+   * @source
+   */
+  const handleCheckNow = async () => {
+    const result = await globalThis.electronExportWatcher?.checkNow();
+    if (!result) return;
+    if (!result.success) {
+      toast.error("Folder check failed", {
+        description: truncateToastMessage(result.error ?? "Unknown error", 200)
+          .component,
+      });
+    } else if (!result.found) {
+      toast.info("No new Kenmei exports found");
+    }
+  };
+
+  const renderText = (text: string) =>
+    searchQuery ? highlightText(text, searchQuery) : text;
+
+  return (
+    <motion.div
+      id="data-export-watcher"
+      className={cn(
+        "bg-muted/40 space-y-4 rounded-xl border p-6",
+        highlightedSectionId === "data-export-watcher" &&
+          "ring-2 ring-blue-500 ring-offset-2 ring-offset-white dark:ring-blue-400 dark:ring-offset-slate-950",
+      )}
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25, duration: 0.4 }}
+    >
+      <div>
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <FolderSync className="h-4 w-4 text-blue-500" />
+          {renderText("Watched export folder")}
+        </h3>
+        <p className="text-muted-foreground mt-1 text-xs">
+          {renderText(
+            "Check a folder for new Kenmei CSV or JSON exports on a schedule. New titles are imported and matched in the background.",
+          )}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          readOnly
+          value={config.folderPath}
+          placeholder="No folder selected"
+          aria-label="Watched folder"
+          className="text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!isAvailable}
+          onClick={handleSelectFolder}
+        >
+          <FolderOpen className="mr-1 h-4 w-4" />
+          Choose
+        </Button>
+      </div>
+
+      <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label
+            htmlFor="export-watcher-enabled"
+            className="text-sm font-medium"
+          >
+            Watch this folder
+          </Label>
+          <p className="text-muted-foreground text-xs">
+            Import the newest export whenever one appears
+          </p>
+        </div>
+        <input
+          id="export-watcher-enabled"
+          type="checkbox"
+          className="border-primary text-primary focus:ring-ring h-4 w-4 rounded focus:ring-2"
+          checked={config.enabled}
+          disabled={!isAvailable || !config.folderPath}
+          onChange={(e) =>
+            handleConfigChange({ ...config, enabled: e.target.checked })
+          }
+        />
+      </div>
+
+      {config.enabled && (
+        <div className="animate-in slide-in-from-top-2 space-y-4 rounded-lg border border-slate-200 bg-slate-50/50 p-4 duration-200 dark:border-slate-800 dark:bg-slate-900/20">
+          <div className="space-y-2">
+            <Label
+              htmlFor="export-watcher-interval"
+              className="text-xs font-medium uppercase tracking-wider text-slate-500"
+            >
+              Check frequency
+            </Label>
+            <select
+              id="export-watcher-interval"
+              value={config.interval}
+              onChange={(e) =>
+                handleConfigChange({
+                  ...config,
+                  interval: e.target.value as ExportWatchInterval,
+                })
+              }
+              className="border-input bg-background ring-offset-background placeholder:text-muted-foreground focus:ring-ring flex h-9 w-full items-center justify-between rounded-md border px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-1 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <option value="hourly">Hourly</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="export-watcher-auto-sync"
+              type="checkbox"
+              className="border-primary text-primary focus:ring-ring h-4 w-4 rounded focus:ring-2"
+              checked={config.autoSync}
+              onChange={(e) =>
+                handleConfigChange({ ...config, autoSync: e.target.checked })
+              }
+            />
+            <Label
+              htmlFor="export-watcher-auto-sync"
+              className="text-sm font-normal"
+            >
+              Sync confident new matches to AniList automatically
+            </Label>
+          </div>
+
+          {config.autoSync && (
+            <div className="space-y-2">
+              <Label
+                htmlFor="export-watcher-threshold"
+                className="text-xs font-medium uppercase tracking-wider text-slate-500"
+              >
+                Minimum confidence
+              </Label>
+              <div className="relative">
+                <Input
+                  id="export-watcher-threshold"
+                  type="number"
+                  min="50"
+                  max="100"
+                  value={config.autoSyncConfidenceThreshold}
+                  onChange={(e) =>
+                    handleConfigChange({
+                      ...config,
+                      autoSyncConfidenceThreshold: parseThreshold(
+                        e.target.value,
+                      ),
+                    })
+                  }
+                  className="pr-8"
+                />
+                <span className="text-muted-foreground pointer-events-none absolute right-3 top-2.5 text-xs">
+                  %
+                </span>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                Lower-confidence matches and entries with sync conflicts are
+                left for review.
+              </p>
+            </div>
+          )}
+
+          {(lastCheck || nextCheck) && (
+            <div className="rounded border border-slate-100 bg-white p-2 text-xs text-slate-600 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-400">
+              {lastCheck && (
+                <div className="flex justify-between">
+                  <span>Last check:</span>
+                  <span className="font-medium">
+                    {new Date(lastCheck).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {nextCheck && (
+                <div className="flex justify-between">
+                  <span>Next check:</span>
+                  <span className="font-medium">
+                    {new Date(nextCheck).toLocaleString()}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!isAvailable || !config.folderPath || isChecking}
+        aria-busy={isChecking}
+        onClick={handleCheckNow}
+      >
+        {isChecking ? (
+          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+        ) : (
+          <RefreshCw className="mr-1 h-4 w-4" />
+        )}
+        Check now
+      </Button>
+    </motion.div>
+  );
+}
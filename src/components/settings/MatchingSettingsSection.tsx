@@ -26,6 +26,8 @@ import {
 } from "@/components/ui/Card";
 import { CustomRulesManager } from "./CustomRulesManager";
 import { BlacklistManager } from "./BlacklistManager";
+import { RulePackManager } from "./RulePackManager";
+import { AutoAcceptPolicyManager } from "./AutoAcceptPolicyManager";
 import { highlightText } from "@/utils/text-highlight";
 import { cn } from "@/utils/tailwind";
 import type { MatchConfig } from "@/utils/storage";
@@ -49,7 +51,7 @@ interface MatchingSettingsSectionProps {
 
 /**
  * Renders individual matching settings sections.
- * Supports one-shots, adult content, blur adult, comick, mangadex, and custom rules.
+ * Supports one-shots, adult content, blur adult, comick, mangadex, custom rules, blacklist, and the auto-accept policy.
  * @param props - Component props.
  * @returns The rendered matching settings section.
  * @source
@@ -285,6 +287,24 @@ export function MatchingSettingsSection({
     );
   }
 
+  if (sectionId === "matching-auto-accept") {
+    return (
+      <motion.div
+        id="matching-auto-accept"
+        className={cn(
+          "group relative overflow-hidden rounded-lg border border-slate-200/70 bg-white/95 p-0 shadow-[0_28px_90px_-60px_rgba(15,23,42,0.45)] dark:border-white/10 dark:bg-slate-950/45 dark:shadow-[0_40px_110px_-65px_rgba(15,23,42,0.85)]",
+          highlightedSectionId === "matching-auto-accept" &&
+            "ring-2 ring-blue-500 ring-offset-2 ring-offset-white dark:ring-blue-400 dark:ring-offset-slate-950",
+        )}
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <AutoAcceptPolicyManager />
+      </motion.div>
+    );
+  }
+
   if (sectionId === "matching-blacklist") {
     return (
       <motion.div
@@ -303,6 +323,24 @@ export function MatchingSettingsSection({
     );
   }
 
+  if (sectionId === "matching-rule-packs") {
+    return (
+      <motion.div
+        id="matching-rule-packs"
+        className={cn(
+          "group relative overflow-hidden rounded-lg border border-slate-200/70 bg-white/95 p-0 shadow-[0_28px_90px_-60px_rgba(15,23,42,0.45)] dark:border-white/10 dark:bg-slate-950/45 dark:shadow-[0_40px_110px_-65px_rgba(15,23,42,0.85)]",
+          highlightedSectionId === "matching-rule-packs" &&
+            "ring-2 ring-blue-500 ring-offset-2 ring-offset-white dark:ring-blue-400 dark:ring-offset-slate-950",
+        )}
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <RulePackManager />
+      </motion.div>
+    );
+  }
+
   const descriptor = sectionMap[sectionId];
   if (descriptor) {
     const visual = sectionVisuals[sectionId];
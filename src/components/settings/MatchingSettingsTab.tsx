@@ -164,6 +164,13 @@ export function MatchingSettingsTab({
             highlightedSectionId={highlightedSectionId}
             onMatchConfigChange={onMatchConfigChange}
           />
+          <MatchingSettingsSection
+            sectionId="matching-auto-accept"
+            matchConfig={matchConfig}
+            searchQuery={searchQuery}
+            highlightedSectionId={highlightedSectionId}
+            onMatchConfigChange={onMatchConfigChange}
+          />
           <MatchingSettingsSection
             sectionId="matching-blacklist"
             matchConfig={matchConfig}
@@ -171,6 +178,13 @@ export function MatchingSettingsTab({
             highlightedSectionId={highlightedSectionId}
             onMatchConfigChange={onMatchConfigChange}
           />
+          <MatchingSettingsSection
+            sectionId="matching-rule-packs"
+            matchConfig={matchConfig}
+            searchQuery={searchQuery}
+            highlightedSectionId={highlightedSectionId}
+            onMatchConfigChange={onMatchConfigChange}
+          />
         </div>
       </SettingsSectionShell>
     </motion.div>
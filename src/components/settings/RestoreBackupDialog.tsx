@@ -0,0 +1,368 @@
+/**
+ * @packageDocumentation
+ * @module RestoreBackupDialog
+ * @description Dialog previewing a backup restore key by key, grouped by backup category, letting the user choose which data and which matched manga to restore.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertCircle, Info } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/AlertDialog";
+import { Alert, AlertDescription } from "../ui/Alert";
+import { Badge } from "../ui/Badge";
+import { Checkbox } from "../ui/Checkbox";
+import { ScrollArea } from "../ui/ScrollArea";
+import { STORAGE_KEYS } from "../../utils/storage";
+import {
+  previewBackupRestore,
+  type BackupData,
+  type BackupKeyDiff,
+  type BackupableKey,
+  type MatchResultDiffItem,
+  type RestoreSelection,
+} from "../../utils/backup";
+import {
+  BACKUP_CATEGORIES,
+  getBackupKeyDefinition,
+  type BackupCategory,
+} from "../../utils/backup-registry";
+
+/**
+ * Props for RestoreBackupDialog component.
+ * @property backupData - Backup to preview, or null when the dialog is closed.
+ * @property isRestoring - Whether a restore is in progress.
+ * @property onCancel - Callback when the user dismisses the dialog.
+ * @property onConfirm - Callback with the keys and manga chosen for restore.
+ * @source
+ */
+export interface RestoreBackupDialogProps {
+  backupData: BackupData | null;
+  isRestoring: boolean;
+  onCancel: () => void;
+  onConfirm: (selection: RestoreSelection) => void;
+}
+
+/** Match result groups shown for per-manga selection. */
+const MATCH_GROUPS = [
+  { group: "added", label: "Added from backup" },
+  { group: "changed", label: "Changed in backup" },
+  { group: "removed", label: "Removed (not in backup)" },
+] as const;
+
+/**
+ * Formats a configuration value for the field diff.
+ * @source
+ */
+const formatConfigValue = (value: unknown): string => {
+  if (value === undefined) return "(not set)";
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+/**
+ * Lists every manga in a match results diff.
+ * @source
+ */
+const getMatchItems = (diff: BackupKeyDiff): MatchResultDiffItem[] =>
+  diff.matchResults
+    ? [
+        ...diff.matchResults.added,
+        ...diff.matchResults.changed,
+        ...diff.matchResults.removed,
+      ]
+    : [];
+
+/**
+ * Dialog previewing a backup restore.
+ * Shows what each key would change, preselects changed keys and every differing manga,
+ * and reports the selection back for restore.
+ * @param props - Component props.
+ * @returns RestoreBackupDialog component.
+ * @source
+ */
+const RestoreBackupDialog: React.FC<RestoreBackupDialogProps> = ({
+  backupData,
+  isRestoring,
+  onCancel,
+  onConfirm,
+}) => {
+  const diffs = useMemo(
+    () => (backupData ? previewBackupRestore(backupData) : []),
+    [backupData],
+  );
+  const [selectedKeys, setSelectedKeys] = useState<Set<BackupableKey>>(
+    new Set(),
+  );
+  const [selectedMatchIds, setSelectedMatchIds] = useState<Set<string>>(
+    new Set(),
+  );
+
+  // Reset the selection whenever a different backup is previewed
+  useEffect(() => {
+    setSelectedKeys(
+      new Set(diffs.filter((diff) => diff.changed).map((diff) => diff.key)),
+    );
+    setSelectedMatchIds(
+      new Set(diffs.flatMap(getMatchItems).map((item) => item.id)),
+    );
+  }, [diffs]);
+
+  const toggleKey = useCallback((key: BackupableKey, checked: boolean) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  }, []);
+
+  const toggleCategory = useCallback(
+    (category: BackupCategory, checked: boolean) => {
+      const keys = diffs
+        .filter(
+          (diff) =>
+            diff.inBackup &&
+            getBackupKeyDefinition(diff.key)?.category === category,
+        )
+        .map((diff) => diff.key);
+      setSelectedKeys((prev) => {
+        const next = new Set(prev);
+        for (const key of keys) {
+          if (checked) next.add(key);
+          else next.delete(key);
+        }
+        return next;
+      });
+    },
+    [diffs],
+  );
+
+  const toggleMatch = useCallback((id: string, checked: boolean) => {
+    setSelectedMatchIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const handleConfirm = useCallback(
+    (event: React.MouseEvent) => {
+      // Keep the dialog open while restoring; the caller closes it
+      event.preventDefault();
+      const keys = diffs
+        .filter((diff) => selectedKeys.has(diff.key))
+        .map((diff) => diff.key);
+      const matchDiff = diffs.find(
+        (diff) => diff.key === STORAGE_KEYS.MATCH_RESULTS,
+      );
+      onConfirm({
+        keys,
+        matchResultIds: matchDiff
+          ? getMatchItems(matchDiff)
+              .map((item) => item.id)
+              .filter((id) => selectedMatchIds.has(id))
+          : undefined,
+      });
+    },
+    [diffs, selectedKeys, selectedMatchIds, onConfirm],
+  );
+
+  const renderMatchResults = (diff: BackupKeyDiff) => {
+    const matchResults = diff.matchResults;
+    if (!matchResults || !selectedKeys.has(diff.key)) return null;
+
+    return (
+      <ScrollArea className="mt-2 h-full max-h-56 rounded-md border">
+        <div className="space-y-3 p-3">
+          {MATCH_GROUPS.map(({ group, label }) => {
+            const items = matchResults[group];
+            if (items.length === 0) return null;
+            return (
+              <div key={group} className="space-y-1">
+                <p className="text-muted-foreground text-xs font-medium">
+                  {label} ({items.length})
+                </p>
+                {items.map((item) => (
+                  <label
+                    key={item.id}
+                    htmlFor={`restore-match-${item.id}`}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <Checkbox
+                      id={`restore-match-${item.id}`}
+                      checked={selectedMatchIds.has(item.id)}
+                      onCheckedChange={(checked) =>
+                        toggleMatch(item.id, checked === true)
+                      }
+                      disabled={isRestoring}
+                    />
+                    <span className="truncate">{item.title}</span>
+                    <span className="text-muted-foreground ml-auto shrink-0">
+                      {item.currentStatus ?? "-"} → {item.backupStatus ?? "-"}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+          {matchResults.unchangedCount > 0 && (
+            <p className="text-muted-foreground text-xs">
+              {matchResults.unchangedCount} unchanged manga are kept as they
+              are.
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    );
+  };
+
+  const renderConfigChanges = (diff: BackupKeyDiff) => {
+    if (!diff.configChanges?.length) return null;
+    return (
+      <ul className="text-muted-foreground mt-1 space-y-0.5 pl-6 text-xs">
+        {diff.configChanges.map((change) => (
+          <li key={change.field}>
+            <span className="text-foreground font-medium">{change.field}</span>:{" "}
+            {formatConfigValue(change.current)} →{" "}
+            {formatConfigValue(change.backup)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderKeyDiff = (diff: BackupKeyDiff) => (
+    <div key={diff.key} className="rounded-lg border p-3">
+      <label
+        htmlFor={`restore-key-${diff.key}`}
+        className="flex items-center gap-3"
+      >
+        <Checkbox
+          id={`restore-key-${diff.key}`}
+          checked={selectedKeys.has(diff.key)}
+          onCheckedChange={(checked) => toggleKey(diff.key, checked === true)}
+          disabled={!diff.inBackup || isRestoring}
+        />
+        <span className="text-sm font-medium">
+          {getBackupKeyDefinition(diff.key)?.label ?? diff.key}
+        </span>
+        <span className="text-muted-foreground ml-auto text-xs">
+          {diff.summary}
+        </span>
+        {diff.changed && <Badge variant="secondary">Changed</Badge>}
+      </label>
+      {renderConfigChanges(diff)}
+      {renderMatchResults(diff)}
+    </div>
+  );
+
+  const matchSelectionEmpty =
+    selectedKeys.has(STORAGE_KEYS.MATCH_RESULTS) &&
+    selectedMatchIds.size === 0 &&
+    diffs.some(
+      (diff) =>
+        diff.key === STORAGE_KEYS.MATCH_RESULTS && getMatchItems(diff).length,
+    );
+
+  return (
+    <AlertDialog
+      open={backupData !== null}
+      onOpenChange={(open) => {
+        if (!open && !isRestoring) onCancel();
+      }}
+    >
+      <AlertDialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+          <AlertDialogDescription>
+            {backupData &&
+              `Backup from ${new Date(backupData.metadata.timestamp).toLocaleString()} (app version ${backupData.metadata.appVersion}). `}
+            Choose what to restore. Unselected data keeps its current value.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 py-2">
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              A backup of your current data is created automatically before
+              anything is restored.
+            </AlertDescription>
+          </Alert>
+
+          {BACKUP_CATEGORIES.map((category) => {
+            const categoryDiffs = diffs.filter(
+              (diff) =>
+                getBackupKeyDefinition(diff.key)?.category === category.id,
+            );
+            const selectable = categoryDiffs.filter((diff) => diff.inBackup);
+            if (selectable.length === 0) return null;
+            const selectedCount = selectable.filter((diff) =>
+              selectedKeys.has(diff.key),
+            ).length;
+            let categoryChecked: boolean | "indeterminate" = false;
+            if (selectedCount === selectable.length) categoryChecked = true;
+            else if (selectedCount > 0) categoryChecked = "indeterminate";
+
+            return (
+              <div key={category.id} className="space-y-2">
+                <label
+                  htmlFor={`restore-category-${category.id}`}
+                  className="flex items-center gap-3 pt-1"
+                >
+                  <Checkbox
+                    id={`restore-category-${category.id}`}
+                    checked={categoryChecked}
+                    onCheckedChange={(checked) =>
+                      toggleCategory(category.id, checked === true)
+                    }
+                    disabled={isRestoring}
+                  />
+                  <span className="text-sm font-semibold">
+                    {category.label}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {category.description}
+                  </span>
+                </label>
+                {categoryDiffs.map(renderKeyDiff)}
+              </div>
+            );
+          })}
+
+          {matchSelectionEmpty && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No manga selected; match results will be left unchanged.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={selectedKeys.size === 0 || isRestoring}
+          >
+            {isRestoring
+              ? "Restoring..."
+              : `Restore ${selectedKeys.size} item${selectedKeys.size === 1 ? "" : "s"}`}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RestoreBackupDialog;
@@ -0,0 +1,519 @@
+/**
+ * Rule pack import and export component
+ * @module components/settings/RulePackManager
+ * @description Exports custom rules and blacklisted titles as shareable rule packs and imports packs with validation, conflict reporting, and merge or replace.
+ */
+
+import React, { useState, useCallback, useRef } from "react";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  AlertTriangle,
+  Download,
+  Package,
+  Upload,
+} from "lucide-react";
+
+import { getMatchConfig, saveMatchConfig } from "@/utils/storage";
+import { getCustomRuleWarningMessage } from "@/utils/customRuleMessages";
+import {
+  RULE_PACK_APPLIED_EVENT,
+  applyRulePack,
+  createRulePack,
+  exportRulePack,
+  findRulePackConflicts,
+  parseRulePack,
+  type ParsedRulePack,
+  type RulePackConflict,
+  type RulePackSection,
+} from "@/utils/rule-packs";
+import { clearRegexCache } from "@/api/matching/filtering";
+import { useDebugActions } from "@/contexts/debug-context";
+import { truncateToastMessage } from "@/utils/text-highlight";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { Badge } from "@/components/ui/Badge";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/Alert";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { CollapsibleChevron } from "@/components/ui/CollapsibleChevron";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/AlertDialog";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/Collapsible";
+
+/** Display names for rule pack sections. */
+const SECTION_LABELS: Record<RulePackSection, string> = {
+  skip: "Skip rules",
+  accept: "Accept rules",
+  blacklist: "Blacklisted titles",
+};
+
+/**
+ * Rule pack selected for import, with its conflicts against the current configuration.
+ * @source
+ */
+interface PendingImport {
+  fileName: string;
+  pack: ParsedRulePack;
+  conflicts: RulePackConflict[];
+}
+
+/**
+ * Describes a conflict for the import preview.
+ * @source
+ */
+const describeConflict = (conflict: RulePackConflict): string => {
+  if (conflict.section === "blacklist") {
+    return "Already blacklisted";
+  }
+  if (conflict.kind === "opposing") {
+    const opposite = conflict.section === "skip" ? "accept" : "skip";
+    return `Same pattern as your ${opposite} rule "${conflict.existing}"`;
+  }
+  return `Same pattern as your rule "${conflict.existing}"`;
+};
+
+/**
+ * RulePackManager component for sharing custom rules and blacklists.
+ *
+ * Exports the selected rule sections with a name, author and description, and imports
+ * packs after previewing invalid rules, warnings and conflicts.
+ * @returns The rendered rule pack manager component.
+ * @source
+ */
+function RulePackManagerComponent(): React.JSX.Element {
+  const { recordEvent } = useDebugActions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isCollapsibleOpen, setIsCollapsibleOpen] = useState(false);
+  const [packInfo, setPackInfo] = useState({
+    name: "",
+    author: "",
+    description: "",
+  });
+  const [exportSections, setExportSections] = useState<Set<RulePackSection>>(
+    () => new Set<RulePackSection>(["skip", "accept", "blacklist"]),
+  );
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null,
+  );
+
+  const toggleExportSection = useCallback(
+    (section: RulePackSection, checked: boolean) => {
+      setExportSections((prev) => {
+        const next = new Set(prev);
+        if (checked) next.add(section);
+        else next.delete(section);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const handleExport = useCallback(async () => {
+    if (!packInfo.name.trim()) {
+      toast.error("Please provide a pack name");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const pack = createRulePack(packInfo, getMatchConfig(), [
+        ...exportSections,
+      ]);
+      const filename = await exportRulePack(pack);
+      toast.success("Rule pack exported", { description: filename });
+      recordEvent({
+        type: "settings.rule-pack-export",
+        message: `Exported rule pack: ${pack.name}`,
+        level: "info",
+        metadata: {
+          skipRules: pack.skipRules.length,
+          acceptRules: pack.acceptRules.length,
+          blacklist: pack.blacklist.length,
+        },
+      });
+    } catch (error) {
+      console.error("[RulePackManager] Failed to export rule pack:", error);
+      toast.error("Failed to export rule pack");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [packInfo, exportSections, recordEvent]);
+
+  const handleFileSelected = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so selecting the same file again triggers a change
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const pack = parseRulePack(await file.text());
+        setPendingImport({
+          fileName: file.name,
+          pack,
+          conflicts: findRulePackConflicts(pack, getMatchConfig()),
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error("[RulePackManager] Failed to read rule pack:", error);
+        toast.error("Failed to import rule pack", {
+          description: truncateToastMessage(message, 200).component,
+        });
+      }
+    },
+    [],
+  );
+
+  const handleApply = useCallback(
+    (mode: "merge" | "replace") => {
+      if (!pendingImport) return;
+
+      const matchConfig = getMatchConfig();
+      const updated = applyRulePack(pendingImport.pack, matchConfig, mode);
+      saveMatchConfig({ ...matchConfig, ...updated });
+
+      // Clear regex cache so imported rules use fresh compiled patterns
+      clearRegexCache();
+      globalThis.dispatchEvent(new CustomEvent(RULE_PACK_APPLIED_EVENT));
+
+      const name = pendingImport.pack.info.name || pendingImport.fileName;
+      toast.success(
+        mode === "merge"
+          ? `Merged rule pack "${name}"`
+          : `Replaced rules with rule pack "${name}"`,
+      );
+      recordEvent({
+        type: "settings.match-config-update",
+        message: `Imported rule pack (${mode}): ${name}`,
+        level: "info",
+        metadata: {
+          changed_field: "customRules",
+          mode,
+          conflicts: pendingImport.conflicts.length,
+          invalidRules: pendingImport.pack.invalidRules.length,
+          config: updated,
+        },
+      });
+
+      setPendingImport(null);
+    },
+    [pendingImport, recordEvent],
+  );
+
+  const renderImportPreview = (pending: PendingImport) => {
+    const { pack, conflicts } = pending;
+    const counts: Record<RulePackSection, number> = {
+      skip: pack.skipRules.length,
+      accept: pack.acceptRules.length,
+      blacklist: pack.blacklist.length,
+    };
+
+    return (
+      <div className="space-y-3 py-2">
+        <div className="rounded-lg border p-3 text-sm">
+          <p className="font-semibold">{pack.info.name || pending.fileName}</p>
+          {pack.info.author && (
+            <p className="text-muted-foreground text-xs">
+              by {pack.info.author}
+            </p>
+          )}
+          {pack.info.description && (
+            <p className="mt-2 whitespace-pre-wrap">{pack.info.description}</p>
+          )}
+          <div className="mt-3 flex flex-wrap gap-2">
+            {(Object.keys(SECTION_LABELS) as RulePackSection[]).map(
+              (section) => (
+                <Badge key={section} variant="secondary">
+                  {counts[section]} {SECTION_LABELS[section].toLowerCase()}
+                </Badge>
+              ),
+            )}
+          </div>
+        </div>
+
+        {pack.invalidRules.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>
+              {pack.invalidRules.length} invalid rule
+              {pack.invalidRules.length === 1 ? "" : "s"} will be skipped
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-0.5 text-xs">
+                {pack.invalidRules.map((rule, index) => (
+                  <li key={`${rule.section}-${index}`}>
+                    <span className="font-medium">
+                      {rule.description || rule.pattern || "(empty rule)"}
+                    </span>
+                    : {rule.error}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {pack.warnings.length > 0 && (
+          <Alert className="border-amber-500 bg-amber-50 dark:bg-amber-950">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertTitle className="text-amber-900 dark:text-amber-100">
+              Rules with warnings
+            </AlertTitle>
+            <AlertDescription className="text-amber-800 dark:text-amber-200">
+              <ul className="space-y-1 text-xs">
+                {pack.warnings.map(({ rule, warning }) => (
+                  <li key={rule.id}>
+                    <span className="font-medium">{rule.description}</span>:{" "}
+                    {getCustomRuleWarningMessage(warning)}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {conflicts.length > 0 ? (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {conflicts.length} conflict{conflicts.length === 1 ? "" : "s"}{" "}
+              with your current rules
+            </p>
+            <ScrollArea className="h-full max-h-48 rounded-md border">
+              <ul className="space-y-1 p-3 text-xs">
+                {conflicts.map((conflict, index) => (
+                  <li
+                    key={`${conflict.section}-${conflict.kind}-${index}`}
+                    className="flex items-center gap-2"
+                  >
+                    <Badge
+                      variant={
+                        conflict.kind === "opposing" ? "destructive" : "outline"
+                      }
+                      className="shrink-0"
+                    >
+                      {SECTION_LABELS[conflict.section]}
+                    </Badge>
+                    <code className="bg-muted truncate rounded px-1 font-mono">
+                      {conflict.value}
+                    </code>
+                    <span className="text-muted-foreground ml-auto shrink-0">
+                      {describeConflict(conflict)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            No conflicts with your current rules.
+          </p>
+        )}
+
+        <p className="text-muted-foreground text-xs">
+          <strong>Merge</strong> adds rules and titles you don&apos;t have yet
+          and keeps your existing ones. <strong>Replace</strong> swaps each
+          section included in the pack for the pack&apos;s version.
+        </p>
+      </div>
+    );
+  };
+
+  const isEmptyImport =
+    pendingImport !== null &&
+    pendingImport.pack.skipRules.length +
+      pendingImport.pack.acceptRules.length +
+      pendingImport.pack.blacklist.length ===
+      0;
+
+  return (
+    <Collapsible
+      open={isCollapsibleOpen}
+      onOpenChange={setIsCollapsibleOpen}
+      className="space-y-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-muted/40 hover:bg-muted/60 mb-0! w-full justify-between border-2"
+        >
+          <span className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-sky-500" />
+            <span className="text-base font-semibold">Rule Packs</span>
+          </span>
+          <CollapsibleChevron isExpanded={isCollapsibleOpen} />
+        </Button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="m-6 space-y-4">
+        <div className="bg-muted/40 space-y-6 rounded-xl border p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold">Rule Packs</h2>
+              <p className="text-muted-foreground text-sm">
+                Share custom rules and blacklisted titles as a single file
+              </p>
+            </div>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              size="sm"
+              variant="outline"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import Pack
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Export</h3>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <label htmlFor="rule-pack-name" className="text-sm font-medium">
+                  Name
+                </label>
+                <Input
+                  id="rule-pack-name"
+                  placeholder="e.g. Skip novels and doujinshi"
+                  value={packInfo.name}
+                  onChange={(e) =>
+                    setPackInfo((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <label
+                  htmlFor="rule-pack-author"
+                  className="text-sm font-medium"
+                >
+                  Author
+                </label>
+                <Input
+                  id="rule-pack-author"
+                  placeholder="Optional"
+                  value={packInfo.author}
+                  onChange={(e) =>
+                    setPackInfo((prev) => ({ ...prev, author: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label
+                htmlFor="rule-pack-description"
+                className="text-sm font-medium"
+              >
+                Description
+              </label>
+              <Textarea
+                id="rule-pack-description"
+                placeholder="What the rules in this pack are for"
+                value={packInfo.description}
+                onChange={(e) =>
+                  setPackInfo((prev) => ({
+                    ...prev,
+                    description: e.target.value,
+                  }))
+                }
+                rows={2}
+              />
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(SECTION_LABELS) as RulePackSection[]).map(
+                (section) => (
+                  <label
+                    key={section}
+                    htmlFor={`rule-pack-section-${section}`}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      id={`rule-pack-section-${section}`}
+                      checked={exportSections.has(section)}
+                      onCheckedChange={(checked) =>
+                        toggleExportSection(section, checked === true)
+                      }
+                    />
+                    {SECTION_LABELS[section]}
+                  </label>
+                ),
+              )}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={handleExport}
+                size="sm"
+                disabled={
+                  !packInfo.name.trim() ||
+                  exportSections.size === 0 ||
+                  isExporting
+                }
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {isExporting ? "Exporting..." : "Export Pack"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CollapsibleContent>
+
+      <AlertDialog
+        open={pendingImport !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingImport(null);
+        }}
+      >
+        <AlertDialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import Rule Pack</AlertDialogTitle>
+            <AlertDialogDescription>
+              Review the pack before adding it to your rules.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingImport && renderImportPreview(pendingImport)}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="outline"
+              onClick={() => handleApply("replace")}
+              disabled={isEmptyImport}
+            >
+              Replace
+            </Button>
+            <AlertDialogAction
+              onClick={() => handleApply("merge")}
+              disabled={isEmptyImport}
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Collapsible>
+  );
+}
+
+export const RulePackManager = React.memo(RulePackManagerComponent);
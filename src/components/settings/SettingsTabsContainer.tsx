@@ -14,9 +14,12 @@ import { DataManagementTab } from "./DataManagementTab";
 import { MatchingSettingsSection } from "./MatchingSettingsSection";
 import { SyncAutoPauseSection } from "./SyncAutoPauseSection";
 import { SyncStatusPrioritySection } from "./SyncStatusPrioritySection";
+import { SyncCustomListsSection } from "./SyncCustomListsSection";
 import { SyncPrivacySection } from "./SyncPrivacySection";
 import { CacheManagementSection } from "./CacheManagementSection";
 import { BackupRestoreSection } from "./BackupRestoreSection";
+import { AniListExportSection } from "./AniListExportSection";
+import { ExportWatcherSection } from "./ExportWatcherSection";
 import { DebugToolsSection } from "./DebugToolsSection";
 import type {
   MatchConfig,
@@ -107,6 +110,7 @@ export function SettingsTabsContainer({
   isIpcViewerEnabled,
   isEventLoggerEnabled,
   isConfidenceTestExporterEnabled,
+  isConfidenceCalibrationEnabled,
   isPerformanceMonitorEnabled,
   onMatchConfigChange,
   onSyncConfigChange,
@@ -131,6 +135,7 @@ export function SettingsTabsContainer({
   onIpcViewerChange,
   onEventLoggerChange,
   onConfidenceTestExporterChange,
+  onConfidenceCalibrationChange,
   onPerformanceMonitorChange,
   collapsedSections,
   onToggleSection,
@@ -201,6 +206,15 @@ export function SettingsTabsContainer({
               setSyncConfig={setSyncConfig}
             />
           )}
+          {searchResults.some((r) => r.section.id === "sync-custom-lists") && (
+            <SyncCustomListsSection
+              syncConfig={syncConfig}
+              searchQuery={searchQuery}
+              highlightedSectionId={highlightedSectionId}
+              onSyncConfigChange={onSyncConfigChange}
+              setSyncConfig={setSyncConfig}
+            />
+          )}
           {searchResults.some((r) => r.section.id === "sync-privacy") && (
             <SyncPrivacySection
               syncConfig={syncConfig}
@@ -247,6 +261,22 @@ export function SettingsTabsContainer({
               onFileSelect={onFileSelect}
             />
           )}
+          {searchResults.some(
+            (r) => r.section.id === "data-anilist-export",
+          ) && (
+            <AniListExportSection
+              searchQuery={searchQuery}
+              highlightedSectionId={highlightedSectionId}
+            />
+          )}
+          {searchResults.some(
+            (r) => r.section.id === "data-export-watcher",
+          ) && (
+            <ExportWatcherSection
+              searchQuery={searchQuery}
+              highlightedSectionId={highlightedSectionId}
+            />
+          )}
           {searchResults.some((r) => r.section.id === "data-debug") && (
             <DebugToolsSection
               isDebugEnabled={isDebugEnabled}
@@ -257,6 +287,7 @@ export function SettingsTabsContainer({
               isIpcViewerEnabled={isIpcViewerEnabled}
               isEventLoggerEnabled={isEventLoggerEnabled}
               isConfidenceTestExporterEnabled={isConfidenceTestExporterEnabled}
+              isConfidenceCalibrationEnabled={isConfidenceCalibrationEnabled}
               isPerformanceMonitorEnabled={isPerformanceMonitorEnabled}
               searchQuery={searchQuery}
               highlightedSectionId={highlightedSectionId}
@@ -268,6 +299,7 @@ export function SettingsTabsContainer({
               onIpcViewerChange={onIpcViewerChange}
               onEventLoggerChange={onEventLoggerChange}
               onConfidenceTestExporterChange={onConfidenceTestExporterChange}
+              onConfidenceCalibrationChange={onConfidenceCalibrationChange}
               onPerformanceMonitorChange={onPerformanceMonitorChange}
             />
           )}
@@ -349,6 +381,7 @@ export function SettingsTabsContainer({
           isIpcViewerEnabled={isIpcViewerEnabled}
           isEventLoggerEnabled={isEventLoggerEnabled}
           isConfidenceTestExporterEnabled={isConfidenceTestExporterEnabled}
+          isConfidenceCalibrationEnabled={isConfidenceCalibrationEnabled}
           isPerformanceMonitorEnabled={isPerformanceMonitorEnabled}
           searchQuery={searchQuery}
           highlightedSectionId={highlightedSectionId}
@@ -371,6 +404,7 @@ export function SettingsTabsContainer({
           onIpcViewerChange={onIpcViewerChange}
           onEventLoggerChange={onEventLoggerChange}
           onConfidenceTestExporterChange={onConfidenceTestExporterChange}
+          onConfidenceCalibrationChange={onConfidenceCalibrationChange}
           onPerformanceMonitorChange={onPerformanceMonitorChange}
           collapsedSections={collapsedSections}
           onToggleSection={onToggleSection}
@@ -0,0 +1,329 @@
+/**
+ * @packageDocumentation
+ * @module SyncCustomListsSection
+ * @description Custom list rules section for the Sync tab.
+ */
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/Switch";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Input } from "@/components/ui/Input";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/Card";
+import { highlightText, truncateToastMessage } from "@/utils/text-highlight";
+import { cn } from "@/utils/tailwind";
+import { getCustomRuleWarningMessage } from "@/utils/customRuleMessages";
+import {
+  CUSTOM_LIST_RULE_TARGETS,
+  migrateCustomListRule,
+  validateCustomListRule,
+} from "@/utils/storage";
+import type {
+  CustomListRule,
+  CustomListRuleTarget,
+  SyncConfig,
+} from "@/utils/storage";
+
+/**
+ * Display labels for custom list rule targets.
+ * @source
+ */
+const TARGET_LABELS: Record<CustomListRuleTarget, string> = {
+  status: "Kenmei status",
+  format: "Format",
+  country: "Country",
+  genres: "Genres",
+};
+
+/**
+ * Props for SyncCustomListsSection component.
+ * @source
+ */
+interface SyncCustomListsSectionProps {
+  /** Current sync configuration. */
+  syncConfig: SyncConfig;
+  /** Current search query. */
+  searchQuery: string;
+  /** Currently highlighted section ID. */
+  highlightedSectionId: string | null;
+  /** Callback when sync config changes. */
+  onSyncConfigChange: (config: SyncConfig, field: string) => void;
+  /** Callback to set entire sync config. */
+  setSyncConfig: (config: SyncConfig) => void;
+}
+
+/**
+ * Empty form state for a new custom list rule.
+ * @source
+ */
+const EMPTY_FORM = {
+  description: "",
+  pattern: "",
+  lists: "",
+  targetFields: ["format"] as CustomListRuleTarget[],
+  caseSensitive: false,
+  hiddenFromStatusLists: false,
+};
+
+/**
+ * Custom list rules section.
+ * Assigns AniList custom lists (and optionally hides entries from status lists) during sync.
+ * @param props - Component props.
+ * @returns The rendered custom list rules section.
+ * @source
+ */
+export function SyncCustomListsSection({
+  syncConfig,
+  searchQuery,
+  highlightedSectionId,
+  onSyncConfigChange,
+  setSyncConfig,
+}: Readonly<SyncCustomListsSectionProps>) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const rules = syncConfig.customListRules;
+
+  /**
+   * Persists an updated rule list.
+   * @param customListRules - The new rule list.
+   * @source
+   */
+  const updateRules = (customListRules: CustomListRule[]) => {
+    const updatedConfig = { ...syncConfig, customListRules };
+    setSyncConfig(updatedConfig);
+    onSyncConfigChange(updatedConfig, "customListRules");
+  };
+
+  /**
+   * Validates the form and adds a new rule.
+   * @source
+   */
+  const handleAddRule = () => {
+    const rule = migrateCustomListRule({
+      description: form.description.trim(),
+      pattern: form.pattern.trim(),
+      targetFields: form.targetFields,
+      caseSensitive: form.caseSensitive,
+      customLists: form.lists.split(","),
+      hiddenFromStatusLists: form.hiddenFromStatusLists,
+      enabled: true,
+    });
+    // Migration falls back to a default target; keep the user's empty selection invalid
+    rule.targetFields = form.targetFields;
+
+    const validation = validateCustomListRule(rule);
+    if (!validation.valid) {
+      toast.error("Invalid rule", {
+        description: truncateToastMessage(
+          validation.error || "Invalid rule",
+          200,
+        ).component,
+      });
+      return;
+    }
+    if (validation.warning) {
+      toast.warning(getCustomRuleWarningMessage(validation.warning));
+    }
+
+    updateRules([...rules, rule]);
+    setForm(EMPTY_FORM);
+    toast.success("Custom list rule added");
+  };
+
+  const toggleTarget = (target: CustomListRuleTarget, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      targetFields: checked
+        ? [...prev.targetFields, target]
+        : prev.targetFields.filter((field) => field !== target),
+    }));
+  };
+
+  return (
+    <motion.div
+      id="sync-custom-lists"
+      className={cn(
+        highlightedSectionId === "sync-custom-lists" &&
+          "rounded-xl ring-2 ring-blue-500 ring-offset-2 ring-offset-white dark:ring-blue-400 dark:ring-offset-slate-950",
+      )}
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ListPlus className="h-4 w-4 text-slate-500" />
+              {searchQuery
+                ? highlightText("Custom list rules", searchQuery)
+                : "Custom list rules"}
+            </CardTitle>
+            <CardDescription>
+              {searchQuery
+                ? highlightText(
+                    "Add synced entries to AniList custom lists based on Kenmei status, format, country of origin, or genre.",
+                    searchQuery,
+                  )
+                : "Add synced entries to AniList custom lists based on Kenmei status, format, country of origin, or genre."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length > 0 && (
+            <div className="flex flex-col gap-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="shadow-xs flex items-center justify-between gap-3 rounded-lg border p-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="truncate text-sm font-medium">
+                      {rule.description}
+                    </p>
+                    <p className="text-muted-foreground truncate font-mono text-xs">
+                      {rule.targetFields
+                        .map((field) => TARGET_LABELS[field])
+                        .join(", ")}{" "}
+                      ~ /{rule.pattern}/
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {rule.customLists.map((list) => (
+                        <Badge key={list} variant="outline" className="text-xs">
+                          {list}
+                        </Badge>
+                      ))}
+                      {rule.hiddenFromStatusLists && (
+                        <Badge variant="secondary" className="text-xs">
+                          Hidden from status lists
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch
+                      checked={rule.enabled}
+                      aria-label={`Toggle ${rule.description}`}
+                      onCheckedChange={(checked) =>
+                        updateRules(
+                          rules.map((r) =>
+                            r.id === rule.id ? { ...r, enabled: checked } : r,
+                          ),
+                        )
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${rule.description}`}
+                      onClick={() =>
+                        updateRules(rules.filter((r) => r.id !== rule.id))
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3 rounded-lg border border-dashed p-3">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Input
+                placeholder="Description (e.g. Korean webtoons)"
+                value={form.description}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, description: e.target.value }))
+                }
+              />
+              <Input
+                placeholder="Pattern (e.g. ^KR$)"
+                className="font-mono"
+                value={form.pattern}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, pattern: e.target.value }))
+                }
+              />
+            </div>
+            <Input
+              placeholder="Custom lists, comma separated (e.g. Webtoons, Physical)"
+              value={form.lists}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, lists: e.target.value }))
+              }
+            />
+            <div className="flex flex-wrap gap-4">
+              {CUSTOM_LIST_RULE_TARGETS.map((target) => (
+                <label
+                  key={target}
+                  className="flex items-center gap-2 text-xs"
+                  htmlFor={`custom-list-target-${target}`}
+                >
+                  <Checkbox
+                    id={`custom-list-target-${target}`}
+                    checked={form.targetFields.includes(target)}
+                    onCheckedChange={(checked) =>
+                      toggleTarget(target, checked === true)
+                    }
+                  />
+                  {TARGET_LABELS[target]}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-4">
+                <label
+                  className="flex items-center gap-2 text-xs"
+                  htmlFor="custom-list-case-sensitive"
+                >
+                  <Switch
+                    id="custom-list-case-sensitive"
+                    checked={form.caseSensitive}
+                    onCheckedChange={(checked) =>
+                      setForm((prev) => ({ ...prev, caseSensitive: checked }))
+                    }
+                  />
+                  Case sensitive
+                </label>
+                <label
+                  className="flex items-center gap-2 text-xs"
+                  htmlFor="custom-list-hidden"
+                >
+                  <Switch
+                    id="custom-list-hidden"
+                    checked={form.hiddenFromStatusLists}
+                    onCheckedChange={(checked) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        hiddenFromStatusLists: checked,
+                      }))
+                    }
+                  />
+                  Hide from status lists
+                </label>
+              </div>
+              <Button size="sm" onClick={handleAddRule}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add rule
+              </Button>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Lists must already exist on your AniList profile. Entries are only
+              ever added to lists, never removed.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -10,6 +10,7 @@ import { RefreshCw } from "lucide-react";
 import { SettingsSectionShell } from "./SettingsSectionShell";
 import { SyncAutoPauseSection } from "./SyncAutoPauseSection";
 import { SyncStatusPrioritySection } from "./SyncStatusPrioritySection";
+import { SyncCustomListsSection } from "./SyncCustomListsSection";
 import { SyncPrivacySection } from "./SyncPrivacySection";
 import type { SyncConfig } from "@/utils/storage";
 
@@ -143,6 +144,13 @@ export function SyncSettingsTab({
                 setSyncConfig={setSyncConfig}
               />
             </div>
+            <SyncCustomListsSection
+              syncConfig={syncConfig}
+              searchQuery={searchQuery}
+              highlightedSectionId={highlightedSectionId}
+              onSyncConfigChange={onSyncConfigChange}
+              setSyncConfig={setSyncConfig}
+            />
           </div>
 
           <div className="space-y-3">
@@ -196,6 +196,188 @@ export function SyncStatusPrioritySection({
                 }}
               />
             </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="prioritize-anilist-volumes"
+                >
+                  {searchQuery
+                    ? highlightText("Prioritize AniList volumes", searchQuery)
+                    : "Prioritize AniList volumes"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Use AniList volume count if higher
+                </p>
+              </div>
+              <Switch
+                id="prioritize-anilist-volumes"
+                checked={syncConfig.prioritizeAniListVolumes}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    prioritizeAniListVolumes: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(updatedConfig, "prioritizeAniListVolumes");
+                }}
+              />
+            </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="prioritize-anilist-notes"
+                >
+                  {searchQuery
+                    ? highlightText("Prioritize AniList notes", searchQuery)
+                    : "Prioritize AniList notes"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Keep AniList notes instead of Kenmei notes
+                </p>
+              </div>
+              <Switch
+                id="prioritize-anilist-notes"
+                checked={syncConfig.prioritizeAniListNotes}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    prioritizeAniListNotes: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(updatedConfig, "prioritizeAniListNotes");
+                }}
+              />
+            </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="prioritize-anilist-started-at"
+                >
+                  {searchQuery
+                    ? highlightText(
+                        "Prioritize AniList start date",
+                        searchQuery,
+                      )
+                    : "Prioritize AniList start date"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Keep AniList start date if already set
+                </p>
+              </div>
+              <Switch
+                id="prioritize-anilist-started-at"
+                checked={syncConfig.prioritizeAniListStartedAt}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    prioritizeAniListStartedAt: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(
+                    updatedConfig,
+                    "prioritizeAniListStartedAt",
+                  );
+                }}
+              />
+            </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="prioritize-anilist-completed-at"
+                >
+                  {searchQuery
+                    ? highlightText(
+                        "Prioritize AniList completion date",
+                        searchQuery,
+                      )
+                    : "Prioritize AniList completion date"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Keep AniList completion date if already set
+                </p>
+              </div>
+              <Switch
+                id="prioritize-anilist-completed-at"
+                checked={syncConfig.prioritizeAniListCompletedAt}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    prioritizeAniListCompletedAt: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(
+                    updatedConfig,
+                    "prioritizeAniListCompletedAt",
+                  );
+                }}
+              />
+            </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="three-way-merge"
+                >
+                  {searchQuery
+                    ? highlightText("Three-way merge", searchQuery)
+                    : "Three-way merge"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  After the first sync, only push fields changed in Kenmei, keep
+                  AniList-side edits, and ask about fields changed on both
+                </p>
+              </div>
+              <Switch
+                id="three-way-merge"
+                checked={syncConfig.threeWayMerge}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    threeWayMerge: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(updatedConfig, "threeWayMerge");
+                }}
+              />
+            </div>
+
+            <div className="shadow-xs flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="verify-after-sync"
+                >
+                  {searchQuery
+                    ? highlightText("Verify after sync", searchQuery)
+                    : "Verify after sync"}
+                </label>
+                <p className="text-muted-foreground text-xs">
+                  Re-read AniList once a sync finishes and report entries whose
+                  changes did not land
+                </p>
+              </div>
+              <Switch
+                id="verify-after-sync"
+                checked={syncConfig.verifyAfterSync}
+                onCheckedChange={(checked) => {
+                  const updatedConfig = {
+                    ...syncConfig,
+                    verifyAfterSync: checked,
+                  };
+                  setSyncConfig(updatedConfig);
+                  onSyncConfigChange(updatedConfig, "verifyAfterSync");
+                }}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -71,6 +71,8 @@ export interface DataManagementProps {
   isEventLoggerEnabled: boolean;
   /** Whether confidence test exporter is enabled. */
   isConfidenceTestExporterEnabled: boolean;
+  /** Whether confidence calibration panel is enabled. */
+  isConfidenceCalibrationEnabled: boolean;
   /** Whether performance monitor is enabled. */
   isPerformanceMonitorEnabled: boolean;
 
@@ -115,6 +117,8 @@ export interface DataManagementProps {
   onEventLoggerChange: (enabled: boolean) => void;
   /** Callback to toggle confidence test exporter. */
   onConfidenceTestExporterChange: (enabled: boolean) => void;
+  /** Callback to toggle confidence calibration panel. */
+  onConfidenceCalibrationChange: (enabled: boolean) => void;
   /** Callback to toggle performance monitor. */
   onPerformanceMonitorChange: (enabled: boolean) => void;
 
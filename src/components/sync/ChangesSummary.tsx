@@ -16,9 +16,18 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { Button } from "../ui/Button";
-import { UserMediaList, MangaMatchResult } from "../../api/anilist/types";
+import {
+  UserMediaList,
+  MangaMatchResult,
+  ScoreFormat,
+} from "../../api/anilist/types";
+import { kenmeiScoreDiffers } from "../../api/anilist/score-format";
 import { SyncConfig } from "../../utils/storage";
-import { getEffectiveStatus } from "./sync-utils";
+import {
+  calculateListDetailChanges,
+  getEffectiveStatus,
+  resolveListEntryDetails,
+} from "./sync-utils";
 
 /**
  * Props for the ChangesSummary component.
@@ -30,6 +39,7 @@ import { getEffectiveStatus } from "./sync-utils";
  * @property userLibrary - User's AniList library indexed by manga ID.
  * @property mangaMatches - All matched manga entries from Kenmei scan.
  * @property syncConfig - Current sync configuration with priority settings.
+ * @property scoreFormat - Viewer's AniList score format used to compare scores.
  * @source
  */
 interface ChangesSummaryProps {
@@ -49,6 +59,8 @@ interface ChangesSummaryProps {
   mangaMatches: MangaMatchResult[];
   /** Current sync configuration. */
   syncConfig: SyncConfig;
+  /** Viewer's AniList score format. */
+  scoreFormat: ScoreFormat;
 }
 
 /**
@@ -69,6 +81,7 @@ export const ChangesSummary: React.FC<ChangesSummaryProps> = ({
   userLibrary,
   mangaMatches,
   syncConfig,
+  scoreFormat,
 }) => {
   const totalLibraryEntries = Object.keys(userLibrary || {}).length;
   const totalMatched = mangaMatches.filter(
@@ -78,6 +91,8 @@ export const ChangesSummary: React.FC<ChangesSummaryProps> = ({
     (match) => match.selectedMatch && !userLibrary[match.selectedMatch.id],
   ).length;
 
+  const detailCounts = { volumes: 0, notes: 0, dates: 0, lists: 0 };
+
   const updatesCount = mangaMatches.filter((match) => {
     if (!match.selectedMatch) return false;
 
@@ -100,26 +115,53 @@ export const ChangesSummary: React.FC<ChangesSummaryProps> = ({
       ? (kenmei.chaptersRead || 0) > (userEntry.progress || 0)
       : (kenmei.chaptersRead || 0) !== (userEntry.progress || 0);
 
-    const anilistScore = Number(userEntry.score || 0);
-    const kenmeiScore = Number(kenmei.score || 0);
     const scoreWillChange =
       syncConfig.prioritizeAniListScore &&
       userEntry.score &&
       Number(userEntry.score) > 0
         ? false
-        : kenmei.score > 0 &&
-          (anilistScore === 0 || Math.abs(kenmeiScore - anilistScore) >= 0.5);
+        : kenmeiScoreDiffers(kenmei.score, userEntry.score, scoreFormat);
 
     const privacyWillChange = syncConfig.setPrivate && !userEntry.private;
 
+    const targetStatus = syncConfig.prioritizeAniListStatus
+      ? userEntry.status
+      : getEffectiveStatus(kenmei, syncConfig);
+    const detailChanges = calculateListDetailChanges(
+      resolveListEntryDetails(
+        kenmei,
+        userEntry,
+        syncConfig,
+        targetStatus,
+        anilist,
+      ),
+      userEntry,
+    );
+    if (detailChanges.volumesWillChange) detailCounts.volumes++;
+    if (detailChanges.notesWillChange) detailCounts.notes++;
+    if (
+      detailChanges.startedAtWillChange ||
+      detailChanges.completedAtWillChange
+    )
+      detailCounts.dates++;
+    if (detailChanges.customListsWillChange) detailCounts.lists++;
+
     return (
       statusWillChange ||
       progressWillChange ||
       scoreWillChange ||
-      privacyWillChange
+      privacyWillChange ||
+      Object.values(detailChanges).some(Boolean)
     );
   }).length;
 
+  const detailSummary = [
+    detailCounts.volumes > 0 && `${detailCounts.volumes} volume counts`,
+    detailCounts.notes > 0 && `${detailCounts.notes} notes`,
+    detailCounts.dates > 0 && `${detailCounts.dates} reading dates`,
+    detailCounts.lists > 0 && `${detailCounts.lists} custom list assignments`,
+  ].filter(Boolean);
+
   const readinessRatio =
     totalMatched > 0
       ? Math.min(100, Math.round((entriesWithChanges / totalMatched) * 100))
@@ -308,6 +350,16 @@ export const ChangesSummary: React.FC<ChangesSummaryProps> = ({
         })}
       </div>
 
+      {detailSummary.length > 0 && (
+        <div className="mt-4 flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <ListChecks className="h-3 w-3 text-amber-500 dark:text-amber-400" />
+          <span>
+            Existing entries also receive {detailSummary.join(", ")} during
+            sync.
+          </span>
+        </div>
+      )}
+
       <div className="mt-4 rounded-2xl border border-blue-100/60 bg-blue-50/80 px-4 py-3 text-xs text-blue-600 dark:border-blue-900/50 dark:bg-blue-950/20 dark:text-blue-300">
         <strong className="font-semibold">Note:</strong> Media entries with
         &ldquo;Hide from status lists&rdquo; enabled and not associated with any
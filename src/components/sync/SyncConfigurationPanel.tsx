@@ -14,7 +14,13 @@ import {
   CheckCircle2,
   Gauge,
   Star,
+  Library,
+  StickyNote,
+  CalendarDays,
+  CalendarCheck,
   Lock,
+  GitMerge,
+  SearchCheck,
   Clock3,
   ChevronDown,
 } from "lucide-react";
@@ -40,10 +46,10 @@ interface SyncConfigurationPanelProps {
 /**
  * Collapsible configuration panel for managing sync priority and behavior settings.
  * Provides toggles for: preserved completed entries, AniList prioritization, progress sync strategy,
- * score handling, privacy settings, and auto-pause configuration with custom threshold support.
+ * score handling, volumes/notes/reading dates, privacy settings, and auto-pause configuration with custom threshold support.
  *
  * Features:
- * - Five main toggle options with descriptions and icons
+ * - Eleven main toggle options with descriptions and icons
  * - Auto-pause inactive manga with preset/custom day thresholds
  * - Persistent configuration saving to storage
  * - Expandable/collapsible UI to manage screen space
@@ -98,6 +104,51 @@ export function SyncConfigurationPanel({
       icon: Star,
       accent: "from-amber-500 to-orange-500",
     },
+    {
+      key: "prioritizeAniListVolumes",
+      title: "Prioritize AniList volumes",
+      description:
+        "Keeps the higher volume count between AniList and Kenmei records.",
+      icon: Library,
+      accent: "from-teal-500 to-cyan-500",
+    },
+    {
+      key: "prioritizeAniListNotes",
+      title: "Prioritize AniList notes",
+      description: "Keeps existing AniList notes instead of Kenmei notes.",
+      icon: StickyNote,
+      accent: "from-lime-500 to-green-500",
+    },
+    {
+      key: "prioritizeAniListStartedAt",
+      title: "Prioritize AniList start dates",
+      description: "Keeps start dates already recorded on AniList.",
+      icon: CalendarDays,
+      accent: "from-cyan-500 to-sky-500",
+    },
+    {
+      key: "prioritizeAniListCompletedAt",
+      title: "Prioritize AniList completion dates",
+      description: "Keeps completion dates already recorded on AniList.",
+      icon: CalendarCheck,
+      accent: "from-rose-500 to-pink-500",
+    },
+    {
+      key: "threeWayMerge",
+      title: "Three-way merge",
+      description:
+        "Only pushes fields changed in Kenmei since the last sync and flags conflicts.",
+      icon: GitMerge,
+      accent: "from-violet-500 to-fuchsia-500",
+    },
+    {
+      key: "verifyAfterSync",
+      title: "Verify after sync",
+      description:
+        "Re-reads AniList after syncing and reports entries that drifted.",
+      icon: SearchCheck,
+      accent: "from-sky-500 to-indigo-500",
+    },
     {
       key: "setPrivate",
       title: "Set entries as private",
@@ -0,0 +1,186 @@
+/**
+ * @packageDocumentation
+ * @module SyncConflictReview
+ * @description Lists three-way merge conflicts before a sync starts and lets the user pick Kenmei or AniList for each field.
+ */
+
+import React from "react";
+import { GitMerge } from "lucide-react";
+import {
+  AniListMediaEntry,
+  ScoreFormat,
+  SyncConflict,
+  SyncMergeField,
+} from "../../api/anilist/types";
+import type { ConflictResolution } from "../../api/anilist/sync-baseline";
+import { formatAniListScore } from "../../api/anilist/score-format";
+import { formatFuzzyDate } from "../../api/anilist/fuzzy-date";
+import { Button } from "../ui/Button";
+
+/**
+ * Display labels for mergeable fields.
+ * @source
+ */
+const FIELD_LABELS: Record<SyncMergeField, string> = {
+  status: "Status",
+  progress: "Chapters",
+  score: "Score",
+  progressVolumes: "Volumes",
+  notes: "Notes",
+  startedAt: "Started",
+  completedAt: "Completed",
+};
+
+/**
+ * Formats a conflicting value for display.
+ * @param field - Conflicting field.
+ * @param value - Value to format.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns Display string.
+ * @source
+ */
+function formatConflictValue(
+  field: SyncMergeField,
+  value: SyncConflict["kenmei"],
+  scoreFormat: ScoreFormat,
+): string {
+  switch (field) {
+    case "score":
+      return formatAniListScore(value as number, scoreFormat);
+    case "startedAt":
+    case "completedAt":
+      return formatFuzzyDate(value as SyncConflict<"startedAt">["kenmei"]);
+    case "notes": {
+      const notes = ((value as string | null) ?? "").trim();
+      if (!notes) return "None";
+      return notes.length > 40 ? `${notes.slice(0, 40)}…` : notes;
+    }
+    default:
+      return value === null || value === undefined || value === ""
+        ? "None"
+        : String(value);
+  }
+}
+
+/**
+ * Props for SyncConflictReview component.
+ * @source
+ */
+interface SyncConflictReviewProps {
+  /** Entries with unresolved conflicts. */
+  entries: AniListMediaEntry[];
+  /** Viewer's AniList score format. */
+  scoreFormat: ScoreFormat;
+  /** Called when the user resolves a conflict. */
+  onResolve: (
+    mediaId: number,
+    field: SyncMergeField,
+    resolution: ConflictResolution,
+  ) => void;
+}
+
+/**
+ * Conflict review panel shown in SyncManager before a sync starts.
+ * Unresolved conflicts keep their AniList value and are raised again on the next sync.
+ * @param props - Component props.
+ * @returns The rendered conflict list, or null when there are no conflicts.
+ * @source
+ */
+export function SyncConflictReview({
+  entries,
+  scoreFormat,
+  onResolve,
+}: Readonly<SyncConflictReviewProps>) {
+  if (entries.length === 0) return null;
+
+  const conflictCount = entries.reduce(
+    (sum, entry) => sum + (entry.conflicts?.length ?? 0),
+    0,
+  );
+
+  return (
+    <div className="overflow-hidden rounded-3xl border border-violet-200/60 bg-violet-50/70 p-5 shadow-sm dark:border-violet-900/50 dark:bg-violet-950/30">
+      <div className="flex items-start gap-3">
+        <div className="bg-linear-to-br flex h-12 w-12 shrink-0 items-center justify-center rounded-2xl from-violet-500 to-fuchsia-500 text-white shadow-lg">
+          <GitMerge className="h-6 w-6" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-violet-700 dark:text-violet-300">
+            {conflictCount} {conflictCount === 1 ? "conflict" : "conflicts"}{" "}
+            since the last sync
+          </h3>
+          <p className="mt-1 text-xs text-violet-700/80 dark:text-violet-200/80">
+            These fields changed on both Kenmei and AniList. Pick which value to
+            keep; anything left unresolved stays as it is on AniList and will be
+            raised again next time.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 max-h-72 space-y-3 overflow-y-auto pr-1">
+        {entries.map((entry) => (
+          <div
+            key={entry.mediaId}
+            className="rounded-2xl border border-violet-200/60 bg-white/80 p-3 dark:border-violet-900/40 dark:bg-slate-950/50"
+          >
+            <p className="truncate text-sm font-semibold text-slate-800 dark:text-slate-100">
+              {entry.title || `Media ${entry.mediaId}`}
+            </p>
+            <div className="mt-2 space-y-2">
+              {entry.conflicts?.map((conflict) => (
+                <div
+                  key={conflict.field}
+                  className="flex flex-col gap-2 text-xs sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="text-slate-600 dark:text-slate-300">
+                    <span className="font-medium text-slate-800 dark:text-slate-100">
+                      {FIELD_LABELS[conflict.field]}
+                    </span>{" "}
+                    was{" "}
+                    {formatConflictValue(
+                      conflict.field,
+                      conflict.baseline,
+                      scoreFormat,
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={() =>
+                        onResolve(entry.mediaId, conflict.field, "kenmei")
+                      }
+                    >
+                      Kenmei:{" "}
+                      {formatConflictValue(
+                        conflict.field,
+                        conflict.kenmei,
+                        scoreFormat,
+                      )}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={() =>
+                        onResolve(entry.mediaId, conflict.field, "anilist")
+                      }
+                    >
+                      AniList:{" "}
+                      {formatConflictValue(
+                        conflict.field,
+                        conflict.anilist,
+                        scoreFormat,
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
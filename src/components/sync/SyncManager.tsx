@@ -8,8 +8,28 @@
 // Progress count display for incremental updates - currently marks as complete upfront causing incorrect display (e.g., 3/20 at start instead of 0/20). Should complete incremental updates at the end of the sync process. This is not a problem with actually updating entries but with how the progress of how many entries have been updated is displayed.
 
 import React, { useEffect, useMemo, useState } from "react";
-import { SyncProgress, SyncReport } from "../../api/anilist/sync-service";
-import { AniListMediaEntry } from "../../api/anilist/types";
+import {
+  buildSyncPlan,
+  SyncProgress,
+  SyncReport,
+} from "../../api/anilist/sync-service";
+import type { SyncPlan } from "../../api/anilist/sync-plan";
+import {
+  AniListMediaEntry,
+  ScoreFormat,
+  SyncMergeField,
+} from "../../api/anilist/types";
+import {
+  DEFAULT_SCORE_FORMAT,
+  formatAniListScore,
+} from "../../api/anilist/score-format";
+import { hasListDetailChanges } from "../../api/anilist/incremental-sync";
+import {
+  ConflictResolution,
+  hasMergedChanges,
+  recordSyncBaselines,
+  resolveSyncConflict,
+} from "../../api/anilist/sync-baseline";
 import {
   ErrorRecoveryAction,
   getRecoveryActionMessage,
@@ -39,6 +59,9 @@ import { Button } from "../ui/Button";
 import { Switch } from "../ui/Switch";
 import { Label } from "../ui/Label";
 import { useRateLimit } from "../../contexts/rate-limit-context";
+import { useAuthActions, useAuthState } from "../../hooks/use-auth";
+import { SyncConflictReview } from "./SyncConflictReview";
+import { SyncPlanPanel } from "./SyncPlanPanel";
 
 /**
  * Type alias for error recovery action types.
@@ -170,6 +193,7 @@ const StatusAlerts: React.FC<{
       remainingMediaIds: number[];
       timestamp: number;
     } | null;
+    pausedForReauth?: boolean;
   };
 }> = ({
   status,
@@ -264,11 +288,14 @@ const StatusAlerts: React.FC<{
           </div>
           <div className="min-w-0 flex-1">
             <AlertTitle className="text-amber-800 dark:text-amber-200">
-              Synchronization paused
+              {syncState?.pausedForReauth
+                ? "Synchronization paused: AniList session expired"
+                : "Synchronization paused"}
             </AlertTitle>
             <AlertDescription className="mt-1 text-sm text-amber-700/80 dark:text-amber-200/80">
-              Your progress is saved. Resume whenever you&apos;re ready to pick
-              up where you left off.
+              {syncState?.pausedForReauth
+                ? "Your progress is saved. Re-authenticate and the sync resumes automatically."
+                : "Your progress is saved. Resume whenever you're ready to pick up where you left off."}
               {pausedAt && (
                 <span className="ml-1 inline-block text-xs text-amber-600/70 dark:text-amber-300/70">
                   Paused at {pausedAt}
@@ -346,7 +373,8 @@ const CurrentEntryDisplay: React.FC<{
   entries: AniListMediaEntry[];
   status: string;
   isIncrementalSync: boolean;
-}> = ({ progress, entries, status, isIncrementalSync }) => {
+  scoreFormat: ScoreFormat;
+}> = ({ progress, entries, status, isIncrementalSync, scoreFormat }) => {
   if (status !== "syncing" || !progress.currentEntry) return null;
 
   return (
@@ -440,12 +468,15 @@ const CurrentEntryDisplay: React.FC<{
                   currentEntry.previousValues?.score === null ||
                   currentEntry.previousValues?.score === undefined
                     ? "—"
-                    : Math.round(currentEntry.previousValues.score).toString(),
+                    : formatAniListScore(
+                        currentEntry.previousValues.score,
+                        scoreFormat,
+                      ),
                 next:
                   currentEntry.score === null ||
                   currentEntry.score === undefined
                     ? "—"
-                    : Math.round(currentEntry.score).toString(),
+                    : formatAniListScore(currentEntry.score, scoreFormat),
                 changed:
                   currentEntry.previousValues?.score !== currentEntry.score,
               },
@@ -719,6 +750,8 @@ const SyncActions: React.FC<{
   onPause?: () => void;
   onResume?: () => void;
   canResume?: boolean;
+  onReauthenticate?: () => void;
+  needsReauth?: boolean;
   syncState?: { report?: SyncReport | null };
 }> = ({
   status,
@@ -727,6 +760,8 @@ const SyncActions: React.FC<{
   onPause,
   onResume,
   canResume,
+  onReauthenticate,
+  needsReauth,
   syncState,
 }) => {
   if (status === "idle") {
@@ -789,11 +824,13 @@ const SyncActions: React.FC<{
         </Button>
         {onResume && canResume && (
           <Button
-            onClick={onResume}
+            onClick={
+              needsReauth && onReauthenticate ? onReauthenticate : onResume
+            }
             className="bg-linear-to-r gap-2 from-blue-600 via-indigo-600 to-purple-600 text-white shadow-lg shadow-blue-500/30 transition hover:from-blue-500 hover:via-indigo-500 hover:to-purple-500"
           >
             <RefreshCw className="h-4 w-4" />
-            Resume sync
+            {needsReauth ? "Re-authenticate & resume" : "Resume sync"}
           </Button>
         )}
       </>
@@ -812,7 +849,18 @@ const SyncActions: React.FC<{
           Close
         </Button>
 
+        {status === "failed" && needsReauth && onReauthenticate && (
+          <Button
+            onClick={onReauthenticate}
+            className="bg-linear-to-r gap-2 from-blue-600 via-indigo-600 to-purple-600 text-white shadow-lg shadow-blue-500/30 transition hover:from-blue-500 hover:via-indigo-500 hover:to-purple-500"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Re-authenticate & sync
+          </Button>
+        )}
+
         {status === "failed" &&
+          !needsReauth &&
           syncState?.report &&
           syncState.report.errors.length > 0 && (
             <Button
@@ -862,12 +910,13 @@ export interface SyncManagerProps {
       remainingMediaIds: number[];
       timestamp: number;
     } | null;
+    pausedForReauth?: boolean;
   };
   syncActions?: {
     startSync: (
       entries: AniListMediaEntry[],
       token: string,
-      _?: undefined,
+      syncPlan?: SyncPlan,
       displayOrderMediaIds?: number[],
     ) => Promise<void>;
     cancelSync: () => void;
@@ -882,6 +931,7 @@ export interface SyncManagerProps {
   incrementalSync?: boolean;
   onIncrementalSyncChange?: (value: boolean) => void;
   displayOrderMediaIds?: number[];
+  scoreFormat?: ScoreFormat;
 }
 
 /**
@@ -913,11 +963,27 @@ const SyncManager: React.FC<SyncManagerProps> = ({
   incrementalSync: isIncrementalSync = false,
   onIncrementalSyncChange,
   displayOrderMediaIds,
+  scoreFormat = DEFAULT_SCORE_FORMAT,
 }) => {
   const { rateLimitState } = useRateLimit();
+  const { tokenExpiryStatus } = useAuthState();
+  const { reauthenticate } = useAuthActions();
   const [progressBaseline, setProgressBaseline] = useState<SyncProgress | null>(
     null,
   );
+  const [resolvedEntries, setResolvedEntries] = useState<
+    Record<number, AniListMediaEntry>
+  >({});
+
+  // Entries with the user's conflict resolutions applied
+  const workingEntries = useMemo(
+    () => entries.map((entry) => resolvedEntries[entry.mediaId] ?? entry),
+    [entries, resolvedEntries],
+  );
+  const conflictedEntries = useMemo(
+    () => workingEntries.filter((entry) => entry.conflicts?.length),
+    [workingEntries],
+  );
   const [resumeOffsets, setResumeOffsets] = useState({
     initialized: false,
     completed: 0,
@@ -1152,77 +1218,137 @@ const SyncManager: React.FC<SyncManagerProps> = ({
 
   const StatusIcon = statusDetails.icon;
 
+  // Handle conflict resolution
+  const handleResolveConflict = (
+    mediaId: number,
+    field: SyncMergeField,
+    resolution: ConflictResolution,
+  ) => {
+    const entry = workingEntries.find((e) => e.mediaId === mediaId);
+    if (!entry) return;
+    setResolvedEntries((prev) => ({
+      ...prev,
+      [mediaId]: resolveSyncConflict(entry, field, resolution),
+    }));
+  };
+
+  // Build the entries and order a sync would run with, including incremental metadata
+  const prepareSyncRun = () => {
+    // Merged entries with nothing left to write only need a fresh baseline
+    const entriesToSync = workingEntries.filter(
+      (entry) =>
+        !entry.mergedFromBaseline || hasMergedChanges(entry, scoreFormat),
+    );
+    const unchangedEntries = workingEntries.filter(
+      (entry) => !entriesToSync.includes(entry),
+    );
+    const syncMediaIds = new Set(entriesToSync.map((entry) => entry.mediaId));
+    const syncOrderMediaIds = displayOrderMediaIds?.filter((id) =>
+      syncMediaIds.has(id),
+    );
+
+    if (!isIncrementalSync) {
+      return { entriesToSync, unchangedEntries, syncOrderMediaIds };
+    }
+
+    console.debug(
+      "[SyncManager] 🔍 Processing entries for incremental sync...",
+    );
+    const processedEntries = entriesToSync.map((entry) => {
+      // For new entries (no previousValues), use incremental sync if progress > 1
+      if (!entry.previousValues) {
+        const shouldUseIncremental = entry.progress > 1;
+        return {
+          ...entry,
+          syncMetadata: {
+            useIncrementalSync: shouldUseIncremental,
+            targetProgress: entry.progress,
+            progress: shouldUseIncremental ? 1 : entry.progress, // Start from 1 for incremental
+            // For new entries, mark that metadata should be set if provided
+            updatedStatus: !!entry.status,
+            updatedScore: typeof entry.score === "number" && entry.score > 0,
+            updatedPrivate: entry.private !== undefined,
+            updatedDetails: hasListDetailChanges(entry),
+          },
+        };
+      }
+
+      // For existing entries, check if incremental sync is needed
+      const previousProgress = entry.previousValues.progress || 0;
+      const targetProgress = entry.progress;
+      const shouldUseIncremental = targetProgress - previousProgress > 1;
+
+      return {
+        ...entry,
+        syncMetadata: {
+          useIncrementalSync: shouldUseIncremental,
+          targetProgress,
+          progress: shouldUseIncremental
+            ? previousProgress + 1
+            : entry.progress,
+          updatedStatus: entry.status !== entry.previousValues?.status,
+          updatedScore: entry.score !== entry.previousValues?.score,
+          updatedPrivate: entry.private !== entry.previousValues?.private,
+          updatedDetails: hasListDetailChanges(entry),
+        },
+      };
+    });
+    const incrementalCount = processedEntries.filter(
+      (e) => e.syncMetadata?.useIncrementalSync,
+    ).length;
+    console.info(
+      `[SyncManager] ✅ Prepared ${incrementalCount} entries for incremental sync`,
+    );
+
+    return {
+      entriesToSync: processedEntries,
+      unchangedEntries,
+      syncOrderMediaIds,
+    };
+  };
+
   // Handle start synchronization
-  const handleStartSync = async () => {
+  const handleStartSync = async (syncToken: string = token) => {
+    const { entriesToSync, unchangedEntries, syncOrderMediaIds } =
+      prepareSyncRun();
+    recordSyncBaselines(unchangedEntries);
+
     console.info(
-      `[SyncManager] 🚀 Starting sync with ${entries.length} entries (incremental: ${isIncrementalSync})`,
+      `[SyncManager] 🚀 Starting sync with ${entriesToSync.length} entries (incremental: ${isIncrementalSync})`,
     );
     setProgressBaseline(null);
     if (syncActions?.startSync) {
-      if (isIncrementalSync) {
-        console.debug(
-          "[SyncManager] 🔍 Processing entries for incremental sync...",
-        );
-        const processedEntries = entries.map((entry) => {
-          // For new entries (no previousValues), use incremental sync if progress > 1
-          if (!entry.previousValues) {
-            const shouldUseIncremental = entry.progress > 1;
-            return {
-              ...entry,
-              syncMetadata: {
-                useIncrementalSync: shouldUseIncremental,
-                targetProgress: entry.progress,
-                progress: shouldUseIncremental ? 1 : entry.progress, // Start from 1 for incremental
-                // For new entries, mark that metadata should be set if provided
-                updatedStatus: !!entry.status,
-                updatedScore:
-                  typeof entry.score === "number" && entry.score > 0,
-                updatedPrivate: entry.private !== undefined,
-              },
-            };
-          }
+      await syncActions.startSync(
+        entriesToSync,
+        syncToken,
+        undefined,
+        syncOrderMediaIds,
+      );
+    }
+  };
 
-          // For existing entries, check if incremental sync is needed
-          const previousProgress = entry.previousValues.progress || 0;
-          const targetProgress = entry.progress;
-          const shouldUseIncremental = targetProgress - previousProgress > 1;
-
-          return {
-            ...entry,
-            syncMetadata: {
-              useIncrementalSync: shouldUseIncremental,
-              targetProgress,
-              progress: shouldUseIncremental
-                ? previousProgress + 1
-                : entry.progress,
-              updatedStatus: entry.status !== entry.previousValues?.status,
-              updatedScore: entry.score !== entry.previousValues?.score,
-              updatedPrivate: entry.private !== entry.previousValues?.private,
-            },
-          };
-        });
-        const incrementalCount = processedEntries.filter(
-          (e) => e.syncMetadata?.useIncrementalSync,
-        ).length;
-        console.info(
-          `[SyncManager] ✅ Prepared ${incrementalCount} entries for incremental sync`,
-        );
+  // Record a dry-run plan for the staged entries without contacting AniList
+  const handleDryRun = async () => {
+    const { entriesToSync, syncOrderMediaIds } = prepareSyncRun();
+    console.info(
+      `[SyncManager] 📝 Dry run for ${entriesToSync.length} entries (incremental: ${isIncrementalSync})`,
+    );
+    return buildSyncPlan(entriesToSync, syncOrderMediaIds);
+  };
 
-        await syncActions.startSync(
-          processedEntries,
-          token,
-          undefined,
-          displayOrderMediaIds,
-        );
-      } else {
-        console.debug("[SyncManager] 🔍 Starting standard sync...");
-        await syncActions.startSync(
-          entries,
-          token,
-          undefined,
-          displayOrderMediaIds,
-        );
-      }
+  // Execute exactly the mutations recorded in a plan
+  const handleExecutePlan = async (plan: SyncPlan) => {
+    console.info(
+      `[SyncManager] 🚀 Executing sync plan with ${plan.entries.length} entries`,
+    );
+    setProgressBaseline(null);
+    if (syncActions?.startSync) {
+      await syncActions.startSync(
+        plan.entries.map((planEntry) => planEntry.entry),
+        token,
+        plan,
+        plan.entries.map((planEntry) => planEntry.mediaId),
+      );
     }
   };
 
@@ -1248,7 +1374,12 @@ const SyncManager: React.FC<SyncManagerProps> = ({
   const handleResume = () => {
     console.info("[SyncManager] ▶️ Resuming sync operation");
     if (syncActions?.resumeSync) {
-      syncActions.resumeSync(entries, token, undefined, displayOrderMediaIds);
+      syncActions.resumeSync(
+        workingEntries,
+        token,
+        undefined,
+        displayOrderMediaIds,
+      );
     }
   };
 
@@ -1261,8 +1392,24 @@ const SyncManager: React.FC<SyncManagerProps> = ({
 
   const handleErrorRefreshToken = async () => {
     console.info("[SyncManager] 🔐 Refreshing authentication token");
-    // This would typically trigger token refresh through auth context
-    // For now, we'll log it - the actual implementation depends on auth context
+    try {
+      const newToken = await reauthenticate();
+      // A sync paused for re-authentication resumes on its own once the token lands
+      if (syncState?.pausedForReauth) return;
+
+      if (status === "paused" && syncActions?.resumeSync) {
+        await syncActions.resumeSync(
+          workingEntries,
+          newToken,
+          undefined,
+          displayOrderMediaIds,
+        );
+      } else if (status === "failed") {
+        await handleStartSync(newToken);
+      }
+    } catch (error) {
+      console.error("[SyncManager] ❌ Re-authentication failed:", error);
+    }
   };
 
   const handleErrorCheckConnection = async () => {
@@ -1349,11 +1496,27 @@ const SyncManager: React.FC<SyncManagerProps> = ({
           syncState={syncState}
         />
 
+        {status === "idle" && (
+          <SyncConflictReview
+            entries={conflictedEntries}
+            scoreFormat={scoreFormat}
+            onResolve={handleResolveConflict}
+          />
+        )}
+
+        {status === "idle" && !shouldAutoStart && (
+          <SyncPlanPanel
+            onDryRun={handleDryRun}
+            onExecutePlan={handleExecutePlan}
+          />
+        )}
+
         <CurrentEntryDisplay
           progress={displayProgress}
           entries={entries}
           status={status}
           isIncrementalSync={isIncrementalSync}
+          scoreFormat={scoreFormat}
         />
 
         <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
@@ -1502,11 +1665,16 @@ const SyncManager: React.FC<SyncManagerProps> = ({
       <CardFooter className="relative z-10 flex flex-wrap items-center justify-end gap-2 border-t border-slate-200/60 bg-white/70 backdrop-blur dark:border-slate-800/60 dark:bg-slate-950/60">
         <SyncActions
           status={status}
-          onStartSync={handleStartSync}
+          onStartSync={() => handleStartSync()}
           onCancel={handleCancel}
           onPause={handlePause}
           onResume={handleResume}
           canResume={syncState?.resumeAvailable ?? false}
+          onReauthenticate={handleErrorRefreshToken}
+          needsReauth={
+            Boolean(syncState?.pausedForReauth) ||
+            tokenExpiryStatus === "expired"
+          }
           syncState={syncState}
         />
       </CardFooter>
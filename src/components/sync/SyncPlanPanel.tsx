@@ -0,0 +1,186 @@
+/**
+ * @packageDocumentation
+ * @module SyncPlanPanel
+ * @description Dry-run controls for SyncManager: record a sync plan without touching AniList, export it for review, or load a saved plan and execute exactly those mutations.
+ */
+
+import React, { useRef, useState } from "react";
+import {
+  ClipboardList,
+  FileJson,
+  FileText,
+  FolderOpen,
+  Loader2,
+  Play,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  countPlannedOperations,
+  type SyncPlan,
+} from "../../api/anilist/sync-plan";
+import { exportSyncPlan, loadSyncPlanFile } from "../../utils/export-utils";
+import { Button } from "../ui/Button";
+
+/**
+ * Props for SyncPlanPanel component.
+ * @source
+ */
+interface SyncPlanPanelProps {
+  /** Records a plan for the staged entries. */
+  onDryRun: () => Promise<SyncPlan>;
+  /** Starts a sync that sends exactly the plan's mutations. */
+  onExecutePlan: (plan: SyncPlan) => void;
+}
+
+/**
+ * Dry-run panel shown in SyncManager before a sync starts.
+ * @param props - Component props.
+ * @returns The rendered dry-run panel.
+ * @source
+ */
+export function SyncPlanPanel({
+  onDryRun,
+  onExecutePlan,
+}: Readonly<SyncPlanPanelProps>) {
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [planSource, setPlanSource] = useState<"dry-run" | "file">("dry-run");
+  const [isRecording, setIsRecording] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showError = (title: string, error: unknown) => {
+    toast.error(title, {
+      description: error instanceof Error ? error.message : "Unknown error",
+    });
+  };
+
+  const handleDryRun = async () => {
+    setIsRecording(true);
+    try {
+      setPlan(await onDryRun());
+      setPlanSource("dry-run");
+    } catch (error) {
+      console.error("[SyncPlan] ❌ Dry run failed:", error);
+      showError("Dry run failed", error);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handleExport = async (format: "json" | "markdown") => {
+    if (!plan) return;
+    try {
+      const filename = await exportSyncPlan(plan, format);
+      toast.success("Sync plan exported", { description: filename });
+    } catch (error) {
+      console.error("[SyncPlan] ❌ Failed to export sync plan:", error);
+      showError("Failed to export sync plan", error);
+    }
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setPlan(await loadSyncPlanFile(file));
+      setPlanSource("file");
+    } catch (error) {
+      console.error("[SyncPlan] ❌ Failed to load sync plan:", error);
+      showError("Failed to load sync plan", error);
+    }
+  };
+
+  const mutationCount = plan ? countPlannedOperations(plan) : 0;
+
+  return (
+    <div className="overflow-hidden rounded-3xl border border-slate-200/70 bg-slate-50/70 p-5 shadow-sm dark:border-slate-800/60 dark:bg-slate-950/40">
+      <div className="flex items-start gap-3">
+        <div className="bg-linear-to-br flex h-12 w-12 shrink-0 items-center justify-center rounded-2xl from-slate-500 to-slate-700 text-white shadow-lg">
+          <ClipboardList className="h-6 w-6" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+            Dry run
+          </h3>
+          <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+            Record every request this sync would send, step by step, without
+            changing AniList. Export the plan for review, or load a saved plan
+            to send exactly those updates.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isRecording}
+          onClick={handleDryRun}
+        >
+          {isRecording ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <ClipboardList className="mr-1 h-4 w-4" />
+          )}
+          Run dry run
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FolderOpen className="mr-1 h-4 w-4" />
+          Load plan
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {plan && (
+        <div className="mt-4 rounded-2xl border border-slate-200/70 bg-white/80 p-3 dark:border-slate-800/60 dark:bg-slate-950/50">
+          <p className="text-sm font-medium text-slate-800 dark:text-slate-100">
+            {mutationCount} {mutationCount === 1 ? "update" : "updates"} in{" "}
+            {plan.requests.length}{" "}
+            {plan.requests.length === 1 ? "request" : "requests"} for{" "}
+            {plan.entries.length}{" "}
+            {plan.entries.length === 1 ? "entry" : "entries"}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {planSource === "file" ? "Loaded plan" : "Dry run"} recorded{" "}
+            {new Date(plan.createdAt).toLocaleString()}
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleExport("json")}
+            >
+              <FileJson className="mr-1 h-4 w-4" />
+              Export JSON
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleExport("markdown")}
+            >
+              <FileText className="mr-1 h-4 w-4" />
+              Export Markdown
+            </Button>
+            <Button size="sm" onClick={() => onExecutePlan(plan)}>
+              <Play className="mr-1 h-4 w-4" />
+              Execute plan
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
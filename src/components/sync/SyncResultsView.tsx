@@ -4,7 +4,7 @@
  * @description React component for displaying comprehensive synchronization results and error logs.
  */
 import React from "react";
-import { SyncReport } from "../../api/anilist/sync-service";
+import { SyncReport, SyncProgress } from "../../api/anilist/sync-service";
 import {
   CheckCircle,
   XCircle,
@@ -13,6 +13,10 @@ import {
   Sparkles,
   Gauge,
   ShieldAlert,
+  ShieldCheck,
+  RotateCcw,
+  Undo2,
+  Loader2,
 } from "lucide-react";
 import {
   Card,
@@ -29,12 +33,20 @@ import { Button } from "../ui/Button";
  * @property report - The synchronization report with success count, failures, errors, and timestamp.
  * @property onClose - Callback invoked when user closes the results view.
  * @property onExportErrors - Optional callback to export detailed error log as file.
+ * @property onRequeueDrifted - Optional callback to re-queue entries that drifted after sync.
+ * @property onRollback - Optional callback to roll the sync back to the pre-sync AniList values.
+ * @property isRollingBack - Whether a rollback is in progress.
+ * @property rollbackProgress - Progress of the running rollback.
  * @source
  */
 export interface SyncResultsViewProps {
   report: SyncReport;
   onClose: () => void;
   onExportErrors?: () => void;
+  onRequeueDrifted?: () => void;
+  onRollback?: () => void;
+  isRollingBack?: boolean;
+  rollbackProgress?: SyncProgress | null;
 }
 
 /**
@@ -51,6 +63,10 @@ const SyncResultsView: React.FC<SyncResultsViewProps> = ({
   report,
   onClose,
   onExportErrors,
+  onRequeueDrifted,
+  onRollback,
+  isRollingBack = false,
+  rollbackProgress = null,
 }) => {
   // Format timestamp to readable format
   const formattedTime = new Intl.DateTimeFormat("en-US", {
@@ -70,6 +86,14 @@ const SyncResultsView: React.FC<SyncResultsViewProps> = ({
     report.errors.length - previewErrors.length,
     0,
   );
+  const verification = report.verification;
+  const previewDrift = verification?.drifted.slice(0, 8) ?? [];
+  const rollback = report.rollback;
+  const rollbackResult = rollback?.result;
+  const rollbackPercent =
+    rollbackProgress && rollbackProgress.total > 0
+      ? Math.round((rollbackProgress.completed / rollbackProgress.total) * 100)
+      : 0;
   const attentionEntries = report.failedUpdates + report.skippedEntries;
   const totalAttempted = report.successfulUpdates + report.failedUpdates;
 
@@ -273,6 +297,107 @@ const SyncResultsView: React.FC<SyncResultsViewProps> = ({
             </div>
           </div>
         )}
+
+        {verification && (
+          <div className="overflow-hidden rounded-3xl border border-sky-200/60 bg-sky-50/70 p-5 shadow-sm dark:border-sky-900/50 dark:bg-sky-950/30">
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm font-semibold text-sky-700 dark:text-sky-300">
+                <ShieldCheck className="h-4 w-4 text-sky-500" />
+                Verification
+              </div>
+              {!verification.error && (
+                <span className="text-xs text-sky-600/80 dark:text-sky-200/70">
+                  {verification.verified.length} verified ·{" "}
+                  {verification.drifted.length} drifted
+                </span>
+              )}
+            </div>
+            {verification.error && (
+              <p className="text-xs text-rose-600/80 dark:text-rose-300/80">
+                Could not re-read AniList: {verification.error}
+              </p>
+            )}
+            {!verification.error && verification.drifted.length === 0 && (
+              <p className="text-xs text-sky-700/80 dark:text-sky-200/80">
+                Every synced entry was re-read from AniList and matches what was
+                sent.
+              </p>
+            )}
+            {previewDrift.length > 0 && (
+              <div className="max-h-56 space-y-2 overflow-y-auto pr-1">
+                {previewDrift.map((drift) => (
+                  <div
+                    key={drift.mediaId}
+                    className="rounded-2xl border border-sky-200/60 bg-white/80 p-3 text-sm shadow-sm dark:border-sky-900/50 dark:bg-sky-950/40"
+                  >
+                    <p className="font-semibold text-sky-800 dark:text-sky-200">
+                      {drift.title}
+                    </p>
+                    <p className="mt-1 text-xs text-sky-700/80 dark:text-sky-200/80">
+                      {drift.fields
+                        .map(
+                          (field) =>
+                            `${field.field}: expected ${JSON.stringify(field.expected)}, found ${JSON.stringify(field.actual)}`,
+                        )
+                        .join("; ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {verification.drifted.length > previewDrift.length && (
+              <p className="mt-3 text-xs text-sky-600/80 dark:text-sky-200/70">
+                +{verification.drifted.length - previewDrift.length} more
+                drifted entries.
+              </p>
+            )}
+          </div>
+        )}
+
+        {(isRollingBack || rollbackResult) && (
+          <div className="overflow-hidden rounded-3xl border border-amber-200/60 bg-amber-50/70 p-5 shadow-sm dark:border-amber-900/50 dark:bg-amber-950/30">
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm font-semibold text-amber-700 dark:text-amber-300">
+                <Undo2 className="h-4 w-4 text-amber-500" />
+                Rollback
+              </div>
+              {rollbackResult && (
+                <span className="text-xs text-amber-600/80 dark:text-amber-200/70">
+                  {rollbackResult.restored} restored · {rollbackResult.deleted}{" "}
+                  deleted · {rollbackResult.failed} failed
+                </span>
+              )}
+            </div>
+            {isRollingBack && (
+              <div className="space-y-2">
+                <div className="h-2 overflow-hidden rounded-full bg-amber-100 dark:bg-amber-900/40">
+                  <div
+                    className="h-full rounded-full bg-amber-500 transition-all"
+                    style={{ width: `${rollbackPercent}%` }}
+                  />
+                </div>
+                <p className="text-xs text-amber-700/80 dark:text-amber-200/80">
+                  {rollbackProgress?.rateLimited && rollbackProgress.retryAfter
+                    ? `Rate limited, resuming in ${Math.ceil(rollbackProgress.retryAfter / 1000)}s`
+                    : (rollbackProgress?.currentEntry?.title ??
+                      "Reading your AniList list...")}
+                  {rollbackProgress &&
+                    ` · ${rollbackProgress.completed}/${rollbackProgress.total}`}
+                </p>
+              </div>
+            )}
+            {rollbackResult && (
+              <p className="text-xs text-amber-700/80 dark:text-amber-200/80">
+                {rollbackResult.failed === 0
+                  ? "Every entry this sync touched is back to its pre-sync AniList values."
+                  : `${rollbackResult.failed} entries could not be rolled back: ${rollbackResult.errors
+                      .slice(0, 3)
+                      .map((e) => e.error)
+                      .join("; ")}`}
+              </p>
+            )}
+          </div>
+        )}
       </CardContent>
 
       <CardFooter className="relative z-10 flex flex-wrap items-center justify-between gap-3 border-t border-slate-200/60 bg-white/70 backdrop-blur dark:border-slate-800/60 dark:bg-slate-950/60">
@@ -290,6 +415,34 @@ const SyncResultsView: React.FC<SyncResultsViewProps> = ({
               Export error log
             </Button>
           )}
+          {onRequeueDrifted && !!verification?.drifted.length && (
+            <Button
+              variant="outline"
+              onClick={onRequeueDrifted}
+              disabled={verification.requeued}
+              className="gap-2 border-slate-300/60 bg-white/70 text-slate-600 transition hover:bg-white dark:border-slate-700/60 dark:bg-slate-950/60 dark:text-slate-200"
+            >
+              <RotateCcw className="h-4 w-4" />
+              {verification.requeued
+                ? "Drifted entries queued"
+                : "Re-queue drifted entries"}
+            </Button>
+          )}
+          {onRollback && !!rollback?.entries.length && (
+            <Button
+              variant="outline"
+              onClick={onRollback}
+              disabled={isRollingBack || !!rollbackResult}
+              className="gap-2 border-slate-300/60 bg-white/70 text-slate-600 transition hover:bg-white dark:border-slate-700/60 dark:bg-slate-950/60 dark:text-slate-200"
+            >
+              {isRollingBack ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4" />
+              )}
+              {rollbackResult ? "Sync rolled back" : "Roll back this sync"}
+            </Button>
+          )}
           <Button
             onClick={onClose}
             className="bg-linear-to-r gap-2 from-emerald-500 via-teal-500 to-cyan-500 text-white shadow-lg shadow-emerald-500/30 transition hover:from-emerald-500 hover:via-teal-500 hover:to-cyan-500"
@@ -0,0 +1,134 @@
+/**
+ * @packageDocumentation
+ * @module SyncPage/custom-list-rules
+ * @description Evaluates custom list rules to decide which AniList custom lists an entry joins during sync
+ */
+
+import { AniListManga } from "../../api/anilist/types";
+import { CustomListRule, CustomListRuleTarget } from "../../utils/storage";
+
+/**
+ * AniList media fields that custom list rules can match against.
+ * @source
+ */
+export type CustomListMediaData = Pick<
+  AniListManga,
+  "format" | "countryOfOrigin" | "genres"
+>;
+
+/**
+ * Custom list assignment produced by the matching rules.
+ * @property customLists - Custom list names to add the entry to.
+ * @property hiddenFromStatusLists - Whether any matching rule hides the entry from status lists.
+ * @source
+ */
+export interface CustomListAssignment {
+  customLists: string[];
+  hiddenFromStatusLists: boolean;
+}
+
+/**
+ * Cache for compiled rule patterns. Keys: `${ruleId}:${pattern}:${flags}`.
+ * @source
+ */
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Extracts the values a rule target should be tested against.
+ * @param target - Rule target field.
+ * @param media - AniList media data.
+ * @param kenmeiStatus - Kenmei reading status.
+ * @returns Values for the target field.
+ * @source
+ */
+function extractTargetValues(
+  target: CustomListRuleTarget,
+  media: CustomListMediaData,
+  kenmeiStatus: string,
+): string[] {
+  switch (target) {
+    case "status":
+      return kenmeiStatus ? [kenmeiStatus] : [];
+    case "format":
+      return media.format ? [media.format] : [];
+    case "country":
+      return media.countryOfOrigin ? [media.countryOfOrigin] : [];
+    case "genres":
+      return media.genres || [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Compiles (and caches) a rule's regex pattern.
+ * @param rule - Custom list rule.
+ * @returns Compiled regex, or null if the pattern is invalid.
+ * @source
+ */
+function getRuleRegex(rule: CustomListRule): RegExp | null {
+  const flags = `u${rule.caseSensitive ? "" : "i"}`;
+  const cacheKey = `${rule.id}:${rule.pattern}:${flags}`;
+  if (regexCache.has(cacheKey)) return regexCache.get(cacheKey) ?? null;
+
+  let regex: RegExp | null = null;
+  try {
+    regex = new RegExp(rule.pattern, flags);
+  } catch (error) {
+    console.error(
+      `[CustomListRules] Invalid regex pattern in rule "${rule.description}": ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+  regexCache.set(cacheKey, regex);
+  return regex;
+}
+
+/**
+ * Tests whether a custom list rule matches an entry.
+ * @param rule - Custom list rule.
+ * @param media - AniList media data.
+ * @param kenmeiStatus - Kenmei reading status.
+ * @returns True if the pattern matches any value in the rule's target fields.
+ * @source
+ */
+export function matchesCustomListRule(
+  rule: CustomListRule,
+  media: CustomListMediaData,
+  kenmeiStatus: string,
+): boolean {
+  const regex = getRuleRegex(rule);
+  if (!regex) return false;
+
+  return rule.targetFields.some((target) =>
+    extractTargetValues(target, media, kenmeiStatus).some((value) =>
+      regex.test(value),
+    ),
+  );
+}
+
+/**
+ * Evaluates all enabled custom list rules against an entry.
+ * @param rules - Configured custom list rules.
+ * @param media - AniList media data.
+ * @param kenmeiStatus - Kenmei reading status.
+ * @returns Combined custom list assignment from every matching rule.
+ * @source
+ */
+export function evaluateCustomListRules(
+  rules: CustomListRule[],
+  media: CustomListMediaData,
+  kenmeiStatus: string,
+): CustomListAssignment {
+  const customLists = new Set<string>();
+  let hiddenFromStatusLists = false;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (!matchesCustomListRule(rule, media, kenmeiStatus)) continue;
+
+    for (const list of rule.customLists) customLists.add(list);
+    if (rule.hiddenFromStatusLists) hiddenFromStatusLists = true;
+  }
+
+  return { customLists: Array.from(customLists), hiddenFromStatusLists };
+}
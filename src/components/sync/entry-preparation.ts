@@ -8,10 +8,26 @@ import {
   AniListMediaEntry,
   MangaMatchResult,
   MediaListStatus,
+  ScoreFormat,
   UserMediaList,
 } from "../../api/anilist/types";
+import { hasListDetailChanges } from "../../api/anilist/incremental-sync";
+import {
+  areScoresEquivalent,
+  kenmeiScoreToAniList,
+} from "../../api/anilist/score-format";
+import {
+  hasMergedChanges,
+  mergeWithBaseline,
+  pickSyncFieldValues,
+  SyncBaselineStore,
+} from "../../api/anilist/sync-baseline";
 import { SyncConfig } from "../../utils/storage";
-import { getEffectiveStatus, KenmeiMangaData } from "./sync-utils";
+import {
+  getEffectiveStatus,
+  KenmeiMangaData,
+  resolveListEntryDetails,
+} from "./sync-utils";
 
 /**
  * Prepare all entries to sync from matched manga, applying configuration rules.
@@ -19,6 +35,8 @@ import { getEffectiveStatus, KenmeiMangaData } from "./sync-utils";
  * @param mangaMatches - Array of manga match results.
  * @param userLibrary - User's existing AniList library indexed by media ID.
  * @param syncConfig - Sync configuration with priority settings.
+ * @param scoreFormat - Viewer's AniList score format; Kenmei scores are converted into it.
+ * @param baselines - Last-synced baselines; when present (and three-way merge is enabled) they replace priority settings.
  * @returns Array of AniList media entries ready for synchronization.
  * @source
  */
@@ -26,6 +44,8 @@ export function prepareAllEntriesToSync(
   mangaMatches: MangaMatchResult[],
   userLibrary: UserMediaList,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
+  baselines: SyncBaselineStore = {},
 ): AniListMediaEntry[] {
   return mangaMatches
     .filter((match) => match.status === "matched" || match.status === "manual")
@@ -51,6 +71,9 @@ export function prepareAllEntriesToSync(
           title: kenmei.title,
           chaptersRead: kenmei.chaptersRead,
           score: kenmei.score,
+          volumesRead: kenmei.volumesRead,
+          notes: kenmei.notes,
+          createdAt: kenmei.createdAt,
         };
         return getEffectiveStatus(kenmeiStatusSnapshot, syncConfig);
       };
@@ -65,12 +88,20 @@ export function prepareAllEntriesToSync(
       } else {
         shouldSetPrivate = syncConfig.setPrivate;
       }
+      const targetStatus =
+        syncConfig.prioritizeAniListStatus && userEntry?.status
+          ? userEntry.status
+          : calculatedStatus;
+      const details = resolveListEntryDetails(
+        kenmei,
+        userEntry,
+        syncConfig,
+        targetStatus,
+        anilist,
+      );
       const entry: AniListMediaEntry = {
         mediaId: anilist.id,
-        status:
-          syncConfig.prioritizeAniListStatus && userEntry?.status
-            ? userEntry.status
-            : calculatedStatus,
+        status: targetStatus,
         progress: (() => {
           if (
             syncConfig.prioritizeAniListProgress &&
@@ -91,8 +122,14 @@ export function prepareAllEntriesToSync(
           ) {
             return userEntry.score;
           }
-          return typeof kenmei.score === "number" ? kenmei.score : 0;
+          return kenmeiScoreToAniList(kenmei.score, scoreFormat);
         })(),
+        progressVolumes: details.progressVolumes,
+        notes: details.notes,
+        startedAt: details.startedAt,
+        completedAt: details.completedAt,
+        customLists: details.customLists,
+        hiddenFromStatusLists: details.hiddenFromStatusLists,
         previousValues: userEntry
           ? {
               status: userEntry.status,
@@ -100,12 +137,54 @@ export function prepareAllEntriesToSync(
                 typeof userEntry.progress === "number" ? userEntry.progress : 0,
               score: typeof userEntry.score === "number" ? userEntry.score : 0,
               private: userEntry.private || false,
+              progressVolumes: userEntry.progressVolumes ?? 0,
+              notes: userEntry.notes ?? null,
+              startedAt: userEntry.startedAt ?? null,
+              completedAt: userEntry.completedAt ?? null,
+              customLists: userEntry.customLists ?? [],
+              hiddenFromStatusLists: userEntry.hiddenFromStatusLists ?? false,
             }
           : null,
         title: anilist.title.romaji || kenmei.title,
         coverImage: anilist.coverImage?.large || anilist.coverImage?.medium,
       };
       entry.private ??= syncConfig.setPrivate || false;
+
+      // Kenmei side of the baseline: Kenmei values with no priority settings applied
+      const kenmeiDetails = resolveListEntryDetails(
+        kenmei,
+        undefined,
+        syncConfig,
+        calculatedStatus,
+      );
+      entry.kenmeiValues = {
+        status: calculatedStatus,
+        progress: kenmei.chaptersRead || 0,
+        score: kenmeiScoreToAniList(kenmei.score, scoreFormat),
+        progressVolumes: kenmeiDetails.progressVolumes,
+        notes: kenmeiDetails.notes ?? null,
+        startedAt: kenmeiDetails.startedAt,
+        completedAt: kenmeiDetails.completedAt,
+      };
+
+      const baseline = baselines[anilist.id];
+      if (syncConfig.threeWayMerge && baseline && userEntry) {
+        const { values, conflicts } = mergeWithBaseline(
+          entry.kenmeiValues,
+          pickSyncFieldValues(userEntry),
+          baseline,
+          scoreFormat,
+        );
+        entry.status = values.status;
+        entry.progress = values.progress;
+        entry.score = values.score;
+        entry.progressVolumes = values.progressVolumes;
+        entry.notes = values.notes ?? undefined;
+        entry.startedAt = values.startedAt;
+        entry.completedAt = values.completedAt;
+        entry.mergedFromBaseline = true;
+        entry.conflicts = conflicts;
+      }
       return entry;
     })
     .filter((entry): entry is AniListMediaEntry => entry !== null);
@@ -113,19 +192,29 @@ export function prepareAllEntriesToSync(
 
 /**
  * Determine if an entry has actual changes to sync based on config priorities.
- * Respects preserveCompletedStatus, prioritization settings, and threshold tolerance.
+ * Respects preserveCompletedStatus, prioritization settings, and the score format's resolution.
+ * Entries merged against a baseline are compared field by field and kept if they have conflicts.
  * @param entry - The media entry to check for changes.
  * @param syncConfig - Sync configuration with priority settings.
+ * @param scoreFormat - Viewer's AniList score format the entry's scores are expressed in.
  * @returns True if the entry has changes that should be synced.
  * @source
  */
 export function hasChanges(
   entry: AniListMediaEntry,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
 ): boolean {
   // New entry: not in userLibrary
   if (!entry.previousValues) return true;
 
+  // Three-way merge already decided which side wins each field; conflicts need review
+  if (entry.mergedFromBaseline) {
+    return (
+      hasMergedChanges(entry, scoreFormat) || (entry.conflicts?.length ?? 0) > 0
+    );
+  }
+
   // Completed and preserve setting: skip
   if (
     entry.previousValues.status === "COMPLETED" &&
@@ -144,7 +233,7 @@ export function hasChanges(
     ? entry.progress > entry.previousValues.progress
     : entry.progress !== entry.previousValues.progress;
 
-  // Score change
+  // Score change (both scores are already in the viewer's score format)
   const anilistScore = Number(entry.previousValues.score || 0);
   const kenmeiScore = Number(entry.score || 0);
   const shouldUpdateScore =
@@ -157,7 +246,7 @@ export function hasChanges(
           }
           return (
             kenmeiScore > 0 &&
-            (anilistScore === 0 || Math.abs(kenmeiScore - anilistScore) >= 0.5)
+            !areScoresEquivalent(kenmeiScore, anilistScore, scoreFormat)
           );
         })();
 
@@ -165,10 +254,14 @@ export function hasChanges(
   const shouldUpdatePrivacy =
     syncConfig.setPrivate && !entry.previousValues.private;
 
+  // Volumes, notes and reading dates (priorities already applied during preparation)
+  const shouldUpdateDetails = hasListDetailChanges(entry);
+
   return (
     shouldUpdateStatus ||
     shouldUpdateProgress ||
     shouldUpdateScore ||
-    shouldUpdatePrivacy
+    shouldUpdatePrivacy ||
+    shouldUpdateDetails
   );
 }
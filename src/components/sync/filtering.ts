@@ -8,9 +8,15 @@ import {
   MangaMatchResult,
   UserMediaList,
   AniListManga,
+  ScoreFormat,
 } from "../../api/anilist/types";
+import { kenmeiScoreDiffers } from "../../api/anilist/score-format";
 import { SyncConfig } from "../../utils/storage";
-import { getEffectiveStatus } from "./sync-utils";
+import {
+  calculateListDetailChanges,
+  getEffectiveStatus,
+  resolveListEntryDetails,
+} from "./sync-utils";
 import { FilterOptions, SortOption } from "./types";
 import { AdvancedMatchFilters } from "../../types/matching-filters";
 
@@ -20,6 +26,7 @@ import { AdvancedMatchFilters } from "../../types/matching-filters";
  * @param filters - Filter options to apply.
  * @param userLibrary - User's existing AniList library.
  * @param syncConfig - Sync configuration for change detection.
+ * @param scoreFormat - Viewer's AniList score format used to compare scores.
  * @returns Filtered array of manga matches.
  * @source
  */
@@ -28,6 +35,7 @@ export function filterMangaMatches(
   filters: FilterOptions,
   userLibrary: UserMediaList,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
 ): MangaMatchResult[] {
   const statusMap = {
     reading: "reading",
@@ -56,7 +64,12 @@ export function filterMangaMatches(
       return filters.changes !== "with-changes";
     }
 
-    const changeCount = getChangeCount(match, userLibrary, syncConfig);
+    const changeCount = getChangeCount(
+      match,
+      userLibrary,
+      syncConfig,
+      scoreFormat,
+    );
     const hasChanges = changeCount > 0;
 
     if (filters.changes === "with-changes") return hasChanges;
@@ -90,6 +103,7 @@ export function filterMangaMatches(
  * @param match - The manga match result.
  * @param userLibrary - User's existing AniList library.
  * @param syncConfig - Sync configuration for change detection.
+ * @param scoreFormat - Viewer's AniList score format used to compare scores.
  * @returns Number of fields that will change.
  * @source
  */
@@ -97,6 +111,7 @@ function getChangeCount(
   match: MangaMatchResult,
   userLibrary: UserMediaList,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
 ): number {
   const anilist = match.selectedMatch!;
   const kenmei = match.kenmeiManga;
@@ -115,22 +130,35 @@ function getChangeCount(
     ? (kenmei.chaptersRead || 0) > (userEntry.progress || 0)
     : (kenmei.chaptersRead || 0) !== (userEntry.progress || 0);
 
-  const anilistScore = Number(userEntry.score);
-  const kenmeiScore = Number(kenmei.score || 0);
-
   const shouldUpdateScore =
     !syncConfig.prioritizeAniListScore &&
-    kenmei.score > 0 &&
-    (anilistScore === 0 || Math.abs(kenmeiScore - anilistScore) >= 0.5);
+    kenmeiScoreDiffers(kenmei.score, userEntry.score, scoreFormat);
 
   // Check if privacy will change
   const shouldUpdatePrivacy = syncConfig.setPrivate && !userEntry.private;
 
+  // Volumes, notes and reading dates
+  const targetStatus = syncConfig.prioritizeAniListStatus
+    ? userEntry.status
+    : getEffectiveStatus(kenmei, syncConfig);
+  const detailChanges = calculateListDetailChanges(
+    resolveListEntryDetails(
+      kenmei,
+      userEntry,
+      syncConfig,
+      targetStatus,
+      anilist,
+    ),
+    userEntry,
+  );
+  const detailChangeCount = Object.values(detailChanges).filter(Boolean).length;
+
   return (
     (shouldUpdateStatus ? 1 : 0) +
     (shouldUpdateProgress ? 1 : 0) +
     (shouldUpdateScore ? 1 : 0) +
-    (shouldUpdatePrivacy ? 1 : 0)
+    (shouldUpdatePrivacy ? 1 : 0) +
+    detailChangeCount
   );
 }
 
@@ -140,6 +168,7 @@ function getChangeCount(
  * @param sortOption - Sort field and direction.
  * @param userLibrary - User's existing AniList library for change counting.
  * @param syncConfig - Sync configuration for change detection.
+ * @param scoreFormat - Viewer's AniList score format used to compare scores.
  * @returns Sorted array of manga matches.
  * @source
  */
@@ -148,6 +177,7 @@ export function sortMangaMatches(
   sortOption: SortOption,
   userLibrary: UserMediaList,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
 ): MangaMatchResult[] {
   return [...filteredMatches].sort((a, b) => {
     const anilistA = a.selectedMatch!;
@@ -175,8 +205,8 @@ export function sortMangaMatches(
         break;
       case "changes":
         comparison =
-          getChangeCount(b, userLibrary, syncConfig) -
-          getChangeCount(a, userLibrary, syncConfig);
+          getChangeCount(b, userLibrary, syncConfig, scoreFormat) -
+          getChangeCount(a, userLibrary, syncConfig, scoreFormat);
         break;
     }
 
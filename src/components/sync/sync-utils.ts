@@ -4,9 +4,23 @@
  * @description Utility functions for sync calculations
  */
 
-import { MediaListStatus } from "../../api/anilist/types";
+import {
+  FuzzyDate,
+  MediaListStatus,
+  ScoreFormat,
+} from "../../api/anilist/types";
+import {
+  fuzzyDatesEqual,
+  isFuzzyDateSet,
+  toFuzzyDate,
+} from "../../api/anilist/fuzzy-date";
+import { kenmeiScoreDiffers } from "../../api/anilist/score-format";
 import { STATUS_MAPPING, KenmeiStatus } from "../../api/kenmei/types";
 import { SyncConfig } from "../../utils/storage";
+import {
+  CustomListMediaData,
+  evaluateCustomListRules,
+} from "./custom-list-rules";
 
 /**
  * Kenmei manga data structure for status calculation.
@@ -16,6 +30,9 @@ import { SyncConfig } from "../../utils/storage";
  * @property title - Manga title.
  * @property chaptersRead - Number of chapters read (optional).
  * @property score - User rating (optional).
+ * @property volumesRead - Number of volumes read (optional).
+ * @property notes - Free-form user notes (optional).
+ * @property createdAt - When the series was added to Kenmei (optional).
  * @source
  */
 export interface KenmeiMangaData {
@@ -25,6 +42,9 @@ export interface KenmeiMangaData {
   title: string;
   chaptersRead?: number;
   score?: number;
+  volumesRead?: number;
+  notes?: string;
+  createdAt?: string;
 }
 
 /**
@@ -33,6 +53,12 @@ export interface KenmeiMangaData {
  * @property progress - Current chapter progress.
  * @property score - User rating (0-10).
  * @property private - Privacy setting.
+ * @property progressVolumes - Current volume progress (optional).
+ * @property notes - Current list entry notes (optional).
+ * @property startedAt - Current start date (optional).
+ * @property completedAt - Current completion date (optional).
+ * @property customLists - Custom lists the entry is currently in (optional).
+ * @property hiddenFromStatusLists - Whether the entry is hidden from status lists (optional).
  * @source
  */
 export interface UserEntryData {
@@ -40,6 +66,48 @@ export interface UserEntryData {
   progress: number;
   score: number;
   private: boolean;
+  progressVolumes?: number;
+  notes?: string | null;
+  startedAt?: FuzzyDate | null;
+  completedAt?: FuzzyDate | null;
+  customLists?: string[];
+  hiddenFromStatusLists?: boolean;
+}
+
+/**
+ * Extended list entry fields resolved for a sync, after applying priority settings.
+ * @property progressVolumes - Volume progress to write (undefined if unknown on both sides).
+ * @property notes - Notes to write (undefined if empty on both sides).
+ * @property startedAt - Start date to write (null if unknown on both sides).
+ * @property completedAt - Completion date to write (null if unknown on both sides).
+ * @property customLists - Custom lists assigned by custom list rules (undefined if none match).
+ * @property hiddenFromStatusLists - Whether a custom list rule hides the entry from status lists.
+ * @source
+ */
+export interface ListEntryDetails {
+  progressVolumes?: number;
+  notes?: string;
+  startedAt: FuzzyDate | null;
+  completedAt: FuzzyDate | null;
+  customLists?: string[];
+  hiddenFromStatusLists?: boolean;
+}
+
+/**
+ * Which extended list entry fields will change during sync.
+ * @property volumesWillChange - Whether volume progress will change.
+ * @property notesWillChange - Whether notes will change.
+ * @property startedAtWillChange - Whether the start date will change.
+ * @property completedAtWillChange - Whether the completion date will change.
+ * @property customListsWillChange - Whether custom lists or status list visibility will change.
+ * @source
+ */
+export interface ListEntryDetailChanges {
+  volumesWillChange: boolean;
+  notesWillChange: boolean;
+  startedAtWillChange: boolean;
+  completedAtWillChange: boolean;
+  customListsWillChange: boolean;
 }
 
 /**
@@ -47,12 +115,17 @@ export interface UserEntryData {
  * @property statusWillChange - Whether status will change.
  * @property progressWillChange - Whether progress will change.
  * @property scoreWillChange - Whether score will change.
+ * @property volumesWillChange - Whether volume progress will change.
+ * @property notesWillChange - Whether notes will change.
+ * @property startedAtWillChange - Whether the start date will change.
+ * @property completedAtWillChange - Whether the completion date will change.
+ * @property customListsWillChange - Whether custom lists or status list visibility will change.
  * @property isNewEntry - Whether entry is new to the library.
  * @property isCompleted - Whether entry is completed and preserved.
  * @property changeCount - Total number of fields that will change.
  * @source
  */
-export interface SyncChangesResult {
+export interface SyncChangesResult extends ListEntryDetailChanges {
   statusWillChange: boolean;
   progressWillChange: boolean;
   scoreWillChange: boolean;
@@ -133,12 +206,125 @@ export function getEffectiveStatus(
   return STATUS_MAPPING[status];
 }
 
+/**
+ * Resolve the volumes, notes, and reading dates to write for an entry, applying priority settings.
+ * Kenmei's `createdAt` becomes the start date unless the entry is only planned, and `lastReadAt`
+ * (falling back to `updatedAt`) becomes the completion date for completed entries.
+ * Empty Kenmei values never clear existing AniList values. Custom list rules are evaluated
+ * when media data is provided and only ever add lists.
+ * @param kenmei - Kenmei manga data.
+ * @param userEntry - Existing AniList entry data (undefined if new).
+ * @param syncConfig - Sync configuration with priority settings.
+ * @param targetStatus - The AniList status the entry will have after sync.
+ * @param media - AniList media data used by custom list rules (optional).
+ * @returns The resolved extended list entry fields.
+ * @source
+ */
+export function resolveListEntryDetails(
+  kenmei: KenmeiMangaData,
+  userEntry: UserEntryData | undefined,
+  syncConfig: SyncConfig,
+  targetStatus: MediaListStatus,
+  media?: CustomListMediaData,
+): ListEntryDetails {
+  const resolveVolumes = (): number | undefined => {
+    const kenmeiVolumes = kenmei.volumesRead || 0;
+    const aniVolumes = userEntry?.progressVolumes || 0;
+    if (syncConfig.prioritizeAniListVolumes && aniVolumes > 0) {
+      return Math.max(aniVolumes, kenmeiVolumes);
+    }
+    if (kenmeiVolumes > 0) return kenmeiVolumes;
+    return userEntry?.progressVolumes;
+  };
+
+  const resolveNotes = (): string | undefined => {
+    const kenmeiNotes = kenmei.notes?.trim() ? kenmei.notes : undefined;
+    const aniNotes = userEntry?.notes?.trim() ? userEntry.notes : undefined;
+    if (syncConfig.prioritizeAniListNotes && aniNotes) return aniNotes;
+    return kenmeiNotes ?? aniNotes;
+  };
+
+  const resolveDate = (
+    kenmeiDate: FuzzyDate | null,
+    aniDate: FuzzyDate | null | undefined,
+    prioritizeAniList: boolean,
+  ): FuzzyDate | null => {
+    const currentDate = isFuzzyDateSet(aniDate) ? aniDate : null;
+    if (prioritizeAniList && currentDate) return currentDate;
+    return kenmeiDate ?? currentDate;
+  };
+
+  const kenmeiStartedAt =
+    targetStatus === "PLANNING" ? null : toFuzzyDate(kenmei.createdAt);
+  const kenmeiCompletedAt =
+    targetStatus === "COMPLETED"
+      ? toFuzzyDate(kenmei.lastReadAt || kenmei.updatedAt)
+      : null;
+
+  const assignment = media
+    ? evaluateCustomListRules(syncConfig.customListRules, media, kenmei.status)
+    : undefined;
+
+  return {
+    progressVolumes: resolveVolumes(),
+    notes: resolveNotes(),
+    customLists: assignment?.customLists.length
+      ? assignment.customLists
+      : undefined,
+    hiddenFromStatusLists: assignment?.hiddenFromStatusLists || undefined,
+    startedAt: resolveDate(
+      kenmeiStartedAt,
+      userEntry?.startedAt,
+      syncConfig.prioritizeAniListStartedAt,
+    ),
+    completedAt: resolveDate(
+      kenmeiCompletedAt,
+      userEntry?.completedAt,
+      syncConfig.prioritizeAniListCompletedAt,
+    ),
+  };
+}
+
+/**
+ * Compare resolved extended fields against the current AniList entry.
+ * @param details - Resolved extended list entry fields.
+ * @param userEntry - Existing AniList entry data (undefined if new).
+ * @returns Which extended fields will change.
+ * @source
+ */
+export function calculateListDetailChanges(
+  details: ListEntryDetails,
+  userEntry: UserEntryData | undefined,
+): ListEntryDetailChanges {
+  return {
+    volumesWillChange:
+      (details.progressVolumes ?? 0) > 0 &&
+      details.progressVolumes !== (userEntry?.progressVolumes ?? 0),
+    notesWillChange:
+      !!details.notes?.trim() && details.notes !== (userEntry?.notes ?? ""),
+    startedAtWillChange:
+      isFuzzyDateSet(details.startedAt) &&
+      !fuzzyDatesEqual(details.startedAt, userEntry?.startedAt),
+    completedAtWillChange:
+      isFuzzyDateSet(details.completedAt) &&
+      !fuzzyDatesEqual(details.completedAt, userEntry?.completedAt),
+    customListsWillChange:
+      (details.customLists ?? []).some(
+        (list) => !(userEntry?.customLists ?? []).includes(list),
+      ) ||
+      (details.hiddenFromStatusLists === true &&
+        userEntry?.hiddenFromStatusLists !== true),
+  };
+}
+
 /**
  * Calculate what changes will occur when syncing a manga entry.
- * Determines which fields (status, progress, score, privacy) will change based on config priorities.
+ * Determines which fields (status, progress, score, privacy, volumes, notes, dates) will change based on config priorities.
  * @param kenmei - Kenmei manga data.
  * @param userEntry - Existing AniList entry data (undefined if new).
  * @param syncConfig - Sync configuration with priority settings.
+ * @param scoreFormat - Viewer's AniList score format used to compare scores.
+ * @param media - AniList media data used by custom list rules (optional).
  * @returns Object describing all changes and their count.
  * @source
  */
@@ -146,6 +332,8 @@ export function calculateSyncChanges(
   kenmei: KenmeiMangaData,
   userEntry: UserEntryData | undefined,
   syncConfig: SyncConfig,
+  scoreFormat: ScoreFormat,
+  media?: CustomListMediaData,
 ): SyncChangesResult {
   const shouldUpdateStatus = (): boolean => {
     if (!userEntry) return true;
@@ -187,11 +375,7 @@ export function calculateSyncChanges(
       return false;
     }
 
-    const aniScore = Number(userEntry.score || 0);
-    return (
-      kenmeiScore > 0 &&
-      (aniScore === 0 || Math.abs(kenmeiScore - aniScore) >= 0.5)
-    );
+    return kenmeiScoreDiffers(kenmeiScore, userEntry.score, scoreFormat);
   };
 
   const statusWillChange = shouldUpdateStatus();
@@ -201,6 +385,30 @@ export function calculateSyncChanges(
   const isNewEntry = !userEntry;
   const isCompleted = userEntry?.status === "COMPLETED";
 
+  const targetStatus =
+    syncConfig.prioritizeAniListStatus && userEntry?.status
+      ? (userEntry.status as MediaListStatus)
+      : getEffectiveStatus(kenmei, syncConfig);
+  const detailChanges: ListEntryDetailChanges =
+    isCompleted && syncConfig.preserveCompletedStatus
+      ? {
+          volumesWillChange: false,
+          notesWillChange: false,
+          startedAtWillChange: false,
+          completedAtWillChange: false,
+          customListsWillChange: false,
+        }
+      : calculateListDetailChanges(
+          resolveListEntryDetails(
+            kenmei,
+            userEntry,
+            syncConfig,
+            targetStatus,
+            media,
+          ),
+          userEntry,
+        );
+
   const shouldSetPrivate = userEntry
     ? syncConfig.setPrivate && !userEntry.private
     : syncConfig.setPrivate;
@@ -209,12 +417,18 @@ export function calculateSyncChanges(
     progressWillChange,
     scoreWillChange,
     shouldSetPrivate,
+    detailChanges.volumesWillChange,
+    detailChanges.notesWillChange,
+    detailChanges.startedAtWillChange,
+    detailChanges.completedAtWillChange,
+    detailChanges.customListsWillChange,
   ].filter(Boolean).length;
 
   return {
     statusWillChange,
     progressWillChange,
     scoreWillChange,
+    ...detailChanges,
     isNewEntry,
     isCompleted,
     changeCount,
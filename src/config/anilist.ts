@@ -100,3 +100,18 @@ export const RATE_LIMIT_CONFIG = {
   requestTimeout: 10000, // 10 seconds
   retryDelay: 60000 / 25, // Time between requests to stay under rate limit
 };
+
+/**
+ * Adaptive sizing for sync requests that save several list entries at once through aliased mutations.
+ * @property initialSize - Entries per request when a sync starts.
+ * @property minSize - Smallest batch; a single-entry request that fails is reported as that entry's error.
+ * @property maxSize - Largest batch, kept well below AniList's query complexity limit.
+ * @property growthStep - Entries added to the batch size after a request succeeds.
+ * @source
+ */
+export const MUTATION_BATCH_CONFIG = {
+  initialSize: 10,
+  minSize: 1,
+  maxSize: 25,
+  growthStep: 5,
+};
@@ -13,16 +13,32 @@ import React, {
 } from "react";
 import { toast } from "sonner";
 import * as Sentry from "@sentry/electron/renderer";
-import { storage } from "../utils/storage";
+import {
+  claimLegacyStorage,
+  getActiveStorageAccount,
+  setActiveStorageAccount,
+  storage,
+  STORAGE_KEYS,
+} from "../utils/storage";
 import {
   captureError,
   ErrorType,
   createError,
   showErrorNotification,
   ErrorRecoveryAction,
+  getRecoveryActionButton,
 } from "../utils/error-handling";
+import {
+  formatTokenTimeRemaining,
+  getTokenExpiryStatus,
+  getTokenTimeRemaining,
+  TOKEN_EXPIRY_WARNING_MS,
+  type TokenExpiryStatus,
+} from "../utils/token-lifecycle";
 import { truncateToastMessage } from "../utils/text-highlight";
+import { applyStoredConfidenceCalibration } from "../api/matching/scoring/confidence-calibration";
 import {
+  AuthAccount,
   AuthState,
   ApiCredentials,
   ViewerResponse,
@@ -38,6 +54,8 @@ import { DEFAULT_ANILIST_CONFIG } from "../config/anilist";
 import { useDebugActions, StateInspectorHandle } from "./debug-context";
 import { request } from "../api/anilist/client";
 import { GET_VIEWER } from "../api/anilist/queries";
+import { resolveScoreFormat } from "../api/anilist/score-format";
+import type { ScoreFormat } from "../api/anilist/types";
 
 /**
  * Props for the AuthProvider component.
@@ -72,6 +90,39 @@ interface AuthDebugSnapshot {
   wasOffline: boolean;
 }
 
+/**
+ * Loads saved AniList accounts from storage.
+ * @returns Saved accounts, empty if none are stored or the data is invalid.
+ * @source
+ */
+function loadSavedAccounts(): AuthAccount[] {
+  try {
+    const saved = storage.getItem(STORAGE_KEYS.ACCOUNTS);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (account): account is AuthAccount =>
+        typeof account === "object" &&
+        account !== null &&
+        typeof account.userId === "number",
+    );
+  } catch (err) {
+    console.error("[AuthContext] Failed to parse saved accounts:", err);
+    return [];
+  }
+}
+
+/**
+ * Returns the stored active account ID as a number.
+ * @returns Active account ID, or null if none is set.
+ * @source
+ */
+function loadActiveAccountId(): number | null {
+  const id = Number(getActiveStorageAccount());
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
 /**
  * Provides complete authentication context to child components via split context pattern.
  * Manages OAuth flows, token lifecycle, credential storage, user profiles, offline queue,
@@ -115,6 +166,21 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
       credentialSource: "default",
     };
   });
+  const [accounts, setAccounts] = useState<AuthAccount[]>(loadSavedAccounts);
+  const [activeAccountId, setActiveAccountId] = useState<number | null>(
+    loadActiveAccountId,
+  );
+  const [tokenExpiryStatus, setTokenExpiryStatus] = useState<TokenExpiryStatus>(
+    () => getTokenExpiryStatus(authState),
+  );
+  // Resolvers for an in-flight reauthenticate() call
+  const pendingReauthRef = useRef<{
+    previousToken?: string;
+    resolve: (token: string) => void;
+    reject: (error: Error) => void;
+  } | null>(null);
+  // Token the expiry warning was last shown for, so it is shown once per token
+  const warnedTokenRef = useRef<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
@@ -243,6 +309,58 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
     }
   }, [authState]);
 
+  // Persist saved accounts
+  useEffect(() => {
+    storage.setItem(STORAGE_KEYS.ACCOUNTS, JSON.stringify(accounts));
+  }, [accounts]);
+
+  // Save the signed-in account and switch storage to its namespace
+  useEffect(() => {
+    const { isAuthenticated, accessToken, userId } = authState;
+    if (!isAuthenticated || !accessToken || userId === undefined) return;
+
+    const profile: AuthAccount = { ...authState, userId };
+    const isFirstAccount = accounts.length === 0;
+    setAccounts((prev) => {
+      const index = prev.findIndex((account) => account.userId === userId);
+      if (index < 0) return [...prev, profile];
+      const next = [...prev];
+      next[index] = profile;
+      return next;
+    });
+
+    if (activeAccountId === userId) return;
+
+    let cancelled = false;
+    // Data saved before multi-account support belongs to the first account
+    const claim = isFirstAccount
+      ? claimLegacyStorage(userId)
+      : Promise.resolve(0);
+    claim
+      .catch((claimError) => {
+        console.error(
+          "[AuthContext] Failed to move existing data into account:",
+          claimError,
+        );
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setActiveStorageAccount(userId);
+        applyStoredConfidenceCalibration();
+        setActiveAccountId(userId);
+        recordEvent({
+          type: "auth.account-switch",
+          message: `Active account: ${authState.username ?? userId}`,
+          level: "info",
+          metadata: { userId },
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authState, activeAccountId]);
+
   /**
    * Validates that API credentials have all required fields (clientId, clientSecret, redirectUri).
    * Displays toast error and throws if validation fails.
@@ -286,6 +404,7 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
           ...prevState,
           username: viewer.name,
           userId: viewer.id,
+          scoreFormat: resolveScoreFormat(viewer.mediaListOptions?.scoreFormat),
           avatarUrl:
             viewer.avatar?.large ||
             viewer.avatar?.medium ||
@@ -975,6 +1094,12 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
    * @source
    */
   const logout = useCallback(() => {
+    const remaining = accounts.filter(
+      (account) => account.userId !== authState.userId,
+    );
+    const next = remaining.find(
+      (account) => account.expiresAt && account.expiresAt > Date.now(),
+    );
     // Add breadcrumb for logout
     Sentry.addBreadcrumb({
       category: "auth",
@@ -994,16 +1119,156 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
         username: authState.username,
       },
     });
+    setAccounts(remaining);
+    lockedCredentialSourceRef.current = null;
+    setStatusMessage(null);
+
+    // Fall back to another saved account if one is still signed in
+    if (next) {
+      setAuthState(next);
+      return;
+    }
+
     storage.removeItem("authState");
     // Clear the previous state reference when logging out
     prevAuthStateRef.current = "";
+    setActiveStorageAccount(null);
+    applyStoredConfidenceCalibration();
+    setActiveAccountId(null);
     setAuthState({
       isAuthenticated: false,
       credentialSource: authState.credentialSource,
     });
-    setStatusMessage(null);
-    lockedCredentialSourceRef.current = null;
-  }, [authState.credentialSource, authState.username, recordEvent]);
+  }, [
+    accounts,
+    authState.credentialSource,
+    authState.userId,
+    authState.username,
+    recordEvent,
+  ]);
+
+  /**
+   * Makes a saved account active. Storage switches to the account's namespace
+   * once the auth state is applied. Expired sessions prompt a fresh login.
+   * @param userId - AniList user ID of the saved account.
+   * @source
+   */
+  const switchAccount = useCallback(
+    (userId: number) => {
+      if (userId === authState.userId) return;
+      const account = accounts.find((candidate) => candidate.userId === userId);
+      if (!account) {
+        console.warn(`[AuthContext] ⚠️ No saved account with ID ${userId}`);
+        return;
+      }
+
+      if (!account.expiresAt || account.expiresAt <= Date.now()) {
+        toast.error(
+          `The session for ${account.username ?? "this account"} has expired. Please sign in again.`,
+        );
+        return;
+      }
+
+      Sentry.setUser({ id: userId.toString(), username: account.username });
+      setError(null);
+      setStatusMessage(null);
+      setAuthState(account);
+    },
+    [accounts, authState.userId],
+  );
+
+  /**
+   * Starts a login for another account. The current account stays saved and
+   * can be switched back to; the new one becomes active once its profile loads.
+   * @param credentials - API credentials for the OAuth flow.
+   * @source
+   */
+  const addAccount = useCallback(
+    async (credentials: ApiCredentials) => {
+      // Drop the current session so the new token is never paired with the old user
+      setAuthState({
+        isAuthenticated: false,
+        credentialSource: authState.credentialSource,
+      });
+      setActiveAccountId(null);
+      await login(credentials);
+    },
+    [authState.credentialSource, login],
+  );
+
+  /**
+   * Runs a fresh OAuth login for the current credential source and waits for
+   * the new token. Long-running operations await this to resume after expiry.
+   * @returns Promise resolving with the new access token.
+   * @throws {Error} If the login fails or is cancelled.
+   * @source
+   */
+  const reauthenticate = useCallback(() => {
+    pendingReauthRef.current?.reject(
+      new Error("Superseded by a newer re-authentication"),
+    );
+    return new Promise<string>((resolve, reject) => {
+      pendingReauthRef.current = {
+        previousToken: authState.accessToken,
+        resolve,
+        reject,
+      };
+      recordEvent({
+        type: "auth.reauthenticate",
+        message: "Re-authentication requested",
+        level: "info",
+      });
+      refreshToken().catch((refreshError: unknown) => {
+        pendingReauthRef.current = null;
+        reject(
+          refreshError instanceof Error
+            ? refreshError
+            : new Error(String(refreshError)),
+        );
+      });
+    });
+  }, [authState.accessToken, recordEvent, refreshToken]);
+
+  // Settle a pending re-authentication once a new token lands or the flow fails
+  useEffect(() => {
+    const pending = pendingReauthRef.current;
+    if (!pending) return;
+
+    const { accessToken, isAuthenticated } = authState;
+    if (
+      isAuthenticated &&
+      accessToken &&
+      accessToken !== pending.previousToken
+    ) {
+      pendingReauthRef.current = null;
+      pending.resolve(accessToken);
+      return;
+    }
+
+    if (error && !isBrowserAuthFlow) {
+      pendingReauthRef.current = null;
+      pending.reject(new Error(error));
+    }
+  }, [authState, error, isBrowserAuthFlow]);
+
+  /**
+   * Forgets a saved account. Its stored library and sync data are kept so
+   * signing in again restores them. Removing the active account logs out.
+   * @param userId - AniList user ID of the saved account.
+   * @source
+   */
+  const removeAccount = useCallback(
+    (userId: number) => {
+      if (userId === authState.userId) {
+        logout();
+        return;
+      }
+      setAccounts((prev) =>
+        prev.filter((account) => account.userId !== userId),
+      );
+    },
+    [authState.userId, logout],
+  );
 
   /**
    * Cancels an in-progress OAuth authentication flow immediately.
@@ -1245,6 +1510,9 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
           medium?: string;
           large?: string;
         };
+        mediaListOptions?: {
+          scoreFormat?: ScoreFormat;
+        };
       };
     }>(GET_VIEWER, undefined, accessToken, undefined, false, false);
 
@@ -1256,10 +1524,111 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
     };
   };
 
+  // Re-evaluate token expiry now and at the next status boundary
+  useEffect(() => {
+    const update = () => setTokenExpiryStatus(getTokenExpiryStatus(authState));
+    update();
+
+    const remaining = getTokenTimeRemaining(authState.expiresAt);
+    if (!authState.accessToken || remaining === null || remaining <= 0) return;
+
+    const untilNextBoundary =
+      remaining > TOKEN_EXPIRY_WARNING_MS
+        ? remaining - TOKEN_EXPIRY_WARNING_MS
+        : remaining;
+    // setTimeout overflows above ~24.8 days; re-check at least that often
+    const timeoutId = setTimeout(
+      update,
+      Math.min(untilNextBoundary + 1000, 2_147_483_647),
+    );
+    return () => clearTimeout(timeoutId);
+  }, [authState.accessToken, authState.expiresAt, tokenExpiryStatus]);
+
+  // Warn ahead of expiry, and again once the token has expired
+  useEffect(() => {
+    const { accessToken, expiresAt } = authState;
+    if (!accessToken || isBrowserAuthFlow) return;
+
+    if (tokenExpiryStatus === "expiring") {
+      if (warnedTokenRef.current === accessToken) return;
+      warnedTokenRef.current = accessToken;
+      const remaining = getTokenTimeRemaining(expiresAt) ?? 0;
+      const action = getRecoveryActionButton(
+        ErrorRecoveryAction.REFRESH_TOKEN,
+        () => reauthenticate().then(() => undefined),
+      );
+      toast.warning(
+        `Your AniList session expires in ${formatTokenTimeRemaining(remaining)}`,
+        {
+          description:
+            "Re-authenticate now so matching and sync are not interrupted.",
+          duration: 15000,
+          ...(action ? { action } : {}),
+        },
+      );
+      recordEvent({
+        type: "auth.expiring",
+        message: "Access token is close to expiry",
+        level: "warn",
+        metadata: { expiresAt },
+      });
+    } else if (tokenExpiryStatus === "expired") {
+      showErrorNotification(
+        createError(
+          ErrorType.AUTH,
+          "Your AniList session has expired",
+          undefined,
+          "TOKEN_EXPIRED",
+          ErrorRecoveryAction.REFRESH_TOKEN,
+          "Your session has expired. Please log in again.",
+        ),
+        {
+          onRetry: () => reauthenticate().then(() => undefined),
+          duration: 15000,
+        },
+      );
+    }
+  }, [tokenExpiryStatus]);
+
+  // Backfill the list score format for sessions persisted before it was tracked
+  useEffect(() => {
+    const { isAuthenticated, accessToken, scoreFormat } = authState;
+    if (!isAuthenticated || !accessToken || scoreFormat || !isOnline) return;
+
+    let cancelled = false;
+    fetchUserProfile(accessToken)
+      .then((profile) => {
+        const viewer = profile.data?.Viewer;
+        if (cancelled || !viewer) return;
+        setAuthState((prevState) => ({
+          ...prevState,
+          scoreFormat: resolveScoreFormat(viewer.mediaListOptions?.scoreFormat),
+        }));
+      })
+      .catch((profileError) => {
+        console.warn(
+          "[AuthContext] ⚠️ Failed to fetch score format, using default:",
+          profileError,
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    authState.isAuthenticated,
+    authState.accessToken,
+    authState.scoreFormat,
+    isOnline,
+  ]);
+
   // Memoize split context values to minimise downstream re-renders
   const stateContextValue = React.useMemo<AuthStateContextValue>(
     () => ({
       authState,
+      accounts,
+      activeAccountId,
+      tokenExpiryStatus,
       isLoading,
       error,
       statusMessage,
@@ -1269,6 +1638,9 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
     }),
     [
       authState,
+      accounts,
+      activeAccountId,
+      tokenExpiryStatus,
       isLoading,
       error,
       statusMessage,
@@ -1287,6 +1659,10 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
       setCredentialSource,
       updateCustomCredentials,
       enqueueWhenOnline,
+      addAccount,
+      switchAccount,
+      removeAccount,
+      reauthenticate,
     }),
     [
       login,
@@ -1296,6 +1672,10 @@ export function AuthProvider({ children }: Readonly<AuthProviderProps>) {
       setCredentialSource,
       updateCustomCredentials,
       enqueueWhenOnline,
+      addAccount,
+      switchAccount,
+      removeAccount,
+      reauthenticate,
     ],
   );
 
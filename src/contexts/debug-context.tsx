@@ -56,6 +56,7 @@ import { defaultPerformanceMetrics } from "@/types/debug";
  * @property isIpcViewerEnabled - Whether IPC communication tracking is enabled.
  * @property isEventLoggerEnabled - Whether debug event logging is enabled.
  * @property isConfidenceTestExporterEnabled - Whether confidence test export feature is enabled.
+ * @property isConfidenceCalibrationEnabled - Whether the confidence calibration panel is enabled.
  * @property isPerformanceMonitorEnabled - Whether performance metrics collection is enabled.
  * @property performanceMetrics - Current performance metrics (API latency, cache stats, etc.).
  * @property eventLogEntries - Array of recorded debug events.
@@ -77,6 +78,7 @@ interface DebugStateContextValue {
   isIpcViewerEnabled: boolean;
   isEventLoggerEnabled: boolean;
   isConfidenceTestExporterEnabled: boolean;
+  isConfidenceCalibrationEnabled: boolean;
   isPerformanceMonitorEnabled: boolean;
   performanceMetrics: PerformanceMetrics;
   currentFPS: number;
@@ -114,6 +116,8 @@ interface DebugStateContextValue {
  * @property toggleEventLogger - Toggles event logger feature.
  * @property setIsConfidenceTestExporterEnabled - Enables/disables confidence test export feature.
  * @property toggleConfidenceTestExporter - Toggles confidence test exporter feature.
+ * @property setIsConfidenceCalibrationEnabled - Enables/disables the confidence calibration panel.
+ * @property toggleConfidenceCalibration - Toggles confidence calibration panel.
  * @property setIsPerformanceMonitorEnabled - Enables/disables performance metrics collection.
  * @property togglePerformanceMonitor - Toggles performance monitor feature.
  * @property recordApiLatency - Records an API request latency sample.
@@ -154,6 +158,8 @@ interface DebugActionsContextValue {
   toggleEventLogger: () => void;
   setIsConfidenceTestExporterEnabled: (enabled: boolean) => void;
   toggleConfidenceTestExporter: () => void;
+  setIsConfidenceCalibrationEnabled: (enabled: boolean) => void;
+  toggleConfidenceCalibration: () => void;
   setIsPerformanceMonitorEnabled: (enabled: boolean) => void;
   togglePerformanceMonitor: () => void;
   recordApiLatency: (
@@ -229,6 +235,7 @@ type DebugFeatureToggles = {
   redactLogs: boolean;
   eventLogger: boolean;
   confidenceTestExporter: boolean;
+  confidenceCalibration: boolean;
   performanceMonitor: boolean;
 };
 
@@ -244,6 +251,7 @@ const DEFAULT_FEATURE_TOGGLES: DebugFeatureToggles = {
   redactLogs: true,
   eventLogger: false,
   confidenceTestExporter: false,
+  confidenceCalibration: false,
   performanceMonitor: false,
 };
 
@@ -416,6 +424,7 @@ export function DebugProvider({
   const isIpcViewerEnabled = featureToggles.ipcViewer;
   const isEventLoggerEnabled = featureToggles.eventLogger;
   const isConfidenceTestExporterEnabled = featureToggles.confidenceTestExporter;
+  const isConfidenceCalibrationEnabled = featureToggles.confidenceCalibration;
   const isPerformanceMonitorEnabled = featureToggles.performanceMonitor;
 
   useEffect(() => {
@@ -775,6 +784,31 @@ export function DebugProvider({
     setIsConfidenceTestExporterEnabled(!isConfidenceTestExporterEnabled);
   }, [isConfidenceTestExporterEnabled, setIsConfidenceTestExporterEnabled]);
 
+  const setIsConfidenceCalibrationEnabled = useCallback(
+    (enabled: boolean) => {
+      persistFeatureToggles((prev) => ({
+        ...prev,
+        confidenceCalibration: enabled,
+      }));
+      recordEvent(
+        {
+          type: "debug.confidence-calibration",
+          message: enabled
+            ? "Confidence calibration panel enabled"
+            : "Confidence calibration panel disabled",
+          level: enabled ? "info" : "warn",
+          metadata: { enabled },
+        },
+        { force: true },
+      );
+    },
+    [persistFeatureToggles, recordEvent],
+  );
+
+  const toggleConfidenceCalibration = useCallback(() => {
+    setIsConfidenceCalibrationEnabled(!isConfidenceCalibrationEnabled);
+  }, [isConfidenceCalibrationEnabled, setIsConfidenceCalibrationEnabled]);
+
   const setIsPerformanceMonitorEnabled = useCallback(
     (enabled: boolean) => {
       persistFeatureToggles((prev) => ({
@@ -1515,6 +1549,7 @@ export function DebugProvider({
       isIpcViewerEnabled,
       isEventLoggerEnabled,
       isConfidenceTestExporterEnabled,
+      isConfidenceCalibrationEnabled,
       isPerformanceMonitorEnabled,
       performanceMetrics,
       currentFPS,
@@ -1531,6 +1566,7 @@ export function DebugProvider({
       eventLogEntries,
       isEventLoggerEnabled,
       setIsConfidenceTestExporterEnabled,
+      isConfidenceCalibrationEnabled,
       isPerformanceMonitorEnabled,
       performanceMetrics,
       ipcEvents,
@@ -1570,6 +1606,8 @@ export function DebugProvider({
       toggleEventLogger,
       setIsConfidenceTestExporterEnabled,
       toggleConfidenceTestExporter,
+      setIsConfidenceCalibrationEnabled,
+      toggleConfidenceCalibration,
       setIsPerformanceMonitorEnabled,
       togglePerformanceMonitor,
       recordApiLatency,
@@ -1599,6 +1637,7 @@ export function DebugProvider({
       registerStateInspector,
       resetPerformanceMetrics,
       setIsConfidenceTestExporterEnabled,
+      setIsConfidenceCalibrationEnabled,
       setDebugEnabled,
       setIsEventLoggerEnabled,
       setIsIpcViewerEnabled,
@@ -1608,6 +1647,7 @@ export function DebugProvider({
       setIsStateInspectorEnabled,
       setIsStorageDebuggerEnabled,
       toggleConfidenceTestExporter,
+      toggleConfidenceCalibration,
       toggleDebug,
       toggleEventLogger,
       toggleIpcViewer,
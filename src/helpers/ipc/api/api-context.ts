@@ -44,7 +44,7 @@ export interface AniListResponseEnvelope {
   error?: {
     message: string;
     status?: number;
-    errors?: Array<{ message: string }>;
+    errors?: Array<{ message: string; path?: Array<string | number> }>;
   };
 }
 
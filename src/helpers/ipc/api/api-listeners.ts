@@ -22,6 +22,7 @@ import type { MangaSource } from "../../../api/manga-sources/types";
  * @property status - Optional HTTP status code.
  * @property statusText - Optional HTTP status text.
  * @property errors - Optional array of GraphQL error objects.
+ * @property data - Optional partial data returned alongside the errors.
  * @internal
  * @source
  */
@@ -29,6 +30,7 @@ interface GraphQLError extends Error {
   status?: number;
   statusText?: string;
   errors?: unknown[];
+  data?: unknown;
 }
 
 /** AniList GraphQL API endpoint. @source */
@@ -290,7 +292,7 @@ interface AniListEnvelope {
   error?: {
     message: string;
     status?: number;
-    errors?: Array<{ message: string }>;
+    errors?: Array<{ message: string; path?: Array<string | number> }>;
   };
 }
 
@@ -617,7 +619,10 @@ async function requestAniList(
           }
 
           if (!response.ok) {
-            const errorData = (await response.json()) as { errors?: unknown[] };
+            const errorData = (await response.json()) as {
+              errors?: unknown[];
+              data?: unknown;
+            };
             const firstError = errorData.errors?.[0] as
               | { message?: string }
               | undefined;
@@ -627,6 +632,7 @@ async function requestAniList(
             error.status = response.status;
             error.statusText = response.statusText;
             error.errors = errorData.errors;
+            error.data = errorData.data;
             throw error;
           }
 
@@ -728,10 +734,11 @@ function tryGetCachedSearchResults(
 
 function mapRawResponseToEnvelope(
   rawResponse: Record<string, unknown>,
+  status?: number,
 ): AniListEnvelope {
   const envelope: AniListEnvelope = { success: false };
   const rawErrors = rawResponse?.errors as
-    | Array<{ message?: string }>
+    | Array<{ message?: string; path?: Array<string | number> }>
     | undefined;
 
   if (rawErrors && rawErrors.length > 0) {
@@ -739,8 +746,16 @@ function mapRawResponseToEnvelope(
     envelope.success = false;
     envelope.error = {
       message: msg,
-      errors: rawErrors.map((e) => ({ message: e?.message || "" })),
+      status,
+      errors: rawErrors.map((e) => ({
+        message: e?.message || "",
+        path: e?.path,
+      })),
     };
+    // Keep partial data so aliased mutations can tell which fields succeeded
+    if (rawResponse?.data) {
+      envelope.data = rawResponse.data as Record<string, unknown>;
+    }
   } else if (rawResponse?.data) {
     envelope.success = true;
     envelope.data = rawResponse.data as Record<string, unknown>;
@@ -805,6 +820,23 @@ async function performAniListRequestHandler(
 
     return envelope;
   } catch (error) {
+    // A GraphQL response that failed only in part still carries data for the fields that
+    // succeeded; return it with the errors instead of discarding both
+    const graphQLError = error as GraphQLError;
+    if (graphQLError.data && Array.isArray(graphQLError.errors)) {
+      console.warn(
+        "[ApiIPC] AniList request partially failed:",
+        graphQLError.message,
+      );
+      return mapRawResponseToEnvelope(
+        {
+          data: graphQLError.data,
+          errors: graphQLError.errors,
+        },
+        graphQLError.status,
+      );
+    }
+
     console.error("[ApiIPC] Error in anilist:request:", error);
     throw error;
   }
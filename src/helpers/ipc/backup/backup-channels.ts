@@ -28,6 +28,12 @@ export const BACKUP_CHANNELS = {
   /** Restores application data from a backup file with optional merge mode. @source */
   RESTORE_LOCAL_BACKUP: "backup:restore-local-backup",
 
+  /** Saves or clears the passphrase used to encrypt backup files. @source */
+  SET_BACKUP_PASSPHRASE: "backup:set-backup-passphrase",
+
+  /** Reports whether a backup passphrase is saved. @source */
+  HAS_BACKUP_PASSPHRASE: "backup:has-backup-passphrase",
+
   /** Deletes a specific backup file by filename. @source */
   DELETE_BACKUP: "backup:delete-backup",
 
@@ -60,6 +60,10 @@ export interface ElectronBackupApi {
     filename: string,
     options?: { merge?: boolean },
   ) => Promise<{ success: boolean; errors?: string[] }>;
+  setBackupPassphrase: (
+    passphrase: string | null,
+  ) => Promise<{ success: boolean; error?: string }>;
+  hasBackupPassphrase: () => Promise<boolean>;
   onBackupComplete: (
     callback: (data: { backupId: string; timestamp: number }) => void,
   ) => () => void;
@@ -299,6 +303,32 @@ export function exposeBackupContext() {
         );
       },
 
+      /**
+       * Saves the passphrase used to encrypt backup files, or clears it with null.
+       * The main process keeps it encrypted with the OS keychain.
+       * @param passphrase - Passphrase to save, or null to clear it.
+       * @returns Promise indicating success or error.
+       * @source
+       */
+      setBackupPassphrase: (
+        passphrase: string | null,
+      ): Promise<{ success: boolean; error?: string }> => {
+        console.debug("[BackupContext] Renderer updating backup passphrase");
+        return ipcRenderer.invoke(
+          BACKUP_CHANNELS.SET_BACKUP_PASSPHRASE,
+          passphrase,
+        );
+      },
+
+      /**
+       * Checks whether a backup passphrase is saved.
+       * @returns Promise resolving to true if a passphrase is saved.
+       * @source
+       */
+      hasBackupPassphrase: (): Promise<boolean> => {
+        return ipcRenderer.invoke(BACKUP_CHANNELS.HAS_BACKUP_PASSPHRASE);
+      },
+
       /**
        * Registers a listener for backup completion events.
        * @param callback - Function called with backup ID and timestamp on completion.
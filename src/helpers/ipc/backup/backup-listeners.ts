@@ -4,17 +4,30 @@
  * @description Registers IPC event listeners for backup-related actions in the Electron main process.
  */
 
-import { BrowserWindow, app, shell } from "electron";
+import { BrowserWindow, app, safeStorage, shell } from "electron";
 import { secureHandle } from "../listeners-register";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import Store from "electron-store";
-import type { BackupScheduleConfig } from "@/utils/storage";
+import {
+  getAccountScopedKey,
+  STORAGE_KEYS,
+  type BackupScheduleConfig,
+} from "@/utils/storage";
 import {
   createBackupFromData,
+  BackupData,
   BackupHistoryEntry,
+  parseBackupFileContent,
   restoreBackup,
 } from "@/utils/backup";
+import { packBackupContainer } from "@/utils/backup-container";
+import {
+  ALL_BACKUP_CATEGORIES,
+  getBackupKeysForCategories,
+  resolveBackupCategories,
+  type BackupCategory,
+} from "@/utils/backup-registry";
 import { BACKUP_CHANNELS } from "./backup-channels";
 
 /**
@@ -24,6 +37,7 @@ import { BACKUP_CHANNELS } from "./backup-channels";
 const MAIN_PROCESS_STORAGE_KEYS = {
   BACKUP_SCHEDULE_CONFIG: "backup_schedule_config",
   BACKUP_HISTORY: "backup_history",
+  BACKUP_PASSPHRASE: "backup_passphrase",
 } as const;
 
 /**
@@ -40,6 +54,9 @@ const DEFAULT_BACKUP_SCHEDULE_CONFIG: BackupScheduleConfig = {
   backupLocation: "",
   autoBackupBeforeSync: false,
   autoBackupBeforeMatch: false,
+  compressBackups: false,
+  encryptBackups: false,
+  backupCategories: [...ALL_BACKUP_CATEGORIES],
 };
 
 /**
@@ -49,6 +66,7 @@ const DEFAULT_BACKUP_SCHEDULE_CONFIG: BackupScheduleConfig = {
 interface BackupStoreSchema {
   [MAIN_PROCESS_STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG]: string;
   [MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY]: string;
+  [MAIN_PROCESS_STORAGE_KEYS.BACKUP_PASSPHRASE]: string;
 }
 
 /**
@@ -123,7 +141,11 @@ function getStoredBackupScheduleConfig(): BackupScheduleConfig {
       MAIN_PROCESS_STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG,
     );
     if (!configJson) return DEFAULT_BACKUP_SCHEDULE_CONFIG;
-    return JSON.parse(configJson as string) as BackupScheduleConfig;
+    // Merge with defaults so options added after the config was saved are populated
+    return {
+      ...DEFAULT_BACKUP_SCHEDULE_CONFIG,
+      ...(JSON.parse(configJson as string) as BackupScheduleConfig),
+    };
   } catch (error) {
     console.error("[BackupIPC] Error retrieving stored config:", error);
     return DEFAULT_BACKUP_SCHEDULE_CONFIG;
@@ -146,6 +168,64 @@ function saveStoredBackupScheduleConfig(config: BackupScheduleConfig): void {
   }
 }
 
+/**
+ * Reads the backup passphrase, decrypting it with the OS keychain.
+ * @returns The passphrase, or null when none is set or it cannot be decrypted.
+ * @source
+ */
+function getStoredBackupPassphrase(): string | null {
+  const encrypted = store.get(MAIN_PROCESS_STORAGE_KEYS.BACKUP_PASSPHRASE);
+  if (typeof encrypted !== "string" || !encrypted) return null;
+  try {
+    return safeStorage.decryptString(Buffer.from(encrypted, "base64"));
+  } catch (error) {
+    console.error("[BackupIPC] Error decrypting backup passphrase:", error);
+    return null;
+  }
+}
+
+/**
+ * Saves the backup passphrase encrypted with the OS keychain, or clears it.
+ * @param passphrase - Passphrase to save, or null to clear it.
+ * @throws {Error} If the OS keychain is unavailable.
+ * @source
+ */
+function saveStoredBackupPassphrase(passphrase: string | null): void {
+  if (!passphrase) {
+    store.delete(MAIN_PROCESS_STORAGE_KEYS.BACKUP_PASSPHRASE);
+    return;
+  }
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error(
+      "Secure storage is not available on this system, so the backup passphrase cannot be saved",
+    );
+  }
+  store.set(
+    MAIN_PROCESS_STORAGE_KEYS.BACKUP_PASSPHRASE,
+    safeStorage.encryptString(passphrase).toString("base64"),
+  );
+}
+
+/**
+ * Reads the active AniList account ID set by the renderer.
+ * @returns Active account ID, or null when storage is not namespaced.
+ * @source
+ */
+function getActiveAccountId(): string | null {
+  const accountId = store.get(STORAGE_KEYS.ACTIVE_ACCOUNT_ID);
+  return typeof accountId === "string" && accountId ? accountId : null;
+}
+
+/**
+ * Resolves a storage key against the active account's namespace.
+ * @param key - Base storage key.
+ * @returns The key the renderer stores the active account's value under.
+ * @source
+ */
+function getActiveAccountKey(key: string): string {
+  return getAccountScopedKey(key, getActiveAccountId());
+}
+
 /**
  * Retrieves backup history from the store.
  * @returns History array sorted by timestamp (newest first), or empty if not found.
@@ -153,7 +233,9 @@ function saveStoredBackupScheduleConfig(config: BackupScheduleConfig): void {
  */
 function getStoredBackupHistory(): BackupHistoryEntry[] {
   try {
-    const historyJson = store.get(MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY);
+    const historyJson = store.get(
+      getActiveAccountKey(MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY),
+    );
     if (!historyJson) return [];
     const history = JSON.parse(historyJson as string) as BackupHistoryEntry[];
     return history.sort((a, b) => b.timestamp - a.timestamp);
@@ -171,7 +253,7 @@ function getStoredBackupHistory(): BackupHistoryEntry[] {
 function saveStoredBackupHistory(history: BackupHistoryEntry[]): void {
   try {
     store.set(
-      MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY,
+      getActiveAccountKey(MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY),
       JSON.stringify(history),
     );
   } catch (error) {
@@ -394,27 +476,17 @@ async function performBackupWithMutex(
 
 /**
  * Collects backupable data from the electron store.
+ * Account-scoped keys are read from the active account and saved under their base key.
+ * @param categories - Backup categories to collect.
  * @returns Object mapping storage keys to their stringified values.
  * @source
  */
-function collectBackupData(): Record<string, string> {
-  const backupableKeys = [
-    "kenmei_data",
-    "import_stats",
-    "match_results",
-    "pending_manga",
-    "cache_version",
-    "sync_config",
-    "sync_stats",
-    "match_config",
-    "ignored_duplicates",
-    "anilist_search_cache",
-    "onboarding_completed",
-  ];
-
+function collectBackupData(
+  categories: readonly BackupCategory[],
+): Record<string, string> {
   const dataMap: Record<string, string> = {};
-  for (const key of backupableKeys) {
-    const value = store.get(key);
+  for (const key of getBackupKeysForCategories(categories)) {
+    const value = store.get(getActiveAccountKey(key));
     if (value !== undefined) {
       dataMap[key] = typeof value === "string" ? value : JSON.stringify(value);
     }
@@ -422,12 +494,46 @@ function collectBackupData(): Record<string, string> {
   return dataMap;
 }
 
+/**
+ * Serializes backup data for writing, packing it into a container when compression or encryption is enabled.
+ * @param data - Backup data to serialize.
+ * @param config - Backup schedule configuration.
+ * @returns File contents and the container options used.
+ * @throws {Error} If encryption is enabled but no passphrase is set.
+ * @source
+ */
+async function serializeBackup(
+  data: BackupData,
+  config: BackupScheduleConfig,
+): Promise<{ contents: string; compressed: boolean; encrypted: boolean }> {
+  if (!config.compressBackups && !config.encryptBackups) {
+    return {
+      contents: JSON.stringify(data, null, 2),
+      compressed: false,
+      encrypted: false,
+    };
+  }
+
+  const passphrase = config.encryptBackups ? getStoredBackupPassphrase() : null;
+  if (config.encryptBackups && !passphrase) {
+    throw new Error(
+      "Backup encryption is enabled but no passphrase is set. Set one in the backup settings.",
+    );
+  }
+
+  const container = await packBackupContainer(data, passphrase ?? undefined);
+  return {
+    contents: JSON.stringify(container),
+    compressed: true,
+    encrypted: container.encryption !== null,
+  };
+}
+
 /**
  * Writes backup data to file and records in history.
  * @param backupDir - Path to the backups directory.
  * @param data - Backup data object.
  * @param backupId - Unique backup identifier.
- * @param size - Size of the backup.
  * @param appVersion - Application version string.
  * @param config - Backup schedule configuration.
  * @param mainWindow - Main window for sending notifications.
@@ -435,9 +541,8 @@ function collectBackupData(): Record<string, string> {
  */
 async function writeBackupAndRecordHistory(
   backupDir: string,
-  data: unknown,
+  data: BackupData,
   backupId: string,
-  size: number,
   appVersion: string,
   config: BackupScheduleConfig,
   mainWindow: BrowserWindow | null,
@@ -448,23 +553,24 @@ async function writeBackupAndRecordHistory(
     `backup-${timestamp}-${backupId}.json`,
   );
 
-  await fs.writeFile(backupPath, JSON.stringify(data, null, 2));
-  console.log(`[BackupIPC] Backup created: ${backupPath}`);
-
-  // Extract metadata safely with type guards
-  const metadata = (data as Record<string, unknown>).metadata as Record<
-    string,
-    unknown
-  >;
-  const dataKeys = Array.isArray(metadata.dataKeys) ? metadata.dataKeys : [];
+  const { contents, compressed, encrypted } = await serializeBackup(
+    data,
+    config,
+  );
+  await fs.writeFile(backupPath, contents);
+  console.log(
+    `[BackupIPC] Backup created: ${backupPath}${compressed ? ` (compressed${encrypted ? ", encrypted" : ""})` : ""}`,
+  );
 
   const historyEntry: BackupHistoryEntry = {
     id: backupId,
     timestamp,
     appVersion,
-    dataKeys: dataKeys as string[],
-    size,
+    dataKeys: data.metadata.dataKeys,
+    size: Buffer.byteLength(contents),
     filename: `backup-${timestamp}-${backupId}.json`,
+    compressed,
+    encrypted,
   };
   addBackupToStoredHistory(historyEntry, config.maxBackupCount, mainWindow);
 }
@@ -551,29 +657,28 @@ async function performBackup(
     const logMode = mode === "immediate" ? "immediate" : "scheduled";
     console.log(`[BackupIPC] Performing ${logMode} backup...`);
 
-    let backupDir = config.backupLocation || getDefaultBackupLocation();
-    backupDir = ensureBackupLocationInitialized({
-      ...config,
-      backupLocation: backupDir,
-    }).backupLocation;
+    const backupDir = getAccountBackupLocation(config);
 
     await fs.mkdir(backupDir, { recursive: true });
 
     // Collect all backupable data from electron-store
-    const dataMap = collectBackupData();
+    const dataMap = collectBackupData(config.backupCategories);
 
     // Get the app version from Electron
     const appVersion = app.getVersion();
-    const { data, backupId, size } = createBackupFromData(dataMap, appVersion);
+    const { data, backupId } = createBackupFromData(
+      dataMap,
+      appVersion,
+      config.backupCategories,
+    );
 
     const timestamp = Date.now();
 
     // Write backup to file and record in history
     await writeBackupAndRecordHistory(
       backupDir,
-      data as unknown,
+      data,
       backupId,
-      size,
       appVersion,
       config,
       mainWindow,
@@ -739,6 +844,13 @@ function validateScheduleConfig(config: unknown): {
       typeof cfg.autoBackupBeforeMatch === "boolean"
         ? cfg.autoBackupBeforeMatch
         : false,
+    compressBackups:
+      typeof cfg.compressBackups === "boolean" ? cfg.compressBackups : false,
+    encryptBackups:
+      typeof cfg.encryptBackups === "boolean" ? cfg.encryptBackups : false,
+    backupCategories: Array.isArray(cfg.backupCategories)
+      ? resolveBackupCategories(cfg.backupCategories as BackupCategory[])
+      : [...ALL_BACKUP_CATEGORIES],
   };
 
   return { valid: true, validated };
@@ -906,6 +1018,20 @@ function ensureBackupLocationInitialized(
   return config;
 }
 
+/**
+ * Resolves the directory holding the active account's backups: an
+ * `account-<id>` folder inside the configured location, or the location
+ * itself when no account is active.
+ * @param config - Backup schedule config.
+ * @returns Path to the active account's backups directory.
+ * @source
+ */
+function getAccountBackupLocation(config: BackupScheduleConfig): string {
+  const location = ensureBackupLocationInitialized(config).backupLocation;
+  const accountId = getActiveAccountId();
+  return accountId ? path.join(location, `account-${accountId}`) : location;
+}
+
 /**
  * Validates backup location path for security and existence.
  * Enforces absolute paths and rejects directory traversal attempts.
@@ -1336,7 +1462,7 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
     async (_event: Electron.IpcMainInvokeEvent) => {
       try {
         const config = getStoredBackupScheduleConfig();
-        const location = ensureBackupLocationInitialized(config).backupLocation;
+        const location = getAccountBackupLocation(config);
 
         console.debug("[BackupIPC] Opening backup location");
 
@@ -1360,7 +1486,7 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
     async (_event: Electron.IpcMainInvokeEvent) => {
       try {
         const config = getStoredBackupScheduleConfig();
-        const location = ensureBackupLocationInitialized(config).backupLocation;
+        const location = getAccountBackupLocation(config);
 
         // Defensive check: ensure location is initialized and not empty
         if (
@@ -1441,7 +1567,7 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
         }
 
         const config = getStoredBackupScheduleConfig();
-        const location = ensureBackupLocationInitialized(config).backupLocation;
+        const location = getAccountBackupLocation(config);
 
         // Validate backup location
         const [isValid, errorMsg] = validateBackupLocationPath(location);
@@ -1552,7 +1678,9 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
     (_event: Electron.IpcMainInvokeEvent) => {
       try {
         console.log("[BackupIPC] Clearing backup history...");
-        store.delete(MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY);
+        store.delete(
+          getActiveAccountKey(MAIN_PROCESS_STORAGE_KEYS.BACKUP_HISTORY),
+        );
         console.log("[BackupIPC] Backup history cleared");
 
         // Notify renderer that history was updated
@@ -1601,7 +1729,7 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
         }
 
         const config = getStoredBackupScheduleConfig();
-        const location = ensureBackupLocationInitialized(config).backupLocation;
+        const location = getAccountBackupLocation(config);
 
         // Validate backup location
         const [isValid, errorMsg] = validateBackupLocationPath(location);
@@ -1639,6 +1767,39 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
     mainWindow,
   );
 
+  secureHandle(
+    BACKUP_CHANNELS.SET_BACKUP_PASSPHRASE,
+    (_event: Electron.IpcMainInvokeEvent, passphrase: unknown) => {
+      try {
+        if (passphrase !== null && typeof passphrase !== "string") {
+          return {
+            success: false,
+            error: "Passphrase must be a string or null",
+          };
+        }
+        saveStoredBackupPassphrase(passphrase);
+        console.info(
+          `[BackupIPC] Backup passphrase ${passphrase ? "saved" : "cleared"}`,
+        );
+        return { success: true };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error("[BackupIPC] Error saving backup passphrase:", error);
+        return { success: false, error: errorMessage };
+      }
+    },
+    mainWindow,
+  );
+
+  secureHandle(
+    BACKUP_CHANNELS.HAS_BACKUP_PASSPHRASE,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    (_event: Electron.IpcMainInvokeEvent) =>
+      getStoredBackupPassphrase() !== null,
+    mainWindow,
+  );
+
   // Restore from a local backup file
   secureHandle(
     BACKUP_CHANNELS.RESTORE_LOCAL_BACKUP,
@@ -1672,7 +1833,7 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
         }
 
         const config = getStoredBackupScheduleConfig();
-        const location = ensureBackupLocationInitialized(config).backupLocation;
+        const location = getAccountBackupLocation(config);
 
         // Validate backup location
         const [isValid, errorMsg] = validateBackupLocationPath(location);
@@ -1694,8 +1855,11 @@ export function setupBackupIPC(mainWindow: BrowserWindow): void {
         // Read the backup file
         const contents = await fs.readFile(filePath, { encoding: "utf-8" });
 
-        // Parse and validate the backup
-        const backupData = JSON.parse(contents);
+        // Unpack, migrate and validate the backup using the saved passphrase
+        const backupData = await parseBackupFileContent(
+          contents,
+          getStoredBackupPassphrase() ?? undefined,
+        );
 
         // Parse options (merge mode)
         const restoreOptions =
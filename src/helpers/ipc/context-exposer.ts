@@ -11,6 +11,7 @@ import { exposeStoreContext } from "./store/store-context";
 import { exposeApiContext } from "./api/api-context";
 import { exposeUpdateContext } from "./update/update-context";
 import { exposeBackupContext } from "./backup/backup-context";
+import { exposeExportWatcherContext } from "./export-watcher/export-watcher-context";
 import { exposeClipboardContext } from "./clipboard/clipboard-context";
 
 /**
@@ -68,6 +69,16 @@ export default function exposeContexts() {
     console.error("[Context] ❌ Failed to expose backup context:", error);
   }
 
+  try {
+    exposeExportWatcherContext();
+    console.log("[Context] ✅ Export watcher context exposed");
+  } catch (error) {
+    console.error(
+      "[Context] ❌ Failed to expose export watcher context:",
+      error,
+    );
+  }
+
   try {
     exposeClipboardContext();
     console.log("[Context] ✅ Clipboard context exposed");
@@ -0,0 +1,30 @@
+/**
+ * Export watcher IPC channel names for communication between renderer and main processes.
+ * @source
+ */
+
+export const EXPORT_WATCHER_CHANNELS = {
+  /** Retrieves the current export watcher configuration. @source */
+  GET_CONFIG: "export-watcher:get-config",
+
+  /** Updates the export watcher configuration and restarts the scheduler. @source */
+  SET_CONFIG: "export-watcher:set-config",
+
+  /** Opens a folder picker and returns the chosen folder. @source */
+  SELECT_FOLDER: "export-watcher:select-folder",
+
+  /** Checks the watched folder immediately, outside the normal schedule. @source */
+  CHECK_NOW: "export-watcher:check-now",
+
+  /** Retrieves the current watcher status (running state and check times). @source */
+  GET_STATUS: "export-watcher:get-status",
+
+  /** Records that a detected export was processed so it is not offered again. @source */
+  MARK_PROCESSED: "export-watcher:mark-processed",
+
+  /** Event fired when a new export file is found in the watched folder. @source */
+  ON_EXPORT_DETECTED: "export-watcher:on-export-detected",
+
+  /** Event fired when the watcher status changes. @source */
+  ON_STATUS_CHANGED: "export-watcher:on-status-changed",
+} as const;
@@ -0,0 +1,218 @@
+/**
+ * @packageDocumentation
+ * @module export-watcher-context
+ * @description Exposes the Electron export watcher context bridge to the renderer process.
+ */
+
+import type { ExportWatcherConfig } from "@/utils/storage";
+import type {
+  DetectedExportFile,
+  ExportWatcherStatus,
+} from "./export-watcher-listeners";
+import { contextBridge, ipcRenderer } from "electron";
+import { EXPORT_WATCHER_CHANNELS } from "./export-watcher-channels";
+
+/**
+ * Export watcher API exposed to the renderer process.
+ * Provides watcher configuration, folder selection, manual checks, and detection events.
+ * @source
+ */
+export interface ElectronExportWatcherApi {
+  getConfig: () => Promise<ExportWatcherConfig>;
+  setConfig: (
+    config: ExportWatcherConfig,
+  ) => Promise<{ success: boolean; error?: string }>;
+  selectFolder: () => Promise<{
+    success: boolean;
+    data?: string;
+    error?: string;
+  }>;
+  checkNow: () => Promise<{
+    success: boolean;
+    found?: boolean;
+    error?: string;
+  }>;
+  getStatus: () => Promise<ExportWatcherStatus>;
+  markProcessed: (
+    modifiedAt: number,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onExportDetected: (
+    callback: (file: DetectedExportFile) => void,
+  ) => () => void;
+  onStatusChanged: (
+    callback: (status: ExportWatcherStatus) => void,
+  ) => () => void;
+}
+
+/**
+ * Exposes the export watcher context bridge to the renderer process.
+ * @source
+ */
+export function exposeExportWatcherContext() {
+  try {
+    if (!contextBridge || !ipcRenderer) {
+      throw new Error(
+        "Failed to load electron modules: contextBridge or ipcRenderer is undefined",
+      );
+    }
+
+    console.debug(
+      "[ExportWatcherContext] Setting up export watcher context bridge...",
+    );
+
+    contextBridge.exposeInMainWorld("electronExportWatcher", {
+      /**
+       * Retrieves the export watcher configuration from the main process.
+       * @returns Promise<ExportWatcherConfig> The watcher configuration.
+       * @source
+       */
+      getConfig: (): Promise<ExportWatcherConfig> => {
+        console.debug(
+          "[ExportWatcherContext] Renderer requesting export watcher config",
+        );
+        return ipcRenderer.invoke(EXPORT_WATCHER_CHANNELS.GET_CONFIG);
+      },
+
+      /**
+       * Updates the export watcher configuration and restarts the scheduler.
+       * @param config - New watcher configuration.
+       * @returns Promise indicating success or error.
+       * @source
+       */
+      setConfig: (
+        config: ExportWatcherConfig,
+      ): Promise<{ success: boolean; error?: string }> => {
+        console.debug(
+          "[ExportWatcherContext] Renderer updating export watcher config",
+          {
+            enabled: config.enabled,
+            interval: config.interval,
+            autoSync: config.autoSync,
+          },
+        );
+        return ipcRenderer.invoke(EXPORT_WATCHER_CHANNELS.SET_CONFIG, config);
+      },
+
+      /**
+       * Opens a folder picker for the watched folder.
+       * @returns Promise with the chosen folder path, or success false if cancelled.
+       * @source
+       */
+      selectFolder: (): Promise<{
+        success: boolean;
+        data?: string;
+        error?: string;
+      }> => {
+        console.debug("[ExportWatcherContext] Renderer opening folder picker");
+        return ipcRenderer.invoke(EXPORT_WATCHER_CHANNELS.SELECT_FOLDER);
+      },
+
+      /**
+       * Checks the watched folder immediately.
+       * @returns Promise with whether a new export was found.
+       * @source
+       */
+      checkNow: () => {
+        console.debug(
+          "[ExportWatcherContext] Renderer requesting folder check",
+        );
+        return ipcRenderer.invoke(EXPORT_WATCHER_CHANNELS.CHECK_NOW);
+      },
+
+      /**
+       * Retrieves the current watcher status.
+       * @returns Promise with checking state and check timestamps.
+       * @source
+       */
+      getStatus: (): Promise<ExportWatcherStatus> => {
+        console.debug("[ExportWatcherContext] Renderer requesting status");
+        return ipcRenderer.invoke(EXPORT_WATCHER_CHANNELS.GET_STATUS);
+      },
+
+      /**
+       * Records that a detected export was processed.
+       * @param modifiedAt - Modification time of the processed export.
+       * @returns Promise with success status.
+       * @source
+       */
+      markProcessed: (
+        modifiedAt: number,
+      ): Promise<{ success: boolean; error?: string }> => {
+        console.debug(
+          "[ExportWatcherContext] Renderer marking export processed",
+          modifiedAt,
+        );
+        return ipcRenderer.invoke(
+          EXPORT_WATCHER_CHANNELS.MARK_PROCESSED,
+          modifiedAt,
+        );
+      },
+
+      /**
+       * Registers a listener for newly detected export files.
+       * @param callback - Function called with the detected export.
+       * @returns Cleanup function to remove the listener.
+       * @source
+       */
+      onExportDetected: (
+        callback: (file: DetectedExportFile) => void,
+      ): (() => void) => {
+        const handler = (
+          _event: Electron.IpcRendererEvent,
+          file: DetectedExportFile,
+        ) => {
+          console.debug("[ExportWatcherContext] Export detected:", {
+            filename: file?.filename,
+            format: file?.format,
+          });
+          callback(file);
+        };
+
+        ipcRenderer.on(EXPORT_WATCHER_CHANNELS.ON_EXPORT_DETECTED, handler);
+
+        return () => {
+          ipcRenderer.removeListener(
+            EXPORT_WATCHER_CHANNELS.ON_EXPORT_DETECTED,
+            handler,
+          );
+        };
+      },
+
+      /**
+       * Registers a listener for watcher status changes.
+       * @param callback - Function called with updated status.
+       * @returns Cleanup function to remove the listener.
+       * @source
+       */
+      onStatusChanged: (
+        callback: (status: ExportWatcherStatus) => void,
+      ): (() => void) => {
+        const handler = (
+          _event: Electron.IpcRendererEvent,
+          status: ExportWatcherStatus,
+        ) => {
+          console.debug("[ExportWatcherContext] Watcher status changed");
+          callback(status);
+        };
+
+        ipcRenderer.on(EXPORT_WATCHER_CHANNELS.ON_STATUS_CHANGED, handler);
+
+        return () => {
+          ipcRenderer.removeListener(
+            EXPORT_WATCHER_CHANNELS.ON_STATUS_CHANGED,
+            handler,
+          );
+        };
+      },
+    });
+
+    console.log(
+      "[ExportWatcherContext] ✅ Export watcher context exposed in main world",
+    );
+  } catch (error) {
+    console.error(
+      "[ExportWatcherContext] ❌ Error exposing export watcher context:",
+      error,
+    );
+  }
+}
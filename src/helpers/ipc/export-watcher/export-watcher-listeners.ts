@@ -0,0 +1,608 @@
+/**
+ * @packageDocumentation
+ * @module export-watcher-listeners
+ * @description Registers IPC event listeners for the watched Kenmei export folder in the Electron main process. Checks the folder on the same schedule model as automatic backups and hands new export files to the renderer.
+ */
+
+import { BrowserWindow, dialog } from "electron";
+import { secureHandle } from "../listeners-register";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import Store from "electron-store";
+import {
+  DEFAULT_EXPORT_WATCHER_CONFIG,
+  type ExportWatcherConfig,
+  type ExportWatchInterval,
+} from "@/utils/storage";
+import { EXPORT_WATCHER_CHANNELS } from "./export-watcher-channels";
+
+/**
+ * Storage keys for the main process export watcher store.
+ * @source
+ */
+const MAIN_PROCESS_STORAGE_KEYS = {
+  EXPORT_WATCHER_CONFIG: "export_watcher_config",
+  EXPORT_WATCHER_LAST_PROCESSED: "export_watcher_last_processed",
+} as const;
+
+/**
+ * Largest export file the watcher will read.
+ * @source
+ */
+const MAX_EXPORT_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * File extensions recognised as Kenmei exports.
+ * @source
+ */
+const EXPORT_FILE_PATTERN = /\.(csv|json)$/i;
+
+/**
+ * Schema for the electron-store export watcher store.
+ * @source
+ */
+interface ExportWatcherStoreSchema {
+  [MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_CONFIG]: string;
+  [MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_LAST_PROCESSED]: number;
+}
+
+/**
+ * Typed interface for electron-store methods.
+ * @source
+ */
+interface ElectronStoreInterface {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+}
+
+/**
+ * An export file found in the watched folder, sent to the renderer for processing.
+ * @property filename - File name within the watched folder.
+ * @property format - Export format, from the file extension.
+ * @property content - Raw file contents.
+ * @property modifiedAt - File modification time in milliseconds.
+ * @source
+ */
+export interface DetectedExportFile {
+  filename: string;
+  format: "csv" | "json";
+  content: string;
+  modifiedAt: number;
+}
+
+/**
+ * Export watcher status reported to the renderer.
+ * @source
+ */
+export interface ExportWatcherStatus {
+  isChecking: boolean;
+  lastCheck: number | null;
+  nextCheck: number | null;
+}
+
+/**
+ * Watcher scheduler state tracking timeouts, intervals, and pending updates.
+ * @source
+ */
+interface WatcherSchedulerState {
+  timeoutId: NodeJS.Timeout | null;
+  intervalId: NodeJS.Timeout | null;
+  isChecking: boolean;
+  updatePending: boolean;
+  pendingConfig: ExportWatcherConfig | null;
+}
+
+const schedulerState: WatcherSchedulerState = {
+  timeoutId: null,
+  intervalId: null,
+  isChecking: false,
+  updatePending: false,
+  pendingConfig: null,
+};
+
+// Create store instance
+const store =
+  new Store<ExportWatcherStoreSchema>() as unknown as ElectronStoreInterface;
+
+/**
+ * Retrieves the export watcher configuration from the store.
+ * @returns Configuration or defaults if not found.
+ * @source
+ */
+function getStoredWatcherConfig(): ExportWatcherConfig {
+  try {
+    const configJson = store.get(
+      MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_CONFIG,
+    );
+    if (!configJson) return DEFAULT_EXPORT_WATCHER_CONFIG;
+    return {
+      ...DEFAULT_EXPORT_WATCHER_CONFIG,
+      ...(JSON.parse(configJson as string) as Partial<ExportWatcherConfig>),
+    };
+  } catch (error) {
+    console.error("[ExportWatcherIPC] Error retrieving stored config:", error);
+    return DEFAULT_EXPORT_WATCHER_CONFIG;
+  }
+}
+
+/**
+ * Saves the export watcher configuration to the store.
+ * @param config - Configuration to save.
+ * @source
+ */
+function saveStoredWatcherConfig(config: ExportWatcherConfig): void {
+  try {
+    store.set(
+      MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_CONFIG,
+      JSON.stringify(config),
+    );
+  } catch (error) {
+    console.error("[ExportWatcherIPC] Error saving config to store:", error);
+  }
+}
+
+/**
+ * Retrieves the modification time of the last processed export.
+ * @returns Milliseconds timestamp, or 0 if nothing has been processed.
+ * @source
+ */
+function getLastProcessedModifiedAt(): number {
+  const value = store.get(
+    MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_LAST_PROCESSED,
+  );
+  return typeof value === "number" ? value : 0;
+}
+
+/**
+ * Calculates interval in milliseconds based on the watch interval setting.
+ * @param interval - Watch interval ('hourly', 'daily', 'weekly').
+ * @returns Interval in milliseconds.
+ * @source
+ */
+function calculateIntervalMs(interval: string): number {
+  const intervals: Record<string, number> = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+  };
+  return intervals[interval] || 0;
+}
+
+/**
+ * Validates export watcher configuration values.
+ * @param config - Configuration object to validate.
+ * @returns Validation result with boolean valid flag and optional validated config or error.
+ * @source
+ */
+function validateWatcherConfig(config: unknown): {
+  valid: boolean;
+  error?: string;
+  validated?: ExportWatcherConfig;
+} {
+  if (!config || typeof config !== "object") {
+    return { valid: false, error: "Config must be an object" };
+  }
+
+  const cfg = config as Record<string, unknown>;
+
+  if (typeof cfg.enabled !== "boolean") {
+    return {
+      valid: false,
+      error: `Invalid enabled value. Must be a boolean, got ${typeof cfg.enabled}`,
+    };
+  }
+
+  const validIntervals = ["hourly", "daily", "weekly"];
+  if (!validIntervals.includes(cfg.interval as string)) {
+    return {
+      valid: false,
+      error: `Invalid interval '${cfg.interval}'. Must be one of: ${validIntervals.join(", ")}`,
+    };
+  }
+
+  const folderPath =
+    typeof cfg.folderPath === "string" ? cfg.folderPath.trim() : "";
+  if (folderPath && !path.isAbsolute(folderPath)) {
+    return { valid: false, error: "Watched folder must be an absolute path" };
+  }
+  if (cfg.enabled && !folderPath) {
+    return {
+      valid: false,
+      error: "Choose a folder before enabling the watcher",
+    };
+  }
+
+  let threshold = Number(cfg.autoSyncConfidenceThreshold);
+  if (!Number.isFinite(threshold)) {
+    return {
+      valid: false,
+      error: "autoSyncConfidenceThreshold must be a number",
+    };
+  }
+  threshold = Math.max(50, Math.min(100, Math.round(threshold)));
+
+  const validated: ExportWatcherConfig = {
+    enabled: cfg.enabled,
+    folderPath: folderPath ? path.normalize(folderPath) : "",
+    interval: cfg.interval as ExportWatchInterval,
+    autoSync: typeof cfg.autoSync === "boolean" ? cfg.autoSync : false,
+    autoSyncConfidenceThreshold: threshold,
+    lastCheckTimestamp:
+      typeof cfg.lastCheckTimestamp === "number"
+        ? cfg.lastCheckTimestamp
+        : null,
+    nextCheckTimestamp:
+      typeof cfg.nextCheckTimestamp === "number"
+        ? cfg.nextCheckTimestamp
+        : null,
+  };
+
+  return { valid: true, validated };
+}
+
+/**
+ * Finds the newest export file modified after the last processed one.
+ * Each Kenmei export holds the whole library, so older unprocessed files are superseded.
+ * @param folderPath - Folder to scan.
+ * @returns The newest unprocessed export, or null if there is none.
+ * @source
+ */
+async function findNewExportFile(
+  folderPath: string,
+): Promise<DetectedExportFile | null> {
+  const lastProcessed = getLastProcessedModifiedAt();
+  const filenames = (await fs.readdir(folderPath)).filter((name) =>
+    EXPORT_FILE_PATTERN.test(name),
+  );
+
+  let newest: { filename: string; modifiedAt: number; size: number } | null =
+    null;
+  for (const filename of filenames) {
+    const stats = await fs.stat(path.join(folderPath, filename));
+    if (!stats.isFile() || stats.mtimeMs <= lastProcessed) continue;
+    if (!newest || stats.mtimeMs > newest.modifiedAt) {
+      newest = { filename, modifiedAt: stats.mtimeMs, size: stats.size };
+    }
+  }
+
+  if (!newest) return null;
+  if (newest.size > MAX_EXPORT_FILE_SIZE_BYTES) {
+    throw new Error(
+      `Export file ${newest.filename} exceeds maximum size (${Math.round(newest.size / 1024 / 1024)}MB)`,
+    );
+  }
+
+  const content = await fs.readFile(path.join(folderPath, newest.filename), {
+    encoding: "utf-8",
+  });
+  return {
+    filename: newest.filename,
+    format: newest.filename.toLowerCase().endsWith(".json") ? "json" : "csv",
+    content,
+    modifiedAt: newest.modifiedAt,
+  };
+}
+
+/**
+ * Emits a status change event to the renderer with current watcher status.
+ * @param mainWindow - Main window for sending notification.
+ * @source
+ */
+function emitStatusChanged(mainWindow: BrowserWindow | null): void {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    const config = getStoredWatcherConfig();
+    const status: ExportWatcherStatus = {
+      isChecking: schedulerState.isChecking,
+      lastCheck: config.lastCheckTimestamp,
+      nextCheck: config.nextCheckTimestamp,
+    };
+    mainWindow.webContents.send(
+      EXPORT_WATCHER_CHANNELS.ON_STATUS_CHANGED,
+      status,
+    );
+
+    console.debug("[ExportWatcherIPC] Sent ON_STATUS_CHANGED notification");
+  }
+}
+
+/**
+ * Checks the watched folder and sends any new export to the renderer.
+ * The export is only marked processed once the renderer confirms it, so a missed event is re-sent next check.
+ * @param mainWindow - Main window for sending notifications.
+ * @param config - Current watcher configuration.
+ * @returns Whether a new export was found, or an error message.
+ * @source
+ */
+async function performCheck(
+  mainWindow: BrowserWindow | null,
+  config: ExportWatcherConfig,
+): Promise<{ success: boolean; found?: boolean; error?: string }> {
+  if (schedulerState.isChecking) {
+    console.warn("[ExportWatcherIPC] Check already in progress, skipping");
+    return { success: false, error: "A check is already in progress" };
+  }
+  if (!config.folderPath) {
+    return { success: false, error: "No watched folder configured" };
+  }
+
+  schedulerState.isChecking = true;
+  emitStatusChanged(mainWindow);
+
+  try {
+    const detected = await findNewExportFile(config.folderPath);
+
+    const now = Date.now();
+    const intervalMs = calculateIntervalMs(config.interval);
+    saveStoredWatcherConfig({
+      ...getStoredWatcherConfig(),
+      lastCheckTimestamp: now,
+      nextCheckTimestamp:
+        config.enabled && intervalMs > 0 ? now + intervalMs : null,
+    });
+
+    if (!detected) {
+      console.log("[ExportWatcherIPC] No new export files found");
+      return { success: true, found: false };
+    }
+
+    console.info(
+      `[ExportWatcherIPC] New export detected: ${detected.filename} (${detected.format})`,
+    );
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(
+        EXPORT_WATCHER_CHANNELS.ON_EXPORT_DETECTED,
+        detected,
+      );
+    }
+    return { success: true, found: true };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[ExportWatcherIPC] Error checking watched folder:", error);
+    return { success: false, error: errorMessage };
+  } finally {
+    schedulerState.isChecking = false;
+    emitStatusChanged(mainWindow);
+
+    // Apply a scheduler update that arrived while the check was running
+    if (schedulerState.updatePending && schedulerState.pendingConfig) {
+      console.log(
+        "[ExportWatcherIPC] Processing pending scheduler update after check completion",
+      );
+      const pendingConfig = schedulerState.pendingConfig;
+      schedulerState.updatePending = false;
+      schedulerState.pendingConfig = null;
+      updateScheduler(mainWindow, pendingConfig);
+    }
+  }
+}
+
+/**
+ * Runs a scheduled check with the latest stored configuration.
+ * @param mainWindow - Main window for sending notifications.
+ * @param label - Trigger description for logging.
+ * @source
+ */
+function runScheduledCheck(
+  mainWindow: BrowserWindow | null,
+  label: string,
+): void {
+  console.log(`[ExportWatcherIPC] ${label} check triggered`);
+  // Re-fetch config on each run to ensure we use latest settings
+  performCheck(mainWindow, getStoredWatcherConfig()).catch((error) => {
+    console.error(`[ExportWatcherIPC] Error in ${label} check:`, error);
+  });
+}
+
+/**
+ * Updates the watcher scheduler with new configuration.
+ * Queues updates during active checks and separates the initial timeout from the repeating interval.
+ * @param mainWindow - Main window for sending notifications.
+ * @param config - New watcher configuration.
+ * @source
+ */
+function updateScheduler(
+  mainWindow: BrowserWindow | null,
+  config: ExportWatcherConfig,
+): void {
+  try {
+    if (schedulerState.isChecking) {
+      console.log(
+        "[ExportWatcherIPC] Check in progress; queueing scheduler update",
+      );
+      schedulerState.updatePending = true;
+      schedulerState.pendingConfig = config;
+      return;
+    }
+
+    if (schedulerState.timeoutId !== null) {
+      clearTimeout(schedulerState.timeoutId);
+      schedulerState.timeoutId = null;
+    }
+    if (schedulerState.intervalId !== null) {
+      clearInterval(schedulerState.intervalId);
+      schedulerState.intervalId = null;
+    }
+
+    if (!config.enabled || !config.folderPath) {
+      console.log("[ExportWatcherIPC] Export watcher disabled");
+      return;
+    }
+
+    const intervalMs = calculateIntervalMs(config.interval);
+    if (intervalMs === 0) {
+      console.warn(
+        "[ExportWatcherIPC] Invalid watch interval:",
+        config.interval,
+      );
+      return;
+    }
+
+    // First enable checks immediately; afterwards check at last check + interval
+    const now = Date.now();
+    const nextCheck =
+      config.lastCheckTimestamp === null
+        ? now
+        : config.lastCheckTimestamp + intervalMs;
+    saveStoredWatcherConfig({ ...config, nextCheckTimestamp: nextCheck });
+
+    const timeUntilNextCheck = Math.max(0, nextCheck - now);
+    console.log(
+      `[ExportWatcherIPC] Checking ${config.folderPath} every ${config.interval}. Next check in ${Math.round(timeUntilNextCheck / 1000 / 60)} minutes`,
+    );
+
+    schedulerState.timeoutId = setTimeout(() => {
+      schedulerState.timeoutId = null;
+      runScheduledCheck(mainWindow, "Initial scheduled");
+      schedulerState.intervalId = setInterval(
+        () => runScheduledCheck(mainWindow, "Interval"),
+        intervalMs,
+      );
+    }, timeUntilNextCheck);
+
+    emitStatusChanged(mainWindow);
+  } catch (error) {
+    console.error("[ExportWatcherIPC] Error updating scheduler:", error);
+  }
+}
+
+/**
+ * Registers export watcher IPC handlers and starts the scheduler if enabled.
+ * @param mainWindow - The main application window.
+ * @source
+ */
+export function setupExportWatcherIPC(mainWindow: BrowserWindow): void {
+  console.log("[ExportWatcherIPC] Setting up export watcher IPC handlers...");
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.GET_CONFIG,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    (_event: Electron.IpcMainInvokeEvent) => getStoredWatcherConfig(),
+    mainWindow,
+  );
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.SET_CONFIG,
+    async (_event: Electron.IpcMainInvokeEvent, config: unknown) => {
+      try {
+        const validation = validateWatcherConfig(config);
+        if (!validation.valid) {
+          console.warn(
+            "[ExportWatcherIPC] Invalid watcher config rejected:",
+            validation.error,
+          );
+          return { success: false, error: validation.error };
+        }
+
+        const validatedConfig = validation.validated!;
+        if (validatedConfig.folderPath) {
+          const stats = await fs.stat(validatedConfig.folderPath);
+          if (!stats.isDirectory()) {
+            return {
+              success: false,
+              error: "Watched path is not a directory",
+            };
+          }
+        }
+
+        console.debug("[ExportWatcherIPC] Setting export watcher config");
+        saveStoredWatcherConfig(validatedConfig);
+        updateScheduler(mainWindow, validatedConfig);
+        emitStatusChanged(mainWindow);
+
+        return { success: true };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(
+          "[ExportWatcherIPC] Error setting watcher config:",
+          error,
+        );
+        return { success: false, error: errorMessage };
+      }
+    },
+    mainWindow,
+  );
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.SELECT_FOLDER,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async (_event: Electron.IpcMainInvokeEvent) => {
+      try {
+        const result = await dialog.showOpenDialog(mainWindow, {
+          title: "Choose the folder Kenmei exports are saved to",
+          properties: ["openDirectory"],
+        });
+        if (result.canceled || result.filePaths.length === 0) {
+          return { success: false };
+        }
+        return { success: true, data: result.filePaths[0] };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error("[ExportWatcherIPC] Error selecting folder:", error);
+        return { success: false, error: errorMessage };
+      }
+    },
+    mainWindow,
+  );
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.CHECK_NOW,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async (_event: Electron.IpcMainInvokeEvent) => {
+      console.log("[ExportWatcherIPC] Manual check requested");
+      return performCheck(mainWindow, getStoredWatcherConfig());
+    },
+    mainWindow,
+  );
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.GET_STATUS,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    (_event: Electron.IpcMainInvokeEvent): ExportWatcherStatus => {
+      const config = getStoredWatcherConfig();
+      return {
+        isChecking: schedulerState.isChecking,
+        lastCheck: config.lastCheckTimestamp,
+        nextCheck: config.nextCheckTimestamp,
+      };
+    },
+    mainWindow,
+  );
+
+  secureHandle(
+    EXPORT_WATCHER_CHANNELS.MARK_PROCESSED,
+    (_event: Electron.IpcMainInvokeEvent, modifiedAt: unknown) => {
+      if (typeof modifiedAt !== "number" || !Number.isFinite(modifiedAt)) {
+        return { success: false, error: "modifiedAt must be a number" };
+      }
+      if (modifiedAt > getLastProcessedModifiedAt()) {
+        store.set(
+          MAIN_PROCESS_STORAGE_KEYS.EXPORT_WATCHER_LAST_PROCESSED,
+          modifiedAt,
+        );
+      }
+      console.debug("[ExportWatcherIPC] Marked export processed:", modifiedAt);
+      return { success: true };
+    },
+    mainWindow,
+  );
+
+  try {
+    const config = getStoredWatcherConfig();
+    if (config.enabled) {
+      console.log(
+        "[ExportWatcherIPC] Initializing export watcher on app start",
+      );
+      updateScheduler(mainWindow, config);
+    }
+  } catch (error) {
+    console.error(
+      "[ExportWatcherIPC] Error initializing export watcher:",
+      error,
+    );
+  }
+
+  console.log("[ExportWatcherIPC] ✅ Export watcher IPC handlers registered");
+}
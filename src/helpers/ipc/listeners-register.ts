@@ -12,6 +12,7 @@ import { setupStoreIPC } from "./store/store-setup";
 import { setupAniListAPI } from "./api/api-listeners";
 import { addUpdateEventListeners } from "./update/update-listeners";
 import { setupBackupIPC } from "./backup/backup-listeners";
+import { setupExportWatcherIPC } from "./export-watcher/export-watcher-listeners";
 import { setupDebugIPC } from "./debug/debug-listeners";
 import { setupClipboardIPC } from "./clipboard/clipboard-listeners";
 
@@ -86,6 +87,7 @@ export default function registerListeners(mainWindow: BrowserWindow) {
   addAuthEventListeners(mainWindow);
   setupStoreIPC(mainWindow);
   setupBackupIPC(mainWindow);
+  setupExportWatcherIPC(mainWindow);
   setupDebugIPC(mainWindow);
   setupClipboardIPC(mainWindow);
   setupAniListAPI(mainWindow);
@@ -0,0 +1,113 @@
+/**
+ * @packageDocumentation
+ * @module useExportWatcher
+ * @description Custom React hook that processes Kenmei exports detected in the watched folder by the main process.
+ */
+
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useAuthState } from "./use-auth";
+import { resolveScoreFormat } from "../api/anilist/score-format";
+import { processWatchedExport } from "../utils/export-watcher";
+import { captureError, ErrorType } from "../utils/error-handling";
+import { getTokenExpiryStatus } from "../utils/token-lifecycle";
+import type { DetectedExportFile } from "../helpers/ipc/export-watcher/export-watcher-listeners";
+
+/**
+ * Listens for exports found by the folder watcher and imports, matches, and optionally syncs them.
+ * Exports are handled one at a time and acknowledged afterwards so the watcher does not offer them again.
+ * Must be mounted once, inside the auth provider.
+ * @source
+ */
+export function useExportWatcher(): void {
+  const { authState } = useAuthState();
+  const isProcessingRef = useRef(false);
+
+  // Read auth at processing time without re-subscribing on every auth change
+  const authRef = useRef(authState);
+  authRef.current = authState;
+
+  useEffect(() => {
+    const watcher = globalThis.electronExportWatcher;
+    if (!watcher?.onExportDetected) return;
+
+    const handleExportDetected = async (file: DetectedExportFile) => {
+      if (isProcessingRef.current) {
+        console.warn(
+          `[ExportWatcher] ⚠️ Already processing an export, ${file.filename} will be offered again next check`,
+        );
+        return;
+      }
+      isProcessingRef.current = true;
+
+      const toastId = toast.loading("Importing watched Kenmei export", {
+        description: file.filename,
+      });
+
+      try {
+        const config = await watcher.getConfig();
+        // An expired token would fail every search, so import without matching instead
+        const tokenExpired =
+          getTokenExpiryStatus(authRef.current) === "expired";
+        if (tokenExpired) {
+          console.warn(
+            "[ExportWatcher] ⚠️ Access token expired, importing without matching or sync",
+          );
+        }
+        const result = await processWatchedExport(
+          file,
+          config,
+          tokenExpired ? undefined : authRef.current.accessToken,
+          resolveScoreFormat(authRef.current.scoreFormat),
+          authRef.current.expiresAt,
+        );
+
+        const parts = [
+          `${result.newTitles} new, ${result.updatedTitles} updated`,
+        ];
+        if (result.newTitles > 0) {
+          parts.push(
+            `${result.matched} matched, ${result.pendingReview} to review`,
+          );
+        }
+        if (result.autoSynced > 0 || result.autoSyncFailed > 0) {
+          parts.push(
+            `${result.autoSynced} synced to AniList${result.autoSyncFailed > 0 ? `, ${result.autoSyncFailed} failed` : ""}`,
+          );
+        }
+        if (result.autoSyncSkipped) {
+          parts.push("auto-sync skipped, re-authenticate to sync");
+        }
+        toast.success("Watched export imported", {
+          id: toastId,
+          description: parts.join(" · "),
+        });
+      } catch (error) {
+        captureError(
+          ErrorType.UNKNOWN,
+          `Failed to process watched export ${file.filename}`,
+          error,
+          { operation: "export-watcher", filename: file.filename },
+        );
+        toast.error("Couldn't import watched export", {
+          id: toastId,
+          description: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        // Acknowledge even on failure so a broken file is not retried every check
+        await watcher.markProcessed(file.modifiedAt).catch((error) => {
+          console.error(
+            "[ExportWatcher] ❌ Failed to mark export processed:",
+            error,
+          );
+        });
+        isProcessingRef.current = false;
+      }
+    };
+
+    const unsubscribe = watcher.onExportDetected((file) => {
+      void handleExportDetected(file);
+    });
+    return unsubscribe;
+  }, []);
+}
@@ -4,10 +4,18 @@
  * @description Custom React hook providing handler functions for managing manga match results and user interactions, supporting both single and batch operations with undo/redo capabilities.
  */
 
-import { useCallback } from "react";
+import { useCallback, useRef } from "react";
 import { KenmeiManga } from "../api/kenmei/types";
 import { AniListManga, MangaMatchResult } from "../api/anilist/types";
-import { calculateConfidence } from "../api/matching/scoring";
+import { calculateConfidenceBreakdown } from "../api/matching/scoring";
+import {
+  buildMatchDecisionRecords,
+  recordMatchDecisions,
+} from "../api/matching/scoring/confidence-calibration";
+import {
+  applyAutoAcceptPolicy,
+  getAutoAcceptPolicy,
+} from "../api/matching/filtering";
 import { STORAGE_KEYS, storage } from "../utils/storage";
 import { useDebugActions } from "../contexts/debug-context";
 import type { UndoRedoManager } from "../utils/undo-redo";
@@ -18,9 +26,55 @@ import {
   ResetToPendingCommand,
   SelectSearchMatchCommand,
   BulkUpdateCommand,
+  BatchCommand,
 } from "../utils/undo-redo";
 import { processInChunks, AbortError } from "../utils/chunked-processing";
 
+/**
+ * Finds the result a command patch applies to, by Kenmei ID then by title.
+ * @source
+ */
+const findPatchIndex = (
+  results: MangaMatchResult[],
+  state: MangaMatchResult,
+): number => {
+  // Find the match by ID using the helper logic
+  let idx = results.findIndex((m) => m.kenmeiManga.id === state.kenmeiManga.id);
+
+  // Fallback to title matching if ID not found
+  if (idx === -1) {
+    idx = results.findIndex(
+      (m) => m.kenmeiManga.title === state.kenmeiManga.title,
+    );
+  }
+
+  // If still not found, try case-insensitive match
+  if (idx === -1) {
+    idx = results.findIndex(
+      (m) =>
+        m.kenmeiManga.title?.toLowerCase() ===
+        state.kenmeiManga.title?.toLowerCase(),
+    );
+  }
+
+  return idx;
+};
+
+/**
+ * Persists patched match results to storage.
+ * @source
+ */
+const persistPatchedResults = (results: MangaMatchResult[]) => {
+  try {
+    storage.setItem(STORAGE_KEYS.MATCH_RESULTS, JSON.stringify(results));
+  } catch (storageError) {
+    console.error(
+      "[MatchHandlers] Failed to persist match results to storage:",
+      storageError,
+    );
+  }
+};
+
 /**
  * Provides handler functions for managing manga match results and user interactions during the matching workflow.
  * @param matchResults - Current array of manga match results.
@@ -131,40 +185,13 @@ export const useMatchHandlers = (
    */
   const applyCommandPatch = useCallback((state: MangaMatchResult) => {
     setMatchResults((prev) => {
-      // Find the match by ID using the helper logic
-      let idx = prev.findIndex(
-        (m) => m.kenmeiManga.id === state.kenmeiManga.id,
-      );
-
-      // Fallback to title matching if ID not found
-      if (idx === -1) {
-        idx = prev.findIndex(
-          (m) => m.kenmeiManga.title === state.kenmeiManga.title,
-        );
-      }
-
-      // If still not found, try case-insensitive match
-      if (idx === -1) {
-        idx = prev.findIndex(
-          (m) =>
-            m.kenmeiManga.title?.toLowerCase() ===
-            state.kenmeiManga.title?.toLowerCase(),
-        );
-      }
+      const idx = findPatchIndex(prev, state);
 
       // If match found, apply the patch
       if (idx >= 0) {
         const next = [...prev];
         next[idx] = state;
-        // Persist to storage
-        try {
-          storage.setItem(STORAGE_KEYS.MATCH_RESULTS, JSON.stringify(next));
-        } catch (storageError) {
-          console.error(
-            "[MatchHandlers] Failed to persist match results to storage:",
-            storageError,
-          );
-        }
+        persistPatchedResults(next);
         return next;
       }
 
@@ -172,6 +199,41 @@ export const useMatchHandlers = (
       return prev;
     });
   }, []);
+
+  // Patches queued by queueCommandPatch, flushed together in one state update
+  const queuedPatchesRef = useRef<MangaMatchResult[]>([]);
+
+  /**
+   * Queues a command patch and applies every patch queued in the same task at once.
+   * Batch commands built from per-match commands use this so they persist once instead of once per match.
+   *
+   * @param state - The updated match state to apply.
+   * @source
+   */
+  const queueCommandPatch = useCallback((state: MangaMatchResult) => {
+    queuedPatchesRef.current.push(state);
+    if (queuedPatchesRef.current.length > 1) return;
+
+    queueMicrotask(() => {
+      const patches = queuedPatchesRef.current;
+      queuedPatchesRef.current = [];
+
+      setMatchResults((prev) => {
+        const next = [...prev];
+        let changed = false;
+        for (const patch of patches) {
+          const idx = findPatchIndex(next, patch);
+          if (idx >= 0) {
+            next[idx] = patch;
+            changed = true;
+          }
+        }
+        if (!changed) return prev;
+        persistPatchedResults(next);
+        return next;
+      });
+    });
+  }, []);
   const handleManualSearch = useCallback(
     (manga: KenmeiManga) => {
       console.debug(
@@ -314,6 +376,7 @@ export const useMatchHandlers = (
             status: newStatus,
             selectedMatch: getSelectedMatch(m),
             matchDate: new Date().toISOString(),
+            autoAccept: undefined,
           };
         }
         return m;
@@ -396,6 +459,7 @@ export const useMatchHandlers = (
         status: newStatus,
         selectedMatch: getSelectedMatch(singleMatch),
         matchDate: new Date().toISOString(),
+        autoAccept: undefined,
       };
     },
     [],
@@ -582,6 +646,13 @@ export const useMatchHandlers = (
 
       const singleMatch = match as MangaMatchResult;
       logSingleMatchOperation(singleMatch, actionName, newStatus);
+      // Only single decisions calibrate confidence; batch actions follow a filter, not a judgement per title
+      recordMatchDecisions(
+        buildMatchDecisionRecords(
+          singleMatch,
+          newStatus === "matched" ? "accept" : "reject",
+        ),
+      );
 
       // Handle undo/redo if manager is available
       if (undoRedoManager && commandType) {
@@ -745,6 +816,7 @@ export const useMatchHandlers = (
           anilistMatches: rearranged,
           status: "matched" as const,
           matchDate: new Date().toISOString(),
+          autoAccept: undefined,
         };
       };
 
@@ -796,6 +868,7 @@ export const useMatchHandlers = (
           anilistMatches: newAnilistMatches,
           status: autoAccept ? "matched" : currentMatch.status,
           matchDate: new Date().toISOString(),
+          autoAccept: undefined,
         };
       };
 
@@ -805,6 +878,14 @@ export const useMatchHandlers = (
         swapHandler();
       }
 
+      recordMatchDecisions(
+        buildMatchDecisionRecords(
+          currentMatch,
+          "alternative",
+          selectedAlternative.manga,
+        ),
+      );
+
       // Handle undo/redo if manager is available
       if (undoRedoManager) {
         const command = new SelectAlternativeCommand(
@@ -860,6 +941,7 @@ export const useMatchHandlers = (
             status: "pending" as const,
             selectedMatch: originalMainMatch,
             matchDate: new Date().toISOString(),
+            autoAccept: undefined,
           };
         }
         return m;
@@ -940,6 +1022,7 @@ export const useMatchHandlers = (
         status: "pending" as const,
         selectedMatch: originalMainMatch,
         matchDate: new Date().toISOString(),
+        autoAccept: undefined,
       };
 
       // Handle undo/redo if manager is available
@@ -1058,31 +1141,20 @@ export const useMatchHandlers = (
   );
 
   /**
-   * Handles selecting a manga from the search panel and updating the match result accordingly.
+   * Selects an AniList manga for a match result, switching to it if it is already a candidate
+   * and recording it as a manual match otherwise.
    * Creates a SelectSearchMatchCommand for undo/redo tracking if manager is available.
-   * Reads from searchTargetRef instead of using setState callback for React Compiler compatibility.
    *
-   * @param manga - The AniList manga selected from the search panel.
+   * @param target - The match result or Kenmei manga to update.
+   * @param manga - The AniList manga to select.
+   * @returns True if the match result was found and updated.
    * @source
    */
-  const handleSelectSearchMatch = useCallback(
-    (manga: AniListManga) => {
-      // Read from ref directly instead of using setState callback
-      const searchTarget = searchTargetRef.current;
-
-      if (!searchTarget) {
-        console.error("[MatchHandlers] No manga target was set for search");
-        return;
-      }
-
-      console.debug(
-        "[MatchHandlers] Handling selection of manga from search:",
-        manga.title,
-      );
-
+  const selectMangaForMatch = useCallback(
+    (target: MangaMatchResult | KenmeiManga, manga: AniListManga) => {
       // Find the match
-      const matchIndex = findMatchIndex(searchTarget);
-      if (matchIndex === -1) return;
+      const matchIndex = findMatchIndex(target);
+      if (matchIndex === -1) return false;
 
       // Get the existing match
       const existingMatch = matchResults[matchIndex];
@@ -1116,14 +1188,19 @@ export const useMatchHandlers = (
           status: "matched" as const, // Use "matched" status instead of "manual" since it's an existing alternative
           selectedMatch: existingMatch.anilistMatches[alternativeIndex].manga,
           matchDate: new Date().toISOString(),
+          autoAccept: undefined,
         };
       } else {
         // It's a new match not in the alternatives, create a manual match
-        const manualConfidence = calculateConfidence(
+        const { confidence, breakdown } = calculateConfidenceBreakdown(
           existingMatch.kenmeiManga.title,
           manga,
         );
-        const manualMatchEntry = { manga, confidence: manualConfidence };
+        const manualMatchEntry = {
+          manga,
+          confidence,
+          scoreBreakdown: breakdown,
+        };
         const remainingAlternatives =
           existingMatch.anilistMatches?.filter(
             (entry) => entry.manga.id !== manga.id,
@@ -1134,6 +1211,7 @@ export const useMatchHandlers = (
           status: "manual" as const, // Change status to manual
           selectedMatch: manga, // Update with the new selected match
           matchDate: new Date().toISOString(),
+          autoAccept: undefined,
           anilistMatches: [manualMatchEntry, ...remainingAlternatives],
         };
       }
@@ -1153,22 +1231,129 @@ export const useMatchHandlers = (
         updateMatchResults(updatedResults);
       }
 
-      // Then close the search panel
-      setIsSearchOpen(false);
-      setSearchTarget(undefined);
+      return true;
     },
     [
-      searchTargetRef,
       findMatchIndex,
       matchResults,
       updateMatchResults,
-      setIsSearchOpen,
-      setSearchTarget,
       undoRedoManager,
       applyCommandPatch,
     ],
   );
 
+  /**
+   * Handles selecting a manga from the search panel and updating the match result accordingly.
+   * Reads from searchTargetRef instead of using setState callback for React Compiler compatibility.
+   *
+   * @param manga - The AniList manga selected from the search panel.
+   * @source
+   */
+  const handleSelectSearchMatch = useCallback(
+    (manga: AniListManga) => {
+      // Read from ref directly instead of using setState callback
+      const searchTarget = searchTargetRef.current;
+
+      if (!searchTarget) {
+        console.error("[MatchHandlers] No manga target was set for search");
+        return;
+      }
+
+      console.debug(
+        "[MatchHandlers] Handling selection of manga from search:",
+        manga.title,
+      );
+
+      if (!selectMangaForMatch(searchTarget, manga)) return;
+
+      // Then close the search panel
+      setIsSearchOpen(false);
+      setSearchTarget(undefined);
+    },
+    [searchTargetRef, selectMangaForMatch, setIsSearchOpen, setSearchTarget],
+  );
+
+  /**
+   * Handles selecting a related series entry (sequel, side story, etc.) shown on a match card.
+   *
+   * @param match - The match result whose candidate lists the related entry.
+   * @param manga - The related AniList manga selected.
+   * @source
+   */
+  const handleSelectRelatedEntry = useCallback(
+    (match: MangaMatchResult, manga: AniListManga) => {
+      console.debug(
+        "[MatchHandlers] Handling selection of related entry:",
+        manga.title,
+      );
+
+      if (selectMangaForMatch(match, manga)) {
+        recordEvent({
+          type: "match.select-related",
+          message: `Selected related entry: ${match.kenmeiManga.title}`,
+          level: "info",
+          metadata: {
+            kenmeiTitle: match.kenmeiManga.title,
+            anilistId: manga.id,
+            anilistTitle: manga.title?.romaji,
+          },
+        });
+      }
+    },
+    [selectMangaForMatch, recordEvent],
+  );
+
+  /**
+   * Applies the auto-accept policy to pending results and records the accepted ones as one undoable batch.
+   * Auto-accepted matches are not logged as confidence calibration decisions, since the user did not make them.
+   *
+   * @param results - Match results to evaluate, usually the ones a matching run just produced.
+   * @param matchedManga - Kenmei manga from that run; other pending results are left for review.
+   * @returns Number of matches accepted.
+   * @source
+   */
+  const handleAutoAccept = useCallback(
+    (results: MangaMatchResult[], matchedManga?: KenmeiManga[]) => {
+      const runIds = matchedManga
+        ? new Set(matchedManga.map((manga) => manga.id))
+        : null;
+      const outcomes = applyAutoAcceptPolicy(
+        results,
+        getAutoAcceptPolicy(),
+        runIds ? (result) => runIds.has(result.kenmeiManga.id) : undefined,
+      );
+      if (outcomes.length === 0) return 0;
+
+      const command = new BatchCommand(
+        outcomes.map(
+          ({ index, before, after }) =>
+            new AcceptMatchCommand(index, before, after, queueCommandPatch),
+        ),
+        "Auto-accept matches",
+      );
+      if (undoRedoManager) {
+        undoRedoManager.executeCommand(command);
+      } else {
+        command.execute();
+      }
+
+      recordEvent({
+        type: "match.auto-accept",
+        message: `Auto-accepted ${outcomes.length} match${outcomes.length === 1 ? "" : "es"}`,
+        level: "info",
+        metadata: {
+          count: outcomes.length,
+          titles: outcomes
+            .slice(0, 20)
+            .map(({ before }) => before.kenmeiManga.title),
+        },
+      });
+
+      return outcomes.length;
+    },
+    [undoRedoManager, queueCommandPatch, recordEvent],
+  );
+
   /**
    * Creates a type-safe batch operation object for processing multiple matches.
    * @param matches - Array of matches to process in batch.
@@ -1200,6 +1385,8 @@ export const useMatchHandlers = (
     handleSelectAlternative,
     handleResetToPending,
     handleSelectSearchMatch,
+    handleSelectRelatedEntry,
+    handleAutoAccept,
     createBatchOperation,
     setSearchTargetExternal,
   };
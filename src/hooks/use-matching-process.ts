@@ -9,6 +9,7 @@ import { KenmeiManga } from "../api/kenmei/types";
 import { MangaMatchResult } from "../api/anilist/types";
 import {
   batchMatchManga,
+  getBatchMatchOptions,
   setManualMatchingPause,
   isManualMatchingPaused,
   cacheDebugger,
@@ -19,25 +20,45 @@ import {
   storage,
   mergeMatchResults,
   MatchResult,
-  getMatchConfig,
 } from "../utils/storage";
 import { ApiError, MatchingProgress } from "../types/matching";
-import { captureError, ErrorType } from "../utils/error-handling";
+import {
+  captureError,
+  ErrorType,
+  showErrorNotification,
+} from "../utils/error-handling";
+import {
+  createTokenExpiredError,
+  estimateMatchDurationMs,
+  formatTokenTimeRemaining,
+  getTokenExpiryStatus,
+  getTokenTimeRemaining,
+} from "../utils/token-lifecycle";
+import { toast } from "sonner";
 import { useTimeEstimate } from "./use-time-estimate";
 import { usePendingManga } from "./use-pending-manga";
+import { useAuthActions, useAuthState } from "./use-auth";
 
 /**
  * Manages the manga matching process with batch operations, progress tracking, and pause/resume support.
+ * @param onMatchingComplete - Called with the merged results and the matched manga after a run completes without cancellation.
  * @returns Object containing matching state, handlers, and utility functions.
  * @source
  */
 export const useMatchingProcess = ({
   accessToken,
   rateLimitState,
+  onMatchingComplete,
 }: {
   accessToken: string | null;
   rateLimitState?: RateLimitState;
+  onMatchingComplete?: (
+    results: MangaMatchResult[],
+    matchedManga: KenmeiManga[],
+  ) => void;
 }) => {
+  const { authState } = useAuthState();
+  const { reauthenticate } = useAuthActions();
   // State for matching process
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<MatchingProgress>({
@@ -291,6 +312,7 @@ export const useMatchingProcess = ({
    * @param results - Array of match results from the matching service.
    * @param originalList - Original list of Kenmei manga being matched.
    * @param setMatchResults - State setter for updating match results.
+   * @returns The merged results, or null if persisting failed.
    * @source
    */
   const persistMergedResults = useCallback(
@@ -298,7 +320,7 @@ export const useMatchingProcess = ({
       results: MatchResult[],
       originalList: KenmeiManga[],
       setMatchResults: React.Dispatch<React.SetStateAction<MangaMatchResult[]>>,
-    ) => {
+    ): Promise<MangaMatchResult[] | null> => {
       try {
         const merged = mergeMatchResults(results);
         setMatchResults(merged as MangaMatchResult[]);
@@ -339,6 +361,7 @@ export const useMatchingProcess = ({
           storage.removeItem(STORAGE_KEYS.PENDING_MANGA);
           setPendingManga([]);
         }
+        return merged as MangaMatchResult[];
       } catch (e) {
         console.error("[MatchingProcess] Failed to persist match results:", e);
         captureError(
@@ -350,6 +373,7 @@ export const useMatchingProcess = ({
             stage: "persist_results",
           },
         );
+        return null;
       }
     },
     [calculatePendingManga, savePendingManga, setPendingManga],
@@ -621,6 +645,44 @@ export const useMatchingProcess = ({
         return;
       }
 
+      // Check the token will outlive the run before spending requests on it
+      const estimatedMs = estimateMatchDurationMs(mangaList.length);
+      const tokenExpiry = getTokenExpiryStatus(
+        { accessToken, expiresAt: authState.expiresAt },
+        { requiredMs: estimatedMs },
+      );
+      if (tokenExpiry === "expired") {
+        const expiredError = createTokenExpiredError("matching");
+        setError(expiredError.message);
+        showErrorNotification(expiredError, {
+          onRetry: () => reauthenticate().then(() => undefined),
+        });
+        return;
+      }
+      const remaining = getTokenTimeRemaining(authState.expiresAt);
+      if (tokenExpiry === "expiring" && remaining !== null) {
+        console.warn(
+          `[MatchingProcess] ⚠️ Access token expires in ${formatTokenTimeRemaining(remaining)}`,
+        );
+        if (remaining < estimatedMs) {
+          toast.warning("Your AniList session may expire during matching", {
+            description: `Matching ${mangaList.length} titles can take about ${formatTokenTimeRemaining(estimatedMs)}, but your session ends in ${formatTokenTimeRemaining(remaining)}. Re-authenticate first to avoid failed searches.`,
+            duration: 15000,
+            action: {
+              label: "Re-authenticate",
+              onClick: () => {
+                reauthenticate().catch((reauthError) => {
+                  console.error(
+                    "[MatchingProcess] Re-authentication failed:",
+                    reauthError,
+                  );
+                });
+              },
+            },
+          });
+        }
+      }
+
       setBypassCache(Boolean(forceSearch));
       setIsLoading(true);
       setError(null);
@@ -689,24 +751,10 @@ export const useMatchingProcess = ({
         );
         const cancelPredicate = createCancellationPredicate(abortController);
 
-        const storedMatchConfig = getMatchConfig();
-
         const results = await batchMatchManga(
           mangaList,
           accessToken || "",
-          {
-            batchSize: 5,
-            searchPerPage: 50,
-            maxSearchResults: 20,
-            matchConfig: {
-              confidenceThreshold: 75,
-              shouldPreferEnglishTitles: true,
-              shouldUseAlternativeTitles: true,
-              enableExtraTitleSearches:
-                storedMatchConfig.enableExtraTitleSearches,
-            },
-            bypassCache: forceSearch,
-          },
+          getBatchMatchOptions(forceSearch),
           progressCallback,
           cancelPredicate,
           abortController.signal,
@@ -761,11 +809,14 @@ export const useMatchingProcess = ({
         });
 
         // Normal completion: merge, persist, and clear pending
-        await persistMergedResults(
+        const merged = await persistMergedResults(
           results as MatchResult[],
           mangaList,
           setMatchResults,
         );
+        if (merged) {
+          onMatchingComplete?.(merged, mangaList);
+        }
       } catch (err: unknown) {
         handleMatchingError(err);
       } finally {
@@ -783,6 +834,8 @@ export const useMatchingProcess = ({
     },
     [
       accessToken,
+      authState.expiresAt,
+      reauthenticate,
       initializeTimeTracking,
       setPendingManga,
       resumeTimeTracking,
@@ -793,6 +846,7 @@ export const useMatchingProcess = ({
       persistMergedResults,
       setInitialStatusMessage,
       handleMatchingError,
+      onMatchingComplete,
     ],
   );
 
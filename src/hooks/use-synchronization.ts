@@ -12,6 +12,15 @@ import {
   SyncProgress,
 } from "../api/anilist/sync-service";
 import { AniListMediaEntry, MediaListStatus } from "../api/anilist/types";
+import type { SyncPlan } from "../api/anilist/sync-plan";
+import { requeueDriftedEntries as queueDriftedEntries } from "../api/anilist/sync-verification";
+import {
+  createSyncRollbackSnapshot,
+  rollbackSync as runSyncRollback,
+  type SyncRollbackResult,
+} from "../api/anilist/sync-rollback";
+import { resolveScoreFormat } from "../api/anilist/score-format";
+import { hasListDetailChanges } from "../api/anilist/incremental-sync";
 import { acquireRateLimit } from "../api/matching/rate-limiting/queue-processor";
 import {
   exportSyncErrorLog,
@@ -23,22 +32,34 @@ import {
   STORAGE_KEYS,
   validateSyncSnapshot,
   isSyncSnapshotStale,
-  recordReadingHistory,
-  getSavedMatchResults,
   addFailedSyncOperation,
   getFailedOperations,
   removeFailedOperation,
   incrementRetryCount,
   MAX_RETRY_ATTEMPTS,
   FailedOperation,
-  type ReadingHistoryEntry,
+  getSyncConfig,
+  type FailedSyncFuzzyDate,
 } from "../utils/storage";
 import { captureError, ErrorType } from "../utils/error-handling";
+import {
+  createAutomaticBackupBeforeSync,
+  recordSyncReadingHistory,
+  verifySyncRun,
+} from "../utils/sync-pipeline";
 import {
   useDebugActions,
   StateInspectorHandle,
 } from "../contexts/debug-context";
-import { useAuthState } from "./use-auth";
+import { useAuthActions, useAuthState } from "./use-auth";
+import {
+  createTokenExpiredError,
+  estimateSyncDurationMs,
+  formatTokenTimeRemaining,
+  getTokenExpiryStatus,
+  getTokenTimeRemaining,
+} from "../utils/token-lifecycle";
+import { toast } from "sonner";
 
 /**
  * Snapshot of an in-progress synchronization session for pause/resume recovery.
@@ -138,6 +159,8 @@ const mergeReports = (
     skippedEntries: baseReport.skippedEntries + newReport.skippedEntries,
     errors: [...baseReport.errors, ...newReport.errors],
     timestamp: newReport.timestamp,
+    verification: newReport.verification,
+    rollback: baseReport.rollback ?? newReport.rollback,
   };
 };
 
@@ -151,6 +174,7 @@ const mergeReports = (
  * @param setState - State setter for synchronization state updates.
  * @param updateSnapshotFromProgress - Callback to update resume snapshot from progress.
  * @param initialEntriesRef - Ref containing initial entries for recovery.
+ * @param syncPlan - Optional dry-run plan executed as a single batch of its recorded mutations.
  * @returns Promise resolving to sync report and final progress state.
  * @source
  */
@@ -167,6 +191,7 @@ async function executeSyncModeImpl(
     ) => void;
     initialEntriesRef: { current: AniListMediaEntry[] };
     resumeSnapshotRef: { current: SyncResumeSnapshot | null };
+    syncPlan?: SyncPlan;
   },
 ): Promise<{ syncReport: SyncReport; lastReportedProgress: SyncProgress }> {
   const {
@@ -175,6 +200,7 @@ async function executeSyncModeImpl(
     updateSnapshotFromProgress,
     initialEntriesRef,
     resumeSnapshotRef,
+    syncPlan,
   } = options;
   let lastReportedProgress: SyncProgress = {
     total: uniqueMediaIds.length,
@@ -193,9 +219,12 @@ async function executeSyncModeImpl(
     (e) => e.syncMetadata?.useIncrementalSync,
   );
 
-  if (!needsIncrementalSync) {
+  // A recorded plan already lists every incremental step, so it runs as one batch
+  if (!needsIncrementalSync || syncPlan) {
     console.info(
-      "[Synchronization] ⚙️ Using standard (non-incremental) sync mode",
+      syncPlan
+        ? "[Synchronization] ⚙️ Executing recorded sync plan"
+        : "[Synchronization] ⚙️ Using standard (non-incremental) sync mode",
     );
     console.debug("[Synchronization] 🔍 Starting regular batch processing...");
     const syncReport = await runRegularBatch(
@@ -213,6 +242,7 @@ async function executeSyncModeImpl(
         updateSnapshotFromProgress(normalized, initialEntriesRef.current);
       },
       resumeSnapshotRef,
+      syncPlan,
     );
     return { syncReport, lastReportedProgress };
   }
@@ -233,6 +263,7 @@ async function executeSyncModeImpl(
           updatedStatus: entry.status !== entry.previousValues?.status,
           updatedScore: entry.score !== entry.previousValues?.score,
           updatedPrivate: entry.private !== entry.previousValues?.private,
+          updatedDetails: hasListDetailChanges(entry),
           step: undefined,
         },
       };
@@ -473,6 +504,7 @@ const createProgressUpdater = (
  * @property isPaused - Whether the sync is paused and resumable.
  * @property resumeAvailable - Whether a paused sync can be resumed.
  * @property resumeMetadata - Metadata about available resume state.
+ * @property pausedForReauth - Whether the sync was paused because the access token expired; it resumes after re-authentication.
  * @source
  */
 interface SynchronizationState {
@@ -487,6 +519,7 @@ interface SynchronizationState {
     remainingMediaIds: number[];
     timestamp: number;
   } | null;
+  pausedForReauth: boolean;
 }
 
 /**
@@ -498,6 +531,7 @@ interface SynchronizationState {
  * @param uniqueIds - Unique media IDs for progress normalization.
  * @param onProgressUpdate - Callback for progress updates.
  * @param resumeSnapshotRef - Reference to the current resume snapshot for persisting batch results.
+ * @param syncPlan - Optional dry-run plan whose recorded mutations are sent instead of rebuilt ones.
  * @returns Promise resolving to the batch sync report.
  * @source
  */
@@ -508,6 +542,7 @@ async function runRegularBatch(
   uniqueIds: number[],
   onProgressUpdate: (p: SyncProgress) => void,
   resumeSnapshotRef: { current: SyncResumeSnapshot | null },
+  syncPlan?: SyncPlan,
 ): Promise<SyncReport> {
   if (batchEntries.length === 0) {
     return {
@@ -560,6 +595,7 @@ async function runRegularBatch(
         }
       }
     },
+    syncPlan && { mode: "execute", plan: syncPlan },
   );
 
   return batchResult;
@@ -875,20 +911,24 @@ async function runIncrementalEntries(
 
 /**
  * Set of actions available for controlling synchronization operations.
- * @property startSync - Begins synchronization of the provided entries.
+ * @property startSync - Begins synchronization of the provided entries, optionally executing a recorded sync plan.
  * @property cancelSync - Aborts the active sync and clears state.
  * @property pauseSync - Pauses sync after current entry, saving state for resume.
  * @property resumeSync - Resumes a previously paused synchronization.
  * @property exportErrors - Exports the error log from the last sync report.
  * @property exportReport - Exports the complete sync report to file.
  * @property reset - Resets synchronization state to initial values.
+ * @property requeueDriftedEntries - Adds entries that drifted after sync to the failed-operations queue.
+ * @property rollbackSync - Restores the pre-sync AniList values of every entry the last sync touched.
+ * @property isRollingBack - Whether a rollback is in progress.
+ * @property rollbackProgress - Progress of the running rollback.
  * @source
  */
 interface SynchronizationActions {
   startSync: (
     entries: AniListMediaEntry[],
     token: string,
-    _?: undefined,
+    syncPlan?: SyncPlan,
     displayOrderMediaIds?: number[],
   ) => Promise<void>;
   cancelSync: () => void;
@@ -907,6 +947,10 @@ interface SynchronizationActions {
   retryFailedOperation: (operationId: string) => Promise<boolean>;
   retryAllFailedOperations: () => Promise<number>;
   clearFailedOperation: (operationId: string) => void;
+  requeueDriftedEntries: () => number;
+  rollbackSync: () => Promise<SyncRollbackResult | null>;
+  isRollingBack: boolean;
+  rollbackProgress: SyncProgress | null;
 }
 
 /**
@@ -975,14 +1019,27 @@ export function useSynchronization(): [
     isPaused: false,
     resumeAvailable: false,
     resumeMetadata: null,
+    pausedForReauth: false,
   });
   const [failedOperations, setFailedOperations] = useState<FailedOperation[]>(
     [],
   );
   const [isLoadingFailedOps, setIsLoadingFailedOps] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rollbackProgress, setRollbackProgress] = useState<SyncProgress | null>(
+    null,
+  );
 
   // Get auth state for token in retry operations
   const { authState, isOnline } = useAuthState();
+  const { reauthenticate } = useAuthActions();
+  // Latest auth state for callbacks that are not recreated on auth changes
+  const authStateRef = useRef(authState);
+  authStateRef.current = authState;
+  // Set when the running sync is paused because its token is about to expire
+  const reauthPauseRef = useRef(false);
+  // Token that was expiring when the sync paused; a different token resumes it
+  const reauthPausedTokenRef = useRef<string | null>(null);
 
   const resumeSnapshotRef = useRef<SyncResumeSnapshot | null>(null);
   const initialEntriesRef = useRef<AniListMediaEntry[]>([]);
@@ -1202,118 +1259,6 @@ export function useSynchronization(): [
     emitSyncSnapshot();
   };
 
-  /**
-   * If automatic backups are enabled and this is a fresh sync, attempt to create one.
-   * Errors are non-blocking and will be recorded to Sentry/breadcrumbs.
-   */
-  const performAutomaticBackupIfNeeded = async (isResume: boolean) => {
-    if (isResume) return;
-
-    // Verify Electron backup context is available
-    if (!globalThis.electronBackup?.getScheduleConfig) {
-      console.warn(
-        "[Synchronization] ⚠️ Electron backup context not available - skipping automatic backup",
-      );
-      return;
-    }
-
-    // Get schedule config and check if automatic backup before sync is enabled
-    const config = await globalThis.electronBackup.getScheduleConfig();
-    if (!config.autoBackupBeforeSync) {
-      return;
-    }
-
-    try {
-      console.info(
-        "[Synchronization] 📦 Creating automatic silent backup before sync...",
-      );
-      const result = await globalThis.electronBackup.createNow();
-
-      if (!result.success) {
-        throw new Error(result.error || "Failed to create backup");
-      }
-
-      console.info(
-        `[Synchronization] ✅ Automatic backup created successfully: ${result.backupId}`,
-      );
-      Sentry.addBreadcrumb({
-        category: "backup",
-        message: "Automatic backup created before sync",
-        level: "info",
-        data: {
-          backupId: result.backupId,
-        },
-      });
-    } catch (backupError) {
-      console.warn(
-        "[Synchronization] ⚠️ Automatic backup failed (non-blocking):",
-        backupError,
-      );
-      Sentry.addBreadcrumb({
-        category: "backup",
-        message: "Automatic backup failed before sync",
-        level: "warning",
-        data: {
-          error:
-            backupError instanceof Error
-              ? backupError.message
-              : String(backupError),
-        },
-      });
-    }
-  };
-
-  /**
-   * Records reading history snapshots after successful sync.
-   * Captures current chapter progress for all synced manga.
-   */
-  const recordSyncHistory = () => {
-    try {
-      const matchResults = getSavedMatchResults();
-      if (!matchResults || matchResults.length === 0) return;
-
-      const now = Date.now();
-      const historyEntries: ReadingHistoryEntry[] = [];
-
-      for (const match of matchResults) {
-        // Only record for matched/manual entries with chapter progress
-        if (!["matched", "manual"].includes(match.status ?? "")) continue;
-        if (!match.kenmeiManga?.chaptersRead) continue;
-        if (match.kenmeiManga.chaptersRead <= 0) continue;
-
-        // Prefer reading time from kenmeiManga.last_read_at if available
-        let timestamp = now;
-        if (match.kenmeiManga.lastReadAt) {
-          const readTime = new Date(match.kenmeiManga.lastReadAt).getTime();
-          if (!Number.isNaN(readTime)) {
-            timestamp = readTime;
-          }
-        }
-
-        historyEntries.push({
-          timestamp,
-          mangaId: match.kenmeiManga.id,
-          title: match.kenmeiManga.title,
-          chaptersRead: match.kenmeiManga.chaptersRead,
-          status: match.kenmeiManga.status || "unknown",
-          anilistId: match.selectedMatch?.id,
-        });
-      }
-
-      if (historyEntries.length > 0) {
-        recordReadingHistory(historyEntries);
-        console.info(
-          `[Synchronization] 📊 Recorded reading history: ${historyEntries.length} entries`,
-        );
-      }
-    } catch (error) {
-      console.warn(
-        "[Synchronization] ⚠️ Failed to record reading history (non-blocking):",
-        error,
-      );
-    }
-  };
-
   /**
    * Initialize controller, ids, refs and initial progress state for a sync run.
    * @param entries - Array of AniList media entries to sync.
@@ -1370,6 +1315,7 @@ export function useSynchronization(): [
    * @param token - AniList authentication token.
    * @param abortController - Abort controller for cancellation.
    * @param uniqueMediaIds - Array of unique media IDs to sync.
+   * @param syncPlan - Optional dry-run plan to execute verbatim.
    * @returns Sync execution result with report and final progress.
    * @source
    */
@@ -1378,6 +1324,7 @@ export function useSynchronization(): [
     token: string,
     abortController: AbortController,
     uniqueMediaIds: number[],
+    syncPlan?: SyncPlan,
   ) => {
     const executed = await executeSyncModeImpl(
       entries,
@@ -1389,6 +1336,7 @@ export function useSynchronization(): [
         updateSnapshotFromProgress,
         initialEntriesRef,
         resumeSnapshotRef,
+        syncPlan,
       },
     );
     return executed;
@@ -1527,7 +1475,7 @@ export function useSynchronization(): [
    * Starts a new synchronization for the provided AniList media entries.
    * @param entries - AniList media entries to synchronize.
    * @param token - AniList authentication token.
-   * @param _unused - Reserved for future use.
+   * @param syncPlan - Optional dry-run plan; when given, exactly its recorded mutations are sent.
    * @param displayOrderMediaIds - Optional IDs to control sync order.
    * @returns Promise resolving when sync completes or fails.
    * @source
@@ -1536,7 +1484,7 @@ export function useSynchronization(): [
     async (
       entries: AniListMediaEntry[],
       token: string,
-      _unused?: undefined,
+      syncPlan?: SyncPlan,
       displayOrderMediaIds?: number[],
     ) => {
       if (state.isActive) {
@@ -1560,6 +1508,44 @@ export function useSynchronization(): [
       const isResume = resumeRequestedRef.current;
       resumeRequestedRef.current = false;
 
+      // Refuse to start on a dead token; a paused run resumes after re-authentication
+      const tokenExpiry = getTokenExpiryStatus(
+        {
+          accessToken: token,
+          expiresAt:
+            token === authStateRef.current.accessToken
+              ? authStateRef.current.expiresAt
+              : undefined,
+        },
+        { requiredMs: estimateSyncDurationMs(entries.length) },
+      );
+      if (tokenExpiry === "expired") {
+        const expiredError = createTokenExpiredError("sync");
+        console.warn(
+          "[Synchronization] ⚠️ Access token expired - sync not started",
+        );
+        recordEvent({
+          type: "sync.token-expired",
+          message: "Sync blocked by an expired access token",
+          level: "warn",
+          metadata: { entryCount: entries.length, isResume },
+        });
+        reauthPausedTokenRef.current = token;
+        setState((prev) => ({
+          ...prev,
+          error: expiredError.message,
+          isPaused: prev.resumeAvailable,
+          pausedForReauth: prev.resumeAvailable,
+        }));
+        return;
+      }
+      if (tokenExpiry === "expiring") {
+        console.warn(
+          "[Synchronization] ⚠️ Access token may expire before this sync finishes; it will pause for re-authentication if it does",
+        );
+      }
+      reauthPauseRef.current = false;
+
       console.info(
         `[Synchronization] ${isResume ? "▶️ Resuming" : "🚀 Starting"} sync for ${entries.length} entries`,
       );
@@ -1592,7 +1578,10 @@ export function useSynchronization(): [
       pauseRequestedRef.current = false;
 
       // Try to create a backup if configured (non-blocking)
-      await performAutomaticBackupIfNeeded(isResume);
+      if (!isResume) await createAutomaticBackupBeforeSync();
+
+      // Capture pre-sync AniList values (and merge baselines) before anything is written
+      const rollbackSnapshot = createSyncRollbackSnapshot(entries);
 
       // Main orchestration
       try {
@@ -1606,9 +1595,13 @@ export function useSynchronization(): [
           token,
           abortController,
           uniqueMediaIds,
+          syncPlan,
         );
 
-        const syncReport = executed.syncReport;
+        let syncReport: SyncReport = {
+          ...executed.syncReport,
+          rollback: rollbackSnapshot,
+        };
         const lastReportedProgress = executed.lastReportedProgress;
 
         if (pauseRequestedRef.current) {
@@ -1630,10 +1623,30 @@ export function useSynchronization(): [
             initialEntriesRef,
             setState,
           );
+          if (reauthPauseRef.current) {
+            reauthPauseRef.current = false;
+            setState((prev) => ({ ...prev, pausedForReauth: true }));
+          }
           console.info("[Synchronization] ✅ Sync paused successfully");
           return;
         }
 
+        if (
+          getSyncConfig().verifyAfterSync &&
+          syncReport.successfulUpdates > 0 &&
+          !abortController.signal.aborted
+        ) {
+          syncReport = {
+            ...syncReport,
+            verification: await verifySyncRun(
+              entries,
+              syncReport,
+              token,
+              resolveScoreFormat(authState.scoreFormat),
+            ),
+          };
+        }
+
         console.debug("[Synchronization] 🔍 Finalizing sync operation...");
         finalizeSyncOperation(
           existingReportFragment,
@@ -1650,7 +1663,7 @@ export function useSynchronization(): [
 
         // Record reading history snapshot after successful sync
         if (finalReport.successfulUpdates > 0) {
-          recordSyncHistory();
+          recordSyncReadingHistory();
         }
 
         Sentry.addBreadcrumb({
@@ -1893,6 +1906,7 @@ export function useSynchronization(): [
       isPaused: false,
       resumeAvailable: false,
       resumeMetadata: null,
+      pausedForReauth: false,
     });
     emitSyncSnapshot();
   }, [clearResumeSnapshot, emitSyncSnapshot]);
@@ -1976,6 +1990,10 @@ export function useSynchronization(): [
           progress: (payload.progress as number) || 0,
           score: (payload.score as number) || 0,
           private: (payload.private as boolean) ?? false,
+          progressVolumes: payload.progressVolumes as number | undefined,
+          notes: payload.notes as string | undefined,
+          startedAt: payload.startedAt as FailedSyncFuzzyDate | undefined,
+          completedAt: payload.completedAt as FailedSyncFuzzyDate | undefined,
           previousValues:
             (payload.previousValues as AniListMediaEntry["previousValues"]) ??
             null,
@@ -2090,6 +2108,191 @@ export function useSynchronization(): [
     setFailedOperations((prev) => prev.filter((op) => op.id !== operationId));
   }, []);
 
+  /**
+   * Adds entries flagged as drifted by the last verification pass to the failed-operations queue.
+   * Each entry is only queued once per report.
+   * @returns Number of entries queued.
+   * @source
+   */
+  const requeueDriftedEntries = useCallback((): number => {
+    const verification = state.report?.verification;
+    if (!verification?.drifted.length || verification.requeued) return 0;
+
+    const queued = queueDriftedEntries(verification);
+    setState((prev) =>
+      prev.report?.verification
+        ? {
+            ...prev,
+            report: {
+              ...prev.report,
+              verification: { ...prev.report.verification, requeued: true },
+            },
+          }
+        : prev,
+    );
+    refreshFailedOperations();
+    return queued;
+  }, [state.report, refreshFailedOperations]);
+
+  /**
+   * Rolls back the last sync by restoring each touched entry's pre-sync AniList values
+   * and deleting entries the sync created. Runs once per report.
+   * @returns Rollback outcome, or null if there is nothing to roll back or it failed.
+   * @source
+   */
+  const rollbackSync =
+    useCallback(async (): Promise<SyncRollbackResult | null> => {
+      const snapshot = state.report?.rollback;
+      if (!snapshot?.entries.length || snapshot.result || isRollingBack) {
+        return null;
+      }
+      if (!authState?.accessToken) {
+        console.error(
+          "[Synchronization] Cannot roll back sync: access token is missing or empty",
+        );
+        captureError(
+          ErrorType.AUTH,
+          "Cannot roll back sync: access token unavailable",
+          new Error("Cannot roll back sync: access token unavailable"),
+          { context: "rollbackSync" },
+        );
+        return null;
+      }
+
+      console.info(
+        `[Synchronization] ⏪ Rolling back sync of ${snapshot.entries.length} entries`,
+      );
+      recordEvent({
+        type: "sync.rollback",
+        message: `Rolling back sync of ${snapshot.entries.length} entries`,
+        level: "info",
+        metadata: { entryCount: snapshot.entries.length },
+      });
+
+      setIsRollingBack(true);
+      try {
+        const result = await runSyncRollback(
+          snapshot,
+          authState.accessToken,
+          setRollbackProgress,
+        );
+        setState((prev) =>
+          prev.report?.rollback
+            ? {
+                ...prev,
+                report: {
+                  ...prev.report,
+                  rollback: { ...prev.report.rollback, result },
+                },
+              }
+            : prev,
+        );
+        recordEvent({
+          type: "sync.rollback.complete",
+          message: `Rollback completed: ${result.restored} restored, ${result.deleted} deleted, ${result.failed} failed`,
+          level: result.failed > 0 ? "warn" : "success",
+          metadata: { ...result, errors: result.errors.length },
+        });
+        return result;
+      } catch (error) {
+        console.error("[Synchronization] Rollback failed:", error);
+        captureError(ErrorType.UNKNOWN, "Sync rollback failed", error, {
+          entryCount: snapshot.entries.length,
+          stage: "sync_rollback",
+        });
+        return null;
+      } finally {
+        setIsRollingBack(false);
+        setRollbackProgress(null);
+      }
+    }, [state.report, isRollingBack, authState]);
+
+  // Pause the running sync shortly before its token expires
+  useEffect(() => {
+    const abortController = state.abortController;
+    if (!state.isActive || !abortController) return;
+
+    const remaining = getTokenTimeRemaining(authState.expiresAt);
+    // Unknown expiry, or far enough out that no sync runs that long
+    if (remaining === null || remaining > 2_147_483_647) return;
+
+    const timeoutId = setTimeout(() => {
+      if (abortController.signal.aborted) return;
+      console.warn(
+        "[Synchronization] 🔐 Access token is about to expire - pausing sync for re-authentication",
+      );
+      recordEvent({
+        type: "sync.pause",
+        message: "Sync paused for re-authentication",
+        level: "warn",
+        metadata: { expiresAt: authState.expiresAt },
+      });
+      reauthPauseRef.current = true;
+      reauthPausedTokenRef.current = authState.accessToken ?? null;
+      pauseRequestedRef.current = true;
+      abortController.abort();
+
+      toast.warning("Sync paused: your AniList session is expiring", {
+        description:
+          "Re-authenticate and the sync resumes where it stopped. Progress so far is saved.",
+        duration: 20000,
+        action: {
+          label: "Re-authenticate",
+          onClick: () => {
+            reauthenticate().catch((reauthError) => {
+              console.error(
+                "[Synchronization] Re-authentication failed:",
+                reauthError,
+              );
+            });
+          },
+        },
+      });
+    }, remaining);
+
+    return () => clearTimeout(timeoutId);
+  }, [
+    state.isActive,
+    state.abortController,
+    authState.accessToken,
+    authState.expiresAt,
+    reauthenticate,
+    recordEvent,
+  ]);
+
+  // Resume a sync paused for re-authentication once a fresh token arrives
+  useEffect(() => {
+    if (!state.pausedForReauth || state.isActive) return;
+
+    const { accessToken, expiresAt } = authState;
+    if (
+      !accessToken ||
+      accessToken === reauthPausedTokenRef.current ||
+      getTokenExpiryStatus({ accessToken, expiresAt }) === "expired"
+    ) {
+      return;
+    }
+
+    const remaining = getTokenTimeRemaining(expiresAt);
+    console.info(
+      `[Synchronization] 🔐 New access token received${remaining === null ? "" : ` (valid for ${formatTokenTimeRemaining(remaining)})`} - resuming sync`,
+    );
+    reauthPausedTokenRef.current = null;
+    setState((prev) => ({ ...prev, pausedForReauth: false, error: null }));
+    resumeSync([], accessToken).catch((resumeError) => {
+      console.error(
+        "[Synchronization] ❌ Failed to resume sync after re-authentication:",
+        resumeError,
+      );
+    });
+  }, [
+    authState.accessToken,
+    authState.expiresAt,
+    state.pausedForReauth,
+    state.isActive,
+    resumeSync,
+  ]);
+
   return [
     state,
     {
@@ -2105,6 +2308,10 @@ export function useSynchronization(): [
       retryFailedOperation,
       retryAllFailedOperations,
       clearFailedOperation,
+      requeueDriftedEntries,
+      rollbackSync,
+      isRollingBack,
+      rollbackProgress,
     },
   ];
 }
@@ -22,6 +22,10 @@ import {
   FileUploadContent,
   FileReadyContent,
 } from "../components/import/ImportPageContent";
+import {
+  CsvMappingWizard,
+  type CsvMappingSource,
+} from "../components/import/CsvMappingWizard";
 import {
   normalizeMangaItems,
   getPreviousMangaData,
@@ -29,6 +33,12 @@ import {
   validateMangaData,
   updateMatchResults,
   clearPendingMangaStorage,
+  computeImportDiff,
+  getChangedTitleKeys,
+  queuePendingManga,
+  selectAddedManga,
+  type ImportDiff,
+  type RematchScope,
 } from "../utils/manga-import-utils";
 import { getStatusCounts } from "../utils/manga-status-utils";
 import { truncateToastMessage } from "../utils/text-highlight";
@@ -54,6 +64,10 @@ export function ImportPage() {
   const [importSuccess, setImportSuccess] = useState(false);
   const [previousMatchCount, setPreviousMatchCount] = useState(0);
   const [progress, setProgress] = useState(0);
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  const [rematchScope, setRematchScope] = useState<RematchScope>("added");
+  const [csvMappingSource, setCsvMappingSource] =
+    useState<CsvMappingSource | null>(null);
 
   const statusCountsSnapshot = useMemo(
     () => (importData ? getStatusCounts(importData.manga) : null),
@@ -77,7 +91,17 @@ export function ImportPage() {
       },
     });
 
+    // Compare against the stored library so the summary can show what changed
+    const previousManga = getPreviousMangaData();
+    const diff =
+      previousManga.length > 0
+        ? computeImportDiff(previousManga, normalizeMangaItems(data.manga))
+        : null;
+
+    setCsvMappingSource(null);
     setImportData(data);
+    setImportDiff(diff);
+    setRematchScope("added");
     setError(null);
     setImportSuccess(false);
     toast.success("File loaded", {
@@ -91,6 +115,22 @@ export function ImportPage() {
     });
   };
 
+  /**
+   * Opens the column-mapping step for a CSV the Kenmei parser cannot read.
+   * @param source - CSV file to map.
+   * @source
+   */
+  const handleMappingRequired = (source: CsvMappingSource) => {
+    recordEvent({
+      type: "import.mapping-required",
+      message: `Column mapping required for ${source.fileName}`,
+      level: "info",
+      metadata: { headers: source.rows[0] ?? [] },
+    });
+    setError(null);
+    setCsvMappingSource(source);
+  };
+
   /**
    * Handles import errors by logging, recording debug event, and displaying enhanced error notification.
    * @param error - The application error object to handle.
@@ -206,11 +246,19 @@ export function ImportPage() {
       const validMergedManga = validateMangaData(mergedManga);
       saveKenmeiData({ manga: validMergedManga });
 
-      // Update existing match results with new data if any exist
-      updateMatchResults(validMergedManga);
+      if (importDiff && rematchScope === "added") {
+        // Leave unchanged matches alone; only refresh titles whose data changed
+        updateMatchResults(validMergedManga, getChangedTitleKeys(importDiff));
+
+        // Queue just the added titles for matching
+        queuePendingManga(selectAddedManga(validMergedManga, importDiff));
+      } else {
+        // Update existing match results with new data if any exist
+        updateMatchResults(validMergedManga);
 
-      // Clear pending manga storage after import to force recalculation
-      clearPendingMangaStorage();
+        // Clear pending manga storage after import to force recalculation
+        clearPendingMangaStorage();
+      }
 
       // Show success state briefly before redirecting
       console.info("[Import] ✅ Import completed successfully");
@@ -221,6 +269,7 @@ export function ImportPage() {
         message: `Import completed: ${results.newMangaCount} new, ${results.updatedMangaCount} updated, ${validMergedManga.length} total`,
         level: "success",
         metadata: {
+          rematchScope: importDiff ? rematchScope : null,
           newMangaCount: results.newMangaCount,
           updatedMangaCount: results.updatedMangaCount,
           totalMangaCount: validMergedManga.length,
@@ -309,6 +358,8 @@ export function ImportPage() {
       level: "info",
     });
     setImportData(null);
+    setImportDiff(null);
+    setCsvMappingSource(null);
     setError(null);
     setImportSuccess(false);
     toast("Import reset", {
@@ -384,11 +435,23 @@ export function ImportPage() {
           );
         }
 
+        if (!importData && csvMappingSource) {
+          return (
+            <CsvMappingWizard
+              source={csvMappingSource}
+              onComplete={handleFileLoaded}
+              onCancel={() => setCsvMappingSource(null)}
+              onError={handleError}
+            />
+          );
+        }
+
         if (!importData) {
           return (
             <FileUploadContent
               onFileLoaded={handleFileLoaded}
               onError={handleError}
+              onMappingRequired={handleMappingRequired}
             />
           );
         }
@@ -400,6 +463,9 @@ export function ImportPage() {
             importData={importData}
             statusCounts={statusCounts}
             previousMatchCount={previousMatchCount}
+            importDiff={importDiff}
+            rematchScope={rematchScope}
+            onRematchScopeChange={setRematchScope}
             isLoading={isLoading}
             onImport={handleImport}
             onReset={resetForm}
@@ -398,9 +398,21 @@ export function MatchingPage() {
       setCanRedo(undoRedoManager.canRedo());
     }
   };
+  // Ref to the auto-accept pass, assigned once match handlers exist
+  const autoAcceptRef = useRef<
+    (results: MangaMatchResult[], matchedManga: KenmeiManga[]) => void
+  >(() => {});
+  const handleMatchingComplete = useCallback(
+    (results: MangaMatchResult[], matchedManga: KenmeiManga[]) => {
+      autoAcceptRef.current(results, matchedManga);
+    },
+    [],
+  );
+
   const matchingProcess = useMatchingProcess({
     accessToken: authState.accessToken || null,
     rateLimitState,
+    onMatchingComplete: handleMatchingComplete,
   });
   const pendingMangaState = usePendingManga();
 
@@ -442,6 +454,24 @@ export function MatchingPage() {
     undoRedoManager,
   );
 
+  useEffect(() => {
+    autoAcceptRef.current = (results, matchedManga) => {
+      const acceptedCount = matchHandlers.handleAutoAccept(
+        results,
+        matchedManga,
+      );
+      if (acceptedCount > 0) {
+        toast.success(
+          `Auto-accepted ${acceptedCount} match${acceptedCount === 1 ? "" : "es"}`,
+          {
+            description:
+              "They met your auto-accept policy. Use undo to send them back for review.",
+          },
+        );
+      }
+    };
+  }, [matchHandlers.handleAutoAccept]);
+
   const persistMatchResults = useCallback((updated: MangaMatchResult[]) => {
     queueMicrotask(() => {
       try {
@@ -2379,6 +2409,7 @@ export function MatchingPage() {
                   onAcceptMatch={matchHandlers.handleAcceptMatch}
                   onRejectMatch={matchHandlers.handleRejectMatch}
                   onSelectAlternative={matchHandlers.handleSelectAlternative}
+                  onSelectRelatedEntry={matchHandlers.handleSelectRelatedEntry}
                   onResetToPending={matchHandlers.handleResetToPending}
                   searchQuery={searchQuery}
                   onSetMatchedToPending={handleSetAllMatchedToPending}
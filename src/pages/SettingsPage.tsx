@@ -39,10 +39,17 @@ import {
   saveMatchConfig,
   MatchConfig,
   storage,
+  resolveStorageKey,
   BackupScheduleConfig,
   DEFAULT_BACKUP_SCHEDULE_CONFIG,
 } from "../utils/storage";
-import { restoreBackup, importBackupFromFile } from "../utils/backup";
+import {
+  restoreBackupSelection,
+  importBackupFromFile,
+  type BackupData,
+  type RestoreSelection,
+} from "../utils/backup";
+import { BackupPassphraseError } from "../utils/backup-container";
 import { motion } from "framer-motion";
 import { truncateToastMessage } from "../utils/text-highlight";
 import { toast } from "sonner";
@@ -50,6 +57,8 @@ import { SettingsHero } from "../components/settings/SettingsHero";
 import { SettingsSearchBar } from "../components/settings/SettingsSearchBar";
 import { AccountCredentialsSection } from "../components/settings/AccountCredentialsSection";
 import { SettingsTabsContainer } from "../components/settings/SettingsTabsContainer";
+import RestoreBackupDialog from "../components/settings/RestoreBackupDialog";
+import BackupPassphraseDialog from "../components/settings/BackupPassphraseDialog";
 import { UpdateManagementSection } from "@/components/settings/UpdateManagementSection";
 import { openExternalSafe } from "@/helpers/external/open-external";
 
@@ -108,6 +117,7 @@ export function SettingsPage() {
     isIpcViewerEnabled,
     isEventLoggerEnabled,
     isConfidenceTestExporterEnabled,
+    isConfidenceCalibrationEnabled,
     isPerformanceMonitorEnabled,
   } = useDebugState();
 
@@ -120,6 +130,7 @@ export function SettingsPage() {
     setIsIpcViewerEnabled,
     setIsEventLoggerEnabled,
     setIsConfidenceTestExporterEnabled,
+    setIsConfidenceCalibrationEnabled,
     setIsPerformanceMonitorEnabled,
     recordEvent,
   } = useDebugActions();
@@ -178,6 +189,11 @@ export function SettingsPage() {
 
   // Backup management state
   const [isRestoringBackup, setIsRestoringBackup] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupData | null>(null);
+  const [lockedBackup, setLockedBackup] = useState<{
+    file: File;
+    isIncorrect: boolean;
+  } | null>(null);
   const [selectedBackupFile, setSelectedBackupFile] = useState<File | null>(
     null,
   );
@@ -317,6 +333,27 @@ export function SettingsPage() {
             "Define regex patterns to automatically skip or accept manga",
           keywords: ["advanced", "regex", "filter", "pattern", "custom"],
         },
+        {
+          id: "matching-auto-accept",
+          title: "Auto-Accept Policy",
+          description:
+            "Accept high-confidence matches automatically after matching",
+          keywords: [
+            "auto",
+            "accept",
+            "confidence",
+            "margin",
+            "review",
+            "mangadex",
+          ],
+        },
+        {
+          id: "matching-rule-packs",
+          title: "Rule Packs",
+          description:
+            "Export and import custom rules and blacklisted titles as shareable packs",
+          keywords: ["share", "import", "export", "rules", "blacklist", "pack"],
+        },
       ],
       sync: [
         {
@@ -347,6 +384,34 @@ export function SettingsPage() {
             "anilist",
             "kenmei",
             "source",
+            "volumes",
+            "notes",
+            "dates",
+            "started",
+            "merge",
+            "three-way",
+            "conflicts",
+            "baseline",
+            "verify",
+            "verification",
+            "drift",
+          ],
+        },
+        {
+          id: "sync-custom-lists",
+          title: "Custom list rules",
+          description:
+            "Add synced entries to AniList custom lists based on Kenmei status, format, country of origin, or genre",
+          keywords: [
+            "custom",
+            "lists",
+            "webtoon",
+            "hidden",
+            "status lists",
+            "rules",
+            "format",
+            "country",
+            "genre",
           ],
         },
         {
@@ -399,6 +464,39 @@ export function SettingsPage() {
             "history",
           ],
         },
+        {
+          id: "data-anilist-export",
+          title: "Export AniList library to Kenmei",
+          description:
+            "Download your AniList manga list as a Kenmei-compatible CSV or JSON file",
+          keywords: [
+            "export",
+            "kenmei",
+            "anilist",
+            "csv",
+            "json",
+            "reverse",
+            "library",
+            "download",
+          ],
+        },
+        {
+          id: "data-export-watcher",
+          title: "Watched export folder",
+          description:
+            "Check a folder for new Kenmei exports on a schedule, match new titles, and optionally auto-sync confident matches",
+          keywords: [
+            "watch",
+            "folder",
+            "schedule",
+            "automatic",
+            "background",
+            "kenmei",
+            "export",
+            "import",
+            "auto-sync",
+          ],
+        },
         {
           id: "data-debug",
           title: "Debug Tools",
@@ -1014,7 +1112,7 @@ export function SettingsPage() {
           "import_history",
           "import_stats",
         ],
-        shouldClearSyncCache: ["anilist_sync_history"],
+        shouldClearSyncCache: ["anilist_sync_history", "sync_baselines"],
         shouldClearSettingsCache: ["sync_config", "theme"],
         shouldClearOtherCache: ["cache_version"],
       };
@@ -1027,6 +1125,7 @@ export function SettingsPage() {
           },
           { patterns: ["IMPORT"], target: base.shouldClearImportCache },
           { patterns: ["CACHE"], target: base.shouldClearOtherCache },
+          { patterns: ["ACCOUNT"], target: base.shouldClearAuthCache },
         ];
 
         for (const [key, value] of Object.entries(STORAGE_KEYS)) {
@@ -1075,7 +1174,8 @@ export function SettingsPage() {
     };
 
     const clearStorageKeys = (keys: string[]) => {
-      for (const cacheKey of keys) {
+      for (const baseKey of keys) {
+        const cacheKey = resolveStorageKey(baseKey);
         try {
           localStorage.removeItem(cacheKey);
           if (
@@ -1194,7 +1294,7 @@ export function SettingsPage() {
 
   /**
    * Handles import of backup file from user selection.
-   * Validates and prompts for restore mode (Replace vs Merge) before restoring.
+   * Validates the file and opens the restore preview.
    * @source
    */
   const handleImportBackup = async () => {
@@ -1203,75 +1303,48 @@ export function SettingsPage() {
       return;
     }
 
+    console.info(
+      "[Settings] 📥 Importing backup file:",
+      selectedBackupFile.name,
+    );
+    await openRestorePreview(selectedBackupFile);
+  };
+
+  /**
+   * Handles restoring a backup file directly from the backup list.
+   * @param file - The backup file to restore from
+   * @source
+   */
+  const handleRestoreBackupFile = async (file: File) => {
+    console.info("[Settings] 📥 Restoring backup from list file:", file.name);
+    await openRestorePreview(file);
+  };
+
+  /**
+   * Imports and validates a backup file, then shows what restoring it would change.
+   * Encrypted backups first ask for their passphrase.
+   * @param file - The backup file to preview
+   * @param passphrase - Passphrase for an encrypted backup
+   * @source
+   */
+  const openRestorePreview = async (file: File, passphrase?: string) => {
     try {
-      console.info(
-        "[Settings] 📥 Importing backup file:",
-        selectedBackupFile.name,
-      );
       setIsRestoringBackup(true);
       setBackupValidationError(null);
 
-      // Import and validate backup
-      const backupData = await importBackupFromFile(selectedBackupFile);
-
-      // Show confirmation dialog with details
-      const shouldRestore = globalThis.confirm(
-        `Restore backup from ${new Date(backupData.metadata.timestamp).toLocaleString()}?\n\n` +
-          `App Version: ${backupData.metadata.appVersion}\n` +
-          `This will overwrite your current data. Create a backup first if needed.`,
-      );
-
-      if (!shouldRestore) {
-        console.info("[Settings] 🚫 Backup restore cancelled by user");
-        setIsRestoringBackup(false);
-        return;
-      }
-
-      // Show merge vs replace dialog
-      const useMergeMode = globalThis.confirm(
-        "How would you like to restore match results?\n\n" +
-          "🔄 MERGE (OK): Combine existing matches with backup matches\n" +
-          "   • Preserves your current match selections\n" +
-          "   • Only MATCH_RESULTS are merged, other data is replaced\n\n" +
-          "🔁 REPLACE (Cancel): Completely overwrite all data\n" +
-          "   • Discards current data entirely\n" +
-          "   • Fully reverts to backup state\n\n" +
-          "Choose MERGE (OK) to preserve existing matches, or REPLACE (Cancel) to completely restore the backup.",
-      );
-
-      console.info(
-        "[Settings] 📋 Restore mode selected:",
-        useMergeMode ? "Merge" : "Replace",
-      );
-
-      // Restore backup with selected mode
-      const result = await restoreBackup(backupData, { merge: useMergeMode });
-
-      if (result.success) {
+      const backupData = await importBackupFromFile(file, passphrase);
+      setLockedBackup(null);
+      setPendingRestore(backupData);
+    } catch (err) {
+      if (err instanceof BackupPassphraseError) {
         console.info(
-          "[Settings] ✅ Backup restored successfully (mode:",
-          useMergeMode ? "Merge" : "Replace",
-          ")",
+          `[Settings] 🔒 Backup is encrypted (${err.reason} passphrase)`,
         );
-        recordEvent({
-          type: "backup.restored",
-          message: `Application data restored from backup (${useMergeMode ? "Merge" : "Replace"} mode)`,
-          level: "info",
-          metadata: { mergeMode: useMergeMode },
-        });
-
-        // Clear file selection
-        setSelectedBackupFile(null);
-
-        // Reload page to refresh all data
-        setTimeout(() => {
-          globalThis.location.reload();
-        }, 1000);
-      } else {
-        throw new Error(result.errors.join("; "));
+        setLockedBackup({ file, isIncorrect: err.reason === "incorrect" });
+        return;
       }
-    } catch (err) {
-      console.error("[Settings] ❌ Failed to restore backup:", err);
+      setLockedBackup(null);
+      console.error("[Settings] ❌ Failed to read backup:", err);
       const message =
         err instanceof Error ? err.message : "Failed to restore backup";
       setBackupValidationError(message);
@@ -1286,73 +1359,55 @@ export function SettingsPage() {
   };
 
   /**
-   * Handles restoring a backup file directly from the backup list.
-   * @param file - The backup file to restore from
+   * Restores the keys and manga chosen in the restore preview.
+   * A safety backup of the current data is taken first.
+   * @param selection - Keys and match results to restore
    * @source
    */
-  const handleRestoreBackupFile = async (file: File) => {
+  const handleConfirmRestore = async (selection: RestoreSelection) => {
+    if (!pendingRestore) return;
+
     try {
-      console.info("[Settings] 📥 Restoring backup from list file:", file.name);
       setIsRestoringBackup(true);
       setBackupValidationError(null);
 
-      // Import and validate backup
-      const backupData = await importBackupFromFile(file);
-
-      // Show merge vs replace dialog
-      const useMergeMode = globalThis.confirm(
-        "How would you like to restore match results?\n\n" +
-          "🔄 MERGE (OK): Combine existing matches with backup matches\n" +
-          "   • Preserves your current match selections\n" +
-          "   • Only MATCH_RESULTS are merged, other data is replaced\n\n" +
-          "🔁 REPLACE (Cancel): Completely overwrite all data\n" +
-          "   • Discards current data entirely\n" +
-          "   • Fully reverts to backup state\n\n" +
-          "Choose MERGE (OK) to preserve existing matches, or REPLACE (Cancel) to completely restore the backup.",
-      );
+      const result = await restoreBackupSelection(pendingRestore, selection);
+      if (!result.success) {
+        throw new Error(result.errors.join("; "));
+      }
 
       console.info(
-        "[Settings] 📋 Restore mode selected:",
-        useMergeMode ? "Merge" : "Replace",
+        `[Settings] ✅ Backup restored successfully (${selection.keys.length} keys, safety backup ${result.safetyBackupId})`,
       );
+      recordEvent({
+        type: "backup.restored",
+        message: `Application data restored from backup (${selection.keys.length} keys)`,
+        level: "info",
+        metadata: {
+          keys: selection.keys,
+          matchResultCount: selection.matchResultIds?.length,
+          safetyBackupId: result.safetyBackupId,
+        },
+      });
 
-      // Restore backup with selected mode
-      const result = await restoreBackup(backupData, { merge: useMergeMode });
-
-      if (result.success) {
-        console.info(
-          "[Settings] ✅ Backup restored successfully (mode:",
-          useMergeMode ? "Merge" : "Replace",
-          ")",
-        );
-        recordEvent({
-          type: "backup.restored",
-          message: `Application data restored from backup (${useMergeMode ? "Merge" : "Replace"} mode)`,
-          level: "info",
-          metadata: { mergeMode: useMergeMode },
-        });
-
-        // Clear file selection
-        setSelectedBackupFile(null);
+      // Clear file selection
+      setSelectedBackupFile(null);
 
-        // Reload page to refresh all data
-        setTimeout(() => {
-          globalThis.location.reload();
-        }, 1000);
-      } else {
-        throw new Error(result.errors.join("; "));
-      }
+      // Reload page to refresh all data
+      setTimeout(() => {
+        globalThis.location.reload();
+      }, 1000);
     } catch (err) {
-      console.error("[Settings] ❌ Failed to restore backup from list:", err);
+      console.error("[Settings] ❌ Failed to restore backup:", err);
       const message =
         err instanceof Error ? err.message : "Failed to restore backup";
       setBackupValidationError(message);
+      setPendingRestore(null);
       recordEvent({
         type: "backup.error",
         message: `Backup restore failed: ${message}`,
         level: "error",
       });
-    } finally {
       setIsRestoringBackup(false);
     }
   };
@@ -1733,6 +1788,7 @@ export function SettingsPage() {
         isIpcViewerEnabled={isIpcViewerEnabled}
         isEventLoggerEnabled={isEventLoggerEnabled}
         isConfidenceTestExporterEnabled={isConfidenceTestExporterEnabled}
+        isConfidenceCalibrationEnabled={isConfidenceCalibrationEnabled}
         isPerformanceMonitorEnabled={isPerformanceMonitorEnabled}
         onMatchConfigChange={saveMatchConfigWithEvent}
         onSyncConfigChange={saveSyncConfigWithEvent}
@@ -1757,6 +1813,7 @@ export function SettingsPage() {
         onIpcViewerChange={setIsIpcViewerEnabled}
         onEventLoggerChange={setIsEventLoggerEnabled}
         onConfidenceTestExporterChange={setIsConfidenceTestExporterEnabled}
+        onConfidenceCalibrationChange={setIsConfidenceCalibrationEnabled}
         onPerformanceMonitorChange={setIsPerformanceMonitorEnabled}
         collapsedSections={collapsedSections}
         onToggleSection={handleToggleSection}
@@ -1778,6 +1835,24 @@ export function SettingsPage() {
         collapsedSections={collapsedSections}
         onToggleSection={handleToggleSection}
       />
+      <RestoreBackupDialog
+        backupData={pendingRestore}
+        isRestoring={isRestoringBackup}
+        onCancel={() => {
+          console.info("[Settings] 🚫 Backup restore cancelled by user");
+          setPendingRestore(null);
+        }}
+        onConfirm={handleConfirmRestore}
+      />
+      <BackupPassphraseDialog
+        fileName={lockedBackup?.file.name ?? null}
+        isIncorrect={lockedBackup?.isIncorrect ?? false}
+        isUnlocking={isRestoringBackup}
+        onCancel={() => setLockedBackup(null)}
+        onSubmit={(passphrase) => {
+          if (lockedBackup) openRestorePreview(lockedBackup.file, passphrase);
+        }}
+      />
     </motion.div>
   );
 }
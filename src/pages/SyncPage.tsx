@@ -25,6 +25,13 @@ import {
   MAX_RETRY_ATTEMPTS,
 } from "../utils/storage";
 import { getUserMangaList } from "../api/anilist/client";
+import { getSyncBaselines } from "../api/anilist/sync-baseline";
+import {
+  areScoresEquivalent,
+  formatAniListScore,
+  kenmeiScoreToAniList,
+  resolveScoreFormat,
+} from "../api/anilist/score-format";
 import SyncManager from "../components/sync/SyncManager";
 import SyncResultsView from "../components/sync/SyncResultsView";
 import { Button } from "../components/ui/Button";
@@ -66,6 +73,7 @@ import {
 import {
   getEffectiveStatus,
   calculateSyncChanges,
+  ListEntryDetailChanges,
 } from "../components/sync/sync-utils";
 import {
   handleLibraryRefresh as handleLibraryRefreshUtil,
@@ -107,6 +115,7 @@ export function SyncPage() {
   const navigate = useNavigate();
   const { authState, isOnline } = useAuthState();
   const token = authState.accessToken || "";
+  const scoreFormat = resolveScoreFormat(authState.scoreFormat);
   const [state, actions] = useSynchronization();
   const {
     failedOperations,
@@ -540,8 +549,14 @@ export function SyncPage() {
 
   // Apply filters to manga matches
   const filteredMangaMatches = useMemo(() => {
-    return filterMangaMatches(mangaMatches, filters, userLibrary, syncConfig);
-  }, [mangaMatches, filters, userLibrary, syncConfig]);
+    return filterMangaMatches(
+      mangaMatches,
+      filters,
+      userLibrary,
+      syncConfig,
+      scoreFormat,
+    );
+  }, [mangaMatches, filters, userLibrary, syncConfig, scoreFormat]);
 
   // Apply sorting to filtered manga matches
   const sortedMangaMatches = useMemo(() => {
@@ -550,18 +565,31 @@ export function SyncPage() {
       sortOption,
       userLibrary,
       syncConfig,
+      scoreFormat,
     );
-  }, [filteredMangaMatches, sortOption, userLibrary, syncConfig]);
+  }, [filteredMangaMatches, sortOption, userLibrary, syncConfig, scoreFormat]);
+
+  // Re-read baselines whenever the library is (re)loaded; every sync rewrites them
+  const syncBaselines = useMemo(() => getSyncBaselines(), [userLibrary]);
 
   // Compute all entries to sync (unfiltered, all with changes)
   const allEntriesToSync = useMemo(() => {
-    return prepareAllEntriesToSync(mangaMatches, userLibrary, syncConfig);
-  }, [mangaMatches, userLibrary, syncConfig]);
+    return prepareAllEntriesToSync(
+      mangaMatches,
+      userLibrary,
+      syncConfig,
+      scoreFormat,
+      syncBaselines,
+    );
+  }, [mangaMatches, userLibrary, syncConfig, scoreFormat, syncBaselines]);
 
   // Only sync entries with actual changes
   const entriesWithChanges = useMemo(
-    () => allEntriesToSync.filter((entry) => hasChanges(entry, syncConfig)),
-    [allEntriesToSync, syncConfig],
+    () =>
+      allEntriesToSync.filter((entry) =>
+        hasChanges(entry, syncConfig, scoreFormat),
+      ),
+    [allEntriesToSync, syncConfig, scoreFormat],
   );
 
   const totalMatchedManga = useMemo(
@@ -1067,16 +1095,17 @@ export function SyncPage() {
     if (!scoreWillChange) return null;
 
     const fromScore = userEntry?.score || 0;
-    const toScore = kenmei.score || 0;
+    const toScore = kenmeiScoreToAniList(kenmei.score, scoreFormat);
 
-    if (fromScore === toScore) return null;
+    if (areScoresEquivalent(fromScore, toScore, scoreFormat)) return null;
 
     return (
       <Badge
         variant="outline"
         className="border-amber-400/70 bg-amber-50/60 px-2 py-0 text-[10px] text-amber-600 shadow-sm dark:border-amber-500/40 dark:bg-amber-900/30 dark:text-amber-300"
       >
-        {fromScore} → {toScore}/10
+        {formatAniListScore(fromScore, scoreFormat)} →{" "}
+        {formatAniListScore(toScore, scoreFormat)}
       </Badge>
     );
   };
@@ -1203,9 +1232,12 @@ export function SyncPage() {
   ) => {
     let scoreDisplay: string;
     if (scoreWillChange) {
-      scoreDisplay = kenmei.score ? `${kenmei.score}/10` : "None";
+      scoreDisplay = formatAniListScore(
+        kenmeiScoreToAniList(kenmei.score, scoreFormat),
+        scoreFormat,
+      );
     } else {
-      scoreDisplay = userEntry?.score ? `${userEntry.score}/10` : "None";
+      scoreDisplay = formatAniListScore(userEntry?.score, scoreFormat);
     }
 
     return (
@@ -1270,10 +1302,38 @@ export function SyncPage() {
   };
 
   /**
-   * Renders change indicator badges for status, progress, and score updates.
+   * Renders compact badges for volume, notes, and reading date updates.
+   * @param detailChanges - Which extended list entry fields will change.
+   * @returns Array of JSX badge elements (empty if nothing changes).
+   * @source
+   */
+  const renderDetailBadges = (detailChanges: ListEntryDetailChanges) => {
+    const labels = [
+      detailChanges.volumesWillChange && "Volumes",
+      detailChanges.notesWillChange && "Notes",
+      (detailChanges.startedAtWillChange ||
+        detailChanges.completedAtWillChange) &&
+        "Dates",
+      detailChanges.customListsWillChange && "Lists",
+    ].filter((label): label is string => Boolean(label));
+
+    return labels.map((label) => (
+      <Badge
+        key={label}
+        variant="outline"
+        className="border-teal-400/70 bg-teal-50/60 px-1.5 py-0 text-xs text-teal-600 shadow-sm dark:border-teal-500/50 dark:bg-teal-900/30 dark:text-teal-300"
+      >
+        {label}
+      </Badge>
+    ));
+  };
+
+  /**
+   * Renders change indicator badges for status, progress, score, and detail updates.
    * @param statusWillChange - Whether status will be updated.
    * @param progressWillChange - Whether progress will be updated.
    * @param scoreWillChange - Whether score will be updated.
+   * @param detailChanges - Which volume, notes, and date fields will be updated.
    * @returns JSX element with change badges or null if no changes.
    * @source
    */
@@ -1281,6 +1341,7 @@ export function SyncPage() {
     statusWillChange: boolean,
     progressWillChange: boolean,
     scoreWillChange: boolean,
+    detailChanges: ListEntryDetailChanges,
     userEntry: UserMediaEntry | undefined,
     syncConfig: SyncConfig,
   ) => {
@@ -1310,6 +1371,7 @@ export function SyncPage() {
             Score
           </Badge>
         )}
+        {renderDetailBadges(detailChanges)}
         {userEntry
           ? syncConfig.setPrivate &&
             !userEntry.private && (
@@ -1376,7 +1438,7 @@ export function SyncPage() {
           <span
             className={`text-xs font-medium ${scoreWillChange ? "text-muted-foreground line-through" : ""}`}
           >
-            {userEntry?.score ? `${userEntry.score}/10` : "None"}
+            {formatAniListScore(userEntry?.score, scoreFormat)}
           </span>
         </div>
         <div className="flex items-center justify-between">
@@ -1695,6 +1757,7 @@ export function SyncPage() {
                   userLibrary={userLibrary}
                   mangaMatches={mangaMatches}
                   syncConfig={syncConfig}
+                  scoreFormat={scoreFormat}
                 />
 
                 <ViewControls
@@ -1856,10 +1919,28 @@ export function SyncPage() {
       statusWillChange,
       progressWillChange,
       scoreWillChange,
+      volumesWillChange,
+      notesWillChange,
+      startedAtWillChange,
+      completedAtWillChange,
+      customListsWillChange,
       isNewEntry,
       isCompleted,
       changeCount,
-    } = calculateSyncChanges(kenmei, userEntry, syncConfig);
+    } = calculateSyncChanges(
+      kenmei,
+      userEntry,
+      syncConfig,
+      scoreFormat,
+      anilist,
+    );
+    const detailChanges: ListEntryDetailChanges = {
+      volumesWillChange,
+      notesWillChange,
+      startedAtWillChange,
+      completedAtWillChange,
+      customListsWillChange,
+    };
 
     return (
       <motion.div
@@ -1885,6 +1966,7 @@ export function SyncPage() {
                       statusWillChange,
                       progressWillChange,
                       scoreWillChange,
+                      detailChanges,
                       userEntry,
                       syncConfig,
                     )
@@ -1984,10 +2066,21 @@ export function SyncPage() {
       statusWillChange,
       progressWillChange,
       scoreWillChange,
+      volumesWillChange,
+      notesWillChange,
+      startedAtWillChange,
+      completedAtWillChange,
+      customListsWillChange,
       isNewEntry,
       isCompleted,
       changeCount,
-    } = calculateSyncChanges(kenmei, userEntry, syncConfig);
+    } = calculateSyncChanges(
+      kenmei,
+      userEntry,
+      syncConfig,
+      scoreFormat,
+      anilist,
+    );
 
     const baseRowClasses =
       "group flex items-center rounded-xl px-3 py-2 transition-colors duration-200";
@@ -2077,6 +2170,13 @@ export function SyncPage() {
                 )}
                 {renderScoreBadge(scoreWillChange, userEntry, kenmei)}
                 {renderPrivacyBadge(userEntry, syncConfig)}
+                {renderDetailBadges({
+                  volumesWillChange,
+                  notesWillChange,
+                  startedAtWillChange,
+                  completedAtWillChange,
+                  customListsWillChange,
+                })}
                 {changeCount === 0 && (
                   <span className="px-1 text-[10px] text-slate-500 dark:text-slate-400">
                     No Changes
@@ -2216,6 +2316,7 @@ export function SyncPage() {
           displayOrderMediaIds={entriesWithChanges
             .filter(Boolean)
             .map((e) => e.mediaId)}
+          scoreFormat={scoreFormat}
         />
       </motion.div>
     );
@@ -2238,6 +2339,18 @@ export function SyncPage() {
               onExportErrors={() =>
                 state.report && exportSyncErrorLog(state.report)
               }
+              onRequeueDrifted={() => actions.requeueDriftedEntries()}
+              onRollback={() => {
+                if (
+                  globalThis.confirm(
+                    "Roll back this sync? Every entry it touched will be restored to its pre-sync AniList values, and entries it added will be deleted.",
+                  )
+                ) {
+                  void actions.rollbackSync();
+                }
+              }}
+              isRollingBack={actions.isRollingBack}
+              rollbackProgress={actions.rollbackProgress}
             />
           ) : (
             <div className="flex min-h-[300px] flex-col items-center justify-center">
@@ -7,6 +7,7 @@
  */
 import * as Sentry from "@sentry/electron/renderer";
 import { initializeStorage } from "@/utils/storage";
+import { applyStoredConfidenceCalibration } from "@/api/matching/scoring/confidence-calibration";
 import { installConsoleInterceptor } from "@/utils/logging";
 
 /**
@@ -84,6 +85,7 @@ window.addEventListener("unload", () => {
  */
 try {
   await initializeStorage();
+  applyStoredConfidenceCalibration();
   console.info("[Renderer] ✅ Storage initialized successfully");
 } catch (error) {
   console.error("[Renderer] ❌ Storage initialization failed:", error);
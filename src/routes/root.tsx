@@ -15,6 +15,7 @@ import {
 import { ShortcutsPanel } from "../components/ShortcutsPanel";
 import { SHORTCUTS, matchesShortcut } from "../utils/shortcuts";
 import { useDebugActions } from "../contexts/debug-context";
+import { useExportWatcher } from "../hooks/use-export-watcher";
 import {
   saveSyncConfig,
   getSyncConfig,
@@ -44,6 +45,9 @@ export function Root() {
   const location = useLocation();
   const { toggleDebug, setDebugEnabled, openDebugMenu } = useDebugActions();
 
+  // Process Kenmei exports picked up from the watched folder on any page
+  useExportWatcher();
+
   const handleToggleShortcutsPanel = useCallback(() => {
     setIsShortcutsPanelOpen((prev) => !prev);
   }, []);
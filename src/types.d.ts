@@ -31,6 +31,7 @@ import type { AniListRequest } from "./helpers/ipc/api/api-context";
 import type { ShellOperationResult } from "./helpers/ipc/types";
 import type { MangaSource } from "./api/manga-sources/types";
 import type { ElectronBackupApi } from "./helpers/ipc/backup/backup-context";
+import type { ElectronExportWatcherApi } from "./helpers/ipc/export-watcher/export-watcher-context";
 import type { ElectronIpcDebugBridge } from "./helpers/ipc/debug/debug-context";
 
 /**
@@ -121,6 +122,14 @@ interface ElectronClipboard {
  */
 type ElectronBackup = ElectronBackupApi;
 
+/**
+ * Watched export folder interface for the renderer process.
+ * Type-safe reference to electronExportWatcher context exposed by preload script.
+ * @see export-watcher-context.ts for implementation
+ * @source
+ */
+type ElectronExportWatcher = ElectronExportWatcherApi;
+
 /**
  * Auto-updater interface for application updates.
  * Provides methods for checking, downloading, and installing updates.
@@ -357,7 +366,7 @@ declare global {
           error?: {
             message: string;
             status?: number;
-            errors?: Array<{ message: string }>;
+            errors?: Array<{ message: string; path?: Array<string | number> }>;
           };
         }>;
 
@@ -571,6 +580,9 @@ declare global {
     /** Backup and restore operations API. @source */
     electronBackup: ElectronBackup;
 
+    /** Watched Kenmei export folder API. @source */
+    electronExportWatcher: ElectronExportWatcher;
+
     /** Shared manga matching process state. @source */
     matchingProcessState?: MatchingProcessState;
 
@@ -616,6 +628,10 @@ declare global {
     // eslint-disable-next-line no-var
     var electronBackup: Window["electronBackup"];
 
+    /** Export watcher API (global access). @source */
+    // eslint-disable-next-line no-var
+    var electronExportWatcher: Window["electronExportWatcher"];
+
     /** Shared manga matching process state (global access). @source */
     // eslint-disable-next-line no-var
     var matchingProcessState: MatchingProcessState | undefined;
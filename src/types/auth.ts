@@ -4,6 +4,9 @@
  * @description TypeScript types and interfaces for authentication state, credentials, and context in the application.
  */
 
+import type { ScoreFormat } from "../api/anilist/types";
+import type { TokenExpiryStatus } from "../utils/token-lifecycle";
+
 /**
  * Represents the authentication state for a user session.
  *
@@ -14,6 +17,7 @@
  * @property accessToken - The OAuth access token.
  * @property expiresAt - The expiration timestamp for the access token.
  * @property credentialSource - The source of the credentials (default or custom).
+ * @property scoreFormat - The score format configured on the user's AniList list.
  * @source
  */
 export interface AuthState {
@@ -24,6 +28,18 @@ export interface AuthState {
   accessToken?: string;
   expiresAt?: number;
   credentialSource: "default" | "custom";
+  scoreFormat?: ScoreFormat;
+}
+
+/**
+ * A signed-in AniList account saved for switching. Library, match and sync
+ * data for each account is stored in its own storage namespace.
+ *
+ * @property userId - The AniList user ID (also the storage namespace).
+ * @source
+ */
+export interface AuthAccount extends AuthState {
+  userId: number;
 }
 
 /**
@@ -58,6 +74,9 @@ export interface ViewerResponse {
         medium?: string;
         large?: string;
       };
+      mediaListOptions?: {
+        scoreFormat?: ScoreFormat;
+      };
     };
   };
   errors?: Array<{
@@ -75,10 +94,16 @@ export interface ViewerResponse {
  * @property customCredentials - Current custom credentials, if any.
  * @property isOnline - Current network connectivity status (updated via Navigator Online API and window online/offline events).
  * @property wasOffline - Whether the app was offline during this session (useful for retry logic after reconnection).
+ * @property accounts - Saved AniList accounts, including the active one.
+ * @property activeAccountId - User ID of the active account, or null if signed out.
+ * @property tokenExpiryStatus - Whether the access token is valid, close to expiry, or expired.
  * @source
  */
 export interface AuthStateContextValue {
   authState: AuthState;
+  accounts: AuthAccount[];
+  activeAccountId: number | null;
+  tokenExpiryStatus: TokenExpiryStatus;
   isLoading: boolean;
   error: string | null;
   statusMessage: string | null;
@@ -118,6 +143,10 @@ export interface OfflineQueueTask {
  * @property setCredentialSource - Set the credential source.
  * @property updateCustomCredentials - Update custom credentials.
  * @property enqueueWhenOnline - Queue a task for execution when online (with deduplication).
+ * @property addAccount - Sign in to another account, keeping the current one saved.
+ * @property switchAccount - Make a saved account active.
+ * @property removeAccount - Forget a saved account (its stored data is kept).
+ * @property reauthenticate - Run a fresh OAuth login; resolves with the new access token once it is applied.
  * @source
  */
 export interface AuthActionsContextValue {
@@ -132,6 +161,10 @@ export interface AuthActionsContextValue {
     redirectUri: string,
   ) => void;
   enqueueWhenOnline: (taskId: string, fn: () => Promise<void>) => void;
+  addAccount: (credentials: ApiCredentials) => Promise<void>;
+  switchAccount: (userId: number) => void;
+  removeAccount: (userId: number) => void;
+  reauthenticate: () => Promise<string>;
 }
 
 /**
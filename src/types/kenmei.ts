@@ -18,6 +18,9 @@
  * @property lastReadAt - The last read timestamp.
  * @property createdAt - The creation timestamp.
  * @property updatedAt - The last updated timestamp.
+ * @property anilistId - AniList ID from a tracker binding in the source export.
+ * @property categories - Library categories the manga belongs to.
+ * @property malId - MyAnimeList ID from the source export.
  * @source
  */
 export interface KenmeiMangaItem {
@@ -32,6 +35,9 @@ export interface KenmeiMangaItem {
   lastReadAt?: string;
   createdAt?: string;
   updatedAt?: string;
+  anilistId?: number;
+  categories?: string[];
+  malId?: number;
 }
 
 /**
@@ -0,0 +1,390 @@
+/**
+ * @packageDocumentation
+ * @module backup-container
+ * @description Gzip-compressed, optionally passphrase-encrypted container for backup files. Metadata stays readable (and is authenticated when the payload is encrypted); only the data payload is packed. Uses Web Crypto and CompressionStream so both the main and renderer processes can read and write containers.
+ */
+
+import type { BackupData, BackupMetadata } from "@/utils/backup";
+
+/** Format marker identifying a backup container file. @source */
+export const BACKUP_CONTAINER_FORMAT = "kenmei-backup-container";
+
+/** Current container layout version. @source */
+export const BACKUP_CONTAINER_VERSION = 1;
+
+/** PBKDF2 iterations used to derive the encryption key from a passphrase. @internal */
+const KEY_DERIVATION_ITERATIONS = 310_000;
+
+/**
+ * PBKDF2 iteration range accepted when opening a container, so a crafted file cannot stall key derivation.
+ * @internal
+ */
+const KEY_DERIVATION_ITERATION_RANGE = { min: 100_000, max: 10_000_000 };
+
+/** Key derivation salt length in bytes; shorter salts are rejected when opening a container. @internal */
+const SALT_BYTES = 16;
+
+/** AES-GCM initialization vector length in bytes. @internal */
+const IV_BYTES = 12;
+
+/**
+ * Encryption parameters stored alongside an encrypted payload.
+ * @source
+ */
+export interface BackupEncryptionParams {
+  algorithm: "AES-GCM";
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  /** Base64-encoded key derivation salt */
+  salt: string;
+  /** Base64-encoded AES-GCM initialization vector */
+  iv: string;
+}
+
+/**
+ * Backup file wrapping a compressed, optionally encrypted data payload.
+ * @source
+ */
+export interface BackupContainer {
+  format: typeof BACKUP_CONTAINER_FORMAT;
+  containerVersion: number;
+  /** Backup metadata, left readable for backup lists and history */
+  metadata: BackupMetadata;
+  compression: "gzip";
+  /** Encryption parameters, or null when the payload is only compressed */
+  encryption: BackupEncryptionParams | null;
+  /** Base64-encoded payload holding the backup's `data` record */
+  payload: string;
+}
+
+/**
+ * Error thrown when an encrypted backup is opened without a passphrase or with the wrong one.
+ * @source
+ */
+export class BackupPassphraseError extends Error {
+  constructor(
+    public readonly reason: "missing" | "incorrect",
+    message: string = reason === "missing"
+      ? "This backup is encrypted. Enter its passphrase to restore it."
+      : "Incorrect passphrase for this encrypted backup.",
+  ) {
+    super(message);
+    this.name = "BackupPassphraseError";
+    Object.setPrototypeOf(this, BackupPassphraseError.prototype);
+  }
+}
+
+/**
+ * Checks whether a parsed backup file is a container rather than plain backup data.
+ * @param value - Parsed backup file contents.
+ * @returns True if the value is a backup container.
+ * @source
+ */
+export function isBackupContainer(value: unknown): value is BackupContainer {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { format?: unknown }).format === BACKUP_CONTAINER_FORMAT
+  );
+}
+
+/** @internal */
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCodePoint(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/** @internal */
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.codePointAt(i)!;
+  }
+  return bytes;
+}
+
+/**
+ * Creates the error reported for a container whose fields or payload cannot be read.
+ * @internal
+ */
+function corruptContainerError(detail: string): Error {
+  return new Error(`Backup container is corrupt: ${detail}`);
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal values always give the same bytes.
+ * @internal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const fields = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Builds the AES-GCM additional data that binds the readable metadata and container version to the ciphertext,
+ * so editing either makes decryption fail.
+ * @internal
+ */
+function getAdditionalData(
+  containerVersion: number,
+  metadata: BackupMetadata,
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    canonicalJson({ containerVersion, metadata }),
+  );
+}
+
+/**
+ * Decodes a base64 container field.
+ * @internal
+ */
+function decodeContainerField(
+  value: unknown,
+  field: string,
+): Uint8Array<ArrayBuffer> {
+  if (typeof value !== "string") {
+    throw corruptContainerError(`${field} is missing`);
+  }
+  try {
+    return fromBase64(value);
+  } catch {
+    throw corruptContainerError(`${field} is not valid base64`);
+  }
+}
+
+/**
+ * Checks a container's encryption parameters and decodes its salt and IV.
+ * @internal
+ */
+function readEncryptionParams(encryption: unknown): {
+  salt: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  iterations: number;
+} {
+  if (typeof encryption !== "object" || encryption === null) {
+    throw corruptContainerError("encryption parameters are malformed");
+  }
+  const { algorithm, kdf, iterations, salt, iv } =
+    encryption as Partial<BackupEncryptionParams>;
+
+  if (algorithm !== "AES-GCM" || kdf !== "PBKDF2-SHA256") {
+    throw new Error(
+      `Unsupported backup encryption: ${String(algorithm)} with ${String(kdf)}`,
+    );
+  }
+  const { min, max } = KEY_DERIVATION_ITERATION_RANGE;
+  if (
+    typeof iterations !== "number" ||
+    !Number.isInteger(iterations) ||
+    iterations < min ||
+    iterations > max
+  ) {
+    throw corruptContainerError(
+      `key derivation iteration count ${String(iterations)} is outside the supported range (${min}-${max})`,
+    );
+  }
+
+  const saltBytes = decodeContainerField(salt, "salt");
+  if (saltBytes.length < SALT_BYTES) {
+    throw corruptContainerError("salt is too short");
+  }
+  const ivBytes = decodeContainerField(iv, "IV");
+  if (ivBytes.length !== IV_BYTES) {
+    throw corruptContainerError(`IV must be ${IV_BYTES} bytes`);
+  }
+
+  return { salt: saltBytes, iv: ivBytes, iterations };
+}
+
+/**
+ * Pipes bytes through a compression or decompression stream.
+ * @internal
+ */
+async function transformBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase.
+ * @internal
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Packs backup data into a compressed container, encrypting the payload when a passphrase is given.
+ * @param backupData - Backup data to pack.
+ * @param passphrase - Optional passphrase to encrypt the payload with.
+ * @returns Backup container ready to be serialized.
+ * @source
+ */
+export async function packBackupContainer(
+  backupData: BackupData,
+  passphrase?: string,
+): Promise<BackupContainer> {
+  const compressed = await transformBytes(
+    new TextEncoder().encode(JSON.stringify(backupData.data)),
+    new CompressionStream("gzip"),
+  );
+
+  if (!passphrase) {
+    return {
+      format: BACKUP_CONTAINER_FORMAT,
+      containerVersion: BACKUP_CONTAINER_VERSION,
+      metadata: backupData.metadata,
+      compression: "gzip",
+      encryption: null,
+      payload: toBase64(compressed),
+    };
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, KEY_DERIVATION_ITERATIONS);
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: getAdditionalData(
+          BACKUP_CONTAINER_VERSION,
+          backupData.metadata,
+        ),
+      },
+      key,
+      compressed,
+    ),
+  );
+
+  return {
+    format: BACKUP_CONTAINER_FORMAT,
+    containerVersion: BACKUP_CONTAINER_VERSION,
+    metadata: backupData.metadata,
+    compression: "gzip",
+    encryption: {
+      algorithm: "AES-GCM",
+      kdf: "PBKDF2-SHA256",
+      iterations: KEY_DERIVATION_ITERATIONS,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+    },
+    payload: toBase64(encrypted),
+  };
+}
+
+/**
+ * Unpacks a backup container into backup data.
+ * @param container - Parsed backup container.
+ * @param passphrase - Passphrase for encrypted containers.
+ * @returns The backup data stored in the container.
+ * @throws {BackupPassphraseError} If the container is encrypted and the passphrase is missing or wrong.
+ * @throws {Error} If the container version or encryption is unsupported, or its parameters or payload are corrupt.
+ * @source
+ */
+export async function unpackBackupContainer(
+  container: BackupContainer,
+  passphrase?: string,
+): Promise<BackupData> {
+  if (container.containerVersion > BACKUP_CONTAINER_VERSION) {
+    throw new Error(
+      `Backup container version ${container.containerVersion} is newer than supported version ${BACKUP_CONTAINER_VERSION}`,
+    );
+  }
+
+  if (container.compression !== "gzip") {
+    throw new Error(
+      `Unsupported backup compression: ${String(container.compression)}`,
+    );
+  }
+
+  let compressed = decodeContainerField(container.payload, "payload");
+
+  if (container.encryption) {
+    const { salt, iv, iterations } = readEncryptionParams(container.encryption);
+    if (!passphrase) throw new BackupPassphraseError("missing");
+
+    let key: CryptoKey;
+    try {
+      key = await deriveKey(passphrase, salt, iterations);
+    } catch (error) {
+      console.error("[BackupContainer] ❌ Key derivation failed:", error);
+      throw corruptContainerError("the encryption key could not be derived");
+    }
+    try {
+      compressed = new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv,
+            additionalData: getAdditionalData(
+              container.containerVersion,
+              container.metadata,
+            ),
+          },
+          key,
+          compressed,
+        ),
+      );
+    } catch {
+      // AES-GCM authentication fails on a wrong key as well as on tampered data or metadata
+      throw new BackupPassphraseError("incorrect");
+    }
+  }
+
+  let data: unknown;
+  try {
+    const json = new TextDecoder().decode(
+      await transformBytes(compressed, new DecompressionStream("gzip")),
+    );
+    data = JSON.parse(json);
+  } catch {
+    throw corruptContainerError("the payload could not be decompressed");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw corruptContainerError("the payload is not a backup data record");
+  }
+
+  return {
+    metadata: container.metadata,
+    data: data as Record<string, string>,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @packageDocumentation
+ * @module backup-migrations
+ * @description Migration steps that upgrade stored values in older backups to the shapes the current app stores. The backup key registry attaches these steps to their keys; `migrateBackup` in the backup utilities runs them in version order.
+ */
+
+import {
+  migrateCustomListRule,
+  migrateCustomRule,
+  type CustomRule,
+  type CustomListRule,
+} from "@/utils/storage";
+
+/**
+ * One upgrade step for a stored value, from a version to the next.
+ * @source
+ */
+export interface BackupKeyMigration {
+  /** Version this step upgrades from; the result is `fromVersion + 1` */
+  fromVersion: number;
+  /** Short description recorded when the step runs */
+  description: string;
+  /** Returns the stored value in the next version's shape */
+  migrate: (value: string) => string;
+}
+
+/**
+ * Wraps an object transform as a stored-value migration, leaving values that are
+ * unparseable or not objects untouched.
+ * @internal
+ */
+function migrateJsonObject(
+  update: (value: Record<string, unknown>) => Record<string, unknown>,
+): (value: string) => string {
+  return (value) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return value;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return value;
+    }
+    return JSON.stringify(update(parsed as Record<string, unknown>));
+  };
+}
+
+/**
+ * Renames a legacy boolean field when the current field is not set.
+ * @internal
+ */
+function renameLegacyFlag(
+  config: Record<string, unknown>,
+  legacyField: string,
+  field: string,
+): Record<string, unknown> {
+  if (typeof config[legacyField] !== "boolean" || config[field] !== undefined) {
+    return config;
+  }
+  const { [legacyField]: value, ...rest } = config;
+  return { ...rest, [field]: value };
+}
+
+/**
+ * Renames legacy matching flags and fills missing custom rule fields.
+ * @internal
+ */
+function migrateMatchConfig(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  let next = renameLegacyFlag(config, "ignoreOneShots", "shouldIgnoreOneShots");
+  next = renameLegacyFlag(
+    next,
+    "ignoreAdultContent",
+    "shouldIgnoreAdultContent",
+  );
+
+  const rules = next.customRules as
+    | { skipRules?: Partial<CustomRule>[]; acceptRules?: Partial<CustomRule>[] }
+    | undefined;
+  if (!rules) return next;
+  return {
+    ...next,
+    customRules: {
+      skipRules: Array.isArray(rules.skipRules)
+        ? rules.skipRules.map(migrateCustomRule)
+        : [],
+      acceptRules: Array.isArray(rules.acceptRules)
+        ? rules.acceptRules.map(migrateCustomRule)
+        : [],
+    },
+  };
+}
+
+/**
+ * Fills missing custom list rule fields.
+ * @internal
+ */
+function migrateSyncConfig(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!Array.isArray(config.customListRules)) return config;
+  return {
+    ...config,
+    customListRules: (config.customListRules as Partial<CustomListRule>[]).map(
+      migrateCustomListRule,
+    ),
+  };
+}
+
+/**
+ * Match configuration steps, keyed on `BackupMetadata.backupVersion`.
+ * @source
+ */
+export const MATCH_CONFIG_MIGRATIONS: BackupKeyMigration[] = [
+  {
+    fromVersion: 1,
+    description: "Normalize legacy matching flags and custom rules",
+    migrate: migrateJsonObject(migrateMatchConfig),
+  },
+];
+
+/**
+ * Sync configuration steps, keyed on `BackupMetadata.backupVersion`.
+ * @source
+ */
+export const SYNC_CONFIG_MIGRATIONS: BackupKeyMigration[] = [
+  {
+    fromVersion: 1,
+    description: "Normalize custom list rules",
+    migrate: migrateJsonObject(migrateSyncConfig),
+  },
+];
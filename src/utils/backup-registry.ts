@@ -0,0 +1,337 @@
+/**
+ * @packageDocumentation
+ * @module backup-registry
+ * @description Registry of the storage keys included in backups. Each entry declares the key's category, how its stored value is validated, how it is migrated from older backups, and any adjustment made when it is restored. Backup creation, validation and restore are driven by this registry.
+ */
+
+import { STORAGE_KEYS } from "@/utils/storage";
+import {
+  MATCH_CONFIG_MIGRATIONS,
+  SYNC_CONFIG_MIGRATIONS,
+  type BackupKeyMigration,
+} from "@/utils/backup-migrations";
+
+/**
+ * Group of backup keys users can include or exclude together.
+ * @source
+ */
+export type BackupCategory = "data" | "settings" | "caches" | "history";
+
+/**
+ * Display information for a backup category.
+ * @source
+ */
+export interface BackupCategoryInfo {
+  id: BackupCategory;
+  label: string;
+  description: string;
+  /** Always included in backups, since a restore needs it */
+  required?: boolean;
+}
+
+/**
+ * Backup categories in display order.
+ * @source
+ */
+export const BACKUP_CATEGORIES: readonly BackupCategoryInfo[] = [
+  {
+    id: "data",
+    label: "Library & matches",
+    description: "Kenmei library, match results, pending manga",
+    required: true,
+  },
+  {
+    id: "settings",
+    label: "Settings",
+    description: "Matching, sync and backup settings, saved filters",
+  },
+  {
+    id: "caches",
+    label: "Caches",
+    description: "AniList search and title normalization caches",
+  },
+  {
+    id: "history",
+    label: "History",
+    description:
+      "Sync and reading history, statistics, match decisions, failed operations",
+  },
+];
+
+/** Every backup category. @source */
+export const ALL_BACKUP_CATEGORIES: BackupCategory[] = BACKUP_CATEGORIES.map(
+  (category) => category.id,
+);
+
+/**
+ * Declaration of one storage key included in backups.
+ * @source
+ */
+export interface BackupKeyDefinition {
+  key: string;
+  label: string;
+  category: BackupCategory;
+  /** Shape of the stored value, checked when a backup is validated */
+  format: "json-object" | "json-array" | "text";
+  /** Backups without this key are rejected */
+  required?: boolean;
+  /** Steps upgrading the value from older backup format versions */
+  migrations?: BackupKeyMigration[];
+  /**
+   * The value depends on the cache schema version and is dropped from backups with an
+   * older cache version, since the app discards caches from other versions anyway.
+   */
+  cacheVersioned?: boolean;
+  /** Combines the backup value with the current value when restoring */
+  restore?: (backupValue: string, currentValue: string | null) => string;
+}
+
+/**
+ * Keeps this machine's backup location and schedule timestamps when restoring backup settings.
+ * @internal
+ */
+function restoreBackupScheduleConfig(
+  backupValue: string,
+  currentValue: string | null,
+): string {
+  if (!currentValue) return backupValue;
+  try {
+    const current = JSON.parse(currentValue);
+    return JSON.stringify({
+      ...JSON.parse(backupValue),
+      backupLocation: current.backupLocation,
+      lastBackupTimestamp: current.lastBackupTimestamp,
+      nextBackupTimestamp: current.nextBackupTimestamp,
+    });
+  } catch {
+    return backupValue;
+  }
+}
+
+/**
+ * Storage keys included in backups.
+ * Excludes transient keys (ACTIVE_SYNC_SNAPSHOT, UPDATE_DISMISSED_VERSIONS), UI and update
+ * preferences, and keys tied to this machine or session (ACCOUNTS, BACKUP_HISTORY).
+ * @source
+ */
+export const BACKUP_KEY_REGISTRY: readonly BackupKeyDefinition[] = [
+  {
+    key: STORAGE_KEYS.KENMEI_DATA,
+    label: "Kenmei library",
+    category: "data",
+    format: "json-object",
+    required: true,
+  },
+  {
+    key: STORAGE_KEYS.IMPORT_STATS,
+    label: "Import statistics",
+    category: "data",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.MATCH_RESULTS,
+    label: "Match results",
+    category: "data",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.PENDING_MANGA,
+    label: "Pending manga",
+    category: "data",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.IGNORED_DUPLICATES,
+    label: "Ignored duplicates",
+    category: "data",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.SYNC_BASELINES,
+    label: "Sync baselines",
+    category: "data",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.SYNC_CONFIG,
+    label: "Sync settings",
+    category: "settings",
+    format: "json-object",
+    migrations: SYNC_CONFIG_MIGRATIONS,
+  },
+  {
+    key: STORAGE_KEYS.MATCH_CONFIG,
+    label: "Matching settings",
+    category: "settings",
+    format: "json-object",
+    migrations: MATCH_CONFIG_MIGRATIONS,
+  },
+  {
+    key: STORAGE_KEYS.MATCH_FILTERS,
+    label: "Match filters",
+    category: "settings",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.MATCH_FILTER_PRESETS,
+    label: "Match filter presets",
+    category: "settings",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG,
+    label: "Backup settings",
+    category: "settings",
+    format: "json-object",
+    restore: restoreBackupScheduleConfig,
+  },
+  {
+    key: STORAGE_KEYS.CSV_MAPPING_PROFILES,
+    label: "CSV mapping profiles",
+    category: "settings",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.ONBOARDING_COMPLETED,
+    label: "Onboarding status",
+    category: "settings",
+    format: "text",
+  },
+  {
+    key: STORAGE_KEYS.CACHE_VERSION,
+    label: "Cache version",
+    category: "caches",
+    format: "text",
+  },
+  {
+    key: STORAGE_KEYS.ANILIST_SEARCH_CACHE,
+    label: "AniList search cache",
+    category: "caches",
+    format: "json-object",
+    cacheVersioned: true,
+  },
+  {
+    key: STORAGE_KEYS.TITLE_NORMALIZATION_CACHE,
+    label: "Title normalization cache",
+    category: "caches",
+    format: "json-object",
+    cacheVersioned: true,
+  },
+  {
+    key: STORAGE_KEYS.CONFIDENCE_RECALC_METADATA,
+    label: "Confidence recalculation metadata",
+    category: "caches",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.SYNC_STATS,
+    label: "Sync statistics",
+    category: "history",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.SYNC_HISTORY,
+    label: "Sync history",
+    category: "history",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.READING_HISTORY,
+    label: "Reading history",
+    category: "history",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.FAILED_OPERATIONS,
+    label: "Failed sync operations",
+    category: "history",
+    format: "json-object",
+  },
+  {
+    key: STORAGE_KEYS.MATCH_DECISIONS,
+    label: "Match decisions",
+    category: "history",
+    format: "json-array",
+  },
+  {
+    key: STORAGE_KEYS.CONFIDENCE_CALIBRATION,
+    label: "Confidence calibration",
+    category: "history",
+    format: "json-object",
+  },
+];
+
+/**
+ * Looks up the registry entry for a storage key.
+ * @param key - Storage key.
+ * @returns The key's definition, or undefined if it is not backed up.
+ * @source
+ */
+export function getBackupKeyDefinition(
+  key: string,
+): BackupKeyDefinition | undefined {
+  return BACKUP_KEY_REGISTRY.find((definition) => definition.key === key);
+}
+
+/**
+ * Adds required categories to a category selection.
+ * @param categories - Selected categories.
+ * @returns Selected and required categories, in display order.
+ * @source
+ */
+export function resolveBackupCategories(
+  categories: readonly BackupCategory[],
+): BackupCategory[] {
+  return BACKUP_CATEGORIES.filter(
+    (category) => category.required || categories.includes(category.id),
+  ).map((category) => category.id);
+}
+
+/**
+ * Lists the keys backed up for a set of categories. Required categories are always included.
+ * @param categories - Categories to include (default: all).
+ * @returns Storage keys in registry order.
+ * @source
+ */
+export function getBackupKeysForCategories(
+  categories: readonly BackupCategory[] = ALL_BACKUP_CATEGORIES,
+): string[] {
+  const included = resolveBackupCategories(categories);
+  return BACKUP_KEY_REGISTRY.filter((definition) =>
+    included.includes(definition.category),
+  ).map((definition) => definition.key);
+}
+
+/**
+ * Checks a stored value against its registry entry.
+ * @param definition - Registry entry for the key.
+ * @param value - Stored value from a backup.
+ * @returns Error message, or null if the value is valid.
+ * @source
+ */
+export function validateBackupValue(
+  definition: BackupKeyDefinition,
+  value: string,
+): string | null {
+  if (typeof value !== "string") {
+    return `Key '${definition.key}' must be a string value`;
+  }
+  if (definition.format === "text") return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return `Key '${definition.key}' contains invalid JSON`;
+  }
+  if (definition.format === "json-array" && !Array.isArray(parsed)) {
+    return `Key '${definition.key}' must be a JSON array`;
+  }
+  if (
+    definition.format === "json-object" &&
+    (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+  ) {
+    return `Key '${definition.key}' must be a JSON object`;
+  }
+  return null;
+}
@@ -9,9 +9,24 @@ import {
   STORAGE_KEYS,
   CURRENT_CACHE_VERSION,
   mergeMatchResults,
+  type MatchResult,
 } from "@/utils/storage";
 import { getAppVersion } from "@/utils/app-version";
 import { exportToJson } from "@/utils/export-utils";
+import {
+  BackupPassphraseError,
+  isBackupContainer,
+  unpackBackupContainer,
+} from "@/utils/backup-container";
+import {
+  ALL_BACKUP_CATEGORIES,
+  BACKUP_KEY_REGISTRY,
+  getBackupKeyDefinition,
+  getBackupKeysForCategories,
+  resolveBackupCategories,
+  validateBackupValue,
+  type BackupCategory,
+} from "@/utils/backup-registry";
 
 /**
  * Backup metadata with version information and data structure details.
@@ -28,6 +43,8 @@ export interface BackupMetadata {
   backupVersion: number;
   /** List of storage keys included in this backup */
   dataKeys: string[];
+  /** Categories included in this backup (absent in backups made before categories existed) */
+  categories?: BackupCategory[];
 }
 
 /**
@@ -58,32 +75,104 @@ export interface BackupHistoryEntry {
   size: number;
   /** Filename where backup is stored (for consistent reconciliation) */
   filename?: string;
+  /** Whether the file is a gzip-compressed backup container */
+  compressed?: boolean;
+  /** Whether the container payload is encrypted with a passphrase */
+  encrypted?: boolean;
 }
 
 /** Maximum number of backups to keep in history. @source */
 export const MAX_BACKUP_HISTORY = 5;
 
-/** Current backup format version. Increment when backup schema changes. @source */
-export const BACKUP_VERSION = 1;
+/**
+ * Current backup format version. Increment when backup schema changes and add migration
+ * steps to the affected keys in `BACKUP_KEY_REGISTRY` so older backups are upgraded on restore.
+ * @source
+ */
+export const BACKUP_VERSION = 2;
+
+/**
+ * Storage keys included in backups, in `BACKUP_KEY_REGISTRY` order.
+ * @source
+ */
+export const BACKUPABLE_KEYS: readonly string[] = BACKUP_KEY_REGISTRY.map(
+  (definition) => definition.key,
+);
 
 /**
- * Storage keys included in backups.
- * Excludes transient keys (ACTIVE_SYNC_SNAPSHOT, UPDATE_DISMISSED_VERSIONS).
+ * A storage key that can be included in a backup.
  * @source
  */
-export const BACKUPABLE_KEYS = [
-  STORAGE_KEYS.KENMEI_DATA,
-  STORAGE_KEYS.IMPORT_STATS,
-  STORAGE_KEYS.MATCH_RESULTS,
-  STORAGE_KEYS.PENDING_MANGA,
-  STORAGE_KEYS.CACHE_VERSION,
+export type BackupableKey = (typeof BACKUPABLE_KEYS)[number];
+
+/**
+ * Keys whose values are configuration objects, previewed field by field.
+ * @internal
+ */
+const CONFIG_KEYS = new Set<string>([
   STORAGE_KEYS.SYNC_CONFIG,
-  STORAGE_KEYS.SYNC_STATS,
   STORAGE_KEYS.MATCH_CONFIG,
-  STORAGE_KEYS.IGNORED_DUPLICATES,
-  STORAGE_KEYS.ANILIST_SEARCH_CACHE,
-  STORAGE_KEYS.ONBOARDING_COMPLETED,
-] as const;
+  STORAGE_KEYS.MATCH_FILTERS,
+  STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG,
+]);
+
+/**
+ * A match result that differs between the backup and current storage.
+ * @source
+ */
+export interface MatchResultDiffItem {
+  /** Identity used to select this manga for restore (see `getMatchResultId`) */
+  id: string;
+  title: string;
+  /** Status in current storage, absent when the backup adds the manga */
+  currentStatus?: string;
+  /** Status in the backup, absent when restoring would remove the manga */
+  backupStatus?: string;
+}
+
+/**
+ * Difference between one backupable key in a backup and in current storage.
+ * @source
+ */
+export interface BackupKeyDiff {
+  key: BackupableKey;
+  /** Whether the backup contains a value for this key */
+  inBackup: boolean;
+  /** Whether restoring this key would change current storage */
+  changed: boolean;
+  /** Short human-readable description of the change */
+  summary: string;
+  /** Per-manga changes, for match results */
+  matchResults?: {
+    added: MatchResultDiffItem[];
+    removed: MatchResultDiffItem[];
+    changed: MatchResultDiffItem[];
+    unchangedCount: number;
+  };
+  /** Top-level fields that differ, for configuration keys */
+  configChanges?: Array<{ field: string; current: unknown; backup: unknown }>;
+  /** Ignored duplicate counts, for the ignored duplicates list */
+  ignoredDuplicates?: {
+    current: number;
+    backup: number;
+    added: number;
+    removed: number;
+  };
+}
+
+/**
+ * Keys and match results chosen for a selective restore.
+ * @source
+ */
+export interface RestoreSelection {
+  /** Keys to restore; keys not listed keep their current value */
+  keys: BackupableKey[];
+  /**
+   * Match results to restore by ID when `MATCH_RESULTS` is selected.
+   * Unlisted manga keep their current state; omit to restore the whole list.
+   */
+  matchResultIds?: string[];
+}
 
 /**
  * Validation result from backup validation.
@@ -101,35 +190,42 @@ interface ValidationResult {
  * @internal
  * @source
  */
-function createBackupMetadata(appVersion?: string): BackupMetadata {
+function createBackupMetadata(
+  appVersion?: string,
+  categories: readonly BackupCategory[] = ALL_BACKUP_CATEGORIES,
+): BackupMetadata {
   return {
     timestamp: new Date().toISOString(),
     appVersion: appVersion || getAppVersion(),
     cacheVersion: CURRENT_CACHE_VERSION,
     backupVersion: BACKUP_VERSION,
-    dataKeys: [...BACKUPABLE_KEYS],
+    dataKeys: getBackupKeysForCategories(categories),
+    categories: resolveBackupCategories(categories),
   };
 }
 
 /**
- * Collects all backupable data from storage into a BackupData structure.
+ * Collects backupable data from storage into a BackupData structure.
  * Uses async getter when available (prefers electron-store) and falls back to sync getter.
+ * @param appVersion - Optional app version override.
+ * @param categories - Categories to include (default: all).
  * @returns Backup data object with metadata and collected storage values.
  * @internal
  * @source
  */
 async function collectBackupData(
   appVersion?: string,
+  categories: readonly BackupCategory[] = ALL_BACKUP_CATEGORIES,
 ): Promise<{ data: BackupData; size: number }> {
   // Collect all backupable data
   const backupData: BackupData = {
-    metadata: createBackupMetadata(appVersion),
+    metadata: createBackupMetadata(appVersion, categories),
     data: {},
   };
 
-  // Gather data for each backupable key
+  // Gather data for each key in the selected categories
   // Use the async getter which prefers electron-store when available and keeps localStorage synchronized.
-  for (const key of BACKUPABLE_KEYS) {
+  for (const key of backupData.metadata.dataKeys) {
     try {
       // Prefer authoritative electron-store when present
       // getItemAsync will fall back to localStorage if electron-store is not available
@@ -166,16 +262,22 @@ async function collectBackupData(
  * For automatic backups before matching/sync operations that don't require user interaction,
  * use `globalThis.electronBackup.createNow()` instead, which writes directly to the configured backup location.
  *
+ * @param categories - Categories to include (default: all).
  * @returns Unique identifier for the created backup.
  * @throws {Error} If backup creation or export fails.
  * @source
  */
-export async function createBackup(): Promise<string> {
+export async function createBackup(
+  categories?: readonly BackupCategory[],
+): Promise<string> {
   try {
     console.log("[Backup] Creating backup...");
 
     // Collect all backupable data
-    const { data: backupData, size: backupSize } = await collectBackupData();
+    const { data: backupData, size: backupSize } = await collectBackupData(
+      undefined,
+      categories,
+    );
     console.log(
       `[Backup] Backup size: ${(backupSize / 1024 / 1024).toFixed(2)} MB`,
     );
@@ -300,7 +402,7 @@ export function validateBackup(backupData: BackupData): ValidationResult {
     const allErrors = [
       ...validateMetadata(backupData.metadata),
       ...validateRequiredKeys(backupData),
-      ...validateJsonKeys(backupData),
+      ...validateKeyValues(backupData),
     ];
 
     return { valid: allErrors.length === 0, errors: allErrors };
@@ -341,10 +443,13 @@ function validateMetadata(metadata: BackupMetadata): string[] {
 
 function validateRequiredKeys(backupData: BackupData): string[] {
   const errors: string[] = [];
-  const requiredKeys = [STORAGE_KEYS.KENMEI_DATA];
-  const missingKeys = requiredKeys.filter(
-    (key) => !(key in backupData.data) || backupData.data[key] === undefined,
-  );
+  const missingKeys = BACKUP_KEY_REGISTRY.filter(
+    (definition) => definition.required,
+  )
+    .map((definition) => definition.key)
+    .filter(
+      (key) => !(key in backupData.data) || backupData.data[key] === undefined,
+    );
 
   if (missingKeys.length > 0)
     errors.push(`Missing required data keys: ${missingKeys.join(", ")}`);
@@ -355,28 +460,136 @@ function validateRequiredKeys(backupData: BackupData): string[] {
   return errors;
 }
 
-function validateJsonKeys(backupData: BackupData): string[] {
+function validateKeyValues(backupData: BackupData): string[] {
   const errors: string[] = [];
-  const jsonKeys = [
-    STORAGE_KEYS.KENMEI_DATA,
-    STORAGE_KEYS.MATCH_RESULTS,
-    STORAGE_KEYS.SYNC_CONFIG,
-    STORAGE_KEYS.MATCH_CONFIG,
-  ];
-
-  for (const key of jsonKeys) {
-    if (backupData.data[key]) {
-      try {
-        JSON.parse(backupData.data[key]);
-      } catch {
-        errors.push(`Key '${key}' contains invalid JSON`);
-      }
-    }
+
+  for (const definition of BACKUP_KEY_REGISTRY) {
+    const value = backupData.data?.[definition.key];
+    if (!value) continue;
+    const error = validateBackupValue(definition, value);
+    if (error) errors.push(error);
   }
 
   return errors;
 }
 
+/**
+ * Upgrades an older backup's data to the current format and cache schema.
+ * Each key's registry migrations run from the backup's `backupVersion` up to `BACKUP_VERSION`.
+ * Cache-versioned keys are dropped when the backup's cache version is older than
+ * `CURRENT_CACHE_VERSION`. Backups already at the current versions are returned unchanged.
+ * @param backupData - Backup data to migrate.
+ * @returns Migrated backup data and descriptions of the steps that ran.
+ * @source
+ */
+export function migrateBackup(backupData: BackupData): {
+  backupData: BackupData;
+  applied: string[];
+} {
+  const applied: string[] = [];
+  const data = { ...backupData.data };
+
+  // Backups written before the version field existed use the first format
+  const fromBackupVersion = backupData.metadata.backupVersion ?? 1;
+  const backupVersion = Math.max(fromBackupVersion, BACKUP_VERSION);
+  const fromCacheVersion = backupData.metadata.cacheVersion;
+  const isCacheOutdated =
+    typeof fromCacheVersion === "number" &&
+    fromCacheVersion < CURRENT_CACHE_VERSION;
+  const cacheVersion = isCacheOutdated
+    ? CURRENT_CACHE_VERSION
+    : fromCacheVersion;
+
+  for (const definition of BACKUP_KEY_REGISTRY) {
+    const { key } = definition;
+    if (!(key in data)) continue;
+
+    if (definition.cacheVersioned && isCacheOutdated) {
+      delete data[key];
+      applied.push(
+        `Cache version ${fromCacheVersion}: dropped ${definition.label} (no upgrade path)`,
+      );
+      continue;
+    }
+
+    for (let version = fromBackupVersion; version < BACKUP_VERSION; version++) {
+      const step = definition.migrations?.find(
+        (migration) => migration.fromVersion === version,
+      );
+      if (!step) continue;
+      data[key] = step.migrate(data[key]);
+      applied.push(
+        `${definition.label} ${version} → ${version + 1}: ${step.description}`,
+      );
+    }
+  }
+
+  if (
+    backupVersion === backupData.metadata.backupVersion &&
+    cacheVersion === backupData.metadata.cacheVersion
+  ) {
+    return { backupData, applied };
+  }
+
+  if (STORAGE_KEYS.CACHE_VERSION in data) {
+    data[STORAGE_KEYS.CACHE_VERSION] = String(cacheVersion);
+  }
+  if (applied.length > 0) {
+    console.info("[Backup] Migrated backup:", applied);
+  }
+
+  return {
+    backupData: {
+      metadata: { ...backupData.metadata, backupVersion, cacheVersion },
+      data,
+    },
+    applied,
+  };
+}
+
+/**
+ * Parses backup file contents into current-format backup data.
+ * Unpacks compressed or encrypted containers, migrates older backups, then validates the result.
+ * @param content - Backup file contents.
+ * @param passphrase - Passphrase for encrypted backups.
+ * @returns Migrated and validated backup data.
+ * @throws {BackupPassphraseError} If the backup is encrypted and the passphrase is missing or wrong.
+ * @throws {Error} If the contents are not a valid backup.
+ * @source
+ */
+export async function parseBackupFileContent(
+  content: string,
+  passphrase?: string,
+): Promise<BackupData> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    throw new Error(
+      `Invalid backup file format: ${
+        parseError instanceof Error ? parseError.message : "JSON parse error"
+      }`,
+    );
+  }
+
+  const backupData = isBackupContainer(parsed)
+    ? await unpackBackupContainer(parsed, passphrase)
+    : (parsed as BackupData);
+
+  if (!backupData?.metadata) {
+    throw new Error("Backup validation failed: Missing backup metadata");
+  }
+
+  const { backupData: migrated } = migrateBackup(backupData);
+  const validation = validateBackup(migrated);
+  if (!validation.valid) {
+    throw new Error(
+      `Backup validation failed: ${validation.errors.join("; ")}`,
+    );
+  }
+  return migrated;
+}
+
 /** Maximum allowed backup file size in bytes (10 MB). @internal @source */
 const MAX_BACKUP_FILE_SIZE = 10 * 1024 * 1024;
 
@@ -512,19 +725,32 @@ function validateAndMergeMatchResults(backupDataStr: string): {
  * Restores a single storage key from backup data.
  * @param key - Storage key to restore.
  * @param backupData - Backup data containing the key.
- * @param options - Restoration options (merge for match results).
+ * @param options - Restoration options (merge or per-manga selection for match results).
+ * @param currentValue - Current stored value, passed to the key's registry restore hook.
  * @returns Error message on failure, null on success.
  * @internal
  */
 function restoreKeyFromBackup(
   key: string,
   backupData: BackupData,
-  options?: { merge?: boolean },
+  options?: { merge?: boolean; matchResultIds?: string[] },
+  currentValue: string | null = null,
 ): string | null {
   if (!(key in backupData.data)) return null;
 
   try {
-    if (key === STORAGE_KEYS.MATCH_RESULTS && options?.merge) {
+    if (key === STORAGE_KEYS.MATCH_RESULTS && options?.matchResultIds) {
+      storage.setItem(
+        key,
+        restoreSelectedMatchResults(
+          backupData.data[key],
+          options.matchResultIds,
+        ),
+      );
+      console.debug(
+        `[Backup] Restored ${options.matchResultIds.length} selected match results`,
+      );
+    } else if (key === STORAGE_KEYS.MATCH_RESULTS && options?.merge) {
       const mergeResult = validateAndMergeMatchResults(backupData.data[key]);
       if (!mergeResult.success) {
         return `Failed to merge ${key}: ${mergeResult.error}`;
@@ -532,7 +758,13 @@ function restoreKeyFromBackup(
       storage.setItem(key, mergeResult.result || "");
       console.debug("[Backup] Merged match results");
     } else {
-      storage.setItem(key, backupData.data[key]);
+      const restore = getBackupKeyDefinition(key)?.restore;
+      storage.setItem(
+        key,
+        restore
+          ? restore(backupData.data[key], currentValue)
+          : backupData.data[key],
+      );
     }
     return null;
   } catch (error) {
@@ -572,19 +804,28 @@ function updateCacheVersion(): string | null {
  * @param backupData - Backup data to restore.
  * @param options - Restoration options.
  * @param options.merge - If true, merge match results instead of replacing (default: false).
+ * @param options.keys - Keys to restore (default: all backupable keys).
+ * @param options.matchResultIds - Restore only these manga from the backup's match results (see `getMatchResultId`).
  * @returns Success status and any error messages.
  * @throws {Error} If validation fails or restoration encounters critical error.
  * @source
  */
 export async function restoreBackup(
   backupData: BackupData,
-  options?: { merge?: boolean },
+  options?: {
+    merge?: boolean;
+    keys?: readonly BackupableKey[];
+    matchResultIds?: string[];
+  },
 ): Promise<{ success: boolean; errors: string[] }> {
   const errors: string[] = [];
 
   try {
     console.log("[Backup] Starting restore process...");
 
+    // Upgrade older backups before validating them
+    backupData = migrateBackup(backupData).backupData;
+
     // Validate backup
     const validation = validateBackup(backupData);
     if (!validation.valid) {
@@ -595,8 +836,12 @@ export async function restoreBackup(
     }
 
     // Restore each data key using helper to keep control flow simple
-    for (const key of BACKUPABLE_KEYS) {
-      const err = restoreKeyFromBackup(key, backupData, options);
+    for (const key of options?.keys ?? BACKUPABLE_KEYS) {
+      // Keys with a restore hook are combined with the authoritative current value
+      const currentValue = getBackupKeyDefinition(key)?.restore
+        ? await storage.getItemAsync(key)
+        : null;
+      const err = restoreKeyFromBackup(key, backupData, options, currentValue);
       if (err) errors.push(err);
     }
 
@@ -621,16 +866,368 @@ export async function restoreBackup(
   }
 }
 
+/**
+ * Returns the identity of a match result used when comparing and selecting manga for restore.
+ * Uses the Kenmei ID when present and falls back to the lowercased title, like `mergeMatchResults`.
+ * @param result - Match result to identify.
+ * @returns Stable identifier for the manga.
+ * @source
+ */
+export function getMatchResultId(result: MatchResult): string {
+  const id = result.kenmeiManga?.id;
+  if (id !== null && id !== undefined && id !== "") return `id:${id}`;
+  return `title:${(result.kenmeiManga?.title ?? "").toLowerCase()}`;
+}
+
+/**
+ * Parses a stored JSON value, returning null when it is missing or malformed.
+ * @internal
+ */
+function parseStoredJson(value: string | null | undefined): unknown {
+  if (value === null || value === undefined) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses a stored match results list, keeping only items that pass validation.
+ * @internal
+ */
+function parseMatchResults(value: string | null | undefined): MatchResult[] {
+  const parsed = parseStoredJson(value);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(
+    (item): item is MatchResult => validateMatchResultItem(item).valid,
+  );
+}
+
+/**
+ * Indexes match results by `getMatchResultId`, keeping the first occurrence.
+ * @internal
+ */
+function indexMatchResults(results: MatchResult[]): Map<string, MatchResult> {
+  const index = new Map<string, MatchResult>();
+  for (const result of results) {
+    const id = getMatchResultId(result);
+    if (!index.has(id)) index.set(id, result);
+  }
+  return index;
+}
+
+/**
+ * Compares the user-visible state of two versions of a match result.
+ * @internal
+ */
+function isSameMatchState(a: MatchResult, b: MatchResult): boolean {
+  return (
+    a.status === b.status &&
+    a.selectedMatch?.id === b.selectedMatch?.id &&
+    a.kenmeiManga?.chaptersRead === b.kenmeiManga?.chaptersRead &&
+    a.kenmeiManga?.status === b.kenmeiManga?.status
+  );
+}
+
+/**
+ * Builds the per-manga diff of match results between current storage and a backup.
+ * @internal
+ */
+function diffMatchResults(
+  currentValue: string | null,
+  backupValue: string,
+): NonNullable<BackupKeyDiff["matchResults"]> {
+  const current = indexMatchResults(parseMatchResults(currentValue));
+  const backup = indexMatchResults(parseMatchResults(backupValue));
+  const diff: NonNullable<BackupKeyDiff["matchResults"]> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchangedCount: 0,
+  };
+
+  for (const [id, backupResult] of backup) {
+    const currentResult = current.get(id);
+    const item: MatchResultDiffItem = {
+      id,
+      title: backupResult.kenmeiManga.title,
+      currentStatus: currentResult?.status,
+      backupStatus: backupResult.status,
+    };
+    if (!currentResult) {
+      diff.added.push(item);
+    } else if (isSameMatchState(currentResult, backupResult)) {
+      diff.unchangedCount++;
+    } else {
+      diff.changed.push(item);
+    }
+  }
+
+  for (const [id, currentResult] of current) {
+    if (!backup.has(id)) {
+      diff.removed.push({
+        id,
+        title: currentResult.kenmeiManga.title,
+        currentStatus: currentResult.status,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Lists the top-level fields that differ between two stored configuration objects.
+ * @internal
+ */
+function diffConfigFields(
+  currentValue: string | null,
+  backupValue: string,
+): NonNullable<BackupKeyDiff["configChanges"]> {
+  const toRecord = (value: unknown): Record<string, unknown> =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  const current = toRecord(parseStoredJson(currentValue));
+  const backup = toRecord(parseStoredJson(backupValue));
+
+  const fields = new Set([...Object.keys(current), ...Object.keys(backup)]);
+  return [...fields]
+    .filter(
+      (field) =>
+        JSON.stringify(current[field]) !== JSON.stringify(backup[field]),
+    )
+    .sort((a, b) => a.localeCompare(b))
+    .map((field) => ({
+      field,
+      current: current[field],
+      backup: backup[field],
+    }));
+}
+
+/**
+ * Compares the ignored duplicate lists by AniList ID.
+ * @internal
+ */
+function diffIgnoredDuplicates(
+  currentValue: string | null,
+  backupValue: string,
+): NonNullable<BackupKeyDiff["ignoredDuplicates"]> {
+  const toIds = (value: string | null) => {
+    const parsed = parseStoredJson(value);
+    if (!Array.isArray(parsed)) return new Set<number>();
+    return new Set(
+      parsed
+        .map((item) => (item as { anilistId?: unknown })?.anilistId)
+        .filter((id): id is number => typeof id === "number"),
+    );
+  };
+  const current = toIds(currentValue);
+  const backup = toIds(backupValue);
+
+  return {
+    current: current.size,
+    backup: backup.size,
+    added: [...backup].filter((id) => !current.has(id)).length,
+    removed: [...current].filter((id) => !backup.has(id)).length,
+  };
+}
+
+/**
+ * Compares one backupable key in a backup with current storage.
+ * @internal
+ */
+function diffBackupKey(
+  key: BackupableKey,
+  backupData: BackupData,
+): BackupKeyDiff {
+  if (!(key in backupData.data)) {
+    return {
+      key,
+      inBackup: false,
+      changed: false,
+      summary: "Not in backup",
+    };
+  }
+
+  const currentValue = storage.getItem(key);
+  // Compare against what a restore would write, after any per-key restore adjustment
+  const restore = getBackupKeyDefinition(key)?.restore;
+  const backupValue = restore
+    ? restore(backupData.data[key], currentValue)
+    : backupData.data[key];
+  const diff: BackupKeyDiff = {
+    key,
+    inBackup: true,
+    changed: currentValue !== backupValue,
+    summary: "",
+  };
+
+  if (key === STORAGE_KEYS.MATCH_RESULTS) {
+    const matchResults = diffMatchResults(currentValue, backupValue);
+    diff.matchResults = matchResults;
+    diff.changed =
+      matchResults.added.length +
+        matchResults.removed.length +
+        matchResults.changed.length >
+      0;
+    diff.summary = diff.changed
+      ? `${matchResults.added.length} added, ${matchResults.removed.length} removed, ${matchResults.changed.length} changed`
+      : `${matchResults.unchangedCount} unchanged`;
+  } else if (key === STORAGE_KEYS.IGNORED_DUPLICATES) {
+    const ignored = diffIgnoredDuplicates(currentValue, backupValue);
+    diff.ignoredDuplicates = ignored;
+    diff.summary = `${ignored.current} ignored now, ${ignored.backup} in backup (${ignored.added} added, ${ignored.removed} removed)`;
+  } else if (CONFIG_KEYS.has(key)) {
+    const configChanges = diffConfigFields(currentValue, backupValue);
+    diff.configChanges = configChanges;
+    diff.changed = configChanges.length > 0;
+    diff.summary = diff.changed
+      ? `${configChanges.length} field${configChanges.length === 1 ? "" : "s"} changed`
+      : "No changes";
+  } else {
+    diff.summary = diff.changed ? "Differs from current data" : "No changes";
+  }
+
+  return diff;
+}
+
+/**
+ * Previews what restoring a backup would change, key by key.
+ * Reads current values from storage without modifying anything.
+ * @param backupData - Backup data to compare with current storage.
+ * @returns One diff per backupable key, in `BACKUPABLE_KEYS` order.
+ * @source
+ */
+export function previewBackupRestore(backupData: BackupData): BackupKeyDiff[] {
+  return BACKUPABLE_KEYS.map((key) => diffBackupKey(key, backupData));
+}
+
+/**
+ * Applies the selected manga from a backup's match results onto the current list.
+ * Selected manga take their backup version, or are removed when the backup lacks them;
+ * every other manga keeps its current state and position.
+ * @internal
+ */
+function restoreSelectedMatchResults(
+  backupValue: string,
+  matchResultIds: string[],
+): string {
+  const selected = new Set(matchResultIds);
+  const backup = indexMatchResults(parseMatchResults(backupValue));
+  const current = parseMatchResults(
+    storage.getItem(STORAGE_KEYS.MATCH_RESULTS),
+  );
+
+  const restored: MatchResult[] = [];
+  const seen = new Set<string>();
+  for (const result of current) {
+    const id = getMatchResultId(result);
+    seen.add(id);
+    if (!selected.has(id)) {
+      restored.push(result);
+    } else if (backup.has(id)) {
+      restored.push(backup.get(id)!);
+    }
+  }
+  for (const [id, result] of backup) {
+    if (selected.has(id) && !seen.has(id)) restored.push(result);
+  }
+
+  return JSON.stringify(restored);
+}
+
+/**
+ * Sends restored backup settings to the main process so the scheduler picks them up.
+ * @returns Error message on failure, null on success.
+ * @internal
+ */
+async function applyRestoredScheduleConfig(): Promise<string | null> {
+  try {
+    const value = storage.getItem(STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG);
+    if (!value) return null;
+    const result = await globalThis.electronBackup.setScheduleConfig(
+      JSON.parse(value),
+    );
+    return result.success
+      ? null
+      : `Failed to apply restored backup settings: ${result.error}`;
+  } catch (error) {
+    const message = `Failed to apply restored backup settings: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`;
+    console.warn("[Backup]", message);
+    return message;
+  }
+}
+
+/**
+ * Restores the selected keys and match results from a backup after taking a safety backup.
+ * The safety backup is written through the main process so the current state can be
+ * restored from the backup list; if it cannot be created, nothing is restored.
+ * @param backupData - Backup data to restore from.
+ * @param selection - Keys and match results to restore.
+ * @returns Success status, any error messages, and the safety backup ID.
+ * @source
+ */
+export async function restoreBackupSelection(
+  backupData: BackupData,
+  selection: RestoreSelection,
+): Promise<{ success: boolean; errors: string[]; safetyBackupId?: string }> {
+  console.log(
+    `[Backup] Creating safety backup before restoring ${selection.keys.length} keys...`,
+  );
+  let safetyBackupId: string | undefined;
+  try {
+    const result = await globalThis.electronBackup.createNow();
+    if (!result.success) {
+      throw new Error(result.error || "Failed to create backup");
+    }
+    safetyBackupId = result.backupId;
+  } catch (error) {
+    const message = `Safety backup failed, restore cancelled: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`;
+    console.error("[Backup]", message);
+    return { success: false, errors: [message] };
+  }
+  console.log("[Backup] Safety backup created:", safetyBackupId);
+
+  const result = await restoreBackup(backupData, {
+    keys: selection.keys,
+    matchResultIds: selection.matchResultIds,
+  });
+
+  // Restored backup settings only take effect once the main process reschedules
+  if (selection.keys.includes(STORAGE_KEYS.BACKUP_SCHEDULE_CONFIG)) {
+    const error = await applyRestoredScheduleConfig();
+    if (error) {
+      return {
+        success: false,
+        errors: [...result.errors, error],
+        safetyBackupId,
+      };
+    }
+  }
+  return { ...result, safetyBackupId };
+}
+
 /**
  * Imports backup from file and validates it.
- * Reads file content and parses JSON backup format.
+ * Reads file content, unpacks backup containers and migrates older backups.
  * Warns if file size exceeds recommended threshold.
  * @param file - File to import as backup.
+ * @param passphrase - Passphrase for encrypted backups.
  * @returns Parsed and validated backup data.
+ * @throws {BackupPassphraseError} If the backup is encrypted and the passphrase is missing or wrong.
  * @throws {Error} If file cannot be read or is not valid backup format.
  * @source
  */
-export async function importBackupFromFile(file: File): Promise<BackupData> {
+export async function importBackupFromFile(
+  file: File,
+  passphrase?: string,
+): Promise<BackupData> {
   try {
     console.log("[Backup] Reading backup file:", file.name);
 
@@ -647,32 +1244,14 @@ export async function importBackupFromFile(file: File): Promise<BackupData> {
       );
     }
 
-    // Read file as text
+    // Read file as text, then unpack, migrate and validate it
     const fileContent = await file.text();
-
-    // Parse JSON with error handling
-    let backupData: BackupData;
-    try {
-      backupData = JSON.parse(fileContent);
-    } catch (parseError) {
-      throw new Error(
-        `Invalid backup file format: ${
-          parseError instanceof Error ? parseError.message : "JSON parse error"
-        }`,
-      );
-    }
-
-    // Validate backup structure
-    const validation = validateBackup(backupData);
-    if (!validation.valid) {
-      throw new Error(
-        `Backup validation failed: ${validation.errors.join("; ")}`,
-      );
-    }
+    const backupData = await parseBackupFileContent(fileContent, passphrase);
 
     console.log("[Backup] File imported and validated successfully");
     return backupData;
   } catch (error) {
+    if (error instanceof BackupPassphraseError) throw error;
     const message = `Failed to import backup: ${
       error instanceof Error ? error.message : "Unknown error"
     }`;
@@ -690,11 +1269,14 @@ export async function importBackupFromFile(file: File): Promise<BackupData> {
  * and should not be called directly from renderer code. To create automatic backups from the renderer,
  * use `globalThis.electronBackup.createNow()` instead.
  *
+ * @param categories - Categories to include (default: all).
  * @returns Object containing backup data, ID, and metadata.
  * @throws {Error} If backup creation fails.
  * @source
  */
-export async function createBackupSilent(): Promise<{
+export async function createBackupSilent(
+  categories?: readonly BackupCategory[],
+): Promise<{
   data: BackupData;
   backupId: string;
   size: number;
@@ -703,7 +1285,10 @@ export async function createBackupSilent(): Promise<{
     console.log("[Backup] Creating silent backup data...");
 
     // Collect all backupable data
-    const { data: backupData, size: backupSize } = await collectBackupData();
+    const { data: backupData, size: backupSize } = await collectBackupData(
+      undefined,
+      categories,
+    );
 
     // Generate backup ID
     const backupId = `backup_${Date.now()}`;
@@ -726,6 +1311,7 @@ export async function createBackupSilent(): Promise<{
  * Used when the main process doesn't have access to the renderer's storage object.
  * @param dataMap - Map of storage keys to their values.
  * @param appVersion - Application version to include in metadata (optional).
+ * @param categories - Categories to include (default: all).
  * @returns Backup data object with metadata.
  * @internal
  * @source
@@ -733,6 +1319,7 @@ export async function createBackupSilent(): Promise<{
 export function createBackupFromData(
   dataMap: Record<string, string>,
   appVersion?: string,
+  categories?: readonly BackupCategory[],
 ): {
   data: BackupData;
   backupId: string;
@@ -742,12 +1329,12 @@ export function createBackupFromData(
     console.log("[Backup] Creating backup from raw data...");
 
     const backupData: BackupData = {
-      metadata: createBackupMetadata(appVersion),
+      metadata: createBackupMetadata(appVersion, categories),
       data: {},
     };
 
-    // Add provided data to backup
-    for (const key of BACKUPABLE_KEYS) {
+    // Add provided data for the selected categories to backup
+    for (const key of backupData.metadata.dataKeys) {
       if (dataMap[key]) {
         backupData.data[key] = dataMap[key];
       }
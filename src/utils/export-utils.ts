@@ -5,7 +5,22 @@
  */
 
 import { SyncReport } from "../api/anilist/sync-service";
-import { MangaMatchResult, AniListManga } from "../api/anilist/types";
+import {
+  countPlannedOperations,
+  parseSyncPlan,
+  type SyncPlan,
+} from "../api/anilist/sync-plan";
+import {
+  MangaMatchResult,
+  AniListManga,
+  UserMediaList,
+} from "../api/anilist/types";
+import {
+  buildKenmeiExport,
+  toKenmeiCsvRow,
+  type KenmeiExportFileFormat,
+  type KenmeiExportOptions,
+} from "../api/kenmei/exporter";
 import { storage, STORAGE_KEYS, type MatchResult } from "./storage";
 import type { MatchForExport } from "../types/matching";
 import { getAppVersion } from "./app-version";
@@ -822,7 +837,18 @@ export function exportToMarkdown(
     markdown += formatMarkdownSections(data);
   }
 
-  // Create blob and download
+  return downloadMarkdown(markdown, baseFilename);
+}
+
+/**
+ * Downloads a Markdown document with a timestamped, sanitized filename.
+ * @param markdown - Markdown content.
+ * @param baseFilename - Base filename (without extension or timestamp).
+ * @returns Full filename used for download.
+ * @throws If document.body is unavailable.
+ * @internal
+ */
+function downloadMarkdown(markdown: string, baseFilename: string): string {
   const blob = new Blob([markdown], {
     type: "text/markdown;charset=utf-8",
   });
@@ -1045,6 +1071,163 @@ export async function exportSyncReport(report: SyncReport): Promise<void> {
   }
 }
 
+/**
+ * Exports the user's AniList manga list as a Kenmei-importable CSV or JSON file; triggers browser download.
+ * @param library - AniList manga list keyed by media ID.
+ * @param format - Output file format.
+ * @param options - Conversion options (score format, status mapping, user info).
+ * @returns Promise resolving to the filename used for download.
+ * @throws If the library is empty or the download fails.
+ * @source
+ */
+export async function exportAniListLibraryToKenmei(
+  library: UserMediaList,
+  format: KenmeiExportFileFormat,
+  options: KenmeiExportOptions,
+): Promise<string> {
+  const kenmeiExport = buildKenmeiExport(library, options);
+  if (kenmeiExport.manga.length === 0) {
+    throw createError(
+      ErrorType.VALIDATION,
+      "Your AniList manga list is empty, so there is nothing to export.",
+    );
+  }
+
+  console.info(
+    `[Export] 📤 Exporting ${kenmeiExport.manga.length} AniList entries as Kenmei ${format.toUpperCase()}`,
+  );
+
+  const filename =
+    format === "csv"
+      ? await exportToCSV(
+          kenmeiExport.manga.map(toKenmeiCsvRow),
+          "kenmei-export-from-anilist",
+        )
+      : await exportToJson(
+          kenmeiExport as unknown as Record<string, unknown>,
+          "kenmei-export-from-anilist",
+        );
+
+  console.info(`[Export] ✅ Exported AniList library to ${filename}`);
+  return filename;
+}
+
+/**
+ * Formats a sync plan as a Markdown review document listing every entry update and request in order.
+ * @param plan - Recorded sync plan.
+ * @returns Markdown string.
+ * @internal
+ */
+function formatSyncPlanMarkdown(plan: SyncPlan): string {
+  let markdown = formatMetadataHeader(
+    buildExportMetadata("markdown", countPlannedOperations(plan)),
+  );
+  markdown += "# AniList Sync Plan\n\n";
+  markdown += `- **Recorded**: ${plan.createdAt}\n`;
+  markdown += `- **Entries**: ${plan.entries.length}\n`;
+  markdown += `- **Updates**: ${countPlannedOperations(plan)}\n`;
+  markdown += `- **Requests**: ${plan.requests.length}\n\n`;
+
+  markdown += "## Entries\n\n";
+  plan.entries.forEach((entry, index) => {
+    markdown += `### ${index + 1}. ${escapeMarkdownCell(entry.title)} (${entry.mediaId})\n\n`;
+    for (const operation of entry.operations) {
+      markdown +=
+        operation.step === null
+          ? "#### Update"
+          : `#### Incremental step ${operation.step}`;
+      markdown += ` (request ${operation.request + 1}, \`${operation.alias}\`)\n\n`;
+      markdown += "```json\n";
+      markdown += `${JSON.stringify(operation.variables, null, 2)}\n`;
+      markdown += "```\n\n";
+    }
+  });
+
+  markdown += "## Requests\n\n";
+  plan.requests.forEach((request, index) => {
+    markdown += `### Request ${index + 1}\n\n`;
+    markdown += "```graphql\n";
+    markdown += `${request.mutation.trim()}\n`;
+    markdown += "```\n\n";
+    markdown += "```json\n";
+    markdown += `${JSON.stringify(request.variables, null, 2)}\n`;
+    markdown += "```\n\n";
+  });
+
+  return markdown;
+}
+
+/**
+ * Exports a dry-run sync plan as JSON (loadable for execution) or Markdown (for review); triggers browser download.
+ * @param plan - Recorded sync plan.
+ * @param format - "json" or "markdown".
+ * @returns Promise resolving to the filename used for download.
+ * @throws If the plan is empty or the download fails.
+ * @source
+ */
+export async function exportSyncPlan(
+  plan: SyncPlan,
+  format: Extract<ExportFormat, "json" | "markdown">,
+): Promise<string> {
+  if (plan.entries.length === 0) {
+    throw createError(
+      ErrorType.VALIDATION,
+      "The sync plan is empty, so there is nothing to export.",
+    );
+  }
+
+  console.info(
+    `[Export] 📤 Exporting sync plan (${countPlannedOperations(plan)} updates in ${plan.requests.length} requests) as ${format}`,
+  );
+
+  const filename =
+    format === "json"
+      ? await exportToJson(
+          plan as unknown as Record<string, unknown>,
+          "anilist-sync-plan",
+        )
+      : downloadMarkdown(formatSyncPlanMarkdown(plan), "anilist-sync-plan");
+
+  console.info(`[Export] ✅ Exported sync plan to ${filename}`);
+  return filename;
+}
+
+/**
+ * Reads and validates a sync plan JSON file exported by exportSyncPlan.
+ * @param file - File object to parse.
+ * @returns The validated sync plan.
+ * @throws AppError if the file cannot be read, is not JSON or is not a valid plan.
+ * @source
+ */
+export async function loadSyncPlanFile(file: File): Promise<SyncPlan> {
+  if (!file.name.endsWith(".json")) {
+    throw createError(
+      ErrorType.IMPORT,
+      "Sync plans must be JSON files",
+      new Error("Invalid file type"),
+      "INVALID_FILE_TYPE",
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    throw createError(
+      ErrorType.IMPORT,
+      `Invalid JSON format: ${error instanceof Error ? error.message : "JSON parsing failed"}`,
+      error,
+      "INVALID_JSON",
+    );
+  }
+
+  const plan = parseSyncPlan(data);
+  console.info(
+    `[Import] 📥 Loaded sync plan with ${countPlannedOperations(plan)} updates in ${plan.requests.length} requests for ${plan.entries.length} entries`,
+  );
+  return plan;
+}
+
 /**
  * Saves sync report to storage for later reference; maintains history of 10 most recent reports.
  * @param report - The sync report to save (timestamp should be ISO 8601 string).
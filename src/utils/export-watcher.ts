@@ -0,0 +1,304 @@
+/**
+ * @packageDocumentation
+ * @module export-watcher
+ * @description Processes Kenmei exports picked up from the watched folder: merges them into the stored library, matches only the new titles, and optionally syncs confident matches.
+ */
+
+import { parseKenmeiCsvExport, parseKenmeiExport } from "../api/kenmei/parser";
+import type { KenmeiExport } from "../api/kenmei/types";
+import type { KenmeiMangaItem } from "../types/kenmei";
+import type { MangaMatchResult, ScoreFormat } from "../api/anilist/types";
+import {
+  batchMatchManga,
+  getBatchMatchOptions,
+} from "../api/matching/search-service";
+import {
+  applyAutoAcceptPolicy,
+  getAutoAcceptPolicy,
+} from "../api/matching/filtering";
+import { getUserMangaList } from "../api/anilist/client";
+import { getSyncBaselines } from "../api/anilist/sync-baseline";
+import {
+  hasChanges,
+  prepareAllEntriesToSync,
+} from "../components/sync/entry-preparation";
+import type { DetectedExportFile } from "../helpers/ipc/export-watcher/export-watcher-listeners";
+import {
+  clearPendingMangaStorage,
+  computeImportDiff,
+  getPreviousMangaData,
+  mergeMangaData,
+  normalizeMangaItems,
+  selectAddedManga,
+  toMatchableManga,
+  updateMatchResults,
+  validateMangaData,
+} from "./manga-import-utils";
+import {
+  getSyncConfig,
+  mergeMatchResults,
+  saveKenmeiData,
+  storage,
+  STORAGE_KEYS,
+  type ExportWatcherConfig,
+  type MatchResult,
+} from "./storage";
+import { runUnattendedSync } from "./sync-pipeline";
+
+/**
+ * Outcome of processing one watched export.
+ * @property filename - Export file that was processed.
+ * @property totalManga - Library size after merging the export.
+ * @property newTitles - Titles not present in the previously stored library.
+ * @property updatedTitles - Titles already stored whose Kenmei data was refreshed.
+ * @property matched - New titles accepted by the auto-accept policy or the auto-sync threshold.
+ * @property pendingReview - New titles left for manual review.
+ * @property autoSynced - Entries written to AniList by auto-sync.
+ * @property autoSyncFailed - Entries auto-sync attempted but failed to write.
+ * @property autoSyncSkipped - Auto-sync had entries to write but the access token would expire first.
+ * @source
+ */
+export interface ExportWatcherRunResult {
+  filename: string;
+  totalManga: number;
+  newTitles: number;
+  updatedTitles: number;
+  matched: number;
+  pendingReview: number;
+  autoSynced: number;
+  autoSyncFailed: number;
+  autoSyncSkipped: boolean;
+}
+
+/**
+ * Parses a detected export with the parser for its format.
+ * @param file - Export read from the watched folder.
+ * @returns Manga entries in the import page's item shape.
+ * @throws {Error} If the export cannot be parsed or has no entries.
+ * @source
+ */
+function parseDetectedExport(file: DetectedExportFile): KenmeiMangaItem[] {
+  const parseOptions = { defaultStatus: "plan_to_read" as const };
+  const parsed: KenmeiExport =
+    file.format === "json"
+      ? parseKenmeiExport(file.content, parseOptions)
+      : parseKenmeiCsvExport(file.content, parseOptions);
+
+  if (!parsed.manga || parsed.manga.length === 0) {
+    throw new Error(`No manga entries found in ${file.filename}`);
+  }
+
+  return parsed.manga.map((item) => ({
+    title: item.title,
+    status: item.status,
+    score: item.score,
+    chaptersRead: item.chaptersRead,
+    volumesRead: item.volumesRead,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    lastReadAt: item.lastReadAt,
+    notes: item.notes,
+    url: item.url,
+  }));
+}
+
+/**
+ * Accepts the pending results a review would not need.
+ * The matcher leaves every result pending, so the auto-accept policy runs first; with auto-sync on,
+ * results whose top candidate meets the watcher's threshold are accepted as well, since they are about to be synced.
+ * @param results - Pending match results for the new titles.
+ * @param config - Watcher configuration (auto-sync settings).
+ * @returns The results, with accepted ones set to `matched` and their top candidate selected.
+ * @source
+ */
+function acceptConfidentMatches(
+  results: MangaMatchResult[],
+  config: ExportWatcherConfig,
+): MangaMatchResult[] {
+  const accepted = [...results];
+  for (const { index, after } of applyAutoAcceptPolicy(
+    results,
+    getAutoAcceptPolicy(),
+  )) {
+    accepted[index] = after;
+  }
+  if (!config.autoSync) return accepted;
+
+  const acceptedAt = new Date().toISOString();
+  return accepted.map((result) => {
+    const top = result.anilistMatches?.[0];
+    if (
+      result.status !== "pending" ||
+      !top?.manga ||
+      top.confidence < config.autoSyncConfidenceThreshold
+    ) {
+      return result;
+    }
+    return {
+      ...result,
+      status: "matched",
+      selectedMatch: top.manga,
+      matchDate: acceptedAt,
+      autoAccept: {
+        reason: `${Math.round(top.confidence)}% confidence meets the export watcher's ${config.autoSyncConfidenceThreshold}% auto-sync threshold`,
+        acceptedAt,
+      },
+    };
+  });
+}
+
+/**
+ * Syncs new matches whose best candidate meets the confidence threshold.
+ * Uses the same preparation and change detection as the sync page, so sync settings and baselines apply,
+ * and the same pipeline around the writes: backup, rollback snapshot, verification, and sync history.
+ * @param results - Match results for the new titles.
+ * @param token - AniList access token.
+ * @param tokenExpiresAt - Expiry of the token in epoch milliseconds, when known.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @param threshold - Minimum confidence (0-100) for an entry to be synced.
+ * @returns Counts of synced and failed entries, and whether the sync was skipped for an expiring token.
+ * @source
+ */
+async function autoSyncConfidentMatches(
+  results: MangaMatchResult[],
+  token: string,
+  tokenExpiresAt: number | undefined,
+  scoreFormat: ScoreFormat,
+  threshold: number,
+): Promise<{ synced: number; failed: number; skipped: boolean }> {
+  const confident = results.filter(
+    (result) =>
+      result.status === "matched" &&
+      result.selectedMatch &&
+      (result.anilistMatches?.[0]?.confidence ?? 0) >= threshold,
+  );
+  if (confident.length === 0) return { synced: 0, failed: 0, skipped: false };
+
+  const userLibrary = await getUserMangaList(token);
+  const syncConfig = getSyncConfig();
+  const entries = prepareAllEntriesToSync(
+    confident,
+    userLibrary,
+    syncConfig,
+    scoreFormat,
+    getSyncBaselines(),
+  ).filter(
+    (entry) =>
+      hasChanges(entry, syncConfig, scoreFormat) &&
+      (entry.conflicts?.length ?? 0) === 0,
+  );
+  if (entries.length === 0) return { synced: 0, failed: 0, skipped: false };
+
+  console.info(
+    `[ExportWatcher] 🔄 Auto-syncing ${entries.length} entries at or above ${threshold}% confidence`,
+  );
+  const report = await runUnattendedSync(
+    entries,
+    token,
+    scoreFormat,
+    tokenExpiresAt,
+  );
+  if (!report) return { synced: 0, failed: 0, skipped: true };
+  return {
+    synced: report.successfulUpdates,
+    failed: report.failedUpdates,
+    skipped: false,
+  };
+}
+
+/**
+ * Imports a watched export and matches the titles it adds to the library.
+ * Existing titles are refreshed in place exactly as a manual import would; only new titles are searched on AniList.
+ * Entries with merge conflicts are never auto-synced and stay on the sync page for review.
+ * @param file - Export read from the watched folder.
+ * @param config - Watcher configuration (auto-sync settings).
+ * @param token - AniList access token; matching and auto-sync are skipped without one.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @param tokenExpiresAt - Expiry of the token in epoch milliseconds; auto-sync is skipped if it would expire mid-sync.
+ * @returns Summary of what the run changed.
+ * @throws {Error} If the export cannot be parsed.
+ * @source
+ */
+export async function processWatchedExport(
+  file: DetectedExportFile,
+  config: ExportWatcherConfig,
+  token: string | undefined,
+  scoreFormat: ScoreFormat,
+  tokenExpiresAt?: number,
+): Promise<ExportWatcherRunResult> {
+  console.info(`[ExportWatcher] 📥 Processing watched export ${file.filename}`);
+
+  const normalizedManga = normalizeMangaItems(parseDetectedExport(file));
+  const previousManga = getPreviousMangaData();
+  const { mergedManga, results } = mergeMangaData(
+    previousManga,
+    normalizedManga,
+  );
+
+  const validMergedManga = validateMangaData(mergedManga);
+  const newManga = selectAddedManga(
+    validMergedManga,
+    computeImportDiff(previousManga, normalizedManga),
+  );
+
+  saveKenmeiData({ manga: validMergedManga });
+  updateMatchResults(validMergedManga);
+  clearPendingMangaStorage();
+
+  const runResult: ExportWatcherRunResult = {
+    filename: file.filename,
+    totalManga: results.totalManga,
+    newTitles: results.newMangaCount,
+    updatedTitles: results.updatedMangaCount,
+    matched: 0,
+    pendingReview: 0,
+    autoSynced: 0,
+    autoSyncFailed: 0,
+    autoSyncSkipped: false,
+  };
+
+  if (newManga.length === 0) {
+    console.info("[ExportWatcher] ✅ No new titles in export");
+    return runResult;
+  }
+  if (!token) {
+    console.warn(
+      "[ExportWatcher] ⚠️ Not signed in to AniList; new titles left for manual matching",
+    );
+    runResult.pendingReview = newManga.length;
+    return runResult;
+  }
+
+  const matchResults = await batchMatchManga(
+    newManga.map(toMatchableManga),
+    token,
+    getBatchMatchOptions(),
+  );
+
+  const reviewedResults = acceptConfidentMatches(matchResults, config);
+  const merged = mergeMatchResults(reviewedResults as MatchResult[]);
+  storage.setItem(STORAGE_KEYS.MATCH_RESULTS, JSON.stringify(merged));
+
+  runResult.matched = reviewedResults.filter(
+    (result) => result.status === "matched",
+  ).length;
+  runResult.pendingReview = reviewedResults.length - runResult.matched;
+
+  if (config.autoSync) {
+    const { synced, failed, skipped } = await autoSyncConfidentMatches(
+      reviewedResults,
+      token,
+      tokenExpiresAt,
+      scoreFormat,
+      config.autoSyncConfidenceThreshold,
+    );
+    runResult.autoSynced = synced;
+    runResult.autoSyncFailed = failed;
+    runResult.autoSyncSkipped = skipped;
+  }
+
+  console.info(
+    `[ExportWatcher] ✅ Processed ${file.filename}: ${runResult.newTitles} new, ${runResult.matched} matched, ${runResult.autoSynced} auto-synced`,
+  );
+  return runResult;
+}
@@ -5,7 +5,17 @@
  */
 
 import { KenmeiMangaItem } from "../types/kenmei";
-import { MatchResult, KenmeiManga } from "./storage";
+import type {
+  KenmeiManga as MatchableManga,
+  KenmeiStatus,
+} from "../api/kenmei/types";
+import {
+  MatchResult,
+  KenmeiManga,
+  resolveStorageKey,
+  storage,
+  STORAGE_KEYS,
+} from "./storage";
 
 /**
  * Manga item with guaranteed unique identifier; used internally for import operations.
@@ -25,6 +35,53 @@ export interface ImportResults {
   totalManga: number;
 }
 
+/**
+ * A title whose Kenmei status differs between the previous and new export.
+ * @source
+ */
+export interface ImportStatusChange {
+  title: string;
+  previousStatus: string;
+  status: string;
+}
+
+/**
+ * A title whose chapter count differs between the previous and new export.
+ * @property delta - Chapters gained (negative if the count went down).
+ * @source
+ */
+export interface ImportChapterChange {
+  title: string;
+  previousChapters: number;
+  chapters: number;
+  delta: number;
+}
+
+/**
+ * Structured difference between the previously stored Kenmei data and a new export.
+ * @property added - Titles only in the new export.
+ * @property removed - Titles only in the stored data (kept on import; listed for visibility).
+ * @property statusChanges - Titles whose status changed.
+ * @property chapterChanges - Titles whose chapter count changed.
+ * @property unchangedCount - Titles present in both with no status or chapter change.
+ * @source
+ */
+export interface ImportDiff {
+  added: NormalizedMangaItem[];
+  removed: NormalizedMangaItem[];
+  statusChanges: ImportStatusChange[];
+  chapterChanges: ImportChapterChange[];
+  unchangedCount: number;
+}
+
+/**
+ * Which titles to send back through matching after an import.
+ * "added" keeps existing match results untouched and queues only new titles;
+ * "all" refreshes every existing match result with the new export data.
+ * @source
+ */
+export type RematchScope = "added" | "all";
+
 /**
  * Normalizes manga items by ensuring unique IDs and filling in default values for optional fields.
  * @param manga - Array of manga items to normalize.
@@ -47,6 +104,10 @@ export function normalizeMangaItems(
     createdAt: item.createdAt,
     updatedAt: item.updatedAt,
     lastReadAt: item.lastReadAt,
+    url: item.url,
+    anilistId: item.anilistId,
+    categories: item.categories,
+    malId: item.malId,
   }));
 
   console.debug(
@@ -65,7 +126,9 @@ export function getPreviousMangaData(): NormalizedMangaItem[] {
     "[MangaImport] Retrieving previous manga data from localStorage",
   );
 
-  const previousKenmeiData = localStorage.getItem("kenmei_data");
+  const previousKenmeiData = localStorage.getItem(
+    resolveStorageKey(STORAGE_KEYS.KENMEI_DATA),
+  );
   if (!previousKenmeiData) {
     console.debug("[MangaImport] No previous kenmei data found");
     return [];
@@ -155,6 +218,117 @@ export function mergeMangaData(
   };
 }
 
+/**
+ * Builds the case-insensitive key titles are compared by.
+ * @param title - Manga title.
+ * @returns Comparison key.
+ * @source
+ */
+function titleKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+/**
+ * Compares a new export against the previously stored manga by title.
+ * IDs are not used because CSV exports get fresh IDs on every import.
+ * @param previousManga - Previously stored manga items.
+ * @param incomingManga - Manga items from the new export.
+ * @returns Added, removed, and changed titles.
+ * @source
+ */
+export function computeImportDiff(
+  previousManga: NormalizedMangaItem[],
+  incomingManga: NormalizedMangaItem[],
+): ImportDiff {
+  const previousByTitle = new Map(
+    previousManga.map((manga) => [titleKey(manga.title), manga]),
+  );
+  const incomingTitles = new Set<string>();
+
+  const diff: ImportDiff = {
+    added: [],
+    removed: [],
+    statusChanges: [],
+    chapterChanges: [],
+    unchangedCount: 0,
+  };
+
+  for (const manga of incomingManga) {
+    const key = titleKey(manga.title);
+    if (incomingTitles.has(key)) continue;
+    incomingTitles.add(key);
+
+    const previous = previousByTitle.get(key);
+    if (!previous) {
+      diff.added.push(manga);
+      continue;
+    }
+
+    let changed = false;
+    if (previous.status !== manga.status) {
+      diff.statusChanges.push({
+        title: manga.title,
+        previousStatus: previous.status,
+        status: manga.status,
+      });
+      changed = true;
+    }
+
+    const previousChapters = previous.chaptersRead ?? 0;
+    const chapters = manga.chaptersRead ?? 0;
+    if (previousChapters !== chapters) {
+      diff.chapterChanges.push({
+        title: manga.title,
+        previousChapters,
+        chapters,
+        delta: chapters - previousChapters,
+      });
+      changed = true;
+    }
+
+    if (!changed) diff.unchangedCount++;
+  }
+
+  diff.removed = previousManga.filter(
+    (manga) => !incomingTitles.has(titleKey(manga.title)),
+  );
+
+  console.info(
+    `[MangaImport] Import diff: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.statusChanges.length} status changes, ${diff.chapterChanges.length} chapter changes, ${diff.unchangedCount} unchanged`,
+  );
+
+  return diff;
+}
+
+/**
+ * Collects the comparison keys of titles whose status or chapters changed.
+ * @param diff - Import diff.
+ * @returns Lowercased titles of changed entries.
+ * @source
+ */
+export function getChangedTitleKeys(diff: ImportDiff): Set<string> {
+  return new Set(
+    [...diff.statusChanges, ...diff.chapterChanges].map((change) =>
+      titleKey(change.title),
+    ),
+  );
+}
+
+/**
+ * Picks the stored entries for the titles an import added.
+ * @param manga - Validated, merged manga items.
+ * @param diff - Import diff.
+ * @returns Entries whose titles were added by the import.
+ * @source
+ */
+export function selectAddedManga(
+  manga: KenmeiManga[],
+  diff: ImportDiff,
+): KenmeiManga[] {
+  const addedKeys = new Set(diff.added.map((m) => titleKey(m.title)));
+  return manga.filter((m) => addedKeys.has(titleKey(m.title)));
+}
+
 /**
  * Validates and standardizes manga data with proper IDs, timestamps, and default field values for storage.
  * @param manga - Array of normalized manga items to validate.
@@ -175,6 +349,10 @@ export function validateMangaData(manga: NormalizedMangaItem[]): KenmeiManga[] {
     createdAt: mangaItem.createdAt ?? new Date().toISOString(),
     updatedAt: mangaItem.updatedAt ?? new Date().toISOString(),
     lastReadAt: mangaItem.lastReadAt,
+    url: mangaItem.url,
+    anilistId: mangaItem.anilistId,
+    categories: mangaItem.categories,
+    malId: mangaItem.malId,
   }));
 
   console.debug(
@@ -183,16 +361,48 @@ export function validateMangaData(manga: NormalizedMangaItem[]): KenmeiManga[] {
   return validated;
 }
 
+/**
+ * Maps a stored manga entry to the shape the matcher takes.
+ * Stored IDs may be generated strings and statuses are kept as exported, so both are carried
+ * through unchanged, as the matching page does with the stored library.
+ * @param manga - Validated manga entry from storage.
+ * @returns Manga entry for batch matching.
+ * @source
+ */
+export function toMatchableManga(manga: KenmeiManga): MatchableManga {
+  return {
+    id: manga.id as number,
+    title: manga.title,
+    status: manga.status as KenmeiStatus,
+    score: manga.score,
+    url: manga.url ?? "",
+    chaptersRead: manga.chaptersRead,
+    volumesRead: manga.volumesRead,
+    notes: manga.notes,
+    lastReadAt: manga.lastReadAt,
+    createdAt: manga.createdAt,
+    updatedAt: manga.updatedAt,
+    anilistId: manga.anilistId,
+    malId: manga.malId,
+  };
+}
+
 /**
  * Updates match results with new manga data from import by matching on ID or title.
  * @param validMergedManga - Array of validated, merged manga items.
+ * @param onlyTitleKeys - Optional lowercased titles to limit the update to; other results are left untouched.
  * @returns True if any match results were updated; false otherwise.
  * @source
  */
-export function updateMatchResults(validMergedManga: KenmeiManga[]): boolean {
+export function updateMatchResults(
+  validMergedManga: KenmeiManga[],
+  onlyTitleKeys?: Set<string>,
+): boolean {
   console.debug("[MangaImport] Attempting to update existing match results");
 
-  const matchResultsRaw = localStorage.getItem("match_results");
+  const matchResultsRaw = localStorage.getItem(
+    resolveStorageKey(STORAGE_KEYS.MATCH_RESULTS),
+  );
   if (!matchResultsRaw) {
     console.debug("[MangaImport] No existing match results found");
     return false;
@@ -217,6 +427,13 @@ export function updateMatchResults(validMergedManga: KenmeiManga[]): boolean {
 
   let updated = false;
   const updatedResults = matchResults.map((result: MatchResult) => {
+    if (
+      onlyTitleKeys &&
+      !onlyTitleKeys.has(titleKey(result.kenmeiManga?.title ?? ""))
+    ) {
+      return result;
+    }
+
     let newMangaData = null;
 
     // Try to find by ID first
@@ -253,7 +470,10 @@ export function updateMatchResults(validMergedManga: KenmeiManga[]): boolean {
     );
     const updatedResultsJson = JSON.stringify(updatedResults);
     if (globalThis.electronStore) {
-      globalThis.electronStore.setItem("match_results", updatedResultsJson);
+      globalThis.electronStore.setItem(
+        resolveStorageKey(STORAGE_KEYS.MATCH_RESULTS),
+        updatedResultsJson,
+      );
     }
   }
 
@@ -268,9 +488,26 @@ export function clearPendingMangaStorage(): void {
   console.debug(
     "[MangaImport] Clearing pending manga storage after import to force recalculation",
   );
+  const pendingKey = resolveStorageKey(STORAGE_KEYS.PENDING_MANGA);
   if (globalThis.electronStore) {
-    globalThis.electronStore.removeItem("pending_manga");
+    globalThis.electronStore.removeItem(pendingKey);
   }
   // Also clear from localStorage as fallback
-  localStorage.removeItem("pending_manga");
+  localStorage.removeItem(pendingKey);
+}
+
+/**
+ * Replaces the pending manga queue so match review offers exactly these titles for matching.
+ * @param manga - Manga entries to queue.
+ * @source
+ */
+export function queuePendingManga(manga: KenmeiManga[]): void {
+  console.debug(
+    `[MangaImport] Queueing ${manga.length} manga for matching after import`,
+  );
+  if (manga.length === 0) {
+    clearPendingMangaStorage();
+    return;
+  }
+  storage.setItem(STORAGE_KEYS.PENDING_MANGA, JSON.stringify(manga));
 }
@@ -0,0 +1,497 @@
+/**
+ * @packageDocumentation
+ * @module rule-packs
+ * @description Shareable rule packs: versioned JSON documents holding custom skip/accept rules and blacklist items, with export, validated import, conflict detection, and merge or replace into the match configuration.
+ */
+
+import {
+  migrateCustomRule,
+  validateCustomRule,
+  type BlacklistConfig,
+  type CustomRule,
+  type CustomRulesConfig,
+  type CustomRuleTarget,
+  type MatchConfig,
+} from "@/utils/storage";
+import type { CustomRuleWarningId } from "@/utils/customRuleMessages";
+import { getAppVersion } from "@/utils/app-version";
+import { exportToJson } from "@/utils/export-utils";
+
+/** Format marker identifying a rule pack file. @source */
+export const RULE_PACK_FORMAT = "kenmei-rule-pack";
+
+/** Current rule pack version. @source */
+export const RULE_PACK_VERSION = 1;
+
+/**
+ * Window event dispatched after a rule pack is applied, so rule editors reload the match configuration.
+ * @source
+ */
+export const RULE_PACK_APPLIED_EVENT = "matching:rule-pack-applied";
+
+/**
+ * A blacklisted title.
+ * @source
+ */
+export type BlacklistItem = BlacklistConfig["items"][number];
+
+/**
+ * A custom rule as stored in a rule pack. IDs and creation dates are local to each
+ * installation and are assigned on import.
+ * @source
+ */
+export type RulePackRule = Omit<CustomRule, "id" | "createdAt">;
+
+/**
+ * Name, author and description shown when a rule pack is imported.
+ * @source
+ */
+export interface RulePackInfo {
+  name: string;
+  author: string;
+  description: string;
+}
+
+/**
+ * Versioned, shareable set of custom rules and blacklist items.
+ * @source
+ */
+export interface RulePack extends RulePackInfo {
+  format: typeof RULE_PACK_FORMAT;
+  version: number;
+  /** ISO timestamp of when the pack was exported */
+  createdAt: string;
+  /** Application version that exported the pack */
+  appVersion: string;
+  skipRules: RulePackRule[];
+  acceptRules: RulePackRule[];
+  blacklist: BlacklistItem[];
+}
+
+/**
+ * Rule pack section a rule or item belongs to.
+ * @source
+ */
+export type RulePackSection = "skip" | "accept" | "blacklist";
+
+/**
+ * A rule from a pack that failed validation and is left out of the import.
+ * @source
+ */
+export interface RulePackInvalidRule {
+  section: "skip" | "accept";
+  pattern: string;
+  description: string;
+  error: string;
+}
+
+/**
+ * A valid rule from a pack that triggered a validation warning.
+ * @source
+ */
+export interface RulePackRuleWarning {
+  section: "skip" | "accept";
+  rule: CustomRule;
+  warning: CustomRuleWarningId;
+}
+
+/**
+ * A pack rule or item that collides with the current configuration.
+ * - `duplicate`: the same pattern (or title) already exists in the same section; merging keeps the existing one.
+ * - `opposing`: the same pattern exists as the opposite rule type (skip vs accept); merging keeps both.
+ * @source
+ */
+export interface RulePackConflict {
+  kind: "duplicate" | "opposing";
+  section: RulePackSection;
+  /** Pattern or blacklisted title from the pack */
+  value: string;
+  /** Description of the rule or item from the pack */
+  incoming: string;
+  /** Description of the existing rule or item */
+  existing: string;
+}
+
+/**
+ * Result of parsing a rule pack file.
+ * @source
+ */
+export interface ParsedRulePack {
+  /** Pack info and the rules and items that passed validation, with fresh IDs */
+  info: RulePackInfo & { version: number; appVersion: string };
+  skipRules: CustomRule[];
+  acceptRules: CustomRule[];
+  blacklist: BlacklistItem[];
+  invalidRules: RulePackInvalidRule[];
+  warnings: RulePackRuleWarning[];
+}
+
+/**
+ * Rules and blacklist edited by rule packs.
+ * @source
+ */
+export type RulePackTarget = Pick<MatchConfig, "customRules" | "blacklist">;
+
+/** @internal */
+const EMPTY_CUSTOM_RULES: CustomRulesConfig = {
+  skipRules: [],
+  acceptRules: [],
+};
+
+/** @internal */
+const EMPTY_BLACKLIST: BlacklistConfig = { enabled: true, items: [] };
+
+/**
+ * Strips local fields from a custom rule for sharing.
+ * @internal
+ */
+function toPackRule(rule: CustomRule): RulePackRule {
+  return {
+    pattern: rule.pattern,
+    description: rule.description,
+    enabled: rule.enabled,
+    caseSensitive: rule.caseSensitive,
+    targetFields: rule.targetFields,
+  };
+}
+
+/**
+ * Builds a rule pack from the current rules and blacklist.
+ * @param info - Pack name, author and description.
+ * @param config - Match configuration to take rules and blacklist items from.
+ * @param sections - Sections to include (default: all).
+ * @returns The rule pack.
+ * @source
+ */
+export function createRulePack(
+  info: RulePackInfo,
+  config: RulePackTarget,
+  sections: readonly RulePackSection[] = ["skip", "accept", "blacklist"],
+): RulePack {
+  const customRules = config.customRules ?? EMPTY_CUSTOM_RULES;
+  return {
+    format: RULE_PACK_FORMAT,
+    version: RULE_PACK_VERSION,
+    name: info.name.trim(),
+    author: info.author.trim(),
+    description: info.description.trim(),
+    createdAt: new Date().toISOString(),
+    appVersion: getAppVersion(),
+    skipRules: sections.includes("skip")
+      ? customRules.skipRules.map(toPackRule)
+      : [],
+    acceptRules: sections.includes("accept")
+      ? customRules.acceptRules.map(toPackRule)
+      : [],
+    blacklist: sections.includes("blacklist")
+      ? (config.blacklist?.items ?? []).map((item) => ({ ...item }))
+      : [],
+  };
+}
+
+/**
+ * Downloads a rule pack as a JSON file.
+ * @param pack - Rule pack to export.
+ * @returns The exported filename.
+ * @source
+ */
+export async function exportRulePack(pack: RulePack): Promise<string> {
+  console.info(
+    `[RulePacks] 📦 Exporting rule pack "${pack.name}": ${pack.skipRules.length} skip, ${pack.acceptRules.length} accept, ${pack.blacklist.length} blacklist`,
+  );
+  return exportToJson(
+    pack as unknown as Record<string, unknown>,
+    `rule-pack-${pack.name || "untitled"}`,
+  );
+}
+
+/**
+ * Reads the known rule fields from untrusted pack data, dropping values of the wrong type.
+ * @internal
+ */
+function readPackRule(value: unknown): Partial<CustomRule> {
+  if (!value || typeof value !== "object") return {};
+  const raw = value as Record<string, unknown>;
+  return {
+    pattern: typeof raw.pattern === "string" ? raw.pattern : undefined,
+    description:
+      typeof raw.description === "string" ? raw.description : undefined,
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : undefined,
+    caseSensitive:
+      typeof raw.caseSensitive === "boolean" ? raw.caseSensitive : undefined,
+    targetFields: Array.isArray(raw.targetFields)
+      ? (raw.targetFields.filter(
+          (field) => typeof field === "string",
+        ) as CustomRuleTarget[])
+      : undefined,
+  };
+}
+
+/**
+ * Migrates and validates the rules of one pack section.
+ * @internal
+ */
+function readPackRules(
+  values: unknown,
+  section: "skip" | "accept",
+  invalidRules: RulePackInvalidRule[],
+  warnings: RulePackRuleWarning[],
+): CustomRule[] {
+  if (!Array.isArray(values)) return [];
+
+  const rules: CustomRule[] = [];
+  for (const value of values) {
+    // Fresh ID and creation date; pack rules never carry local ones
+    const rule = migrateCustomRule(readPackRule(value));
+    const validation = validateCustomRule(rule);
+    if (!validation.valid) {
+      invalidRules.push({
+        section,
+        pattern: rule.pattern,
+        description: rule.description,
+        error: validation.error || "Invalid rule",
+      });
+      continue;
+    }
+    if (validation.warning) {
+      warnings.push({ section, rule, warning: validation.warning });
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * Reads blacklist items from untrusted pack data, dropping empty and repeated titles.
+ * @internal
+ */
+function readPackBlacklist(values: unknown): BlacklistItem[] {
+  if (!Array.isArray(values)) return [];
+
+  const seen = new Set<string>();
+  const items: BlacklistItem[] = [];
+  for (const value of values) {
+    const raw = (value ?? {}) as Record<string, unknown>;
+    const title = typeof raw.title === "string" ? raw.title.trim() : "";
+    if (!title || seen.has(title.toLowerCase())) continue;
+    seen.add(title.toLowerCase());
+    items.push({
+      title,
+      enabled: typeof raw.enabled === "boolean" ? raw.enabled : true,
+    });
+  }
+  return items;
+}
+
+/**
+ * Parses and validates a rule pack file.
+ * Each rule is migrated with `migrateCustomRule` and checked with `validateCustomRule`;
+ * invalid rules are reported and left out instead of failing the whole pack.
+ * @param content - Rule pack file contents.
+ * @returns The valid rules and items, plus invalid rules and warnings.
+ * @throws {Error} If the contents are not a rule pack or the pack version is unsupported.
+ * @source
+ */
+export function parseRulePack(content: string): ParsedRulePack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid rule pack file: ${
+        error instanceof Error ? error.message : "JSON parse error"
+      }`,
+    );
+  }
+
+  const raw = (parsed ?? {}) as Record<string, unknown>;
+  if (raw.format !== RULE_PACK_FORMAT) {
+    throw new Error("This file is not a rule pack");
+  }
+  const version = typeof raw.version === "number" ? raw.version : 1;
+  if (version > RULE_PACK_VERSION) {
+    throw new Error(
+      `Rule pack version ${version} is newer than supported version ${RULE_PACK_VERSION}. Update the app to import it.`,
+    );
+  }
+
+  const invalidRules: RulePackInvalidRule[] = [];
+  const warnings: RulePackRuleWarning[] = [];
+  return {
+    info: {
+      name: typeof raw.name === "string" ? raw.name : "",
+      author: typeof raw.author === "string" ? raw.author : "",
+      description: typeof raw.description === "string" ? raw.description : "",
+      version,
+      appVersion: typeof raw.appVersion === "string" ? raw.appVersion : "",
+    },
+    skipRules: readPackRules(raw.skipRules, "skip", invalidRules, warnings),
+    acceptRules: readPackRules(
+      raw.acceptRules,
+      "accept",
+      invalidRules,
+      warnings,
+    ),
+    blacklist: readPackBlacklist(raw.blacklist),
+    invalidRules,
+    warnings,
+  };
+}
+
+/**
+ * Identity used to compare rules: the pattern, lowercased unless the rule is case-sensitive.
+ * @internal
+ */
+function getRuleKey(rule: CustomRule): string {
+  return rule.caseSensitive ? rule.pattern : rule.pattern.toLowerCase();
+}
+
+/**
+ * Lists conflicts between one incoming rule section and the current rules.
+ * @internal
+ */
+function findRuleConflicts(
+  section: "skip" | "accept",
+  incoming: CustomRule[],
+  current: CustomRulesConfig,
+): RulePackConflict[] {
+  const same = new Map(
+    (section === "skip" ? current.skipRules : current.acceptRules).map(
+      (rule) => [getRuleKey(rule), rule],
+    ),
+  );
+  const opposite = new Map(
+    (section === "skip" ? current.acceptRules : current.skipRules).map(
+      (rule) => [getRuleKey(rule), rule],
+    ),
+  );
+
+  const conflicts: RulePackConflict[] = [];
+  for (const rule of incoming) {
+    const key = getRuleKey(rule);
+    const existing = same.get(key);
+    const opposing = opposite.get(key);
+    if (existing) {
+      conflicts.push({
+        kind: "duplicate",
+        section,
+        value: rule.pattern,
+        incoming: rule.description,
+        existing: existing.description,
+      });
+    }
+    if (opposing) {
+      conflicts.push({
+        kind: "opposing",
+        section,
+        value: rule.pattern,
+        incoming: rule.description,
+        existing: opposing.description,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Lists rules and blacklist items in a pack that collide with the current configuration.
+ * @param pack - Parsed rule pack.
+ * @param config - Current match configuration.
+ * @returns Conflicts, skip rules first, then accept rules, then blacklist items.
+ * @source
+ */
+export function findRulePackConflicts(
+  pack: ParsedRulePack,
+  config: RulePackTarget,
+): RulePackConflict[] {
+  const customRules = config.customRules ?? EMPTY_CUSTOM_RULES;
+  const blacklistTitles = new Map(
+    (config.blacklist?.items ?? []).map((item) => [
+      item.title.toLowerCase(),
+      item,
+    ]),
+  );
+
+  return [
+    ...findRuleConflicts("skip", pack.skipRules, customRules),
+    ...findRuleConflicts("accept", pack.acceptRules, customRules),
+    ...pack.blacklist
+      .filter((item) => blacklistTitles.has(item.title.toLowerCase()))
+      .map(
+        (item): RulePackConflict => ({
+          kind: "duplicate",
+          section: "blacklist",
+          value: item.title,
+          incoming: item.title,
+          existing: blacklistTitles.get(item.title.toLowerCase())!.title,
+        }),
+      ),
+  ];
+}
+
+/**
+ * Appends rules whose pattern is not already in the list.
+ * @internal
+ */
+function mergeRules(current: CustomRule[], incoming: CustomRule[]) {
+  const keys = new Set(current.map(getRuleKey));
+  return [
+    ...current,
+    ...incoming.filter((rule) => !keys.has(getRuleKey(rule))),
+  ];
+}
+
+/**
+ * Applies a parsed rule pack to the match configuration.
+ * Merge adds the pack's rules and titles that are not already present. Replace swaps each
+ * section the pack contains for the pack's version; sections the pack leaves empty are kept.
+ * @param pack - Parsed rule pack.
+ * @param config - Current match configuration.
+ * @param mode - Whether to merge with or replace the current rules.
+ * @returns The updated custom rules and blacklist.
+ * @source
+ */
+export function applyRulePack(
+  pack: ParsedRulePack,
+  config: RulePackTarget,
+  mode: "merge" | "replace",
+): Required<RulePackTarget> {
+  const customRules = config.customRules ?? EMPTY_CUSTOM_RULES;
+  const blacklist = config.blacklist ?? EMPTY_BLACKLIST;
+
+  if (mode === "replace") {
+    return {
+      customRules: {
+        skipRules:
+          pack.skipRules.length > 0 ? pack.skipRules : customRules.skipRules,
+        acceptRules:
+          pack.acceptRules.length > 0
+            ? pack.acceptRules
+            : customRules.acceptRules,
+      },
+      blacklist: {
+        ...blacklist,
+        items: pack.blacklist.length > 0 ? pack.blacklist : blacklist.items,
+      },
+    };
+  }
+
+  const titles = new Set(
+    blacklist.items.map((item) => item.title.toLowerCase()),
+  );
+  return {
+    customRules: {
+      skipRules: mergeRules(customRules.skipRules, pack.skipRules),
+      acceptRules: mergeRules(customRules.acceptRules, pack.acceptRules),
+    },
+    blacklist: {
+      ...blacklist,
+      items: [
+        ...blacklist.items,
+        ...pack.blacklist.filter(
+          (item) => !titles.has(item.title.toLowerCase()),
+        ),
+      ],
+    },
+  };
+}
@@ -10,6 +10,7 @@ import type {
 import { defaultAdvancedFilters } from "../types/matching-filters";
 import { captureError, ErrorType } from "./error-handling";
 import { CustomRuleWarningId } from "./customRuleMessages";
+import type { BackupCategory } from "./backup-registry";
 
 declare global {
   interface Window {
@@ -37,6 +38,14 @@ export interface KenmeiManga {
   createdAt: string;
   updatedAt: string;
   lastReadAt?: string;
+  /** Series URL from the export, resolved to an AniList ID before title search */
+  url?: string;
+  /** AniList ID bound by the source app's tracker (e.g. Mihon) */
+  anilistId?: number;
+  /** Library categories from the source app */
+  categories?: string[];
+  /** MyAnimeList ID from the source export */
+  malId?: number;
 }
 
 /**
@@ -87,6 +96,7 @@ export interface MatchResult {
   selectedMatch?: AnilistMatch;
   status: string;
   matchDate?: string;
+  autoAccept?: { reason: string; acceptedAt: string };
 }
 
 /**
@@ -181,6 +191,78 @@ const clearLocalStorageValues = (): void => {
   }
 };
 
+/** Raw key holding the active AniList account ID, read by the main process as well. */
+const ACTIVE_ACCOUNT_ID_KEY = "active_account_id";
+
+/**
+ * Active account ID for namespaced keys. `undefined` until first read from
+ * storage; `null` when no account is active (keys stay global).
+ */
+let activeStorageAccountId: string | null | undefined;
+
+/**
+ * Returns the storage key for a given account. Account-scoped keys are
+ * prefixed with `account_<id>:`; all other keys are returned unchanged.
+ * @param key - Base storage key.
+ * @param accountId - AniList user ID, or null for the global namespace.
+ * @returns The key to read and write.
+ * @source
+ */
+export function getAccountScopedKey(
+  key: string,
+  accountId: string | number | null | undefined,
+): string {
+  if (accountId === null || accountId === undefined) return key;
+  if (!ACCOUNT_SCOPED_KEYS.has(key)) return key;
+  return `account_${accountId}:${key}`;
+}
+
+/**
+ * Returns the active storage account, loading it from storage on first use.
+ * @returns Active account ID, or null if storage is not namespaced.
+ * @source
+ */
+export function getActiveStorageAccount(): string | null {
+  if (activeStorageAccountId === undefined) {
+    activeStorageAccountId =
+      storageCache[ACTIVE_ACCOUNT_ID_KEY] ??
+      readLocalStorageValue(ACTIVE_ACCOUNT_ID_KEY);
+  }
+  return activeStorageAccountId;
+}
+
+/**
+ * Switches the namespace used for account-scoped keys and persists the choice.
+ * @param accountId - AniList user ID, or null to fall back to global keys.
+ * @source
+ */
+export function setActiveStorageAccount(
+  accountId: string | number | null,
+): void {
+  const nextId = accountId === null ? null : String(accountId);
+  if (getActiveStorageAccount() === nextId) return;
+
+  activeStorageAccountId = nextId;
+  if (nextId === null) {
+    storage.removeItem(ACTIVE_ACCOUNT_ID_KEY);
+  } else {
+    storage.setItem(ACTIVE_ACCOUNT_ID_KEY, nextId);
+  }
+  console.info(
+    `[Storage] 👤 Active storage account: ${nextId ?? "none (global)"}`,
+  );
+}
+
+/**
+ * Resolves a key against the active account namespace.
+ * @param key - Base storage key.
+ * @returns The key to read and write.
+ * @source
+ */
+export function resolveStorageKey(key: string): string {
+  return getAccountScopedKey(key, getActiveStorageAccount());
+}
+
 /**
  * Unified storage abstraction across cache, localStorage, and electron-store.
  * @source
@@ -188,11 +270,12 @@ const clearLocalStorageValues = (): void => {
 export const storage = {
   /**
    * Retrieves a value from cache or localStorage.
-   * @param key - Storage key.
+   * @param storageKey - Storage key; account-scoped keys resolve to the active account's namespace.
    * @returns The stored value, or null if not found.
    * @source
    */
-  getItem: (key: string): string | null => {
+  getItem: (storageKey: string): string | null => {
+    const key = resolveStorageKey(storageKey);
     try {
       // Check cache first to avoid redundant reads
       if (key in storageCache) {
@@ -223,11 +306,12 @@ export const storage = {
   /**
    * Stores a value across all storage layers (cache, localStorage, electron-store).
    * Skips writes if the value hasn't changed in the cache.
-   * @param key - Storage key.
+   * @param storageKey - Storage key; account-scoped keys resolve to the active account's namespace.
    * @param value - Value to store.
    * @source
    */
-  setItem: (key: string, value: string): void => {
+  setItem: (storageKey: string, value: string): void => {
+    const key = resolveStorageKey(storageKey);
     try {
       // Redundancy check: skip write if value hasn't changed in cache
       // This prevents unnecessary I/O, but can cause drift if layers get out of sync
@@ -269,10 +353,11 @@ export const storage = {
 
   /**
    * Removes a value from all storage layers.
-   * @param key - Storage key to remove.
+   * @param storageKey - Storage key to remove; account-scoped keys resolve to the active account's namespace.
    * @source
    */
-  removeItem: (key: string): void => {
+  removeItem: (storageKey: string): void => {
+    const key = resolveStorageKey(storageKey);
     try {
       console.debug(`[Storage] 🔍 Removing item: ${key}`);
 
@@ -340,21 +425,23 @@ export const storage = {
 
   /**
    * Stores a value to electron-store (authoritative), then syncs to localStorage.
-   * @param key - Storage key.
+   * @param storageKey - Storage key; account-scoped keys resolve to the active account's namespace.
    * @param value - Value to store.
    * @returns Promise that resolves when complete.
    * @source
    */
-  setItemAsync: async (key: string, value: string): Promise<void> => {
+  setItemAsync: async (storageKey: string, value: string): Promise<void> => {
     if (!globalThis.electronStore) {
       // Fallback to sync method if no electron store
       console.debug(
-        `[Storage] 🔍 No electron-store available, using sync setItem for ${key}`,
+        `[Storage] 🔍 No electron-store available, using sync setItem for ${storageKey}`,
       );
-      storage.setItem(key, value);
+      storage.setItem(storageKey, value);
       return;
     }
 
+    const key = resolveStorageKey(storageKey);
+
     try {
       console.debug(
         `[Storage] 🔍 Async setting item: ${key} (${value.length} bytes)`,
@@ -382,11 +469,12 @@ export const storage = {
   },
   /**
    * Retrieves a value, preferring electron-store (authoritative) over localStorage.
-   * @param key - Storage key.
+   * @param storageKey - Storage key; account-scoped keys resolve to the active account's namespace.
    * @returns Promise resolving to the stored value or null.
    * @source
    */
-  getItemAsync: async (key: string): Promise<string | null> => {
+  getItemAsync: async (storageKey: string): Promise<string | null> => {
+    const key = resolveStorageKey(storageKey);
     if (globalThis.electronStore) {
       try {
         console.debug(`[Storage] 🔍 Async getting item: ${key}`);
@@ -509,6 +597,57 @@ async function syncAuthState(): Promise<number> {
   return 0;
 }
 
+/**
+ * Copies global (pre-multi-account) values of account-scoped keys into an
+ * account's namespace, then removes the global copies so no other account
+ * inherits them. Keys the account already has are left untouched.
+ * @param accountId - AniList user ID that takes over the existing data.
+ * @returns Number of keys copied.
+ * @source
+ */
+export async function claimLegacyStorage(
+  accountId: string | number,
+): Promise<number> {
+  let claimed = 0;
+  for (const key of ACCOUNT_SCOPED_KEYS) {
+    const scopedKey = getAccountScopedKey(key, accountId);
+    try {
+      const legacyValue =
+        (await globalThis.electronStore?.getItem(key)) ??
+        readLocalStorageValue(key);
+      if (legacyValue === null) continue;
+
+      const existing =
+        (await globalThis.electronStore?.getItem(scopedKey)) ??
+        readLocalStorageValue(scopedKey);
+      if (existing === null) {
+        storageCache[scopedKey] = legacyValue;
+        writeLocalStorageValue(scopedKey, legacyValue);
+        await globalThis.electronStore?.setItem(scopedKey, legacyValue);
+        claimed++;
+      }
+
+      delete storageCache[key];
+      removeLocalStorageValue(key);
+      await globalThis.electronStore?.removeItem(key);
+    } catch (error) {
+      captureError(
+        ErrorType.STORAGE,
+        `Error claiming legacy storage key: ${key}`,
+        error instanceof Error ? error : new Error(String(error)),
+        { key, accountId, operation: "claim" },
+      );
+    }
+  }
+
+  if (claimed > 0) {
+    console.info(
+      `[Storage] 📦 Moved ${claimed} existing keys into account ${accountId}`,
+    );
+  }
+  return claimed;
+}
+
 export async function initializeStorage(): Promise<void> {
   if (!globalThis.electronStore) {
     console.debug("[Storage] 🔧 Electron store not available, skipping sync");
@@ -528,6 +667,14 @@ export async function initializeStorage(): Promise<void> {
     // Also sync auth state
     syncCount += await syncAuthState();
 
+    // Sync account-scoped keys for every known account
+    activeStorageAccountId = undefined;
+    for (const accountId of getStoredAccountIds()) {
+      for (const key of ACCOUNT_SCOPED_KEYS) {
+        syncCount += await syncStorageKey(getAccountScopedKey(key, accountId));
+      }
+    }
+
     console.info(
       `[Storage] ✅ Synced ${syncCount} keys from electron-store to localStorage`,
     );
@@ -575,8 +722,57 @@ export const STORAGE_KEYS = {
   READING_HISTORY: "reading_history",
   FAILED_OPERATIONS: "failed_operations",
   SETTINGS_COLLAPSED_SECTIONS: "settings_collapsed_sections",
+  SYNC_BASELINES: "sync_baselines",
+  CSV_MAPPING_PROFILES: "csv_mapping_profiles",
+  MATCH_DECISIONS: "match_decisions",
+  CONFIDENCE_CALIBRATION: "confidence_calibration",
+  ACCOUNTS: "anilist_accounts",
+  ACTIVE_ACCOUNT_ID: ACTIVE_ACCOUNT_ID_KEY,
 };
 
+/**
+ * Keys that hold per-account data (library, matches, sync state, backups).
+ * They are stored under `account_<id>:<key>` for the active account.
+ * @source
+ */
+export const ACCOUNT_SCOPED_KEYS: ReadonlySet<string> = new Set([
+  STORAGE_KEYS.KENMEI_DATA,
+  STORAGE_KEYS.IMPORT_STATS,
+  STORAGE_KEYS.MATCH_RESULTS,
+  STORAGE_KEYS.CONFIDENCE_RECALC_METADATA,
+  STORAGE_KEYS.PENDING_MANGA,
+  STORAGE_KEYS.SYNC_STATS,
+  STORAGE_KEYS.IGNORED_DUPLICATES,
+  STORAGE_KEYS.ACTIVE_SYNC_SNAPSHOT,
+  STORAGE_KEYS.BACKUP_HISTORY,
+  STORAGE_KEYS.SYNC_HISTORY,
+  STORAGE_KEYS.READING_HISTORY,
+  STORAGE_KEYS.FAILED_OPERATIONS,
+  STORAGE_KEYS.SYNC_BASELINES,
+  STORAGE_KEYS.MATCH_DECISIONS,
+  STORAGE_KEYS.CONFIDENCE_CALIBRATION,
+]);
+
+/**
+ * Reads the IDs of saved AniList accounts.
+ * @returns Account IDs, empty if none are saved.
+ * @source
+ */
+function getStoredAccountIds(): string[] {
+  try {
+    const saved = storageCache[STORAGE_KEYS.ACCOUNTS];
+    if (!saved) return [];
+    const parsed = JSON.parse(saved) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((account) => (account as { userId?: unknown })?.userId)
+      .filter((id): id is number | string => id !== undefined && id !== null)
+      .map(String);
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Current cache schema version. Increment when breaking changes occur.
  * @source
@@ -591,6 +787,10 @@ export interface SyncConfig {
   prioritizeAniListStatus: boolean;
   prioritizeAniListProgress: boolean;
   prioritizeAniListScore: boolean;
+  prioritizeAniListVolumes: boolean;
+  prioritizeAniListNotes: boolean;
+  prioritizeAniListStartedAt: boolean;
+  prioritizeAniListCompletedAt: boolean;
   preserveCompletedStatus: boolean;
   setPrivate: boolean;
   incrementalSync: boolean;
@@ -600,6 +800,9 @@ export interface SyncConfig {
   updateStatus: boolean;
   updateProgress: boolean;
   overwriteExisting: boolean;
+  customListRules: CustomListRule[];
+  threeWayMerge: boolean;
+  verifyAfterSync: boolean;
 }
 
 /**
@@ -610,6 +813,10 @@ export const DEFAULT_SYNC_CONFIG: SyncConfig = {
   prioritizeAniListStatus: false,
   prioritizeAniListProgress: true,
   prioritizeAniListScore: true,
+  prioritizeAniListVolumes: true,
+  prioritizeAniListNotes: true,
+  prioritizeAniListStartedAt: true,
+  prioritizeAniListCompletedAt: true,
   preserveCompletedStatus: true,
   incrementalSync: false,
   setPrivate: false,
@@ -619,6 +826,9 @@ export const DEFAULT_SYNC_CONFIG: SyncConfig = {
   updateStatus: true,
   updateProgress: true,
   overwriteExisting: false,
+  customListRules: [],
+  threeWayMerge: true,
+  verifyAfterSync: false,
 };
 
 /**
@@ -659,6 +869,26 @@ export interface CustomRulesConfig {
   acceptRules: CustomRule[];
 }
 
+/**
+ * Metadata fields that custom list rules can target during sync.
+ * For these rules, "status" refers to the Kenmei reading status.
+ * @source
+ */
+export type CustomListRuleTarget = Extract<
+  CustomRuleTarget,
+  "status" | "format" | "country" | "genres"
+>;
+
+/**
+ * Regex-based rule that assigns AniList custom lists to entries during sync.
+ * @source
+ */
+export interface CustomListRule extends Omit<CustomRule, "targetFields"> {
+  targetFields: CustomListRuleTarget[];
+  customLists: string[];
+  hiddenFromStatusLists: boolean;
+}
+
 /**
  * Configuration for the blacklist feature.
  * @source
@@ -700,6 +930,32 @@ export const DEFAULT_TITLE_NORMALIZATION_CACHE: TitleNormalizationCache = {
   version: 1,
 };
 
+/**
+ * How a candidate's MangaDex provenance is treated by the auto-accept policy.
+ * - `ignore`: Provenance does not affect the decision.
+ * - `trust`: Candidates found through a MangaDex entry's AniList link are accepted even below the confidence and margin minimums.
+ * - `require`: Only candidates found through a MangaDex entry's AniList link are accepted.
+ * @source
+ */
+export type AutoAcceptProvenanceMode = "ignore" | "trust" | "require";
+
+/**
+ * Policy for accepting high-confidence matches without review.
+ * @source
+ */
+export interface AutoAcceptPolicyConfig {
+  enabled: boolean;
+  /** Minimum confidence (0-100) of the top candidate. */
+  minConfidence: number;
+  /** Minimum lead in confidence points over the next distinct candidate. */
+  minMargin: number;
+  /** AniList formats the top candidate may have; empty allows any. */
+  allowedFormats: string[];
+  /** Countries of origin the top candidate may have; empty allows any. */
+  allowedCountries: string[];
+  mangaDexLink: AutoAcceptProvenanceMode;
+}
+
 export interface MatchConfig {
   shouldIgnoreOneShots: boolean;
   shouldIgnoreAdultContent: boolean;
@@ -709,6 +965,7 @@ export interface MatchConfig {
   enableExtraTitleSearches: boolean;
   customRules?: CustomRulesConfig;
   blacklist?: BlacklistConfig;
+  autoAcceptPolicy?: AutoAcceptPolicyConfig;
 }
 
 /**
@@ -731,6 +988,12 @@ export interface BackupScheduleConfig {
   backupLocation: string;
   autoBackupBeforeSync: boolean;
   autoBackupBeforeMatch: boolean;
+  /** Write backups as gzip-compressed containers instead of plain JSON */
+  compressBackups: boolean;
+  /** Encrypt backup containers with the passphrase kept by the main process */
+  encryptBackups: boolean;
+  /** Categories of data written to backups; the data category is always included */
+  backupCategories: BackupCategory[];
 }
 
 /**
@@ -747,6 +1010,50 @@ export const DEFAULT_BACKUP_SCHEDULE_CONFIG: BackupScheduleConfig = {
   backupLocation: "",
   autoBackupBeforeSync: false,
   autoBackupBeforeMatch: false,
+  compressBackups: false,
+  encryptBackups: false,
+  backupCategories: ["data", "settings", "caches", "history"],
+};
+
+/**
+ * How often the watched export folder is checked.
+ * @source
+ */
+export type ExportWatchInterval = "hourly" | "daily" | "weekly";
+
+/**
+ * Watched Kenmei export folder configuration, scheduled like automatic backups.
+ * @property enabled - Whether the folder is checked on a schedule.
+ * @property folderPath - Absolute path of the folder to watch.
+ * @property interval - How often the folder is checked.
+ * @property autoSync - Whether high-confidence matches for new titles are synced automatically.
+ * @property autoSyncConfidenceThreshold - Minimum match confidence (0-100) for auto-sync.
+ * @property lastCheckTimestamp - When the folder was last checked.
+ * @property nextCheckTimestamp - When the folder will next be checked.
+ * @source
+ */
+export interface ExportWatcherConfig {
+  enabled: boolean;
+  folderPath: string;
+  interval: ExportWatchInterval;
+  autoSync: boolean;
+  autoSyncConfidenceThreshold: number;
+  lastCheckTimestamp: number | null;
+  nextCheckTimestamp: number | null;
+}
+
+/**
+ * Default watched export folder configuration.
+ * @source
+ */
+export const DEFAULT_EXPORT_WATCHER_CONFIG: ExportWatcherConfig = {
+  enabled: false,
+  folderPath: "",
+  interval: "daily",
+  autoSync: false,
+  autoSyncConfidenceThreshold: 90,
+  lastCheckTimestamp: null,
+  nextCheckTimestamp: null,
 };
 
 /**
@@ -860,6 +1167,19 @@ export const MAX_READING_HISTORY_ENTRIES = 365;
  */
 export const MAX_IGNORED_DUPLICATES = 100;
 
+/**
+ * Default auto-accept policy. Disabled until the user opts in.
+ * @source
+ */
+export const DEFAULT_AUTO_ACCEPT_POLICY: AutoAcceptPolicyConfig = {
+  enabled: false,
+  minConfidence: 95,
+  minMargin: 15,
+  allowedFormats: [],
+  allowedCountries: [],
+  mangaDexLink: "ignore",
+};
+
 /**
  * Default match configuration.
  * @source
@@ -890,6 +1210,7 @@ export const DEFAULT_MATCH_CONFIG: MatchConfig = {
       },
     ],
   },
+  autoAcceptPolicy: DEFAULT_AUTO_ACCEPT_POLICY,
 };
 
 /**
@@ -1116,6 +1437,7 @@ export function mergeMatchResults(newResults: MatchResult[]): MatchResult[] {
           status: existingMatch.status,
           selectedMatch: existingMatch.selectedMatch,
           matchDate: existingMatch.matchDate,
+          autoAccept: existingMatch.autoAccept,
         };
       }
 
@@ -1210,7 +1532,14 @@ export function saveSyncConfig(config: SyncConfig): void {
 export function getSyncConfig(): SyncConfig {
   try {
     const config = storage.getItem(STORAGE_KEYS.SYNC_CONFIG);
-    return config ? JSON.parse(config) : DEFAULT_SYNC_CONFIG;
+    if (!config) return DEFAULT_SYNC_CONFIG;
+
+    // Merge with defaults so options added after the config was saved are populated
+    const parsed = { ...DEFAULT_SYNC_CONFIG, ...JSON.parse(config) };
+    parsed.customListRules = Array.isArray(parsed.customListRules)
+      ? parsed.customListRules.map(migrateCustomListRule)
+      : [];
+    return parsed;
   } catch (error) {
     console.error("[Storage] Error retrieving sync config from storage", error);
     return DEFAULT_SYNC_CONFIG;
@@ -1948,6 +2277,16 @@ export function incrementRetryCount(id: string): void {
   }
 }
 
+/**
+ * Partial reading date stored with a failed sync operation (mirrors AniList's FuzzyDate).
+ * @source
+ */
+export interface FailedSyncFuzzyDate {
+  year?: number | null;
+  month?: number | null;
+  day?: number | null;
+}
+
 /**
  * Data payload for a failed sync operation.
  * @source
@@ -1962,12 +2301,21 @@ export interface FailedSyncOperationData {
   coverImage?: string | null;
   error: string;
   errorCode?: string;
+  // Extended list fields to write on retry
+  progressVolumes?: number;
+  notes?: string;
+  startedAt?: FailedSyncFuzzyDate | null;
+  completedAt?: FailedSyncFuzzyDate | null;
   // Sync configuration snapshot for faithful retry
   previousValues?: {
     status: string;
     progress: number;
     score: number;
     private: boolean;
+    progressVolumes?: number;
+    notes?: string | null;
+    startedAt?: FailedSyncFuzzyDate | null;
+    completedAt?: FailedSyncFuzzyDate | null;
   } | null;
   syncMetadata?: {
     useIncrementalSync: boolean;
@@ -1996,6 +2344,10 @@ export function addFailedSyncOperation(
     coverImage,
     error,
     errorCode,
+    progressVolumes,
+    notes,
+    startedAt,
+    completedAt,
     previousValues,
     syncMetadata,
   } = data;
@@ -2011,6 +2363,10 @@ export function addFailedSyncOperation(
       score,
       private: isPrivate ?? false,
       coverImage,
+      progressVolumes,
+      notes,
+      startedAt,
+      completedAt,
       previousValues: previousValues ?? null,
       syncMetadata: syncMetadata ?? null,
     },
@@ -2234,6 +2590,70 @@ export function migrateCustomRule(rule: Partial<CustomRule>): CustomRule {
   };
 }
 
+/**
+ * Valid targets for custom list rules.
+ * @source
+ */
+export const CUSTOM_LIST_RULE_TARGETS: CustomListRuleTarget[] = [
+  "status",
+  "format",
+  "country",
+  "genres",
+];
+
+/**
+ * Validates a custom list rule using the custom rule checks plus list assignment checks.
+ * @param rule - The rule to validate.
+ * @returns Validation result with error or warning messages.
+ * @source
+ */
+export function validateCustomListRule(rule: CustomListRule): {
+  valid: boolean;
+  error?: string;
+  warning?: CustomRuleWarningId;
+} {
+  const invalidTargets = rule.targetFields.filter(
+    (field) => !CUSTOM_LIST_RULE_TARGETS.includes(field),
+  );
+  if (invalidTargets.length > 0) {
+    return {
+      valid: false,
+      error: `Invalid target field(s): ${invalidTargets.join(", ")}`,
+    };
+  }
+
+  // Hidden entries must stay in a custom list, otherwise AniList stops returning them
+  if (!rule.customLists.some((list) => list.trim() !== "")) {
+    return { valid: false, error: "At least one custom list is required" };
+  }
+
+  return validateCustomRule(rule);
+}
+
+/**
+ * Migrates a custom list rule to the current format.
+ * @param rule - Partial rule (may be missing fields).
+ * @returns Complete rule with all required properties.
+ * @source
+ */
+export function migrateCustomListRule(
+  rule: Partial<CustomListRule>,
+): CustomListRule {
+  const base = migrateCustomRule({ ...rule, targetFields: undefined });
+  const targetFields = (rule.targetFields ?? []).filter((field) =>
+    CUSTOM_LIST_RULE_TARGETS.includes(field),
+  );
+
+  return {
+    ...base,
+    targetFields: targetFields.length > 0 ? targetFields : ["format"],
+    customLists: Array.isArray(rule.customLists)
+      ? rule.customLists.map((list) => list.trim()).filter(Boolean)
+      : [],
+    hiddenFromStatusLists: rule.hiddenFromStatusLists ?? false,
+  };
+}
+
 /**
  * AniList entry marked as ignored duplicate.
  * The ignored list is expected to stay small per user, persists until manually modified, and is only trimmed when it exceeds `MAX_IGNORED_DUPLICATES`.
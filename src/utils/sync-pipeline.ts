@@ -0,0 +1,222 @@
+/**
+ * @packageDocumentation
+ * @module sync-pipeline
+ * @description Steps every sync run takes around its AniList writes: the automatic pre-sync backup, the rollback snapshot, post-sync verification, sync history, and reading history. Free of React so unattended syncs (the export watcher) go through the same pipeline as the sync page.
+ */
+
+import * as Sentry from "@sentry/electron/renderer";
+import { syncMangaBatch, type SyncReport } from "../api/anilist/sync-service";
+import type { AniListMediaEntry, ScoreFormat } from "../api/anilist/types";
+import {
+  verifySyncedEntries,
+  type SyncVerificationReport,
+} from "../api/anilist/sync-verification";
+import { createSyncRollbackSnapshot } from "../api/anilist/sync-rollback";
+import { saveSyncReportToHistory } from "./export-utils";
+import {
+  getSavedMatchResults,
+  getSyncConfig,
+  recordReadingHistory,
+  type ReadingHistoryEntry,
+} from "./storage";
+import {
+  estimateSyncDurationMs,
+  getTokenExpiryStatus,
+} from "./token-lifecycle";
+
+/**
+ * Creates a silent backup when automatic backups before sync are enabled.
+ * Failures are logged and recorded as breadcrumbs but never block the sync.
+ * @source
+ */
+export async function createAutomaticBackupBeforeSync(): Promise<void> {
+  // Verify Electron backup context is available
+  if (!globalThis.electronBackup?.getScheduleConfig) {
+    console.warn(
+      "[Synchronization] ⚠️ Electron backup context not available - skipping automatic backup",
+    );
+    return;
+  }
+
+  // Get schedule config and check if automatic backup before sync is enabled
+  const config = await globalThis.electronBackup.getScheduleConfig();
+  if (!config.autoBackupBeforeSync) {
+    return;
+  }
+
+  try {
+    console.info(
+      "[Synchronization] 📦 Creating automatic silent backup before sync...",
+    );
+    const result = await globalThis.electronBackup.createNow();
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to create backup");
+    }
+
+    console.info(
+      `[Synchronization] ✅ Automatic backup created successfully: ${result.backupId}`,
+    );
+    Sentry.addBreadcrumb({
+      category: "backup",
+      message: "Automatic backup created before sync",
+      level: "info",
+      data: {
+        backupId: result.backupId,
+      },
+    });
+  } catch (backupError) {
+    console.warn(
+      "[Synchronization] ⚠️ Automatic backup failed (non-blocking):",
+      backupError,
+    );
+    Sentry.addBreadcrumb({
+      category: "backup",
+      message: "Automatic backup failed before sync",
+      level: "warning",
+      data: {
+        error:
+          backupError instanceof Error
+            ? backupError.message
+            : String(backupError),
+      },
+    });
+  }
+}
+
+/**
+ * Records reading history snapshots after a successful sync.
+ * Captures current chapter progress for all matched manga; failures are non-blocking.
+ * @source
+ */
+export function recordSyncReadingHistory(): void {
+  try {
+    const matchResults = getSavedMatchResults();
+    if (!matchResults || matchResults.length === 0) return;
+
+    const now = Date.now();
+    const historyEntries: ReadingHistoryEntry[] = [];
+
+    for (const match of matchResults) {
+      // Only record for matched/manual entries with chapter progress
+      if (!["matched", "manual"].includes(match.status ?? "")) continue;
+      if (!match.kenmeiManga?.chaptersRead) continue;
+      if (match.kenmeiManga.chaptersRead <= 0) continue;
+
+      // Prefer reading time from kenmeiManga.last_read_at if available
+      let timestamp = now;
+      if (match.kenmeiManga.lastReadAt) {
+        const readTime = new Date(match.kenmeiManga.lastReadAt).getTime();
+        if (!Number.isNaN(readTime)) {
+          timestamp = readTime;
+        }
+      }
+
+      historyEntries.push({
+        timestamp,
+        mangaId: match.kenmeiManga.id,
+        title: match.kenmeiManga.title,
+        chaptersRead: match.kenmeiManga.chaptersRead,
+        status: match.kenmeiManga.status || "unknown",
+        anilistId: match.selectedMatch?.id,
+      });
+    }
+
+    if (historyEntries.length > 0) {
+      recordReadingHistory(historyEntries);
+      console.info(
+        `[Synchronization] 📊 Recorded reading history: ${historyEntries.length} entries`,
+      );
+    }
+  } catch (error) {
+    console.warn(
+      "[Synchronization] ⚠️ Failed to record reading history (non-blocking):",
+      error,
+    );
+  }
+}
+
+/**
+ * Re-reads AniList and checks the entries that synced successfully in a run.
+ * @param entries - Entries passed to the sync run.
+ * @param syncReport - Report for the run.
+ * @param token - AniList authentication token.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @returns Verification section for the report.
+ * @source
+ */
+export async function verifySyncRun(
+  entries: AniListMediaEntry[],
+  syncReport: SyncReport,
+  token: string,
+  scoreFormat: ScoreFormat,
+): Promise<SyncVerificationReport> {
+  const failedIds = new Set(syncReport.errors.map((e) => e.mediaId));
+  const syncedEntries = Array.from(
+    new Map(
+      entries
+        .filter((entry) => !failedIds.has(entry.mediaId))
+        .map((entry) => [entry.mediaId, entry]),
+    ).values(),
+  );
+
+  console.info(
+    `[Synchronization] 🔎 Verifying ${syncedEntries.length} synced entries against AniList`,
+  );
+  return verifySyncedEntries(syncedEntries, token, scoreFormat);
+}
+
+/**
+ * Runs a sync without the sync page: refuses an expired token, backs up, snapshots for rollback,
+ * writes the entries, verifies them when enabled, and saves the report to sync history.
+ * @param entries - Prepared entries to write.
+ * @param token - AniList access token.
+ * @param scoreFormat - Viewer's AniList score format.
+ * @param tokenExpiresAt - Expiry of the token in epoch milliseconds, when known.
+ * @returns The saved sync report, or null when the token would expire before the sync finishes.
+ * @source
+ */
+export async function runUnattendedSync(
+  entries: AniListMediaEntry[],
+  token: string,
+  scoreFormat: ScoreFormat,
+  tokenExpiresAt?: number,
+): Promise<SyncReport | null> {
+  const tokenExpiry = getTokenExpiryStatus(
+    { accessToken: token, expiresAt: tokenExpiresAt },
+    { requiredMs: estimateSyncDurationMs(entries.length) },
+  );
+  if (tokenExpiry === "expired") {
+    console.warn(
+      "[Synchronization] ⚠️ Access token expired - unattended sync not started",
+    );
+    return null;
+  }
+
+  await createAutomaticBackupBeforeSync();
+  // Capture pre-sync AniList values (and merge baselines) before anything is written
+  const rollbackSnapshot = createSyncRollbackSnapshot(entries);
+
+  let syncReport: SyncReport = {
+    ...(await syncMangaBatch(entries, token)),
+    rollback: rollbackSnapshot,
+  };
+
+  if (getSyncConfig().verifyAfterSync && syncReport.successfulUpdates > 0) {
+    syncReport = {
+      ...syncReport,
+      verification: await verifySyncRun(
+        entries,
+        syncReport,
+        token,
+        scoreFormat,
+      ),
+    };
+  }
+
+  saveSyncReportToHistory(syncReport);
+  if (syncReport.successfulUpdates > 0) {
+    recordSyncReadingHistory();
+  }
+  return syncReport;
+}
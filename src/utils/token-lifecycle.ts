@@ -0,0 +1,130 @@
+/**
+ * @packageDocumentation
+ * @module token-lifecycle
+ * @description AniList access token expiry checks used to warn before a token runs out and to gate long-running operations (matching, sync) on a token that will outlive them.
+ */
+
+import {
+  createError,
+  ErrorRecoveryAction,
+  ErrorType,
+  type AppError,
+} from "./error-handling";
+
+/**
+ * How an access token's remaining lifetime compares to what an operation needs.
+ * - `valid`: The token outlives the operation and is not close to expiry.
+ * - `expiring`: The token is still usable but expires soon or before the operation would finish.
+ * - `expired`: The token has expired (or is within the safety margin of expiring).
+ * - `missing`: There is no token.
+ * @source
+ */
+export type TokenExpiryStatus = "valid" | "expiring" | "expired" | "missing";
+
+/**
+ * Lead time before expiry at which the user is warned to re-authenticate.
+ * @source
+ */
+export const TOKEN_EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tokens closer than this to expiry are treated as expired, so a request in flight never carries a dying token.
+ * @source
+ */
+export const TOKEN_EXPIRY_SAFETY_MARGIN_MS = 5 * 60 * 1000;
+
+/** Rough AniList time per synced entry (one to three requests under the rate limit). */
+const SYNC_MS_PER_ENTRY = 1500;
+
+/** Rough AniList time per matched title (one or two searches under the rate limit). */
+const MATCH_MS_PER_TITLE = 2000;
+
+/**
+ * Returns how long a token remains usable, excluding the safety margin.
+ * @param expiresAt - Token expiry timestamp in milliseconds.
+ * @param now - Current timestamp (defaults to Date.now()).
+ * @returns Remaining milliseconds (0 if expired), or null if the expiry is unknown.
+ * @source
+ */
+export function getTokenTimeRemaining(
+  expiresAt: number | undefined,
+  now = Date.now(),
+): number | null {
+  if (!expiresAt) return null;
+  return Math.max(0, expiresAt - TOKEN_EXPIRY_SAFETY_MARGIN_MS - now);
+}
+
+/**
+ * Classifies a token's remaining lifetime, optionally against an operation's expected duration.
+ * @param token - Access token and its expiry timestamp.
+ * @param options - Expected duration of the operation about to run, and the current time.
+ * @returns The token's expiry status.
+ * @source
+ */
+export function getTokenExpiryStatus(
+  token: { accessToken?: string; expiresAt?: number },
+  options: { requiredMs?: number; now?: number } = {},
+): TokenExpiryStatus {
+  if (!token.accessToken) return "missing";
+
+  const remaining = getTokenTimeRemaining(token.expiresAt, options.now);
+  // Tokens saved without an expiry are trusted until a request fails
+  if (remaining === null) return "valid";
+  if (remaining <= 0) return "expired";
+
+  const requiredMs = options.requiredMs ?? 0;
+  return remaining <= Math.max(requiredMs, TOKEN_EXPIRY_WARNING_MS)
+    ? "expiring"
+    : "valid";
+}
+
+/**
+ * Estimates how long a sync of the given size takes under the AniList rate limit.
+ * @param entryCount - Number of entries to sync.
+ * @returns Estimated duration in milliseconds.
+ * @source
+ */
+export function estimateSyncDurationMs(entryCount: number): number {
+  return entryCount * SYNC_MS_PER_ENTRY;
+}
+
+/**
+ * Estimates how long matching the given number of titles takes under the AniList rate limit.
+ * @param titleCount - Number of titles to match.
+ * @returns Estimated duration in milliseconds.
+ * @source
+ */
+export function estimateMatchDurationMs(titleCount: number): number {
+  return titleCount * MATCH_MS_PER_TITLE;
+}
+
+/**
+ * Formats a remaining token lifetime for warnings, e.g. "3 hours" or "12 minutes".
+ * @param ms - Duration in milliseconds.
+ * @returns Human-readable duration.
+ * @source
+ */
+export function formatTokenTimeRemaining(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60_000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Builds the error shown when an operation is blocked by an expired or missing token.
+ * Carries the refresh-token recovery action so notifications offer re-authentication.
+ * @param operation - Name of the blocked operation, e.g. "sync".
+ * @returns Application error for the blocked operation.
+ * @source
+ */
+export function createTokenExpiredError(operation: string): AppError {
+  return createError(
+    ErrorType.AUTH,
+    `Your AniList session has expired. Re-authenticate to continue the ${operation}.`,
+    undefined,
+    "TOKEN_EXPIRED",
+    ErrorRecoveryAction.REFRESH_TOKEN,
+    "Your session has expired. Please log in again.",
+  );
+}
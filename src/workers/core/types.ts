@@ -12,6 +12,10 @@ import type {
 import type { MatchEngineConfig } from "@/api/matching/match-engine";
 import type { AdvancedMatchFilters } from "@/types/matching-filters";
 import type { IFuseOptions } from "fuse.js";
+import type {
+  CsvColumnMapping,
+  CsvRowError,
+} from "@/api/importers/csv-mapping/types";
 
 /**
  * Inbound request to start a batch matching operation in the worker.
@@ -113,6 +117,8 @@ export interface CSVStartMessage {
     totalSize: number;
     options: {
       defaultStatus: KenmeiStatus;
+      /** Column mapping to apply instead of the Kenmei header aliases. */
+      mapping?: CsvColumnMapping;
     };
   };
 }
@@ -159,11 +165,16 @@ export interface CSVCancelledMessage {
   };
 }
 
+/**
+ * Outbound batch of parsed CSV rows, with row validation errors when a column mapping is applied.
+ * @source
+ */
 export interface CSVRowsMessage {
   type: "CSV_ROWS";
   payload: {
     taskId: string;
     rows: KenmeiManga[];
+    errors?: CsvRowError[];
   };
 }
 
@@ -506,7 +517,10 @@ export interface BatchSyncResultMessage {
   payload: {
     taskId: string;
     operations: PreparedSyncOperation[];
+    /** Requests the sync sends when every batch succeeds, i.e. `mutationBatches.length`. */
     totalApiCallsEstimate: number;
+    /** Entries packed into aliased mutation batches, assuming every request succeeds. */
+    mutationBatches: Array<Array<{ mediaId: number; step: number }>>;
     failedEntries: Array<{
       mediaId: number;
       error: string;
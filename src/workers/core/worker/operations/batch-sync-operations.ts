@@ -3,6 +3,7 @@ import {
   determineIncrementalSteps,
   buildVariablesForStep,
 } from "@/api/anilist/incremental-sync";
+import { packMutationBatches } from "@/api/anilist/mutation-batching";
 import type {
   BatchSyncMessage,
   BatchSyncProgressMessage,
@@ -152,7 +153,6 @@ export async function handleBatchSync(
 
     const operations: PreparedSyncOperation[] = [];
     const failedEntries: Array<{ mediaId: number; error: string }> = [];
-    let totalApiCallsEstimate = 0;
 
     for (let i = 0; i < mediaIds.length; i++) {
       if (!activeTasks.has(taskId)) {
@@ -191,7 +191,6 @@ export async function handleBatchSync(
         };
 
         operations.push(operation);
-        totalApiCallsEstimate += steps.length;
 
         if ((i + 1) % 10 === 0) {
           const progressMsg: BatchSyncProgressMessage = {
@@ -239,6 +238,20 @@ export async function handleBatchSync(
     };
     globalThis.postMessage(progressMsg3);
 
+    // Pack independent entries into aliased mutation batches, keeping each media's steps in order
+    const mutationBatches = packMutationBatches(
+      Object.fromEntries(
+        operations.map((operation) => [operation.mediaId, operation.entries]),
+      ),
+      operations.map((operation) => operation.mediaId),
+    ).map((slots) =>
+      slots.map(({ entry }) => ({
+        mediaId: entry.mediaId,
+        step: entry.syncMetadata?.step || 1,
+      })),
+    );
+    const totalApiCallsEstimate = mutationBatches.length;
+
     const totalTime = performance.now() - startTime;
 
     const resultMsg: BatchSyncResultMessage = {
@@ -247,12 +260,13 @@ export async function handleBatchSync(
         taskId,
         operations,
         totalApiCallsEstimate,
+        mutationBatches,
         failedEntries,
       },
     };
 
     console.info(
-      `[Worker] ✅ Batch sync pre-processing completed: ${operations.length} operations, ${totalApiCallsEstimate} estimated API calls, ${failedEntries.length} failures (${totalTime.toFixed(2)}ms)`,
+      `[Worker] ✅ Batch sync pre-processing completed: ${operations.length} operations, ${totalApiCallsEstimate} batched API calls, ${failedEntries.length} failures (${totalTime.toFixed(2)}ms)`,
     );
 
     globalThis.postMessage(resultMsg);
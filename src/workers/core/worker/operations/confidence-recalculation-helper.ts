@@ -1,6 +1,6 @@
 import type { MangaMatchResult } from "@/api/anilist/types";
 import type { MatchEngineConfig } from "@/api/matching/match-engine";
-import { calculateConfidence } from "@/api/matching/scoring";
+import { calculateConfidenceBreakdown } from "@/api/matching/scoring";
 
 export interface ConfidenceRecalculationMatchContext {
   index: number;
@@ -63,7 +63,7 @@ function recordFailure(
 
 export async function recalculateConfidenceForMatches(
   matches: MangaMatchResult[],
-  _config: Partial<MatchEngineConfig>,
+  config: Partial<MatchEngineConfig>,
   options: ConfidenceRecalculationLoopOptions = {},
 ): Promise<ConfidenceRecalculationLoopResult> {
   const total = matches.length;
@@ -94,11 +94,15 @@ export async function recalculateConfidenceForMatches(
     if (match.anilistMatches?.length) {
       const recalculatedMatches = match.anilistMatches.map((candidate) => {
         let nextConfidence = candidate.confidence;
+        let nextBreakdown = candidate.scoreBreakdown;
         try {
-          nextConfidence = calculateConfidence(
+          const { confidence, breakdown } = calculateConfidenceBreakdown(
             match.kenmeiManga.title,
             candidate.manga,
+            config.confidenceCurve,
           );
+          nextConfidence = confidence;
+          nextBreakdown = breakdown;
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : String(error);
@@ -121,6 +125,7 @@ export async function recalculateConfidenceForMatches(
         return {
           ...candidate,
           confidence: nextConfidence,
+          scoreBreakdown: nextBreakdown,
         };
       });
 
@@ -131,9 +136,10 @@ export async function recalculateConfidenceForMatches(
     }
 
     if (!updatedMatch.anilistMatches?.length && match.selectedMatch) {
-      const selectedConfidence = calculateConfidence(
+      const { confidence, breakdown } = calculateConfidenceBreakdown(
         match.kenmeiManga.title,
         match.selectedMatch,
+        config.confidenceCurve,
       );
 
       updatedMatch = {
@@ -141,7 +147,8 @@ export async function recalculateConfidenceForMatches(
         anilistMatches: [
           {
             manga: match.selectedMatch,
-            confidence: selectedConfidence,
+            confidence,
+            scoreBreakdown: breakdown,
           },
         ],
       };
@@ -1,4 +1,5 @@
 import type { KenmeiManga } from "@/api/kenmei/types";
+import type { CsvRowError } from "@/api/importers/csv-mapping/types";
 import type { CSVParserState } from "../types";
 import type { CSVStartMessage, CSVChunkMessage } from "../../types";
 import { getErrorDetails } from "../error-utils";
@@ -65,19 +66,36 @@ function splitCsvLines(csv: string): { lines: string[]; remainder: string } {
 
 /**
  * Parses accumulated CSV text and returns parsed manga entries.
- * Uses the public parseKenmeiCsvExport API for incremental segment parsing.
+ * Uses the public parseKenmeiCsvExport API for incremental segment parsing,
+ * or applies the task's column mapping and queues its row errors when one was given.
  * Throws raw errors to be handled by the outermost handler.
  * @source
  */
 async function parseCsvBufferSegment(
   csvText: string,
-  defaultStatus: string,
+  state: CSVParserState,
 ): Promise<KenmeiManga[]> {
+  if (state.mapping) {
+    const { parseCSVRows } = await import("@/api/kenmei/parser");
+    const { applyCsvColumnMapping } = await import(
+      "@/api/importers/csv-mapping/mapping"
+    );
+
+    const result = applyCsvColumnMapping(parseCSVRows(csvText), state.mapping, {
+      defaultStatus: state.defaultStatus,
+      rowOffset: state.mappedRowCount ?? 0,
+    });
+    state.mappedRowCount = (state.mappedRowCount ?? 0) + result.rowCount;
+    state.pendingErrors ??= [];
+    state.pendingErrors.push(...result.errors);
+    return result.manga;
+  }
+
   const { parseKenmeiCsvExport } = await import("@/api/kenmei/parser");
 
   // Parse the CSV segment with the public API
   const exportData = parseKenmeiCsvExport(csvText, {
-    defaultStatus: defaultStatus as import("@/api/kenmei/types").KenmeiStatus,
+    defaultStatus: state.defaultStatus,
     validateStructure: true,
     allowPartialData: true, // Allow partial data since we're streaming
   });
@@ -85,6 +103,17 @@ async function parseCsvBufferSegment(
   return exportData.manga;
 }
 
+/**
+ * Removes and returns row errors queued since the last CSV_ROWS message.
+ * @param state - Parser state.
+ * @returns Queued errors, or undefined when the task has no column mapping.
+ * @source
+ */
+function takePendingErrors(state: CSVParserState): CsvRowError[] | undefined {
+  if (!state.mapping) return undefined;
+  return state.pendingErrors?.splice(0) ?? [];
+}
+
 /**
  * Initializes a new CSV parsing task with incremental/streaming parser state.
  * Tracks partial lines across chunks and accumulates parsed rows for progressive output.
@@ -132,6 +161,7 @@ export function handleCsvStart(
     defaultStatus: options.defaultStatus ?? "plan_to_read",
     startTime: performance.now(),
     isComplete: false,
+    mapping: options.mapping,
   };
 
   csvParserStates.set(taskId, state);
@@ -192,6 +222,7 @@ async function processCsvChunkIncremental(
         payload: {
           taskId: state.taskId,
           rows: batchToEmit,
+          errors: takePendingErrors(state),
         },
       });
 
@@ -251,10 +282,7 @@ async function flushBufferAndParseRows(
 
     if (lines.length > 0) {
       // Parse the CSV segment
-      const manga = await parseCsvBufferSegment(
-        csvWithHeader,
-        state.defaultStatus,
-      );
+      const manga = await parseCsvBufferSegment(csvWithHeader, state);
 
       newlyParsedRows = manga;
 
@@ -296,18 +324,22 @@ async function finalizeCsvParsing(
     state.pendingBatch.push(...newlyParsedRows);
   }
 
-  // Emit any remaining pending batch
-  if (state.pendingBatch && state.pendingBatch.length > 0) {
+  // Emit any remaining pending batch (or trailing row errors from skipped rows)
+  if (
+    (state.pendingBatch && state.pendingBatch.length > 0) ||
+    (state.pendingErrors && state.pendingErrors.length > 0)
+  ) {
     globalThis.postMessage({
       type: "CSV_ROWS",
       payload: {
         taskId: state.taskId,
-        rows: state.pendingBatch,
+        rows: state.pendingBatch ?? [],
+        errors: takePendingErrors(state),
       },
     });
 
     console.debug(
-      `[Worker] 📤 Emitted final CSV_ROWS batch of ${state.pendingBatch.length} rows for task ${state.taskId}`,
+      `[Worker] 📤 Emitted final CSV_ROWS batch of ${state.pendingBatch?.length ?? 0} rows for task ${state.taskId}`,
     );
   }
 
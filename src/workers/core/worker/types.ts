@@ -1,4 +1,8 @@
 import type { KenmeiStatus, KenmeiManga } from "@/api/kenmei/types";
+import type {
+  CsvColumnMapping,
+  CsvRowError,
+} from "@/api/importers/csv-mapping/types";
 
 /**
  * Tracks CSV parsing progress and metadata for a single worker task.
@@ -15,5 +19,8 @@ export interface CSVParserState {
   header?: string;
   pendingBatch?: KenmeiManga[];
   totalParsedRows?: number;
+  mapping?: CsvColumnMapping;
+  pendingErrors?: CsvRowError[];
+  mappedRowCount?: number;
   processingPromise?: Promise<void>;
 }
@@ -11,6 +11,10 @@ import type {
 import type { KenmeiManga, KenmeiStatus } from "@/api/kenmei/types";
 import { getGenericWorkerPool } from "../core/worker-pool";
 import { generateUUID } from "../core/pool-utils";
+import type {
+  CsvColumnMapping,
+  CsvRowError,
+} from "@/api/importers/csv-mapping/types";
 
 /**
  * Configuration for CSV worker pool behavior.
@@ -23,12 +27,25 @@ export interface CSVWorkerPoolConfig {
   fallbackToMainThread?: boolean;
 }
 
+/**
+ * Options for a CSV parsing task.
+ * @property defaultStatus - Status for rows without a recognized status.
+ * @property mapping - Column mapping to apply instead of the Kenmei header aliases.
+ * @source
+ */
+export interface CSVParseOptions {
+  defaultStatus?: KenmeiStatus;
+  mapping?: CsvColumnMapping;
+}
+
 /**
  * Result payload returned by CSV parsing operations.
+ * `errors` holds row validation errors and is only populated when a column mapping is applied.
  * @source
  */
 interface CSVResult {
   manga: KenmeiManga[];
+  errors: CsvRowError[];
   stats: {
     totalParsed: number;
     processingTimeMs: number;
@@ -109,7 +126,7 @@ export class CSVWorkerPool {
    */
   startParsing(
     fileContent: string,
-    options: { defaultStatus?: KenmeiStatus } = {},
+    options: CSVParseOptions = {},
     onProgress?: (progress: ProgressMessage) => void,
   ): { taskId: string; promise: Promise<CSVResult> } {
     const taskId = generateUUID();
@@ -132,7 +149,7 @@ export class CSVWorkerPool {
    */
   async parseCSVFile(
     fileContent: string,
-    options: { defaultStatus?: KenmeiStatus } = {},
+    options: CSVParseOptions = {},
     onProgress?: (progress: ProgressMessage) => void,
   ): Promise<CSVResult> {
     const { promise } = this.startParsing(fileContent, options, onProgress);
@@ -152,7 +169,7 @@ export class CSVWorkerPool {
     taskId: string,
     fileContent: string,
     onProgress?: (progress: ProgressMessage) => void,
-    options: { defaultStatus?: KenmeiStatus } = {},
+    options: CSVParseOptions = {},
   ): Promise<CSVResult> {
     return new Promise<CSVResult>((resolve, reject) => {
       const pool = getGenericWorkerPool({
@@ -202,7 +219,7 @@ export class CSVWorkerPool {
     onProgress: ((progress: ProgressMessage) => void) | undefined,
     resolve: (result: CSVResult) => void,
     reject: (error: Error) => void,
-    options: { defaultStatus?: KenmeiStatus } = {},
+    options: CSVParseOptions = {},
   ): void {
     const workerIndex = pool.selectWorker();
     if (workerIndex === -1) {
@@ -218,8 +235,9 @@ export class CSVWorkerPool {
       return;
     }
 
-    // Accumulate rows from batches during streaming
+    // Accumulate rows and row errors from batches during streaming
     const accumulatedRows: KenmeiManga[] = [];
+    const accumulatedErrors: CsvRowError[] = [];
 
     // Wrap resolve to adapt raw payload to expected CSV result shape
     const wrappedResolve = (result: {
@@ -238,12 +256,14 @@ export class CSVWorkerPool {
         // CSV_COMPLETE case - use accumulated rows and stats
         resolve({
           manga: accumulatedRows,
+          errors: accumulatedErrors,
           stats: result.stats,
         });
       } else {
         // CSV_CANCELLED case - return empty result
         resolve({
           manga: [],
+          errors: [],
           stats: {
             totalParsed: 0,
             processingTimeMs: 0,
@@ -265,6 +285,7 @@ export class CSVWorkerPool {
         if (message.type === "CSV_ROWS") {
           const csvRowsMsg = message;
           accumulatedRows.push(...csvRowsMsg.payload.rows);
+          accumulatedErrors.push(...(csvRowsMsg.payload.errors ?? []));
         }
 
         // Forward PROGRESS messages if callback provided
@@ -283,7 +304,10 @@ export class CSVWorkerPool {
       payload: {
         taskId,
         totalSize: fileContent.length,
-        options: { defaultStatus: options.defaultStatus ?? "plan_to_read" },
+        options: {
+          defaultStatus: options.defaultStatus ?? "plan_to_read",
+          mapping: options.mapping,
+        },
       },
     };
 
@@ -327,19 +351,33 @@ export class CSVWorkerPool {
    */
   private async parseCSVMainThread(
     fileContent: string,
-    options: { defaultStatus?: KenmeiStatus } = {},
+    options: CSVParseOptions = {},
   ): Promise<CSVResult> {
     try {
       const startTime = performance.now();
-      const { parseKenmeiCsvExport } = await import("@/api/kenmei/parser");
+      const { parseKenmeiCsvExport, parseCSVRows } = await import(
+        "@/api/kenmei/parser"
+      );
 
-      const result = parseKenmeiCsvExport(fileContent, {
-        defaultStatus: options.defaultStatus ?? "plan_to_read",
-      });
+      const result = options.mapping
+        ? (
+            await import("@/api/importers/csv-mapping/mapping")
+          ).applyCsvColumnMapping(
+            parseCSVRows(fileContent.replaceAll("\r\n", "\n")),
+            options.mapping,
+            { defaultStatus: options.defaultStatus },
+          )
+        : {
+            ...parseKenmeiCsvExport(fileContent, {
+              defaultStatus: options.defaultStatus ?? "plan_to_read",
+            }),
+            errors: [],
+          };
       const processingTimeMs = performance.now() - startTime;
 
       return {
         manga: result.manga,
+        errors: result.errors,
         stats: {
           totalParsed: result.manga.length,
           processingTimeMs,
@@ -72,7 +72,10 @@ export type {
 // Type exports for UI-facing result shapes
 export type { StatisticsAggregationResult } from "./statistics/statistics-worker-pool";
 export type { ReadingHistoryFilterResult } from "./statistics/reading-history-worker-pool";
-export type { CSVWorkerPoolConfig } from "./data-processing/csv-worker-pool";
+export type {
+  CSVWorkerPoolConfig,
+  CSVParseOptions,
+} from "./data-processing/csv-worker-pool";
 export type {
   NormalizationCacheResult,
   NormalizationProgressCallback,
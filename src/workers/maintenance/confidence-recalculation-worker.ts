@@ -6,6 +6,7 @@
 
 import type { MangaMatchResult } from "@/api/anilist/types";
 import type { MatchEngineConfig } from "@/api/matching/match-engine";
+import { getActiveConfidenceCurve } from "@/api/matching/scoring";
 import { getGenericWorkerPool } from "@/workers/internal";
 import type { WorkerTask, WorkerMessage } from "@/workers/internal";
 import { recalculateConfidenceForMatches } from "@/workers/core/worker/operations/confidence-recalculation-helper";
@@ -103,10 +104,15 @@ const createTaskId = () =>
  */
 export function recalculateConfidenceScores(
   matches: MangaMatchResult[],
-  config: Partial<MatchEngineConfig>,
+  matchConfig: Partial<MatchEngineConfig>,
   options: ConfidenceRecalculationOptions = {},
 ): ConfidenceRecalculationExecution {
   const taskId = createTaskId();
+  // Workers don't see the renderer's calibrated curve unless it's sent along
+  const config: Partial<MatchEngineConfig> = {
+    ...matchConfig,
+    confidenceCurve: matchConfig.confidenceCurve ?? getActiveConfidenceCurve(),
+  };
   const pool = getGenericWorkerPool();
   const { useWorkers = true, onProgress, shouldContinue, yieldEvery } = options;
   const effectiveYieldEvery =
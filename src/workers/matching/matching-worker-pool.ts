@@ -12,6 +12,7 @@ import type { KenmeiManga } from "@/api/kenmei/types";
 import type { AniListManga, MangaMatchResult } from "@/api/anilist/types";
 import type { MatchEngineConfig } from "@/api/matching/match-engine";
 import { findBestMatches } from "@/api/matching/match-engine";
+import { getActiveConfidenceCurve } from "@/api/matching/scoring";
 import { getGenericWorkerPool } from "../core/worker-pool";
 import { generateUUID } from "../core/pool-utils";
 
@@ -73,7 +74,7 @@ export class MatchingWorkerPool {
    * Executes a batch manga matching operation using a worker or the main thread.
    * @param kenmeiMangaList - Source manga entries from Kenmei.
    * @param anilistMangaMap - Candidate AniList manga grouped by key.
-   * @param config - Partial matching engine configuration.
+   * @param matchConfig - Partial matching engine configuration.
    * @param progressCallback - Optional progress callback for UI updates.
    * @param taskId - Optional external task identifier.
    * @returns Batch execution handle with aggregated promise.
@@ -82,7 +83,7 @@ export class MatchingWorkerPool {
   async executeMatchBatch(
     kenmeiMangaList: KenmeiManga[],
     anilistMangaMap: Map<string, AniListManga[]>,
-    config: Partial<MatchEngineConfig>,
+    matchConfig: Partial<MatchEngineConfig>,
     progressCallback?: (
       current: number,
       total: number,
@@ -96,6 +97,12 @@ export class MatchingWorkerPool {
     await pool.ensureInitialized();
 
     const mainTaskId = taskId || generateUUID();
+    // Workers don't see the renderer's calibrated curve unless it's sent along
+    const config: Partial<MatchEngineConfig> = {
+      ...matchConfig,
+      confidenceCurve:
+        matchConfig.confidenceCurve ?? getActiveConfidenceCurve(),
+    };
 
     const promise = new Promise<MangaMatchResult[]>((resolve, reject) => {
       if (!pool.isAvailable()) {